@@ -0,0 +1,19 @@
+-- migrate:up
+-- Pedigree diversity metrics stored alongside the cached COI on Animal.
+-- pedigreeCompleteness: per-generation share of known ancestor positions (JSON array)
+-- ancestorLossCoefficient: AVK, distinct ancestors / known ancestor positions (1.0 = no loss)
+-- meanKinship: average kinship to the tenant's active breeding population of the same species
+
+ALTER TABLE "public"."Animal"
+  ADD COLUMN "pedigreeCompleteness" jsonb,
+  ADD COLUMN "ancestorLossCoefficient" double precision,
+  ADD COLUMN "meanKinship" double precision,
+  ADD COLUMN "pedigreeMetricsCalculatedAt" timestamp(3) without time zone;
+
+-- migrate:down
+
+ALTER TABLE "public"."Animal"
+  DROP COLUMN IF EXISTS "pedigreeCompleteness",
+  DROP COLUMN IF EXISTS "ancestorLossCoefficient",
+  DROP COLUMN IF EXISTS "meanKinship",
+  DROP COLUMN IF EXISTS "pedigreeMetricsCalculatedAt";
@@ -0,0 +1,38 @@
+-- migrate:up transaction:false
+-- Dedupe log for the notify_waitlist_on_photos program rule.
+-- One row per (offspring, waitlist entry) once the waitlist member has been
+-- emailed that photos are available, so re-running the rule never re-sends.
+
+CREATE TABLE "public"."WaitlistPhotoNotification" (
+  "id" SERIAL PRIMARY KEY,
+  "tenantId" integer NOT NULL,
+  "offspringId" integer NOT NULL,
+  "waitlistEntryId" integer NOT NULL,
+  "partyId" integer,
+  "ruleId" integer,
+  "photoCount" integer NOT NULL,
+  "notifiedAt" timestamp(3) without time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  CONSTRAINT "WaitlistPhotoNotification_tenantId_fkey"
+    FOREIGN KEY ("tenantId") REFERENCES "public"."Tenant"(id)
+    ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT "WaitlistPhotoNotification_offspringId_fkey"
+    FOREIGN KEY ("offspringId") REFERENCES "public"."Offspring"(id)
+    ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT "WaitlistPhotoNotification_waitlistEntryId_fkey"
+    FOREIGN KEY ("waitlistEntryId") REFERENCES "public"."WaitlistEntry"(id)
+    ON UPDATE CASCADE ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX "WaitlistPhotoNotification_offspringId_waitlistEntryId_key"
+  ON "public"."WaitlistPhotoNotification" USING btree ("offspringId", "waitlistEntryId");
+CREATE INDEX "WaitlistPhotoNotification_tenantId_idx"
+  ON "public"."WaitlistPhotoNotification" USING btree ("tenantId");
+CREATE INDEX "WaitlistPhotoNotification_waitlistEntryId_idx"
+  ON "public"."WaitlistPhotoNotification" USING btree ("waitlistEntryId");
+
+-- Breeder-facing summary notification when waitlist members are emailed
+ALTER TYPE "public"."NotificationType" ADD VALUE IF NOT EXISTS 'waitlist_photos_shared';
+
+-- migrate:down
+-- PostgreSQL cannot remove enum values; only the table is dropped
+DROP TABLE IF EXISTS "public"."WaitlistPhotoNotification";
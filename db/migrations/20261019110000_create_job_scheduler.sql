@@ -0,0 +1,48 @@
+-- migrate:up
+-- Shared background job scheduler.
+-- JobLease holds the scheduler leadership lease so only one API instance runs
+-- scheduled jobs; JobRun is the persisted run history (one row per run, with
+-- attempts, duration and the last error).
+
+CREATE TYPE "public"."JobRunStatus" AS ENUM (
+  'running',
+  'succeeded',
+  'failed'
+);
+
+CREATE TABLE "public"."JobLease" (
+  "name" text PRIMARY KEY,
+  "holderId" text NOT NULL,
+  "acquiredAt" timestamp(3) without time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  "expiresAt" timestamp(3) without time zone NOT NULL
+);
+
+CREATE TABLE "public"."JobRun" (
+  "id" SERIAL PRIMARY KEY,
+  "jobName" text NOT NULL,
+  "trigger" text NOT NULL,
+  "status" "public"."JobRunStatus" DEFAULT 'running' NOT NULL,
+  "scheduledFor" timestamp(3) without time zone,
+  "attempts" integer DEFAULT 0 NOT NULL,
+  "instanceId" text NOT NULL,
+  "triggeredByUserId" text,
+  "startedAt" timestamp(3) without time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  "finishedAt" timestamp(3) without time zone,
+  "durationMs" integer,
+  "error" text,
+  "result" jsonb
+);
+
+-- A scheduled tick is claimed once, even across a leadership hand-over.
+-- Manual and startup runs have no scheduledFor and are not constrained.
+CREATE UNIQUE INDEX "JobRun_jobName_scheduledFor_key"
+  ON "public"."JobRun" USING btree ("jobName", "scheduledFor");
+CREATE INDEX "JobRun_jobName_startedAt_idx"
+  ON "public"."JobRun" USING btree ("jobName", "startedAt");
+CREATE INDEX "JobRun_status_idx"
+  ON "public"."JobRun" USING btree ("status");
+
+-- migrate:down
+DROP TABLE IF EXISTS "public"."JobRun";
+DROP TABLE IF EXISTS "public"."JobLease";
+DROP TYPE IF EXISTS "public"."JobRunStatus";
@@ -0,0 +1,9 @@
+-- migrate:up transaction:false
+-- Pregnancy-check milestones for cattle and swine: a return-to-heat check
+-- around day 21 and a later re-confirmation (cattle).
+
+ALTER TYPE "public"."MilestoneType" ADD VALUE IF NOT EXISTS 'RETURN_TO_HEAT_CHECK';
+ALTER TYPE "public"."MilestoneType" ADD VALUE IF NOT EXISTS 'PREGNANCY_RECHECK';
+
+-- migrate:down
+-- PostgreSQL cannot remove enum values
@@ -0,0 +1,35 @@
+-- migrate:up
+-- Tenant-managed API keys for integrations (API_ACCESS entitlement).
+-- Keys are stored as SHA-256 hashes; "prefix" is the non-secret leading part
+-- of the key used to identify it in the UI.
+
+CREATE TABLE "public"."ApiKey" (
+  "id" SERIAL PRIMARY KEY,
+  "tenantId" integer NOT NULL,
+  "name" varchar(100) NOT NULL,
+  "prefix" varchar(32) NOT NULL,
+  "keyHash" varchar(64) NOT NULL,
+  "scopes" text[] NOT NULL DEFAULT ARRAY[]::text[],
+  "rateLimitPerMinute" integer NOT NULL DEFAULT 60,
+  "createdByUserId" text NOT NULL,
+  "lastUsedAt" timestamp(3) without time zone,
+  "lastUsedIp" varchar(64),
+  "expiresAt" timestamp(3) without time zone,
+  "revokedAt" timestamp(3) without time zone,
+  "revokedByUserId" text,
+  "createdAt" timestamp(3) without time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  "updatedAt" timestamp(3) without time zone NOT NULL,
+  CONSTRAINT "ApiKey_tenantId_fkey" FOREIGN KEY ("tenantId")
+    REFERENCES "public"."Tenant"("id") ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT "ApiKey_createdByUserId_fkey" FOREIGN KEY ("createdByUserId")
+    REFERENCES "public"."User"("id") ON UPDATE CASCADE ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX "ApiKey_prefix_key" ON "public"."ApiKey" ("prefix");
+CREATE UNIQUE INDEX "ApiKey_keyHash_key" ON "public"."ApiKey" ("keyHash");
+CREATE INDEX "ApiKey_tenantId_idx" ON "public"."ApiKey" ("tenantId");
+CREATE INDEX "ApiKey_createdByUserId_idx" ON "public"."ApiKey" ("createdByUserId");
+
+-- migrate:down
+
+DROP TABLE IF EXISTS "public"."ApiKey";
@@ -0,0 +1,29 @@
+-- migrate:up
+-- Per-user iCalendar subscription feeds. The feed URL carries a random token;
+-- only its SHA-256 is stored. "categories" selects which event kinds the feed
+-- includes (heats, breeding_milestones, due_dates, vaccinations, microchips,
+-- supplements, bookings).
+
+CREATE TABLE "public"."CalendarFeed" (
+  "id" SERIAL PRIMARY KEY,
+  "tenantId" integer NOT NULL,
+  "userId" text NOT NULL,
+  "name" varchar(100) NOT NULL,
+  "tokenHash" varchar(64) NOT NULL,
+  "categories" text[] NOT NULL DEFAULT ARRAY[]::text[],
+  "lastAccessedAt" timestamp(3) without time zone,
+  "revokedAt" timestamp(3) without time zone,
+  "createdAt" timestamp(3) without time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  "updatedAt" timestamp(3) without time zone NOT NULL,
+  CONSTRAINT "CalendarFeed_tenantId_fkey" FOREIGN KEY ("tenantId")
+    REFERENCES "public"."Tenant"("id") ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT "CalendarFeed_userId_fkey" FOREIGN KEY ("userId")
+    REFERENCES "public"."User"("id") ON UPDATE CASCADE ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX "CalendarFeed_tokenHash_key" ON "public"."CalendarFeed" ("tokenHash");
+CREATE INDEX "CalendarFeed_tenantId_userId_idx" ON "public"."CalendarFeed" ("tenantId", "userId");
+
+-- migrate:down
+
+DROP TABLE IF EXISTS "public"."CalendarFeed";
@@ -0,0 +1,22 @@
+-- migrate:up
+-- Tamper evidence for e-signed contracts.
+--   ContractContent.contentHash: SHA-256 of renderedHtml, captured when the
+--     contract is sent and re-checked before each signature.
+--   Contract.completionHash: SHA-256 over the content hash and every signer's
+--     audit data, printed on the certificate of completion.
+--   Contract.signedPdfSha256: SHA-256 of the final certified PDF, used by the
+--     public verify endpoint.
+
+ALTER TABLE "public"."ContractContent" ADD COLUMN "contentHash" varchar(64);
+
+ALTER TABLE "public"."Contract" ADD COLUMN "completionHash" varchar(64);
+ALTER TABLE "public"."Contract" ADD COLUMN "signedPdfSha256" varchar(64);
+
+CREATE INDEX "Contract_signedPdfSha256_idx" ON "public"."Contract" ("signedPdfSha256");
+
+-- migrate:down
+
+DROP INDEX IF EXISTS "public"."Contract_signedPdfSha256_idx";
+ALTER TABLE "public"."Contract" DROP COLUMN IF EXISTS "signedPdfSha256";
+ALTER TABLE "public"."Contract" DROP COLUMN IF EXISTS "completionHash";
+ALTER TABLE "public"."ContractContent" DROP COLUMN IF EXISTS "contentHash";
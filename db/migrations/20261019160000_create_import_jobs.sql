@@ -0,0 +1,74 @@
+-- migrate:up
+-- Schema-driven spreadsheet imports (contacts, organizations, offspring,
+-- vaccinations, neonatal weights).
+--   ImportJob: one uploaded file, its validated rows and the user's warning
+--     resolutions. Rows are written one transaction at a time together with
+--     "processedRows", so an interrupted job resumes where it stopped.
+--   ImportColumnMapping: named column mappings saved per tenant and entity,
+--     offered again for files with the same headers.
+
+CREATE TYPE "public"."ImportJobStatus" AS ENUM (
+  'ready',
+  'running',
+  'completed',
+  'failed',
+  'canceled'
+);
+
+CREATE TABLE "public"."ImportJob" (
+  "id" SERIAL PRIMARY KEY,
+  "tenantId" integer NOT NULL,
+  "entity" varchar(32) NOT NULL,
+  "status" "public"."ImportJobStatus" DEFAULT 'ready' NOT NULL,
+  "fileName" varchar(255),
+  "fileFormat" varchar(8) NOT NULL,
+  "headers" jsonb NOT NULL,
+  "sheetRows" jsonb NOT NULL,
+  "mapping" jsonb NOT NULL,
+  "context" jsonb,
+  "rows" jsonb,
+  "resolutions" jsonb,
+  "totalRows" integer DEFAULT 0 NOT NULL,
+  "processedRows" integer DEFAULT 0 NOT NULL,
+  "createdCount" integer DEFAULT 0 NOT NULL,
+  "updatedCount" integer DEFAULT 0 NOT NULL,
+  "skippedCount" integer DEFAULT 0 NOT NULL,
+  "errorCount" integer DEFAULT 0 NOT NULL,
+  "rowErrors" jsonb,
+  "error" text,
+  "createdByUserId" text,
+  "startedAt" timestamp(3) without time zone,
+  "heartbeatAt" timestamp(3) without time zone,
+  "completedAt" timestamp(3) without time zone,
+  "createdAt" timestamp(3) without time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  "updatedAt" timestamp(3) without time zone NOT NULL,
+  CONSTRAINT "ImportJob_tenantId_fkey" FOREIGN KEY ("tenantId")
+    REFERENCES "public"."Tenant"("id") ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT "ImportJob_createdByUserId_fkey" FOREIGN KEY ("createdByUserId")
+    REFERENCES "public"."User"("id") ON UPDATE CASCADE ON DELETE SET NULL
+);
+
+CREATE INDEX "ImportJob_tenantId_createdAt_idx" ON "public"."ImportJob" ("tenantId", "createdAt");
+CREATE INDEX "ImportJob_status_idx" ON "public"."ImportJob" ("status");
+
+CREATE TABLE "public"."ImportColumnMapping" (
+  "id" SERIAL PRIMARY KEY,
+  "tenantId" integer NOT NULL,
+  "entity" varchar(32) NOT NULL,
+  "name" varchar(100) NOT NULL,
+  "mapping" jsonb NOT NULL,
+  "createdByUserId" text,
+  "createdAt" timestamp(3) without time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  "updatedAt" timestamp(3) without time zone NOT NULL,
+  CONSTRAINT "ImportColumnMapping_tenantId_fkey" FOREIGN KEY ("tenantId")
+    REFERENCES "public"."Tenant"("id") ON UPDATE CASCADE ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX "ImportColumnMapping_tenantId_entity_name_key"
+  ON "public"."ImportColumnMapping" ("tenantId", "entity", "name");
+
+-- migrate:down
+
+DROP TABLE IF EXISTS "public"."ImportColumnMapping";
+DROP TABLE IF EXISTS "public"."ImportJob";
+DROP TYPE IF EXISTS "public"."ImportJobStatus";
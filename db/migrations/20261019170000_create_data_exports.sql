@@ -0,0 +1,46 @@
+-- migrate:up
+-- Full tenant data exports (DATA_EXPORT entitlement). Each row is one
+-- requested archive: built in the background, uploaded to object storage and
+-- downloadable by presigned URL until "expiresAt", when the archive is
+-- deleted and the row marked expired.
+
+CREATE TYPE "public"."DataExportStatus" AS ENUM (
+  'queued',
+  'running',
+  'completed',
+  'failed',
+  'expired'
+);
+
+CREATE TABLE "public"."DataExport" (
+  "id" SERIAL PRIMARY KEY,
+  "tenantId" integer NOT NULL,
+  "status" "public"."DataExportStatus" DEFAULT 'queued' NOT NULL,
+  "format" varchar(8) NOT NULL,
+  "includeFiles" boolean DEFAULT true NOT NULL,
+  "schemaVersion" integer NOT NULL,
+  "storageKey" text,
+  "fileName" varchar(255),
+  "sizeBytes" bigint,
+  "manifest" jsonb,
+  "error" text,
+  "requestedByUserId" text,
+  "startedAt" timestamp(3) without time zone,
+  "heartbeatAt" timestamp(3) without time zone,
+  "completedAt" timestamp(3) without time zone,
+  "expiresAt" timestamp(3) without time zone,
+  "createdAt" timestamp(3) without time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  "updatedAt" timestamp(3) without time zone NOT NULL,
+  CONSTRAINT "DataExport_tenantId_fkey" FOREIGN KEY ("tenantId")
+    REFERENCES "public"."Tenant"("id") ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT "DataExport_requestedByUserId_fkey" FOREIGN KEY ("requestedByUserId")
+    REFERENCES "public"."User"("id") ON UPDATE CASCADE ON DELETE SET NULL
+);
+
+CREATE INDEX "DataExport_tenantId_createdAt_idx" ON "public"."DataExport" ("tenantId", "createdAt");
+CREATE INDEX "DataExport_status_expiresAt_idx" ON "public"."DataExport" ("status", "expiresAt");
+
+-- migrate:down
+
+DROP TABLE IF EXISTS "public"."DataExport";
+DROP TYPE IF EXISTS "public"."DataExportStatus";
@@ -0,0 +1,49 @@
+-- migrate:up
+-- Accounting export/sync (QuickBooks IIF, Xero CSV).
+--   Expense gains the same sync columns Invoice and Payment already have;
+--     "syncedAt" drives incremental syncs for all three.
+--   AccountingSyncRun: one export per row, with the generated files so the
+--     bookkeeper can download them again.
+-- The chart-of-accounts mapping lives in TenantSetting ("accounting").
+
+ALTER TABLE "public"."Expense"
+  ADD COLUMN "externalProvider" text,
+  ADD COLUMN "externalId" text,
+  ADD COLUMN "syncedAt" timestamp(3) without time zone,
+  ADD COLUMN "lastSyncStatus" text,
+  ADD COLUMN "lastSyncError" text;
+
+CREATE TABLE "public"."AccountingSyncRun" (
+  "id" SERIAL PRIMARY KEY,
+  "tenantId" integer NOT NULL,
+  "provider" varchar(32) NOT NULL,
+  "recordTypes" jsonb NOT NULL,
+  "fromDate" timestamp(3) without time zone,
+  "toDate" timestamp(3) without time zone,
+  "includeSynced" boolean DEFAULT false NOT NULL,
+  "invoiceCount" integer DEFAULT 0 NOT NULL,
+  "paymentCount" integer DEFAULT 0 NOT NULL,
+  "expenseCount" integer DEFAULT 0 NOT NULL,
+  "failedCount" integer DEFAULT 0 NOT NULL,
+  "files" jsonb,
+  "failures" jsonb,
+  "createdByUserId" text,
+  "createdAt" timestamp(3) without time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  CONSTRAINT "AccountingSyncRun_tenantId_fkey" FOREIGN KEY ("tenantId")
+    REFERENCES "public"."Tenant"("id") ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT "AccountingSyncRun_createdByUserId_fkey" FOREIGN KEY ("createdByUserId")
+    REFERENCES "public"."User"("id") ON UPDATE CASCADE ON DELETE SET NULL
+);
+
+CREATE INDEX "AccountingSyncRun_tenantId_createdAt_idx" ON "public"."AccountingSyncRun" ("tenantId", "createdAt");
+
+-- migrate:down
+
+DROP TABLE IF EXISTS "public"."AccountingSyncRun";
+
+ALTER TABLE "public"."Expense"
+  DROP COLUMN IF EXISTS "lastSyncError",
+  DROP COLUMN IF EXISTS "lastSyncStatus",
+  DROP COLUMN IF EXISTS "syncedAt",
+  DROP COLUMN IF EXISTS "externalId",
+  DROP COLUMN IF EXISTS "externalProvider";
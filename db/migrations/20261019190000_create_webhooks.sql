@@ -0,0 +1,70 @@
+-- migrate:up
+-- Outbound webhooks for tenant integrations.
+--   WebhookEndpoint: a tenant's HTTPS URL, signing secret and subscribed
+--     event types. "consecutiveFailures" disables the endpoint once it
+--     reaches the threshold in services/webhooks.
+--   WebhookDelivery: one event per endpoint; the delivery log and the
+--     retry queue (status = 'pending' with "nextAttemptAt").
+
+CREATE TYPE "public"."WebhookDeliveryStatus" AS ENUM (
+  'pending',
+  'succeeded',
+  'failed'
+);
+
+CREATE TABLE "public"."WebhookEndpoint" (
+  "id" SERIAL PRIMARY KEY,
+  "tenantId" integer NOT NULL,
+  "url" varchar(2048) NOT NULL,
+  "description" varchar(255),
+  "secret" varchar(128) NOT NULL,
+  "events" jsonb NOT NULL,
+  "enabled" boolean DEFAULT true NOT NULL,
+  "disabledAt" timestamp(3) without time zone,
+  "disabledReason" varchar(64),
+  "consecutiveFailures" integer DEFAULT 0 NOT NULL,
+  "lastSuccessAt" timestamp(3) without time zone,
+  "lastFailureAt" timestamp(3) without time zone,
+  "createdByUserId" text,
+  "createdAt" timestamp(3) without time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  "updatedAt" timestamp(3) without time zone NOT NULL,
+  CONSTRAINT "WebhookEndpoint_tenantId_fkey" FOREIGN KEY ("tenantId")
+    REFERENCES "public"."Tenant"("id") ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT "WebhookEndpoint_createdByUserId_fkey" FOREIGN KEY ("createdByUserId")
+    REFERENCES "public"."User"("id") ON UPDATE CASCADE ON DELETE SET NULL
+);
+
+CREATE INDEX "WebhookEndpoint_tenantId_idx" ON "public"."WebhookEndpoint" ("tenantId");
+
+CREATE TABLE "public"."WebhookDelivery" (
+  "id" SERIAL PRIMARY KEY,
+  "tenantId" integer NOT NULL,
+  "endpointId" integer NOT NULL,
+  "eventId" varchar(64) NOT NULL,
+  "eventType" varchar(64) NOT NULL,
+  "payload" jsonb NOT NULL,
+  "status" "public"."WebhookDeliveryStatus" DEFAULT 'pending' NOT NULL,
+  "attempts" integer DEFAULT 0 NOT NULL,
+  "nextAttemptAt" timestamp(3) without time zone,
+  "lastAttemptAt" timestamp(3) without time zone,
+  "responseStatus" integer,
+  "responseBody" text,
+  "error" text,
+  "durationMs" integer,
+  "replayOfId" integer,
+  "deliveredAt" timestamp(3) without time zone,
+  "createdAt" timestamp(3) without time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  CONSTRAINT "WebhookDelivery_tenantId_fkey" FOREIGN KEY ("tenantId")
+    REFERENCES "public"."Tenant"("id") ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT "WebhookDelivery_endpointId_fkey" FOREIGN KEY ("endpointId")
+    REFERENCES "public"."WebhookEndpoint"("id") ON UPDATE CASCADE ON DELETE CASCADE
+);
+
+CREATE INDEX "WebhookDelivery_endpointId_createdAt_idx" ON "public"."WebhookDelivery" ("endpointId", "createdAt");
+CREATE INDEX "WebhookDelivery_status_nextAttemptAt_idx" ON "public"."WebhookDelivery" ("status", "nextAttemptAt");
+
+-- migrate:down
+
+DROP TABLE IF EXISTS "public"."WebhookDelivery";
+DROP TABLE IF EXISTS "public"."WebhookEndpoint";
+DROP TYPE IF EXISTS "public"."WebhookDeliveryStatus";
@@ -0,0 +1,18 @@
+-- migrate:up
+-- SMS/WhatsApp notification delivery.
+--   "whatsappEnabled": URGENT/HIGH notifications go to the verified number
+--     over WhatsApp instead of SMS.
+--   "phoneCodeHash"/"phoneCodeExpiresAt": the pending verification code for
+--     "phoneNumber" (SHA-256; the code itself is only ever texted).
+
+ALTER TABLE "public"."UserNotificationPreferences"
+  ADD COLUMN "whatsappEnabled" boolean DEFAULT false NOT NULL,
+  ADD COLUMN "phoneCodeHash" text,
+  ADD COLUMN "phoneCodeExpiresAt" timestamp(3) without time zone;
+
+-- migrate:down
+
+ALTER TABLE "public"."UserNotificationPreferences"
+  DROP COLUMN IF EXISTS "phoneCodeExpiresAt",
+  DROP COLUMN IF EXISTS "phoneCodeHash",
+  DROP COLUMN IF EXISTS "whatsappEnabled";
@@ -0,0 +1,64 @@
+-- migrate:up
+-- Per-user notification delivery policies.
+--   UserNotificationPreferences: digest mode (daily/weekly at a local hour),
+--     quiet hours ("HH:MM", may wrap midnight) and the user's time zone.
+--   NotificationDeliveryQueue: deliveries held back by a digest or quiet
+--     hours until "deliverAfter"; rows are deleted once handled.
+-- Escalation policy lives in TenantSetting (namespace 'notifications').
+
+CREATE TYPE "public"."NotificationDeliveryMode" AS ENUM (
+  'IMMEDIATE',
+  'DAILY_DIGEST',
+  'WEEKLY_DIGEST'
+);
+
+CREATE TYPE "public"."NotificationQueueReason" AS ENUM (
+  'DIGEST',
+  'QUIET_HOURS'
+);
+
+ALTER TABLE "public"."UserNotificationPreferences"
+  ADD COLUMN "deliveryMode" "public"."NotificationDeliveryMode" DEFAULT 'IMMEDIATE' NOT NULL,
+  ADD COLUMN "digestHour" integer DEFAULT 7 NOT NULL,
+  ADD COLUMN "digestWeekday" integer DEFAULT 1 NOT NULL,
+  ADD COLUMN "quietHoursStart" varchar(5),
+  ADD COLUMN "quietHoursEnd" varchar(5),
+  ADD COLUMN "timeZone" varchar(64);
+
+CREATE TABLE "public"."NotificationDeliveryQueue" (
+  "id" SERIAL PRIMARY KEY,
+  "tenantId" integer NOT NULL,
+  "userId" text NOT NULL,
+  "notificationId" integer NOT NULL,
+  "reason" "public"."NotificationQueueReason" NOT NULL,
+  "deliverAfter" timestamp(3) without time zone NOT NULL,
+  "createdAt" timestamp(3) without time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  CONSTRAINT "NotificationDeliveryQueue_tenantId_fkey" FOREIGN KEY ("tenantId")
+    REFERENCES "public"."Tenant"("id") ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT "NotificationDeliveryQueue_userId_fkey" FOREIGN KEY ("userId")
+    REFERENCES "public"."User"("id") ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT "NotificationDeliveryQueue_notificationId_fkey" FOREIGN KEY ("notificationId")
+    REFERENCES "public"."Notification"("id") ON UPDATE CASCADE ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX "NotificationDeliveryQueue_notificationId_userId_key"
+  ON "public"."NotificationDeliveryQueue" ("notificationId", "userId");
+CREATE INDEX "NotificationDeliveryQueue_deliverAfter_idx"
+  ON "public"."NotificationDeliveryQueue" ("deliverAfter");
+CREATE INDEX "NotificationDeliveryQueue_userId_reason_idx"
+  ON "public"."NotificationDeliveryQueue" ("userId", "reason");
+
+-- migrate:down
+
+DROP TABLE IF EXISTS "public"."NotificationDeliveryQueue";
+
+ALTER TABLE "public"."UserNotificationPreferences"
+  DROP COLUMN IF EXISTS "timeZone",
+  DROP COLUMN IF EXISTS "quietHoursEnd",
+  DROP COLUMN IF EXISTS "quietHoursStart",
+  DROP COLUMN IF EXISTS "digestWeekday",
+  DROP COLUMN IF EXISTS "digestHour",
+  DROP COLUMN IF EXISTS "deliveryMode";
+
+DROP TYPE IF EXISTS "public"."NotificationQueueReason";
+DROP TYPE IF EXISTS "public"."NotificationDeliveryMode";
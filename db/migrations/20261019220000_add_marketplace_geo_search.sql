@@ -0,0 +1,37 @@
+-- migrate:up
+-- Radius search for public marketplace listings and breeders.
+--   mkt_listing_breeder_service: geocoded_at records the last geocoding
+--     attempt (coordinates stay NULL when the lookup failed); the
+--     (latitude, longitude) index backs the bounding-box prefilter.
+--   breeder_locations: geocoded centroid of each breeder's published
+--     city/state/zip, keyed by tenant. location_key is the normalized
+--     address that was geocoded.
+
+ALTER TABLE marketplace.mkt_listing_breeder_service
+  ADD COLUMN geocoded_at timestamp(3) without time zone;
+
+CREATE INDEX mkt_listing_breeder_service_latitude_longitude_idx
+  ON marketplace.mkt_listing_breeder_service (latitude, longitude);
+
+CREATE TABLE marketplace.breeder_locations (
+  tenant_id integer PRIMARY KEY,
+  location_key varchar(255),
+  latitude numeric(10,8),
+  longitude numeric(11,8),
+  geocoded_at timestamp(3) without time zone NOT NULL,
+  updated_at timestamp(3) without time zone NOT NULL,
+  CONSTRAINT breeder_locations_tenant_id_fkey FOREIGN KEY (tenant_id)
+    REFERENCES "public"."Tenant"("id") ON UPDATE CASCADE ON DELETE CASCADE
+);
+
+CREATE INDEX breeder_locations_latitude_longitude_idx
+  ON marketplace.breeder_locations (latitude, longitude);
+
+-- migrate:down
+
+DROP TABLE IF EXISTS marketplace.breeder_locations;
+
+DROP INDEX IF EXISTS marketplace.mkt_listing_breeder_service_latitude_longitude_idx;
+
+ALTER TABLE marketplace.mkt_listing_breeder_service
+  DROP COLUMN IF EXISTS geocoded_at;
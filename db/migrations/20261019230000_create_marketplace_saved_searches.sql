@@ -0,0 +1,48 @@
+-- migrate:up
+-- Saved marketplace searches with new-match alerts.
+--   saved_searches: a marketplace user's saved query (filters JSON) over
+--     service, animal or breeding listings. The saved-search-alerts job
+--     sends listings published since last_checked_at by email and push at
+--     the chosen frequency; OFF keeps the search without alerts.
+
+CREATE TYPE marketplace."SavedSearchTarget" AS ENUM (
+  'SERVICE_LISTING',
+  'ANIMAL_LISTING',
+  'BREEDING_LISTING'
+);
+
+CREATE TYPE marketplace."SavedSearchFrequency" AS ENUM (
+  'INSTANT',
+  'DAILY',
+  'WEEKLY',
+  'OFF'
+);
+
+CREATE TABLE marketplace.saved_searches (
+  id SERIAL PRIMARY KEY,
+  bhq_user_id varchar(36) NOT NULL,
+  name varchar(100) NOT NULL,
+  target marketplace."SavedSearchTarget" NOT NULL,
+  filters jsonb DEFAULT '{}'::jsonb NOT NULL,
+  frequency marketplace."SavedSearchFrequency" DEFAULT 'DAILY' NOT NULL,
+  email_enabled boolean DEFAULT true NOT NULL,
+  push_enabled boolean DEFAULT true NOT NULL,
+  last_checked_at timestamp(3) without time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  last_notified_at timestamp(3) without time zone,
+  last_match_count integer DEFAULT 0 NOT NULL,
+  created_at timestamp(3) without time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updated_at timestamp(3) without time zone NOT NULL,
+  CONSTRAINT saved_searches_bhq_user_id_fkey FOREIGN KEY (bhq_user_id)
+    REFERENCES "public"."User"("id") ON UPDATE CASCADE ON DELETE CASCADE
+);
+
+CREATE INDEX saved_searches_bhq_user_id_created_at_idx
+  ON marketplace.saved_searches (bhq_user_id, created_at DESC);
+CREATE INDEX saved_searches_frequency_last_checked_at_idx
+  ON marketplace.saved_searches (frequency, last_checked_at);
+
+-- migrate:down
+
+DROP TABLE IF EXISTS marketplace.saved_searches;
+DROP TYPE IF EXISTS marketplace."SavedSearchFrequency";
+DROP TYPE IF EXISTS marketplace."SavedSearchTarget";
@@ -0,0 +1,68 @@
+-- migrate:up
+-- Per-embryo inventory for flush events.
+-- FlushEvent keeps its aggregate counts; an Embryo row tracks each recovered
+-- embryo's IETS grade and stage, straw/tank/canister location and status:
+--   FRESH -> FROZEN -> THAWED -> TRANSFERRED, or SOLD / SHIPPED / DISCARDED.
+-- Transferred embryos link to the recipient's breeding plan.
+
+CREATE TYPE "public"."EmbryoStage" AS ENUM (
+  'MORULA',
+  'COMPACT_MORULA',
+  'EARLY_BLASTOCYST',
+  'BLASTOCYST',
+  'EXPANDED_BLASTOCYST',
+  'HATCHED_BLASTOCYST'
+);
+
+CREATE TYPE "public"."EmbryoStatus" AS ENUM (
+  'FRESH',
+  'FROZEN',
+  'THAWED',
+  'TRANSFERRED',
+  'SOLD',
+  'SHIPPED',
+  'DISCARDED'
+);
+
+CREATE TABLE "public"."Embryo" (
+  "id" SERIAL PRIMARY KEY,
+  "tenantId" integer NOT NULL,
+  "flushEventId" integer NOT NULL,
+  "embryoNumber" integer NOT NULL,
+  "label" varchar(100),
+  "grade" integer,
+  "stage" "public"."EmbryoStage",
+  "status" "public"."EmbryoStatus" DEFAULT 'FRESH' NOT NULL,
+  "storageTank" varchar(100),
+  "storageCanister" varchar(50),
+  "strawNumber" varchar(50),
+  "freezeMethod" varchar(32),
+  "frozenAt" timestamp(3) without time zone,
+  "thawedAt" timestamp(3) without time zone,
+  "transferredAt" timestamp(3) without time zone,
+  "breedingPlanId" integer,
+  "dispositionTo" varchar(255),
+  "dispositionAt" timestamp(3) without time zone,
+  "salePriceCents" integer,
+  "trackingNumber" varchar(100),
+  "notes" text,
+  "createdAt" timestamp(3) without time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  "updatedAt" timestamp(3) without time zone NOT NULL,
+  CONSTRAINT "Embryo_tenantId_fkey" FOREIGN KEY ("tenantId")
+    REFERENCES "public"."Tenant"("id") ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT "Embryo_flushEventId_fkey" FOREIGN KEY ("flushEventId")
+    REFERENCES "public"."FlushEvent"("id") ON UPDATE CASCADE ON DELETE CASCADE,
+  CONSTRAINT "Embryo_breedingPlanId_fkey" FOREIGN KEY ("breedingPlanId")
+    REFERENCES "public"."BreedingPlan"("id") ON UPDATE CASCADE ON DELETE SET NULL,
+  CONSTRAINT "Embryo_grade_check" CHECK ("grade" BETWEEN 1 AND 4)
+);
+
+CREATE UNIQUE INDEX "Embryo_flushEventId_embryoNumber_key"
+  ON "public"."Embryo" ("flushEventId", "embryoNumber");
+CREATE INDEX "Embryo_tenantId_status_idx" ON "public"."Embryo" ("tenantId", "status");
+CREATE INDEX "Embryo_breedingPlanId_idx" ON "public"."Embryo" ("breedingPlanId");
+
+-- migrate:down
+DROP TABLE IF EXISTS "public"."Embryo";
+DROP TYPE IF EXISTS "public"."EmbryoStatus";
+DROP TYPE IF EXISTS "public"."EmbryoStage";
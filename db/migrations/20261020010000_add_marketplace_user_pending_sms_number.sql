@@ -0,0 +1,11 @@
+-- migrate:up
+-- A number entered for SMS 2FA is held in sms_pending_phone_number until its
+-- code is verified; only then does it become sms_phone_number, the number
+-- login challenges are sent to.
+
+ALTER TABLE marketplace.users
+  ADD COLUMN sms_pending_phone_number text;
+
+-- migrate:down
+ALTER TABLE marketplace.users
+  DROP COLUMN IF EXISTS sms_pending_phone_number;
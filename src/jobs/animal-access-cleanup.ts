@@ -9,8 +9,8 @@
  * See: docs/codebase/architecture/NETWORK-BREEDING-DISCOVERY-JOBS.md
  */
 
-import cron from "node-cron";
 import prisma from "../prisma.js";
+import type { JobDefinition } from "./scheduler.js";
 
 // ────────────────────────────────────────────────────────────────────────────
 // Configuration
@@ -104,70 +104,21 @@ export async function runAnimalAccessCleanupJob(): Promise<AnimalAccessCleanupRe
     result.errors++;
     console.error(`[animal-access-cleanup-job] Job failed:`, err.message || err);
     console.error(err.stack);
+    throw err;
   }
 
   return result;
 }
 
 // ────────────────────────────────────────────────────────────────────────────
-// Cron Scheduler
+// Job Definition
 // ────────────────────────────────────────────────────────────────────────────
 
-let cronJob: cron.ScheduledTask | null = null;
-
-/**
- * Start the animal access cleanup cron job
- */
-export function startAnimalAccessCleanupJob(): void {
-  if (!CRON_ENABLED) {
-    console.log(`[animal-access-cleanup-job] Cron job disabled via ANIMAL_ACCESS_CLEANUP_ENABLED=false`);
-    return;
-  }
-
-  if (cronJob) {
-    console.warn(`[animal-access-cleanup-job] Cron job already running, skipping start`);
-    return;
-  }
-
-  // Validate cron schedule
-  if (!cron.validate(CRON_SCHEDULE)) {
-    console.error(`[animal-access-cleanup-job] Invalid cron schedule: "${CRON_SCHEDULE}"`);
-    console.error(`[animal-access-cleanup-job] Using default schedule: "${DEFAULT_CRON}"`);
-    cronJob = cron.schedule(DEFAULT_CRON, runAnimalAccessCleanupJob);
-  } else {
-    cronJob = cron.schedule(CRON_SCHEDULE, runAnimalAccessCleanupJob);
-  }
-
-  console.log(`[animal-access-cleanup-job] Cron job started with schedule: "${CRON_SCHEDULE}"`);
-}
-
-/**
- * Stop the animal access cleanup cron job
- */
-export function stopAnimalAccessCleanupJob(): void {
-  if (cronJob) {
-    cronJob.stop();
-    cronJob = null;
-    console.log(`[animal-access-cleanup-job] Cron job stopped`);
-  }
-}
-
-/**
- * Get cron job status
- */
-export function getAnimalAccessCleanupJobStatus(): {
-  enabled: boolean;
-  running: boolean;
-  schedule: string;
-  retentionDays: number;
-} {
-  return {
-    enabled: CRON_ENABLED,
-    running: cronJob !== null,
-    schedule: CRON_SCHEDULE,
-    retentionDays: parseInt(
-      process.env.ANIMAL_ACCESS_CLEANUP_RETENTION_DAYS || String(DEFAULT_RETENTION_DAYS),
-      10,
-    ),
-  };
-}
+export const animalAccessCleanupJob: JobDefinition = {
+  name: "animal-access-cleanup",
+  description: "Hard-delete OWNER_DELETED animal access records past the retention period",
+  schedule: CRON_SCHEDULE,
+  defaultSchedule: DEFAULT_CRON,
+  enabled: CRON_ENABLED,
+  run: runAnimalAccessCleanupJob,
+};
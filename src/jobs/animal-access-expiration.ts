@@ -8,8 +8,8 @@
  * See: docs/codebase/architecture/NETWORK-BREEDING-DISCOVERY-JOBS.md
  */
 
-import cron from "node-cron";
 import prisma from "../prisma.js";
+import type { JobDefinition } from "./scheduler.js";
 
 // ────────────────────────────────────────────────────────────────────────────
 // Configuration
@@ -67,85 +67,21 @@ export async function runAnimalAccessExpiration(): Promise<AnimalAccessExpiratio
     result.errors++;
     console.error(`[animal-access-expiration] Error:`, err.message);
     console.error(err.stack);
+    throw err;
   }
 
   return result;
 }
 
 // ────────────────────────────────────────────────────────────────────────────
-// Cron Scheduler
+// Job Definition
 // ────────────────────────────────────────────────────────────────────────────
 
-let cronJob: cron.ScheduledTask | null = null;
-
-/**
- * Start the animal access expiration cron job
- */
-export function startAnimalAccessExpirationJob(): void {
-  if (!CRON_ENABLED) {
-    console.log(
-      `[animal-access-expiration] Cron job disabled via ANIMAL_ACCESS_EXPIRATION_ENABLED=false`
-    );
-    return;
-  }
-
-  if (cronJob) {
-    console.warn(
-      `[animal-access-expiration] Cron job already running, skipping start`
-    );
-    return;
-  }
-
-  // Validate cron schedule
-  if (!cron.validate(CRON_SCHEDULE)) {
-    console.error(
-      `[animal-access-expiration] Invalid cron schedule: "${CRON_SCHEDULE}"`
-    );
-    console.error(
-      `[animal-access-expiration] Using default schedule: "${DEFAULT_CRON}"`
-    );
-    cronJob = cron.schedule(DEFAULT_CRON, async () => {
-      console.log(
-        `[animal-access-expiration] Starting job at ${new Date().toISOString()}`
-      );
-      await runAnimalAccessExpiration();
-    });
-  } else {
-    cronJob = cron.schedule(CRON_SCHEDULE, async () => {
-      console.log(
-        `[animal-access-expiration] Starting job at ${new Date().toISOString()}`
-      );
-      await runAnimalAccessExpiration();
-    });
-  }
-
-  console.log(
-    `[animal-access-expiration] Cron job started with schedule: "${CRON_SCHEDULE}"`
-  );
-}
-
-/**
- * Stop the animal access expiration cron job
- */
-export function stopAnimalAccessExpirationJob(): void {
-  if (cronJob) {
-    cronJob.stop();
-    cronJob = null;
-    console.log(`[animal-access-expiration] Cron job stopped`);
-  }
-}
-
-/**
- * Get cron job status
- */
-export function getAnimalAccessExpirationJobStatus(): {
-  enabled: boolean;
-  running: boolean;
-  schedule: string;
-} {
-  return {
-    enabled: CRON_ENABLED,
-    running: cronJob !== null,
-    schedule: CRON_SCHEDULE,
-  };
-}
+export const animalAccessExpirationJob: JobDefinition = {
+  name: "animal-access-expiration",
+  description: "Mark animal access grants past their expiry as EXPIRED",
+  schedule: CRON_SCHEDULE,
+  defaultSchedule: DEFAULT_CRON,
+  enabled: CRON_ENABLED,
+  run: runAnimalAccessExpiration,
+};
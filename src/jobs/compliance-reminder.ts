@@ -14,7 +14,6 @@
  * - Breeder summary aggregation
  */
 
-import cron from "node-cron";
 import prisma from "../prisma.js";
 import { sendEmail } from "../services/email-service.js";
 import {
@@ -24,8 +23,8 @@ import {
   renderComplianceOverdueEmail,
   renderBreederComplianceDigestEmail,
 } from "../services/email-templates.js";
-import { captureException } from "../lib/sentry.js";
 import type { NotificationType, NotificationPriority } from "@prisma/client";
+import type { JobDefinition } from "./scheduler.js";
 
 // ────────────────────────────────────────────────────────────────────────────
 // Configuration
@@ -344,7 +343,7 @@ export async function runComplianceReminderJob(): Promise<ComplianceReminderResu
   } catch (err: any) {
     result.errors++;
     console.error(`[compliance-reminder] Job error:`, err.message);
-    captureException(err, { job: "compliance-reminder" });
+    throw err;
   }
 
   return result;
@@ -497,91 +496,30 @@ export async function runBreederComplianceDigestJob(): Promise<DigestResult> {
   } catch (err: any) {
     result.errors++;
     console.error(`[compliance-digest] Job error:`, err.message);
-    captureException(err, { job: "compliance-digest" });
+    throw err;
   }
 
   return result;
 }
 
 // ────────────────────────────────────────────────────────────────────────────
-// Cron Schedulers
+// Job Definitions
 // ────────────────────────────────────────────────────────────────────────────
 
-let reminderCronJob: cron.ScheduledTask | null = null;
-let digestCronJob: cron.ScheduledTask | null = null;
-
-export function startComplianceReminderJob(): void {
-  if (!CRON_ENABLED) {
-    console.log(`[compliance-reminder] Cron job disabled via COMPLIANCE_REMINDER_ENABLED=false`);
-    return;
-  }
-
-  if (reminderCronJob) {
-    console.warn(`[compliance-reminder] Cron job already running, skipping start`);
-    return;
-  }
-
-  const schedule = cron.validate(CRON_SCHEDULE) ? CRON_SCHEDULE : DEFAULT_CRON;
-
-  reminderCronJob = cron.schedule(schedule, async () => {
-    console.log(`[compliance-reminder] Starting job at ${new Date().toISOString()}`);
-    await runComplianceReminderJob();
-  });
-
-  console.log(`[compliance-reminder] Cron job started with schedule: "${schedule}"`);
-}
-
-export function stopComplianceReminderJob(): void {
-  if (reminderCronJob) {
-    reminderCronJob.stop();
-    reminderCronJob = null;
-    console.log(`[compliance-reminder] Cron job stopped`);
-  }
-}
-
-export function startComplianceDigestJob(): void {
-  if (!DIGEST_ENABLED) {
-    console.log(`[compliance-digest] Cron job disabled via COMPLIANCE_DIGEST_ENABLED=false`);
-    return;
-  }
-
-  if (digestCronJob) {
-    console.warn(`[compliance-digest] Cron job already running, skipping start`);
-    return;
-  }
-
-  const schedule = cron.validate(DIGEST_CRON) ? DIGEST_CRON : DIGEST_DEFAULT_CRON;
-
-  digestCronJob = cron.schedule(schedule, async () => {
-    console.log(`[compliance-digest] Starting job at ${new Date().toISOString()}`);
-    await runBreederComplianceDigestJob();
-  });
-
-  console.log(`[compliance-digest] Cron job started with schedule: "${schedule}"`);
-}
-
-export function stopComplianceDigestJob(): void {
-  if (digestCronJob) {
-    digestCronJob.stop();
-    digestCronJob = null;
-    console.log(`[compliance-digest] Cron job stopped`);
-  }
-}
-
-export function getComplianceReminderJobStatus(): {
-  reminderEnabled: boolean;
-  reminderRunning: boolean;
-  reminderSchedule: string;
-  digestEnabled: boolean;
-  digestRunning: boolean;
-  digestSchedule: string;
-} {
-  return {
-    reminderEnabled: CRON_ENABLED,
-    reminderRunning: reminderCronJob !== null,
-    reminderSchedule: CRON_SCHEDULE,
-    digestEnabled: DIGEST_ENABLED,
-    digestRunning: digestCronJob !== null,
-    digestSchedule: DIGEST_CRON,
-  };
-}
+export const complianceReminderJob: JobDefinition = {
+  name: "compliance-reminder",
+  description: "Send tiered reminders for upcoming and overdue compliance requirements",
+  schedule: CRON_SCHEDULE,
+  defaultSchedule: DEFAULT_CRON,
+  enabled: CRON_ENABLED,
+  run: runComplianceReminderJob,
+};
+
+export const complianceDigestJob: JobDefinition = {
+  name: "compliance-digest",
+  description: "Send breeders a weekly digest of overdue compliance requirements",
+  schedule: DIGEST_CRON,
+  defaultSchedule: DIGEST_DEFAULT_CRON,
+  enabled: DIGEST_ENABLED,
+  run: runBreederComplianceDigestJob,
+};
@@ -14,8 +14,8 @@
  *   COPILOT_QUALITY_SAMPLE_SIZE     - Max queries to sample (default: 50)
  */
 
-import cron from "node-cron";
 import { generateDailyCopilotQualityReport } from "../services/copilot/copilot-analytics-service.js";
+import type { JobDefinition } from "./scheduler.js";
 
 // ── Config ────────────────────────────────────────────────────────────────
 
@@ -44,34 +44,17 @@ export async function runCopilotQualityReportJob(): Promise<void> {
     const msg = err instanceof Error ? err.message : String(err);
     console.error(`[copilot-quality-report] Job failed:`, msg);
     if (err instanceof Error) console.error(err.stack);
+    throw err;
   }
 }
 
-// ── Cron Scheduler ────────────────────────────────────────────────────────
+// ── Job Definition ────────────────────────────────────────────────────────
 
-let cronJob: cron.ScheduledTask | null = null;
-
-export function startCopilotQualityReportJob(): void {
-  if (!CRON_ENABLED) {
-    console.log(`[copilot-quality-report] Disabled via COPILOT_QUALITY_REPORT_ENABLED=false`);
-    return;
-  }
-
-  if (cronJob) {
-    console.warn(`[copilot-quality-report] Already running, skipping start`);
-    return;
-  }
-
-  const schedule = cron.validate(CRON_SCHEDULE) ? CRON_SCHEDULE : "0 3 * * *";
-  cronJob = cron.schedule(schedule, runCopilotQualityReportJob);
-
-  console.log(`[copilot-quality-report] Started with schedule: "${schedule}"`);
-}
-
-export function stopCopilotQualityReportJob(): void {
-  if (cronJob) {
-    cronJob.stop();
-    cronJob = null;
-    console.log(`[copilot-quality-report] Stopped`);
-  }
-}
+export const copilotQualityReportJob: JobDefinition = {
+  name: "copilot-quality-report",
+  description: "Analyse the previous day's Copilot queries into a quality report",
+  schedule: CRON_SCHEDULE,
+  defaultSchedule: "0 3 * * *",
+  enabled: CRON_ENABLED,
+  run: runCopilotQualityReportJob,
+};
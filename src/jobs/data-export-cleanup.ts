@@ -0,0 +1,50 @@
+// src/jobs/data-export-cleanup.ts
+/**
+ * Data Export Cleanup Cron Job
+ *
+ * Runs hourly to:
+ * 1. Delete export archives past their expiry and mark the exports expired
+ * 2. Fail exports whose build stopped reporting progress (e.g. the server
+ *    restarted mid-export), so the tenant can request a new one
+ */
+
+import { expireDataExports } from "../services/data-export/index.js";
+import type { JobDefinition } from "./scheduler.js";
+
+// ────────────────────────────────────────────────────────────────────────────
+// Configuration
+// ────────────────────────────────────────────────────────────────────────────
+
+const DEFAULT_CRON = "15 * * * *"; // Every hour at :15
+const CRON_SCHEDULE =
+  process.env.DATA_EXPORT_CLEANUP_CRON || DEFAULT_CRON;
+const CRON_ENABLED =
+  process.env.DATA_EXPORT_CLEANUP_ENABLED !== "false"; // Default: enabled
+
+// ────────────────────────────────────────────────────────────────────────────
+// Job Function
+// ────────────────────────────────────────────────────────────────────────────
+
+export async function runDataExportCleanup() {
+  const startTime = Date.now();
+  const result = await expireDataExports();
+
+  console.log(
+    `[data-export-cleanup] Complete in ${Date.now() - startTime}ms: ` +
+      `${result.expired} expired, ${result.interrupted} interrupted, ${result.errors} errors`
+  );
+  return result;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Job Definition
+// ────────────────────────────────────────────────────────────────────────────
+
+export const dataExportCleanupJob: JobDefinition = {
+  name: "data-export-cleanup",
+  description: "Delete expired data export archives and fail stalled exports",
+  schedule: CRON_SCHEDULE,
+  defaultSchedule: DEFAULT_CRON,
+  enabled: CRON_ENABLED,
+  run: runDataExportCleanup,
+};
@@ -14,7 +14,6 @@
  *   DB_HEALTH_ALERT_EMAIL      - Recipient email for alerts (skips email if not set)
  */
 
-import cron from "node-cron";
 import {
   captureHealthReport,
   captureSnapshot,
@@ -29,6 +28,7 @@ import {
   emailHeading,
   emailDetailRows,
 } from "../services/email-layout.js";
+import type { JobDefinition } from "./scheduler.js";
 
 // ────────────────────────────────────────────────────────────────────────────
 // Configuration
@@ -93,6 +93,7 @@ export async function runDbHealthMonitorJob(): Promise<void> {
       err.message || err
     );
     console.error(err.stack);
+    throw err;
   }
 }
 
@@ -163,61 +164,14 @@ async function sendAlertEmail(report: DbHealthReport): Promise<void> {
 }
 
 // ────────────────────────────────────────────────────────────────────────────
-// Cron Scheduler
+// Job Definition
 // ────────────────────────────────────────────────────────────────────────────
 
-let cronJob: cron.ScheduledTask | null = null;
-
-export function startDbHealthMonitorJob(): void {
-  if (!CRON_ENABLED) {
-    console.log(
-      `[db-health-monitor] Cron job disabled via DB_HEALTH_MONITOR_ENABLED=false`
-    );
-    return;
-  }
-
-  if (cronJob) {
-    console.warn(
-      `[db-health-monitor] Cron job already running, skipping start`
-    );
-    return;
-  }
-
-  if (!cron.validate(CRON_SCHEDULE)) {
-    console.error(
-      `[db-health-monitor] Invalid cron schedule: "${CRON_SCHEDULE}"`
-    );
-    cronJob = cron.schedule("0 7 * * *", runDbHealthMonitorJob);
-  } else {
-    cronJob = cron.schedule(CRON_SCHEDULE, runDbHealthMonitorJob);
-  }
-
-  console.log(
-    `[db-health-monitor] Cron job started with schedule: "${CRON_SCHEDULE}"` +
-      (ALERT_EMAIL
-        ? ` (alerts → ${ALERT_EMAIL})`
-        : " (no alert email configured)")
-  );
-}
-
-export function stopDbHealthMonitorJob(): void {
-  if (cronJob) {
-    cronJob.stop();
-    cronJob = null;
-    console.log(`[db-health-monitor] Cron job stopped`);
-  }
-}
-
-export function getDbHealthMonitorStatus(): {
-  enabled: boolean;
-  running: boolean;
-  schedule: string;
-  alertEmail: string;
-} {
-  return {
-    enabled: CRON_ENABLED,
-    running: cronJob !== null,
-    schedule: CRON_SCHEDULE,
-    alertEmail: ALERT_EMAIL || "(not set)",
-  };
-}
+export const dbHealthMonitorJob: JobDefinition = {
+  name: "db-health-monitor",
+  description: "Capture a database health snapshot, alert on thresholds and purge old snapshots",
+  schedule: CRON_SCHEDULE,
+  defaultSchedule: "0 7 * * *",
+  enabled: CRON_ENABLED,
+  run: runDbHealthMonitorJob,
+};
@@ -10,10 +10,10 @@
  * - Sentry alert if failure rate exceeds threshold
  */
 
-import cron from "node-cron";
 import prisma from "../prisma.js";
 import { getResendClient, calculateNextRetryAt } from "../services/email-service.js";
-import { captureMessage, captureException } from "../lib/sentry.js";
+import { captureMessage } from "../lib/sentry.js";
+import type { JobDefinition } from "./scheduler.js";
 
 // ────────────────────────────────────────────────────────────────────────────
 // Configuration
@@ -220,7 +220,7 @@ export async function runEmailRetryJob(): Promise<EmailRetryResult> {
   } catch (err: any) {
     result.errors++;
     console.error(`[email-retry] Job error:`, err.message);
-    captureException(err, { job: "email-retry" });
+    throw err;
   }
 
   return result;
@@ -255,78 +255,19 @@ async function checkFailureRateAlert(): Promise<void> {
 }
 
 // ────────────────────────────────────────────────────────────────────────────
-// Cron Scheduler
+// Job Definition
 // ────────────────────────────────────────────────────────────────────────────
 
-let cronJob: cron.ScheduledTask | null = null;
-
-/**
- * Start the email retry cron job
- */
-export function startEmailRetryJob(): void {
-  if (!CRON_ENABLED) {
-    console.log(
-      `[email-retry] Cron job disabled via EMAIL_RETRY_ENABLED=false`
-    );
-    return;
-  }
-
-  if (cronJob) {
-    console.warn(
-      `[email-retry] Cron job already running, skipping start`
-    );
-    return;
-  }
-
-  if (!cron.validate(CRON_SCHEDULE)) {
-    console.error(
-      `[email-retry] Invalid cron schedule: "${CRON_SCHEDULE}"`
-    );
-    console.error(
-      `[email-retry] Using default schedule: "${DEFAULT_CRON}"`
-    );
-    cronJob = cron.schedule(DEFAULT_CRON, async () => {
-      console.log(
-        `[email-retry] Starting job at ${new Date().toISOString()}`
-      );
-      await runEmailRetryJob();
-    });
-  } else {
-    cronJob = cron.schedule(CRON_SCHEDULE, async () => {
-      console.log(
-        `[email-retry] Starting job at ${new Date().toISOString()}`
-      );
-      await runEmailRetryJob();
-    });
-  }
-
-  console.log(
-    `[email-retry] Cron job started with schedule: "${CRON_SCHEDULE}"`
-  );
-}
-
 /**
- * Stop the email retry cron job
+ * Runs every 5 minutes. Not retried in place: the next tick picks up
+ * whatever this one missed.
  */
-export function stopEmailRetryJob(): void {
-  if (cronJob) {
-    cronJob.stop();
-    cronJob = null;
-    console.log(`[email-retry] Cron job stopped`);
-  }
-}
-
-/**
- * Get cron job status
- */
-export function getEmailRetryJobStatus(): {
-  enabled: boolean;
-  running: boolean;
-  schedule: string;
-} {
-  return {
-    enabled: CRON_ENABLED,
-    running: cronJob !== null,
-    schedule: CRON_SCHEDULE,
-  };
-}
+export const emailRetryJob: JobDefinition = {
+  name: "email-retry",
+  description: "Retry failed email sends with backoff and alert on high failure rates",
+  schedule: CRON_SCHEDULE,
+  defaultSchedule: DEFAULT_CRON,
+  enabled: CRON_ENABLED,
+  maxAttempts: 1,
+  run: runEmailRetryJob,
+};
@@ -11,7 +11,6 @@
  * Idempotent — safe to run multiple times without side effects.
  */
 
-import cron from "node-cron";
 import prisma from "../prisma.js";
 import { getListingPaymentSettings } from "../services/listing-payment-service.js";
 import {
@@ -19,6 +18,7 @@ import {
   sendListingExpiredEmail,
   sendFoundingPeriodEndingEmail,
 } from "../services/listing-payment-emails.js";
+import type { JobDefinition } from "./scheduler.js";
 
 // ────────────────────────────────────────────────────────────────────────────
 // Configuration
@@ -356,87 +356,34 @@ export async function processServiceListingExpirations(): Promise<ServiceListing
 }
 
 // ────────────────────────────────────────────────────────────────────────────
-// Cron Scheduler
+// Job Definition
 // ────────────────────────────────────────────────────────────────────────────
 
-let cronJob: cron.ScheduledTask | null = null;
-
-/**
- * Start the service listing expiration cron job.
- */
-export function startServiceListingExpirationJob(): void {
-  if (!CRON_ENABLED) {
-    console.log(
-      `[expire-service-listings] Cron job disabled via SERVICE_LISTING_EXPIRATION_ENABLED=false`
-    );
-    return;
-  }
-
-  if (cronJob) {
-    console.warn(
-      `[expire-service-listings] Cron job already running, skipping start`
-    );
-    return;
-  }
-
-  const schedule = cron.validate(CRON_SCHEDULE)
-    ? CRON_SCHEDULE
-    : DEFAULT_CRON;
-
-  if (!cron.validate(CRON_SCHEDULE)) {
-    console.error(
-      `[expire-service-listings] Invalid cron schedule: "${CRON_SCHEDULE}", using default: "${DEFAULT_CRON}"`
-    );
+export async function runServiceListingExpirationJob(): Promise<ServiceListingExpirationResult> {
+  const startTime = Date.now();
+
+  const result = await processServiceListingExpirations();
+
+  const duration = Date.now() - startTime;
+  console.log(`[expire-service-listings] Complete in ${duration}ms`);
+  console.log(`[expire-service-listings] Summary:`);
+  console.log(`  - Expired (subscription): ${result.expiredCount}`);
+  console.log(`  - Expired (founding): ${result.foundingExpiredCount}`);
+  console.log(`  - Expiry warnings sent: ${result.warningsSent}`);
+  console.log(`  - Founding warnings sent: ${result.foundingWarningsSent}`);
+  console.log(`  - Expired emails sent: ${result.expiredEmailsSent}`);
+  if (result.errors > 0) {
+    console.warn(`  - Errors: ${result.errors}`);
   }
 
-  cronJob = cron.schedule(schedule, async () => {
-    console.log(
-      `[expire-service-listings] Starting job at ${new Date().toISOString()}`
-    );
-    const startTime = Date.now();
-
-    const result = await processServiceListingExpirations();
-
-    const duration = Date.now() - startTime;
-    console.log(`[expire-service-listings] Complete in ${duration}ms`);
-    console.log(`[expire-service-listings] Summary:`);
-    console.log(`  - Expired (subscription): ${result.expiredCount}`);
-    console.log(`  - Expired (founding): ${result.foundingExpiredCount}`);
-    console.log(`  - Expiry warnings sent: ${result.warningsSent}`);
-    console.log(`  - Founding warnings sent: ${result.foundingWarningsSent}`);
-    console.log(`  - Expired emails sent: ${result.expiredEmailsSent}`);
-    if (result.errors > 0) {
-      console.warn(`  - Errors: ${result.errors}`);
-    }
-  });
-
-  console.log(
-    `[expire-service-listings] Cron job started with schedule: "${schedule}"`
-  );
-}
-
-/**
- * Stop the service listing expiration cron job.
- */
-export function stopServiceListingExpirationJob(): void {
-  if (cronJob) {
-    cronJob.stop();
-    cronJob = null;
-    console.log(`[expire-service-listings] Cron job stopped`);
-  }
+  return result;
 }
 
-/**
- * Get cron job status.
- */
-export function getServiceListingExpirationJobStatus(): {
-  enabled: boolean;
-  running: boolean;
-  schedule: string;
-} {
-  return {
-    enabled: CRON_ENABLED,
-    running: cronJob !== null,
-    schedule: CRON_SCHEDULE,
-  };
-}
+export const serviceListingExpirationJob: JobDefinition = {
+  name: "expire-service-listings",
+  description: "Expire unpaid service listings and send expiry warnings",
+  schedule: CRON_SCHEDULE,
+  defaultSchedule: DEFAULT_CRON,
+  enabled: CRON_ENABLED,
+  run: runServiceListingExpirationJob,
+};
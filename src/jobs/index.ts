@@ -0,0 +1,49 @@
+// src/jobs/index.ts
+/**
+ * Registry of background jobs run by the job scheduler (see scheduler.ts).
+ * Add new jobs here; each job module exports its JobDefinition.
+ */
+
+import type { JobDefinition } from "./scheduler.js";
+import { notificationScanJob } from "./notification-scan.js";
+import { ruleExecutionJob } from "./rule-execution.js";
+import { networkSearchIndexJob } from "./network-search-index.js";
+import { animalAccessCleanupJob } from "./animal-access-cleanup.js";
+import { shareCodeExpirationJob } from "./share-code-expiration.js";
+import { animalAccessExpirationJob } from "./animal-access-expiration.js";
+import { listingBoostExpirationJob } from "./listing-boost-expiration.js";
+import { serviceListingExpirationJob } from "./expire-service-listings.js";
+import { dbHealthMonitorJob } from "./db-health-monitor.js";
+import { emailRetryJob } from "./email-retry.js";
+import { overdueReminderJob } from "./invoice-overdue-reminder.js";
+import { complianceReminderJob, complianceDigestJob } from "./compliance-reminder.js";
+import { copilotQualityReportJob } from "./copilot-quality-report.js";
+import { dataExportCleanupJob } from "./data-export-cleanup.js";
+import { webhookDeliveryJob } from "./webhook-delivery.js";
+import { notificationDispatchJob } from "./notification-dispatch.js";
+import { marketplaceGeocodeBackfillJob } from "./marketplace-geocode-backfill.js";
+import { savedSearchAlertsJob } from "./saved-search-alerts.js";
+import { jobRunCleanupJob } from "./job-run-cleanup.js";
+
+export const JOBS: JobDefinition[] = [
+  notificationScanJob,          // Daily at 6 AM
+  ruleExecutionJob,             // Daily at 3 AM, and on leader startup
+  networkSearchIndexJob,        // Daily at 4 AM, and on leader startup
+  animalAccessCleanupJob,       // Daily at 3 AM (30-day OWNER_DELETED retention)
+  shareCodeExpirationJob,       // Hourly
+  animalAccessExpirationJob,    // Hourly
+  listingBoostExpirationJob,    // Hourly
+  serviceListingExpirationJob,  // Daily at 1 AM UTC
+  dbHealthMonitorJob,           // Daily at 7 AM
+  emailRetryJob,                // Every 5 minutes
+  overdueReminderJob,           // Daily at 9 AM UTC
+  complianceReminderJob,        // Daily at 8 AM UTC
+  complianceDigestJob,          // Weekly Monday at 8 AM UTC
+  copilotQualityReportJob,      // Daily at 3 AM UTC
+  dataExportCleanupJob,         // Hourly at :15
+  webhookDeliveryJob,           // Every minute
+  notificationDispatchJob,      // Every 15 minutes
+  marketplaceGeocodeBackfillJob, // Hourly at :30
+  savedSearchAlertsJob,         // Hourly at :45
+  jobRunCleanupJob,             // Daily at 2 AM
+];
@@ -8,11 +8,10 @@
  * - Sends reminder to client, daily summary to breeder
  */
 
-import cron from "node-cron";
 import prisma from "../prisma.js";
 import { sendEmail } from "../services/email-service.js";
 import { renderOverdueReminderEmail, renderBreederOverdueSummary } from "../services/email-templates.js";
-import { captureException } from "../lib/sentry.js";
+import type { JobDefinition } from "./scheduler.js";
 
 // ────────────────────────────────────────────────────────────────────────────
 // Configuration
@@ -230,55 +229,21 @@ export async function runOverdueReminderJob(): Promise<ReminderResult> {
   } catch (err: any) {
     result.errors++;
     console.error(`[overdue-reminder] Job error:`, err.message);
-    captureException(err, { job: "invoice-overdue-reminder" });
+    throw err;
   }
 
   return result;
 }
 
 // ────────────────────────────────────────────────────────────────────────────
-// Cron Scheduler
+// Job Definition
 // ────────────────────────────────────────────────────────────────────────────
 
-let cronJob: cron.ScheduledTask | null = null;
-
-export function startOverdueReminderJob(): void {
-  if (!CRON_ENABLED) {
-    console.log(`[overdue-reminder] Cron job disabled via OVERDUE_REMINDER_ENABLED=false`);
-    return;
-  }
-
-  if (cronJob) {
-    console.warn(`[overdue-reminder] Cron job already running, skipping start`);
-    return;
-  }
-
-  const schedule = cron.validate(CRON_SCHEDULE) ? CRON_SCHEDULE : DEFAULT_CRON;
-
-  cronJob = cron.schedule(schedule, async () => {
-    console.log(`[overdue-reminder] Starting job at ${new Date().toISOString()}`);
-    await runOverdueReminderJob();
-  });
-
-  console.log(`[overdue-reminder] Cron job started with schedule: "${schedule}"`);
-}
-
-export function stopOverdueReminderJob(): void {
-  if (cronJob) {
-    cronJob.stop();
-    cronJob = null;
-    console.log(`[overdue-reminder] Cron job stopped`);
-  }
-}
-
-export function getOverdueReminderJobStatus(): {
-  enabled: boolean;
-  running: boolean;
-  schedule: string;
-} {
-  return {
-    enabled: CRON_ENABLED,
-    running: cronJob !== null,
-    schedule: CRON_SCHEDULE,
-  };
-}
+export const overdueReminderJob: JobDefinition = {
+  name: "invoice-overdue-reminder",
+  description: "Email buyers about overdue invoices and send breeder summaries",
+  schedule: CRON_SCHEDULE,
+  defaultSchedule: DEFAULT_CRON,
+  enabled: CRON_ENABLED,
+  run: runOverdueReminderJob,
+};
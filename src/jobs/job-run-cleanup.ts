@@ -0,0 +1,45 @@
+// src/jobs/job-run-cleanup.ts
+/**
+ * Job Run Cleanup Cron Job
+ *
+ * Runs daily to delete finished JobRun history older than the retention
+ * window. Every scheduled run writes a row (webhook-delivery alone writes one
+ * a minute), so the history is kept short.
+ */
+
+import { pruneJobRuns, type JobDefinition } from "./scheduler.js";
+
+// ────────────────────────────────────────────────────────────────────────────
+// Configuration
+// ────────────────────────────────────────────────────────────────────────────
+
+const DEFAULT_CRON = "0 2 * * *"; // Daily at 2 AM
+const CRON_SCHEDULE = process.env.JOB_RUN_CLEANUP_CRON || DEFAULT_CRON;
+const CRON_ENABLED = process.env.JOB_RUN_CLEANUP_ENABLED !== "false"; // Default: enabled
+
+const RETENTION_DAYS = 30;
+
+// ────────────────────────────────────────────────────────────────────────────
+// Job Function
+// ────────────────────────────────────────────────────────────────────────────
+
+export async function runJobRunCleanup() {
+  const startTime = Date.now();
+  const pruned = await pruneJobRuns(RETENTION_DAYS);
+
+  console.log(`[job-run-cleanup] Complete in ${Date.now() - startTime}ms: ${pruned} runs pruned`);
+  return { pruned };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Job Definition
+// ────────────────────────────────────────────────────────────────────────────
+
+export const jobRunCleanupJob: JobDefinition = {
+  name: "job-run-cleanup",
+  description: `Delete finished job run history older than ${RETENTION_DAYS} days`,
+  schedule: CRON_SCHEDULE,
+  defaultSchedule: DEFAULT_CRON,
+  enabled: CRON_ENABLED,
+  run: runJobRunCleanup,
+};
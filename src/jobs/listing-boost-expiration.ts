@@ -11,8 +11,8 @@
  * This job is idempotent — safe to run multiple times without side effects.
  */
 
-import cron from "node-cron";
 import { processBoostExpirations } from "../services/listing-boost-service.js";
+import type { JobDefinition } from "./scheduler.js";
 
 // ────────────────────────────────────────────────────────────────────────────
 // Configuration
@@ -25,88 +25,39 @@ const CRON_ENABLED =
   process.env.LISTING_BOOST_EXPIRATION_ENABLED !== "false"; // Default: enabled
 
 // ────────────────────────────────────────────────────────────────────────────
-// Cron Scheduler
+// Job Function
 // ────────────────────────────────────────────────────────────────────────────
 
-let cronJob: cron.ScheduledTask | null = null;
+export async function runListingBoostExpirationJob() {
+  const startTime = Date.now();
 
-/**
- * Start the listing boost expiration cron job
- */
-export function startListingBoostExpirationJob(): void {
-  if (!CRON_ENABLED) {
-    console.log(
-      `[listing-boost-expiration] Cron job disabled via LISTING_BOOST_EXPIRATION_ENABLED=false`
-    );
-    return;
-  }
-
-  if (cronJob) {
-    console.warn(
-      `[listing-boost-expiration] Cron job already running, skipping start`
-    );
-    return;
-  }
-
-  const schedule = cron.validate(CRON_SCHEDULE)
-    ? CRON_SCHEDULE
-    : DEFAULT_CRON;
-
-  if (!cron.validate(CRON_SCHEDULE)) {
-    console.error(
-      `[listing-boost-expiration] Invalid cron schedule: "${CRON_SCHEDULE}", using default: "${DEFAULT_CRON}"`
-    );
-  }
-
-  cronJob = cron.schedule(schedule, async () => {
-    console.log(
-      `[listing-boost-expiration] Starting job at ${new Date().toISOString()}`
-    );
-    const startTime = Date.now();
-
-    const result = await processBoostExpirations();
-
-    const duration = Date.now() - startTime;
-    console.log(
-      `[listing-boost-expiration] Complete in ${duration}ms`
-    );
-    console.log(`[listing-boost-expiration] Summary:`);
-    console.log(`  - Expired: ${result.expiredCount}`);
-    console.log(`  - Expiry emails sent: ${result.expiryEmailsSent}`);
-    console.log(`  - Warnings sent: ${result.warningsSent}`);
-    console.log(`  - Auto-renewals created: ${result.autoRenewalsCreated}`);
-    if (result.errors > 0) {
-      console.warn(`  - Errors: ${result.errors}`);
-    }
-  });
+  const result = await processBoostExpirations();
 
+  const duration = Date.now() - startTime;
   console.log(
-    `[listing-boost-expiration] Cron job started with schedule: "${schedule}"`
+    `[listing-boost-expiration] Complete in ${duration}ms`
   );
-}
-
-/**
- * Stop the listing boost expiration cron job
- */
-export function stopListingBoostExpirationJob(): void {
-  if (cronJob) {
-    cronJob.stop();
-    cronJob = null;
-    console.log(`[listing-boost-expiration] Cron job stopped`);
+  console.log(`[listing-boost-expiration] Summary:`);
+  console.log(`  - Expired: ${result.expiredCount}`);
+  console.log(`  - Expiry emails sent: ${result.expiryEmailsSent}`);
+  console.log(`  - Warnings sent: ${result.warningsSent}`);
+  console.log(`  - Auto-renewals created: ${result.autoRenewalsCreated}`);
+  if (result.errors > 0) {
+    console.warn(`  - Errors: ${result.errors}`);
   }
-}
 
-/**
- * Get cron job status
- */
-export function getListingBoostExpirationJobStatus(): {
-  enabled: boolean;
-  running: boolean;
-  schedule: string;
-} {
-  return {
-    enabled: CRON_ENABLED,
-    running: cronJob !== null,
-    schedule: CRON_SCHEDULE,
-  };
+  return result;
 }
+
+// ────────────────────────────────────────────────────────────────────────────
+// Job Definition
+// ────────────────────────────────────────────────────────────────────────────
+
+export const listingBoostExpirationJob: JobDefinition = {
+  name: "listing-boost-expiration",
+  description: "Expire listing boosts, send expiry warnings and process auto-renewals",
+  schedule: CRON_SCHEDULE,
+  defaultSchedule: DEFAULT_CRON,
+  enabled: CRON_ENABLED,
+  run: runListingBoostExpirationJob,
+};
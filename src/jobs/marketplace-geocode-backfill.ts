@@ -0,0 +1,54 @@
+// src/jobs/marketplace-geocode-backfill.ts
+/**
+ * Marketplace Geocode Backfill Cron Job
+ *
+ * Runs hourly to geocode service listings and published breeder profiles
+ * that were never geocoded, whose location changed, or whose last failed
+ * lookup is more than a week old. Listings and profiles are also geocoded
+ * on save; this catches existing rows and lookups that failed.
+ *
+ * Nominatim allows one request per second, so each run is capped.
+ */
+
+import { backfillMarketplaceLocations } from "../services/marketplace-geo-service.js";
+import type { JobDefinition } from "./scheduler.js";
+
+// ────────────────────────────────────────────────────────────────────────────
+// Configuration
+// ────────────────────────────────────────────────────────────────────────────
+
+const DEFAULT_CRON = "30 * * * *"; // Hourly at :30
+const CRON_SCHEDULE = process.env.MARKETPLACE_GEOCODE_CRON || DEFAULT_CRON;
+const CRON_ENABLED = process.env.MARKETPLACE_GEOCODE_ENABLED !== "false"; // Default: enabled
+const BATCH_LIMIT = 50; // Per kind, ~2 minutes of rate-limited lookups
+
+// ────────────────────────────────────────────────────────────────────────────
+// Job Function
+// ────────────────────────────────────────────────────────────────────────────
+
+export async function runMarketplaceGeocodeBackfill() {
+  const startTime = Date.now();
+  const result = await backfillMarketplaceLocations(new Date(), BATCH_LIMIT);
+
+  if (result.listings + result.breeders + result.failed > 0) {
+    console.log(
+      `[marketplace-geocode] Complete in ${Date.now() - startTime}ms: ` +
+        `${result.listings} listings, ${result.breeders} breeders geocoded, ${result.failed} failed`
+    );
+  }
+  return result;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Job Definition
+// ────────────────────────────────────────────────────────────────────────────
+
+export const marketplaceGeocodeBackfillJob: JobDefinition = {
+  name: "marketplace-geocode-backfill",
+  description: "Geocode marketplace listings and breeder profiles for radius search",
+  schedule: CRON_SCHEDULE,
+  defaultSchedule: DEFAULT_CRON,
+  enabled: CRON_ENABLED,
+  maxAttempts: 1,
+  run: runMarketplaceGeocodeBackfill,
+};
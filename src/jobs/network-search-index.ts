@@ -8,8 +8,8 @@
  * See: docs/codebase/architecture/NETWORK-BREEDING-DISCOVERY-SEARCH-INDEX.md
  */
 
-import cron from "node-cron";
 import { rebuildFullIndex } from "../services/network-search-index.js";
+import type { JobDefinition } from "./scheduler.js";
 
 // ────────────────────────────────────────────────────────────────────────────
 // Configuration
@@ -41,72 +41,23 @@ export async function runNetworkSearchIndexJob(): Promise<void> {
   } catch (err: any) {
     console.error(`[network-search-index-job] Job failed:`, err.message || err);
     console.error(err.stack);
+    throw err;
   }
 }
 
 // ────────────────────────────────────────────────────────────────────────────
-// Cron Scheduler
+// Job Definition
 // ────────────────────────────────────────────────────────────────────────────
 
-let cronJob: cron.ScheduledTask | null = null;
-
-/**
- * Start the network search index rebuild cron job
- */
-export function startNetworkSearchIndexJob(): void {
-  if (!CRON_ENABLED) {
-    console.log(`[network-search-index-job] Cron job disabled via NETWORK_SEARCH_INDEX_ENABLED=false`);
-    return;
-  }
-
-  if (cronJob) {
-    console.warn(`[network-search-index-job] Cron job already running, skipping start`);
-    return;
-  }
-
-  // Validate cron schedule
-  if (!cron.validate(CRON_SCHEDULE)) {
-    console.error(`[network-search-index-job] Invalid cron schedule: "${CRON_SCHEDULE}"`);
-    console.error(`[network-search-index-job] Using default schedule: "${DEFAULT_CRON}"`);
-    cronJob = cron.schedule(DEFAULT_CRON, runNetworkSearchIndexJob);
-  } else {
-    cronJob = cron.schedule(CRON_SCHEDULE, runNetworkSearchIndexJob);
-  }
-
-  console.log(`[network-search-index-job] Cron job started with schedule: "${CRON_SCHEDULE}"`);
-
-  // Run initial rebuild on startup (30s delay to let server fully initialize)
-  const STARTUP_REBUILD = process.env.NETWORK_SEARCH_INDEX_REBUILD_ON_START !== "false";
-  if (STARTUP_REBUILD) {
-    setTimeout(async () => {
-      console.log(`[network-search-index-job] Running initial index build on startup...`);
-      await runNetworkSearchIndexJob();
-    }, 30_000);
-  }
-}
-
-/**
- * Stop the network search index rebuild cron job
- */
-export function stopNetworkSearchIndexJob(): void {
-  if (cronJob) {
-    cronJob.stop();
-    cronJob = null;
-    console.log(`[network-search-index-job] Cron job stopped`);
-  }
-}
-
-/**
- * Get cron job status
- */
-export function getNetworkSearchIndexJobStatus(): {
-  enabled: boolean;
-  running: boolean;
-  schedule: string;
-} {
-  return {
-    enabled: CRON_ENABLED,
-    running: cronJob !== null,
-    schedule: CRON_SCHEDULE,
-  };
-}
+// Rebuild once when an instance becomes scheduler leader, unless disabled
+const STARTUP_REBUILD = process.env.NETWORK_SEARCH_INDEX_REBUILD_ON_START !== "false";
+
+export const networkSearchIndexJob: JobDefinition = {
+  name: "network-search-index",
+  description: "Rebuild the privacy-preserving network breeding search index",
+  schedule: CRON_SCHEDULE,
+  defaultSchedule: DEFAULT_CRON,
+  enabled: CRON_ENABLED,
+  runOnStartup: STARTUP_REBUILD,
+  run: runNetworkSearchIndexJob,
+};
@@ -0,0 +1,62 @@
+// src/jobs/notification-dispatch.ts
+/**
+ * Notification Dispatch Cron Job
+ *
+ * Runs every 15 minutes to:
+ * 1. Deliver notifications held back by quiet hours and send due
+ *    daily/weekly digests (NotificationDeliveryQueue)
+ * 2. Escalate unread overdue notifications along each tenant's escalation
+ *    chain, ending with the owners
+ *
+ * Digest hours are whole local hours, so a 15-minute cadence sends them
+ * within a quarter hour of the user's chosen time.
+ */
+
+import { flushNotificationQueue, runNotificationEscalations } from "../services/notification-delivery.js";
+import type { JobDefinition } from "./scheduler.js";
+
+// ────────────────────────────────────────────────────────────────────────────
+// Configuration
+// ────────────────────────────────────────────────────────────────────────────
+
+const DEFAULT_CRON = "*/15 * * * *"; // Every 15 minutes
+const CRON_SCHEDULE = process.env.NOTIFICATION_DISPATCH_CRON || DEFAULT_CRON;
+const CRON_ENABLED = process.env.NOTIFICATION_DISPATCH_ENABLED !== "false"; // Default: enabled
+
+// ────────────────────────────────────────────────────────────────────────────
+// Job Function
+// ────────────────────────────────────────────────────────────────────────────
+
+export async function runNotificationDispatchJob() {
+  const startTime = Date.now();
+  const now = new Date();
+  const queue = await flushNotificationQueue(now);
+  const escalations = await runNotificationEscalations(now);
+
+  if (queue.sent + queue.failed + queue.dropped > 0 || escalations.escalated + escalations.failed > 0) {
+    console.log(
+      `[notification-dispatch] Complete in ${Date.now() - startTime}ms: ` +
+        `${queue.sent} sent (${queue.digests} digests), ${queue.failed} failed, ${queue.dropped} dropped, ` +
+        `${escalations.escalated} escalated, ${escalations.failed} escalations failed`
+    );
+  }
+  return { queue, escalations };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Job Definition
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Not retried in place: queue rows and escalation steps still due are
+ * picked up on the next run.
+ */
+export const notificationDispatchJob: JobDefinition = {
+  name: "notification-dispatch",
+  description: "Send queued quiet-hours notifications and digests, and escalate unread overdue notifications",
+  schedule: CRON_SCHEDULE,
+  defaultSchedule: DEFAULT_CRON,
+  enabled: CRON_ENABLED,
+  maxAttempts: 1,
+  run: runNotificationDispatchJob,
+};
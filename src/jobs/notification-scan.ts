@@ -10,11 +10,11 @@
  * - Does NOT affect ephemeral notifications (messages, invoices, etc.)
  */
 
-import cron from "node-cron";
 import { runNotificationScan } from "../services/notification-scanner.js";
 import { deliverPendingNotifications } from "../services/notification-delivery.js";
 import { runContractScan } from "../services/contracts/contract-scanner.js";
 import { runMicrochipRenewalScan } from "../services/microchip-renewal-scanner.js";
+import type { JobDefinition } from "./scheduler.js";
 
 // ────────────────────────────────────────────────────────────────────────────
 // Configuration
@@ -70,67 +70,19 @@ export async function runNotificationScanJob(): Promise<void> {
   } catch (err: any) {
     console.error(`[notification-scan-job] Job failed:`, err.message || err);
     console.error(err.stack);
+    throw err;
   }
 }
 
 // ────────────────────────────────────────────────────────────────────────────
-// Cron Scheduler
+// Job Definition
 // ────────────────────────────────────────────────────────────────────────────
 
-let cronJob: cron.ScheduledTask | null = null;
-
-/**
- * Start the notification scan cron job
- */
-export function startNotificationScanJob(): void {
-  if (!CRON_ENABLED) {
-    console.log(`[notification-scan-job] Cron job disabled via NOTIFICATION_SCAN_ENABLED=false`);
-    return;
-  }
-
-  if (cronJob) {
-    console.warn(`[notification-scan-job] Cron job already running, skipping start`);
-    return;
-  }
-
-  // Validate cron schedule
-  if (!cron.validate(CRON_SCHEDULE)) {
-    console.error(`[notification-scan-job] Invalid cron schedule: "${CRON_SCHEDULE}"`);
-    console.error(`[notification-scan-job] Using default schedule: "0 6 * * *"`);
-    cronJob = cron.schedule("0 6 * * *", runNotificationScanJob);
-  } else {
-    cronJob = cron.schedule(CRON_SCHEDULE, runNotificationScanJob);
-  }
-
-  console.log(`[notification-scan-job] Cron job started with schedule: "${CRON_SCHEDULE}"`);
-
-  // Optional: Run immediately on startup for testing (uncomment if needed)
-  // console.log(`[notification-scan-job] Running initial scan on startup...`);
-  // runNotificationScanJob().catch(err => console.error('[notification-scan-job] Initial scan failed:', err));
-}
-
-/**
- * Stop the notification scan cron job
- */
-export function stopNotificationScanJob(): void {
-  if (cronJob) {
-    cronJob.stop();
-    cronJob = null;
-    console.log(`[notification-scan-job] Cron job stopped`);
-  }
-}
-
-/**
- * Get cron job status
- */
-export function getNotificationScanJobStatus(): {
-  enabled: boolean;
-  running: boolean;
-  schedule: string;
-} {
-  return {
-    enabled: CRON_ENABLED,
-    running: cronJob !== null,
-    schedule: CRON_SCHEDULE,
-  };
-}
+export const notificationScanJob: JobDefinition = {
+  name: "notification-scan",
+  description: "Scan health, breeding, contract and microchip events and deliver notifications",
+  schedule: CRON_SCHEDULE,
+  defaultSchedule: "0 6 * * *",
+  enabled: CRON_ENABLED,
+  run: runNotificationScanJob,
+};
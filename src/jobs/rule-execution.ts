@@ -1,76 +1,13 @@
 import prisma from '../prisma.js';
 import { executeAllRulesForEntity } from '../lib/rule-engine.js';
+import type { JobDefinition } from './scheduler.js';
 
 /**
- * Daily cron job to execute time-based rules
+ * Daily job to execute time-based rules
  * This checks all offspring for age-based rules that might need to be triggered
  */
 
-let cronJobHandle: NodeJS.Timeout | null = null;
-
-/**
- * Start the rule execution cron job
- * Runs every day at 3 AM to execute time-based rules
- */
-export function startRuleExecutionJob(): void {
-  if (cronJobHandle) {
-    console.log('[RuleExecution] Job already running');
-    return;
-  }
-
-  console.log('[RuleExecution] Starting daily rule execution job');
-
-  // Run immediately on startup (in background)
-  setTimeout(() => {
-    executeTimeBasedRules().catch(err => {
-      console.error('[RuleExecution] Initial run failed:', err);
-    });
-  }, 5000); // Wait 5 seconds after startup
-
-  // Schedule to run daily at 3 AM
-  const scheduleNextRun = () => {
-    const now = new Date();
-    const next = new Date(now);
-    next.setHours(3, 0, 0, 0); // 3:00 AM
-
-    // If 3 AM has already passed today, schedule for tomorrow
-    if (next <= now) {
-      next.setDate(next.getDate() + 1);
-    }
-
-    const msUntilNext = next.getTime() - now.getTime();
-
-    console.log(
-      `[RuleExecution] Next run scheduled for ${next.toISOString()} (in ${Math.round(
-        msUntilNext / 1000 / 60
-      )} minutes)`
-    );
-
-    cronJobHandle = setTimeout(() => {
-      executeTimeBasedRules()
-        .catch(err => {
-          console.error('[RuleExecution] Daily run failed:', err);
-        })
-        .finally(() => {
-          // Schedule the next run
-          scheduleNextRun();
-        });
-    }, msUntilNext);
-  };
-
-  scheduleNextRun();
-}
-
-/**
- * Stop the rule execution cron job
- */
-export function stopRuleExecutionJob(): void {
-  if (cronJobHandle) {
-    clearTimeout(cronJobHandle);
-    cronJobHandle = null;
-    console.log('[RuleExecution] Job stopped');
-  }
-}
+const DEFAULT_CRON = '0 3 * * *'; // Daily at 3 AM
 
 /**
  * Execute time-based rules for all relevant entities
@@ -79,7 +16,11 @@ export function stopRuleExecutionJob(): void {
  * - Age-based visibility rules
  * - Scheduled notifications
  */
-async function executeTimeBasedRules(): Promise<void> {
+async function executeTimeBasedRules(): Promise<{
+  offspringProcessed: number;
+  rulesExecuted: number;
+  errors: number;
+}> {
   console.log('[RuleExecution] Starting time-based rule execution');
 
   const startTime = Date.now();
@@ -169,6 +110,8 @@ async function executeTimeBasedRules(): Promise<void> {
       `${offspringProcessed} offspring, ${rulesExecuted} rules executed, ${errors} errors`
     );
 
+    return { offspringProcessed, rulesExecuted, errors };
+
   } catch (err) {
     console.error('[RuleExecution] Fatal error during rule execution:', err);
     throw err;
@@ -176,29 +119,15 @@ async function executeTimeBasedRules(): Promise<void> {
 }
 
 /**
- * Manually trigger rule execution (for testing or admin actions)
+ * Runs daily at 3 AM, and once when an instance becomes scheduler leader so
+ * milestones passed while no leader was running are caught up
  */
-export async function triggerManualRuleExecution(): Promise<{
-  success: boolean;
-  processed: number;
-  errors: number;
-}> {
-  console.log('[RuleExecution] Manual trigger initiated');
-
-  try {
-    await executeTimeBasedRules();
-
-    return {
-      success: true,
-      processed: 0, // Would need to track this in executeTimeBasedRules
-      errors: 0
-    };
-  } catch (err) {
-    console.error('[RuleExecution] Manual trigger failed:', err);
-    return {
-      success: false,
-      processed: 0,
-      errors: 1
-    };
-  }
-}
+export const ruleExecutionJob: JobDefinition = {
+  name: 'rule-execution',
+  description: 'Execute time-based breeding program rules for active offspring',
+  schedule: process.env.RULE_EXECUTION_CRON || DEFAULT_CRON,
+  defaultSchedule: DEFAULT_CRON,
+  enabled: process.env.RULE_EXECUTION_ENABLED !== 'false',
+  runOnStartup: true,
+  run: executeTimeBasedRules
+};
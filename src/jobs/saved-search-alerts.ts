@@ -0,0 +1,51 @@
+// src/jobs/saved-search-alerts.ts
+/**
+ * Saved Search Alerts Cron Job
+ *
+ * Runs hourly to check marketplace saved searches for listings published
+ * since their last check. INSTANT searches are checked every run, DAILY
+ * and WEEKLY ones once their interval has passed. Matches are sent by
+ * email (verified addresses only) and push, per the search's settings.
+ */
+
+import { runSavedSearchAlerts } from "../services/saved-search-service.js";
+import type { JobDefinition } from "./scheduler.js";
+
+// ────────────────────────────────────────────────────────────────────────────
+// Configuration
+// ────────────────────────────────────────────────────────────────────────────
+
+const DEFAULT_CRON = "45 * * * *"; // Hourly at :45
+const CRON_SCHEDULE = process.env.SAVED_SEARCH_ALERTS_CRON || DEFAULT_CRON;
+const CRON_ENABLED = process.env.SAVED_SEARCH_ALERTS_ENABLED !== "false"; // Default: enabled
+
+// ────────────────────────────────────────────────────────────────────────────
+// Job Function
+// ────────────────────────────────────────────────────────────────────────────
+
+export async function runSavedSearchAlertsJob() {
+  const startTime = Date.now();
+  const result = await runSavedSearchAlerts(new Date());
+
+  if (result.checked > 0) {
+    console.log(
+      `[saved-search] Complete in ${Date.now() - startTime}ms: ` +
+        `${result.checked} checked, ${result.notified} notified, ${result.failed} failed`
+    );
+  }
+  return result;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Job Definition
+// ────────────────────────────────────────────────────────────────────────────
+
+export const savedSearchAlertsJob: JobDefinition = {
+  name: "saved-search-alerts",
+  description: "Alert marketplace users to new listings matching their saved searches",
+  schedule: CRON_SCHEDULE,
+  defaultSchedule: DEFAULT_CRON,
+  enabled: CRON_ENABLED,
+  maxAttempts: 1,
+  run: runSavedSearchAlertsJob,
+};
@@ -0,0 +1,504 @@
+// src/jobs/scheduler.ts
+/**
+ * Background Job Scheduler
+ *
+ * Every API instance registers the same job definitions, but only the leader
+ * runs them. Leadership is a lease row in JobLease that the holder renews;
+ * if the leader dies, another instance takes over once the lease expires.
+ * (Prisma pools connections, so a session-level advisory lock can't be held
+ * for the lifetime of the process — the lease gives the same guarantee.)
+ *
+ * Each run is persisted to JobRun with its trigger, attempts, duration and
+ * last error (pruned by the job-run-cleanup job). Scheduled ticks are claimed by (jobName, scheduledFor), so a
+ * tick is never run twice even if leadership changes hands mid-minute.
+ * A failing run is retried in place with exponential backoff.
+ *
+ * Configuration (env vars):
+ *   JOB_SCHEDULER_ENABLED  - "true"|"false" (default: true). When false this
+ *                            instance never runs scheduled jobs; manual
+ *                            triggers from the admin API still work.
+ */
+
+import os from "node:os";
+import { randomUUID } from "node:crypto";
+import cron from "node-cron";
+import { Prisma, type JobRun } from "@prisma/client";
+import prisma from "../prisma.js";
+import { captureException } from "../lib/sentry.js";
+
+// ────────────────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────────────────
+
+export interface JobDefinition {
+  /** Stable identifier, used in run history and admin routes */
+  name: string;
+  description: string;
+  /** Cron expression (node-cron syntax, server time zone) */
+  schedule: string;
+  /** Used when `schedule` (usually from an env var) is not a valid expression */
+  defaultSchedule?: string;
+  enabled: boolean;
+  /** Also run once when this instance becomes leader */
+  runOnStartup?: boolean;
+  /** Total attempts per run, including the first (default 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubles for each further retry (default 30s) */
+  retryBaseDelayMs?: number;
+  /** The job itself. Its return value is stored on the run as `result`. */
+  run: () => Promise<unknown>;
+}
+
+export type JobTrigger = "schedule" | "startup" | "manual";
+
+// ────────────────────────────────────────────────────────────────────────────
+// Configuration
+// ────────────────────────────────────────────────────────────────────────────
+
+const SCHEDULER_ENABLED = process.env.JOB_SCHEDULER_ENABLED !== "false";
+
+const LEASE_NAME = "job-scheduler";
+const LEASE_TTL_MS = 60 * 1000;
+const LEASE_RENEW_INTERVAL_MS = 20 * 1000;
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 30 * 1000;
+
+/** A run still marked running after this long belonged to a dead instance */
+const STALE_RUN_MS = 6 * 60 * 60 * 1000;
+
+const MAX_ERROR_LENGTH = 4000;
+
+export const INSTANCE_ID = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+// ────────────────────────────────────────────────────────────────────────────
+// State
+// ────────────────────────────────────────────────────────────────────────────
+
+const jobs = new Map<string, JobDefinition>();
+const tasks = new Map<string, cron.ScheduledTask>();
+/** Jobs with a run in progress on this instance */
+const running = new Set<string>();
+
+let leaseTimer: NodeJS.Timeout | null = null;
+let isLeader = false;
+let stopping = false;
+
+// ────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ────────────────────────────────────────────────────────────────────────────
+
+/** Backoff before retry number `attempt` (1-based): base, 2×base, 4×base, … */
+export function retryDelayMs(attempt: number, baseDelayMs: number): number {
+  return baseDelayMs * 2 ** Math.max(0, attempt - 1);
+}
+
+/** The cron tick a run belongs to, truncated to the minute */
+export function scheduledSlot(date: Date): Date {
+  const slot = new Date(date);
+  slot.setSeconds(0, 0);
+  return slot;
+}
+
+function effectiveSchedule(job: JobDefinition): string {
+  if (cron.validate(job.schedule)) return job.schedule;
+  return job.defaultSchedule && cron.validate(job.defaultSchedule)
+    ? job.defaultSchedule
+    : job.schedule;
+}
+
+function errorMessage(err: unknown): string {
+  const message = err instanceof Error ? err.stack || err.message : String(err);
+  return message.slice(0, MAX_ERROR_LENGTH);
+}
+
+function toJsonResult(value: unknown): Prisma.InputJsonValue | undefined {
+  if (value === undefined || value === null) return undefined;
+  try {
+    return JSON.parse(JSON.stringify(value));
+  } catch {
+    return undefined;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Leader election
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Acquire or renew the scheduler lease. Returns true while this instance
+ * holds it. Takes over only when the current holder's lease has expired.
+ */
+async function renewLease(): Promise<boolean> {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + LEASE_TTL_MS);
+
+  const rows = await prisma.$queryRaw<Array<{ holderId: string }>>`
+    INSERT INTO "public"."JobLease" ("name", "holderId", "acquiredAt", "expiresAt")
+    VALUES (${LEASE_NAME}, ${INSTANCE_ID}, ${now}, ${expiresAt})
+    ON CONFLICT ("name") DO UPDATE SET
+      "holderId" = EXCLUDED."holderId",
+      "acquiredAt" = CASE
+        WHEN "JobLease"."holderId" = EXCLUDED."holderId" THEN "JobLease"."acquiredAt"
+        ELSE EXCLUDED."acquiredAt"
+      END,
+      "expiresAt" = EXCLUDED."expiresAt"
+    WHERE "JobLease"."holderId" = EXCLUDED."holderId"
+       OR "JobLease"."expiresAt" < ${now}
+    RETURNING "holderId"
+  `;
+
+  return rows.length > 0;
+}
+
+async function releaseLease(): Promise<void> {
+  await prisma.jobLease.deleteMany({
+    where: { name: LEASE_NAME, holderId: INSTANCE_ID },
+  });
+}
+
+async function onLeadershipAcquired(): Promise<void> {
+  console.log(`[job-scheduler] ${INSTANCE_ID} is now the scheduler leader`);
+
+  // Runs left "running" by a leader that died mid-run will never finish
+  const abandoned = await prisma.jobRun.updateMany({
+    where: {
+      status: "running",
+      startedAt: { lt: new Date(Date.now() - STALE_RUN_MS) },
+    },
+    data: {
+      status: "failed",
+      finishedAt: new Date(),
+      error: "Abandoned: the instance running this job stopped before it finished",
+    },
+  });
+  if (abandoned.count > 0) {
+    console.warn(`[job-scheduler] Marked ${abandoned.count} abandoned runs as failed`);
+  }
+
+  for (const job of jobs.values()) {
+    if (job.enabled && job.runOnStartup) {
+      void executeJob(job, { trigger: "startup" });
+    }
+  }
+}
+
+async function leaseTick(): Promise<void> {
+  try {
+    const held = await renewLease();
+    if (held && !isLeader) {
+      isLeader = true;
+      await onLeadershipAcquired();
+    } else if (!held && isLeader) {
+      isLeader = false;
+      console.warn(`[job-scheduler] ${INSTANCE_ID} lost scheduler leadership`);
+    }
+  } catch (err: any) {
+    // Can't confirm the lease — stop running jobs until we can
+    if (isLeader) {
+      console.error(`[job-scheduler] Lease renewal failed, stepping down:`, err.message);
+    }
+    isLeader = false;
+  }
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Execution
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Record a new run. Returns null when the scheduled tick was already claimed
+ * (by this or another instance).
+ */
+async function claimRun(
+  job: JobDefinition,
+  opts: { trigger: JobTrigger; scheduledFor?: Date; triggeredByUserId?: string }
+): Promise<JobRun | null> {
+  try {
+    return await prisma.jobRun.create({
+      data: {
+        jobName: job.name,
+        trigger: opts.trigger,
+        scheduledFor: opts.scheduledFor ?? null,
+        instanceId: INSTANCE_ID,
+        triggeredByUserId: opts.triggeredByUserId ?? null,
+      },
+    });
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+      return null;
+    }
+    throw err;
+  }
+}
+
+/** Run a claimed job to completion, retrying with backoff, and record the outcome */
+async function performRun(job: JobDefinition, run: JobRun): Promise<JobRun> {
+  const maxAttempts = Math.max(1, job.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+  const baseDelayMs = job.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+  let lastError: unknown = null;
+
+  running.add(job.name);
+  try {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      await prisma.jobRun.update({ where: { id: run.id }, data: { attempts: attempt } });
+
+      try {
+        const result = await job.run();
+        const finishedAt = new Date();
+        return await prisma.jobRun.update({
+          where: { id: run.id },
+          data: {
+            status: "succeeded",
+            finishedAt,
+            durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+            error: null,
+            result: toJsonResult(result),
+          },
+        });
+      } catch (err) {
+        lastError = err;
+        console.error(
+          `[job-scheduler] ${job.name} attempt ${attempt}/${maxAttempts} failed:`,
+          err instanceof Error ? err.message : err
+        );
+        await prisma.jobRun.update({
+          where: { id: run.id },
+          data: { error: errorMessage(err) },
+        });
+
+        if (attempt < maxAttempts && !stopping) {
+          await sleep(retryDelayMs(attempt, baseDelayMs));
+        }
+        if (stopping) break;
+      }
+    }
+
+    captureException(lastError, { job: job.name, runId: run.id });
+    const finishedAt = new Date();
+    return await prisma.jobRun.update({
+      where: { id: run.id },
+      data: {
+        status: "failed",
+        finishedAt,
+        durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+        error: errorMessage(lastError),
+      },
+    });
+  } finally {
+    running.delete(job.name);
+  }
+}
+
+async function executeJob(
+  job: JobDefinition,
+  opts: { trigger: JobTrigger; scheduledFor?: Date }
+): Promise<void> {
+  if (running.has(job.name)) {
+    console.warn(`[job-scheduler] ${job.name} is still running, skipping ${opts.trigger} run`);
+    return;
+  }
+
+  try {
+    const run = await claimRun(job, opts);
+    if (!run) return;
+
+    console.log(`[job-scheduler] Starting ${job.name} (${opts.trigger}, run #${run.id})`);
+    const finished = await performRun(job, run);
+    console.log(
+      `[job-scheduler] ${job.name} ${finished.status} in ${finished.durationMs}ms ` +
+        `after ${finished.attempts} attempt(s)`
+    );
+  } catch (err) {
+    // Only bookkeeping failures land here; job errors are recorded on the run
+    console.error(`[job-scheduler] Failed to run ${job.name}:`, err);
+    captureException(err, { job: job.name });
+  }
+}
+
+function onTick(job: JobDefinition, date: Date): void {
+  if (!isLeader || stopping) return;
+  void executeJob(job, { trigger: "schedule", scheduledFor: scheduledSlot(date) });
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Public API
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Register the job definitions and, unless disabled, schedule them and start
+ * competing for leadership. Call once at server startup.
+ */
+export function startJobScheduler(definitions: JobDefinition[]): void {
+  for (const job of definitions) {
+    if (jobs.has(job.name)) {
+      console.warn(`[job-scheduler] Duplicate job name "${job.name}", ignoring`);
+      continue;
+    }
+    jobs.set(job.name, job);
+  }
+
+  if (!SCHEDULER_ENABLED) {
+    console.log(`[job-scheduler] Disabled via JOB_SCHEDULER_ENABLED=false`);
+    return;
+  }
+  if (leaseTimer) {
+    console.warn(`[job-scheduler] Already running, skipping start`);
+    return;
+  }
+
+  stopping = false;
+  for (const job of jobs.values()) {
+    if (!job.enabled) {
+      console.log(`[job-scheduler] ${job.name} disabled`);
+      continue;
+    }
+
+    const schedule = effectiveSchedule(job);
+    if (!cron.validate(schedule)) {
+      console.error(`[job-scheduler] ${job.name} has an invalid schedule "${job.schedule}", not scheduled`);
+      continue;
+    }
+    if (schedule !== job.schedule) {
+      console.error(
+        `[job-scheduler] ${job.name} has an invalid schedule "${job.schedule}", using default "${schedule}"`
+      );
+    }
+
+    tasks.set(job.name, cron.schedule(schedule, (ctx) => onTick(job, ctx.date), { name: job.name }));
+  }
+
+  console.log(`[job-scheduler] Scheduled ${tasks.size}/${jobs.size} jobs on ${INSTANCE_ID}`);
+
+  void leaseTick();
+  leaseTimer = setInterval(() => void leaseTick(), LEASE_RENEW_INTERVAL_MS);
+}
+
+/**
+ * Stop scheduling and hand leadership back. Runs already in progress are
+ * left to finish (or fail) without further retries.
+ */
+export async function stopJobScheduler(): Promise<void> {
+  stopping = true;
+
+  for (const task of tasks.values()) {
+    task.stop();
+  }
+  tasks.clear();
+
+  if (leaseTimer) {
+    clearInterval(leaseTimer);
+    leaseTimer = null;
+  }
+
+  if (isLeader) {
+    isLeader = false;
+    try {
+      await releaseLease();
+    } catch (err: any) {
+      console.error(`[job-scheduler] Failed to release lease:`, err.message);
+    }
+  }
+
+  console.log(`[job-scheduler] Stopped`);
+}
+
+export function getJob(name: string): JobDefinition | undefined {
+  return jobs.get(name);
+}
+
+export interface JobStatus {
+  name: string;
+  description: string;
+  schedule: string;
+  enabled: boolean;
+  runOnStartup: boolean;
+  maxAttempts: number;
+  /** Next tick on this instance (null when not scheduled here) */
+  nextRunAt: Date | null;
+  /** Whether this instance has a run of the job in progress */
+  runningHere: boolean;
+}
+
+export function listJobs(): JobStatus[] {
+  return [...jobs.values()].map((job) => ({
+    name: job.name,
+    description: job.description,
+    schedule: effectiveSchedule(job),
+    enabled: job.enabled,
+    runOnStartup: job.runOnStartup ?? false,
+    maxAttempts: job.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    nextRunAt: tasks.get(job.name)?.getNextRun() ?? null,
+    runningHere: running.has(job.name),
+  }));
+}
+
+export async function getSchedulerLeader(): Promise<{
+  enabled: boolean;
+  instanceId: string;
+  isLeader: boolean;
+  leader: { holderId: string; acquiredAt: Date; expiresAt: Date } | null;
+}> {
+  const lease = await prisma.jobLease.findUnique({ where: { name: LEASE_NAME } });
+  return {
+    enabled: SCHEDULER_ENABLED,
+    instanceId: INSTANCE_ID,
+    isLeader,
+    leader:
+      lease && lease.expiresAt > new Date()
+        ? { holderId: lease.holderId, acquiredAt: lease.acquiredAt, expiresAt: lease.expiresAt }
+        : null,
+  };
+}
+
+/** Drop finished runs older than the retention window */
+export async function pruneJobRuns(retentionDays: number): Promise<number> {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const { count } = await prisma.jobRun.deleteMany({
+    where: { startedAt: { lt: cutoff }, status: { not: "running" } },
+  });
+  return count;
+}
+
+/**
+ * Run a job now, outside its schedule. The run executes on this instance in
+ * the background; the returned row can be polled through the run history.
+ * Throws job_not_found (404) or job_already_running (409).
+ */
+export async function triggerJob(name: string, triggeredByUserId?: string): Promise<JobRun> {
+  const job = jobs.get(name);
+  if (!job) {
+    throw Object.assign(new Error("job_not_found"), { statusCode: 404 });
+  }
+
+  const inProgress = running.has(name)
+    ? true
+    : (await prisma.jobRun.count({
+        where: {
+          jobName: name,
+          status: "running",
+          startedAt: { gte: new Date(Date.now() - STALE_RUN_MS) },
+        },
+      })) > 0;
+  if (inProgress) {
+    throw Object.assign(new Error("job_already_running"), { statusCode: 409 });
+  }
+
+  const run = await claimRun(job, { trigger: "manual", triggeredByUserId });
+  if (!run) {
+    // Manual runs have no scheduledFor, so they never collide
+    throw new Error("job_run_not_claimed");
+  }
+
+  console.log(`[job-scheduler] Manual run of ${name} (run #${run.id}) by ${triggeredByUserId ?? "unknown"}`);
+  void performRun(job, run).catch((err) => {
+    console.error(`[job-scheduler] Failed to record manual run of ${name}:`, err);
+    captureException(err, { job: name, runId: run.id });
+  });
+
+  return run;
+}
@@ -9,8 +9,8 @@
  * See: docs/codebase/architecture/NETWORK-BREEDING-DISCOVERY-JOBS.md
  */
 
-import cron from "node-cron";
 import prisma from "../prisma.js";
+import type { JobDefinition } from "./scheduler.js";
 
 // ────────────────────────────────────────────────────────────────────────────
 // Configuration
@@ -79,85 +79,21 @@ export async function runShareCodeExpiration(): Promise<ShareCodeExpirationResul
     result.errors++;
     console.error(`[share-code-expiration] Error:`, err.message);
     console.error(err.stack);
+    throw err;
   }
 
   return result;
 }
 
 // ────────────────────────────────────────────────────────────────────────────
-// Cron Scheduler
+// Job Definition
 // ────────────────────────────────────────────────────────────────────────────
 
-let cronJob: cron.ScheduledTask | null = null;
-
-/**
- * Start the share code expiration cron job
- */
-export function startShareCodeExpirationJob(): void {
-  if (!CRON_ENABLED) {
-    console.log(
-      `[share-code-expiration] Cron job disabled via SHARE_CODE_EXPIRATION_ENABLED=false`
-    );
-    return;
-  }
-
-  if (cronJob) {
-    console.warn(
-      `[share-code-expiration] Cron job already running, skipping start`
-    );
-    return;
-  }
-
-  // Validate cron schedule
-  if (!cron.validate(CRON_SCHEDULE)) {
-    console.error(
-      `[share-code-expiration] Invalid cron schedule: "${CRON_SCHEDULE}"`
-    );
-    console.error(
-      `[share-code-expiration] Using default schedule: "${DEFAULT_CRON}"`
-    );
-    cronJob = cron.schedule(DEFAULT_CRON, async () => {
-      console.log(
-        `[share-code-expiration] Starting job at ${new Date().toISOString()}`
-      );
-      await runShareCodeExpiration();
-    });
-  } else {
-    cronJob = cron.schedule(CRON_SCHEDULE, async () => {
-      console.log(
-        `[share-code-expiration] Starting job at ${new Date().toISOString()}`
-      );
-      await runShareCodeExpiration();
-    });
-  }
-
-  console.log(
-    `[share-code-expiration] Cron job started with schedule: "${CRON_SCHEDULE}"`
-  );
-}
-
-/**
- * Stop the share code expiration cron job
- */
-export function stopShareCodeExpirationJob(): void {
-  if (cronJob) {
-    cronJob.stop();
-    cronJob = null;
-    console.log(`[share-code-expiration] Cron job stopped`);
-  }
-}
-
-/**
- * Get cron job status
- */
-export function getShareCodeExpirationJobStatus(): {
-  enabled: boolean;
-  running: boolean;
-  schedule: string;
-} {
-  return {
-    enabled: CRON_ENABLED,
-    running: cronJob !== null,
-    schedule: CRON_SCHEDULE,
-  };
-}
+export const shareCodeExpirationJob: JobDefinition = {
+  name: "share-code-expiration",
+  description: "Expire share codes past their expiry or use limit",
+  schedule: CRON_SCHEDULE,
+  defaultSchedule: DEFAULT_CRON,
+  enabled: CRON_ENABLED,
+  run: runShareCodeExpiration,
+};
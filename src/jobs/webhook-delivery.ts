@@ -0,0 +1,58 @@
+// src/jobs/webhook-delivery.ts
+/**
+ * Webhook Delivery Cron Job
+ *
+ * Runs every minute to:
+ * 1. Retry pending webhook deliveries whose backoff has elapsed
+ *    (1m, 5m, 30m, 2h, 6h, 12h, 24h; see services/webhooks)
+ * 2. Prune finished deliveries older than the log retention window
+ */
+
+import { pruneWebhookDeliveries, retryDueWebhookDeliveries } from "../services/webhooks/index.js";
+import type { JobDefinition } from "./scheduler.js";
+
+// ────────────────────────────────────────────────────────────────────────────
+// Configuration
+// ────────────────────────────────────────────────────────────────────────────
+
+const DEFAULT_CRON = "* * * * *"; // Every minute
+const CRON_SCHEDULE = process.env.WEBHOOK_DELIVERY_CRON || DEFAULT_CRON;
+const CRON_ENABLED = process.env.WEBHOOK_DELIVERY_ENABLED !== "false"; // Default: enabled
+
+const BATCH_SIZE = 50;
+const LOG_RETENTION_DAYS = 30;
+
+// ────────────────────────────────────────────────────────────────────────────
+// Job Function
+// ────────────────────────────────────────────────────────────────────────────
+
+export async function runWebhookDeliveryJob() {
+  const startTime = Date.now();
+  const retried = await retryDueWebhookDeliveries(BATCH_SIZE);
+  const pruned = await pruneWebhookDeliveries(LOG_RETENTION_DAYS);
+
+  if (retried.processed > 0 || pruned > 0) {
+    console.log(
+      `[webhook-delivery] Complete in ${Date.now() - startTime}ms: ` +
+        `${retried.succeeded} delivered, ${retried.failed} failed, ${pruned} pruned`
+    );
+  }
+  return { ...retried, pruned };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Job Definition
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Not retried in place: anything left pending is picked up next minute.
+ */
+export const webhookDeliveryJob: JobDefinition = {
+  name: "webhook-delivery",
+  description: "Retry failed webhook deliveries with backoff and prune the delivery log",
+  schedule: CRON_SCHEDULE,
+  defaultSchedule: DEFAULT_CRON,
+  enabled: CRON_ENABLED,
+  maxAttempts: 1,
+  run: runWebhookDeliveryJob,
+};
@@ -0,0 +1,305 @@
+/**
+ * Import Schemas
+ *
+ * Field definitions for the entities handled by the generic import pipeline.
+ * Labels double as template headers; aliases cover the column names other
+ * breeding-management tools and hand-built spreadsheets tend to use.
+ */
+
+import { COUNTRY_NAME_TO_CODE, normalizeCountry } from "../../utils/country-codes.js";
+import type { ImportEntity, ImportFieldDef, ImportSchema, ImportValues } from "./types.js";
+
+const SEX_VALUES = ["FEMALE", "MALE"];
+const SEX_ALIASES: Record<string, string> = {
+  f: "FEMALE",
+  female: "FEMALE",
+  girl: "FEMALE",
+  m: "MALE",
+  male: "MALE",
+  boy: "MALE",
+};
+
+export const WEIGHT_UNITS = ["oz", "g", "lb", "kg"] as const;
+export type WeightUnit = (typeof WEIGHT_UNITS)[number];
+
+const WEIGHT_UNIT_ALIASES: Record<string, string> = {
+  ounce: "oz",
+  ounces: "oz",
+  gram: "g",
+  grams: "g",
+  gr: "g",
+  lbs: "lb",
+  pound: "lb",
+  pounds: "lb",
+  kilogram: "kg",
+  kilograms: "kg",
+  kgs: "kg",
+};
+
+const OUNCES_PER_UNIT: Record<WeightUnit, number> = {
+  oz: 1,
+  g: 1 / 28.349523125,
+  lb: 16,
+  kg: 35.27396195,
+};
+
+/**
+ * Convert a weight in the given unit (ounces when omitted) to ounces
+ */
+export function toOunces(weight: number, unit?: string | null): number {
+  const factor = OUNCES_PER_UNIT[(unit as WeightUnit) ?? "oz"] ?? 1;
+  return Math.round(weight * factor * 100) / 100;
+}
+
+/**
+ * Country as an ISO alpha-2 code; full names are matched case-insensitively
+ */
+export function importCountryCode(value: string): string | null {
+  const direct = normalizeCountry(value);
+  if (direct) return direct;
+  const lower = value.trim().toLowerCase();
+  const name = Object.keys(COUNTRY_NAME_TO_CODE).find((n) => n.toLowerCase() === lower);
+  return name ? COUNTRY_NAME_TO_CODE[name] : null;
+}
+
+function validateCountry(values: ImportValues): string[] {
+  const country = values.country;
+  if (typeof country === "string" && !importCountryCode(country)) {
+    return [`Country '${country}' is not recognized. Use a 2-letter code such as US`];
+  }
+  return [];
+}
+
+function validateDateOrder(values: ImportValues, startKey: string, endKey: string, message: string): string[] {
+  const start = values[startKey];
+  const end = values[endKey];
+  return typeof start === "string" && typeof end === "string" && end < start ? [message] : [];
+}
+
+const ADDRESS_FIELDS: ImportFieldDef[] = [
+  { key: "street", label: "Street", type: "string", aliases: ["address", "address 1", "address line 1", "street address"] },
+  { key: "street2", label: "Street 2", type: "string", aliases: ["address 2", "address line 2", "apt", "suite"] },
+  { key: "city", label: "City", type: "string", aliases: ["town"] },
+  { key: "state", label: "State", type: "string", aliases: ["province", "region", "state/province"] },
+  { key: "zip", label: "Zip", type: "string", aliases: ["zip code", "postal code", "postcode", "postal"] },
+  { key: "country", label: "Country", type: "string", description: "2-letter code or country name", example: "US" },
+];
+
+export const CONTACT_IMPORT_SCHEMA: ImportSchema = {
+  entity: "contacts",
+  label: "Contacts",
+  fields: [
+    { key: "firstName", label: "First Name", type: "string", required: true, maxLength: 255, aliases: ["first", "given name", "firstname"] },
+    { key: "lastName", label: "Last Name", type: "string", required: true, maxLength: 255, aliases: ["last", "surname", "family name", "lastname"] },
+    { key: "nickname", label: "Nickname", type: "string", maxLength: 255, aliases: ["preferred name"] },
+    { key: "email", label: "Email", type: "email", aliases: ["email address", "e-mail", "e-mail address"] },
+    { key: "phone", label: "Phone", type: "string", maxLength: 32, aliases: ["phone number", "mobile", "cell", "telephone"] },
+    { key: "whatsapp", label: "WhatsApp", type: "string", maxLength: 32, aliases: ["whatsapp number"] },
+    {
+      key: "organization",
+      label: "Organization",
+      type: "string",
+      description: "Linked by name; you can create organizations that don't exist yet",
+      aliases: ["company", "organization name", "kennel", "farm", "business"],
+    },
+    ...ADDRESS_FIELDS,
+  ],
+  validate: validateCountry,
+  examples: [
+    {
+      firstName: "John",
+      lastName: "Smith",
+      nickname: "Johnny",
+      email: "john.smith@example.com",
+      phone: "+1-555-123-4567",
+      whatsapp: "+1-555-123-4567",
+      organization: "Smith Family Farm",
+      street: "123 Main Street",
+      street2: "Suite 100",
+      city: "Springfield",
+      state: "IL",
+      zip: "62701",
+      country: "US",
+    },
+  ],
+};
+
+export const ORGANIZATION_IMPORT_SCHEMA: ImportSchema = {
+  entity: "organizations",
+  label: "Organizations",
+  fields: [
+    {
+      key: "name",
+      label: "Name",
+      type: "string",
+      required: true,
+      maxLength: 255,
+      aliases: ["organization", "organization name", "company", "kennel", "farm", "business name"],
+    },
+    { key: "email", label: "Email", type: "email", aliases: ["email address", "e-mail"] },
+    { key: "phone", label: "Phone", type: "string", maxLength: 32, aliases: ["phone number", "telephone"] },
+    { key: "website", label: "Website", type: "string", aliases: ["url", "web", "web site"] },
+    ...ADDRESS_FIELDS,
+  ],
+  validate: validateCountry,
+  examples: [
+    {
+      name: "Smith Family Farm",
+      email: "info@smithfarm.example.com",
+      phone: "+1-555-123-4567",
+      website: "https://smithfarm.example.com",
+      street: "123 Main Street",
+      city: "Springfield",
+      state: "IL",
+      zip: "62701",
+      country: "US",
+    },
+  ],
+};
+
+export const OFFSPRING_IMPORT_SCHEMA: ImportSchema = {
+  entity: "offspring",
+  label: "Offspring",
+  context: [{ key: "breedingPlanId", label: "Breeding plan", required: true }],
+  fields: [
+    { key: "name", label: "Name", type: "string", required: true, maxLength: 255, aliases: ["offspring", "puppy", "kitten", "foal", "call name"] },
+    { key: "sex", label: "Sex", type: "enum", enumValues: SEX_VALUES, valueAliases: SEX_ALIASES, aliases: ["gender"] },
+    {
+      key: "birthDate",
+      label: "Birth Date",
+      type: "date",
+      description: "Defaults to the plan's actual birth date",
+      aliases: ["born", "date of birth", "dob", "whelp date"],
+    },
+    { key: "collarColor", label: "Collar Color", type: "string", aliases: ["collar", "whelping collar", "id collar"] },
+    { key: "color", label: "Color", type: "string", aliases: ["coat color", "colour", "markings"] },
+    { key: "birthWeight", label: "Birth Weight", type: "number", min: 0, aliases: ["weight", "birth wt"] },
+    {
+      key: "weightUnit",
+      label: "Weight Unit",
+      type: "enum",
+      enumValues: [...WEIGHT_UNITS],
+      valueAliases: WEIGHT_UNIT_ALIASES,
+      description: "oz (default), g, lb or kg",
+      aliases: ["unit", "units"],
+    },
+    { key: "registrationNumber", label: "Registration Number", type: "string", aliases: ["registration", "registry number", "reg number"] },
+    { key: "notes", label: "Notes", type: "string", maxLength: 5000 },
+  ],
+  examples: [
+    {
+      name: "Blue Collar Boy",
+      sex: "MALE",
+      birthDate: "2026-09-01",
+      collarColor: "Blue",
+      color: "Yellow",
+      birthWeight: "14.5",
+      weightUnit: "oz",
+      registrationNumber: "",
+      notes: "",
+    },
+  ],
+};
+
+export const VACCINATION_IMPORT_SCHEMA: ImportSchema = {
+  entity: "vaccinations",
+  label: "Vaccination records",
+  fields: [
+    { key: "animalName", label: "Animal Name", type: "string", aliases: ["animal", "name", "dog", "cat", "horse", "call name"] },
+    { key: "microchip", label: "Microchip", type: "string", aliases: ["microchip number", "chip", "chip number"] },
+    { key: "registrationNumber", label: "Registration Number", type: "string", aliases: ["registration", "registry number", "reg number"] },
+    {
+      key: "vaccine",
+      label: "Vaccine",
+      type: "string",
+      required: true,
+      description: "Protocol name or key, e.g. Rabies or dog.dhpp",
+      aliases: ["vaccination", "protocol", "vaccine name"],
+    },
+    {
+      key: "administeredAt",
+      label: "Date Given",
+      type: "date",
+      required: true,
+      aliases: ["date", "administered", "administered at", "vaccination date", "date administered"],
+    },
+    { key: "expiresAt", label: "Expires", type: "date", aliases: ["expiration", "expiration date", "expires at", "next due", "due date"] },
+    { key: "veterinarian", label: "Veterinarian", type: "string", maxLength: 255, aliases: ["vet", "given by"] },
+    { key: "clinic", label: "Clinic", type: "string", maxLength: 255, aliases: ["vet clinic", "hospital"] },
+    { key: "batchLotNumber", label: "Lot Number", type: "string", maxLength: 100, aliases: ["lot", "batch", "batch number", "batch/lot"] },
+    { key: "notes", label: "Notes", type: "string", maxLength: 5000 },
+  ],
+  validate: (values) => {
+    const errors: string[] = [];
+    if (!values.animalName && !values.microchip && !values.registrationNumber) {
+      errors.push("Animal Name, Microchip or Registration Number is required");
+    }
+    errors.push(...validateDateOrder(values, "administeredAt", "expiresAt", "Expires cannot be before Date Given"));
+    return errors;
+  },
+  examples: [
+    {
+      animalName: "Bella",
+      microchip: "982000123456789",
+      registrationNumber: "",
+      vaccine: "Rabies",
+      administeredAt: "2026-03-15",
+      expiresAt: "2029-03-15",
+      veterinarian: "Dr. Lee",
+      clinic: "Springfield Animal Hospital",
+      batchLotNumber: "RB-2231",
+      notes: "",
+    },
+  ],
+};
+
+export const NEONATAL_WEIGHT_IMPORT_SCHEMA: ImportSchema = {
+  entity: "neonatal_weights",
+  label: "Neonatal weight logs",
+  context: [{ key: "breedingPlanId", label: "Breeding plan", required: true }],
+  fields: [
+    {
+      key: "offspring",
+      label: "Offspring",
+      type: "string",
+      required: true,
+      description: "Offspring name or collar color",
+      aliases: ["name", "puppy", "kitten", "collar", "collar color", "offspring name"],
+    },
+    {
+      key: "recordedAt",
+      label: "Recorded At",
+      type: "datetime",
+      required: true,
+      aliases: ["date", "date/time", "datetime", "time", "recorded", "weighed at"],
+    },
+    { key: "weight", label: "Weight", type: "number", required: true, min: 0, aliases: ["wt", "weight oz", "weight (oz)"] },
+    {
+      key: "unit",
+      label: "Unit",
+      type: "enum",
+      enumValues: [...WEIGHT_UNITS],
+      valueAliases: WEIGHT_UNIT_ALIASES,
+      description: "oz (default), g, lb or kg",
+      aliases: ["units", "weight unit"],
+    },
+    { key: "temperatureF", label: "Temperature (F)", type: "number", min: 80, max: 110, aliases: ["temp", "temperature"] },
+    { key: "notes", label: "Notes", type: "string", maxLength: 5000 },
+  ],
+  examples: [
+    { offspring: "Blue", recordedAt: "2026-09-02 08:00", weight: "15.2", unit: "oz", temperatureF: "", notes: "" },
+    { offspring: "Blue", recordedAt: "2026-09-02 20:00", weight: "15.9", unit: "oz", temperatureF: "", notes: "" },
+  ],
+};
+
+export const IMPORT_SCHEMAS: Record<ImportEntity, ImportSchema> = {
+  contacts: CONTACT_IMPORT_SCHEMA,
+  organizations: ORGANIZATION_IMPORT_SCHEMA,
+  offspring: OFFSPRING_IMPORT_SCHEMA,
+  vaccinations: VACCINATION_IMPORT_SCHEMA,
+  neonatal_weights: NEONATAL_WEIGHT_IMPORT_SCHEMA,
+};
+
+export function isImportEntity(value: unknown): value is ImportEntity {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(IMPORT_SCHEMAS, value);
+}
@@ -1,9 +1,14 @@
 /**
  * CSV Import Module
  *
- * Handles CSV-based data import for animals and contacts
+ * Handles CSV-based data import for animals, and schema-driven CSV/XLSX
+ * imports for contacts, organizations, offspring, vaccinations and weights
  */
 
 export * from "./types.js";
 export * from "./parser.js";
 export * from "./template.js";
+export * from "./spreadsheet.js";
+export * from "./xlsx-reader.js";
+export * from "./schema-parser.js";
+export * from "./import-schemas.js";
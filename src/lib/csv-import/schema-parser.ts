@@ -0,0 +1,224 @@
+/**
+ * Schema-driven Row Validation
+ *
+ * Maps spreadsheet columns to the fields of an ImportSchema and validates and
+ * normalizes each row. Database checks (duplicates, unmatched references) are
+ * left to the entity importers.
+ */
+
+import type { SpreadsheetData } from "./spreadsheet.js";
+import type {
+  ColumnMapping,
+  ImportFieldDef,
+  ImportRow,
+  ImportSchema,
+  ImportValues,
+} from "./types.js";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const TRUE_VALUES = new Set(["true", "yes", "y", "1", "x"]);
+const FALSE_VALUES = new Set(["false", "no", "n", "0"]);
+
+/**
+ * Normalize a header or label for comparison: case, spacing and punctuation are ignored
+ */
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, "");
+}
+
+/**
+ * Suggest which header feeds each field. A saved mapping wins where its header
+ * is still present; otherwise headers are matched on label, key and aliases.
+ */
+export function suggestColumnMapping(
+  headers: string[],
+  schema: ImportSchema,
+  saved?: ColumnMapping | null
+): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+
+  for (const field of schema.fields) {
+    const savedHeader = saved?.[field.key];
+    if (savedHeader && headers.includes(savedHeader) && !used.has(savedHeader)) {
+      mapping[field.key] = savedHeader;
+      used.add(savedHeader);
+    }
+  }
+
+  for (const field of schema.fields) {
+    if (mapping[field.key]) continue;
+    const names = new Set([field.label, field.key, ...(field.aliases ?? [])].map(normalizeHeader));
+    const header = headers.find((h) => !used.has(h) && names.has(normalizeHeader(h)));
+    mapping[field.key] = header ?? null;
+    if (header) used.add(header);
+  }
+
+  return mapping;
+}
+
+/**
+ * Problems with a mapping that prevent validation: unknown fields, headers
+ * missing from the file, and required fields left unmapped
+ */
+export function checkColumnMapping(headers: string[], schema: ImportSchema, mapping: ColumnMapping): string[] {
+  const problems: string[] = [];
+  const fieldKeys = new Set(schema.fields.map((f) => f.key));
+
+  for (const [key, header] of Object.entries(mapping)) {
+    if (!fieldKeys.has(key)) problems.push(`Unknown field '${key}'`);
+    else if (header && !headers.includes(header)) problems.push(`Column '${header}' is not in the file`);
+  }
+  for (const field of schema.fields) {
+    if (field.required && !mapping[field.key]) problems.push(`${field.label} must be mapped to a column`);
+  }
+
+  return problems;
+}
+
+/**
+ * Parse a date as YYYY-MM-DD, YYYY/MM/DD or M/D/YYYY (US order). With
+ * `withTime`, a trailing HH:MM (optionally AM/PM) is kept as YYYY-MM-DDTHH:MM.
+ */
+export function parseImportDate(value: string, withTime = false): string | null {
+  const match =
+    value.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T\s]+(.*))?$/) ??
+    value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:\s+(.*))?$/);
+  if (!match) return null;
+
+  const [year, month, day] = match[1].length === 4
+    ? [Number(match[1]), Number(match[2]), Number(match[3])]
+    : [Number(match[3]), Number(match[1]), Number(match[2])];
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  const isoDate = date.toISOString().slice(0, 10);
+
+  const timeText = match[4]?.trim();
+  if (!timeText) return isoDate;
+  if (!withTime) return null;
+
+  const time = timeText.match(/^(\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?\s*(am|pm)?$/i);
+  if (!time) return null;
+  let hours = Number(time[1]);
+  const minutes = Number(time[2]);
+  if (time[3]) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (time[3].toLowerCase() === "pm" ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return null;
+
+  return `${isoDate}T${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+/**
+ * Parse a number, accepting thousands separators and a lone decimal comma
+ */
+export function parseImportNumber(value: string): number | null {
+  let text = value.replace(/\s/g, "");
+  if (/^-?\d+,\d+$/.test(text)) text = text.replace(",", ".");
+  else text = text.replace(/,/g, "");
+  if (!/^-?(\d+\.?\d*|\.\d+)$/.test(text)) return null;
+  return Number(text);
+}
+
+/**
+ * Validate and normalize one cell against its field definition
+ */
+export function parseImportValue(
+  field: ImportFieldDef,
+  raw: string
+): { value: string | number | boolean | null; error?: string } {
+  const text = raw.trim();
+  if (!text) {
+    return field.required ? { value: null, error: `${field.label} is required` } : { value: null };
+  }
+
+  switch (field.type) {
+    case "email": {
+      const email = text.toLowerCase();
+      if (!EMAIL_PATTERN.test(email)) return { value: null, error: `${field.label} '${text}' is not a valid email` };
+      return { value: email };
+    }
+    case "date":
+    case "datetime": {
+      const date = parseImportDate(text, field.type === "datetime");
+      if (!date) {
+        const format = field.type === "datetime" ? "YYYY-MM-DD HH:MM" : "YYYY-MM-DD";
+        return { value: null, error: `${field.label} '${text}' is invalid. Use format: ${format}` };
+      }
+      return { value: date };
+    }
+    case "number": {
+      const num = parseImportNumber(text);
+      if (num === null) return { value: null, error: `${field.label} '${text}' is not a number` };
+      if (field.min !== undefined && num < field.min) {
+        return { value: null, error: `${field.label} must be at least ${field.min}` };
+      }
+      if (field.max !== undefined && num > field.max) {
+        return { value: null, error: `${field.label} must be at most ${field.max}` };
+      }
+      return { value: num };
+    }
+    case "boolean": {
+      const lower = text.toLowerCase();
+      if (TRUE_VALUES.has(lower)) return { value: true };
+      if (FALSE_VALUES.has(lower)) return { value: false };
+      return { value: null, error: `${field.label} '${text}' must be yes or no` };
+    }
+    case "enum": {
+      const wanted = normalizeHeader(text);
+      const alias = Object.entries(field.valueAliases ?? {}).find(([a]) => normalizeHeader(a) === wanted)?.[1];
+      const match = alias ?? field.enumValues?.find((v) => normalizeHeader(v) === wanted);
+      if (!match) {
+        return {
+          value: null,
+          error: `${field.label} '${text}' is invalid. Must be one of: ${(field.enumValues ?? []).join(", ")}`,
+        };
+      }
+      return { value: match };
+    }
+    default: {
+      if (field.maxLength && text.length > field.maxLength) {
+        return { value: null, error: `${field.label} must be ${field.maxLength} characters or less` };
+      }
+      return { value: text };
+    }
+  }
+}
+
+/**
+ * Validate every data row through the mapping. Rows come back "valid" or
+ * "error"; warnings are added later by the importer's database checks.
+ */
+export function validateImportRows(
+  sheet: Pick<SpreadsheetData, "headers" | "rows">,
+  schema: ImportSchema,
+  mapping: ColumnMapping
+): ImportRow[] {
+  const columns = schema.fields.map((field) => {
+    const header = mapping[field.key];
+    return { field, index: header ? sheet.headers.indexOf(header) : -1 };
+  });
+
+  return sheet.rows.map((row) => {
+    const values: ImportValues = {};
+    const errors: string[] = [];
+
+    for (const { field, index } of columns) {
+      const { value, error } = parseImportValue(field, index >= 0 ? row.cells[index] ?? "" : "");
+      values[field.key] = value;
+      if (error) errors.push(error);
+    }
+
+    if (errors.length === 0 && schema.validate) {
+      errors.push(...schema.validate(values));
+    }
+
+    return errors.length > 0
+      ? { rowNumber: row.rowNumber, status: "error" as const, values, errors }
+      : { rowNumber: row.rowNumber, status: "valid" as const, values };
+  });
+}
@@ -0,0 +1,119 @@
+/**
+ * Spreadsheet Reader
+ *
+ * Turns an uploaded CSV, TSV or XLSX file into a header row plus data rows of
+ * plain strings, which is what the schema-driven importers work from.
+ */
+
+import { isXlsx, readXlsxRows } from "./xlsx-reader.js";
+
+export type SpreadsheetFormat = "csv" | "xlsx";
+
+export interface SpreadsheetRow {
+  /** 1-based row number as a spreadsheet app shows it (the header is row 1) */
+  rowNumber: number;
+  /** Cells padded to the header width */
+  cells: string[];
+}
+
+export interface SpreadsheetData {
+  format: SpreadsheetFormat;
+  headers: string[];
+  rows: SpreadsheetRow[];
+}
+
+/** Pick the delimiter that splits the header line into the most cells */
+function detectDelimiter(firstLine: string): string {
+  const candidates = [",", ";", "\t"];
+  let best = ",";
+  let bestCount = 0;
+  for (const delimiter of candidates) {
+    let count = 0;
+    let inQuotes = false;
+    for (const char of firstLine) {
+      if (char === '"') inQuotes = !inQuotes;
+      else if (char === delimiter && !inQuotes) count++;
+    }
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Parse delimited text (RFC 4180 quoting, quoted fields may span lines)
+ */
+export function parseCsvRows(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(text.split(/\r?\n/, 1)[0] ?? "");
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Read an uploaded file. XLSX is detected by content, not extension.
+ * Blank rows are dropped; throws if there is no header or no data.
+ *
+ * `maxRows` caps the data rows read from an XLSX sheet; one extra row is kept
+ * so the caller can still report the file as too long.
+ */
+export function readSpreadsheet(file: Buffer, options: { maxRows?: number } = {}): SpreadsheetData {
+  const format: SpreadsheetFormat = isXlsx(file) ? "xlsx" : "csv";
+  const xlsxOptions = options.maxRows !== undefined ? { maxRows: options.maxRows + 1 } : {};
+  const allRows = (
+    format === "xlsx"
+      ? readXlsxRows(file, xlsxOptions)
+      : parseCsvRows(file.toString("utf8")).map((cells, index) => ({ rowNumber: index + 1, cells }))
+  ).filter((r) => r.cells.some((c) => c && c.trim()));
+
+  if (allRows.length < 2) {
+    throw new Error("File must contain a header row and at least one data row");
+  }
+
+  const headers = allRows[0].cells.map((h) => (h ?? "").trim());
+  const rows = allRows.slice(1).map((r) => ({
+    rowNumber: r.rowNumber,
+    cells: headers.map((_, i) => (r.cells[i] ?? "").trim()),
+  }));
+  return { format, headers, rows };
+}
@@ -1,9 +1,11 @@
 /**
  * CSV Template Generator
  *
- * Generates downloadable CSV templates for animal imports
+ * Generates downloadable CSV templates for animal and schema-driven imports
  */
 
+import type { ImportSchema } from "./types.js";
+
 /**
  * CSV header columns in order
  */
@@ -98,6 +100,22 @@ export function generateAnimalCsvTemplate(includeExamples = true): string {
   return rows.join("\n");
 }
 
+/**
+ * Generates a CSV template for a schema-driven import: field labels as
+ * headers, followed by the schema's example rows
+ */
+export function generateImportCsvTemplate(schema: ImportSchema, includeExamples = true): string {
+  const rows = [generateCsvRow(schema.fields.map((f) => f.label))];
+
+  if (includeExamples) {
+    for (const example of schema.examples ?? []) {
+      rows.push(generateCsvRow(schema.fields.map((f) => example[f.key] ?? "")));
+    }
+  }
+
+  return rows.join("\n");
+}
+
 /**
  * Field documentation for users
  */
@@ -169,3 +169,107 @@ export interface ImportExecuteResponse {
     animalId: number;
   }>;
 }
+
+// ────────────────────────────────────────────────────────────────────────────
+// Schema-driven imports (contacts, organizations, offspring, vaccinations,
+// neonatal weights)
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Entities that can be imported through the generic import pipeline
+ */
+export type ImportEntity =
+  | "contacts"
+  | "organizations"
+  | "offspring"
+  | "vaccinations"
+  | "neonatal_weights";
+
+export type ImportFieldType = "string" | "email" | "date" | "datetime" | "number" | "boolean" | "enum";
+
+/**
+ * One importable field. The label is the template header; aliases are other
+ * header spellings recognised when suggesting a column mapping.
+ */
+export interface ImportFieldDef {
+  key: string;
+  label: string;
+  type: ImportFieldType;
+  required?: boolean;
+  description?: string;
+  example?: string;
+  aliases?: string[];
+  enumValues?: string[];
+  /** Other spellings accepted for enum values (e.g. "F" → "FEMALE") */
+  valueAliases?: Record<string, string>;
+  maxLength?: number;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Normalized cell values keyed by field key. Dates are kept as ISO strings so
+ * rows survive being stored on an import job.
+ */
+export type ImportValues = Record<string, string | number | boolean | null>;
+
+/**
+ * Import definition for one entity
+ */
+export interface ImportSchema {
+  entity: ImportEntity;
+  label: string;
+  fields: ImportFieldDef[];
+  /** Job-level parameters the import needs (e.g. the breeding plan for offspring) */
+  context?: Array<{ key: string; label: string; required: boolean }>;
+  /** Cross-field checks run after each field has been validated */
+  validate?: (values: ImportValues) => string[];
+  examples?: Array<Record<string, string>>;
+}
+
+/**
+ * Which file header feeds each field (field key → header, null = unmapped)
+ */
+export type ColumnMapping = Record<string, string | null>;
+
+export type ImportWarningType = "duplicate" | "not_found";
+
+/**
+ * Database check result that needs a decision before the row is imported
+ */
+export interface ImportRowWarning {
+  type: ImportWarningType;
+  field?: string;
+  message: string;
+  /** Existing record a duplicate row matches */
+  match?: { id: number; label: string };
+  /** Candidates for a reference that could not be matched exactly */
+  suggestions?: Array<{ id: number; label: string }>;
+}
+
+/**
+ * Single row after validation and database checks
+ */
+export interface ImportRow {
+  rowNumber: number;
+  status: RowStatus;
+  values: ImportValues;
+  warning?: ImportRowWarning;
+  /** Records the database checks matched (e.g. animalId), reused when importing */
+  refs?: Record<string, number | string>;
+  /** Non-blocking notes, e.g. a linked organization that will be created */
+  notes?: string[];
+  errors?: string[];
+}
+
+/**
+ * User decision for a warning row. Warning rows without a resolution are skipped.
+ *
+ * - duplicate: "update" the match (or targetId), "create_new", or "skip"
+ * - not_found: "link" to targetId, or "skip"
+ */
+export interface ImportRowResolution {
+  rowNumber: number;
+  action: "skip" | "update" | "create_new" | "link";
+  targetId?: number;
+}
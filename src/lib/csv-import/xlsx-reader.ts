@@ -0,0 +1,269 @@
+/**
+ * XLSX Reader
+ *
+ * Reads the first worksheet of an .xlsx workbook into rows of strings.
+ * An .xlsx file is a zip of XML parts; this reads just the parts an import
+ * needs (workbook, relationships, shared strings, styles, one sheet) with
+ * node:zlib, so no spreadsheet library is required.
+ *
+ * Cell values come back as text: shared/inline strings as-is, booleans as
+ * TRUE/FALSE, numbers as written in the sheet, and date-formatted numbers as
+ * YYYY-MM-DD (or YYYY-MM-DDTHH:MM when the cell has a time).
+ */
+
+import { inflateRawSync } from "node:zlib";
+
+/** Upper bound for any decompressed part - guards against zip bombs */
+const MAX_PART_BYTES = 64 * 1024 * 1024;
+
+/** Excel's own sheet limits; references beyond them are rejected */
+const MAX_SHEET_ROWS = 1_048_576;
+const MAX_SHEET_COLUMNS = 16_384;
+
+/** Blank rows tolerated on top of `maxRows` before a row number is out of range */
+const MAX_BLANK_ROWS = 1_000;
+
+export interface XlsxRow {
+  /** 1-based row number from the sheet */
+  rowNumber: number;
+  cells: string[];
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Zip
+// ────────────────────────────────────────────────────────────────────────────
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function readZipDirectory(buf: Buffer): Map<string, ZipEntry> {
+  // End of central directory record: last 22 bytes plus up to 64K of comment
+  let eocd = -1;
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 22 - 0xffff); i--) {
+    if (buf.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error("Not a valid .xlsx file");
+
+  const count = buf.readUInt16LE(eocd + 10);
+  let offset = buf.readUInt32LE(eocd + 16);
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > buf.length || buf.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error("Corrupt .xlsx file");
+    }
+    const nameLength = buf.readUInt16LE(offset + 28);
+    const extraLength = buf.readUInt16LE(offset + 30);
+    const commentLength = buf.readUInt16LE(offset + 32);
+    const name = buf.toString("utf8", offset + 46, offset + 46 + nameLength);
+    entries.set(name, {
+      method: buf.readUInt16LE(offset + 10),
+      compressedSize: buf.readUInt32LE(offset + 20),
+      localHeaderOffset: buf.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function readZipEntry(buf: Buffer, entry: ZipEntry): Buffer {
+  const header = entry.localHeaderOffset;
+  if (buf.readUInt32LE(header) !== 0x04034b50) throw new Error("Corrupt .xlsx file");
+  const start = header + 30 + buf.readUInt16LE(header + 26) + buf.readUInt16LE(header + 28);
+  const data = buf.subarray(start, start + entry.compressedSize);
+
+  if (entry.method === 0) return data;
+  if (entry.method === 8) return inflateRawSync(data, { maxOutputLength: MAX_PART_BYTES });
+  throw new Error(`Unsupported .xlsx compression method ${entry.method}`);
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// XML helpers
+// ────────────────────────────────────────────────────────────────────────────
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function attr(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+/** Text of a string item: plain <t>, or the runs of rich text (phonetic hints excluded) */
+function stringItemText(xml: string): string {
+  const withoutPhonetic = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, "");
+  let text = "";
+  for (const match of withoutPhonetic.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)) {
+    text += decodeXml(match[1]);
+  }
+  return text;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Workbook parts
+// ────────────────────────────────────────────────────────────────────────────
+
+function readSharedStrings(xml: string | null): string[] {
+  if (!xml) return [];
+  return [...xml.matchAll(/<si>([\s\S]*?)<\/si>|<si\/>/g)].map((m) => (m[1] ? stringItemText(m[1]) : ""));
+}
+
+// Built-in number formats that display dates/times
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 30, 36, 45, 46, 47, 50, 57]);
+
+/** For each cell style index, whether it formats numbers as dates */
+function readDateStyles(xml: string | null): boolean[] {
+  if (!xml) return [];
+
+  const customDateFormats = new Set<number>();
+  for (const match of xml.matchAll(/<numFmt\b[^>]*>/g)) {
+    const id = Number(attr(match[0], "numFmtId"));
+    const code = (attr(match[0], "formatCode") ?? "")
+      .replace(/"[^"]*"/g, "")
+      .replace(/\[[^\]]*\]/g, "")
+      .toLowerCase();
+    if (/[dy]/.test(code) || /m.*[ds:]|[ds:].*m/.test(code)) customDateFormats.add(id);
+  }
+
+  const cellXfs = xml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/);
+  if (!cellXfs) return [];
+  return [...cellXfs[1].matchAll(/<xf\b[^>]*>/g)].map((m) => {
+    const id = Number(attr(m[0], "numFmtId") ?? 0);
+    return BUILTIN_DATE_FORMATS.has(id) || customDateFormats.has(id);
+  });
+}
+
+/** Path of the first worksheet, following workbook.xml's relationship */
+function firstSheetPath(workbookXml: string, relsXml: string | null): string {
+  const sheet = workbookXml.match(/<sheet\b[^>]*>/);
+  const relId = sheet ? attr(sheet[0], "r:id") : undefined;
+  if (relId && relsXml) {
+    for (const match of relsXml.matchAll(/<Relationship\b[^>]*>/g)) {
+      if (attr(match[0], "Id") !== relId) continue;
+      const target = attr(match[0], "Target") ?? "";
+      return target.startsWith("/") ? target.slice(1) : `xl/${target.replace(/^\.\//, "")}`;
+    }
+  }
+  return "xl/worksheets/sheet1.xml";
+}
+
+/** Excel serial day number → ISO date (1900 date system, with its leap-year bug) */
+function serialToIso(serial: number): string {
+  const ms = Math.round((serial - 25569) * 86400000);
+  const iso = new Date(ms).toISOString();
+  return serial % 1 === 0 ? iso.slice(0, 10) : iso.slice(0, 16);
+}
+
+function columnIndex(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/)?.[0] ?? "A";
+  let index = 0;
+  for (const ch of letters) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Public API
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Detect an .xlsx (zip) payload by its magic bytes
+ */
+export function isXlsx(buf: Buffer): boolean {
+  return buf.length > 4 && buf.readUInt32LE(0) === 0x04034b50;
+}
+
+/**
+ * Read the first worksheet as its non-empty rows of cell text.
+ *
+ * Cells past the width of the first non-empty row (the header) are ignored.
+ * With `maxRows`, reading stops at the first non-empty row past the limit, so
+ * the result holds at most `maxRows + 1` rows and callers can still tell the
+ * sheet was too long; row numbers more than `MAX_BLANK_ROWS` past the limit
+ * are rejected.
+ */
+export function readXlsxRows(buf: Buffer, options: { maxRows?: number } = {}): XlsxRow[] {
+  const entries = readZipDirectory(buf);
+  const part = (name: string): string | null => {
+    const entry = entries.get(name);
+    return entry ? readZipEntry(buf, entry).toString("utf8") : null;
+  };
+
+  const workbook = part("xl/workbook.xml");
+  if (!workbook) throw new Error("Not a valid .xlsx file (no workbook)");
+
+  const sheetXml = part(firstSheetPath(workbook, part("xl/_rels/workbook.xml.rels")));
+  if (!sheetXml) throw new Error("Workbook has no worksheets");
+
+  const sharedStrings = readSharedStrings(part("xl/sharedStrings.xml"));
+  const dateStyles = readDateStyles(part("xl/styles.xml"));
+
+  const lastRow =
+    options.maxRows !== undefined ? Math.min(MAX_SHEET_ROWS, options.maxRows + MAX_BLANK_ROWS) : MAX_SHEET_ROWS;
+  let width = MAX_SHEET_COLUMNS;
+  let previousRow = 0;
+
+  const rows: XlsxRow[] = [];
+  for (const rowMatch of sheetXml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowAttrs = rowMatch[1];
+    const rowNumber = Number(attr(rowAttrs, "r")) || previousRow + 1;
+    if (!Number.isInteger(rowNumber) || rowNumber < 1 || rowNumber > lastRow) {
+      throw new Error(`Row number out of range: ${attr(rowAttrs, "r") ?? rowNumber}`);
+    }
+    previousRow = rowNumber;
+
+    // Only non-empty cells are stored, so the array ends at the last value
+    const cells: string[] = [];
+    let position = 0;
+    for (const cellMatch of (rowMatch[2] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const cellAttrs = cellMatch[1];
+      const body = cellMatch[2] ?? "";
+      const ref = attr(cellAttrs, "r");
+      const index = ref ? columnIndex(ref) : position;
+      if (index >= MAX_SHEET_COLUMNS) throw new Error(`Cell reference out of range: ${ref ?? index + 1}`);
+      position = index + 1;
+      if (index >= width) continue;
+      const type = attr(cellAttrs, "t") ?? "n";
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = "";
+      if (type === "s") {
+        value = raw !== undefined ? sharedStrings[Number(raw)] ?? "" : "";
+      } else if (type === "inlineStr") {
+        value = stringItemText(body.match(/<is>([\s\S]*?)<\/is>/)?.[1] ?? "");
+      } else if (type === "b") {
+        value = raw === "1" ? "TRUE" : raw === "0" ? "FALSE" : "";
+      } else if (type === "str") {
+        value = raw !== undefined ? decodeXml(raw) : "";
+      } else if (type === "n" && raw !== undefined) {
+        const style = Number(attr(cellAttrs, "s") ?? 0);
+        const num = Number(raw);
+        value = dateStyles[style] && Number.isFinite(num) ? serialToIso(num) : raw;
+      }
+
+      value = value.trim();
+      if (value) cells[index] = value;
+    }
+
+    if (cells.length === 0) continue;
+    if (options.maxRows !== undefined && rows.length >= options.maxRows + 1) break;
+    if (rows.length === 0) width = cells.length;
+    rows.push({ rowNumber, cells: Array.from(cells, (c) => c ?? "") });
+  }
+
+  return rows;
+}
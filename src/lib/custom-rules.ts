@@ -0,0 +1,405 @@
+import { BreedingProgramRule, Prisma, PrismaClient } from '@prisma/client';
+import prisma from '../prisma.js';
+import { sendTemplatedEmail } from '../services/email-service.js';
+import {
+  customRuleConfigSchema,
+  ONE_SHOT_RULE_ACTIONS,
+  type RuleAction,
+  type RuleConditionNode,
+  type RuleConditionField,
+} from '../validation/breeding-program-rules.js';
+
+/**
+ * Declarative ("custom:<key>") breeding program rules
+ * Conditions are evaluated against a flat set of facts per offspring; matching
+ * offspring then get the rule's actions applied. Plan-level runs fan out over
+ * the plan's offspring.
+ */
+
+/**
+ * Attachment kinds treated as offspring/plan photos
+ */
+export const OFFSPRING_PHOTO_KINDS = ['photo', 'image', 'media'];
+
+/**
+ * Facts a custom rule condition can test for one offspring
+ */
+export type OffspringRuleFacts = {
+  offspringId: number;
+  planId: number;
+  ageDays: number | null;
+  sex: string | null;
+  color: string | null;
+  collarColor: string | null;
+  keeperIntent: string | null;
+  depositStatus: string | null;
+  planStatus: string | null;
+  photoCount: number;
+  priceCents: number | null;
+  listed: boolean;
+};
+
+export type CustomRuleActionOutcome = {
+  type: RuleAction['type'];
+  status: 'applied' | 'unchanged' | 'planned' | 'skipped' | 'failed';
+  detail?: any;
+};
+
+export type CustomRuleOffspringResult = {
+  offspringId: number;
+  matched: boolean;
+  facts: OffspringRuleFacts;
+  actions: CustomRuleActionOutcome[];
+};
+
+type CustomRuleInput = Pick<BreedingProgramRule, 'tenantId' | 'ruleType' | 'config'> & { id: number | null };
+
+type CustomRuleDb = PrismaClient | Prisma.TransactionClient;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/* ───────── Condition evaluation ───────── */
+
+function compareText(actual: string, expected: string): boolean {
+  return actual.trim().toLowerCase() === expected.trim().toLowerCase();
+}
+
+/**
+ * Evaluate a condition tree against an offspring's facts
+ * Comparisons against unknown (null) facts never match; use "missing" for those
+ */
+export function evaluateRuleConditions(
+  node: RuleConditionNode | undefined,
+  facts: OffspringRuleFacts
+): boolean {
+  if (!node) return true;
+  if ('all' in node) return node.all.every(child => evaluateRuleConditions(child, facts));
+  if ('any' in node) return node.any.some(child => evaluateRuleConditions(child, facts));
+
+  const actual = facts[node.field as RuleConditionField];
+  const { op, value } = node as { op: string; value?: unknown };
+
+  if (op === 'exists') return actual !== null && actual !== undefined;
+  if (op === 'missing') return actual === null || actual === undefined;
+  if (actual === null || actual === undefined) return false;
+
+  if (typeof actual === 'number') {
+    const expected = value as number;
+    switch (op) {
+      case 'eq': return actual === expected;
+      case 'neq': return actual !== expected;
+      case 'gt': return actual > expected;
+      case 'gte': return actual >= expected;
+      case 'lt': return actual < expected;
+      case 'lte': return actual <= expected;
+      default: return false;
+    }
+  }
+
+  if (typeof actual === 'boolean') {
+    return op === 'eq' ? actual === value : actual !== value;
+  }
+
+  switch (op) {
+    case 'eq': return compareText(actual, value as string);
+    case 'neq': return !compareText(actual, value as string);
+    case 'in': return (value as string[]).some(v => compareText(actual, v));
+    case 'not_in': return !(value as string[]).some(v => compareText(actual, v));
+    default: return false;
+  }
+}
+
+/* ───────── Fact loading ───────── */
+
+const OFFSPRING_FACT_SELECT = {
+  id: true,
+  name: true,
+  sex: true,
+  color: true,
+  collarColorName: true,
+  keeperIntent: true,
+  financialState: true,
+  bornAt: true,
+  priceCents: true,
+  marketplaceListed: true,
+  breedingPlanId: true,
+  buyerParty: { select: { id: true, name: true, email: true } },
+  BreedingPlan: { select: { name: true, nickname: true, status: true, birthDateActual: true } },
+  _count: { select: { Attachments: { where: { kind: { in: OFFSPRING_PHOTO_KINDS } } } } }
+} as const;
+
+type OffspringFactRow = Awaited<ReturnType<typeof loadOffspringRows>>[number];
+
+async function loadOffspringRows(db: CustomRuleDb, tenantId: number, offspringIds: number[]) {
+  return db.offspring.findMany({
+    where: { tenantId, id: { in: offspringIds } },
+    select: OFFSPRING_FACT_SELECT,
+    orderBy: { id: 'asc' }
+  });
+}
+
+function toRuleFacts(row: OffspringFactRow, now: Date): OffspringRuleFacts {
+  const bornAt = row.bornAt ?? row.BreedingPlan?.birthDateActual ?? null;
+  return {
+    offspringId: row.id,
+    planId: row.breedingPlanId,
+    ageDays: bornAt ? Math.floor((now.getTime() - new Date(bornAt).getTime()) / DAY_MS) : null,
+    sex: row.sex ?? null,
+    color: row.color ?? null,
+    collarColor: row.collarColorName ?? null,
+    keeperIntent: row.keeperIntent ?? null,
+    depositStatus: row.financialState ?? null,
+    planStatus: row.BreedingPlan?.status ?? null,
+    photoCount: row._count.Attachments,
+    priceCents: row.priceCents ?? null,
+    listed: row.marketplaceListed
+  };
+}
+
+/**
+ * Offspring a custom rule run covers: the offspring itself, or every offspring
+ * in the plan that does not carry its own override of the same rule type
+ */
+async function resolveTargetOffspringIds(
+  db: CustomRuleDb,
+  rule: CustomRuleInput,
+  entityType: 'offspring' | 'plan',
+  entityId: number
+): Promise<number[]> {
+  if (entityType === 'offspring') return [entityId];
+
+  const offspring = await db.offspring.findMany({
+    where: { tenantId: rule.tenantId, breedingPlanId: entityId },
+    select: { id: true }
+  });
+  const ids = offspring.map(o => o.id);
+  if (ids.length === 0) return [];
+
+  const overrides = await db.breedingProgramRule.findMany({
+    where: {
+      tenantId: rule.tenantId,
+      ruleType: rule.ruleType,
+      level: 'OFFSPRING',
+      levelId: { in: ids.map(String) }
+    },
+    select: { levelId: true }
+  });
+  const overridden = new Set(overrides.map(o => Number(o.levelId)));
+
+  return ids.filter(id => !overridden.has(id));
+}
+
+/* ───────── Actions ───────── */
+
+function oneShotKey(action: RuleAction): string {
+  return JSON.stringify(action);
+}
+
+async function hasCompletedOneShot(
+  db: CustomRuleDb,
+  ruleId: number | null,
+  offspringId: number,
+  key: string
+): Promise<boolean> {
+  if (ruleId === null) return false;
+  const previous = await db.breedingProgramRuleExecution.findFirst({
+    where: {
+      ruleId,
+      changes: { path: ['oneShots'], array_contains: [{ offspringId, key }] }
+    },
+    select: { id: true }
+  });
+  return previous !== null;
+}
+
+async function applyAction(
+  db: CustomRuleDb,
+  rule: CustomRuleInput,
+  action: RuleAction,
+  row: OffspringFactRow,
+  mode: { dryRun: boolean; preview: boolean },
+  now: Date
+): Promise<CustomRuleActionOutcome> {
+  const { dryRun } = mode;
+
+  switch (action.type) {
+    case 'set_price': {
+      if (action.onlyIfUnset && row.priceCents !== null && row.priceCents > 0) {
+        return { type: action.type, status: 'unchanged', detail: { reason: 'Already has a price' } };
+      }
+      if (row.priceCents === action.priceCents) {
+        return { type: action.type, status: 'unchanged' };
+      }
+      const detail = { before: { priceCents: row.priceCents }, after: { priceCents: action.priceCents } };
+      if (dryRun) return { type: action.type, status: 'planned', detail };
+      await db.offspring.update({ where: { id: row.id }, data: { priceCents: action.priceCents } });
+      return { type: action.type, status: 'applied', detail };
+    }
+
+    case 'list':
+    case 'unlist': {
+      const listed = action.type === 'list';
+      if (row.marketplaceListed === listed) {
+        return { type: action.type, status: 'unchanged' };
+      }
+      const detail = { before: { marketplaceListed: row.marketplaceListed }, after: { marketplaceListed: listed } };
+      if (dryRun) return { type: action.type, status: 'planned', detail };
+      await db.offspring.update({ where: { id: row.id }, data: { marketplaceListed: listed } });
+      return { type: action.type, status: 'applied', detail };
+    }
+
+    case 'add_tag': {
+      const tag = await db.tag.findFirst({
+        where: { id: action.tagId, tenantId: rule.tenantId, module: 'OFFSPRING', isArchived: false },
+        select: { id: true, name: true }
+      });
+      if (!tag) {
+        return { type: action.type, status: 'failed', detail: { reason: 'Tag not found for offspring', tagId: action.tagId } };
+      }
+      const existing = await db.tagAssignment.findUnique({
+        where: { tagId_offspringId: { tagId: tag.id, offspringId: row.id } },
+        select: { id: true }
+      });
+      if (existing) return { type: action.type, status: 'unchanged', detail: { tag: tag.name } };
+      if (dryRun) return { type: action.type, status: 'planned', detail: { tag: tag.name } };
+      await db.tagAssignment.createMany({
+        data: [{ tagId: tag.id, offspringId: row.id }],
+        skipDuplicates: true
+      });
+      return { type: action.type, status: 'applied', detail: { tag: tag.name } };
+    }
+
+    case 'send_email': {
+      // Buyer first, then whoever holds this offspring on the waitlist
+      let recipient = row.buyerParty;
+      if (!recipient?.email) {
+        const allocation = await db.waitlistEntry.findFirst({
+          where: { tenantId: rule.tenantId, offspringId: row.id },
+          select: { clientParty: { select: { id: true, name: true, email: true } } }
+        });
+        recipient = allocation?.clientParty ?? null;
+      }
+      if (!recipient?.email) {
+        return { type: action.type, status: 'skipped', detail: { reason: 'No buyer email on file' } };
+      }
+      if (dryRun || mode.preview) {
+        return { type: action.type, status: 'planned', detail: { to: recipient.email, templateId: action.templateId } };
+      }
+      const sent = await sendTemplatedEmail({
+        tenantId: rule.tenantId,
+        to: recipient.email,
+        templateId: action.templateId,
+        partyId: recipient.id,
+        category: 'transactional',
+        context: {
+          offspring: { name: row.name, sex: row.sex, color: row.color, collarColor: row.collarColorName },
+          plan: { name: row.BreedingPlan?.name || row.BreedingPlan?.nickname || null },
+          buyer: { name: recipient.name }
+        },
+        metadata: { ruleId: rule.id, ruleType: rule.ruleType, offspringId: row.id }
+      });
+      return sent.ok
+        ? { type: action.type, status: 'applied', detail: { to: recipient.email, templateId: action.templateId } }
+        : { type: action.type, status: 'failed', detail: { reason: sent.error } };
+    }
+
+    case 'create_task': {
+      const dueAt = action.dueInDays !== undefined ? new Date(now.getTime() + action.dueInDays * DAY_MS) : null;
+      const detail = { title: action.title, dueAt };
+      if (dryRun) return { type: action.type, status: 'planned', detail };
+      const task = await db.task.create({
+        data: {
+          tenantId: rule.tenantId,
+          scope: 'offspring',
+          offspringId: row.id,
+          title: action.title,
+          notes: action.notes ?? null,
+          dueAt,
+          assignedToUserId: action.assignedToUserId ?? null
+        },
+        select: { id: true }
+      });
+      return { type: action.type, status: 'applied', detail: { ...detail, taskId: task.id } };
+    }
+  }
+}
+
+/* ───────── Execution ───────── */
+
+/**
+ * Run a custom rule for an offspring or plan
+ * With dryRun nothing is written or sent; actions are reported as "planned".
+ * With preview, writes go through the given (rolled-back) client but email is
+ * only reported. One-shot actions (email, task) are tracked through the rule's
+ * execution log so they fire once per offspring.
+ */
+export async function runCustomRule(
+  rule: CustomRuleInput,
+  entityType: 'offspring' | 'plan',
+  entityId: number,
+  options: { dryRun?: boolean; preview?: boolean; db?: CustomRuleDb; now?: Date } = {}
+): Promise<{ success: boolean; action?: string; changes?: any; error?: string }> {
+  const dryRun = options.dryRun ?? false;
+  const mode = { dryRun, preview: options.preview ?? false };
+  const db = options.db ?? prisma;
+  const now = options.now ?? new Date();
+
+  const parsed = customRuleConfigSchema.safeParse(rule.config);
+  if (!parsed.success) {
+    return { success: false, error: 'Invalid custom rule config' };
+  }
+  const { conditions, actions } = parsed.data;
+
+  const targetIds = await resolveTargetOffspringIds(db, rule, entityType, entityId);
+  const rows = targetIds.length > 0 ? await loadOffspringRows(db, rule.tenantId, targetIds) : [];
+  if (entityType === 'offspring' && rows.length === 0) {
+    return { success: false, error: 'Offspring not found' };
+  }
+
+  const results: CustomRuleOffspringResult[] = [];
+  const oneShots: Array<{ offspringId: number; key: string }> = [];
+  let applied = 0;
+  let failed = 0;
+
+  for (const row of rows) {
+    const facts = toRuleFacts(row, now);
+    const matched = evaluateRuleConditions(conditions, facts);
+    const outcomes: CustomRuleActionOutcome[] = [];
+
+    if (matched) {
+      for (const action of actions) {
+        const isOneShot = ONE_SHOT_RULE_ACTIONS.includes(action.type);
+        const key = oneShotKey(action);
+
+        if (isOneShot && (await hasCompletedOneShot(db, rule.id, row.id, key))) {
+          outcomes.push({ type: action.type, status: 'unchanged', detail: { reason: 'Already done for this offspring' } });
+          continue;
+        }
+
+        const outcome = await applyAction(db, rule, action, row, mode, now);
+        outcomes.push(outcome);
+
+        if (outcome.status === 'applied') {
+          applied++;
+          if (isOneShot) oneShots.push({ offspringId: row.id, key });
+        } else if (outcome.status === 'failed') {
+          failed++;
+        }
+      }
+    }
+
+    results.push({ offspringId: row.id, matched, facts, actions: outcomes });
+  }
+
+  return {
+    success: failed === 0,
+    action: dryRun ? 'dry_run' : applied > 0 ? 'custom_actions_applied' : 'no_action',
+    changes: {
+      evaluated: results.length,
+      matched: results.filter(r => r.matched).length,
+      results,
+      oneShots
+    },
+    error: failed > 0 ? `${failed} action(s) failed` : undefined
+  };
+}
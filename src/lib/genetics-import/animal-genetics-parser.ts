@@ -0,0 +1,20 @@
+/**
+ * Animal Genetics Parser
+ *
+ * Parses Animal Genetics Inc. results from the text of the PDF certificate
+ * or a CSV export. Certificates list "Test / Result / Interpretation" rows
+ * such as "Cream  N/Cr  Heterozygous" with the sample and animal details in
+ * the header.
+ */
+
+import { parseLabReport, type LabReportConfig, type LabReportParseResult } from './lab-report-parser.js';
+
+export const ANIMAL_GENETICS_REPORT_CONFIG: LabReportConfig = {
+  source: 'animal_genetics',
+  providerName: 'Animal Genetics',
+  reportIdLabels: ['sample id', 'sample #', 'order number', 'order #', 'certificate number', 'certificate #'],
+};
+
+export function parseAnimalGeneticsReport(content: string, species: string): LabReportParseResult {
+  return parseLabReport(content, species, ANIMAL_GENETICS_REPORT_CONFIG);
+}
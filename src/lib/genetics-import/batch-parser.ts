@@ -0,0 +1,216 @@
+/**
+ * Genetics Batch Parser
+ *
+ * Reads lab batch result sheets that cover several animals (a litter, a herd)
+ * and groups the results per animal. Two layouts are accepted, both CSV/TSV
+ * with a header row:
+ *
+ * - Long: one row per animal per test
+ *     Animal, Microchip, Registration, Test, Result
+ *     Bella, 985112000123456, AQHA-551, HYPP, N/N
+ *
+ * - Wide: one row per animal, one column per test
+ *     Animal, Microchip, HYPP, Cream, Red Factor
+ *     Bella, 985112000123456, N/N, N/Cr, E/e
+ *
+ * Animals are identified by microchip, registration number and/or name (an
+ * optional Sex column narrows name matches); matching those to tenant animals
+ * and mapping results to loci happens later (the animal's species decides
+ * which locus table applies).
+ */
+
+import { parseReportDate, splitDelimited, type LabResultRow } from './lab-report-parser.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GeneticsBatchAnimal {
+  /** Stable key for this animal within the file (used for resolutions) */
+  key: string;
+  /** 1-based line numbers in the file that belong to this animal */
+  rowNumbers: number[];
+  name?: string;
+  microchip?: string;
+  registrationNumber?: string;
+  /** From a Sex/Gender column, when the file has one */
+  sex?: 'FEMALE' | 'MALE';
+  /** Lab case, kit or sample number */
+  reportId?: string;
+  /** ISO date (YYYY-MM-DD) */
+  testDate?: string;
+  results: LabResultRow[];
+}
+
+export interface GeneticsBatchParseResult {
+  success: boolean;
+  layout: 'long' | 'wide' | null;
+  animals: GeneticsBatchAnimal[];
+  warnings: string[];
+  errors: string[];
+}
+
+// ============================================================================
+// Column detection
+// ============================================================================
+
+const NAME_COLUMN = /^(animal|animal name|name|registered name|call name|horse|horse name|dog|dog name|cat|cat name|pet|pet name|patient)$/;
+const MICROCHIP_COLUMN = /^(microchip|microchip number|microchip #|microchip id|chip|chip number|chip id)$/;
+const REGISTRATION_COLUMN = /^(registration|registration number|registration no|registration #|reg|reg number|reg no|reg #|registry number|registry id)$/;
+const REPORT_ID_COLUMN = /^(case|case number|case no|case #|case id|vgl case|sample|sample id|sample number|sample #|kit|kit number|kit id|order|order number|order #|accession|accession number)$/;
+const DATE_COLUMN = /^(date|test date|report date|date reported|date tested|results date)$/;
+const SEX_COLUMN = /^(sex|gender)$/;
+/** Columns describing the animal or order rather than a test (ignored in the wide layout) */
+const METADATA_COLUMN = /^(species|sex|gender|breed|color|colour|owner|owner name|submitter|birth date|date of birth|dob|age|notes|comments|lab|laboratory|panel|tests? ordered)$/;
+
+const TEST_COLUMN = /\b(test|trait|condition|disease|marker|locus)\b/;
+const RESULT_COLUMN = /\b(result|genotype|status|outcome)\b/;
+const GENE_COLUMN = /\b(gene|variant|mutation)\b/;
+
+function normalizeHeader(cell: string): string {
+  return cell.toLowerCase().replace(/[.:]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function normalizeMicrochip(value: string): string {
+  return value.replace(/[\s-]/g, '');
+}
+
+const FEMALE_VALUES = new Set(['f', 'female', 'mare', 'filly', 'bitch', 'queen', 'doe', 'ewe', 'cow', 'heifer']);
+const MALE_VALUES = new Set(['m', 'male', 'stallion', 'colt', 'gelding', 'stud', 'dog', 'tom', 'buck', 'ram', 'bull']);
+
+function normalizeSex(value: string): 'FEMALE' | 'MALE' | undefined {
+  const key = value.toLowerCase().trim();
+  if (FEMALE_VALUES.has(key)) return 'FEMALE';
+  if (MALE_VALUES.has(key)) return 'MALE';
+  return undefined;
+}
+
+// ============================================================================
+// Main parser
+// ============================================================================
+
+/**
+ * Parse a batch result sheet into per-animal groups of raw results
+ */
+export function parseGeneticsBatch(content: string): GeneticsBatchParseResult {
+  const result: GeneticsBatchParseResult = {
+    success: true,
+    layout: null,
+    animals: [],
+    warnings: [],
+    errors: [],
+  };
+
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const headerIndex = lines.findIndex((l) => l.trim().length > 0);
+  if (headerIndex === -1) {
+    result.success = false;
+    result.errors.push('No data found in file');
+    return result;
+  }
+
+  const header = lines[headerIndex];
+  const delimiter = header.includes('\t') ? '\t' : header.includes(',') ? ',' : null;
+  if (!delimiter) {
+    result.success = false;
+    result.errors.push('Batch files must be CSV or TSV with a header row');
+    return result;
+  }
+
+  const headerCells = splitDelimited(header, delimiter);
+  const columns = headerCells.map(normalizeHeader);
+  const nameCol = columns.findIndex((c) => NAME_COLUMN.test(c));
+  const microchipCol = columns.findIndex((c) => MICROCHIP_COLUMN.test(c));
+  const registrationCol = columns.findIndex((c) => REGISTRATION_COLUMN.test(c));
+  const reportIdCol = columns.findIndex((c) => REPORT_ID_COLUMN.test(c));
+  const dateCol = columns.findIndex((c) => DATE_COLUMN.test(c));
+  const sexCol = columns.findIndex((c) => SEX_COLUMN.test(c));
+
+  if (nameCol === -1 && microchipCol === -1 && registrationCol === -1) {
+    result.success = false;
+    result.errors.push('No animal column found - add a Name, Microchip or Registration column');
+    return result;
+  }
+
+  const identityCols = new Set(
+    [nameCol, microchipCol, registrationCol, reportIdCol, dateCol, sexCol].filter((i) => i >= 0)
+  );
+  const testCol = columns.findIndex((c, i) => !identityCols.has(i) && TEST_COLUMN.test(c));
+  const resultCol = columns.findIndex((c, i) => !identityCols.has(i) && i !== testCol && RESULT_COLUMN.test(c));
+  const geneCol = columns.findIndex(
+    (c, i) => !identityCols.has(i) && i !== testCol && i !== resultCol && GENE_COLUMN.test(c)
+  );
+
+  const layout = testCol >= 0 && resultCol >= 0 ? 'long' : 'wide';
+  result.layout = layout;
+
+  const testColumns =
+    layout === 'wide'
+      ? headerCells
+          .map((name, index) => ({ name, index }))
+          .filter(({ index }) => columns[index] && !identityCols.has(index) && !METADATA_COLUMN.test(columns[index]))
+      : [];
+
+  if (layout === 'wide' && testColumns.length === 0) {
+    result.success = false;
+    result.errors.push('No test columns found - use Test/Result columns or one column per test');
+    return result;
+  }
+
+  const groups = new Map<string, GeneticsBatchAnimal>();
+
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    const rowNumber = i + 1;
+    const cells = splitDelimited(lines[i], delimiter);
+    const cell = (index: number) => (index >= 0 ? (cells[index] ?? '').trim() : '');
+
+    const name = cell(nameCol) || undefined;
+    const microchip = cell(microchipCol) ? normalizeMicrochip(cell(microchipCol)) : undefined;
+    const registrationNumber = cell(registrationCol) || undefined;
+
+    if (!name && !microchip && !registrationNumber) {
+      result.warnings.push(`Row ${rowNumber}: no name, microchip or registration number - skipped`);
+      continue;
+    }
+
+    const key = microchip
+      ? `chip:${microchip}`
+      : registrationNumber
+        ? `reg:${registrationNumber.toLowerCase()}`
+        : `name:${name!.toLowerCase()}`;
+
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, rowNumbers: [], name, microchip, registrationNumber, results: [] };
+      groups.set(key, group);
+    }
+    group.rowNumbers.push(rowNumber);
+    group.name ??= name;
+    group.registrationNumber ??= registrationNumber;
+    group.sex ??= normalizeSex(cell(sexCol));
+    group.reportId ??= cell(reportIdCol) || undefined;
+    if (cell(dateCol)) group.testDate ??= parseReportDate(cell(dateCol));
+
+    if (layout === 'long') {
+      group.results.push({
+        name: cell(testCol),
+        gene: geneCol >= 0 ? cell(geneCol) || undefined : undefined,
+        value: cell(resultCol),
+      });
+    } else {
+      for (const test of testColumns) {
+        const value = cell(test.index);
+        if (value) group.results.push({ name: test.name, value });
+      }
+    }
+  }
+
+  result.animals = [...groups.values()];
+  if (result.animals.length === 0) {
+    result.success = false;
+    result.errors.push('No animal rows found in file');
+  }
+
+  return result;
+}
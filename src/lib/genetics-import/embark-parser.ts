@@ -15,13 +15,17 @@
  */
 
 // Types for parsed data
+
+/** Lab that produced a parsed locus */
+export type GeneticsSource = 'embark' | 'wisdom_panel' | 'uc_davis' | 'animal_genetics' | 'paw_print';
+
 export interface ParsedLocus {
   locus: string;
   locusName: string;
   allele1?: string;
   allele2?: string;
   genotype: string;
-  source: 'embark';
+  source: GeneticsSource;
 }
 
 export interface ParsedGenetics {
@@ -35,7 +39,7 @@ export interface ParsedGenetics {
 }
 
 // Categories that contain ParsedLocus arrays (excludes 'unmapped')
-type LocusCategory = 'coatColor' | 'coatType' | 'physicalTraits' | 'eyeColor' | 'health' | 'otherTraits';
+export type LocusCategory = 'coatColor' | 'coatType' | 'physicalTraits' | 'eyeColor' | 'health' | 'otherTraits';
 
 /**
  * Breed composition entry
@@ -1003,7 +1007,7 @@ function parseCSVLine(line: string): string[] {
  * Parse genotype value from Embark format
  * Examples: "E/E", "Em/E", "Ee", "Clear", "Carrier", etc.
  */
-function parseGenotypeValue(value: string): { allele1?: string; allele2?: string; genotype: string } {
+export function parseGenotypeValue(value: string): { allele1?: string; allele2?: string; genotype: string } {
   // Check if it's a status word first
   const mappedValue = GENOTYPE_VALUE_MAP[value];
   if (mappedValue) {
@@ -1040,6 +1044,57 @@ function parseGenotypeValue(value: string): { allele1?: string; allele2?: string
   return { genotype: value };
 }
 
+/**
+ * Find the locus mapping for an Embark marker name using multiple strategies.
+ * Embark uses verbose names like "Factor IX Deficiency, Hemophilia B (F9 Exon 7, Terrier Variant)".
+ * Other lab parsers reuse this as their dog/cat fallback.
+ */
+export function lookupEmbarkLocus(
+  name: string
+): { locus: string; locusName: string; category: LocusCategory } | undefined {
+  let mapping = EMBARK_LOCUS_MAP[name];
+
+  if (!mapping) {
+    // Strategy 1: Strip parenthetical suffix
+    // e.g., "MDR1 Drug Sensitivity (ABCB1)" -> "MDR1 Drug Sensitivity"
+    const nameWithoutParens = name.replace(/\s*\([^)]+\)\s*$/, '').trim();
+    if (nameWithoutParens !== name) {
+      mapping = EMBARK_LOCUS_MAP[nameWithoutParens];
+    }
+  }
+
+  if (!mapping) {
+    // Strategy 2: Take text before first comma (breed variants)
+    // e.g., "Factor IX Deficiency, Hemophilia B (F9 Exon 7, Terrier Variant)" -> "Factor IX Deficiency"
+    const nameBeforeComma = name.split(',')[0].trim();
+    if (nameBeforeComma !== name) {
+      mapping = EMBARK_LOCUS_MAP[nameBeforeComma];
+    }
+  }
+
+  if (!mapping) {
+    // Strategy 3: Strip both parentheses AND take before comma
+    // e.g., "Von Willebrand Disease Type I, Type I vWD (VWF)" -> "Von Willebrand Disease Type I"
+    const cleanName = name.replace(/\s*\([^)]+\)/g, '').split(',')[0].trim();
+    if (cleanName !== name) {
+      mapping = EMBARK_LOCUS_MAP[cleanName];
+    }
+  }
+
+  if (!mapping) {
+    // Strategy 4: Try to match key health condition keywords
+    const lowerName = name.toLowerCase();
+    for (const [key, value] of Object.entries(EMBARK_LOCUS_MAP)) {
+      if (value.category === 'health' && lowerName.includes(key.toLowerCase()) && key.length > 3) {
+        mapping = value;
+        break;
+      }
+    }
+  }
+
+  return mapping;
+}
+
 /**
  * Calculate COI risk level from coefficient
  */
@@ -1207,47 +1262,7 @@ export function parseEmbarkCSV(csvContent: string): EmbarkParseResult {
       // === Process genetic markers (Health, Trait, Color) ===
       if (!value) continue;
 
-      // Try to find a mapping for this locus using multiple strategies
-      // Embark uses verbose names like "Factor IX Deficiency, Hemophilia B (F9 Exon 7, Terrier Variant)"
-      let mapping = EMBARK_LOCUS_MAP[name];
-
-      if (!mapping) {
-        // Strategy 1: Strip parenthetical suffix
-        // e.g., "MDR1 Drug Sensitivity (ABCB1)" -> "MDR1 Drug Sensitivity"
-        const nameWithoutParens = name.replace(/\s*\([^)]+\)\s*$/, '').trim();
-        if (nameWithoutParens !== name) {
-          mapping = EMBARK_LOCUS_MAP[nameWithoutParens];
-        }
-      }
-
-      if (!mapping) {
-        // Strategy 2: Take text before first comma (breed variants)
-        // e.g., "Factor IX Deficiency, Hemophilia B (F9 Exon 7, Terrier Variant)" -> "Factor IX Deficiency"
-        const nameBeforeComma = name.split(',')[0].trim();
-        if (nameBeforeComma !== name) {
-          mapping = EMBARK_LOCUS_MAP[nameBeforeComma];
-        }
-      }
-
-      if (!mapping) {
-        // Strategy 3: Strip both parentheses AND take before comma
-        // e.g., "Von Willebrand Disease Type I, Type I vWD (VWF)" -> "Von Willebrand Disease Type I"
-        const cleanName = name.replace(/\s*\([^)]+\)/g, '').split(',')[0].trim();
-        if (cleanName !== name) {
-          mapping = EMBARK_LOCUS_MAP[cleanName];
-        }
-      }
-
-      if (!mapping) {
-        // Strategy 4: Try to match key health condition keywords
-        const lowerName = name.toLowerCase();
-        for (const [key, value] of Object.entries(EMBARK_LOCUS_MAP)) {
-          if (value.category === 'health' && lowerName.includes(key.toLowerCase()) && key.length > 3) {
-            mapping = value;
-            break;
-          }
-        }
-      }
+      const mapping = lookupEmbarkLocus(name);
 
       if (mapping) {
         const parsed = parseGenotypeValue(value);
@@ -3,13 +3,30 @@
  *
  * Supports importing genetic test results from various providers:
  * - Embark (dogs) - CSV export
- * - Wisdom Panel (dogs) - Coming soon
- * - UC Davis VGL (multiple species) - Coming soon
- * - Animal Genetics - Coming soon
+ * - Wisdom Panel (dogs, cats) - PDF report text or CSV
+ * - UC Davis VGL (multiple species) - PDF report text or CSV
+ * - Animal Genetics (multiple species) - PDF report text or CSV
+ * - Paw Print Genetics (dogs, cats) - PDF report text or CSV
  * - Manual entry with templates
+ *
+ * Batch sheets covering several animals are read by batch-parser.ts and
+ * mapped with the provider's lab report config.
  */
 
+import { parseEmbarkCSV, type EmbarkExtendedData, type ParsedGenetics } from './embark-parser.js';
+import type { LabReportConfig, LabReportInfo } from './lab-report-parser.js';
+import { parseWisdomPanelReport, WISDOM_PANEL_REPORT_CONFIG } from './wisdom-panel-parser.js';
+import { parseUcDavisReport, UC_DAVIS_REPORT_CONFIG } from './uc-davis-parser.js';
+import { parseAnimalGeneticsReport, ANIMAL_GENETICS_REPORT_CONFIG } from './animal-genetics-parser.js';
+import { parsePawPrintReport, PAW_PRINT_REPORT_CONFIG } from './paw-print-parser.js';
+
 export * from './embark-parser.js';
+export * from './lab-report-parser.js';
+export * from './wisdom-panel-parser.js';
+export * from './uc-davis-parser.js';
+export * from './animal-genetics-parser.js';
+export * from './paw-print-parser.js';
+export * from './batch-parser.js';
 
 // Provider types
 export type GeneticsProvider = 'embark' | 'wisdom_panel' | 'uc_davis' | 'animal_genetics' | 'paw_print' | 'manual';
@@ -43,33 +60,49 @@ export const GENETICS_PROVIDERS: ProviderInfo[] = [
     id: 'wisdom_panel',
     name: 'Wisdom Panel',
     species: ['DOG', 'CAT'],
-    supportedFormats: ['PDF'],
-    isSupported: false,
-    exportInstructions: 'Coming soon - PDF parsing support',
+    supportedFormats: ['PDF', 'CSV'],
+    isSupported: true,
+    exportInstructions: `
+1. Log into your Wisdom Panel account at wisdompanel.com
+2. Open your pet's results and choose "Download Report"
+3. Upload the PDF's text or a CSV of the results here
+    `.trim(),
   },
   {
     id: 'uc_davis',
     name: 'UC Davis VGL',
-    species: ['DOG', 'CAT', 'HORSE'],
-    supportedFormats: ['PDF'],
-    isSupported: false,
-    exportInstructions: 'Coming soon - PDF parsing support',
+    species: ['DOG', 'CAT', 'HORSE', 'GOAT', 'SHEEP', 'CATTLE'],
+    supportedFormats: ['PDF', 'CSV'],
+    isSupported: true,
+    exportInstructions: `
+1. Log into MyVGL at vgl.ucdavis.edu
+2. Open the completed case and download the results report (PDF)
+3. Upload the PDF's text or a CSV of the results here
+    `.trim(),
   },
   {
     id: 'animal_genetics',
     name: 'Animal Genetics',
     species: ['DOG', 'CAT', 'HORSE', 'BIRD'],
-    supportedFormats: ['PDF'],
-    isSupported: false,
-    exportInstructions: 'Coming soon - PDF parsing support',
+    supportedFormats: ['PDF', 'CSV'],
+    isSupported: true,
+    exportInstructions: `
+1. Log into your Animal Genetics account at animalgenetics.us
+2. Open the order and download the certificate for each test (PDF)
+3. Upload the PDF's text or a CSV of the results here
+    `.trim(),
   },
   {
     id: 'paw_print',
     name: 'Paw Print Genetics',
     species: ['DOG', 'CAT'],
-    supportedFormats: ['PDF'],
-    isSupported: false,
-    exportInstructions: 'Coming soon - PDF parsing support',
+    supportedFormats: ['PDF', 'CSV'],
+    isSupported: true,
+    exportInstructions: `
+1. Log into your Paw Print Genetics account at pawprintgenetics.com
+2. Open the completed order and download the results report (PDF)
+3. Upload the PDF's text or a CSV of the results here
+    `.trim(),
   },
   {
     id: 'manual',
@@ -89,3 +122,59 @@ export function getProviderBySpecies(species: string): ProviderInfo[] {
 export function getProviderById(id: GeneticsProvider): ProviderInfo | undefined {
   return GENETICS_PROVIDERS.find((p) => p.id === id);
 }
+
+/** Parse result shared by every provider; extended is Embark-only, report is lab-report-only */
+export interface GeneticsReportParseResult {
+  success: boolean;
+  genetics: ParsedGenetics;
+  warnings: string[];
+  errors: string[];
+  extended?: EmbarkExtendedData;
+  report?: LabReportInfo;
+}
+
+/**
+ * Parse a file from any supported provider. Returns null for providers
+ * without a parser (manual entry).
+ */
+export function parseGeneticsReport(
+  provider: GeneticsProvider,
+  content: string,
+  species: string
+): GeneticsReportParseResult | null {
+  switch (provider) {
+    case 'embark':
+      return parseEmbarkCSV(content);
+    case 'wisdom_panel':
+      return parseWisdomPanelReport(content, species);
+    case 'uc_davis':
+      return parseUcDavisReport(content, species);
+    case 'animal_genetics':
+      return parseAnimalGeneticsReport(content, species);
+    case 'paw_print':
+      return parsePawPrintReport(content, species);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Locus mapping config for a provider's batch sheets. Embark has no lab
+ * report config of its own; its test names resolve through the Embark table.
+ */
+export function getLabReportConfig(provider: GeneticsProvider): LabReportConfig | null {
+  switch (provider) {
+    case 'embark':
+      return { source: 'embark', providerName: 'Embark' };
+    case 'wisdom_panel':
+      return WISDOM_PANEL_REPORT_CONFIG;
+    case 'uc_davis':
+      return UC_DAVIS_REPORT_CONFIG;
+    case 'animal_genetics':
+      return ANIMAL_GENETICS_REPORT_CONFIG;
+    case 'paw_print':
+      return PAW_PRINT_REPORT_CONFIG;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,566 @@
+/**
+ * Lab Report Parser
+ *
+ * Shared engine for genetics labs that don't offer Embark's
+ * Category/Name/Value export: Wisdom Panel, UC Davis VGL, Animal Genetics and
+ * Paw Print Genetics. Each provider parser supplies a small config; this
+ * module does the work.
+ *
+ * Accepted input:
+ * - Text extracted from the lab's PDF report (copy/paste or client-side
+ *   extraction). Tables come through as lines whose cells are separated by
+ *   tabs, "|" or runs of spaces, e.g. "Cream (SLC45A2)    N/Cr".
+ * - CSV/TSV exports with a header row naming the test and result columns.
+ *
+ * Test names are matched to loci through the species table below (horse and
+ * cat loci Embark doesn't cover), then Embark's dog/cat table. Codes are run
+ * through utils/genetics-code-normalizer.ts so imports line up with existing
+ * data. Output uses the same ParsedGenetics shape as the Embark parser, so
+ * toDatabaseFormat and the preview/import routes work unchanged.
+ */
+
+import { normalizeLocusCode } from '../../utils/genetics-code-normalizer.js';
+import {
+  lookupEmbarkLocus,
+  parseGenotypeValue,
+  type BreedCompositionEntry,
+  type GeneticsSource,
+  type LocusCategory,
+  type ParsedGenetics,
+  type ParsedLocus,
+} from './embark-parser.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LabReportConfig {
+  source: GeneticsSource;
+  providerName: string;
+  /** Extra provider-specific test names → locus (checked first) */
+  aliases?: LocusDefinition[];
+  /** Extra labels that precede the lab's case/kit/order number */
+  reportIdLabels?: string[];
+  /** Parse "Breed Name 37.5%" lines as breed ancestry (Wisdom Panel) */
+  parseBreedComposition?: boolean;
+}
+
+/** Report metadata found alongside the results */
+export interface LabReportInfo {
+  animalName?: string;
+  registrationNumber?: string;
+  /** Lab case, kit or order number */
+  reportId?: string;
+  /** ISO date (YYYY-MM-DD) the results were reported */
+  testDate?: string;
+  breedComposition: BreedCompositionEntry[];
+}
+
+export interface LabReportParseResult {
+  success: boolean;
+  genetics: ParsedGenetics;
+  report: LabReportInfo;
+  warnings: string[];
+  errors: string[];
+}
+
+export interface LocusDefinition {
+  names: string[];
+  locus: string;
+  locusName: string;
+  category: LocusCategory;
+  /** Species the names apply to (names like "Dun" or "Red" mean different loci per species) */
+  species: string[];
+}
+
+// ============================================================================
+// Locus table
+// ============================================================================
+
+/**
+ * Horse and cat loci, plus the gene symbols labs print next to test names.
+ * Locus codes may be long forms (e.g. CREAM) - normalizeLocusCode maps those
+ * to the canonical short code for the species.
+ */
+const LAB_LOCI: LocusDefinition[] = [
+  // ── Horse coat color ──────────────────────────────────────────────────────
+  { names: ['red factor', 'extension', 'e locus', 'mc1r', 'red/black factor'], locus: 'EXTENSION', locusName: 'Extension (Red Factor)', category: 'coatColor', species: ['HORSE'] },
+  { names: ['agouti', 'a locus', 'asip', 'bay', 'agouti (bay/black)'], locus: 'AGOUTI', locusName: 'Agouti', category: 'coatColor', species: ['HORSE'] },
+  { names: ['cream', 'cream dilution', 'slc45a2', 'matp'], locus: 'CREAM', locusName: 'Cream', category: 'coatColor', species: ['HORSE'] },
+  { names: ['pearl', 'barlink factor'], locus: 'Prl', locusName: 'Pearl', category: 'coatColor', species: ['HORSE'] },
+  { names: ['dun', 'dun dilution', 'tbx3'], locus: 'DUN', locusName: 'Dun', category: 'coatColor', species: ['HORSE'] },
+  { names: ['gray', 'grey', 'stx17', 'progressive gray'], locus: 'GRAY', locusName: 'Gray', category: 'coatColor', species: ['HORSE'] },
+  { names: ['champagne', 'champagne dilution', 'slc36a1'], locus: 'CHAMPAGNE', locusName: 'Champagne', category: 'coatColor', species: ['HORSE'] },
+  { names: ['silver', 'silver dapple', 'pmel17', 'pmel'], locus: 'SILVER', locusName: 'Silver', category: 'coatColor', species: ['HORSE'] },
+  { names: ['tobiano', 'kit tobiano'], locus: 'TOBIANO', locusName: 'Tobiano', category: 'coatColor', species: ['HORSE'] },
+  { names: ['frame overo', 'overo', 'lethal white overo', 'lethal white foal syndrome', 'overo lethal white syndrome', 'olws', 'ednrb'], locus: 'FRAME_OVERO', locusName: 'Frame Overo (OLWS)', category: 'coatColor', species: ['HORSE'] },
+  { names: ['sabino', 'sabino 1', 'sabino-1', 'sb1'], locus: 'SABINO', locusName: 'Sabino 1', category: 'coatColor', species: ['HORSE'] },
+  { names: ['leopard complex', 'leopard', 'appaloosa', 'lp', 'trpm1'], locus: 'LEOPARD_COMPLEX', locusName: 'Leopard Complex', category: 'coatColor', species: ['HORSE'] },
+  { names: ['pattern 1', 'patn1', 'pattern-1'], locus: 'PATN1', locusName: 'Pattern 1', category: 'coatColor', species: ['HORSE'] },
+  { names: ['roan', 'kit roan'], locus: 'ROAN', locusName: 'Roan', category: 'coatColor', species: ['HORSE'] },
+  { names: ['splashed white', 'splash', 'splash white', 'mitf', 'pax3'], locus: 'SPLASHED_WHITE', locusName: 'Splashed White', category: 'coatColor', species: ['HORSE'] },
+  { names: ['dominant white', 'kit dominant white'], locus: 'DOMINANT_WHITE', locusName: 'Dominant White', category: 'coatColor', species: ['HORSE'] },
+
+  // ── Horse performance / size ──────────────────────────────────────────────
+  { names: ['myostatin', 'speed gene', 'mstn', 'speed'], locus: 'MYOSTATIN', locusName: 'Myostatin (Speed Gene)', category: 'otherTraits', species: ['HORSE'] },
+  { names: ['gait', 'gait keeper', 'gaitkeeper', 'dmrt3'], locus: 'DMRT3', locusName: 'Gait (DMRT3)', category: 'otherTraits', species: ['HORSE'] },
+  { names: ['lcorl', 'height', 'body size'], locus: 'LCORL', locusName: 'Height (LCORL)', category: 'physicalTraits', species: ['HORSE'] },
+
+  // ── Horse health ──────────────────────────────────────────────────────────
+  { names: ['hypp', 'hyperkalemic periodic paralysis', 'scn4a', 'impressive syndrome'], locus: 'HYPP', locusName: 'Hyperkalemic Periodic Paralysis', category: 'health', species: ['HORSE'] },
+  { names: ['gbed', 'glycogen branching enzyme deficiency', 'gbe1'], locus: 'GBED', locusName: 'Glycogen Branching Enzyme Deficiency', category: 'health', species: ['HORSE'] },
+  { names: ['herda', 'hereditary equine regional dermal asthenia', 'ppib'], locus: 'HERDA', locusName: 'Hereditary Equine Regional Dermal Asthenia', category: 'health', species: ['HORSE'] },
+  { names: ['pssm1', 'pssm', 'pssm type 1', 'polysaccharide storage myopathy', 'polysaccharide storage myopathy type 1', 'gys1'], locus: 'PSSM1', locusName: 'Polysaccharide Storage Myopathy Type 1', category: 'health', species: ['HORSE'] },
+  { names: ['malignant hyperthermia', 'mh', 'ryr1'], locus: 'MH', locusName: 'Malignant Hyperthermia', category: 'health', species: ['HORSE'] },
+  { names: ['lavender foal syndrome', 'lfs', 'myo5a'], locus: 'LFS', locusName: 'Lavender Foal Syndrome', category: 'health', species: ['HORSE'] },
+  { names: ['severe combined immunodeficiency', 'scid', 'dna-pkcs', 'prkdc'], locus: 'SCID', locusName: 'Severe Combined Immunodeficiency', category: 'health', species: ['HORSE'] },
+  { names: ['cerebellar abiotrophy', 'ca', 'toe1', 'mutyh'], locus: 'CA', locusName: 'Cerebellar Abiotrophy', category: 'health', species: ['HORSE'] },
+  { names: ['junctional epidermolysis bullosa', 'jeb', 'jeb1', 'jeb2', 'lamc2', 'lama3'], locus: 'JEB', locusName: 'Junctional Epidermolysis Bullosa', category: 'health', species: ['HORSE'] },
+  { names: ['warmblood fragile foal syndrome', 'wffs', 'plod1'], locus: 'WFFS', locusName: 'Warmblood Fragile Foal Syndrome', category: 'health', species: ['HORSE'] },
+  { names: ['foal immunodeficiency syndrome', 'fis', 'slc5a3'], locus: 'FIS', locusName: 'Foal Immunodeficiency Syndrome', category: 'health', species: ['HORSE'] },
+
+  // ── Cat coat color / type ─────────────────────────────────────────────────
+  { names: ['colorpoint', 'color point', 'colourpoint', 'siamese', 'burmese', 'himalayan', 'c locus', 'tyr', 'albinism'], locus: 'COLORPOINT', locusName: 'Colorpoint', category: 'coatColor', species: ['CAT'] },
+  { names: ['brown', 'b locus', 'tyrp1', 'chocolate', 'cinnamon', 'chocolate/cinnamon'], locus: 'BROWN', locusName: 'Brown', category: 'coatColor', species: ['CAT'] },
+  { names: ['dilute', 'dilution', 'd locus', 'mlph'], locus: 'DILUTE', locusName: 'Dilute', category: 'coatColor', species: ['CAT'] },
+  { names: ['agouti', 'a locus', 'asip'], locus: 'AGOUTI', locusName: 'Agouti', category: 'coatColor', species: ['CAT'] },
+  { names: ['orange', 'red', 'o locus', 'arhgap36'], locus: 'ORANGE', locusName: 'Orange', category: 'coatColor', species: ['CAT'] },
+  { names: ['dominant white', 'white', 'w locus'], locus: 'DOMINANT_WHITE', locusName: 'Dominant White', category: 'coatColor', species: ['CAT'] },
+  { names: ['white spotting', 'spotting', 's locus', 'kit'], locus: 'WHITE_SPOTTING', locusName: 'White Spotting', category: 'coatColor', species: ['CAT'] },
+  { names: ['amber', 'extension', 'e locus', 'mc1r'], locus: 'E', locusName: 'Extension (Amber)', category: 'coatColor', species: ['CAT'] },
+  { names: ['mackerel', 'tabby', 'tabby pattern', 'mc locus', 'taqpep'], locus: 'MACKEREL', locusName: 'Tabby Pattern', category: 'coatColor', species: ['CAT'] },
+  { names: ['ticked', 'ticked tabby', 'dkk4', 'ta locus'], locus: 'Ta', locusName: 'Ticked Tabby', category: 'coatColor', species: ['CAT'] },
+  { names: ['long hair', 'longhair', 'long fur', 'l locus', 'fgf5'], locus: 'LONG_HAIR', locusName: 'Long Hair', category: 'coatType', species: ['CAT'] },
+  { names: ['rex', 'devon rex', 'cornish rex', 'krt71', 'lph21'], locus: 'REX', locusName: 'Rex', category: 'coatType', species: ['CAT'] },
+  { names: ['fold', 'scottish fold', 'folded ears', 'trpv4'], locus: 'FOLD', locusName: 'Fold', category: 'physicalTraits', species: ['CAT'] },
+  { names: ['polydactyly', 'polydactyl', 'extra toes', 'shh'], locus: 'POLYDACTYL', locusName: 'Polydactyly', category: 'physicalTraits', species: ['CAT'] },
+
+  // ── Cat health ────────────────────────────────────────────────────────────
+  { names: ['polycystic kidney disease', 'pkd', 'pkd1'], locus: 'PKD', locusName: 'Polycystic Kidney Disease', category: 'health', species: ['CAT'] },
+  { names: ['hypertrophic cardiomyopathy', 'hcm', 'mybpc3', 'hcm (maine coon)', 'hcm (ragdoll)'], locus: 'HCM', locusName: 'Hypertrophic Cardiomyopathy', category: 'health', species: ['CAT'] },
+  { names: ['pyruvate kinase deficiency', 'pk deficiency', 'pk def', 'pklr'], locus: 'PKDef', locusName: 'Pyruvate Kinase Deficiency', category: 'health', species: ['CAT'] },
+  { names: ['progressive retinal atrophy', 'pra', 'rdac', 'cep290', 'pra-rdac'], locus: 'rdAc', locusName: 'Progressive Retinal Atrophy (rdAc)', category: 'health', species: ['CAT'] },
+  { names: ['spinal muscular atrophy', 'sma', 'limk1'], locus: 'SMA', locusName: 'Spinal Muscular Atrophy', category: 'health', species: ['CAT'] },
+  { names: ['gm1 gangliosidosis', 'gangliosidosis gm1', 'gm1', 'glb1'], locus: 'GM1', locusName: 'GM1 Gangliosidosis', category: 'health', species: ['CAT'] },
+  { names: ['gm2 gangliosidosis', 'gangliosidosis gm2', 'gm2', 'hexb'], locus: 'GM2', locusName: 'GM2 Gangliosidosis', category: 'health', species: ['CAT'] },
+  { names: ['blood type', 'blood group', 'ab blood group', 'cmah'], locus: 'CMAH', locusName: 'Blood Type', category: 'otherTraits', species: ['CAT'] },
+];
+
+// ============================================================================
+// Result parsing
+// ============================================================================
+
+/** Status phrases labs use instead of (or next to) a genotype */
+const STATUS_PATTERNS: Array<{ pattern: RegExp; genotype: string }> = [
+  // Negated forms first, so "not affected" doesn't read as affected
+  { pattern: /\b(not|non)[- ](an? )?(affected|at[- ]risk|carrier)\b/i, genotype: 'N/N' },
+  { pattern: /\b(2|two) cop(y|ies)( of (the )?(variant|mutation))?( detected)?\b/i, genotype: 'm/m' },
+  { pattern: /\b(1|one) cop(y|ies)( of (the )?(variant|mutation))?( detected)?\b/i, genotype: 'N/m' },
+  { pattern: /\b(no|0|zero) cop(y|ies)\b/i, genotype: 'N/N' },
+  { pattern: /\b(no (variant|mutation)s? detected|(variant|mutation) not detected|not detected)\b/i, genotype: 'N/N' },
+  { pattern: /\bat[- ]risk\b|\baffected\b/i, genotype: 'm/m' },
+  { pattern: /\bcarrier\b/i, genotype: 'N/m' },
+  { pattern: /\b(clear|normal|negative)\b/i, genotype: 'N/N' },
+];
+
+/**
+ * Slash genotypes: "N/N", "E/e", "n/HYPP", "Cr/Cr", "ky/ky", "E / e".
+ * At least one allele must contain a letter so dates like 10/19 don't match.
+ */
+const GENOTYPE_PATTERN = /(?:^|[\s(:])([A-Za-z0-9+*-]{1,8})\s?\/\s?([A-Za-z0-9+*-]{1,8})(?=$|[\s),;.])/;
+
+/**
+ * Read a genotype from a result cell. Returns null if the cell isn't a result.
+ */
+export function parseLabResult(value: string): { allele1?: string; allele2?: string; genotype: string } | null {
+  const text = value.trim();
+  if (!text || text.length > 80) return null;
+
+  const slash = text.match(GENOTYPE_PATTERN);
+  if (slash && (/[A-Za-z]/.test(slash[1]) || /[A-Za-z]/.test(slash[2]))) {
+    // "Normal/Normal" spells out the wild-type allele
+    const allele = (a: string) => (/^normal$/i.test(a) ? 'N' : a);
+    return parseGenotypeValue(`${allele(slash[1])}/${allele(slash[2])}`);
+  }
+
+  for (const { pattern, genotype } of STATUS_PATTERNS) {
+    if (pattern.test(text)) return parseGenotypeValue(genotype);
+  }
+
+  // Concatenated genotypes from CSV result columns ("Ee", "EE")
+  if (/^[A-Z][a-z]?[A-Za-z][a-z]?$/.test(text) && text.length <= 4) {
+    const parsed = parseGenotypeValue(text);
+    if (parsed.allele1) return parsed;
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Locus lookup
+// ============================================================================
+
+function simplifyName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[–—]/g, '-')
+    .replace(/\b(test|testing|result|results|genotype|dna|variant|mutation)\b/g, ' ')
+    .replace(/[:*•]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Candidate spellings for a test name: full, without parentheses, parenthesised gene, before comma */
+function nameCandidates(name: string, gene?: string): string[] {
+  const candidates = [name];
+  const parenContent = [...name.matchAll(/\(([^)]+)\)/g)].map((m) => m[1]);
+  candidates.push(name.replace(/\s*\([^)]*\)/g, ''));
+  candidates.push(...parenContent);
+  candidates.push(name.split(',')[0]);
+  if (gene) candidates.push(gene);
+  return [...new Set(candidates.map(simplifyName).filter((c) => c.length > 0))];
+}
+
+function findLocus(
+  config: LabReportConfig,
+  species: string,
+  name: string,
+  gene?: string
+): { locus: string; locusName: string; category: LocusCategory } | undefined {
+  const candidates = nameCandidates(name, gene);
+  const tables = [config.aliases ?? [], LAB_LOCI];
+
+  for (const table of tables) {
+    for (const candidate of candidates) {
+      const match = table.find((def) => def.species.includes(species) && def.names.includes(candidate));
+      if (match) return { locus: match.locus, locusName: match.locusName, category: match.category };
+    }
+  }
+
+  // Embark's table is dog-centric; its color names also hold for cats
+  if (species === 'DOG' || species === 'CAT') {
+    const embark = lookupEmbarkLocus(name.trim()) ?? (gene ? lookupEmbarkLocus(gene.trim()) : undefined);
+    if (embark) return embark;
+  }
+
+  return undefined;
+}
+
+// ============================================================================
+// Report metadata
+// ============================================================================
+
+const DEFAULT_REPORT_ID_LABELS = [
+  'case number',
+  'case no',
+  'case #',
+  'case',
+  'report number',
+  'report id',
+  'report #',
+  'sample id',
+  'sample number',
+  'accession number',
+  'accession',
+];
+
+const DATE_LABEL = /^(?:date reported|report date|date of report|results date|date completed|date tested|test date|reported)\s*[:#]?\s*(.+)$/i;
+const NAME_LABEL = /^(?:animal name|registered name|horse name|dog name|cat name|pet name|animal|horse|patient|pet)\s*:\s*(.+)$/i;
+const REGISTRATION_LABEL = /^(?:registration|reg\.?)\s*(?:number|no\.?|#)?\s*:\s*(\S+)/i;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function parseReportDate(value: string): string | undefined {
+  const text = value.trim();
+  let match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+
+  match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})/);
+  if (match) {
+    const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+    return `${year}-${match[1].padStart(2, '0')}-${match[2].padStart(2, '0')}`;
+  }
+
+  match = text.match(/^([A-Z][a-z]+\.? \d{1,2},? \d{4})/);
+  if (match) {
+    const parsed = new Date(`${match[1].replace('.', '')} 12:00:00 UTC`);
+    if (!Number.isNaN(parsed.getTime())) return parsed.toISOString().slice(0, 10);
+  }
+  return undefined;
+}
+
+/**
+ * Pull report metadata from a line. Returns true if the line was metadata
+ * (and so shouldn't be read as a result).
+ */
+function readReportInfo(line: string, info: LabReportInfo, reportIdLabels: string[]): boolean {
+  const text = line.trim();
+
+  for (const label of reportIdLabels) {
+    const match = text.match(new RegExp(`^${escapeRegExp(label)}(?:\\s*[:#]\\s*|\\s+)([A-Za-z0-9][A-Za-z0-9-]{2,})\\b`, 'i'));
+    if (match) {
+      info.reportId ??= match[1];
+      return true;
+    }
+  }
+
+  const date = text.match(DATE_LABEL);
+  if (date) {
+    info.testDate ??= parseReportDate(date[1]);
+    return true;
+  }
+
+  const name = text.match(NAME_LABEL);
+  if (name) {
+    info.animalName ??= name[1].split(/\t|\s{2,}/)[0].trim();
+    return true;
+  }
+
+  const registration = text.match(REGISTRATION_LABEL);
+  if (registration) {
+    info.registrationNumber ??= registration[1];
+    return true;
+  }
+
+  return false;
+}
+
+// ============================================================================
+// Row extraction
+// ============================================================================
+
+/** One test result before locus mapping */
+export interface LabResultRow {
+  name: string;
+  gene?: string;
+  value: string;
+}
+
+export function splitDelimited(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === delimiter && !inQuotes) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+/**
+ * CSV/TSV with a header row naming the test and result columns.
+ * Returns null if the content doesn't look like one.
+ */
+function readDelimitedRows(lines: string[]): LabResultRow[] | null {
+  const header = lines[0];
+  const delimiter = header.includes('\t') ? '\t' : header.includes(',') ? ',' : null;
+  if (!delimiter) return null;
+
+  const columns = splitDelimited(header, delimiter).map((c) => c.toLowerCase());
+  const nameCol = columns.findIndex((c) => /\b(test|trait|condition|disease|marker|locus|panel)\b/.test(c));
+  const resultCol = columns.findIndex((c) => /\b(result|genotype|status|outcome)\b/.test(c));
+  if (nameCol === -1 || resultCol === -1 || nameCol === resultCol) return null;
+  const geneCol = columns.findIndex((c, i) => i !== nameCol && /\b(gene|variant|mutation)\b/.test(c));
+
+  return lines.slice(1).map((line) => {
+    const cells = splitDelimited(line, delimiter);
+    return {
+      name: cells[nameCol] ?? '',
+      gene: geneCol >= 0 ? cells[geneCol] : undefined,
+      value: cells[resultCol] ?? '',
+    };
+  });
+}
+
+/**
+ * One line of PDF text. Cells are split on tabs, "|" or 2+ spaces; failing
+ * that, "Name: result" or "Name  E/e" on a single run of text.
+ */
+function readTextRow(line: string): LabResultRow | null {
+  const cells = line
+    .split(/\t|\s*\|\s*|\s{2,}/)
+    .map((c) => c.trim())
+    .filter(Boolean);
+
+  if (cells.length >= 2) {
+    // Prefer an explicit genotype ("N/DM") over a status word ("Carrier") in the same row
+    const results = cells.slice(1).map((cell, i) => ({ cell, index: i + 1 })).filter(({ cell }) => parseLabResult(cell));
+    const best = results.find(({ cell }) => GENOTYPE_PATTERN.test(cell)) ?? results[0];
+    if (!best) return null;
+    return { name: cells[0], gene: best.index > 1 ? cells[1] : undefined, value: best.cell };
+  }
+
+  const colon = line.match(/^([^:]{2,80}):\s*(.+)$/);
+  if (colon && parseLabResult(colon[2])) return { name: colon[1], value: colon[2] };
+
+  const trailing = line.match(/^(.{2,80}?)\s+([A-Za-z0-9+*-]{1,8}\s?\/\s?[A-Za-z0-9+*-]{1,8})\s*$/);
+  if (trailing && parseLabResult(trailing[2])) return { name: trailing[1], value: trailing[2] };
+
+  return null;
+}
+
+// ============================================================================
+// Main parser
+// ============================================================================
+
+function emptyGenetics(): ParsedGenetics {
+  return {
+    coatColor: [],
+    coatType: [],
+    physicalTraits: [],
+    eyeColor: [],
+    health: [],
+    otherTraits: [],
+    unmapped: [],
+  };
+}
+
+/**
+ * Map result rows to loci for one animal. Rows whose value isn't a result are
+ * dropped silently unless reportUnparsed is set (CSV columns are always
+ * results, PDF text lines often aren't).
+ */
+export function mapLabResults(
+  rows: LabResultRow[],
+  species: string,
+  config: LabReportConfig,
+  options: { reportUnparsed?: boolean } = {}
+): { genetics: ParsedGenetics; warnings: string[] } {
+  const speciesUpper = (species || 'DOG').toUpperCase();
+  const genetics = emptyGenetics();
+  const warnings: string[] = [];
+  const seen = new Map<string, string>();
+
+  for (const row of rows) {
+    const name = row.name.trim();
+    const value = row.value.trim();
+    if (!name || !value) continue;
+
+    const parsed = parseLabResult(value);
+    if (!parsed) {
+      if (options.reportUnparsed) {
+        genetics.unmapped.push({ category: config.providerName, name, value });
+        warnings.push(`Unrecognized result "${value}" for "${name}" - skipped`);
+      }
+      continue;
+    }
+
+    const mapping = findLocus(config, speciesUpper, name, row.gene);
+    if (!mapping) {
+      genetics.unmapped.push({ category: config.providerName, name, value });
+      warnings.push(`[UNMAPPED] "${name}" (${value}) - not imported`);
+      continue;
+    }
+
+    const locusCode = normalizeLocusCode(mapping.locus, speciesUpper);
+    const key = `${mapping.category}:${locusCode}`;
+    const previous = seen.get(key);
+    if (previous !== undefined) {
+      if (previous !== parsed.genotype) {
+        warnings.push(`Conflicting results for ${mapping.locusName} (${previous} and ${parsed.genotype}) - kept ${previous}`);
+      }
+      continue;
+    }
+    seen.set(key, parsed.genotype);
+
+    const locus: ParsedLocus = {
+      locus: locusCode,
+      locusName: mapping.locusName,
+      allele1: parsed.allele1,
+      allele2: parsed.allele2,
+      genotype: parsed.genotype,
+      source: config.source,
+    };
+    genetics[mapping.category].push(locus);
+  }
+
+  return { genetics, warnings };
+}
+
+/**
+ * Parse a lab report (PDF text or CSV) into ParsedGenetics
+ */
+export function parseLabReport(content: string, species: string, config: LabReportConfig): LabReportParseResult {
+  const speciesUpper = (species || 'DOG').toUpperCase();
+  const result: LabReportParseResult = {
+    success: true,
+    genetics: emptyGenetics(),
+    report: { breedComposition: [] },
+    warnings: [],
+    errors: [],
+  };
+
+  try {
+    const lines = content
+      .replace(/^\uFEFF/, '')
+      .split(/\r?\n/)
+      .map((l) => l.replace(/\s+$/, ''))
+      .filter((l) => l.trim().length > 0);
+
+    if (lines.length === 0) {
+      result.success = false;
+      result.errors.push('No data found in file');
+      return result;
+    }
+
+    const reportIdLabels = [...(config.reportIdLabels ?? []), ...DEFAULT_REPORT_ID_LABELS];
+    const delimitedRows = readDelimitedRows(lines);
+    const rows: LabResultRow[] = [];
+
+    if (delimitedRows) {
+      rows.push(...delimitedRows);
+    } else {
+      for (const line of lines) {
+        if (readReportInfo(line, result.report, reportIdLabels)) continue;
+
+        if (config.parseBreedComposition) {
+          const breed = line.trim().match(/^([A-Z][A-Za-z .'-]{2,60}?)\s+(\d{1,3}(?:\.\d+)?)\s?%$/);
+          if (breed) {
+            const percentage = parseFloat(breed[2]);
+            if (percentage > 0 && percentage <= 100) {
+              result.report.breedComposition.push({ breed: breed[1].trim(), percentage });
+            }
+            continue;
+          }
+        }
+
+        const row = readTextRow(line);
+        if (row) rows.push(row);
+      }
+    }
+
+    const mapped = mapLabResults(rows, speciesUpper, config, { reportUnparsed: delimitedRows !== null });
+    result.genetics = mapped.genetics;
+    result.warnings.push(...mapped.warnings);
+
+    result.report.breedComposition.sort((a, b) => b.percentage - a.percentage);
+
+    const totalMapped =
+      result.genetics.coatColor.length +
+      result.genetics.coatType.length +
+      result.genetics.physicalTraits.length +
+      result.genetics.eyeColor.length +
+      result.genetics.health.length +
+      result.genetics.otherTraits.length;
+
+    if (totalMapped === 0 && result.report.breedComposition.length === 0) {
+      result.warnings.push(
+        `No recognized genetic markers found. The file may not be a ${config.providerName} report for a ${speciesUpper.toLowerCase()}.`
+      );
+    }
+  } catch (error) {
+    result.success = false;
+    result.errors.push(`Failed to parse report: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  return result;
+}
@@ -0,0 +1,19 @@
+/**
+ * Paw Print Genetics Parser
+ *
+ * Parses Paw Print Genetics (dog and cat) results from the text of the PDF
+ * certificate or a CSV export. Results read "Clear", "Carrier" or "At Risk",
+ * usually with a genotype alongside ("Carrier  N/DM").
+ */
+
+import { parseLabReport, type LabReportConfig, type LabReportParseResult } from './lab-report-parser.js';
+
+export const PAW_PRINT_REPORT_CONFIG: LabReportConfig = {
+  source: 'paw_print',
+  providerName: 'Paw Print Genetics',
+  reportIdLabels: ['order number', 'order #', 'order id', 'sample number', 'ppg id'],
+};
+
+export function parsePawPrintReport(content: string, species: string): LabReportParseResult {
+  return parseLabReport(content, species, PAW_PRINT_REPORT_CONFIG);
+}
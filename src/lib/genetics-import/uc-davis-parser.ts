@@ -0,0 +1,27 @@
+/**
+ * UC Davis VGL Parser
+ *
+ * Parses UC Davis Veterinary Genetics Laboratory results from the text of the
+ * PDF report or a CSV export. VGL reports list each test with a genotype in
+ * its own notation (e.g. "Red Factor  E/e", "HYPP  N/H", "Cream  N/Cr"),
+ * headed by a case number and the animal's name/registration.
+ */
+
+import { parseLabReport, type LabReportConfig, type LabReportParseResult, type LocusDefinition } from './lab-report-parser.js';
+
+const UC_DAVIS_ALIASES: LocusDefinition[] = [
+  { names: ['color', 'colorpoint/mink/sepia', 'siamese/burmese', 'color (colorpoint)'], locus: 'COLORPOINT', locusName: 'Colorpoint', category: 'coatColor', species: ['CAT'] },
+  { names: ['dilution', 'color dilution'], locus: 'D', locusName: 'Dilute', category: 'coatColor', species: ['DOG'] },
+  { names: ['chocolate', 'brown/chocolate'], locus: 'B', locusName: 'Brown', category: 'coatColor', species: ['DOG'] },
+];
+
+export const UC_DAVIS_REPORT_CONFIG: LabReportConfig = {
+  source: 'uc_davis',
+  providerName: 'UC Davis VGL',
+  aliases: UC_DAVIS_ALIASES,
+  reportIdLabels: ['vgl case', 'vgl case number', 'case id'],
+};
+
+export function parseUcDavisReport(content: string, species: string): LabReportParseResult {
+  return parseLabReport(content, species, UC_DAVIS_REPORT_CONFIG);
+}
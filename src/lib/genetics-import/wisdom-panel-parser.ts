@@ -0,0 +1,28 @@
+/**
+ * Wisdom Panel Parser
+ *
+ * Parses Wisdom Panel (dog and cat) results from the text of the PDF report
+ * or a CSV export. Health results read "No variant detected", "1 copy of the
+ * variant detected" or "At Risk"; trait results show genotypes such as "ky/ky".
+ * Breed ancestry lines ("Labrador Retriever 50.0%") are collected too.
+ */
+
+import { parseLabReport, type LabReportConfig, type LabReportParseResult, type LocusDefinition } from './lab-report-parser.js';
+
+const WISDOM_PANEL_ALIASES: LocusDefinition[] = [
+  { names: ['mdr1 medication sensitivity', 'multi-drug sensitivity', 'multidrug sensitivity'], locus: 'ABCB1', locusName: 'MDR1 Drug Sensitivity', category: 'health', species: ['DOG'] },
+  { names: ['dominant black', 'k locus'], locus: 'K', locusName: 'Dominant Black', category: 'coatColor', species: ['DOG'] },
+  { names: ['eye color', 'blue eye color'], locus: 'ALX4', locusName: 'Blue Eyes (ALX4)', category: 'eyeColor', species: ['DOG'] },
+];
+
+export const WISDOM_PANEL_REPORT_CONFIG: LabReportConfig = {
+  source: 'wisdom_panel',
+  providerName: 'Wisdom Panel',
+  aliases: WISDOM_PANEL_ALIASES,
+  reportIdLabels: ['kit number', 'kit no', 'kit id', 'kit #', 'kit code'],
+  parseBreedComposition: true,
+};
+
+export function parseWisdomPanelReport(content: string, species: string): LabReportParseResult {
+  return parseLabReport(content, species, WISDOM_PANEL_REPORT_CONFIG);
+}
@@ -1,6 +1,12 @@
-import { BreedingRuleLevel, BreedingProgramRule } from '@prisma/client';
+import { BreedingRuleLevel, BreedingProgramRule, Prisma, PrismaClient, WaitlistStatus } from '@prisma/client';
 import prisma from '../prisma.js';
 import { resolveOffspringPrice } from '../services/commerce-pricing.js';
+import { sendEmail } from '../services/email-service.js';
+import { renderWaitlistPhotosEmail } from '../services/email-templates.js';
+import { isCustomRuleType } from '../validation/breeding-program-rules.js';
+import { OFFSPRING_PHOTO_KINDS, runCustomRule } from './custom-rules.js';
+
+const PORTAL_BASE_URL = process.env.PORTAL_BASE_URL || 'https://portal.breederhq.com';
 
 /**
  * Represents a node in the inheritance chain
@@ -10,6 +16,20 @@ interface ChainNode {
   id: string | number;
 }
 
+/**
+ * Where a rule execution reads and writes
+ * Previews run inside a transaction that is rolled back, skip the execution
+ * log and never send email.
+ */
+export type RuleDb = PrismaClient | Prisma.TransactionClient;
+
+export interface RuleExecutionContext {
+  db: RuleDb;
+  preview: boolean;
+}
+
+const DEFAULT_RULE_CONTEXT: RuleExecutionContext = { db: prisma, preview: false };
+
 /**
  * Build the inheritance chain from a specific level/entity up to the program level
  * Example: offspring(123) → plan(6) → program('german-shepherds')
@@ -17,13 +37,14 @@ interface ChainNode {
 export async function buildInheritanceChain(
   level: BreedingRuleLevel,
   id: string | number,
-  tenantId: number
+  tenantId: number,
+  db: RuleDb = prisma
 ): Promise<ChainNode[]> {
   const chain: ChainNode[] = [];
 
   switch (level) {
     case 'OFFSPRING': {
-      const offspring = await prisma.offspring.findUnique({
+      const offspring = await db.offspring.findUnique({
         where: { id: Number(id), tenantId },
         include: {
           BreedingPlan: {
@@ -47,7 +68,7 @@ export async function buildInheritanceChain(
           const species = plan.sire?.species || plan.dam?.species;
           if (species) {
             // Find breeding program that matches species and optionally breed
-            const program = await prisma.mktListingBreedingProgram.findFirst({
+            const program = await db.mktListingBreedingProgram.findFirst({
               where: {
                 tenantId,
                 species,
@@ -64,7 +85,7 @@ export async function buildInheritanceChain(
     }
 
     case 'PLAN': {
-      const plan = await prisma.breedingPlan.findUnique({
+      const plan = await db.breedingPlan.findUnique({
         where: { id: Number(id), tenantId },
         include: {
           sire: true,
@@ -77,7 +98,7 @@ export async function buildInheritanceChain(
 
         const species = plan.sire?.species || plan.dam?.species;
         if (species) {
-          const program = await prisma.mktListingBreedingProgram.findFirst({
+          const program = await db.mktListingBreedingProgram.findFirst({
             where: { tenantId, species }
           });
 
@@ -90,7 +111,7 @@ export async function buildInheritanceChain(
     }
 
     case 'PROGRAM': {
-      const program = await prisma.mktListingBreedingProgram.findUnique({
+      const program = await db.mktListingBreedingProgram.findUnique({
         where: {
           tenantId_slug: {
             tenantId,
@@ -116,17 +137,18 @@ export async function buildInheritanceChain(
 export async function getEffectiveRules(
   level: BreedingRuleLevel,
   id: string | number,
-  tenantId: number
+  tenantId: number,
+  db: RuleDb = prisma
 ): Promise<BreedingProgramRule[]> {
   // 1. Build inheritance chain
-  const chain = await buildInheritanceChain(level, id, tenantId);
+  const chain = await buildInheritanceChain(level, id, tenantId, db);
 
   if (chain.length === 0) {
     return [];
   }
 
   // 2. Fetch all rules for entities in chain
-  const allRules = await prisma.breedingProgramRule.findMany({
+  const allRules = await db.breedingProgramRule.findMany({
     where: {
       tenantId,
       OR: chain.map(node => ({
@@ -196,7 +218,8 @@ export async function executeRule(
   rule: BreedingProgramRule,
   entityType: 'offspring' | 'plan',
   entityId: number,
-  triggeredBy: 'user_action' | 'cron_job' | 'webhook'
+  triggeredBy: 'user_action' | 'cron_job' | 'webhook',
+  context: RuleExecutionContext = DEFAULT_RULE_CONTEXT
 ): Promise<{ success: boolean; action?: string; changes?: any; error?: string }> {
   try {
     let result: { success: boolean; action?: string; changes?: any; error?: string };
@@ -204,37 +227,45 @@ export async function executeRule(
     // Execute the rule based on ruleType
     switch (rule.ruleType) {
       case 'auto_list_available':
-        result = await executeAutoListAvailable(rule, entityType, entityId);
+        result = await executeAutoListAvailable(rule, entityType, entityId, context);
         break;
 
       case 'auto_unlist_on_status_change':
-        result = await executeAutoUnlistOnStatusChange(rule, entityType, entityId);
+        result = await executeAutoUnlistOnStatusChange(rule, entityType, entityId, context);
         break;
 
       case 'default_price_by_sex':
-        result = await executeDefaultPriceBySex(rule, entityType, entityId);
+        result = await executeDefaultPriceBySex(rule, entityType, entityId, context);
         break;
 
       case 'hide_photos_until_age':
-        result = await executeHidePhotosUntilAge(rule, entityType, entityId);
+        result = await executeHidePhotosUntilAge(rule, entityType, entityId, context);
         break;
 
       case 'accept_inquiries':
-        result = await executeAcceptInquiries(rule, entityType, entityId);
+        result = await executeAcceptInquiries(rule, entityType, entityId, context);
         break;
 
       case 'notify_waitlist_on_photos':
-        result = await executeNotifyWaitlistOnPhotos(rule, entityType, entityId);
+        result = await executeNotifyWaitlistOnPhotos(rule, entityType, entityId, context);
         break;
 
       // Add more rule types here as they're implemented
       default:
+        if (isCustomRuleType(rule.ruleType)) {
+          result = await runCustomRule(rule, entityType, entityId, { db: context.db, preview: context.preview });
+          break;
+        }
         result = {
           success: false,
           error: `Unknown rule type: ${rule.ruleType}`
         };
     }
 
+    if (context.preview) {
+      return result;
+    }
+
     // Log execution
     await prisma.breedingProgramRuleExecution.create({
       data: {
@@ -254,6 +285,10 @@ export async function executeRule(
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
+    if (context.preview) {
+      return { success: false, error: errorMessage };
+    }
+
     // Log failed execution
     await prisma.breedingProgramRuleExecution.create({
       data: {
@@ -278,7 +313,8 @@ export async function executeRule(
 async function executeAutoListAvailable(
   rule: BreedingProgramRule,
   entityType: 'offspring' | 'plan',
-  entityId: number
+  entityId: number,
+  ctx: RuleExecutionContext
 ): Promise<{ success: boolean; action?: string; changes?: any; error?: string }> {
   if (entityType !== 'offspring') {
     return {
@@ -293,7 +329,7 @@ async function executeAutoListAvailable(
   const minPhotoCount = config.minPhotoCount || 1;
 
   // Fetch offspring
-  const offspring = await prisma.offspring.findUnique({
+  const offspring = await ctx.db.offspring.findUnique({
     where: { id: entityId },
     include: {
       Attachments: true
@@ -349,9 +385,9 @@ async function executeAutoListAvailable(
   }
 
   // Resolve price from cascade before listing
-  const resolved = await resolveOffspringPrice(entityId, prisma);
+  const resolved = await resolveOffspringPrice(entityId, ctx.db);
 
-  await prisma.offspring.update({
+  await ctx.db.offspring.update({
     where: { id: entityId },
     data: {
       marketplaceListed: true,
@@ -380,9 +416,10 @@ export async function executeAllRulesForEntity(
   level: BreedingRuleLevel,
   id: string | number,
   tenantId: number,
-  triggeredBy: 'user_action' | 'cron_job' | 'webhook'
+  triggeredBy: 'user_action' | 'cron_job' | 'webhook',
+  context: RuleExecutionContext = DEFAULT_RULE_CONTEXT
 ): Promise<{ success: boolean; results: any[] }> {
-  const rules = await getEffectiveRules(level, id, tenantId);
+  const rules = await getEffectiveRules(level, id, tenantId, context.db);
 
   const results = [];
   let allSuccessful = true;
@@ -402,7 +439,7 @@ export async function executeAllRulesForEntity(
       continue; // Skip program level
     }
 
-    const result = await executeRule(rule, entityType, entityId, triggeredBy);
+    const result = await executeRule(rule, entityType, entityId, triggeredBy, context);
     results.push({
       ruleId: rule.id,
       ruleType: rule.ruleType,
@@ -424,7 +461,8 @@ export async function executeAllRulesForEntity(
 async function executeAutoUnlistOnStatusChange(
   rule: BreedingProgramRule,
   entityType: 'offspring' | 'plan',
-  entityId: number
+  entityId: number,
+  ctx: RuleExecutionContext
 ): Promise<{ success: boolean; action?: string; changes?: any; error?: string }> {
   if (entityType !== 'offspring') {
     return {
@@ -433,7 +471,7 @@ async function executeAutoUnlistOnStatusChange(
     };
   }
 
-  const offspring = await prisma.offspring.findUnique({
+  const offspring = await ctx.db.offspring.findUnique({
     where: { id: entityId }
   });
 
@@ -443,7 +481,7 @@ async function executeAutoUnlistOnStatusChange(
 
   // If keeperIntent is not AVAILABLE and is currently listed, unlist it
   if (offspring.keeperIntent !== 'AVAILABLE' && offspring.marketplaceListed) {
-    await prisma.offspring.update({
+    await ctx.db.offspring.update({
       where: { id: entityId },
       data: { marketplaceListed: false }
     });
@@ -472,7 +510,8 @@ async function executeAutoUnlistOnStatusChange(
 async function executeDefaultPriceBySex(
   rule: BreedingProgramRule,
   entityType: 'offspring' | 'plan',
-  entityId: number
+  entityId: number,
+  ctx: RuleExecutionContext
 ): Promise<{ success: boolean; action?: string; changes?: any; error?: string }> {
   if (entityType !== 'offspring') {
     return {
@@ -486,7 +525,7 @@ async function executeDefaultPriceBySex(
   const femalePriceCents = config.femalePriceCents || 0;
   const applyToExisting = config.applyToExisting || false;
 
-  const offspring = await prisma.offspring.findUnique({
+  const offspring = await ctx.db.offspring.findUnique({
     where: { id: entityId }
   });
 
@@ -519,7 +558,7 @@ async function executeDefaultPriceBySex(
     };
   }
 
-  await prisma.offspring.update({
+  await ctx.db.offspring.update({
     where: { id: entityId },
     data: { priceCents: newPrice }
   });
@@ -534,51 +573,93 @@ async function executeDefaultPriceBySex(
   };
 }
 
+
 /**
  * Execute the "hide_photos_until_age" rule
- * This is a visibility rule that would be checked when rendering photos
- * No action to take in the database, just returns success
+ * Visibility rule enforced by the public offspring/listing DTOs via
+ * getPhotoVisibilityForPlan; execution just reports the current state
  */
 async function executeHidePhotosUntilAge(
   rule: BreedingProgramRule,
   entityType: 'offspring' | 'plan',
-  entityId: number
+  entityId: number,
+  ctx: RuleExecutionContext
 ): Promise<{ success: boolean; action?: string; changes?: any; error?: string }> {
-  // This rule is passive - it's checked when rendering, not executed
+  let bornAt: Date | null;
+
+  if (entityType === 'offspring') {
+    const offspring = await ctx.db.offspring.findUnique({
+      where: { id: entityId },
+      select: { bornAt: true, BreedingPlan: { select: { birthDateActual: true } } }
+    });
+    if (!offspring) {
+      return { success: false, error: 'Offspring not found' };
+    }
+    bornAt = offspring.bornAt ?? offspring.BreedingPlan?.birthDateActual ?? null;
+  } else {
+    const plan = await ctx.db.breedingPlan.findUnique({
+      where: { id: entityId },
+      select: { birthDateActual: true }
+    });
+    if (!plan) {
+      return { success: false, error: 'Plan not found' };
+    }
+    bornAt = plan.birthDateActual;
+  }
+
+  const hidden = arePhotosHiddenByRule(rule, bornAt);
   return {
     success: true,
-    action: 'passive_rule',
-    changes: { reason: 'Visibility rule - enforced at render time' }
+    action: hidden ? 'photos_hidden' : 'photos_visible',
+    changes: {
+      ageWeeks: photoAgeWeeks(rule),
+      bornAt,
+      reason: 'Visibility rule - enforced at render time'
+    }
   };
 }
 
 /**
  * Execute the "accept_inquiries" rule
- * Enable or disable inquiry acceptance
- * This is metadata that would be checked when handling inquiries
+ * Enforced by the public inquiry endpoints via isAcceptingInquiries;
+ * execution just reports whether inquiries are open
  */
 async function executeAcceptInquiries(
   rule: BreedingProgramRule,
   entityType: 'offspring' | 'plan',
-  entityId: number
+  entityId: number,
+  ctx: RuleExecutionContext
 ): Promise<{ success: boolean; action?: string; changes?: any; error?: string }> {
-  // This rule is passive - it's checked when handling inquiries
+  const accepting = (rule.config as any)?.enabled !== false;
   return {
     success: true,
-    action: 'passive_rule',
-    changes: { reason: 'Inquiry rule - enforced when handling inquiries' }
+    action: accepting ? 'inquiries_open' : 'inquiries_closed',
+    changes: { entityType, entityId, reason: 'Inquiry rule - enforced when handling inquiries' }
   };
 }
 
+/**
+ * Waitlist statuses that count as "on the waitlist" for photo notifications
+ */
+const NOTIFIABLE_WAITLIST_STATUSES: WaitlistStatus[] = [
+  'APPROVED',
+  'DEPOSIT_DUE',
+  'DEPOSIT_PAID',
+  'READY',
+  'ALLOCATED'
+];
+
 /**
  * Execute the "notify_waitlist_on_photos" rule
- * Send notifications to waitlist members when photos are added
- * This would be triggered by a webhook when photos are uploaded
+ * Email the plan's waitlist members once the offspring has enough photos.
+ * Each (offspring, waitlist entry) pair is claimed in WaitlistPhotoNotification
+ * before sending, so repeated triggers never notify the same member twice.
  */
 async function executeNotifyWaitlistOnPhotos(
   rule: BreedingProgramRule,
   entityType: 'offspring' | 'plan',
-  entityId: number
+  entityId: number,
+  ctx: RuleExecutionContext
 ): Promise<{ success: boolean; action?: string; changes?: any; error?: string }> {
   if (entityType !== 'offspring') {
     return {
@@ -599,21 +680,317 @@ async function executeNotifyWaitlistOnPhotos(
     };
   }
 
-  // In a real implementation, this would:
-  // 1. Check if enough photos exist
-  // 2. Find all waitlist members for this offspring
-  // 3. Send email notifications
-  // 4. Track who was notified to avoid duplicates
+  const offspring = await ctx.db.offspring.findUnique({
+    where: { id: entityId },
+    select: {
+      id: true,
+      tenantId: true,
+      name: true,
+      breedingPlanId: true,
+      BreedingPlan: { select: { name: true, nickname: true } },
+      tenant: { select: { name: true, slug: true } }
+    }
+  });
+
+  if (!offspring) {
+    return { success: false, error: 'Offspring not found' };
+  }
+
+  const photoCount = await ctx.db.attachment.count({
+    where: {
+      tenantId: offspring.tenantId,
+      offspringId: offspring.id,
+      kind: { in: OFFSPRING_PHOTO_KINDS }
+    }
+  });
+
+  if (photoCount < minPhotos) {
+    return {
+      success: true,
+      action: 'no_action',
+      changes: { reason: 'Not enough photos yet', photoCount, minPhotos }
+    };
+  }
+
+  // Waitlist members on the plan who have not been told about this offspring,
+  // skipping anyone already allocated a different offspring
+  const entries = await ctx.db.waitlistEntry.findMany({
+    where: {
+      tenantId: offspring.tenantId,
+      planId: offspring.breedingPlanId,
+      status: { in: NOTIFIABLE_WAITLIST_STATUSES },
+      OR: [{ offspringId: null }, { offspringId: offspring.id }],
+      photoNotifications: { none: { offspringId: offspring.id } }
+    },
+    select: {
+      id: true,
+      clientParty: { select: { id: true, name: true, email: true } }
+    },
+    orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }]
+  });
+
+  const offspringName = offspring.name || `Offspring #${offspring.id}`;
+  const planName = offspring.BreedingPlan?.name || offspring.BreedingPlan?.nickname || null;
+  const viewUrl = offspring.tenant.slug
+    ? `${PORTAL_BASE_URL}/t/${offspring.tenant.slug}/offspring/${offspring.id}`
+    : `${PORTAL_BASE_URL}/offspring/${offspring.id}`;
+
+  const notifiedEntryIds: number[] = [];
+  const failedEntryIds: number[] = [];
+  let skippedNoEmail = 0;
+  let skippedUnsubscribed = 0;
+
+  for (const entry of entries) {
+    const party = entry.clientParty;
+    if (!party?.email) {
+      skippedNoEmail++;
+      continue;
+    }
+
+    if (ctx.preview) {
+      notifiedEntryIds.push(entry.id);
+      continue;
+    }
+
+    // Claim the pair first; a concurrent run that already claimed it wins
+    const claim = await ctx.db.waitlistPhotoNotification.createMany({
+      data: [{
+        tenantId: offspring.tenantId,
+        offspringId: offspring.id,
+        waitlistEntryId: entry.id,
+        partyId: party.id,
+        ruleId: rule.id,
+        photoCount
+      }],
+      skipDuplicates: true
+    });
+    if (claim.count === 0) continue;
+
+    const email = renderWaitlistPhotosEmail({
+      recipientName: party.name,
+      organizationName: offspring.tenant.name,
+      offspringName,
+      planName,
+      photoCount,
+      viewUrl
+    });
+
+    const sent = await sendEmail({
+      tenantId: offspring.tenantId,
+      to: party.email,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      templateKey: 'waitlist_offspring_photos',
+      partyId: party.id,
+      metadata: { offspringId: offspring.id, waitlistEntryId: entry.id, ruleId: rule.id },
+      category: 'transactional'
+    });
+
+    if (sent.ok) {
+      notifiedEntryIds.push(entry.id);
+    } else if (sent.error === 'recipient_unsubscribed') {
+      // Keep the claim so an unsubscribed member is not retried on every upload
+      skippedUnsubscribed++;
+    } else {
+      // Release the claim so the next trigger retries this member
+      await ctx.db.waitlistPhotoNotification.deleteMany({
+        where: { offspringId: offspring.id, waitlistEntryId: entry.id }
+      });
+      failedEntryIds.push(entry.id);
+    }
+  }
+
+  if (notifiedEntryIds.length > 0 && !ctx.preview) {
+    const idempotencyKey = `waitlist_photos_shared:Offspring:${offspring.id}:${photoCount}`;
+    const existing = await ctx.db.notification.findUnique({ where: { idempotencyKey } });
+
+    if (!existing) {
+      await ctx.db.notification.create({
+        data: {
+          tenantId: offspring.tenantId,
+          userId: null,
+          type: 'waitlist_photos_shared',
+          priority: 'LOW',
+          title: 'Waitlist notified of new photos',
+          message: `${notifiedEntryIds.length} waitlist member${notifiedEntryIds.length !== 1 ? 's were' : ' was'} emailed about new photos of ${offspringName}.`,
+          linkUrl: `/offspring/${offspring.id}`,
+          status: 'UNREAD',
+          idempotencyKey,
+          metadata: { offspringId: offspring.id, ruleId: rule.id, photoCount, waitlistEntryIds: notifiedEntryIds }
+        }
+      });
+    }
+  }
 
-  // For now, just log that notification should be sent
   return {
-    success: true,
-    action: 'notification_queued',
+    success: failedEntryIds.length === 0,
+    action: notifiedEntryIds.length > 0 ? (ctx.preview ? 'waitlist_notify_planned' : 'waitlist_notified') : 'no_action',
     changes: {
-      reason: 'Notification would be sent to waitlist members',
+      photoCount,
       minPhotos,
-      entityType,
-      entityId
+      notified: notifiedEntryIds,
+      skippedNoEmail,
+      skippedUnsubscribed,
+      failed: failedEntryIds
+    },
+    error: failedEntryIds.length > 0 ? `Failed to email ${failedEntryIds.length} waitlist member(s)` : undefined
+  };
+}
+
+/* ───────── Rule enforcement helpers ───────── */
+
+/**
+ * Get the single effective rule of a type for an entity, or null if none applies
+ */
+export async function getEffectiveRule(
+  level: BreedingRuleLevel,
+  id: string | number,
+  tenantId: number,
+  ruleType: string
+): Promise<BreedingProgramRule | null> {
+  const rules = await getEffectiveRules(level, id, tenantId);
+  return rules.find(rule => rule.ruleType === ruleType) ?? null;
+}
+
+/**
+ * Whether public inquiries are accepted for an entity
+ * Inquiries stay open unless the effective accept_inquiries rule sets enabled: false
+ */
+export async function isAcceptingInquiries(
+  level: BreedingRuleLevel,
+  id: string | number,
+  tenantId: number
+): Promise<boolean> {
+  const rule = await getEffectiveRule(level, id, tenantId, 'accept_inquiries');
+  return !rule || (rule.config as any)?.enabled !== false;
+}
+
+function photoAgeWeeks(rule: BreedingProgramRule): number {
+  const ageWeeks = Number((rule.config as any)?.ageWeeks);
+  return Number.isFinite(ageWeeks) && ageWeeks > 0 ? ageWeeks : 0;
+}
+
+/**
+ * Whether a hide_photos_until_age rule hides photos for an animal born at bornAt
+ * Photos of unborn offspring (no birth date yet) stay hidden while the rule applies
+ */
+export function arePhotosHiddenByRule(
+  rule: BreedingProgramRule | null | undefined,
+  bornAt: Date | null | undefined,
+  now: Date = new Date()
+): boolean {
+  if (!rule || !rule.enabled || rule.ruleType !== 'hide_photos_until_age') return false;
+
+  const ageWeeks = photoAgeWeeks(rule);
+  if (ageWeeks === 0) return false;
+  if (!bornAt) return true;
+
+  const ageMs = now.getTime() - new Date(bornAt).getTime();
+  return ageMs < ageWeeks * 7 * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Resolve hide_photos_until_age for a plan and its offspring in one pass
+ * Offspring-level overrides win over the plan/program rule, mirroring getEffectiveRules
+ */
+export async function getPhotoVisibilityForPlan(
+  planId: number,
+  tenantId: number,
+  planBornAt: Date | null,
+  offspring: Array<{ id: number; bornAt?: Date | null }>
+): Promise<{ planPhotosHidden: boolean; hiddenOffspringIds: Set<number> }> {
+  const chain = await buildInheritanceChain('PLAN', planId, tenantId);
+  const offspringIds = offspring.map(o => o.id);
+
+  const rules = await prisma.breedingProgramRule.findMany({
+    where: {
+      tenantId,
+      ruleType: 'hide_photos_until_age',
+      OR: [
+        ...chain.map(node => ({ level: node.level, levelId: String(node.id) })),
+        ...(offspringIds.length > 0
+          ? [{ level: 'OFFSPRING' as BreedingRuleLevel, levelId: { in: offspringIds.map(String) } }]
+          : [])
+      ]
+    }
+  });
+
+  const planRule = sortBySpecificity(
+    rules.filter(rule => rule.level !== 'OFFSPRING'),
+    chain
+  )[0] ?? null;
+  const offspringRules = new Map(
+    rules.filter(rule => rule.level === 'OFFSPRING').map(rule => [Number(rule.levelId), rule])
+  );
+
+  const hiddenOffspringIds = new Set<number>();
+  for (const o of offspring) {
+    const rule = offspringRules.get(o.id) ?? planRule;
+    if (arePhotosHiddenByRule(rule, o.bornAt ?? planBornAt)) {
+      hiddenOffspringIds.add(o.id);
     }
+  }
+
+  return {
+    planPhotosHidden: arePhotosHiddenByRule(planRule, planBornAt),
+    hiddenOffspringIds
   };
 }
+
+/**
+ * Plans whose photos hide_photos_until_age hides, for a page of plans at once
+ * Resolves the same plan → program chain as getPhotoVisibilityForPlan in three queries
+ */
+export async function getHiddenPhotoPlanIds(
+  plans: Array<{ id: number; birthDateActual: Date | null }>
+): Promise<Set<number>> {
+  const hidden = new Set<number>();
+  if (plans.length === 0) return hidden;
+
+  const planRows = await prisma.breedingPlan.findMany({
+    where: { id: { in: plans.map(p => p.id) } },
+    select: { id: true, tenantId: true, sire: { select: { species: true } }, dam: { select: { species: true } } }
+  });
+  const speciesByPlan = new Map(planRows.map(p => [p.id, p.sire?.species || p.dam?.species || null]));
+
+  // First program per tenant + species, as buildInheritanceChain's findFirst picks it
+  const programs = await prisma.mktListingBreedingProgram.findMany({
+    where: {
+      OR: planRows
+        .filter(p => speciesByPlan.get(p.id))
+        .map(p => ({ tenantId: p.tenantId, species: speciesByPlan.get(p.id)! }))
+    },
+    orderBy: { id: 'asc' },
+    select: { tenantId: true, species: true, slug: true }
+  });
+  const programSlugs = new Map<string, string>();
+  for (const program of programs) {
+    const key = `${program.tenantId}:${program.species}`;
+    if (!programSlugs.has(key)) programSlugs.set(key, program.slug);
+  }
+
+  const rules = await prisma.breedingProgramRule.findMany({
+    where: {
+      tenantId: { in: [...new Set(planRows.map(p => p.tenantId))] },
+      ruleType: 'hide_photos_until_age',
+      OR: [
+        { level: 'PLAN', levelId: { in: planRows.map(p => String(p.id)) } },
+        { level: 'PROGRAM', levelId: { in: [...programSlugs.values()] } }
+      ]
+    }
+  });
+  const ruleFor = (tenantId: number, level: BreedingRuleLevel, levelId: string) =>
+    rules.find(rule => rule.tenantId === tenantId && rule.level === level && rule.levelId === levelId);
+
+  const bornAtByPlan = new Map(plans.map(p => [p.id, p.birthDateActual]));
+  for (const plan of planRows) {
+    const slug = programSlugs.get(`${plan.tenantId}:${speciesByPlan.get(plan.id)}`);
+    const rule =
+      ruleFor(plan.tenantId, 'PLAN', String(plan.id)) ??
+      (slug ? ruleFor(plan.tenantId, 'PROGRAM', slug) : undefined);
+    if (arePhotosHiddenByRule(rule, bornAtByPlan.get(plan.id))) hidden.add(plan.id);
+  }
+
+  return hidden;
+}
@@ -0,0 +1,363 @@
+import { BreedingProgramRule, BreedingRuleCategory, BreedingRuleLevel, Prisma } from '@prisma/client';
+import prisma from '../prisma.js';
+import { executeRule, getEffectiveRules } from './rule-engine.js';
+import { isCustomRuleType, validateCustomRuleConfig } from '../validation/breeding-program-rules.js';
+
+/**
+ * Rule preview
+ * Stages a rule change, runs the PROGRAM → PLAN → OFFSPRING cascade for every
+ * entity it reaches and diffs the result — all inside a transaction that is
+ * rolled back, so nothing is saved and no execution rows are written.
+ */
+
+/**
+ * A rule change to preview: an existing rule (optionally with new config or
+ * enabled state) or a draft in the same shape as POST /breeding/programs/rules
+ */
+export interface RulePreviewInput {
+  ruleId?: number;
+  category?: BreedingRuleCategory;
+  ruleType?: string;
+  name?: string;
+  level?: BreedingRuleLevel;
+  levelId?: string | number;
+  enabled?: boolean;
+  config?: any;
+}
+
+export interface RuleEntityDiff {
+  entityType: 'offspring' | 'plan';
+  entityId: number;
+  name: string | null;
+  planId: number | null;
+  changedFields: string[];
+  before: Record<string, any>;
+  after: Record<string, any>;
+  result?: { success: boolean; action?: string; changes?: any; error?: string };
+}
+
+export interface RulePreviewResult {
+  rule: Pick<BreedingProgramRule, 'ruleType' | 'level' | 'levelId' | 'enabled' | 'config'> & { id: number | null };
+  evaluated: { plans: number; offspring: number };
+  truncated: boolean;
+  changed: RuleEntityDiff[];
+  failures: Array<{ offspringId: number; error: string }>;
+}
+
+/** Cap on offspring a single preview touches, so PROGRAM-level previews stay bounded */
+export const RULE_PREVIEW_MAX_OFFSPRING = 500;
+
+const PREVIEW_TRANSACTION_TIMEOUT_MS = 60_000;
+
+class RulePreviewRollback extends Error {
+  constructor(readonly preview: RulePreviewResult) {
+    super('rule_preview_rollback');
+  }
+}
+
+function previewError(message: string, statusCode: number) {
+  return Object.assign(new Error(message), { statusCode });
+}
+
+/* ───────── Staging ───────── */
+
+async function stageRule(
+  tx: Prisma.TransactionClient,
+  tenantId: number,
+  input: RulePreviewInput
+): Promise<{ rule: BreedingProgramRule; existed: boolean }> {
+  if (input.ruleId) {
+    const existing = await tx.breedingProgramRule.findFirst({
+      where: { id: input.ruleId, tenantId }
+    });
+    if (!existing) throw previewError('rule_not_found', 404);
+
+    if (input.config !== undefined && isCustomRuleType(existing.ruleType)) {
+      if (validateCustomRuleConfig(input.config).length > 0) throw previewError('invalid_custom_rule_config', 400);
+    }
+
+    const rule = await tx.breedingProgramRule.update({
+      where: { id: existing.id },
+      data: {
+        enabled: input.enabled ?? true,
+        config: input.config ?? existing.config ?? {}
+      }
+    });
+    return { rule, existed: true };
+  }
+
+  const { category, ruleType, level, levelId } = input;
+  if (!category || !ruleType || !level || levelId === undefined || levelId === null) {
+    throw previewError('missing_required_fields', 400);
+  }
+  if (ruleType.startsWith('custom:')) {
+    if (!isCustomRuleType(ruleType) || validateCustomRuleConfig(input.config).length > 0) {
+      throw previewError('invalid_custom_rule_config', 400);
+    }
+  }
+
+  const key = { tenantId, level, levelId: String(levelId), ruleType };
+  const existing = await tx.breedingProgramRule.findUnique({
+    where: { tenantId_level_levelId_ruleType: key }
+  });
+  const rule = await tx.breedingProgramRule.upsert({
+    where: { tenantId_level_levelId_ruleType: key },
+    update: {
+      enabled: input.enabled ?? true,
+      config: input.config ?? existing?.config ?? {}
+    },
+    create: {
+      ...key,
+      category,
+      name: input.name || ruleType,
+      enabled: input.enabled ?? true,
+      config: input.config ?? {}
+    }
+  });
+  return { rule, existed: existing !== null };
+}
+
+/* ───────── Targets ───────── */
+
+/**
+ * Offspring and plans a rule at this level can reach through the cascade
+ * A PROGRAM rule only reaches plans whose chain resolves to that program
+ * (first program of the plan's species, as in buildInheritanceChain).
+ */
+async function resolvePreviewTargets(
+  tx: Prisma.TransactionClient,
+  tenantId: number,
+  level: BreedingRuleLevel,
+  levelId: string
+): Promise<{ planIds: number[]; offspringIds: number[]; truncated: boolean }> {
+  let planIds: number[] = [];
+
+  switch (level) {
+    case 'OFFSPRING': {
+      const offspring = await tx.offspring.findFirst({
+        where: { id: Number(levelId), tenantId },
+        select: { id: true, breedingPlanId: true }
+      });
+      if (!offspring) throw previewError('offspring_not_found', 404);
+      return { planIds: [offspring.breedingPlanId], offspringIds: [offspring.id], truncated: false };
+    }
+
+    case 'PLAN': {
+      const plan = await tx.breedingPlan.findFirst({
+        where: { id: Number(levelId), tenantId },
+        select: { id: true }
+      });
+      if (!plan) throw previewError('plan_not_found', 404);
+      planIds = [plan.id];
+      break;
+    }
+
+    case 'PROGRAM': {
+      const program = await tx.mktListingBreedingProgram.findUnique({
+        where: { tenantId_slug: { tenantId, slug: levelId } },
+        select: { slug: true, species: true }
+      });
+      if (!program) throw previewError('program_not_found', 404);
+
+      const chainProgram = await tx.mktListingBreedingProgram.findFirst({
+        where: { tenantId, species: program.species },
+        select: { slug: true }
+      });
+      if (chainProgram?.slug !== program.slug) break;
+
+      const plans = await tx.breedingPlan.findMany({
+        where: {
+          tenantId,
+          OR: [{ sire: { species: program.species } }, { dam: { species: program.species } }]
+        },
+        select: { id: true, sire: { select: { species: true } }, dam: { select: { species: true } } }
+      });
+      planIds = plans
+        .filter(p => (p.sire?.species || p.dam?.species) === program.species)
+        .map(p => p.id);
+      break;
+    }
+
+    default:
+      throw previewError('unsupported_level', 400);
+  }
+
+  if (planIds.length === 0) {
+    return { planIds, offspringIds: [], truncated: false };
+  }
+
+  const offspring = await tx.offspring.findMany({
+    where: { tenantId, breedingPlanId: { in: planIds } },
+    select: { id: true },
+    orderBy: { id: 'asc' },
+    take: RULE_PREVIEW_MAX_OFFSPRING + 1
+  });
+
+  return {
+    planIds,
+    offspringIds: offspring.slice(0, RULE_PREVIEW_MAX_OFFSPRING).map(o => o.id),
+    truncated: offspring.length > RULE_PREVIEW_MAX_OFFSPRING
+  };
+}
+
+/* ───────── Snapshots and diff ───────── */
+
+type EntitySnapshot = { name: string | null; planId: number | null; fields: Record<string, any> };
+
+async function snapshotEntities(
+  tx: Prisma.TransactionClient,
+  tenantId: number,
+  planIds: number[],
+  offspringIds: number[]
+): Promise<{ plans: Map<number, EntitySnapshot>; offspring: Map<number, EntitySnapshot> }> {
+  // Sequential on purpose: interactive transactions run on a single connection
+  const planRows = await tx.breedingPlan.findMany({
+    where: { tenantId, id: { in: planIds } },
+    select: {
+      id: true,
+      name: true,
+      status: true,
+      marketplaceDefaultPriceCents: true,
+      TagAssignments: { select: { tag: { select: { name: true } } } }
+    }
+  });
+  const offspringRows = await tx.offspring.findMany({
+    where: { tenantId, id: { in: offspringIds } },
+    select: {
+      id: true,
+      name: true,
+      breedingPlanId: true,
+      keeperIntent: true,
+      marketplaceListed: true,
+      marketplacePriceCents: true,
+      priceCents: true,
+      Tags: { select: { tag: { select: { name: true } } } },
+      Tasks: { where: { status: 'open' }, select: { title: true } }
+    }
+  });
+
+  return {
+    plans: new Map(planRows.map(p => [p.id, {
+      name: p.name,
+      planId: p.id,
+      fields: {
+        status: p.status,
+        marketplaceDefaultPriceCents: p.marketplaceDefaultPriceCents,
+        tags: p.TagAssignments.map(t => t.tag.name).sort()
+      }
+    }])),
+    offspring: new Map(offspringRows.map(o => [o.id, {
+      name: o.name,
+      planId: o.breedingPlanId,
+      fields: {
+        keeperIntent: o.keeperIntent,
+        marketplaceListed: o.marketplaceListed,
+        marketplacePriceCents: o.marketplacePriceCents,
+        priceCents: o.priceCents,
+        tags: o.Tags.map(t => t.tag.name).sort(),
+        openTasks: o.Tasks.map(t => t.title).sort()
+      }
+    }]))
+  };
+}
+
+function diffSnapshots(before: EntitySnapshot, after: EntitySnapshot | undefined) {
+  const changedFields: string[] = [];
+  const beforeFields: Record<string, any> = {};
+  const afterFields: Record<string, any> = {};
+
+  for (const [field, value] of Object.entries(before.fields)) {
+    const next = after?.fields[field];
+    if (JSON.stringify(value) !== JSON.stringify(next)) {
+      changedFields.push(field);
+      beforeFields[field] = value;
+      afterFields[field] = next;
+    }
+  }
+
+  return { changedFields, before: beforeFields, after: afterFields };
+}
+
+/* ───────── Preview ───────── */
+
+/**
+ * Preview what a rule change would do to the offspring and plans it reaches
+ * Each offspring runs its effective rule of the previewed type (which may be
+ * a more specific override). Emails are reported, never sent.
+ */
+export async function previewRuleChange(
+  tenantId: number,
+  input: RulePreviewInput
+): Promise<RulePreviewResult> {
+  try {
+    await prisma.$transaction(async (tx) => {
+      const { rule, existed } = await stageRule(tx, tenantId, input);
+      const targets = await resolvePreviewTargets(tx, tenantId, rule.level, rule.levelId);
+      const before = await snapshotEntities(tx, tenantId, targets.planIds, targets.offspringIds);
+
+      const results = new Map<number, { success: boolean; action?: string; changes?: any; error?: string }>();
+      for (const offspringId of targets.offspringIds) {
+        const effective = (await getEffectiveRules('OFFSPRING', offspringId, tenantId, tx))
+          .find(r => r.ruleType === rule.ruleType);
+        if (!effective) continue;
+
+        results.set(
+          offspringId,
+          await executeRule(effective, 'offspring', offspringId, 'user_action', { db: tx, preview: true })
+        );
+      }
+
+      const after = await snapshotEntities(tx, tenantId, targets.planIds, targets.offspringIds);
+
+      const changed: RuleEntityDiff[] = [];
+      for (const [planId, snapshot] of before.plans) {
+        const diff = diffSnapshots(snapshot, after.plans.get(planId));
+        if (diff.changedFields.length > 0) {
+          changed.push({ entityType: 'plan', entityId: planId, name: snapshot.name, planId, ...diff });
+        }
+      }
+      for (const [offspringId, snapshot] of before.offspring) {
+        const diff = diffSnapshots(snapshot, after.offspring.get(offspringId));
+        const result = results.get(offspringId);
+        // Outbound effects (emails) don't show up in the snapshot, so keep any
+        // entity whose rule reported an action
+        const acted = result?.action && result.action !== 'no_action';
+        if (diff.changedFields.length > 0 || acted) {
+          changed.push({
+            entityType: 'offspring',
+            entityId: offspringId,
+            name: snapshot.name,
+            planId: snapshot.planId,
+            ...diff,
+            result
+          });
+        }
+      }
+
+      const failures = [...results.entries()]
+        .filter(([, r]) => !r.success)
+        .map(([offspringId, r]) => ({ offspringId, error: r.error || 'Unknown error' }));
+
+      throw new RulePreviewRollback({
+        rule: {
+          id: existed ? rule.id : null,
+          ruleType: rule.ruleType,
+          level: rule.level,
+          levelId: rule.levelId,
+          enabled: rule.enabled,
+          config: rule.config
+        },
+        evaluated: { plans: targets.planIds.length, offspring: targets.offspringIds.length },
+        truncated: targets.truncated,
+        changed,
+        failures
+      });
+    }, { timeout: PREVIEW_TRANSACTION_TIMEOUT_MS });
+  } catch (err) {
+    if (err instanceof RulePreviewRollback) return err.preview;
+    throw err;
+  }
+
+  // The transaction callback always throws to force a rollback
+  throw new Error('rule_preview_not_rolled_back');
+}
@@ -0,0 +1,206 @@
+// src/lib/zip-writer.ts
+/**
+ * Minimal ZIP Writer
+ *
+ * Writes a zip archive straight to disk, one entry at a time, so large
+ * archives (e.g. tenant data exports with documents) never sit in memory
+ * whole. Entries are deflated unless that doesn't make them smaller.
+ * Names are stored as UTF-8.
+ *
+ * No ZIP64: an archive is limited to 65,535 entries and 4 GB, and adding
+ * past either limit throws "zip_too_large".
+ */
+
+import { open, type FileHandle } from "node:fs/promises";
+import { deflateRawSync } from "node:zlib";
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+const VERSION = 20; // 2.0: deflate
+const UTF8_NAMES_FLAG = 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+const MAX_ENTRIES = 0xffff;
+const MAX_OFFSET = 0xffffffff;
+
+// ────────────────────────────────────────────────────────────────────────────
+// CRC-32 (node:zlib only exposes crc32 from Node 22)
+// ────────────────────────────────────────────────────────────────────────────
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Writer
+// ────────────────────────────────────────────────────────────────────────────
+
+interface CentralEntry {
+  name: Buffer;
+  method: number;
+  time: number;
+  date: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+/** MS-DOS time and date fields (2-second resolution, years 1980–2107) */
+function dosDateTime(at: Date) {
+  const year = Math.min(Math.max(at.getUTCFullYear(), 1980), 2107);
+  return {
+    time: (at.getUTCHours() << 11) | (at.getUTCMinutes() << 5) | Math.floor(at.getUTCSeconds() / 2),
+    date: ((year - 1980) << 9) | ((at.getUTCMonth() + 1) << 5) | at.getUTCDate(),
+  };
+}
+
+function tooLarge(): Error {
+  return Object.assign(new Error("zip_too_large"), { statusCode: 413 });
+}
+
+export class ZipWriter {
+  private readonly entries: CentralEntry[] = [];
+  private readonly names = new Set<string>();
+  private offset = 0;
+  private finished = false;
+
+  private constructor(private readonly handle: FileHandle) {}
+
+  /** Create (or truncate) the archive at `path` */
+  static async create(path: string): Promise<ZipWriter> {
+    return new ZipWriter(await open(path, "w"));
+  }
+
+  /** Entries written so far */
+  get entryCount(): number {
+    return this.entries.length;
+  }
+
+  /** Bytes written so far */
+  get bytesWritten(): number {
+    return this.offset;
+  }
+
+  /**
+   * Add one file. `name` is the path inside the archive ("a/b.csv");
+   * names must be unique.
+   */
+  async addFile(name: string, content: Buffer | string, modifiedAt: Date = new Date()): Promise<void> {
+    if (this.finished) throw new Error("zip_finished");
+    if (this.names.has(name)) throw new Error(`zip_duplicate_entry: ${name}`);
+    if (this.entries.length >= MAX_ENTRIES) throw tooLarge();
+
+    const data = typeof content === "string" ? Buffer.from(content, "utf8") : content;
+    const deflated = deflateRawSync(data);
+    const method = deflated.length < data.length ? METHOD_DEFLATED : METHOD_STORED;
+    const body = method === METHOD_DEFLATED ? deflated : data;
+
+    const nameBuf = Buffer.from(name, "utf8");
+    const { time, date } = dosDateTime(modifiedAt);
+    const entry: CentralEntry = {
+      name: nameBuf,
+      method,
+      time,
+      date,
+      crc: crc32(data),
+      compressedSize: body.length,
+      size: data.length,
+      offset: this.offset,
+    };
+    if (entry.offset + 30 + nameBuf.length + body.length > MAX_OFFSET || data.length > MAX_OFFSET) {
+      throw tooLarge();
+    }
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(UTF8_NAMES_FLAG, 6);
+    header.writeUInt16LE(method, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.compressedSize, 18);
+    header.writeUInt32LE(entry.size, 22);
+    header.writeUInt16LE(nameBuf.length, 26);
+    header.writeUInt16LE(0, 28);
+
+    await this.write(Buffer.concat([header, nameBuf]));
+    await this.write(body);
+    this.entries.push(entry);
+    this.names.add(name);
+  }
+
+  /** Write the central directory and close the file. Returns the archive size. */
+  async finish(): Promise<number> {
+    if (this.finished) throw new Error("zip_finished");
+    this.finished = true;
+
+    try {
+      const directoryOffset = this.offset;
+      for (const entry of this.entries) {
+        const header = Buffer.alloc(46);
+        header.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+        header.writeUInt16LE(VERSION, 4);
+        header.writeUInt16LE(VERSION, 6);
+        header.writeUInt16LE(UTF8_NAMES_FLAG, 8);
+        header.writeUInt16LE(entry.method, 10);
+        header.writeUInt16LE(entry.time, 12);
+        header.writeUInt16LE(entry.date, 14);
+        header.writeUInt32LE(entry.crc, 16);
+        header.writeUInt32LE(entry.compressedSize, 20);
+        header.writeUInt32LE(entry.size, 24);
+        header.writeUInt16LE(entry.name.length, 28);
+        // extra length, comment length, disk number, internal and external attributes: 0
+        header.writeUInt32LE(entry.offset, 42);
+        await this.write(Buffer.concat([header, entry.name]));
+      }
+
+      const directorySize = this.offset - directoryOffset;
+      if (this.offset + 22 > MAX_OFFSET) throw tooLarge();
+
+      const end = Buffer.alloc(22);
+      end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+      end.writeUInt16LE(this.entries.length, 8);
+      end.writeUInt16LE(this.entries.length, 10);
+      end.writeUInt32LE(directorySize, 12);
+      end.writeUInt32LE(directoryOffset, 16);
+      await this.write(end);
+    } finally {
+      await this.handle.close();
+    }
+
+    return this.offset;
+  }
+
+  /** Close the file without finishing the archive (the caller deletes it) */
+  async abort(): Promise<void> {
+    if (this.finished) return;
+    this.finished = true;
+    await this.handle.close();
+  }
+
+  private async write(buf: Buffer): Promise<void> {
+    let written = 0;
+    while (written < buf.length) {
+      const { bytesWritten } = await this.handle.write(buf, written, buf.length - written);
+      written += bytesWritten;
+    }
+    this.offset += buf.length;
+  }
+}
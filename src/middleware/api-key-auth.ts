@@ -0,0 +1,156 @@
+// src/middleware/api-key-auth.ts
+// API key authentication for tenant integrations
+//
+// Keys are sent as `Authorization: Bearer bhq_...`. A key acts as the user who
+// created it, within the key's tenant, limited to both the key's scopes and
+// that user's current role. Requires the API_ACCESS entitlement and applies a
+// per-key requests-per-minute limit.
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import prisma from "../prisma.js";
+import { checkEntitlement } from "../services/subscription/entitlement-service.js";
+import { recordApiKeyUse, resolveApiKey } from "../services/api-key-service.js";
+import { can, grants } from "../utils/can.js";
+
+declare module "fastify" {
+  interface FastifyRequest {
+    apiKey?: {
+      id: number;
+      tenantId: number;
+      scopes: string[];
+      rateLimitPerMinute: number;
+    };
+  }
+}
+
+/**
+ * Route prefix → capability namespace for API key requests. Routes outside
+ * these prefixes are not reachable with an API key (account, staff, billing,
+ * admin and key management stay session-only).
+ */
+const API_KEY_ROUTE_NAMESPACES: Array<{ prefix: string; namespace: string }> = [
+  { prefix: "/animals", namespace: "animals" },
+  { prefix: "/breeds", namespace: "animals" },
+  { prefix: "/breeding", namespace: "breeding" },
+  { prefix: "/offspring", namespace: "breeding" },
+  { prefix: "/waitlist", namespace: "breeding" },
+  { prefix: "/vaccinations", namespace: "health" },
+  { prefix: "/medications", namespace: "health" },
+  { prefix: "/medication-doses", namespace: "health" },
+  { prefix: "/contacts", namespace: "contacts" },
+  { prefix: "/parties", namespace: "contacts" },
+  { prefix: "/organizations", namespace: "contacts" },
+  { prefix: "/invoices", namespace: "finance" },
+  { prefix: "/payments", namespace: "finance" },
+  { prefix: "/expenses", namespace: "finance" },
+];
+
+/**
+ * Capability an API key request needs, e.g. GET /api/v1/animals → animals.view.
+ * Returns null for routes API keys can't reach.
+ */
+export function apiKeyCapabilityFor(method: string, url: string): string | null {
+  const path = (url.split("?")[0] || "/").replace(/^\/api\/v1(?=\/)/, "");
+  const match = API_KEY_ROUTE_NAMESPACES.find(
+    ({ prefix }) => path === prefix || path.startsWith(prefix + "/")
+  );
+  if (!match) return null;
+
+  const m = method.toUpperCase();
+  if (m === "GET" || m === "HEAD") return `${match.namespace}.view`;
+  // BARN_STAFF-style roles record health events rather than edit
+  if (match.namespace === "health") return "health.record";
+  return m === "DELETE" ? `${match.namespace}.delete` : `${match.namespace}.edit`;
+}
+
+export function isApiKeyAuthorization(header: string | undefined): boolean {
+  return typeof header === "string" && header.startsWith("Bearer bhq_");
+}
+
+/**
+ * Build the API key preHandler step. Needs the root app for the shared
+ * rate-limit store (Redis when configured).
+ *
+ * The returned function sends the error reply itself and returns false on
+ * failure; on success it sets req.userId, req.tenantId and req.apiKey.
+ */
+export function createApiKeyAuth(app: FastifyInstance) {
+  const checkRateLimit = app.createRateLimit({
+    keyGenerator: (req) => `api-key:${req.apiKey?.id}`,
+    max: (req) => req.apiKey?.rateLimitPerMinute ?? 1,
+    timeWindow: 60_000,
+  });
+
+  return async function apiKeyAuth(req: FastifyRequest, reply: FastifyReply): Promise<boolean> {
+    const token = (req.headers.authorization ?? "").slice(7);
+    const key = await resolveApiKey(token);
+    if (!key) {
+      reply.code(401).send({ error: "invalid_api_key" });
+      return false;
+    }
+
+    const capability = apiKeyCapabilityFor(req.method, req.url);
+    if (!capability) {
+      reply.code(403).send({ error: "api_key_route_not_allowed" });
+      return false;
+    }
+    if (!grants(key.scopes, capability)) {
+      reply.code(403).send({ error: "insufficient_scope", message: `Missing scope: ${capability}` });
+      return false;
+    }
+
+    const entitlement = await checkEntitlement(key.tenantId, "API_ACCESS");
+    if (!entitlement.hasAccess) {
+      reply.code(403).send({
+        error: "ENTITLEMENT_REQUIRED",
+        code: "ENTITLEMENT_REQUIRED",
+        message: entitlement.reason || "Your plan does not include API access",
+        details: { requiredEntitlement: "API_ACCESS", upgradeUrl: "/settings/billing" },
+      });
+      return false;
+    }
+
+    // The key never outlives or outranks its creator's membership
+    const creator = await prisma.user.findUnique({
+      where: { id: key.createdByUserId },
+      select: { isSuperAdmin: true },
+    });
+    if (!creator?.isSuperAdmin) {
+      const membership = await prisma.tenantMembership.findUnique({
+        where: { userId_tenantId: { userId: key.createdByUserId, tenantId: key.tenantId } },
+        select: { role: true, membershipStatus: true },
+      });
+      if (!membership || membership.membershipStatus !== "ACTIVE") {
+        reply.code(403).send({ error: "forbidden_tenant" });
+        return false;
+      }
+      if (!can(membership.role, capability)) {
+        reply.code(403).send({ error: "forbidden", message: `Missing capability: ${capability}` });
+        return false;
+      }
+    }
+
+    req.apiKey = {
+      id: key.id,
+      tenantId: key.tenantId,
+      scopes: key.scopes,
+      rateLimitPerMinute: key.rateLimitPerMinute,
+    };
+
+    const limit = await checkRateLimit(req);
+    if (!limit.isAllowed) {
+      reply.header("x-ratelimit-limit", limit.max);
+      reply.header("x-ratelimit-remaining", limit.remaining);
+      if (limit.isExceeded) {
+        reply.header("retry-after", limit.ttlInSeconds);
+        reply.code(429).send({ error: "RATE_LIMITED" });
+        return false;
+      }
+    }
+
+    req.userId = key.createdByUserId;
+    req.tenantId = key.tenantId;
+    void recordApiKeyUse(key, req.ip ?? null);
+    return true;
+  };
+}
@@ -8,7 +8,7 @@
 import type { FastifyRequest, FastifyReply } from "fastify";
 import prisma from "../prisma.js";
 import { getActorId } from "../utils/session.js";
-import { can } from "../utils/can.js";
+import { can, grants } from "../utils/can.js";
 
 /**
  * Returns a Fastify preHandler that verifies the authenticated user has
@@ -17,9 +17,10 @@ import { can } from "../utils/can.js";
  * Flow:
  *  1. Extract userId from session (401 if missing)
  *  2. Extract tenantId from request context (400 if missing)
- *  3. SuperAdmin bypass → always allowed
- *  4. Look up TenantMembership → get role
- *  5. Evaluate can(role, capability) → 403 if denied
+ *  3. API key requests: the key's scopes must also grant the capability
+ *  4. SuperAdmin bypass → always allowed
+ *  5. Look up TenantMembership → get role
+ *  6. Evaluate can(role, capability) → 403 if denied
  *
  * @param capability Dot-delimited capability string, e.g. "breeding.edit"
  */
@@ -42,14 +43,20 @@ export function requirePermission(capability: string) {
       return;
     }
 
-    // 3. SuperAdmin bypass
+    // 3. API key scopes
+    if (req.apiKey && !grants(req.apiKey.scopes, capability)) {
+      reply.code(403).send({ error: "insufficient_scope", message: `Missing scope: ${capability}` });
+      return;
+    }
+
+    // 4. SuperAdmin bypass
     const user = await prisma.user.findUnique({
       where: { id: actorId },
       select: { isSuperAdmin: true },
     });
     if (user?.isSuperAdmin) return;
 
-    // 4. Look up membership
+    // 5. Look up membership
     const mem = await prisma.tenantMembership.findUnique({
       where: { userId_tenantId: { userId: actorId, tenantId } },
       select: { role: true },
@@ -60,7 +67,7 @@ export function requirePermission(capability: string) {
       return;
     }
 
-    // 5. Evaluate capability
+    // 6. Evaluate capability
     if (!can(mem.role, capability)) {
       reply.code(403).send({ error: "forbidden", message: `Missing capability: ${capability}` });
       return;
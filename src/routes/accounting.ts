@@ -0,0 +1,224 @@
+// src/routes/accounting.ts
+// Accounting export/sync of invoices, payments and expenses to QuickBooks
+// (IIF) and Xero (CSV), with a tenant-configurable chart of accounts.
+//
+// GET  /api/v1/finance/accounting/providers                - Available providers
+// GET  /api/v1/finance/accounting/settings                 - Chart-of-accounts mapping
+// PUT  /api/v1/finance/accounting/settings                 - Update the mapping (partial)
+// GET  /api/v1/finance/accounting/pending?provider=        - Records waiting to sync
+// POST /api/v1/finance/accounting/sync                     - Sync { provider, types?, from?, to?, includeSynced?, dryRun? }
+// GET  /api/v1/finance/accounting/runs                     - Sync history (?provider=&limit=)
+// GET  /api/v1/finance/accounting/runs/:id                 - One run with its failures
+// GET  /api/v1/finance/accounting/runs/:id/files/:name     - Download a generated file
+
+import type { FastifyInstance, FastifyPluginAsync, FastifyReply, FastifyRequest } from "fastify";
+import { getActorId } from "../utils/session.js";
+import { auditSuccess } from "../services/audit.js";
+import { requirePermission } from "../middleware/require-permission.js";
+import {
+  getAccountingSettings,
+  getAccountingSyncFile,
+  getAccountingSyncRun,
+  getPendingCounts,
+  listAccountingProviders,
+  listAccountingSyncRuns,
+  runAccountingSync,
+  updateAccountingSettings,
+  type AccountingRecordType,
+} from "../services/accounting/index.js";
+
+function parseId(req: FastifyRequest): number | null {
+  const id = Number((req.params as { id: string }).id);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/** ISO date or datetime; undefined when absent, null when unparseable */
+function parseDate(value: unknown): Date | null | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const d = new Date(String(value));
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+function sendError(req: FastifyRequest, reply: FastifyReply, err: any, fallback: string) {
+  if (err?.statusCode) {
+    const { statusCode, ...details } = err;
+    return reply.code(statusCode).send({ error: err.message, ...details });
+  }
+  req.log?.error?.({ err }, `Accounting request failed: ${fallback}`);
+  return reply.code(500).send({ error: fallback });
+}
+
+const accountingRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
+  const preHandler = [requirePermission("staff.*")];
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/finance/accounting/providers
+  // -----------------------------------------------------------------------
+  app.get("/finance/accounting/providers", { preHandler }, async (_req, reply) => {
+    return reply.send({ providers: listAccountingProviders() });
+  });
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/finance/accounting/settings
+  // -----------------------------------------------------------------------
+  app.get("/finance/accounting/settings", { preHandler }, async (req, reply) => {
+    try {
+      return reply.send({ settings: await getAccountingSettings(req.tenantId as number) });
+    } catch (err) {
+      return sendError(req, reply, err, "get_settings_failed");
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // PUT /api/v1/finance/accounting/settings
+  // -----------------------------------------------------------------------
+  app.put("/finance/accounting/settings", { preHandler }, async (req, reply) => {
+    const tenantId = req.tenantId as number;
+    const actorId = getActorId(req) ?? null;
+    const body = (req.body ?? {}) as Record<string, unknown>;
+
+    try {
+      const settings = await updateAccountingSettings(tenantId, body, actorId);
+
+      await auditSuccess(req, "ACCOUNTING_SETTINGS_UPDATED", {
+        userId: actorId,
+        tenantId,
+        surface: "PLATFORM",
+        detail: { fields: Object.keys(body) },
+      });
+
+      return reply.send({ settings });
+    } catch (err) {
+      return sendError(req, reply, err, "update_settings_failed");
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/finance/accounting/pending?provider=
+  // -----------------------------------------------------------------------
+  app.get("/finance/accounting/pending", { preHandler }, async (req, reply) => {
+    const query = (req.query ?? {}) as { provider?: string };
+    if (!query.provider) return reply.code(400).send({ error: "provider_required" });
+
+    try {
+      return reply.send(await getPendingCounts(req.tenantId as number, query.provider));
+    } catch (err) {
+      return sendError(req, reply, err, "pending_failed");
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // POST /api/v1/finance/accounting/sync
+  // -----------------------------------------------------------------------
+  app.post(
+    "/finance/accounting/sync",
+    { preHandler, config: { rateLimit: { max: 20, timeWindow: "1 hour" } } },
+    async (req, reply) => {
+      const tenantId = req.tenantId as number;
+      const actorId = getActorId(req) ?? null;
+      const body = (req.body ?? {}) as {
+        provider?: string;
+        types?: AccountingRecordType[];
+        from?: string;
+        to?: string;
+        includeSynced?: boolean;
+        dryRun?: boolean;
+      };
+
+      if (!body.provider) return reply.code(400).send({ error: "provider_required" });
+      if (body.types !== undefined && !Array.isArray(body.types)) {
+        return reply.code(400).send({ error: "invalid_record_type" });
+      }
+      const from = parseDate(body.from);
+      const to = parseDate(body.to);
+      if (from === null || to === null) return reply.code(400).send({ error: "invalid_date" });
+
+      try {
+        const result = await runAccountingSync(
+          tenantId,
+          {
+            provider: body.provider,
+            types: body.types,
+            from,
+            to,
+            includeSynced: body.includeSynced === true,
+            dryRun: body.dryRun === true,
+          },
+          actorId
+        );
+
+        if (result.run) {
+          await auditSuccess(req, "ACCOUNTING_SYNC_RUN", {
+            userId: actorId,
+            tenantId,
+            surface: "PLATFORM",
+            detail: {
+              runId: result.run.id,
+              provider: result.run.provider,
+              invoices: result.run.invoiceCount,
+              payments: result.run.paymentCount,
+              expenses: result.run.expenseCount,
+              failed: result.run.failedCount,
+            },
+          });
+        }
+
+        return reply.code(result.run ? 201 : 200).send(result);
+      } catch (err) {
+        return sendError(req, reply, err, "sync_failed");
+      }
+    },
+  );
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/finance/accounting/runs
+  // -----------------------------------------------------------------------
+  app.get("/finance/accounting/runs", { preHandler }, async (req, reply) => {
+    const query = (req.query ?? {}) as { provider?: string; limit?: string };
+    try {
+      const items = await listAccountingSyncRuns(req.tenantId as number, {
+        provider: query.provider,
+        limit: query.limit ? Number(query.limit) : undefined,
+      });
+      return reply.send({ items, total: items.length });
+    } catch (err) {
+      return sendError(req, reply, err, "list_failed");
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/finance/accounting/runs/:id
+  // -----------------------------------------------------------------------
+  app.get("/finance/accounting/runs/:id", { preHandler }, async (req, reply) => {
+    const id = parseId(req);
+    if (!id) return reply.code(400).send({ error: "invalid_id" });
+
+    try {
+      return reply.send({ run: await getAccountingSyncRun(req.tenantId as number, id) });
+    } catch (err) {
+      return sendError(req, reply, err, "get_failed");
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/finance/accounting/runs/:id/files/:name
+  // -----------------------------------------------------------------------
+  app.get("/finance/accounting/runs/:id/files/:name", { preHandler }, async (req, reply) => {
+    const id = parseId(req);
+    if (!id) return reply.code(400).send({ error: "invalid_id" });
+    const { name } = req.params as { name: string };
+
+    try {
+      const file = await getAccountingSyncFile(req.tenantId as number, id, name);
+      return reply
+        .header("Content-Type", `${file.contentType}; charset=utf-8`)
+        .header("Content-Disposition", `attachment; filename="${file.name}"`)
+        .header("Cache-Control", "no-store")
+        .send(file.content);
+    } catch (err) {
+      return sendError(req, reply, err, "download_failed");
+    }
+  });
+};
+
+export default accountingRoutes;
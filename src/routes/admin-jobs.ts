@@ -0,0 +1,149 @@
+// src/routes/admin-jobs.ts
+// Super-admin-only endpoints for the background job scheduler
+//
+// GET  /api/v1/admin/jobs             - Registered jobs, scheduler leader, last run per job
+// GET  /api/v1/admin/jobs/:name/runs  - Run history for one job
+// POST /api/v1/admin/jobs/:name/run   - Trigger a job now
+
+import type { FastifyInstance, FastifyPluginAsync } from "fastify";
+import prisma from "../prisma.js";
+import { getActorId } from "../utils/session.js";
+import {
+  getJob,
+  getSchedulerLeader,
+  listJobs,
+  triggerJob,
+} from "../jobs/scheduler.js";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function requireSuperAdmin(
+  req: any,
+  reply: any
+): Promise<string | null> {
+  const actorId = getActorId(req);
+  if (!actorId) {
+    reply.code(401).send({ error: "unauthorized" });
+    return null;
+  }
+
+  const actor = await prisma.user.findUnique({
+    where: { id: actorId },
+    select: { isSuperAdmin: true },
+  });
+
+  if (!actor?.isSuperAdmin) {
+    reply
+      .code(403)
+      .send({ error: "forbidden", message: "Super admin access required" });
+    return null;
+  }
+
+  return actorId;
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+const adminJobsRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
+  /**
+   * GET /api/v1/admin/jobs
+   * Lists registered jobs with the current scheduler leader and each job's
+   * most recent run.
+   */
+  app.get("/admin/jobs", async (req, reply) => {
+    const actorId = await requireSuperAdmin(req, reply);
+    if (!actorId) return;
+
+    try {
+      const jobs = listJobs();
+      const [scheduler, lastRuns] = await Promise.all([
+        getSchedulerLeader(),
+        prisma.jobRun.findMany({
+          where: { jobName: { in: jobs.map((j) => j.name) } },
+          distinct: ["jobName"],
+          orderBy: [{ jobName: "asc" }, { startedAt: "desc" }],
+        }),
+      ]);
+      const lastRunByJob = new Map(lastRuns.map((r) => [r.jobName, r]));
+
+      return {
+        scheduler,
+        jobs: jobs.map((job) => ({
+          ...job,
+          lastRun: lastRunByJob.get(job.name) ?? null,
+        })),
+      };
+    } catch (err: any) {
+      console.error("[admin-jobs] List failed:", err.message);
+      reply.code(500).send({ error: "list_failed", message: err.message });
+    }
+  });
+
+  /**
+   * GET /api/v1/admin/jobs/:name/runs
+   * Run history for a job, newest first.
+   * Query params: ?status=running|succeeded|failed, ?limit=50 (max 200)
+   */
+  app.get("/admin/jobs/:name/runs", async (req, reply) => {
+    const actorId = await requireSuperAdmin(req, reply);
+    if (!actorId) return;
+
+    const { name } = req.params as { name: string };
+    const query = req.query as { status?: string; limit?: string };
+
+    if (!getJob(name)) {
+      return reply.code(404).send({ error: "job_not_found" });
+    }
+
+    const status = query.status;
+    if (status && !["running", "succeeded", "failed"].includes(status)) {
+      return reply.code(400).send({ error: "invalid_status" });
+    }
+
+    const limit = Math.min(Math.max(Number(query.limit) || 50, 1), 200);
+
+    try {
+      const runs = await prisma.jobRun.findMany({
+        where: {
+          jobName: name,
+          ...(status ? { status: status as "running" | "succeeded" | "failed" } : {}),
+        },
+        orderBy: { startedAt: "desc" },
+        take: limit,
+      });
+      return { job: name, runs };
+    } catch (err: any) {
+      console.error("[admin-jobs] Run history failed:", err.message);
+      reply.code(500).send({ error: "history_failed", message: err.message });
+    }
+  });
+
+  /**
+   * POST /api/v1/admin/jobs/:name/run
+   * Run a job now on this instance. Returns immediately with the new run;
+   * poll the run history for the outcome.
+   */
+  app.post("/admin/jobs/:name/run", async (req, reply) => {
+    const actorId = await requireSuperAdmin(req, reply);
+    if (!actorId) return;
+
+    const { name } = req.params as { name: string };
+
+    try {
+      const run = await triggerJob(name, actorId);
+      return reply.code(202).send({ ok: true, run });
+    } catch (err: any) {
+      if (err?.statusCode) {
+        return reply.code(err.statusCode).send({ error: err.message });
+      }
+      console.error("[admin-jobs] Trigger failed:", err.message);
+      reply.code(500).send({ error: "trigger_failed", message: err.message });
+    }
+  });
+};
+
+export default adminJobsRoutes;
@@ -2,6 +2,7 @@
 // Vaccination records API endpoints for animals
 import type { FastifyInstance, FastifyPluginAsync } from "fastify";
 import prisma from "../prisma.js";
+import { getProtocolsForSpecies } from "../lib/vaccination-protocols.js";
 
 // ────────────────────────────────────────────────────────────────────────────
 // Utils
@@ -39,61 +40,6 @@ async function assertAnimalInTenant(animalId: number, tenantId: number) {
   return animal;
 }
 
-// ────────────────────────────────────────────────────────────────────────────
-// Vaccination Protocol Definitions (static data)
-// ────────────────────────────────────────────────────────────────────────────
-
-type VaccinationProtocol = {
-  key: string;
-  name: string;
-  species: string[];
-  intervalMonths: number;
-  isCore: boolean;
-  description?: string;
-};
-
-const VACCINATION_PROTOCOLS: VaccinationProtocol[] = [
-  // Dogs - Core
-  { key: "dog.rabies", name: "Rabies", species: ["DOG"], intervalMonths: 36, isCore: true, description: "Required by law in most areas. 1-year or 3-year depending on vaccine type." },
-  { key: "dog.dhpp", name: "DHPP (Distemper, Hepatitis, Parvo, Parainfluenza)", species: ["DOG"], intervalMonths: 12, isCore: true, description: "Core combination vaccine protecting against multiple diseases." },
-  { key: "dog.bordetella", name: "Bordetella (Kennel Cough)", species: ["DOG"], intervalMonths: 12, isCore: true, description: "Often required for boarding, grooming, and dog parks." },
-
-  // Dogs - Non-Core
-  { key: "dog.leptospirosis", name: "Leptospirosis", species: ["DOG"], intervalMonths: 12, isCore: false, description: "Recommended in areas with wildlife exposure or standing water." },
-  { key: "dog.lyme", name: "Lyme Disease", species: ["DOG"], intervalMonths: 12, isCore: false, description: "Recommended in tick-endemic areas." },
-  { key: "dog.canine_influenza", name: "Canine Influenza (H3N2/H3N8)", species: ["DOG"], intervalMonths: 12, isCore: false, description: "Recommended for dogs in social environments." },
-
-  // Cats - Core
-  { key: "cat.rabies", name: "Rabies", species: ["CAT"], intervalMonths: 36, isCore: true, description: "Required by law in most areas." },
-  { key: "cat.fvrcp", name: "FVRCP (Feline Viral Rhinotracheitis, Calicivirus, Panleukopenia)", species: ["CAT"], intervalMonths: 36, isCore: true, description: "Core combination vaccine for cats." },
-
-  // Cats - Non-Core
-  { key: "cat.felv", name: "FeLV (Feline Leukemia Virus)", species: ["CAT"], intervalMonths: 12, isCore: false, description: "Recommended for outdoor cats or multi-cat households." },
-
-  // Horses - Core
-  { key: "horse.rabies", name: "Rabies", species: ["HORSE"], intervalMonths: 12, isCore: true, description: "Annual vaccination required." },
-  { key: "horse.tetanus", name: "Tetanus", species: ["HORSE"], intervalMonths: 12, isCore: true, description: "Essential for all horses." },
-  { key: "horse.ewt", name: "Eastern/Western Encephalomyelitis + Tetanus", species: ["HORSE"], intervalMonths: 12, isCore: true, description: "Core vaccine protecting against mosquito-borne diseases." },
-  { key: "horse.west_nile", name: "West Nile Virus", species: ["HORSE"], intervalMonths: 12, isCore: true, description: "Mosquito-borne disease prevention." },
-
-  // Horses - Non-Core
-  { key: "horse.influenza", name: "Equine Influenza", species: ["HORSE"], intervalMonths: 6, isCore: false, description: "Recommended for horses that travel or compete." },
-  { key: "horse.rhinopneumonitis", name: "Rhinopneumonitis (EHV-1/EHV-4)", species: ["HORSE"], intervalMonths: 6, isCore: false, description: "Important for breeding horses and those in contact with pregnant mares." },
-  { key: "horse.strangles", name: "Strangles", species: ["HORSE"], intervalMonths: 12, isCore: false, description: "Bacterial infection prevention." },
-
-  // Goats - Core
-  { key: "goat.cdt", name: "CDT (Clostridium Perfringens C&D + Tetanus)", species: ["GOAT"], intervalMonths: 12, isCore: true, description: "Essential vaccine for all goats." },
-  { key: "goat.rabies", name: "Rabies", species: ["GOAT"], intervalMonths: 12, isCore: false, description: "Recommended in endemic areas." },
-
-  // Sheep - Core
-  { key: "sheep.cdt", name: "CDT (Clostridium Perfringens C&D + Tetanus)", species: ["SHEEP"], intervalMonths: 12, isCore: true, description: "Essential vaccine for all sheep." },
-];
-
-function getProtocolsForSpecies(species: string): VaccinationProtocol[] {
-  const upper = species.toUpperCase();
-  return VACCINATION_PROTOCOLS.filter(p => p.species.includes(upper));
-}
-
 // ────────────────────────────────────────────────────────────────────────────
 // Status Calculation
 // ────────────────────────────────────────────────────────────────────────────
@@ -7,6 +7,7 @@ import sharp from "sharp";
 import { checkQuota } from "../middleware/quota-enforcement.js";
 import { updateUsageSnapshot } from "../services/subscription/usage-service.js";
 import * as lineageService from "../services/lineage-service.js";
+import { buildMatePlan } from "../services/mate-selection-service.js";
 import * as identityMatchingService from "../services/identity-matching-service.js";
 import type { IdentifierType, OwnerRole, OvulationMethod } from "@prisma/client";
 import { activeOnly } from "../utils/query-helpers.js";
@@ -14,6 +15,7 @@ import { calculateCycleAnalysis } from "../services/cycle-analysis-service.js";
 import { uploadBuffer, deleteFile } from "../services/media-storage.js";
 import { auditCreate, auditUpdate, auditDelete, auditArchive, auditRestore, type AuditContext } from "../services/audit-trail.js";
 import { logEntityActivity } from "../services/activity-log.js";
+import { emitWebhookEvent } from "../services/webhooks/index.js";
 
 const AVATAR_SIZE = 256;
 
@@ -623,6 +625,14 @@ const animalsRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
         // Parent IDs for pedigree
         sireId: true,
         damId: true,
+        // Cached COI and pedigree diversity metrics
+        coiPercent: true,
+        coiGenerations: true,
+        coiCalculatedAt: true,
+        pedigreeCompleteness: true,
+        ancestorLossCoefficient: true,
+        meanKinship: true,
+        pedigreeMetricsCalculatedAt: true,
         // Valuation fields (primarily for horses)
         intendedUse: true,
         declaredValueCents: true,
@@ -900,6 +910,7 @@ const animalsRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
         actorId: ctx.userId,
         actorName: ctx.userName,
       });
+      emitWebhookEvent(tenantId, "animal.created", { animal: created });
 
       return reply.code(201).send(created);
     } catch (e: any) {
@@ -1156,6 +1167,7 @@ const animalsRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
         actorId: String((req as any).userId ?? "unknown"),
         actorName: (req as any).userName,
       });
+      emitWebhookEvent(tenantId, "animal.updated", { animal: updated });
 
       reply.send(updated);
     } catch (e: any) {
@@ -3200,7 +3212,7 @@ const animalsRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
     }
 
     // Import parser dynamically to avoid circular dependencies
-    const { parseEmbarkCSV, toDatabaseFormat, GENETICS_PROVIDERS, getProviderById } = await import("../lib/genetics-import/index.js");
+    const { parseGeneticsReport, toDatabaseFormat, getProviderById } = await import("../lib/genetics-import/index.js");
 
     const provider = getProviderById(body.provider as any);
     if (!provider) {
@@ -3210,11 +3222,16 @@ const animalsRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
       return reply.code(400).send({ error: "provider_not_supported", message: `Provider ${provider.name} is not yet supported` });
     }
 
+    // Species picks the locus table for multi-species lab reports
+    const animal = await prisma.animal.findUnique({
+      where: { id: animalId },
+      select: { species: true },
+    });
+    if (!animal) return reply.code(404).send({ error: "animal_not_found" });
+
     // Parse based on provider
-    let parseResult;
-    if (body.provider === "embark") {
-      parseResult = parseEmbarkCSV(body.fileContent);
-    } else {
+    const parseResult = parseGeneticsReport(provider.id, body.fileContent, animal.species || "DOG");
+    if (!parseResult) {
       return reply.code(400).send({ error: "unsupported_provider", message: `Import for ${body.provider} is not implemented yet` });
     }
 
@@ -3258,14 +3275,16 @@ const animalsRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
         otherTraits: dbFormat.otherTraitsData,
       },
       unmapped: parseResult.genetics.unmapped,
+      report: parseResult.report ?? null,
       warnings: parseResult.warnings,
     });
   });
 
   /**
    * POST /animals/:id/genetics/import
-   * Import genetics from a lab test file
-   * Body: { provider: string, fileContent: string, mergeStrategy?: 'replace' | 'merge' }
+   * Import genetics from a lab test file (CSV, or text extracted from a PDF report)
+   * Body: { provider: string, fileContent: string, mergeStrategy?: 'replace' | 'merge', testDate?, testId? }
+   * testDate/testId default to the report date and case/kit number when the report has them
    */
   app.post("/animals/:id/genetics/import", async (req, reply) => {
     const tenantId = await assertTenant(req, reply);
@@ -3293,7 +3312,7 @@ const animalsRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
     const mergeStrategy = body.mergeStrategy || "replace";
 
     // Import parser
-    const { parseEmbarkCSV, toDatabaseFormat, getProviderById } = await import("../lib/genetics-import/index.js");
+    const { parseGeneticsReport, toDatabaseFormat, getProviderById } = await import("../lib/genetics-import/index.js");
 
     const provider = getProviderById(body.provider as any);
     if (!provider) {
@@ -3303,11 +3322,16 @@ const animalsRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
       return reply.code(400).send({ error: "provider_not_supported" });
     }
 
+    // Get animal species for parsing and code normalization
+    const animal = await prisma.animal.findUnique({
+      where: { id: animalId },
+      select: { species: true },
+    });
+    if (!animal) return reply.code(404).send({ error: "animal_not_found" });
+
     // Parse the file
-    let parseResult;
-    if (body.provider === "embark") {
-      parseResult = parseEmbarkCSV(body.fileContent);
-    } else {
+    const parseResult = parseGeneticsReport(provider.id, body.fileContent, animal.species || "DOG");
+    if (!parseResult) {
       return reply.code(400).send({ error: "unsupported_provider" });
     }
 
@@ -3320,13 +3344,6 @@ const animalsRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
 
     const dbFormat = toDatabaseFormat(parseResult.genetics);
 
-    // Get animal species for code normalization
-    const animal = await prisma.animal.findUnique({
-      where: { id: animalId },
-      select: { species: true },
-    });
-    if (!animal) return reply.code(404).send({ error: "animal_not_found" });
-
     // Normalize imported genetic data to ensure consistent locus codes
     const { normalizeGeneticData } = await import("../utils/genetics-code-normalizer.js");
     const normalizedDbFormat = normalizeGeneticData({
@@ -3362,8 +3379,12 @@ const animalsRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
 
     const data = {
       testProvider: provider.name,
-      testDate: body.testDate ? new Date(body.testDate) : new Date(),
-      testId: body.testId || null,
+      testDate: body.testDate
+        ? new Date(body.testDate)
+        : parseResult.report?.testDate
+          ? new Date(parseResult.report.testDate)
+          : new Date(),
+      testId: body.testId || parseResult.report?.reportId || null,
       coatColorData: mergeArrays(existingGenetics?.coatColorData as any, normalizedDbFormat.coatColor),
       healthGeneticsData: mergeArrays(existingGenetics?.healthGeneticsData as any, normalizedDbFormat.health),
       coatTypeData: mergeArrays(existingGenetics?.coatTypeData as any, dbFormat.coatTypeData),
@@ -3428,6 +3449,104 @@ const animalsRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
     reply.send({ providers: GENETICS_PROVIDERS });
   });
 
+  /**
+   * POST /genetics/import/batch/preview
+   * Preview a lab batch sheet covering several animals: per-animal match,
+   * locus changes and conflicts. Nothing is saved.
+   * Body: { provider, fileContent, species?, mergeStrategy?, resolutions? }
+   */
+  app.post("/genetics/import/batch/preview", async (req, reply) => {
+    const tenantId = await assertTenant(req, reply);
+    if (!tenantId) return;
+
+    const body = req.body as {
+      provider?: string;
+      fileContent?: string;
+      species?: string;
+      mergeStrategy?: "replace" | "merge";
+      resolutions?: Array<{ key: string; animalId?: number; skip?: boolean }>;
+    };
+    if (!body?.provider) return reply.code(400).send({ error: "provider_required" });
+    if (!body.fileContent) return reply.code(400).send({ error: "file_content_required" });
+
+    try {
+      const { previewBulkGeneticsImport } = await import("../services/genetics/bulk-genetics-import.js");
+      const preview = await previewBulkGeneticsImport(tenantId, {
+        provider: body.provider,
+        fileContent: body.fileContent,
+        species: body.species ? (body.species.toUpperCase() as any) : null,
+        mergeStrategy: body.mergeStrategy,
+        resolutions: body.resolutions,
+      });
+      reply.send(preview);
+    } catch (err: any) {
+      if (err?.statusCode) {
+        return reply.code(err.statusCode).send({ error: err.message, errors: err.errors, key: err.key });
+      }
+      req.log?.error?.({ err }, "Bulk genetics import preview failed");
+      return reply.code(500).send({ error: "preview_failed" });
+    }
+  });
+
+  /**
+   * POST /genetics/import/batch
+   * Import a lab batch sheet. All matched animals are written in one
+   * transaction; unmatched/ambiguous animals must be resolved or skipped.
+   * Body: { provider, fileContent, species?, mergeStrategy?, resolutions? }
+   */
+  app.post("/genetics/import/batch", async (req, reply) => {
+    const tenantId = await assertTenant(req, reply);
+    if (!tenantId) return;
+
+    const body = req.body as {
+      provider?: string;
+      fileContent?: string;
+      species?: string;
+      mergeStrategy?: "replace" | "merge";
+      resolutions?: Array<{ key: string; animalId?: number; skip?: boolean }>;
+    };
+    if (!body?.provider) return reply.code(400).send({ error: "provider_required" });
+    if (!body.fileContent) return reply.code(400).send({ error: "file_content_required" });
+
+    try {
+      const { commitBulkGeneticsImport } = await import("../services/genetics/bulk-genetics-import.js");
+      const result = await commitBulkGeneticsImport(
+        tenantId,
+        {
+          provider: body.provider,
+          fileContent: body.fileContent,
+          species: body.species ? (body.species.toUpperCase() as any) : null,
+          mergeStrategy: body.mergeStrategy,
+          resolutions: body.resolutions,
+        },
+        (req as any).userId ?? null
+      );
+
+      for (const animal of result.imported) {
+        logEntityActivity({
+          tenantId,
+          entityType: "ANIMAL",
+          entityId: animal.animalId,
+          kind: "animal_genetics_imported",
+          category: "system",
+          title: `Genetic data imported from ${result.provider} (batch file)`,
+          actorId: String((req as any).userId ?? "unknown"),
+          actorName: (req as any).userName,
+        });
+      }
+
+      reply.send({ success: true, ...result });
+    } catch (err: any) {
+      if (err?.statusCode) {
+        return reply
+          .code(err.statusCode)
+          .send({ error: err.message, errors: err.errors, key: err.key, unresolved: err.unresolved });
+      }
+      req.log?.error?.({ err }, "Bulk genetics import failed");
+      return reply.code(500).send({ error: "import_failed" });
+    }
+  });
+
   // ──────────────────────────────────────────────────────────────────────────
   // CSV Import/Export endpoints
   // ──────────────────────────────────────────────────────────────────────────
@@ -4060,6 +4179,7 @@ const animalsRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
    * Get the pedigree (ancestor tree) for an animal
    * Query params:
    *   - generations: number of generations to fetch (default 5, max 10)
+   *   - coiGenerations: depth used for the COI calculation (default = generations, max 15)
    */
   app.get("/animals/:id/pedigree", async (req, reply) => {
     const tenantId = await assertTenant(req, reply);
@@ -4069,13 +4189,41 @@ const animalsRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
 
     await assertAnimalInTenant(animalId, tenantId);
 
-    const { generations = "5" } = (req.query || {}) as { generations?: string };
+    const { generations = "5", coiGenerations } = (req.query || {}) as {
+      generations?: string;
+      coiGenerations?: string;
+    };
     const gen = Math.min(10, Math.max(1, parseInt(generations, 10) || 5));
+    const coiGen = coiGenerations
+      ? lineageService.clampCOIGenerations(parseInt(coiGenerations, 10))
+      : gen;
 
-    const result = await lineageService.getPedigree(animalId, tenantId, gen);
+    const result = await lineageService.getPedigree(animalId, tenantId, gen, coiGen);
     reply.send(result);
   });
 
+  /**
+   * POST /animals/:id/pedigree-metrics/recalculate
+   * Recalculate pedigree completeness, ancestor loss (AVK) and mean kinship
+   * Body: { generations?: number } (default 6, max 15)
+   */
+  app.post("/animals/:id/pedigree-metrics/recalculate", async (req, reply) => {
+    const tenantId = await assertTenant(req, reply);
+    if (!tenantId) return;
+    const animalId = parseIntStrict((req.params as { id: string }).id);
+    if (!animalId) return reply.code(400).send({ error: "id_invalid" });
+
+    await assertAnimalInTenant(animalId, tenantId);
+
+    const { generations } = (req.body || {}) as { generations?: unknown };
+    const [metrics] = await lineageService.recalculatePedigreeMetrics(tenantId, {
+      animalIds: [animalId],
+      generations: parseIntStrict(generations) ?? undefined,
+    });
+
+    reply.send(metrics ?? null);
+  });
+
   /**
    * GET /animals/:id/offspring
    * Get offspring (from Offspring table) where this animal is the dam or sire
@@ -4339,16 +4487,18 @@ const animalsRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
    * Query params:
    *   - damId: ID of the female
    *   - sireId: ID of the male
-   *   - generations: number of generations to analyze (default 10)
+   *   - generations: number of generations to analyze (default 10, max 15)
+   *   - paths: "false" to omit the per-path breakdown
    */
   app.get("/lineage/coi", async (req, reply) => {
     const tenantId = await assertTenant(req, reply);
     if (!tenantId) return;
 
-    const { damId, sireId, generations = "10" } = (req.query || {}) as {
+    const { damId, sireId, generations, paths } = (req.query || {}) as {
       damId?: string;
       sireId?: string;
       generations?: string;
+      paths?: string;
     };
 
     const dam = parseIntStrict(damId);
@@ -4357,10 +4507,12 @@ const animalsRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
     if (!dam) return reply.code(400).send({ error: "damId_required" });
     if (!sire) return reply.code(400).send({ error: "sireId_required" });
 
-    const gen = Math.min(15, Math.max(1, parseInt(generations, 10) || 10));
+    const gen = lineageService.clampCOIGenerations(parseInt(generations ?? "", 10));
 
     try {
-      const result = await lineageService.getProspectiveCOI(dam, sire, tenantId, gen);
+      const result = await lineageService.getProspectiveCOI(dam, sire, tenantId, gen, {
+        includePaths: paths !== "false",
+      });
       reply.send(result);
     } catch (e: any) {
       if (e.statusCode) {
@@ -4370,6 +4522,78 @@ const animalsRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
     }
   });
 
+  /**
+   * POST /lineage/mate-plan
+   * Build the dam × sire kinship matrix and a ranked pairing plan that
+   * minimizes average offspring COI
+   * Body:
+   *   - damIds / sireIds: candidate animals
+   *   - breedingGroupId: use a breeding group's active members and sire
+   *   - generations: COI depth (default 10, max 15)
+   *   - maxDamsPerSire: optional per-sire cap
+   */
+  app.post("/lineage/mate-plan", async (req, reply) => {
+    const tenantId = await assertTenant(req, reply);
+    if (!tenantId) return;
+
+    const body = (req.body || {}) as {
+      damIds?: unknown[];
+      sireIds?: unknown[];
+      breedingGroupId?: unknown;
+      generations?: unknown;
+      maxDamsPerSire?: unknown;
+    };
+
+    const parseIds = (v: unknown[] | undefined) => (Array.isArray(v) ? v.map(parseIntStrict) : []);
+    const damIds = parseIds(body.damIds);
+    const sireIds = parseIds(body.sireIds);
+    if (damIds.some((id) => !id)) return reply.code(400).send({ error: "damIds_invalid" });
+    if (sireIds.some((id) => !id)) return reply.code(400).send({ error: "sireIds_invalid" });
+
+    const breedingGroupId = body.breedingGroupId != null ? parseIntStrict(body.breedingGroupId) : null;
+    if (body.breedingGroupId != null && !breedingGroupId) {
+      return reply.code(400).send({ error: "breedingGroupId_invalid" });
+    }
+
+    try {
+      const result = await buildMatePlan(
+        {
+          damIds: damIds as number[],
+          sireIds: sireIds as number[],
+          breedingGroupId,
+          generations: parseIntStrict(body.generations) ?? undefined,
+          maxDamsPerSire: parseIntStrict(body.maxDamsPerSire),
+        },
+        tenantId
+      );
+      reply.send(result);
+    } catch (e: any) {
+      if (e.statusCode) {
+        return reply.code(e.statusCode).send({ error: e.message, animalId: e.animalId });
+      }
+      throw e;
+    }
+  });
+
+  /**
+   * POST /lineage/pedigree-metrics/recalculate
+   * Recalculate pedigree metrics for every live animal in the tenant.
+   * Mean kinship depends on the whole breeding population, so run this after
+   * animals move in or out of BREEDING status.
+   * Body: { generations?: number } (default 6, max 15)
+   */
+  app.post("/lineage/pedigree-metrics/recalculate", async (req, reply) => {
+    const tenantId = await assertTenant(req, reply);
+    if (!tenantId) return;
+
+    const { generations } = (req.body || {}) as { generations?: unknown };
+    const results = await lineageService.recalculatePedigreeMetrics(tenantId, {
+      generations: parseIntStrict(generations) ?? undefined,
+    });
+
+    reply.send({ updated: results.length });
+  });
+
   /* ═══════════════════════════════════════════════════════════════════════════
    * PRIVACY SETTINGS - Per-animal cross-tenant sharing controls
    * ═══════════════════════════════════════════════════════════════════════════ */
@@ -5199,6 +5423,8 @@ const animalsRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
       RABBIT: { gestationDays: 31, placementStartWeeksDefault: 8 },
       GOAT: { gestationDays: 150, placementStartWeeksDefault: 8 },
       SHEEP: { gestationDays: 147, placementStartWeeksDefault: 8 },
+      CATTLE: { gestationDays: 283, placementStartWeeksDefault: 30 },
+      PIG: { gestationDays: 114, placementStartWeeksDefault: 8 },
     };
     const computeLockedDatesFromOvulation = (ovulationDate: Date, species: string | null) => {
       const d = GESTATION_DEFAULTS[String(species ?? "DOG").toUpperCase()] ?? GESTATION_DEFAULTS.DOG;
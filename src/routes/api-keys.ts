@@ -0,0 +1,134 @@
+// src/routes/api-keys.ts
+// Tenant API key management — Owners/Admins issue and revoke integration keys.
+//
+// GET    /api/v1/api-keys             - List keys (?includeRevoked=true)
+// POST   /api/v1/api-keys             - Create a key; the raw key is returned once
+// POST   /api/v1/api-keys/:id/revoke  - Revoke a key
+//
+// Keys themselves can't reach these routes (see middleware/api-key-auth.ts).
+
+import type { FastifyInstance, FastifyPluginAsync } from "fastify";
+import { getActorId } from "../utils/session.js";
+import { requirePermission } from "../middleware/require-permission.js";
+import { requireEntitlement } from "../middleware/quota-enforcement.js";
+import { auditSuccess } from "../services/audit.js";
+import {
+  API_KEY_SCOPE_NAMESPACES,
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+} from "../services/api-key-service.js";
+
+const apiKeysRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
+  // -----------------------------------------------------------------------
+  // GET /api/v1/api-keys
+  // -----------------------------------------------------------------------
+  app.get(
+    "/api-keys",
+    { preHandler: requirePermission("staff.*") },
+    async (req, reply) => {
+      try {
+        const tenantId = req.tenantId as number;
+        const query = req.query as { includeRevoked?: string };
+        const items = await listApiKeys(tenantId, { includeRevoked: query.includeRevoked === "true" });
+        return reply.send({ items, total: items.length, scopeNamespaces: API_KEY_SCOPE_NAMESPACES });
+      } catch (err) {
+        req.log?.error?.({ err }, "Failed to list API keys");
+        return reply.code(500).send({ error: "list_failed" });
+      }
+    },
+  );
+
+  // -----------------------------------------------------------------------
+  // POST /api/v1/api-keys
+  // Body: { name, scopes: string[], expiresAt?: ISO date, rateLimitPerMinute? }
+  // -----------------------------------------------------------------------
+  app.post(
+    "/api-keys",
+    {
+      preHandler: [requirePermission("staff.*"), requireEntitlement("API_ACCESS")],
+      config: { rateLimit: { max: 10, timeWindow: "1 minute" } },
+    },
+    async (req, reply) => {
+      const tenantId = req.tenantId as number;
+      const actorId = getActorId(req);
+      if (!actorId) return reply.code(401).send({ error: "unauthorized" });
+
+      const body = (req.body || {}) as {
+        name?: string;
+        scopes?: unknown;
+        expiresAt?: string | null;
+        rateLimitPerMinute?: number;
+      };
+
+      if (!Array.isArray(body.scopes) || !body.scopes.every((s) => typeof s === "string")) {
+        return reply.code(400).send({ error: "invalid_scopes", details: ["scopes must be a list of strings"] });
+      }
+
+      let expiresAt: Date | null = null;
+      if (body.expiresAt) {
+        expiresAt = new Date(body.expiresAt);
+        if (Number.isNaN(expiresAt.getTime())) return reply.code(400).send({ error: "invalid_expiry" });
+      }
+
+      try {
+        const { apiKey, key } = await createApiKey(tenantId, actorId, {
+          name: body.name ?? "",
+          scopes: body.scopes as string[],
+          expiresAt,
+          rateLimitPerMinute: body.rateLimitPerMinute,
+        });
+
+        await auditSuccess(req, "API_KEY_CREATED", {
+          userId: actorId,
+          tenantId,
+          surface: "PLATFORM",
+          detail: { apiKeyId: apiKey.id, prefix: apiKey.prefix, scopes: apiKey.scopes },
+        });
+
+        return reply.code(201).send({ apiKey, key });
+      } catch (err: any) {
+        if (err?.statusCode) {
+          return reply.code(err.statusCode).send({ error: err.message, details: err.details });
+        }
+        req.log?.error?.({ err }, "Failed to create API key");
+        return reply.code(500).send({ error: "create_failed" });
+      }
+    },
+  );
+
+  // -----------------------------------------------------------------------
+  // POST /api/v1/api-keys/:id/revoke
+  // -----------------------------------------------------------------------
+  app.post(
+    "/api-keys/:id/revoke",
+    { preHandler: requirePermission("staff.*") },
+    async (req, reply) => {
+      const tenantId = req.tenantId as number;
+      const actorId = getActorId(req);
+      if (!actorId) return reply.code(401).send({ error: "unauthorized" });
+
+      const id = Number((req.params as { id: string }).id);
+      if (!Number.isInteger(id) || id <= 0) return reply.code(400).send({ error: "invalid_id" });
+
+      try {
+        const apiKey = await revokeApiKey(tenantId, id, actorId);
+
+        await auditSuccess(req, "API_KEY_REVOKED", {
+          userId: actorId,
+          tenantId,
+          surface: "PLATFORM",
+          detail: { apiKeyId: apiKey.id, prefix: apiKey.prefix },
+        });
+
+        return reply.send({ apiKey });
+      } catch (err: any) {
+        if (err?.statusCode) return reply.code(err.statusCode).send({ error: err.message });
+        req.log?.error?.({ err }, "Failed to revoke API key");
+        return reply.code(500).send({ error: "revoke_failed" });
+      }
+    },
+  );
+};
+
+export default apiKeysRoutes;
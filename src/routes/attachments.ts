@@ -1,6 +1,8 @@
 // src/routes/attachments.ts
 import type { FastifyInstance, FastifyPluginAsync } from "fastify";
 import prisma from "../prisma.js";
+import { OFFSPRING_PHOTO_KINDS } from "../lib/custom-rules.js";
+import { triggerOnOffspringPhotosAdded } from "../lib/rule-triggers.js";
 
 /* ───────────────────────── helpers ───────────────────────── */
 
@@ -41,6 +43,7 @@ function attachmentDTO(a: any) {
     invoiceId: a.invoiceId,
     paymentId: a.paymentId,
     expenseId: a.expenseId,
+    offspringId: a.offspringId,
     createdByUserId: a.createdByUserId,
     createdAt: a.createdAt,
   };
@@ -64,6 +67,7 @@ const routes: FastifyPluginAsync = async (app: FastifyInstance) => {
       if (query.invoiceId) where.invoiceId = parseIntOrNull(query.invoiceId);
       if (query.paymentId) where.paymentId = parseIntOrNull(query.paymentId);
       if (query.expenseId) where.expenseId = parseIntOrNull(query.expenseId);
+      if (query.offspringId) where.offspringId = parseIntOrNull(query.offspringId);
 
       const [data, total] = await Promise.all([
         prisma.attachment.findMany({
@@ -102,11 +106,20 @@ const routes: FastifyPluginAsync = async (app: FastifyInstance) => {
       const invoiceId = parseIntOrNull(body.invoiceId);
       const paymentId = parseIntOrNull(body.paymentId);
       const expenseId = parseIntOrNull(body.expenseId);
+      const offspringId = parseIntOrNull(body.offspringId);
 
-      if (!invoiceId && !paymentId && !expenseId) {
+      if (!invoiceId && !paymentId && !expenseId && !offspringId) {
         return reply.code(400).send({ error: "must_link_to_entity" });
       }
 
+      if (offspringId) {
+        const offspring = await prisma.offspring.findFirst({
+          where: { id: offspringId, tenantId },
+          select: { id: true },
+        });
+        if (!offspring) return reply.code(404).send({ error: "offspring_not_found" });
+      }
+
       const attachment = await prisma.attachment.create({
         data: {
           tenantId,
@@ -119,10 +132,18 @@ const routes: FastifyPluginAsync = async (app: FastifyInstance) => {
           invoiceId,
           paymentId,
           expenseId,
+          offspringId,
           createdByUserId: (req as any).userId || null,
         },
       });
 
+      // Offspring photos can trigger program rules (e.g. notify_waitlist_on_photos)
+      if (offspringId && OFFSPRING_PHOTO_KINDS.includes(attachment.kind)) {
+        triggerOnOffspringPhotosAdded(offspringId, tenantId, 1).catch(err =>
+          req.log.error({ err, offspringId }, "Failed to trigger rules on offspring photo upload")
+        );
+      }
+
       return reply.code(201).send(attachmentDTO(attachment));
     } catch (err) {
       const { status, payload } = errorReply(err);
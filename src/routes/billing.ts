@@ -19,6 +19,7 @@ import {
 } from "../services/stripe-service.js";
 import prisma from "../prisma.js";
 import { createPaymentAndRecalculate, recalculateInvoiceBalance } from "../services/finance/payment-service.js";
+import { emitInvoicePaidWebhook } from "../services/webhooks/index.js";
 import { auditSuccess } from "../services/audit.js";
 import {
   sendPaymentFailedEmail,
@@ -580,6 +581,7 @@ const billingRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
                   status: "succeeded",
                   notes: `Waitlist deposit via Stripe Checkout: ${session.id}`,
                 });
+                emitInvoicePaidWebhook(tenantId, invoiceId);
 
                 // Re-fetch invoice to get recalculated status
                 const invoice = await prisma.invoice.findUnique({
@@ -736,6 +738,7 @@ const billingRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
                     status: "succeeded",
                     notes: `Portal payment via Stripe Checkout: ${session.id}`,
                   });
+                  emitInvoicePaidWebhook(tenantId, invoiceId);
 
                   // Re-fetch invoice to get recalculated status
                   const updatedInvoice = await prisma.invoice.findUnique({
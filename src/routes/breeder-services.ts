@@ -9,6 +9,11 @@ import {
   shouldMarkAsFounding,
   getListingPaymentSettings,
 } from "../services/listing-payment-service.js";
+import {
+  clearListingGeocode,
+  geocodeListing,
+  touchesListingLocation,
+} from "../services/marketplace-geo-service.js";
 
 async function assertTenant(req: any, reply: any): Promise<number | null> {
   const tenantId = Number(req.tenantId);
@@ -215,6 +220,9 @@ export default async function breederServicesRoutes(app: FastifyInstance) {
         },
       });
 
+      // Geocode for radius search in the background (backfill job retries failures)
+      geocodeListing(service.id).catch((err) => req.log.warn({ err, serviceId: service.id }, "Failed to geocode service"));
+
       // Convert BigInt fields to numbers for JSON serialization
       return reply.code(201).send({
         ...service,
@@ -285,9 +293,13 @@ export default async function breederServicesRoutes(app: FastifyInstance) {
 
       const service = await prisma.mktListingBreederService.update({
         where: { id: serviceId },
-        data: req.body,
+        data: clearListingGeocode(req.body),
       });
 
+      if (touchesListingLocation(req.body)) {
+        geocodeListing(serviceId).catch((err) => req.log.warn({ err, serviceId }, "Failed to geocode service"));
+      }
+
       // Convert BigInt fields to numbers for JSON serialization
       return reply.send({
         ...service,
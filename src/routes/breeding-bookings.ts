@@ -10,6 +10,7 @@ import {
   breedingBookingStatusSchema,
   breedingBookingRequirementsSchema,
 } from "../validation/breeding-discovery.js";
+import { emitWebhookEvent } from "../services/webhooks/index.js";
 
 function parseIntStrict(v: unknown): number | null {
   const n = Number(v);
@@ -56,6 +57,49 @@ const VALID_STATUS_TRANSITIONS: Record<string, string[]> = {
   CANCELLED: [],
 };
 
+/** booking.confirmed goes to both sides of the booking that are tenants */
+function emitBookingConfirmed(booking: {
+  id: number;
+  bookingNumber: string;
+  offeringTenantId: number;
+  offeringAnimalId: number;
+  seekingTenantId: number | null;
+  seekingPartyId: number;
+  seekingAnimalId: number | null;
+  species: string;
+  bookingType: string;
+  status: string;
+  agreedFeeCents: number;
+  depositCents: number;
+  totalPaidCents: number;
+  scheduledDate: Date | null;
+  statusChangedAt: Date;
+}) {
+  const data = {
+    booking: {
+      id: booking.id,
+      bookingNumber: booking.bookingNumber,
+      offeringTenantId: booking.offeringTenantId,
+      offeringAnimalId: booking.offeringAnimalId,
+      seekingTenantId: booking.seekingTenantId,
+      seekingPartyId: booking.seekingPartyId,
+      seekingAnimalId: booking.seekingAnimalId,
+      species: booking.species,
+      bookingType: booking.bookingType,
+      status: booking.status,
+      agreedFeeCents: booking.agreedFeeCents,
+      depositCents: booking.depositCents,
+      totalPaidCents: booking.totalPaidCents,
+      scheduledDate: booking.scheduledDate,
+      confirmedAt: booking.statusChangedAt,
+    },
+  };
+  emitWebhookEvent(booking.offeringTenantId, "booking.confirmed", data);
+  if (booking.seekingTenantId && booking.seekingTenantId !== booking.offeringTenantId) {
+    emitWebhookEvent(booking.seekingTenantId, "booking.confirmed", data);
+  }
+}
+
 const breedingBookingsRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
   // GET /breeding-bookings - List all bookings
   app.get("/breeding-bookings", async (req, reply) => {
@@ -408,6 +452,7 @@ const breedingBookingsRoutes: FastifyPluginAsync = async (app: FastifyInstance)
         data: updateData,
         include: bookingInclude,
       });
+      if (newStatus === "CONFIRMED") emitBookingConfirmed(updated);
 
       reply.send(updated);
     } catch (err) {
@@ -674,6 +719,7 @@ const breedingBookingsRoutes: FastifyPluginAsync = async (app: FastifyInstance)
         data: updateData,
         include: bookingInclude,
       });
+      if (updateData.status === "CONFIRMED") emitBookingConfirmed(updated);
 
       reply.send({
         success: true,
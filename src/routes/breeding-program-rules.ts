@@ -1,6 +1,9 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { BreedingRuleLevel, BreedingRuleCategory } from '@prisma/client';
 import { getEffectiveRules, executeAllRulesForEntity, buildInheritanceChain } from '../lib/rule-engine.js';
+import { runCustomRule } from '../lib/custom-rules.js';
+import { previewRuleChange } from '../lib/rule-preview.js';
+import { isCustomRuleType, validateCustomRuleConfig } from '../validation/breeding-program-rules.js';
 import prisma from '../prisma.js';
 
 export default async function breedingProgramRulesRoutes(app: FastifyInstance) {
@@ -179,6 +182,16 @@ export default async function breedingProgramRulesRoutes(app: FastifyInstance) {
         return reply.code(400).send({ error: `Invalid level. Must be one of: ${validLevels.join(', ')}` });
       }
 
+      if (String(ruleType).startsWith('custom:')) {
+        if (!isCustomRuleType(ruleType)) {
+          return reply.code(400).send({ error: 'Invalid custom rule type. Use custom:<key> with lowercase letters, digits, - or _' });
+        }
+        const issues = validateCustomRuleConfig(config);
+        if (issues.length > 0) {
+          return reply.code(400).send({ error: 'Invalid custom rule config', issues });
+        }
+      }
+
       // Check if rule already exists for this level/entity/type
       const existing = await prisma.breedingProgramRule.findUnique({
         where: {
@@ -273,6 +286,13 @@ export default async function breedingProgramRulesRoutes(app: FastifyInstance) {
         });
       }
 
+      if (config !== undefined && isCustomRuleType(parentRule.ruleType)) {
+        const issues = validateCustomRuleConfig(config);
+        if (issues.length > 0) {
+          return reply.code(400).send({ error: 'Invalid custom rule config', issues });
+        }
+      }
+
       // Check if override already exists
       const existing = await prisma.breedingProgramRule.findUnique({
         where: {
@@ -427,6 +447,150 @@ export default async function breedingProgramRulesRoutes(app: FastifyInstance) {
     }
   });
 
+  /**
+   * POST /api/v1/breeding/programs/rules/validate
+   * Validate a rule type and config without saving it
+   */
+  app.post('/breeding/programs/rules/validate', async (req: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = req.body as any;
+      const { ruleType, config } = body ?? {};
+      const tenantId = (req as any).tenantId;
+
+      if (!tenantId) {
+        return reply.code(401).send({ error: 'Not authenticated' });
+      }
+
+      if (!ruleType) {
+        return reply.code(400).send({ error: 'Missing required field: ruleType' });
+      }
+
+      if (!isCustomRuleType(ruleType)) {
+        return reply.send({
+          valid: false,
+          issues: [{ path: 'ruleType', message: 'Only custom:<key> rule types have a declarative config' }]
+        });
+      }
+
+      const issues = validateCustomRuleConfig(config);
+      return reply.send({ valid: issues.length === 0, issues });
+    } catch (error) {
+      req.log.error({ err: error }, 'Error validating rule');
+      return reply.code(500).send({ error: 'Failed to validate rule' });
+    }
+  });
+
+  /**
+   * POST /api/v1/breeding/programs/rules/dry-run
+   * Evaluate custom rules for an entity and report what they would do, without
+   * writing anything. Pass a config to try an unsaved rule, a ruleId for one saved
+   * rule, or neither to dry-run every effective custom rule.
+   */
+  app.post('/breeding/programs/rules/dry-run', async (req: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = req.body as any;
+      const { level, id, ruleId, ruleType, config } = body ?? {};
+      const tenantId = (req as any).tenantId;
+
+      if (!tenantId) {
+        return reply.code(401).send({ error: 'Not authenticated' });
+      }
+
+      if (!level || !id) {
+        return reply.code(400).send({ error: 'Missing required parameters: level, id' });
+      }
+
+      if (level !== 'OFFSPRING' && level !== 'PLAN') {
+        return reply.code(400).send({ error: 'Invalid level. Must be: OFFSPRING or PLAN' });
+      }
+
+      const entityType = level === 'OFFSPRING' ? 'offspring' : 'plan';
+      const entityId = parseInt(id);
+      if (!Number.isInteger(entityId) || entityId <= 0) {
+        return reply.code(400).send({ error: 'Invalid id' });
+      }
+
+      let rules: Array<{ id: number | null; tenantId: number; ruleType: string; config: any }>;
+
+      if (config !== undefined) {
+        const issues = validateCustomRuleConfig(config);
+        if (issues.length > 0) {
+          return reply.code(400).send({ error: 'Invalid custom rule config', issues });
+        }
+        rules = [{ id: null, tenantId, ruleType: ruleType || 'custom:draft', config }];
+      } else if (ruleId) {
+        const rule = await prisma.breedingProgramRule.findFirst({
+          where: { id: parseInt(ruleId), tenantId }
+        });
+        if (!rule) {
+          return reply.code(404).send({ error: 'Rule not found' });
+        }
+        if (!isCustomRuleType(rule.ruleType)) {
+          return reply.code(400).send({ error: 'Only custom rules support dry-run' });
+        }
+        rules = [rule];
+      } else {
+        const effective = await getEffectiveRules(level as BreedingRuleLevel, entityId, tenantId);
+        rules = effective.filter(rule => isCustomRuleType(rule.ruleType));
+      }
+
+      const results = [];
+      for (const rule of rules) {
+        const result = await runCustomRule(rule, entityType, entityId, { dryRun: true });
+        results.push({ ruleId: rule.id, ruleType: rule.ruleType, ...result });
+      }
+
+      return reply.send({ level, id, results });
+    } catch (error) {
+      req.log.error({ err: error }, 'Error running rule dry-run');
+      return reply.code(500).send({ error: 'Failed to run rule dry-run' });
+    }
+  });
+
+  /**
+   * POST /api/v1/breeding/programs/rules/preview
+   * Show which offspring and plans a rule change would touch, with a per-entity
+   * before/after diff. Runs in a rolled-back transaction: nothing is saved, no
+   * execution history is written and no email is sent.
+   */
+  app.post('/breeding/programs/rules/preview', async (req: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = req.body as any;
+      const tenantId = (req as any).tenantId;
+
+      if (!tenantId) {
+        return reply.code(401).send({ error: 'Not authenticated' });
+      }
+
+      const { ruleId, category, ruleType, name, level, levelId, enabled, config } = body ?? {};
+
+      if (!ruleId && (!category || !ruleType || !level || !levelId)) {
+        return reply.code(400).send({
+          error: 'Provide ruleId, or category, ruleType, level and levelId for a draft rule'
+        });
+      }
+
+      const preview = await previewRuleChange(tenantId, {
+        ruleId: ruleId ? parseInt(ruleId) : undefined,
+        category,
+        ruleType,
+        name,
+        level,
+        levelId,
+        enabled,
+        config
+      });
+
+      return reply.send(preview);
+    } catch (error: any) {
+      if (error?.statusCode) {
+        return reply.code(error.statusCode).send({ error: error.message });
+      }
+      req.log.error({ err: error }, 'Error previewing rule');
+      return reply.code(500).send({ error: 'Failed to preview rule' });
+    }
+  });
+
   /**
    * GET /api/v1/breeding/programs/rules/:id/executions
    * Get execution history for a rule
@@ -470,6 +470,8 @@ const SPECIES_DEFAULTS: Record<string, { ovulationOffsetDays: number; gestationD
   RABBIT: { ovulationOffsetDays: 0, gestationDays: 31, offspringCareDurationWeeks: 4, placementStartWeeksDefault: 8, placementExtendedWeeks: 2 },
   GOAT: { ovulationOffsetDays: 2, gestationDays: 150, offspringCareDurationWeeks: 8, placementStartWeeksDefault: 8, placementExtendedWeeks: 4 },
   SHEEP: { ovulationOffsetDays: 2, gestationDays: 147, offspringCareDurationWeeks: 8, placementStartWeeksDefault: 8, placementExtendedWeeks: 4 },
+  CATTLE: { ovulationOffsetDays: 1, gestationDays: 283, offspringCareDurationWeeks: 26, placementStartWeeksDefault: 30, placementExtendedWeeks: 8 },
+  PIG: { ovulationOffsetDays: 2, gestationDays: 114, offspringCareDurationWeeks: 4, placementStartWeeksDefault: 8, placementExtendedWeeks: 4 },
 };
 
 function getSpeciesDefaults(species: string) {
@@ -0,0 +1,196 @@
+// src/routes/calendar-feeds.ts
+// iCalendar subscription feeds — each user manages their own feeds.
+//
+// GET    /api/v1/calendar-feeds             - List my feeds and the available categories
+// POST   /api/v1/calendar-feeds             - Create a feed; the subscribe URLs are returned once
+// PATCH  /api/v1/calendar-feeds/:id         - Rename or change categories
+// POST   /api/v1/calendar-feeds/:id/rotate  - Issue a new URL (the old one stops working)
+// DELETE /api/v1/calendar-feeds/:id         - Revoke a feed
+//
+// Public (token in URL, no session):
+// GET    /api/v1/public/calendar-feeds/:token.ics
+
+import type { FastifyInstance, FastifyPluginAsync } from "fastify";
+import { getActorId } from "../utils/session.js";
+import {
+  CALENDAR_FEED_CATEGORIES,
+  createCalendarFeed,
+  listCalendarFeeds,
+  recordCalendarFeedAccess,
+  renderCalendarFeed,
+  resolveCalendarFeed,
+  revokeCalendarFeed,
+  rotateCalendarFeedToken,
+  updateCalendarFeed,
+} from "../services/calendar-feed-service.js";
+
+type FeedBody = { name?: string; categories?: unknown };
+
+function feedUrls(token: string): { url: string; webcalUrl: string } {
+  const apiBaseUrl = process.env.API_URL || process.env.APP_URL || "https://api.breederhq.com";
+  const url = `${apiBaseUrl.replace(/\/$/, "")}/api/v1/public/calendar-feeds/${token}.ics`;
+  return { url, webcalUrl: url.replace(/^https?:\/\//, "webcal://") };
+}
+
+function parseCategories(value: unknown): string[] | undefined | null {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || !value.every((c) => typeof c === "string")) return null;
+  return value;
+}
+
+function parseId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+const calendarFeedsRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
+  // -----------------------------------------------------------------------
+  // GET /api/v1/calendar-feeds
+  // -----------------------------------------------------------------------
+  app.get("/calendar-feeds", async (req, reply) => {
+    const tenantId = req.tenantId as number;
+    const actorId = getActorId(req);
+    if (!actorId) return reply.code(401).send({ error: "unauthorized" });
+
+    try {
+      const items = await listCalendarFeeds(tenantId, actorId);
+      return reply.send({ items, total: items.length, categories: CALENDAR_FEED_CATEGORIES });
+    } catch (err) {
+      req.log?.error?.({ err }, "Failed to list calendar feeds");
+      return reply.code(500).send({ error: "list_failed" });
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // POST /api/v1/calendar-feeds
+  // Body: { name, categories?: string[] }  (omitted categories = all)
+  // -----------------------------------------------------------------------
+  app.post(
+    "/calendar-feeds",
+    { config: { rateLimit: { max: 10, timeWindow: "1 minute" } } },
+    async (req, reply) => {
+      const tenantId = req.tenantId as number;
+      const actorId = getActorId(req);
+      if (!actorId) return reply.code(401).send({ error: "unauthorized" });
+
+      const body = (req.body || {}) as FeedBody;
+      const categories = parseCategories(body.categories);
+      if (categories === null) return reply.code(400).send({ error: "invalid_categories" });
+
+      try {
+        const { feed, token } = await createCalendarFeed(tenantId, actorId, { name: body.name, categories });
+        return reply.code(201).send({ feed, ...feedUrls(token) });
+      } catch (err: any) {
+        if (err?.statusCode) return reply.code(err.statusCode).send({ error: err.message });
+        req.log?.error?.({ err }, "Failed to create calendar feed");
+        return reply.code(500).send({ error: "create_failed" });
+      }
+    },
+  );
+
+  // -----------------------------------------------------------------------
+  // PATCH /api/v1/calendar-feeds/:id
+  // Body: { name?, categories? }
+  // -----------------------------------------------------------------------
+  app.patch("/calendar-feeds/:id", async (req, reply) => {
+    const tenantId = req.tenantId as number;
+    const actorId = getActorId(req);
+    if (!actorId) return reply.code(401).send({ error: "unauthorized" });
+
+    const id = parseId((req.params as { id: string }).id);
+    if (!id) return reply.code(400).send({ error: "invalid_id" });
+
+    const body = (req.body || {}) as FeedBody;
+    const categories = parseCategories(body.categories);
+    if (categories === null) return reply.code(400).send({ error: "invalid_categories" });
+
+    try {
+      const feed = await updateCalendarFeed(tenantId, actorId, id, { name: body.name, categories });
+      return reply.send({ feed });
+    } catch (err: any) {
+      if (err?.statusCode) return reply.code(err.statusCode).send({ error: err.message });
+      req.log?.error?.({ err }, "Failed to update calendar feed");
+      return reply.code(500).send({ error: "update_failed" });
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // POST /api/v1/calendar-feeds/:id/rotate
+  // -----------------------------------------------------------------------
+  app.post(
+    "/calendar-feeds/:id/rotate",
+    { config: { rateLimit: { max: 10, timeWindow: "1 minute" } } },
+    async (req, reply) => {
+      const tenantId = req.tenantId as number;
+      const actorId = getActorId(req);
+      if (!actorId) return reply.code(401).send({ error: "unauthorized" });
+
+      const id = parseId((req.params as { id: string }).id);
+      if (!id) return reply.code(400).send({ error: "invalid_id" });
+
+      try {
+        const { feed, token } = await rotateCalendarFeedToken(tenantId, actorId, id);
+        return reply.send({ feed, ...feedUrls(token) });
+      } catch (err: any) {
+        if (err?.statusCode) return reply.code(err.statusCode).send({ error: err.message });
+        req.log?.error?.({ err }, "Failed to rotate calendar feed");
+        return reply.code(500).send({ error: "rotate_failed" });
+      }
+    },
+  );
+
+  // -----------------------------------------------------------------------
+  // DELETE /api/v1/calendar-feeds/:id
+  // -----------------------------------------------------------------------
+  app.delete("/calendar-feeds/:id", async (req, reply) => {
+    const tenantId = req.tenantId as number;
+    const actorId = getActorId(req);
+    if (!actorId) return reply.code(401).send({ error: "unauthorized" });
+
+    const id = parseId((req.params as { id: string }).id);
+    if (!id) return reply.code(400).send({ error: "invalid_id" });
+
+    try {
+      await revokeCalendarFeed(tenantId, actorId, id);
+      return reply.code(204).send();
+    } catch (err: any) {
+      if (err?.statusCode) return reply.code(err.statusCode).send({ error: err.message });
+      req.log?.error?.({ err }, "Failed to revoke calendar feed");
+      return reply.code(500).send({ error: "delete_failed" });
+    }
+  });
+};
+
+/**
+ * Public feed endpoint polled by calendar apps. The token is the only
+ * credential, so unknown and revoked tokens get the same 404.
+ */
+export const publicCalendarFeedRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
+  app.get(
+    "/calendar-feeds/:file",
+    { config: { rateLimit: { max: 30, timeWindow: "1 minute" } } },
+    async (req, reply) => {
+      const { file } = req.params as { file: string };
+      const token = file.endsWith(".ics") ? file.slice(0, -4) : file;
+
+      try {
+        const feed = await resolveCalendarFeed(token);
+        if (!feed) return reply.code(404).send({ error: "calendar_feed_not_found" });
+
+        const ics = await renderCalendarFeed(feed);
+        void recordCalendarFeedAccess(feed);
+
+        return reply
+          .header("Content-Type", "text/calendar; charset=utf-8")
+          .header("Content-Disposition", 'inline; filename="breederhq.ics"')
+          .header("Cache-Control", "private, max-age=900")
+          .send(ics);
+      } catch (err) {
+        req.log?.error?.({ err }, "Failed to render calendar feed");
+        return reply.code(500).send({ error: "feed_failed" });
+      }
+    },
+  );
+};
+
+export default calendarFeedsRoutes;
@@ -12,6 +12,7 @@ import {
 import { checkQuota } from "../middleware/quota-enforcement.js";
 import { updateUsageSnapshot } from "../services/subscription/usage-service.js";
 import { activeOnly } from "../utils/query-helpers.js";
+import { normalizeCountry } from "../utils/country-codes.js";
 import { auditCreate, auditUpdate, auditDelete, type AuditContext } from "../services/audit-trail.js";
 import { logEntityActivity } from "../services/activity-log.js";
 
@@ -79,58 +80,6 @@ function deriveDisplayName(nickname: string | null, firstName: string | null, la
   return [base, lastName].filter(Boolean).join(" ").trim();
 }
 
-// Map full country names to ISO 3166-1 alpha-2 codes
-const COUNTRY_NAME_TO_CODE: Record<string, string> = {
-  "United States": "US",
-  "United States of America": "US",
-  "USA": "US",
-  "Canada": "CA",
-  "United Kingdom": "GB",
-  "UK": "GB",
-  "Australia": "AU",
-  "New Zealand": "NZ",
-  "Ireland": "IE",
-  "Germany": "DE",
-  "France": "FR",
-  "Spain": "ES",
-  "Italy": "IT",
-  "Netherlands": "NL",
-  "Belgium": "BE",
-  "Switzerland": "CH",
-  "Austria": "AT",
-  "Sweden": "SE",
-  "Norway": "NO",
-  "Denmark": "DK",
-  "Finland": "FI",
-  "Poland": "PL",
-  "Portugal": "PT",
-  "Greece": "GR",
-  "Czech Republic": "CZ",
-  "Mexico": "MX",
-  "Brazil": "BR",
-  "Argentina": "AR",
-  "Chile": "CL",
-  "Japan": "JP",
-  "China": "CN",
-  "India": "IN",
-  "South Korea": "KR",
-  "Singapore": "SG",
-  "Hong Kong": "HK",
-  "Taiwan": "TW",
-  "Israel": "IL",
-  "South Africa": "ZA",
-};
-
-function normalizeCountry(raw: any): string | null {
-  if (raw == null) return null;
-  const s = String(raw).trim();
-  if (!s) return null;
-  // If already 2-char code, return uppercase
-  if (s.length === 2) return s.toUpperCase();
-  // Try mapping from full name
-  return COUNTRY_NAME_TO_CODE[s] || null;
-}
-
 const PARTY_SELECT = {
   select: {
     name: true,
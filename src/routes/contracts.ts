@@ -7,6 +7,9 @@
  * - Send contracts to buyers
  * - Track contract status
  * - Void/resend contracts
+ *
+ * Public (no auth):
+ * - POST /api/v1/public/contracts/verify - Check an uploaded PDF against certified contracts
  */
 
 import type { FastifyInstance, FastifyPluginAsync } from "fastify";
@@ -20,6 +23,7 @@ import {
   listContracts,
   getContractEvents,
   generateContractPdf,
+  verifyContractPdf,
   type CreateContractInput,
 } from "../services/contracts/index.js";
 import { auditCreate, auditUpdate, auditDelete, type AuditContext } from "../services/audit-trail.js";
@@ -469,4 +473,47 @@ const routes: FastifyPluginAsync = async (app: FastifyInstance) => {
   });
 };
 
+/** Largest PDF accepted for verification */
+const VERIFY_MAX_BYTES = 25 * 1024 * 1024;
+
+/**
+ * Public verification of certified contract PDFs. Reveals only the title,
+ * completion date and signer names of a matching contract.
+ */
+export const publicContractVerifyRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
+  /**
+   * POST /contracts/verify
+   * Multipart upload with a single PDF file
+   */
+  app.post(
+    "/contracts/verify",
+    { config: { rateLimit: { max: 20, timeWindow: "1 minute" } } },
+    async (req, reply) => {
+      try {
+        const file = await (req as any).file({ limits: { fileSize: VERIFY_MAX_BYTES } });
+        if (!file) {
+          return reply.code(400).send({ error: "file_required" });
+        }
+
+        const buffer: Buffer = await file.toBuffer();
+        if (file.file?.truncated) {
+          return reply.code(413).send({ error: "file_too_large" });
+        }
+        if (buffer.subarray(0, 5).toString("latin1") !== "%PDF-") {
+          return reply.code(400).send({ error: "not_a_pdf" });
+        }
+
+        const result = await verifyContractPdf(new Uint8Array(buffer));
+        return reply.send(result);
+      } catch (err: any) {
+        if (err?.code === "FST_REQ_FILE_TOO_LARGE") {
+          return reply.code(413).send({ error: "file_too_large" });
+        }
+        req.log?.error?.({ err }, "Failed to verify contract PDF");
+        return reply.code(500).send({ error: "verify_failed" });
+      }
+    },
+  );
+};
+
 export default routes;
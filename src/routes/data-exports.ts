@@ -0,0 +1,151 @@
+// src/routes/data-exports.ts
+// Full tenant data export archives (DATA_EXPORT entitlement): every domain as
+// CSV or JSON, contract PDFs and stored documents, plus a manifest.
+//
+// POST   /api/v1/data-exports                - Request an export { format?: "csv"|"json", includeFiles? }
+// GET    /api/v1/data-exports                - List exports (?limit=)
+// GET    /api/v1/data-exports/:id            - Export status and manifest
+// GET    /api/v1/data-exports/:id/download   - Presigned download URL (15 minutes)
+// DELETE /api/v1/data-exports/:id            - Delete the archive before it expires
+
+import type { FastifyInstance, FastifyPluginAsync, FastifyReply, FastifyRequest } from "fastify";
+import { getActorId } from "../utils/session.js";
+import { auditSuccess } from "../services/audit.js";
+import { requirePermission } from "../middleware/require-permission.js";
+import { requireEntitlement } from "../middleware/quota-enforcement.js";
+import {
+  createDataExport,
+  deleteDataExport,
+  getDataExport,
+  getDataExportDownload,
+  listDataExports,
+} from "../services/data-export/index.js";
+
+function parseId(req: FastifyRequest): number | null {
+  const id = Number((req.params as { id: string }).id);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function sendError(req: FastifyRequest, reply: FastifyReply, err: any, fallback: string) {
+  if (err?.statusCode) {
+    const { statusCode, ...details } = err;
+    return reply.code(statusCode).send({ error: err.message, ...details });
+  }
+  req.log?.error?.({ err }, `Data export request failed: ${fallback}`);
+  return reply.code(500).send({ error: fallback });
+}
+
+const dataExportsRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
+  const preHandler = [requirePermission("staff.*"), requireEntitlement("DATA_EXPORT")];
+
+  // -----------------------------------------------------------------------
+  // POST /api/v1/data-exports
+  // -----------------------------------------------------------------------
+  app.post(
+    "/data-exports",
+    { preHandler, config: { rateLimit: { max: 5, timeWindow: "1 hour" } } },
+    async (req, reply) => {
+      const tenantId = req.tenantId as number;
+      const actorId = getActorId(req) ?? null;
+      const body = (req.body ?? {}) as { format?: string; includeFiles?: boolean };
+
+      try {
+        const exp = await createDataExport(
+          tenantId,
+          { format: body.format, includeFiles: body.includeFiles },
+          actorId
+        );
+
+        await auditSuccess(req, "DATA_EXPORT_REQUESTED", {
+          userId: actorId,
+          tenantId,
+          surface: "PLATFORM",
+          detail: { exportId: exp.id, format: exp.format, includeFiles: exp.includeFiles },
+        });
+
+        return reply.code(202).send({ export: exp });
+      } catch (err) {
+        return sendError(req, reply, err, "create_failed");
+      }
+    },
+  );
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/data-exports
+  // -----------------------------------------------------------------------
+  app.get("/data-exports", { preHandler }, async (req, reply) => {
+    const tenantId = req.tenantId as number;
+    const query = (req.query ?? {}) as { limit?: string };
+    try {
+      const items = await listDataExports(tenantId, { limit: query.limit ? Number(query.limit) : undefined });
+      return reply.send({ items, total: items.length });
+    } catch (err) {
+      return sendError(req, reply, err, "list_failed");
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/data-exports/:id
+  // -----------------------------------------------------------------------
+  app.get("/data-exports/:id", { preHandler }, async (req, reply) => {
+    const tenantId = req.tenantId as number;
+    const id = parseId(req);
+    if (!id) return reply.code(400).send({ error: "invalid_id" });
+
+    try {
+      return reply.send(await getDataExport(tenantId, id));
+    } catch (err) {
+      return sendError(req, reply, err, "get_failed");
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/data-exports/:id/download
+  // -----------------------------------------------------------------------
+  app.get("/data-exports/:id/download", { preHandler }, async (req, reply) => {
+    const tenantId = req.tenantId as number;
+    const id = parseId(req);
+    if (!id) return reply.code(400).send({ error: "invalid_id" });
+
+    try {
+      const download = await getDataExportDownload(tenantId, id);
+
+      await auditSuccess(req, "DATA_EXPORT_DOWNLOADED", {
+        userId: getActorId(req) ?? null,
+        tenantId,
+        surface: "PLATFORM",
+        detail: { exportId: id },
+      });
+
+      return reply.send(download);
+    } catch (err) {
+      return sendError(req, reply, err, "download_failed");
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // DELETE /api/v1/data-exports/:id
+  // -----------------------------------------------------------------------
+  app.delete("/data-exports/:id", { preHandler }, async (req, reply) => {
+    const tenantId = req.tenantId as number;
+    const id = parseId(req);
+    if (!id) return reply.code(400).send({ error: "invalid_id" });
+
+    try {
+      const exp = await deleteDataExport(tenantId, id);
+
+      await auditSuccess(req, "DATA_EXPORT_DELETED", {
+        userId: getActorId(req) ?? null,
+        tenantId,
+        surface: "PLATFORM",
+        detail: { exportId: id },
+      });
+
+      return reply.send({ export: exp });
+    } catch (err) {
+      return sendError(req, reply, err, "delete_failed");
+    }
+  });
+};
+
+export default dataExportsRoutes;
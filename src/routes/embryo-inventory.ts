@@ -0,0 +1,417 @@
+// src/routes/embryo-inventory.ts
+// Embryo Inventory API
+// Tracks each embryo recovered at a flush event: grade, stage, frozen storage
+// location, thaw, transfer into a recipient breeding plan, sale and shipping.
+
+import type { FastifyInstance, FastifyReply } from "fastify";
+import type { EmbryoStage, EmbryoStatus } from "@prisma/client";
+import prisma from "../prisma.js";
+import {
+  embryoInclude,
+  freezeEmbryo,
+  getEmbryo,
+  getEmbryoSummary,
+  recordDisposition,
+  recordEmbryos,
+  thawEmbryo,
+  toEmbryoResponse,
+  transferEmbryo,
+  type DispositionInput,
+  type EmbryoInput,
+  type FreezeInput,
+  type TransferInput,
+} from "../services/embryo-inventory.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+const EMBRYO_STAGES: EmbryoStage[] = [
+  "MORULA",
+  "COMPACT_MORULA",
+  "EARLY_BLASTOCYST",
+  "BLASTOCYST",
+  "EXPANDED_BLASTOCYST",
+  "HATCHED_BLASTOCYST",
+];
+const EMBRYO_STATUSES: EmbryoStatus[] = ["FRESH", "FROZEN", "THAWED", "TRANSFERRED", "SOLD", "SHIPPED", "DISCARDED"];
+const FREEZE_METHODS = ["VITRIFIED", "SLOW_FROZEN"];
+const MAX_EMBRYOS_PER_REQUEST = 100;
+
+interface EmbryoUpdateInput {
+  label?: string | null;
+  grade?: number | null;
+  stage?: EmbryoStage | null;
+  storageTank?: string | null;
+  storageCanister?: string | null;
+  strawNumber?: string | null;
+  notes?: string | null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function parseIntStrict(v: unknown): number | null {
+  const n = Number(v);
+  return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+function parsePaging(q: Record<string, unknown>) {
+  const page = Math.max(1, Number(q?.page ?? 1) || 1);
+  const limit = Math.min(100, Math.max(1, Number(q?.limit ?? 25) || 25));
+  const skip = (page - 1) * limit;
+  return { page, limit, skip };
+}
+
+/** Grade and stage checks shared by create and update; returns an error code */
+function checkQuality(input: { grade?: number | null; stage?: EmbryoStage | null }): string | null {
+  if (input.grade != null && (!Number.isInteger(input.grade) || input.grade < 1 || input.grade > 4)) {
+    return "invalid_grade";
+  }
+  if (input.stage != null && !EMBRYO_STAGES.includes(input.stage)) return "invalid_stage";
+  return null;
+}
+
+function sendServiceError(reply: FastifyReply, err: any) {
+  if (err?.statusCode) {
+    return reply.code(err.statusCode).send({ error: err.message, ...(err.details ?? {}) });
+  }
+  throw err;
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+export default async function embryoInventoryRoutes(app: FastifyInstance) {
+  // --------------------------------------------------------------------------
+  // GET /embryos - List embryos
+  // --------------------------------------------------------------------------
+  app.get<{
+    Querystring: {
+      status?: string;
+      flushEventId?: string;
+      donorId?: string;
+      tank?: string;
+      page?: string;
+      limit?: string;
+    };
+  }>("/embryos", async (req, reply) => {
+    const tenantId = (req as any).tenantId;
+    if (!tenantId) {
+      return reply.code(401).send({ error: "unauthorized" });
+    }
+
+    const q = req.query;
+    const { page, limit, skip } = parsePaging(q as Record<string, unknown>);
+
+    const where: any = { tenantId };
+
+    // Comma-separated, e.g. status=FRESH,THAWED
+    if (q.status) {
+      const statuses = q.status.split(",").map((s) => s.trim().toUpperCase());
+      where.status = { in: statuses.filter((s): s is EmbryoStatus => EMBRYO_STATUSES.includes(s as EmbryoStatus)) };
+    }
+
+    if (q.flushEventId) {
+      const flushEventId = parseIntStrict(q.flushEventId);
+      if (flushEventId) where.flushEventId = flushEventId;
+    }
+
+    if (q.donorId) {
+      const donorId = parseIntStrict(q.donorId);
+      if (donorId) where.flushEvent = { geneticDamId: donorId };
+    }
+
+    if (q.tank) {
+      where.storageTank = q.tank;
+    }
+
+    const [items, total] = await Promise.all([
+      prisma.embryo.findMany({
+        where,
+        orderBy: [{ flushEventId: "desc" }, { embryoNumber: "asc" }],
+        skip,
+        take: limit,
+        include: embryoInclude,
+      }),
+      prisma.embryo.count({ where }),
+    ]);
+
+    return reply.send({
+      items: items.map(toEmbryoResponse),
+      total,
+      page,
+      limit,
+    });
+  });
+
+  // --------------------------------------------------------------------------
+  // GET /embryos/summary - Dashboard summary stats
+  // --------------------------------------------------------------------------
+  app.get("/embryos/summary", async (req, reply) => {
+    const tenantId = (req as any).tenantId;
+    if (!tenantId) {
+      return reply.code(401).send({ error: "unauthorized" });
+    }
+
+    return reply.send(await getEmbryoSummary(tenantId));
+  });
+
+  // --------------------------------------------------------------------------
+  // GET /embryos/:id - Get a single embryo
+  // --------------------------------------------------------------------------
+  app.get<{
+    Params: { id: string };
+  }>("/embryos/:id", async (req, reply) => {
+    const tenantId = (req as any).tenantId;
+    if (!tenantId) {
+      return reply.code(401).send({ error: "unauthorized" });
+    }
+
+    const id = parseIntStrict(req.params.id);
+    if (!id) {
+      return reply.code(400).send({ error: "invalid_id" });
+    }
+
+    try {
+      return reply.send(toEmbryoResponse(await getEmbryo(tenantId, id)));
+    } catch (err) {
+      return sendServiceError(reply, err);
+    }
+  });
+
+  // --------------------------------------------------------------------------
+  // POST /flush-events/:flushEventId/embryos - Record embryos from a flush
+  // Body: { embryos: [{ grade?, stage?, label?, notes? }] } or { count }
+  // --------------------------------------------------------------------------
+  app.post<{
+    Params: { flushEventId: string };
+    Body: { embryos?: EmbryoInput[]; count?: number };
+  }>("/flush-events/:flushEventId/embryos", async (req, reply) => {
+    const tenantId = (req as any).tenantId;
+    if (!tenantId) {
+      return reply.code(401).send({ error: "unauthorized" });
+    }
+
+    const flushEventId = parseIntStrict(req.params.flushEventId);
+    if (!flushEventId) {
+      return reply.code(400).send({ error: "invalid_id" });
+    }
+
+    const body = req.body ?? {};
+    const inputs: EmbryoInput[] = Array.isArray(body.embryos)
+      ? body.embryos
+      : Array.from({ length: parseIntStrict(body.count) ?? 0 }, () => ({}));
+
+    if (inputs.length === 0) {
+      return reply.code(400).send({
+        error: "missing_required_fields",
+        required: ["embryos or count"],
+      });
+    }
+    if (inputs.length > MAX_EMBRYOS_PER_REQUEST) {
+      return reply.code(400).send({ error: "too_many_embryos", max: MAX_EMBRYOS_PER_REQUEST });
+    }
+    for (const input of inputs) {
+      const error = checkQuality(input);
+      if (error) return reply.code(400).send({ error });
+    }
+
+    try {
+      const embryos = await recordEmbryos(tenantId, flushEventId, inputs);
+      return reply.code(201).send({ items: embryos.map(toEmbryoResponse) });
+    } catch (err) {
+      return sendServiceError(reply, err);
+    }
+  });
+
+  // --------------------------------------------------------------------------
+  // PATCH /embryos/:id - Update grade, stage, label or storage location
+  // --------------------------------------------------------------------------
+  app.patch<{
+    Params: { id: string };
+    Body: EmbryoUpdateInput;
+  }>("/embryos/:id", async (req, reply) => {
+    const tenantId = (req as any).tenantId;
+    if (!tenantId) {
+      return reply.code(401).send({ error: "unauthorized" });
+    }
+
+    const id = parseIntStrict(req.params.id);
+    if (!id) {
+      return reply.code(400).send({ error: "invalid_id" });
+    }
+
+    const body = req.body ?? {};
+    const error = checkQuality(body);
+    if (error) return reply.code(400).send({ error });
+
+    const existing = await prisma.embryo.findFirst({ where: { id, tenantId }, select: { id: true } });
+    if (!existing) {
+      return reply.code(404).send({ error: "not_found" });
+    }
+
+    // Status changes go through freeze / thaw / transfer / disposition
+    const data: any = {};
+    for (const key of ["label", "grade", "stage", "storageTank", "storageCanister", "strawNumber", "notes"] as const) {
+      if (body[key] !== undefined) data[key] = body[key];
+    }
+
+    await prisma.embryo.update({ where: { id }, data });
+    return reply.send(toEmbryoResponse(await getEmbryo(tenantId, id)));
+  });
+
+  // --------------------------------------------------------------------------
+  // POST /embryos/:id/freeze - Freeze into a tank / canister / straw
+  // --------------------------------------------------------------------------
+  app.post<{
+    Params: { id: string };
+    Body: FreezeInput;
+  }>("/embryos/:id/freeze", async (req, reply) => {
+    const tenantId = (req as any).tenantId;
+    if (!tenantId) {
+      return reply.code(401).send({ error: "unauthorized" });
+    }
+
+    const id = parseIntStrict(req.params.id);
+    if (!id) {
+      return reply.code(400).send({ error: "invalid_id" });
+    }
+
+    const body = req.body ?? {};
+    if (body.freezeMethod && !FREEZE_METHODS.includes(body.freezeMethod)) {
+      return reply.code(400).send({ error: "invalid_freeze_method", allowed: FREEZE_METHODS });
+    }
+
+    try {
+      return reply.send(toEmbryoResponse(await freezeEmbryo(tenantId, id, body)));
+    } catch (err) {
+      return sendServiceError(reply, err);
+    }
+  });
+
+  // --------------------------------------------------------------------------
+  // POST /embryos/:id/thaw - Thaw a frozen embryo ahead of transfer
+  // --------------------------------------------------------------------------
+  app.post<{
+    Params: { id: string };
+    Body: { thawedAt?: string };
+  }>("/embryos/:id/thaw", async (req, reply) => {
+    const tenantId = (req as any).tenantId;
+    if (!tenantId) {
+      return reply.code(401).send({ error: "unauthorized" });
+    }
+
+    const id = parseIntStrict(req.params.id);
+    if (!id) {
+      return reply.code(400).send({ error: "invalid_id" });
+    }
+
+    try {
+      return reply.send(toEmbryoResponse(await thawEmbryo(tenantId, id, req.body?.thawedAt)));
+    } catch (err) {
+      return sendServiceError(reply, err);
+    }
+  });
+
+  // --------------------------------------------------------------------------
+  // POST /embryos/:id/transfer - Transfer into a recipient breeding plan
+  // --------------------------------------------------------------------------
+  app.post<{
+    Params: { id: string };
+    Body: TransferInput;
+  }>("/embryos/:id/transfer", async (req, reply) => {
+    const tenantId = (req as any).tenantId;
+    if (!tenantId) {
+      return reply.code(401).send({ error: "unauthorized" });
+    }
+
+    const id = parseIntStrict(req.params.id);
+    if (!id) {
+      return reply.code(400).send({ error: "invalid_id" });
+    }
+
+    const breedingPlanId = parseIntStrict(req.body?.breedingPlanId);
+    if (!breedingPlanId) {
+      return reply.code(400).send({
+        error: "missing_required_fields",
+        required: ["breedingPlanId"],
+      });
+    }
+
+    try {
+      const embryo = await transferEmbryo(tenantId, id, { breedingPlanId, transferredAt: req.body.transferredAt });
+      return reply.send(toEmbryoResponse(embryo));
+    } catch (err) {
+      return sendServiceError(reply, err);
+    }
+  });
+
+  // --------------------------------------------------------------------------
+  // POST /embryos/:id/disposition - Mark sold, shipped or discarded
+  // --------------------------------------------------------------------------
+  app.post<{
+    Params: { id: string };
+    Body: DispositionInput;
+  }>("/embryos/:id/disposition", async (req, reply) => {
+    const tenantId = (req as any).tenantId;
+    if (!tenantId) {
+      return reply.code(401).send({ error: "unauthorized" });
+    }
+
+    const id = parseIntStrict(req.params.id);
+    if (!id) {
+      return reply.code(400).send({ error: "invalid_id" });
+    }
+
+    const body = req.body;
+    if (!body?.status || !["SOLD", "SHIPPED", "DISCARDED"].includes(body.status)) {
+      return reply.code(400).send({
+        error: "invalid_status",
+        allowed: ["SOLD", "SHIPPED", "DISCARDED"],
+      });
+    }
+    if (body.salePriceCents != null && (!Number.isInteger(body.salePriceCents) || body.salePriceCents < 0)) {
+      return reply.code(400).send({ error: "invalid_sale_price" });
+    }
+
+    try {
+      return reply.send(toEmbryoResponse(await recordDisposition(tenantId, id, body)));
+    } catch (err) {
+      return sendServiceError(reply, err);
+    }
+  });
+
+  // --------------------------------------------------------------------------
+  // DELETE /embryos/:id - Remove a mistaken entry (fresh or discarded only)
+  // --------------------------------------------------------------------------
+  app.delete<{
+    Params: { id: string };
+  }>("/embryos/:id", async (req, reply) => {
+    const tenantId = (req as any).tenantId;
+    if (!tenantId) {
+      return reply.code(401).send({ error: "unauthorized" });
+    }
+
+    const id = parseIntStrict(req.params.id);
+    if (!id) {
+      return reply.code(400).send({ error: "invalid_id" });
+    }
+
+    const embryo = await prisma.embryo.findFirst({ where: { id, tenantId }, select: { status: true } });
+    if (!embryo) {
+      return reply.code(404).send({ error: "not_found" });
+    }
+    if (embryo.status !== "FRESH" && embryo.status !== "DISCARDED") {
+      return reply.code(409).send({
+        error: "embryo_in_use",
+        message: `A ${embryo.status} embryo is part of the inventory record and cannot be deleted`,
+      });
+    }
+
+    await prisma.embryo.delete({ where: { id } });
+    return reply.code(204).send();
+  });
+}
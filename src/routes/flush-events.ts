@@ -179,7 +179,7 @@ const flushEventsRoutes: FastifyPluginAsync = async (api: FastifyInstance) => {
         include: {
           Animal_FlushEvent_geneticDamIdToAnimal: { select: { id: true, name: true, sex: true, species: true } },
           Animal_FlushEvent_sireIdToAnimal: { select: { id: true, name: true, sex: true, species: true } },
-          _count: { select: { BreedingPlan: true } },
+          _count: { select: { BreedingPlan: true, embryos: true } },
         },
       }),
       prisma.flushEvent.count({ where }),
@@ -206,6 +206,7 @@ const flushEventsRoutes: FastifyPluginAsync = async (api: FastifyInstance) => {
       geneticDam: fe.Animal_FlushEvent_geneticDamIdToAnimal,
       sire: fe.Animal_FlushEvent_sireIdToAnimal,
       plansCount: fe._count.BreedingPlan,
+      embryosTracked: fe._count.embryos,
       offspringCount: offspringCounts[fe.id] ?? 0,
       Animal_FlushEvent_geneticDamIdToAnimal: undefined,
       Animal_FlushEvent_sireIdToAnimal: undefined,
@@ -239,6 +240,22 @@ const flushEventsRoutes: FastifyPluginAsync = async (api: FastifyInstance) => {
             countLive: true,
           },
         },
+        embryos: {
+          orderBy: { embryoNumber: "asc" },
+          select: {
+            id: true,
+            embryoNumber: true,
+            label: true,
+            grade: true,
+            stage: true,
+            status: true,
+            storageTank: true,
+            storageCanister: true,
+            strawNumber: true,
+            frozenAt: true,
+            breedingPlanId: true,
+          },
+        },
       },
     });
 
@@ -257,6 +274,10 @@ const flushEventsRoutes: FastifyPluginAsync = async (api: FastifyInstance) => {
       })),
       plansCount: flushEvent.BreedingPlan.length,
       offspringCount: flushEvent.BreedingPlan.reduce((sum: number, p: any) => sum + (p.countLive ?? 0), 0),
+      embryoCounts: flushEvent.embryos.reduce<Record<string, number>>((counts, e) => {
+        counts[e.status] = (counts[e.status] ?? 0) + 1;
+        return counts;
+      }, {}),
       Animal_FlushEvent_geneticDamIdToAnimal: undefined,
       Animal_FlushEvent_sireIdToAnimal: undefined,
       BreedingPlan: undefined,
@@ -311,6 +332,14 @@ const flushEventsRoutes: FastifyPluginAsync = async (api: FastifyInstance) => {
         error: { code: "validation", message: "embryosViable cannot exceed embryosRecovered" },
       });
     }
+    if (body.embryosRecovered != null) {
+      const embryoCount = await prisma.embryo.count({ where: { flushEventId: id } });
+      if (body.embryosRecovered < embryoCount) {
+        return reply.code(400).send({
+          error: { code: "validation", message: `embryosRecovered cannot be less than the ${embryoCount} embryos recorded` },
+        });
+      }
+    }
 
     const data: any = { updatedAt: new Date() };
     if (body.sireId !== undefined) data.sireId = body.sireId;
@@ -342,7 +371,14 @@ const flushEventsRoutes: FastifyPluginAsync = async (api: FastifyInstance) => {
     // Verify ownership
     const existing = await prisma.flushEvent.findFirst({
       where: { id, tenantId },
-      include: { _count: { select: { BreedingPlan: true } } },
+      include: {
+        _count: {
+          select: {
+            BreedingPlan: true,
+            embryos: { where: { status: { notIn: ["FRESH", "DISCARDED"] } } },
+          },
+        },
+      },
     });
     if (!existing) {
       return reply.code(404).send({ error: { code: "not_found", message: "Flush event not found" } });
@@ -358,6 +394,16 @@ const flushEventsRoutes: FastifyPluginAsync = async (api: FastifyInstance) => {
       });
     }
 
+    // Block deletion if embryos were frozen, sold or shipped (inventory records)
+    if (existing._count.embryos > 0) {
+      return reply.code(409).send({
+        error: {
+          code: "has_embryo_inventory",
+          message: `Cannot delete flush event: ${existing._count.embryos} embryo(s) are frozen, sold or shipped.`,
+        },
+      });
+    }
+
     await prisma.flushEvent.delete({ where: { id } });
     return reply.code(204).send();
   });
@@ -0,0 +1,333 @@
+// src/routes/imports.ts
+// Schema-driven CSV/XLSX imports for contacts, organizations, offspring,
+// vaccination records and neonatal weight logs.
+//
+// GET    /api/v1/imports/entities                 - Importable entities, fields and required context
+// GET    /api/v1/imports/templates/:entity        - CSV template (?withExamples=false)
+// POST   /api/v1/imports/jobs                     - Upload a file (multipart "file"); ?entity=&mappingId=&<context>
+// GET    /api/v1/imports/jobs                     - List jobs (?entity=&limit=)
+// GET    /api/v1/imports/jobs/:id                 - Job status and progress (?rows=true for the preview rows)
+// POST   /api/v1/imports/jobs/:id/preview         - Re-validate with { mapping?, context? }
+// POST   /api/v1/imports/jobs/:id/execute         - Start importing with { resolutions }
+// POST   /api/v1/imports/jobs/:id/resume          - Continue a failed or stalled job
+// POST   /api/v1/imports/jobs/:id/cancel          - Stop a job
+// GET    /api/v1/imports/mappings                 - Saved column mappings (?entity=)
+// POST   /api/v1/imports/mappings                 - Save a mapping { entity, name, mapping }
+// DELETE /api/v1/imports/mappings/:id             - Delete a saved mapping
+
+import type { FastifyInstance, FastifyPluginAsync, FastifyReply, FastifyRequest } from "fastify";
+import { getActorId } from "../utils/session.js";
+import { logEntityActivity } from "../services/activity-log.js";
+import { auditSuccess } from "../services/audit.js";
+import {
+  generateImportCsvTemplate,
+  IMPORT_SCHEMAS,
+  isImportEntity,
+  type ColumnMapping,
+  type ImportRowResolution,
+} from "../lib/csv-import/index.js";
+import {
+  cancelImportJob,
+  createImportJob,
+  deleteColumnMapping,
+  executeImportJob,
+  getImportJob,
+  listColumnMappings,
+  listImportEntities,
+  listImportJobs,
+  previewImportJob,
+  resumeImportJob,
+  saveColumnMapping,
+  type ImportJobContext,
+} from "../services/imports/index.js";
+
+function parseId(req: FastifyRequest): number | null {
+  const id = Number((req.params as { id: string }).id);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function sendError(req: FastifyRequest, reply: FastifyReply, err: any, fallback: string) {
+  if (err?.statusCode) {
+    const { statusCode, ...details } = err;
+    return reply.code(statusCode).send({ error: err.message, ...details });
+  }
+  req.log?.error?.({ err }, `Import request failed: ${fallback}`);
+  return reply.code(500).send({ error: fallback });
+}
+
+function isMapping(value: unknown): value is ColumnMapping {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.values(value).every((v) => v === null || typeof v === "string")
+  );
+}
+
+const RESOLUTION_ACTIONS = new Set(["skip", "update", "create_new", "link"]);
+
+function isResolutionList(value: unknown): value is ImportRowResolution[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (r) =>
+        r &&
+        Number.isInteger(r.rowNumber) &&
+        RESOLUTION_ACTIONS.has(r.action) &&
+        (r.targetId === undefined || (Number.isInteger(r.targetId) && r.targetId > 0))
+    )
+  );
+}
+
+const importsRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
+  // -----------------------------------------------------------------------
+  // GET /api/v1/imports/entities
+  // -----------------------------------------------------------------------
+  app.get("/imports/entities", async (_req, reply) => {
+    return reply.send({ entities: listImportEntities() });
+  });
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/imports/templates/:entity
+  // -----------------------------------------------------------------------
+  app.get("/imports/templates/:entity", async (req, reply) => {
+    const { entity } = req.params as { entity: string };
+    if (!isImportEntity(entity)) return reply.code(404).send({ error: "unknown_entity" });
+
+    const query = (req.query ?? {}) as { withExamples?: string };
+    const csv = generateImportCsvTemplate(IMPORT_SCHEMAS[entity], query.withExamples !== "false");
+
+    return reply
+      .header("Content-Type", "text/csv")
+      .header("Content-Disposition", `attachment; filename="${entity.replace(/_/g, "-")}-import-template.csv"`)
+      .send(csv);
+  });
+
+  // -----------------------------------------------------------------------
+  // POST /api/v1/imports/jobs
+  // Multipart: file (CSV, TSV or XLSX). Query: entity, mappingId?, plus the
+  // entity's context keys (e.g. breedingPlanId for offspring and weights)
+  // -----------------------------------------------------------------------
+  app.post(
+    "/imports/jobs",
+    { config: { rateLimit: { max: 20, timeWindow: "1 minute" } } },
+    async (req, reply) => {
+      const tenantId = req.tenantId as number;
+      const query = (req.query ?? {}) as Record<string, string | undefined>;
+      if (!isImportEntity(query.entity)) return reply.code(400).send({ error: "unknown_entity" });
+
+      const file = await (req as any).file();
+      if (!file) return reply.code(400).send({ error: "file_required" });
+
+      const context: ImportJobContext = {};
+      for (const { key } of IMPORT_SCHEMAS[query.entity].context ?? []) {
+        if (query[key] !== undefined) context[key] = Number(query[key]) || query[key]!;
+      }
+
+      try {
+        const preview = await createImportJob(
+          tenantId,
+          {
+            entity: query.entity,
+            file: await file.toBuffer(),
+            fileName: file.filename ?? null,
+            context,
+            mappingId: query.mappingId ? Number(query.mappingId) : null,
+          },
+          getActorId(req) ?? null
+        );
+        return reply.code(201).send(preview);
+      } catch (err) {
+        return sendError(req, reply, err, "upload_failed");
+      }
+    },
+  );
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/imports/jobs
+  // -----------------------------------------------------------------------
+  app.get("/imports/jobs", async (req, reply) => {
+    const tenantId = req.tenantId as number;
+    const query = (req.query ?? {}) as { entity?: string; limit?: string };
+    try {
+      const items = await listImportJobs(tenantId, {
+        entity: query.entity,
+        limit: query.limit ? Number(query.limit) : undefined,
+      });
+      return reply.send({ items, total: items.length });
+    } catch (err) {
+      return sendError(req, reply, err, "list_failed");
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/imports/jobs/:id
+  // -----------------------------------------------------------------------
+  app.get("/imports/jobs/:id", async (req, reply) => {
+    const tenantId = req.tenantId as number;
+    const id = parseId(req);
+    if (!id) return reply.code(400).send({ error: "invalid_id" });
+
+    const query = (req.query ?? {}) as { rows?: string };
+    try {
+      return reply.send(await getImportJob(tenantId, id, { includeRows: query.rows === "true" }));
+    } catch (err) {
+      return sendError(req, reply, err, "get_failed");
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // POST /api/v1/imports/jobs/:id/preview
+  // Body: { mapping?: { fieldKey: header | null }, context?: {...} }
+  // -----------------------------------------------------------------------
+  app.post("/imports/jobs/:id/preview", async (req, reply) => {
+    const tenantId = req.tenantId as number;
+    const id = parseId(req);
+    if (!id) return reply.code(400).send({ error: "invalid_id" });
+
+    const body = (req.body ?? {}) as { mapping?: unknown; context?: unknown };
+    if (body.mapping !== undefined && !isMapping(body.mapping)) {
+      return reply.code(400).send({ error: "invalid_mapping" });
+    }
+    if (body.context !== undefined && (typeof body.context !== "object" || body.context === null)) {
+      return reply.code(400).send({ error: "invalid_context" });
+    }
+
+    try {
+      const preview = await previewImportJob(tenantId, id, {
+        mapping: body.mapping as ColumnMapping | undefined,
+        context: body.context as ImportJobContext | undefined,
+      });
+      return reply.send(preview);
+    } catch (err) {
+      return sendError(req, reply, err, "preview_failed");
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // POST /api/v1/imports/jobs/:id/execute
+  // Body: { resolutions: [{ rowNumber, action, targetId? }] }
+  // -----------------------------------------------------------------------
+  app.post("/imports/jobs/:id/execute", async (req, reply) => {
+    const tenantId = req.tenantId as number;
+    const id = parseId(req);
+    if (!id) return reply.code(400).send({ error: "invalid_id" });
+
+    const body = (req.body ?? {}) as { resolutions?: unknown };
+    const resolutions = body.resolutions ?? [];
+    if (!isResolutionList(resolutions)) return reply.code(400).send({ error: "invalid_resolutions" });
+
+    try {
+      const job = await executeImportJob(tenantId, id, resolutions);
+
+      // Plan-scoped imports show on the plan's timeline; the rest are tenant-level
+      const breedingPlanId = Number(job.context.breedingPlanId);
+      if (Number.isInteger(breedingPlanId) && breedingPlanId > 0) {
+        logEntityActivity({
+          tenantId,
+          entityType: "BREEDING_PLAN",
+          entityId: breedingPlanId,
+          kind: "import_started",
+          category: "system",
+          title: `Spreadsheet import started: ${job.totalRows} ${job.entity.replace(/_/g, " ")} row(s)`,
+          actorId: getActorId(req) ?? "unknown",
+          actorName: (req as any).userName,
+        });
+      } else {
+        await auditSuccess(req, "DATA_IMPORT_STARTED", {
+          userId: getActorId(req),
+          tenantId,
+          surface: "PLATFORM",
+          detail: { jobId: job.id, entity: job.entity, totalRows: job.totalRows },
+        });
+      }
+
+      return reply.code(202).send({ job });
+    } catch (err) {
+      return sendError(req, reply, err, "execute_failed");
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // POST /api/v1/imports/jobs/:id/resume
+  // -----------------------------------------------------------------------
+  app.post("/imports/jobs/:id/resume", async (req, reply) => {
+    const tenantId = req.tenantId as number;
+    const id = parseId(req);
+    if (!id) return reply.code(400).send({ error: "invalid_id" });
+
+    try {
+      return reply.code(202).send({ job: await resumeImportJob(tenantId, id) });
+    } catch (err) {
+      return sendError(req, reply, err, "resume_failed");
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // POST /api/v1/imports/jobs/:id/cancel
+  // -----------------------------------------------------------------------
+  app.post("/imports/jobs/:id/cancel", async (req, reply) => {
+    const tenantId = req.tenantId as number;
+    const id = parseId(req);
+    if (!id) return reply.code(400).send({ error: "invalid_id" });
+
+    try {
+      return reply.send({ job: await cancelImportJob(tenantId, id) });
+    } catch (err) {
+      return sendError(req, reply, err, "cancel_failed");
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/imports/mappings
+  // -----------------------------------------------------------------------
+  app.get("/imports/mappings", async (req, reply) => {
+    const tenantId = req.tenantId as number;
+    const query = (req.query ?? {}) as { entity?: string };
+    try {
+      const items = await listColumnMappings(tenantId, query.entity);
+      return reply.send({ items, total: items.length });
+    } catch (err) {
+      return sendError(req, reply, err, "list_failed");
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // POST /api/v1/imports/mappings
+  // Body: { entity, name, mapping } — saving an existing name overwrites it
+  // -----------------------------------------------------------------------
+  app.post("/imports/mappings", async (req, reply) => {
+    const tenantId = req.tenantId as number;
+    const body = (req.body ?? {}) as { entity?: string; name?: string; mapping?: unknown };
+    if (!isMapping(body.mapping)) return reply.code(400).send({ error: "invalid_mapping" });
+
+    try {
+      const mapping = await saveColumnMapping(
+        tenantId,
+        { entity: body.entity ?? "", name: body.name ?? "", mapping: body.mapping },
+        getActorId(req) ?? null
+      );
+      return reply.send({ mapping });
+    } catch (err) {
+      return sendError(req, reply, err, "save_failed");
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // DELETE /api/v1/imports/mappings/:id
+  // -----------------------------------------------------------------------
+  app.delete("/imports/mappings/:id", async (req, reply) => {
+    const tenantId = req.tenantId as number;
+    const id = parseId(req);
+    if (!id) return reply.code(400).send({ error: "invalid_id" });
+
+    try {
+      await deleteColumnMapping(tenantId, id);
+      return reply.code(204).send();
+    } catch (err) {
+      return sendError(req, reply, err, "delete_failed");
+    }
+  });
+};
+
+export default importsRoutes;
@@ -20,6 +20,7 @@ import { activeOnly } from "../utils/query-helpers.js";
 import { auditCreate, auditUpdate, auditDelete, type AuditContext } from "../services/audit-trail.js";
 import { generateInvoicePdf } from "../services/finance/invoice-pdf-builder.js";
 import { logEntityActivity } from "../services/activity-log.js";
+import { emitInvoicePaidWebhook } from "../services/webhooks/index.js";
 
 /** Build AuditContext from a Fastify request */
 function auditCtx(req: any, tenantId: number): AuditContext {
@@ -544,6 +545,9 @@ const routes: FastifyPluginAsync = async (app: FastifyInstance) => {
       if (beforeUpdate && updated) {
         auditUpdate("INVOICE", id, beforeUpdate as any, updated as any, auditCtx(req, tenantId));
       }
+      if (beforeUpdate.status !== "paid" && updated?.status === "paid") {
+        emitInvoicePaidWebhook(tenantId, id);
+      }
 
       // If status changed to "issued", send email
       if (body.status === "issued" && beforeUpdate.status !== "issued") {
@@ -46,6 +46,13 @@ const NODE_ENV = String(process.env.NODE_ENV || "").toLowerCase();
 const IS_PROD = NODE_ENV === "production";
 const EXPOSE_DEV_TOKENS = !IS_PROD;
 
+/** HTTP status for a failed verification text (see messaging-service send errors) */
+function smsSendErrorStatus(error: string): number {
+  if (error === "sms_not_configured") return 501;
+  if (error === "invalid_phone_number" || error === "opted_out") return 400;
+  return 502;
+}
+
 // WebAuthn configuration
 const RP_ID = IS_PROD ? "breederhq.com" : "localhost";
 const RP_NAME = "BreederHQ";
@@ -212,7 +219,7 @@ export default async function marketplace2faRoutes(
     const result = await sendUserSMSVerification(userId, phoneNumber);
 
     if (!result.success) {
-      return reply.code(501).send({ error: result.error, message: "SMS verification is not yet available" });
+      return reply.code(smsSendErrorStatus(result.error)).send({ error: result.error });
     }
 
     return reply.send({
@@ -283,7 +290,7 @@ export default async function marketplace2faRoutes(
       const result = await sendUserSMSVerification(userId, user.smsPhoneNumber);
 
       if (!result.success) {
-        return reply.code(501).send({ error: result.error, message: "SMS verification is not yet available" });
+        return reply.code(smsSendErrorStatus(result.error)).send({ error: result.error });
       }
 
       return reply.send({
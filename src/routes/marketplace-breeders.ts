@@ -2,7 +2,8 @@
 // Public breeder profile endpoints - no auth required
 //
 // Endpoints:
-//   GET /api/v1/marketplace/breeders              - List published breeders (paginated)
+//   GET /api/v1/marketplace/breeders              - List published breeders (paginated;
+//                                                   near=<zip|lat,lng>&radiusMiles= for radius search)
 //   GET /api/v1/marketplace/breeders/:tenantSlug  - Read published breeder profile
 //
 // Security:
@@ -15,6 +16,13 @@ import prisma from "../prisma.js";
 import { isBlocked } from "../services/marketplace-block.js";
 import { isUserSuspended } from "../services/marketplace-flag.js";
 import { applyBoostRanking } from "../services/listing-boost-service.js";
+import {
+  boundingBox,
+  boundingBoxWhere,
+  filterByDistance,
+  resolveNearSearch,
+  roundMiles,
+} from "../services/marketplace-geo-service.js";
 
 // ============================================================================
 // Constants
@@ -199,6 +207,9 @@ interface BreederSummary {
 
   // Primary Species (for quick scanning)
   primarySpecies: string | null;
+
+  // Miles from the `near` point (radius search only)
+  distanceMiles: number | null;
 }
 
 interface BreedersListResponse {
@@ -493,7 +504,9 @@ const marketplaceBreedersRoutes: FastifyPluginAsync = async (app: FastifyInstanc
   // --------------------------------------------------------------------------
   // GET /breeders - List published breeders (PUBLIC)
   // --------------------------------------------------------------------------
-  app.get<{ Querystring: { limit?: string; offset?: string } }>("/breeders", async (req, reply) => {
+  app.get<{
+    Querystring: { limit?: string; offset?: string; near?: string; radiusMiles?: string; country?: string };
+  }>("/breeders", async (req, reply) => {
     // Parse and validate pagination params
     const limitParam = parseInt(req.query.limit || "24", 10);
     const offsetParam = parseInt(req.query.offset || "0", 10);
@@ -501,11 +514,33 @@ const marketplaceBreedersRoutes: FastifyPluginAsync = async (app: FastifyInstanc
     const limit = Math.min(Math.max(1, isNaN(limitParam) ? 24 : limitParam), 50);
     const offset = Math.max(0, isNaN(offsetParam) ? 0 : offsetParam);
 
+    // Radius search: breeders whose geocoded published location (never
+    // street-level, never hidden) is within radiusMiles of `near`
+    let near: Awaited<ReturnType<typeof resolveNearSearch>>;
+    try {
+      near = await resolveNearSearch(req.query);
+    } catch (err) {
+      const e = err as Error & { statusCode?: number; details?: Record<string, unknown> };
+      return reply.code(e.statusCode ?? 400).send({ error: e.message, ...(e.details ?? {}) });
+    }
+
+    let distanceByTenant: Map<number, number> | null = null;
+    if (near) {
+      const locations = await prisma.marketplaceBreederLocation.findMany({
+        where: boundingBoxWhere(boundingBox(near.origin, near.radiusMiles)),
+        select: { tenantId: true, latitude: true, longitude: true },
+      });
+      distanceByTenant = new Map(
+        filterByDistance(locations, near).map((m) => [m.row.tenantId, roundMiles(m.distanceMiles)])
+      );
+    }
+
     // Query all TenantSettings with marketplace-profile namespace
     // Join to Tenant to get slug and additional fields for enhanced data
     const settings = await prisma.tenantSetting.findMany({
       where: {
         namespace: NAMESPACE,
+        ...(distanceByTenant ? { tenantId: { in: [...distanceByTenant.keys()] } } : {}),
         tenant: {
           slug: { not: null },
         },
@@ -644,6 +679,7 @@ const marketplaceBreedersRoutes: FastifyPluginAsync = async (app: FastifyInstanc
 
       // Only include raw location fields if mode allows them (not hidden)
       const includeLocation = publicLocationMode && publicLocationMode !== "hidden";
+      if (distanceByTenant && !includeLocation) continue;
       const city = includeLocation && address ? safeString(address.city) : null;
       const state = includeLocation && address ? safeString(address.state) : null;
       const zip = includeLocation && address ? safeString(address.zip) : null;
@@ -756,6 +792,7 @@ const marketplaceBreedersRoutes: FastifyPluginAsync = async (app: FastifyInstanc
         averageResponseTimeHours: null, // TODO: Compute from inquiry response times
         reviewSummary: null, // TODO: Compute from reviews table when available
         primarySpecies,
+        distanceMiles: distanceByTenant?.get(tenantId) ?? null,
       };
 
       publishedBreeders.push({
@@ -765,8 +802,13 @@ const marketplaceBreedersRoutes: FastifyPluginAsync = async (app: FastifyInstanc
       });
     }
 
-    // Sort by publishedAt desc, fall back to updatedAt desc
+    // Sort nearest first for radius searches, otherwise by publishedAt desc,
+    // falling back to updatedAt desc
     publishedBreeders.sort((a, b) => {
+      if (a.summary.distanceMiles !== null && b.summary.distanceMiles !== null) {
+        const byDistance = a.summary.distanceMiles - b.summary.distanceMiles;
+        if (byDistance !== 0) return byDistance;
+      }
       // Compare publishedAt first (most recently published first)
       if (a.publishedAt && b.publishedAt) {
         return new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime();
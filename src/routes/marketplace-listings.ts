@@ -17,7 +17,7 @@
  *     DELETE /:id                   - Soft delete listing
  *
  *   Public (no auth):
- *     GET    /public/listings       - Browse/search listings
+ *     GET    /public/listings       - Browse/search listings (near=<zip|lat,lng>&radiusMiles= for radius search)
  *     GET    /public/listings/:slug - View single public listing
  */
 
@@ -25,6 +25,17 @@ import type { FastifyInstance, FastifyPluginOptions } from "fastify";
 import { requireProvider } from "../middleware/marketplace-provider-auth.js";
 import prisma from "../prisma.js";
 import { geocodeZipCode, geocodeAddress } from "../services/geocoding-service.js";
+import {
+  boundingBox,
+  boundingBoxWhere,
+  clearListingGeocode,
+  filterByDistance,
+  geocodeListing,
+  radiusForCount,
+  resolveNearSearch,
+  roundMiles,
+  touchesListingLocation,
+} from "../services/marketplace-geo-service.js";
 import {
   requiresPayment,
   shouldMarkAsFounding,
@@ -46,6 +57,19 @@ const VALID_CATEGORIES = [
 // Valid price types
 const VALID_PRICE_TYPES = ["fixed", "starting_at", "contact"] as const;
 
+// Radius searches rank at most this many bounding-box candidates; denser
+// areas are searched over a smaller radius
+const MAX_NEAR_CANDIDATES = 2000;
+const MAX_RADIUS_SHRINKS = 4;
+
+/**
+ * Geocode a listing in the background after its location was saved.
+ * Failures are retried by the marketplace-geocode-backfill job.
+ */
+function queueListingGeocode(req: any, listingId: number): void {
+  geocodeListing(listingId).catch((err) => req.log?.warn?.({ err, listingId }, "Failed to geocode listing"));
+}
+
 /**
  * Generate URL-friendly slug from title and ID
  */
@@ -335,6 +359,8 @@ export default async function marketplaceListingsRoutes(
         return finalListing;
       });
 
+      queueListingGeocode(req, result.id);
+
       return reply.code(201).send(toListingDTO(result));
     } catch (err: any) {
       req.log?.error?.({ err, providerId: provider.id }, "Failed to create listing");
@@ -664,6 +690,10 @@ export default async function marketplaceListingsRoutes(
       }
     }
 
+    // A moved listing drops out of radius search until it is geocoded again
+    const listingData = clearListingGeocode(updateData);
+    const locationChanged = touchesListingLocation(updateData);
+
     try {
       // Use transaction if tags are being updated
       if (tagIds !== null) {
@@ -671,7 +701,7 @@ export default async function marketplaceListingsRoutes(
           // 1. Update listing fields
           const updated = await tx.mktListingBreederService.update({
             where: { id: listingId },
-            data: updateData,
+            data: listingData,
           });
 
           // 2. Get current tag assignments
@@ -743,12 +773,13 @@ export default async function marketplaceListingsRoutes(
           return finalListing;
         });
 
+        if (locationChanged) queueListingGeocode(req, listingId);
         return reply.send(toListingDTO(result));
       } else {
         // No tag updates, just update listing fields
         const updated = await prisma.mktListingBreederService.update({
           where: { id: listingId },
-          data: updateData,
+          data: listingData,
           include: {
             assignments: {
               include: {
@@ -758,6 +789,7 @@ export default async function marketplaceListingsRoutes(
           },
         });
 
+        if (locationChanged) queueListingGeocode(req, listingId);
         return reply.send(toListingDTO(updated));
       }
     } catch (err: any) {
@@ -997,6 +1029,13 @@ export default async function marketplaceListingsRoutes(
    *
    * UNIFIED VIEW: Queries the unified mktListingBreederService table containing
    * both provider and breeder listings.
+   *
+   * Radius search: near=<zip|lat,lng>&radiusMiles= (default 100, max 500).
+   * Candidates come from the indexed lat/lng bounding box, then are filtered
+   * by exact distance. Results are sorted nearest first unless another sort
+   * is requested, and carry distanceMiles. Where the box holds more than
+   * MAX_NEAR_CANDIDATES listings the radius shrinks, and the response carries
+   * searchedRadiusMiles and truncated: true.
    */
   app.get("/public/listings", {
     config: { rateLimit: { max: 100, timeWindow: "1 minute" } },
@@ -1018,8 +1057,15 @@ export default async function marketplaceListingsRoutes(
     // Tenant/breeder filter - can be tenant slug or numeric ID
     const tenantIdParam = query.tenantId ? String(query.tenantId).trim() : undefined;
 
-    // Parse sort
-    const sortParam = query.sort || "-publishedAt";
+    let near;
+    try {
+      near = await resolveNearSearch(query);
+    } catch (err: any) {
+      return reply.code(err.statusCode ?? 400).send({ error: err.message, ...(err.details ?? {}) });
+    }
+
+    // Parse sort (nearest first by default for radius searches)
+    const sortParam = query.sort || (near ? "distance" : "-publishedAt");
 
     try {
       // Build where clause for unified table
@@ -1072,37 +1118,82 @@ export default async function marketplaceListingsRoutes(
         orderBy = [{ publishedAt: "desc" }]; // Default
       }
 
-      // Query unified table with pagination
-      const [listings, total] = await Promise.all([
-        prisma.mktListingBreederService.findMany({
-          where,
-          orderBy,
-          skip,
-          take: limit,
-          include: {
-            provider: {
-              select: {
-                id: true,
-                businessName: true,
-                logoUrl: true,
-                coverImageUrl: true,
-                averageRating: true,
-                totalReviews: true,
-                city: true,
-                state: true,
-              },
-            },
-            tenant: {
-              select: {
-                id: true,
-                name: true,
-                slug: true,
-              },
-            },
+      const include = {
+        provider: {
+          select: {
+            id: true,
+            businessName: true,
+            logoUrl: true,
+            coverImageUrl: true,
+            averageRating: true,
+            totalReviews: true,
+            city: true,
+            state: true,
           },
-        }),
-        prisma.mktListingBreederService.count({ where }),
-      ]);
+        },
+        tenant: {
+          select: {
+            id: true,
+            name: true,
+            slug: true,
+          },
+        },
+      };
+
+      let listings;
+      let total;
+      const distanceById = new Map<number, number>();
+
+      let searchedRadiusMiles: number | undefined;
+
+      if (near) {
+        // Prefilter on the lat/lng index, then apply the exact radius. When
+        // the box holds too many rows, shrink the radius so the candidates
+        // ranked are the nearest ones rather than the first by sort order.
+        let area = near;
+        const boxWhere = () => ({ ...where, ...boundingBoxWhere(boundingBox(area.origin, area.radiusMiles)) });
+        let inBox = await prisma.mktListingBreederService.count({ where: boxWhere() });
+        for (let i = 0; inBox > MAX_NEAR_CANDIDATES && i < MAX_RADIUS_SHRINKS; i++) {
+          area = { ...area, radiusMiles: radiusForCount(area.radiusMiles, inBox, MAX_NEAR_CANDIDATES) };
+          inBox = await prisma.mktListingBreederService.count({ where: boxWhere() });
+        }
+        searchedRadiusMiles = area.radiusMiles;
+
+        const candidates = await prisma.mktListingBreederService.findMany({
+          where: boxWhere(),
+          orderBy,
+          select: { id: true, latitude: true, longitude: true },
+          take: MAX_NEAR_CANDIDATES,
+        });
+        const matches = filterByDistance(candidates, area);
+        if (sortParam !== "distance") {
+          // Keep the requested database order
+          const order = new Map(candidates.map((c, i) => [c.id, i]));
+          matches.sort((a, b) => order.get(a.row.id)! - order.get(b.row.id)!);
+        }
+        for (const match of matches) distanceById.set(match.row.id, roundMiles(match.distanceMiles));
+
+        total = matches.length;
+        const pageIds = matches.slice(skip, skip + limit).map((m) => m.row.id);
+        const rows = await prisma.mktListingBreederService.findMany({
+          where: { id: { in: pageIds } },
+          include,
+        });
+        const byId = new Map(rows.map((r) => [r.id, r]));
+        listings = pageIds.map((id) => byId.get(id)).filter(Boolean);
+      } else {
+        // Query unified table with pagination
+        [listings, total] = await Promise.all([
+          prisma.mktListingBreederService.findMany({
+            where,
+            orderBy,
+            skip,
+            take: limit,
+            include,
+          }),
+          prisma.mktListingBreederService.count({ where }),
+        ]);
+      }
 
       // Transform to public DTO
       const items = listings.map((listing) => {
@@ -1156,6 +1247,7 @@ export default async function marketplaceListingsRoutes(
           state: listing.state,
           country: listing.country || "US",
           publishedAt: listing.publishedAt,
+          distanceMiles: distanceById.get(listing.id) ?? null,
           viewCount: listing.viewCount || 0,
           inquiryCount: listing.inquiryCount || 0,
           provider: providerInfo,
@@ -1169,6 +1261,13 @@ export default async function marketplaceListingsRoutes(
         page,
         limit,
         hasMore: skip + items.length < total,
+        // Set when a dense area was searched over less than the requested radius
+        ...(near &&
+          searchedRadiusMiles !== undefined &&
+          searchedRadiusMiles < near.radiusMiles && {
+            searchedRadiusMiles: roundMiles(searchedRadiusMiles),
+            truncated: true,
+          }),
       });
     } catch (err: any) {
       req.log?.error?.({ err }, "Failed to browse listings");
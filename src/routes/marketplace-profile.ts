@@ -15,6 +15,7 @@ import {
   validateLegalAcceptancePayload,
   writeLegalAcceptance,
 } from "../services/marketplace-legal-service.js";
+import { syncBreederLocation } from "../services/marketplace-geo-service.js";
 
 // ============================================================================
 // Constants
@@ -476,6 +477,11 @@ const marketplaceProfileRoutes: FastifyPluginAsync = async (app: FastifyInstance
 
     await writeProfileSetting(tenantId, updated, getActorId(req));
 
+    // Geocode the published city/state/zip for radius search in the background
+    syncBreederLocation(tenantId).catch((err) =>
+      req.log.warn({ err, tenantId }, "Failed to geocode marketplace profile")
+    );
+
     return reply.send({
       ok: true,
       publishedAt: now,
@@ -745,6 +751,7 @@ const marketplaceProfileRoutes: FastifyPluginAsync = async (app: FastifyInstance
       };
 
       await writeProfileSetting(tenantId, updated, getActorId(req));
+      await syncBreederLocation(tenantId);
 
       return reply.send({
         ok: true,
@@ -0,0 +1,218 @@
+// src/routes/marketplace-saved-searches.ts
+/**
+ * Marketplace Saved Searches Routes
+ *
+ * Saved searches over service, animal and breeding listings, with
+ * new-match alerts by email and push (see saved-search-alerts job).
+ *
+ * Endpoints:
+ *   GET    /saved-searches              - List user's saved searches
+ *   POST   /saved-searches              - Save a search { name, target, filters, frequency?, emailEnabled?, pushEnabled? }
+ *   PATCH  /saved-searches/:id          - Rename, change filters or alert settings
+ *   DELETE /saved-searches/:id          - Delete a saved search
+ *   GET    /saved-searches/:id/matches  - Matches the next alert would include
+ *
+ * All endpoints require authenticated BHQ user (via marketplace session).
+ * Saving a search requires a verified email address.
+ */
+
+import type { FastifyInstance, FastifyPluginOptions, FastifyRequest, FastifyReply } from "fastify";
+import { parseVerifiedSession } from "../utils/session.js";
+import prisma from "../prisma.js";
+import { savedSearchCreateSchema, savedSearchUpdateSchema } from "../validation/saved-searches.js";
+import {
+  createSavedSearch,
+  findSavedSearchMatches,
+  MAX_SAVED_SEARCHES_PER_USER,
+  serializeSavedSearch,
+  updateSavedSearch,
+} from "../services/saved-search-service.js";
+
+/**
+ * Middleware to require marketplace session (BHQ User auth).
+ * Sets req.bhqUserId (string CUID) on success.
+ */
+async function requireBhqAuth(req: FastifyRequest, reply: FastifyReply): Promise<void> {
+  const session = parseVerifiedSession(req, "MARKETPLACE");
+  if (!session) {
+    reply.code(401).send({
+      error: "unauthorized",
+      message: "Authentication required. Please log in.",
+    });
+    return;
+  }
+  (req as any).bhqUserId = session.userId; // CUID string
+}
+
+/**
+ * Middleware to require verified email address.
+ * Must be used after requireBhqAuth (requires bhqUserId on request).
+ */
+async function requireEmailVerified(req: FastifyRequest, reply: FastifyReply): Promise<void> {
+  const bhqUserId = (req as any).bhqUserId;
+  if (!bhqUserId) return;
+
+  const user = await prisma.user.findUnique({
+    where: { id: bhqUserId },
+    select: { emailVerifiedAt: true },
+  });
+
+  if (!user) {
+    reply.code(401).send({
+      error: "unauthorized",
+      message: "User not found.",
+    });
+    return;
+  }
+
+  if (!user.emailVerifiedAt) {
+    reply.code(403).send({
+      error: "email_verification_required",
+      message: "Please verify your email address to use this feature.",
+    });
+    return;
+  }
+}
+
+function parseId(raw: unknown): number | null {
+  const id = parseInt(String(raw), 10);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+export default async function marketplaceSavedSearchRoutes(
+  app: FastifyInstance,
+  _opts: FastifyPluginOptions
+) {
+  /**
+   * GET /saved-searches - List user's saved searches, newest first
+   */
+  app.get("/saved-searches", {
+    preHandler: requireBhqAuth,
+    config: { rateLimit: { max: 100, timeWindow: "1 minute" } },
+  }, async (req, reply) => {
+    const bhqUserId = (req as any).bhqUserId;
+
+    try {
+      const searches = await prisma.marketplaceSavedSearch.findMany({
+        where: { bhqUserId },
+        orderBy: { createdAt: "desc" },
+      });
+      return reply.send({
+        items: searches.map(serializeSavedSearch),
+        total: searches.length,
+        limit: MAX_SAVED_SEARCHES_PER_USER,
+      });
+    } catch (err: any) {
+      req.log?.error?.({ err }, "Failed to list saved searches");
+      return reply.code(500).send({ error: "list_failed", message: "Failed to load saved searches." });
+    }
+  });
+
+  /**
+   * POST /saved-searches - Save a search
+   *
+   * `near` is geocoded once here; alerts use the stored point.
+   */
+  app.post("/saved-searches", {
+    preHandler: [requireBhqAuth, requireEmailVerified],
+    config: { rateLimit: { max: 30, timeWindow: "1 minute" } },
+  }, async (req, reply) => {
+    const bhqUserId = (req as any).bhqUserId;
+    const parsed = savedSearchCreateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: "validation_error", details: parsed.error.flatten() });
+    }
+
+    try {
+      const search = await createSavedSearch(bhqUserId, parsed.data);
+      return reply.code(201).send({ ok: true, savedSearch: serializeSavedSearch(search) });
+    } catch (err: any) {
+      if (err.statusCode) {
+        return reply.code(err.statusCode).send({ error: err.message, ...(err.details ?? {}) });
+      }
+      req.log?.error?.({ err }, "Failed to save search");
+      return reply.code(500).send({ error: "save_failed", message: "Failed to save search." });
+    }
+  });
+
+  /**
+   * PATCH /saved-searches/:id - Update a saved search
+   *
+   * New filters only alert on listings published after the change.
+   */
+  app.patch("/saved-searches/:id", {
+    preHandler: requireBhqAuth,
+    config: { rateLimit: { max: 30, timeWindow: "1 minute" } },
+  }, async (req, reply) => {
+    const bhqUserId = (req as any).bhqUserId;
+    const id = parseId((req.params as any).id);
+    if (!id) return reply.code(400).send({ error: "invalid_id", message: "Invalid saved search ID." });
+
+    const parsed = savedSearchUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: "validation_error", details: parsed.error.flatten() });
+    }
+
+    try {
+      const search = await updateSavedSearch(bhqUserId, id, parsed.data);
+      return reply.send({ ok: true, savedSearch: serializeSavedSearch(search) });
+    } catch (err: any) {
+      if (err.statusCode) {
+        return reply.code(err.statusCode).send({ error: err.message, ...(err.details ?? {}) });
+      }
+      req.log?.error?.({ err, id }, "Failed to update saved search");
+      return reply.code(500).send({ error: "update_failed", message: "Failed to update saved search." });
+    }
+  });
+
+  /**
+   * DELETE /saved-searches/:id - Delete a saved search
+   */
+  app.delete("/saved-searches/:id", {
+    preHandler: requireBhqAuth,
+    config: { rateLimit: { max: 30, timeWindow: "1 minute" } },
+  }, async (req, reply) => {
+    const bhqUserId = (req as any).bhqUserId;
+    const id = parseId((req.params as any).id);
+    if (!id) return reply.code(400).send({ error: "invalid_id", message: "Invalid saved search ID." });
+
+    try {
+      const { count } = await prisma.marketplaceSavedSearch.deleteMany({ where: { id, bhqUserId } });
+      if (count === 0) {
+        return reply.code(404).send({ error: "not_found", message: "Saved search not found." });
+      }
+      return reply.send({ ok: true, message: "Saved search deleted." });
+    } catch (err: any) {
+      req.log?.error?.({ err, id }, "Failed to delete saved search");
+      return reply.code(500).send({ error: "delete_failed", message: "Failed to delete saved search." });
+    }
+  });
+
+  /**
+   * GET /saved-searches/:id/matches - Listings published since the last
+   * alert check, i.e. what the next alert will include
+   */
+  app.get("/saved-searches/:id/matches", {
+    preHandler: requireBhqAuth,
+    config: { rateLimit: { max: 30, timeWindow: "1 minute" } },
+  }, async (req, reply) => {
+    const bhqUserId = (req as any).bhqUserId;
+    const id = parseId((req.params as any).id);
+    if (!id) return reply.code(400).send({ error: "invalid_id", message: "Invalid saved search ID." });
+
+    try {
+      const search = await prisma.marketplaceSavedSearch.findFirst({ where: { id, bhqUserId } });
+      if (!search) {
+        return reply.code(404).send({ error: "not_found", message: "Saved search not found." });
+      }
+      const { total, items } = await findSavedSearchMatches(search, {
+        since: search.lastCheckedAt,
+        until: new Date(),
+      });
+      return reply.send({ since: search.lastCheckedAt, total, items });
+    } catch (err: any) {
+      req.log?.error?.({ err, id }, "Failed to load saved search matches");
+      return reply.code(500).send({ error: "matches_failed", message: "Failed to load matches." });
+    }
+  });
+}
@@ -38,6 +38,13 @@ const NODE_ENV = String(process.env.NODE_ENV || "").toLowerCase();
 const IS_PROD = NODE_ENV === "production";
 const EXPOSE_DEV_TOKENS = !IS_PROD;
 
+/** HTTP status for a failed verification text (see messaging-service send errors) */
+function smsSendErrorStatus(error: string): number {
+  if (error === "sms_not_configured") return 501;
+  if (error === "invalid_phone_number" || error === "opted_out") return 400;
+  return 502;
+}
+
 // Package prices in cents
 const PACKAGE_PRICES = {
   BREEDER_VERIFIED: 14900, // $149
@@ -87,7 +94,7 @@ export default async function marketplaceVerificationRoutes(
     const result = await sendProviderPhoneVerification(provider.id, phoneNumber);
 
     if (!result.success) {
-      return reply.code(501).send({ error: result.error, message: "SMS verification is not yet available" });
+      return reply.code(smsSendErrorStatus(result.error)).send({ error: result.error });
     }
 
     return reply.send({
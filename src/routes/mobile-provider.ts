@@ -21,6 +21,7 @@
 import type { FastifyInstance, FastifyPluginOptions } from "fastify";
 import prisma from "../prisma.js";
 import { requireMobileProvider } from "../middleware/mobile-provider-auth.js";
+import { clearListingGeocode, geocodeListing, touchesListingLocation } from "../services/marketplace-geo-service.js";
 
 export default async function mobileProviderRoutes(
   app: FastifyInstance,
@@ -286,9 +287,13 @@ export default async function mobileProviderRoutes(
     try {
       const updated = await prisma.mktListingBreederService.update({
         where: { id: listingId },
-        data,
+        data: clearListingGeocode(data),
       });
 
+      if (touchesListingLocation(data)) {
+        geocodeListing(listingId).catch((err) => req.log?.warn?.({ err, listingId }, "Failed to geocode listing"));
+      }
+
       return reply.send({ ok: true, listing: updated });
     } catch (err: unknown) {
       req.log?.error?.({ err, listingId }, "Failed to update listing");
@@ -9,8 +9,18 @@
  * Ephemeral notifications (messages, invoices) are fetched from their own endpoints
  */
 
-import type { FastifyInstance, FastifyPluginAsync } from "fastify";
+import type { FastifyInstance, FastifyPluginAsync, FastifyReply, FastifyRequest } from "fastify";
+import type { NotificationDeliveryMode, UserNotificationPreferences } from "@prisma/client";
 import prisma from "../prisma.js";
+import { confirmUserPhoneVerification, startUserPhoneVerification } from "../services/messaging/index.js";
+import {
+  getNotificationEscalationPolicy,
+  updateNotificationEscalationPolicy,
+} from "../services/notification-delivery.js";
+import { isValidTimeZone, parseClockTime } from "../services/notification-policy.js";
+import { requirePermission } from "../middleware/require-permission.js";
+import { getActorId } from "../utils/session.js";
+import { auditSuccess } from "../services/audit.js";
 
 // ────────────────────────────────────────────────────────────────────────────
 // Utils
@@ -34,6 +44,96 @@ async function assertUser(req: any, reply: any): Promise<string | null> {
   return userId;
 }
 
+/**
+ * Preference toggles a user may set directly. The phone number and its
+ * verification state change only through the /preferences/phone endpoints.
+ */
+const PREFERENCE_TOGGLES = [
+  "vaccinationExpiring",
+  "vaccinationOverdue",
+  "breedingTimeline",
+  "pregnancyCheck",
+  "foalingApproaching",
+  "heatCycleExpected",
+  "marketplaceInquiry",
+  "waitlistSignup",
+  "microchipRenewal",
+  "geneticCarrierWarning",
+  "geneticPrebreeding",
+  "geneticRegistration",
+  "geneticMissing",
+  "geneticIncomplete",
+  "geneticRecommended",
+  "emailEnabled",
+  "smsEnabled",
+  "whatsappEnabled",
+  "pushEnabled",
+] as const;
+
+type PreferenceToggle = (typeof PREFERENCE_TOGGLES)[number];
+
+const DELIVERY_MODES: NotificationDeliveryMode[] = ["IMMEDIATE", "DAILY_DIGEST", "WEEKLY_DIGEST"];
+
+type DeliveryPolicyUpdate = Partial<
+  Pick<
+    UserNotificationPreferences,
+    "deliveryMode" | "digestHour" | "digestWeekday" | "quietHoursStart" | "quietHoursEnd" | "timeZone"
+  >
+>;
+
+/**
+ * Validate the digest / quiet hours / time zone fields of a preferences
+ * update. Quiet hours and time zone accept null to clear them.
+ */
+function parseDeliveryPolicy(raw: Record<string, unknown>): { data: DeliveryPolicyUpdate } | { error: string; field: string } {
+  const data: DeliveryPolicyUpdate = {};
+
+  if (raw.deliveryMode !== undefined) {
+    if (!DELIVERY_MODES.includes(raw.deliveryMode as NotificationDeliveryMode)) {
+      return { error: "invalid_preference", field: "deliveryMode" };
+    }
+    data.deliveryMode = raw.deliveryMode as NotificationDeliveryMode;
+  }
+  for (const [field, max] of [["digestHour", 23], ["digestWeekday", 6]] as const) {
+    const value = raw[field];
+    if (value === undefined) continue;
+    if (!Number.isInteger(value) || (value as number) < 0 || (value as number) > max) {
+      return { error: "invalid_preference", field };
+    }
+    data[field] = value as number;
+  }
+  for (const field of ["quietHoursStart", "quietHoursEnd"] as const) {
+    const value = raw[field];
+    if (value === undefined) continue;
+    if (value !== null && (typeof value !== "string" || parseClockTime(value) === null)) {
+      return { error: "invalid_preference", field };
+    }
+    data[field] = value as string | null;
+  }
+  if (raw.timeZone !== undefined) {
+    if (raw.timeZone !== null && (typeof raw.timeZone !== "string" || !isValidTimeZone(raw.timeZone))) {
+      return { error: "invalid_preference", field: "timeZone" };
+    }
+    data.timeZone = raw.timeZone as string | null;
+  }
+
+  return { data };
+}
+
+function sendError(req: FastifyRequest, reply: FastifyReply, err: any, fallback: string) {
+  if (err?.statusCode) {
+    const { statusCode, ...details } = err;
+    return reply.code(statusCode).send({ error: err.message, ...details });
+  }
+  req.log?.error?.({ err }, `Notification request failed: ${fallback}`);
+  return reply.code(500).send({ error: fallback });
+}
+
+function serializePreferences(prefs: UserNotificationPreferences) {
+  const { phoneCodeHash: _hash, ...rest } = prefs;
+  return rest;
+}
+
 // ────────────────────────────────────────────────────────────────────────────
 // Routes
 // ────────────────────────────────────────────────────────────────────────────
@@ -309,7 +409,7 @@ const notificationsRoutes: FastifyPluginAsync = async (app: FastifyInstance) =>
       });
     }
 
-    return reply.send({ preferences: prefs });
+    return reply.send({ preferences: serializePreferences(prefs) });
   });
 
   /**
@@ -323,19 +423,21 @@ const notificationsRoutes: FastifyPluginAsync = async (app: FastifyInstance) =>
     const userId = await assertUser(req, reply);
     if (!userId) return;
 
-    const body = req.body as {
-      vaccinationExpiring?: boolean;
-      vaccinationOverdue?: boolean;
-      breedingTimeline?: boolean;
-      pregnancyCheck?: boolean;
-      foalingApproaching?: boolean;
-      heatCycleExpected?: boolean;
-      marketplaceInquiry?: boolean;
-      waitlistSignup?: boolean;
-      emailEnabled?: boolean;
-      smsEnabled?: boolean;
-      pushEnabled?: boolean;
-    };
+    const raw = (req.body ?? {}) as Record<string, unknown>;
+    const toggles: Partial<Record<PreferenceToggle, boolean>> = {};
+    for (const key of PREFERENCE_TOGGLES) {
+      const value = raw[key];
+      if (value === undefined) continue;
+      if (typeof value !== "boolean") {
+        return reply.code(400).send({ error: "invalid_preference", field: key });
+      }
+      toggles[key] = value;
+    }
+    const policy = parseDeliveryPolicy(raw);
+    if ("error" in policy) {
+      return reply.code(400).send(policy);
+    }
+    const body = { ...toggles, ...policy.data };
 
     // Get or create preferences
     let prefs = await prisma.userNotificationPreferences.findUnique({
@@ -353,13 +455,129 @@ const notificationsRoutes: FastifyPluginAsync = async (app: FastifyInstance) =>
       });
     } else {
       // Update existing
+      const previousMode = prefs.deliveryMode;
       prefs = await prisma.userNotificationPreferences.update({
         where: { userId },
         data: body,
       });
+
+      // Leaving digest mode: send what's already bundled on the next dispatch run
+      if (previousMode !== "IMMEDIATE" && prefs.deliveryMode === "IMMEDIATE") {
+        await prisma.notificationDeliveryQueue.updateMany({
+          where: { userId, reason: "DIGEST" },
+          data: { deliverAfter: new Date() },
+        });
+      }
+    }
+
+    return reply.send({ preferences: serializePreferences(prefs) });
+  });
+
+  /**
+   * POST /api/v1/notifications/preferences/phone
+   * Set the number for SMS/WhatsApp notifications and text it a 6-digit code.
+   * The number is unverified (no texts are sent to it) until confirmed.
+   *
+   * Body: { phoneNumber }
+   */
+  app.post("/notifications/preferences/phone", {
+    config: { rateLimit: { max: 3, timeWindow: "1 minute" } },
+  }, async (req, reply) => {
+    const tenantId = await assertTenant(req, reply);
+    if (!tenantId) return;
+
+    const userId = await assertUser(req, reply);
+    if (!userId) return;
+
+    const { phoneNumber } = (req.body ?? {}) as { phoneNumber?: string };
+    if (!phoneNumber || typeof phoneNumber !== "string") {
+      return reply.code(400).send({ error: "phone_number_required" });
     }
 
-    return reply.send({ preferences: prefs });
+    const result = await startUserPhoneVerification(tenantId, userId, phoneNumber);
+    if (!result.success) {
+      const status =
+        result.error === "sms_not_configured" ? 501
+        : result.error === "too_many_requests" ? 429
+        : result.error === "send_failed" ? 502
+        : 400;
+      return reply.code(status).send({ error: result.error });
+    }
+
+    return reply.send({
+      ok: true,
+      phoneNumber: result.phoneNumber,
+      expiresAt: result.expiresAt,
+      ...(result.code ? { dev_code: result.code } : {}),
+    });
+  });
+
+  /**
+   * POST /api/v1/notifications/preferences/phone/verify
+   * Confirm the code sent to the pending number.
+   *
+   * Body: { code }
+   */
+  app.post("/notifications/preferences/phone/verify", {
+    config: { rateLimit: { max: 5, timeWindow: "1 minute" } },
+  }, async (req, reply) => {
+    const tenantId = await assertTenant(req, reply);
+    if (!tenantId) return;
+
+    const userId = await assertUser(req, reply);
+    if (!userId) return;
+
+    const { code } = (req.body ?? {}) as { code?: string };
+    if (!code || typeof code !== "string") {
+      return reply.code(400).send({ error: "code_required" });
+    }
+
+    const result = await confirmUserPhoneVerification(userId, code);
+    if (!result.success) {
+      return reply.code(400).send({ error: result.error });
+    }
+
+    return reply.send({ ok: true, phoneNumber: result.phoneNumber, phoneVerified: true });
+  });
+
+  /**
+   * GET /api/v1/notifications/escalation-policy
+   * Tenant escalation policy for unread overdue notifications
+   */
+  app.get("/notifications/escalation-policy", async (req, reply) => {
+    const tenantId = await assertTenant(req, reply);
+    if (!tenantId) return;
+
+    const policy = await getNotificationEscalationPolicy(tenantId);
+    return reply.send({ policy });
+  });
+
+  /**
+   * PUT /api/v1/notifications/escalation-policy
+   * Partial update. Body: { enabled?, afterHours?, types?, chain? } where
+   * chain is the ordered staff user ids tried before the owners.
+   */
+  app.put("/notifications/escalation-policy", { preHandler: requirePermission("staff.*") }, async (req, reply) => {
+    const tenantId = await assertTenant(req, reply);
+    if (!tenantId) return;
+
+    const actorId = getActorId(req) ?? null;
+    const body = (req.body ?? {}) as Record<string, unknown>;
+
+    try {
+      const policy = await updateNotificationEscalationPolicy(tenantId, body, actorId);
+
+      await auditSuccess(req, "NOTIFICATION_ESCALATION_POLICY_UPDATED", {
+        userId: actorId,
+        tenantId,
+        surface: "PLATFORM",
+        detail: { fields: Object.keys(body) },
+      });
+
+      return reply.send({ policy });
+    } catch (err) {
+      return sendError(req, reply, err, "update_escalation_policy_failed");
+    }
   });
 };
 
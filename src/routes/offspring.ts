@@ -12,6 +12,7 @@ import {
 import prismaClient from "../prisma.js";
 import { auditCreate, auditUpdate, auditDelete, auditArchive, auditRestore, type AuditContext } from "../services/audit-trail.js";
 import { logEntityActivity } from "../services/activity-log.js";
+import { emitWebhookEvent } from "../services/webhooks/index.js";
 
 /** Build AuditContext from a Fastify request */
 function auditCtx(req: any, tenantId: number): AuditContext {
@@ -464,6 +465,9 @@ const OFFSPRING_PLAN_INCLUDE = {
   },
 } as const;
 
+/** Offspring fields whose changes emit the offspring.status_changed webhook */
+const OFFSPRING_WEBHOOK_STATUS_FIELDS = ["status", "lifeState", "placementState", "keeperIntent"] as const;
+
 /* ========= router ========= */
 
 const offspringRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
@@ -1128,6 +1132,27 @@ const offspringRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
         actorId: ctx.userId,
         actorName: ctx.userName,
       });
+
+      const statusChanges = Object.fromEntries(
+        OFFSPRING_WEBHOOK_STATUS_FIELDS.filter((f) => existing[f] !== updated[f]).map((f) => [
+          f,
+          { from: existing[f], to: updated[f] },
+        ])
+      );
+      if (Object.keys(statusChanges).length > 0) {
+        emitWebhookEvent(tenantId, "offspring.status_changed", {
+          offspring: {
+            id: updated.id,
+            name: updated.name,
+            breedingPlanId: updated.breedingPlanId,
+            status: updated.status,
+            lifeState: updated.lifeState,
+            placementState: updated.placementState,
+            keeperIntent: updated.keeperIntent,
+          },
+          changes: statusChanges,
+        });
+      }
     }
 
     // Trigger rule execution for updated offspring
@@ -8,6 +8,7 @@ import {
   IdempotencyConflictError,
 } from "../services/finance/idempotency.js";
 import { createPaymentAndRecalculate } from "../services/finance/payment-service.js";
+import { emitInvoicePaidWebhook } from "../services/webhooks/index.js";
 import { renderPaymentReceiptEmail, renderBreederPaymentNotification } from "../services/email-templates.js";
 import { sendEmail } from "../services/email-service.js";
 
@@ -112,6 +113,8 @@ const routes: FastifyPluginAsync = async (app: FastifyInstance) => {
       // Store idempotency key
       await storeIdempotencyKey(prisma, tenantId, idempotencyKey, requestHash, result);
 
+      emitInvoicePaidWebhook(tenantId, invoiceId);
+
       // Fire-and-forget: send payment notification emails
       (async () => {
         try {
@@ -288,6 +288,13 @@ const routes: FastifyPluginAsync = async (app: FastifyInstance) => {
     } catch (err: any) {
       req.log?.error?.({ err }, "Failed to sign contract");
 
+      if (err.statusCode === 409) {
+        return reply.code(409).send({
+          error: "contract_content_mismatch",
+          message: err.message,
+        });
+      }
+
       if (err.message.includes("not allowed for your subscription")) {
         return reply.code(403).send({
           error: "signature_type_not_allowed",
@@ -0,0 +1,75 @@
+// src/routes/profit-loss.ts
+// Profit & loss per breeding plan (litter), offspring, animal and program.
+//
+// GET /api/v1/finance/reports/profit-loss          - Report (?from=&to=, default: this calendar year)
+// GET /api/v1/finance/reports/profit-loss/export   - CSV of one view (?view=plans|offspring|animals|programs&from=&to=)
+
+import type { FastifyInstance, FastifyPluginAsync, FastifyReply, FastifyRequest } from "fastify";
+import { requirePermission } from "../middleware/require-permission.js";
+import { getProfitLossReport } from "../services/finance/profit-loss-service.js";
+import { PROFIT_LOSS_VIEWS, profitLossCsv, type ProfitLossView } from "../services/finance/profit-loss.js";
+
+type RangeQuery = { from?: string; to?: string };
+
+/** from/to as ISO dates; `to` is exclusive. Defaults to the current UTC calendar year. */
+function parseRange(query: RangeQuery): { from: Date; to: Date } | null {
+  const year = new Date().getUTCFullYear();
+  const from = query.from ? new Date(query.from) : new Date(Date.UTC(year, 0, 1));
+  const to = query.to ? new Date(query.to) : new Date(Date.UTC(year + 1, 0, 1));
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) return null;
+  return { from, to };
+}
+
+function sendError(req: FastifyRequest, reply: FastifyReply, err: any, fallback: string) {
+  if (err?.statusCode) {
+    const { statusCode, ...details } = err;
+    return reply.code(statusCode).send({ error: err.message, ...details });
+  }
+  req.log?.error?.({ err }, `Profit & loss request failed: ${fallback}`);
+  return reply.code(500).send({ error: fallback });
+}
+
+const profitLossRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
+  const preHandler = [requirePermission("staff.*")];
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/finance/reports/profit-loss
+  // -----------------------------------------------------------------------
+  app.get("/finance/reports/profit-loss", { preHandler }, async (req, reply) => {
+    const range = parseRange((req.query ?? {}) as RangeQuery);
+    if (!range) return reply.code(400).send({ error: "invalid_date" });
+
+    try {
+      return reply.send(await getProfitLossReport(req.tenantId as number, range));
+    } catch (err) {
+      return sendError(req, reply, err, "report_failed");
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/finance/reports/profit-loss/export
+  // -----------------------------------------------------------------------
+  app.get("/finance/reports/profit-loss/export", { preHandler }, async (req, reply) => {
+    const query = (req.query ?? {}) as RangeQuery & { view?: string };
+    const view = (query.view ?? "plans") as ProfitLossView;
+    if (!PROFIT_LOSS_VIEWS.includes(view)) {
+      return reply.code(400).send({ error: "invalid_view", views: PROFIT_LOSS_VIEWS });
+    }
+    const range = parseRange(query);
+    if (!range) return reply.code(400).send({ error: "invalid_date" });
+
+    try {
+      const report = await getProfitLossReport(req.tenantId as number, range);
+      const filename = `profit-loss-${view}-${range.from.toISOString().slice(0, 10)}.csv`;
+      return reply
+        .header("Content-Type", "text/csv; charset=utf-8")
+        .header("Content-Disposition", `attachment; filename="${filename}"`)
+        .header("Cache-Control", "no-store")
+        .send(profitLossCsv(report, view));
+    } catch (err) {
+      return sendError(req, reply, err, "export_failed");
+    }
+  });
+};
+
+export default profitLossRoutes;
@@ -5,6 +5,7 @@ import type { FastifyInstance, FastifyPluginAsync, FastifyRequest, FastifyReply
 import prisma from "../prisma.js";
 import { getPublicCdnUrl } from "../services/media-storage.js";
 import { trackBoostInquiry } from "../services/listing-boost-service.js";
+import { getPhotoVisibilityForPlan, isAcceptingInquiries } from "../lib/rule-engine.js";
 import type { ListingBoostTarget } from "@prisma/client";
 
 /* ───────── utils ───────── */
@@ -425,6 +426,14 @@ const publicBreedingProgramsRoutes: FastifyPluginAsync = async (app: FastifyInst
         });
       }
 
+      // Program rules can close inquiries independently of the listing toggle
+      if (!(await isAcceptingInquiries("PROGRAM", slug, program.tenantId))) {
+        return reply.code(403).send({
+          error: "inquiries_closed",
+          message: "This program is not accepting inquiries right now",
+        });
+      }
+
       // Validate required fields
       const buyerName = String(body.buyerName || "").trim();
       const buyerEmail = String(body.buyerEmail || "").trim();
@@ -548,6 +557,7 @@ const publicBreedingProgramsRoutes: FastifyPluginAsync = async (app: FastifyInst
               collarColorName: true,
               collarColorHex: true,
               priceCents: true,
+              bornAt: true,
               Attachments: {
                 take: 1,
                 orderBy: { createdAt: "asc" },
@@ -593,9 +603,17 @@ const publicBreedingProgramsRoutes: FastifyPluginAsync = async (app: FastifyInst
         timeline.push({ event: "BORN", date: plan.birthDateActual.toISOString(), completed: true });
       }
 
+      // Enforce hide_photos_until_age before exposing any photo URLs
+      const photoVisibility = await getPhotoVisibilityForPlan(
+        plan.id,
+        program.tenantId,
+        plan.birthDateActual,
+        plan.Offspring || []
+      );
+
       // Transform offspring with photo URLs (now directly on breedingPlan)
       const offspring = (plan.Offspring || []).map((o: any) => {
-        const firstAttachment = o.Attachments?.[0];
+        const firstAttachment = photoVisibility.hiddenOffspringIds.has(o.id) ? null : o.Attachments?.[0];
         return {
           id: o.id,
           name: o.name,
@@ -611,7 +629,8 @@ const publicBreedingProgramsRoutes: FastifyPluginAsync = async (app: FastifyInst
       });
 
       // Transform plan attachments to media URLs
-      const media = (plan.Attachments || []).map((a: any, index: number) => ({
+      const planMedia = photoVisibility.planPhotosHidden ? [] : plan.Attachments || [];
+      const media = planMedia.map((a: any, index: number) => ({
         id: a.id,
         url: getPublicCdnUrl(a.storageKey),
         thumbnailUrl: getPublicCdnUrl(a.storageKey), // Same URL for now, could add thumbnail logic
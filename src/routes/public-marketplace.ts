@@ -37,6 +37,7 @@ import {
 import { populateAnimalDataFromConfig } from "../services/animal-listing-data.service.js";
 import { applyBoostRanking, trackBoostClick, trackBoostInquiry, getFeaturedListings } from "../services/listing-boost-service.js";
 import type { ListingBoostTarget } from "@prisma/client";
+import { getHiddenPhotoPlanIds, getPhotoVisibilityForPlan, isAcceptingInquiries } from "../lib/rule-engine.js";
 
 // ============================================================================
 // Security: Environment flags
@@ -1399,6 +1400,9 @@ const publicMarketplaceRoutes: FastifyPluginAsync = async (app: FastifyInstance)
       prisma.breedingPlan.count({ where }),
     ]);
 
+    // Enforce hide_photos_until_age on litter cover images
+    const hiddenCoverPlanIds = await getHiddenPhotoPlanIds(plans);
+
     // Map plans to listing DTOs with backward-compatible shape
     const items = plans.map((p) => {
       const available = (p.Offspring || []).filter(
@@ -1411,7 +1415,7 @@ const publicMarketplaceRoutes: FastifyPluginAsync = async (app: FastifyInstance)
         species: p.species,
         expectedBirthOn: p.expectedBirthDate,
         actualBirthOn: p.birthDateActual,
-        coverImageUrl: p.coverImageUrl,
+        coverImageUrl: hiddenCoverPlanIds.has(p.id) ? null : p.coverImageUrl,
         availableCount: available.length,
         dam: p.dam ? { name: p.dam.name, photoUrl: p.dam.photoUrl, breed: p.dam.breed } : null,
         sire: p.sire ? { name: p.sire.name, photoUrl: p.sire.photoUrl, breed: p.sire.breed } : null,
@@ -1513,6 +1517,12 @@ const publicMarketplaceRoutes: FastifyPluginAsync = async (app: FastifyInstance)
       const available = (plan.Offspring || []).filter(
         (o: any) => o.marketplaceListed && o.keeperIntent === "AVAILABLE"
       );
+      const photoVisibility = await getPhotoVisibilityForPlan(
+        plan.id,
+        resolved.tenantId,
+        plan.birthDateActual,
+        []
+      );
       const listing = {
         listingSlug: plan.listingSlug,
         title: plan.listingTitle || plan.species,
@@ -1520,7 +1530,7 @@ const publicMarketplaceRoutes: FastifyPluginAsync = async (app: FastifyInstance)
         species: plan.species,
         expectedBirthOn: plan.expectedBirthDate,
         actualBirthOn: plan.birthDateActual,
-        coverImageUrl: plan.coverImageUrl,
+        coverImageUrl: photoVisibility.planPhotosHidden ? null : plan.coverImageUrl,
         availableCount: available.length,
         dam: plan.dam ? { name: plan.dam.name, photoUrl: plan.dam.photoUrl, breed: plan.dam.breed } : null,
         sire: plan.sire ? { name: plan.sire.name, photoUrl: plan.sire.photoUrl, breed: plan.sire.breed } : null,
@@ -1803,6 +1813,7 @@ const publicMarketplaceRoutes: FastifyPluginAsync = async (app: FastifyInstance)
     // Validate listing if provided and get listing details for subject
     let listingTitle: string | null = null;
     let animalListingIntent: string | null = null;
+    let litterPlanId: number | null = null;
 
     if (listingSlug) {
       if (!isValidSlug(listingSlug)) {
@@ -1816,12 +1827,13 @@ const publicMarketplaceRoutes: FastifyPluginAsync = async (app: FastifyInstance)
             tenantId: resolved.tenantId,
             listingSlug: listingSlug,
           },
-          select: { listingTitle: true },
+          select: { id: true, listingTitle: true },
         });
         if (!plan) {
           return reply.code(404).send({ error: "listing_not_found" });
         }
         listingTitle = (plan as any).listingTitle || null;
+        litterPlanId = plan.id;
       } else if (listingType === "animal") {
         const listingResolved = await resolveAnimalListing(
           prisma,
@@ -1844,6 +1856,23 @@ const publicMarketplaceRoutes: FastifyPluginAsync = async (app: FastifyInstance)
       }
     }
 
+    // Enforce the effective accept_inquiries program rule (offspring > litter > program)
+    const inquiryOffspringId = Number(offspringId);
+    const inquiryRuleTarget = Number.isInteger(inquiryOffspringId) && inquiryOffspringId > 0
+      ? { level: "OFFSPRING" as const, id: inquiryOffspringId }
+      : litterPlanId
+        ? { level: "PLAN" as const, id: litterPlanId }
+        : null;
+    if (
+      inquiryRuleTarget &&
+      !(await isAcceptingInquiries(inquiryRuleTarget.level, inquiryRuleTarget.id, resolved.tenantId))
+    ) {
+      return reply.code(403).send({
+        error: "inquiries_closed",
+        message: "This breeder is not accepting inquiries for this listing right now.",
+      });
+    }
+
     // Get organization for subject line
     const org = await prisma.organization.findUnique({
       where: { id: resolved.organizationId },
@@ -2322,6 +2351,9 @@ const publicMarketplaceRoutes: FastifyPluginAsync = async (app: FastifyInstance)
       prisma.breedingPlan.count({ where }),
     ]);
 
+    // Enforce hide_photos_until_age on litter cover images
+    const hiddenCoverPlanIds = await getHiddenPhotoPlanIds(groups);
+
     const rawItems = groups.map((g) => {
       const org = g.tenant?.organizations?.[0];
       const availableCount = g.Offspring?.length || 0;
@@ -2343,7 +2375,7 @@ const publicMarketplaceRoutes: FastifyPluginAsync = async (app: FastifyInstance)
         breed: g.dam?.breed || g.sire?.breed || null,
         expectedBirthOn: g.expectedBirthDate,
         actualBirthOn: g.birthDateActual,
-        coverImageUrl: g.coverImageUrl,
+        coverImageUrl: hiddenCoverPlanIds.has(g.id) ? null : g.coverImageUrl,
         availableCount,
         priceMinCents: minPrice,
         priceMaxCents: maxPrice,
@@ -1,6 +1,8 @@
 // src/routes/recipient-pool.ts
 // Recipient Pool API — tracks recipient mare status for embryo transfer programs.
 // Status is derived from the breeding plan phase, not stored separately.
+// Embryos on hand (see routes/embryo-inventory.ts) are listed alongside so
+// available recipients can be matched to fresh, thawed or frozen embryos.
 
 import type { FastifyInstance, FastifyPluginAsync } from "fastify";
 import prisma from "../prisma.js";
@@ -59,6 +61,22 @@ function parsePaging(query: any) {
   return { page, limit, skip };
 }
 
+/** Embryos waiting for a recipient, by status (optionally one species) */
+async function countEmbryosOnHand(tenantId: number, species?: string): Promise<Record<string, number>> {
+  const rows = await prisma.embryo.groupBy({
+    by: ["status"],
+    where: {
+      tenantId,
+      status: { in: ["FRESH", "THAWED", "FROZEN"] },
+      ...(species && { flushEvent: { Animal_FlushEvent_geneticDamIdToAnimal: { species: species as any } } }),
+    },
+    _count: true,
+  });
+  const counts: Record<string, number> = { FRESH: 0, THAWED: 0, FROZEN: 0 };
+  for (const row of rows) counts[row.status] = row._count;
+  return counts;
+}
+
 async function assertTenant(req: any, reply: any): Promise<number | null> {
   const tenantId = Number((req as any).tenantId);
   if (!tenantId) {
@@ -110,6 +128,7 @@ const recipientPoolRoutes: FastifyPluginAsync = async (api: FastifyInstance) =>
         data: [],
         total: 0,
         statusCounts: {} as Record<RecipientStatus, number>,
+        embryosOnHand: await countEmbryosOnHand(tenantId, query.species),
       });
     }
 
@@ -159,6 +178,7 @@ const recipientPoolRoutes: FastifyPluginAsync = async (api: FastifyInstance) =>
         birthDateActual: true,
         Animal_BreedingPlan_geneticDamIdToAnimal: { select: { id: true, name: true } },
         sire: { select: { id: true, name: true } },
+        embryos: { select: { id: true, label: true, grade: true, stage: true, frozenAt: true, transferredAt: true } },
       },
       orderBy: { createdAt: "desc" },
     });
@@ -205,6 +225,15 @@ const recipientPoolRoutes: FastifyPluginAsync = async (api: FastifyInstance) =>
         daysUntilDue,
         totalETCarried,
         totalETOffspring,
+        // Embryo(s) transferred into the active plan
+        embryos: (activePlan?.embryos ?? []).map((e) => ({
+          id: e.id,
+          label: e.label,
+          grade: e.grade,
+          stage: e.stage,
+          embryoType: e.frozenAt ? "FROZEN" : "FRESH",
+          transferredAt: e.transferredAt?.toISOString() ?? null,
+        })),
       });
     }
 
@@ -242,7 +271,9 @@ const recipientPoolRoutes: FastifyPluginAsync = async (api: FastifyInstance) =>
     const total = filteredEntries.length;
     const paginated = filteredEntries.slice(skip, skip + limit);
 
-    return reply.send({ data: paginated, total, page, limit, statusCounts });
+    const embryosOnHand = await countEmbryosOnHand(tenantId, query.species);
+
+    return reply.send({ data: paginated, total, page, limit, statusCounts, embryosOnHand });
   });
 };
 
@@ -7,6 +7,7 @@
  * - Pedigree import
  * - Registry lookup
  * - Sync logs
+ * - ET registry export
  */
 
 import type {
@@ -715,6 +716,37 @@ const routes: FastifyPluginAsync = async (app: FastifyInstance) => {
       return reply.code(500).send({ error: 'internal_error' });
     }
   });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // ET REGISTRY EXPORT
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * ET registration data for an embryo transfer plan, built from the plan,
+   * its flush event and the transferred embryo
+   * GET /breeding/plans/:planId/et-registry-export?registryId=
+   */
+  app.get('/breeding/plans/:planId/et-registry-export', async (req, reply) => {
+    const tenantId = await assertTenant(req, reply);
+    if (!tenantId) return;
+
+    const planId = parseIntStrict((req.params as any).planId);
+    if (!planId) {
+      return reply.code(400).send({ error: 'invalid_plan_id' });
+    }
+    const registryId = parseIntStrict((req.query as any).registryId) ?? undefined;
+
+    try {
+      const data = await registryService.buildETRegistryExport(tenantId, planId, registryId);
+      return reply.send({ ok: true, data });
+    } catch (err: any) {
+      if (err.statusCode) {
+        return reply.code(err.statusCode).send({ error: err.message, ...(err.details ?? {}) });
+      }
+      console.error('[registry-integration] ET export error:', err);
+      return reply.code(500).send({ error: 'internal_error' });
+    }
+  });
 };
 
 export default routes;
@@ -194,6 +194,10 @@ const DEFAULT_BREEDING_PROGRAM = {
     weanDays: 56,
     placementStartOffsetDays: 60,
   },
+  waitlist: {
+    // Where a transferred waitlist entry lands: KEEP_POSITION | END_OF_LIST
+    transferPriorityPolicy: "KEEP_POSITION",
+  },
 };
 
 async function requireTenantMemberOrAdmin(req: any, tenantId: number) {
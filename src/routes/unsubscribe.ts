@@ -3,8 +3,12 @@
 // Token-based verification replaces auth (JWT encodes partyId + tenantId).
 
 import type { FastifyInstance, FastifyPluginAsync } from "fastify";
-import { verifyUnsubscribeToken } from "../services/unsubscribe-token-service.js";
+import {
+  verifySavedSearchUnsubscribeToken,
+  verifyUnsubscribeToken,
+} from "../services/unsubscribe-token-service.js";
 import { updateCommPreferences } from "../services/comm-prefs-service.js";
+import { disableSavedSearchAlerts } from "../services/saved-search-service.js";
 import prisma from "../prisma.js";
 
 // ────────────────────────────────────────────────────────────────────────────
@@ -127,6 +131,45 @@ function renderSuccessPage(): string {
   `);
 }
 
+function renderSavedSearchConfirmPage(token: string, searchName: string): string {
+  return pageShell("Unsubscribe", `
+    <div class="header">
+      <img src="${LOGO_URL}" alt="BreederHQ" />
+      <h1>Stop saved search alerts</h1>
+    </div>
+    <div class="body">
+      <p>
+        You will stop receiving new-match alerts for your saved search
+        <strong style="color:#ffffff;">${escapeHtml(searchName)}</strong>.
+      </p>
+      <p class="muted">The search stays saved in your marketplace account. You can turn alerts back on there at any time.</p>
+      <form method="POST" action="/api/v1/unsubscribe/saved-search">
+        <input type="hidden" name="token" value="${escapeHtml(token)}" />
+        <button type="submit" class="btn">Stop Alerts</button>
+      </form>
+    </div>
+    <div class="footer">
+      <p>&copy; ${new Date().getFullYear()} BreederHQ</p>
+    </div>
+  `);
+}
+
+function renderSavedSearchSuccessPage(): string {
+  return pageShell("Alerts stopped", `
+    <div class="header">
+      <img src="${LOGO_URL}" alt="BreederHQ" />
+      <h1>Alerts stopped</h1>
+    </div>
+    <div class="body">
+      <p>You will no longer receive alerts for this saved search.</p>
+      <p class="muted">Turn alerts back on from your saved searches in the BreederHQ marketplace.</p>
+    </div>
+    <div class="footer">
+      <p>&copy; ${new Date().getFullYear()} BreederHQ</p>
+    </div>
+  `);
+}
+
 function renderErrorPage(message: string): string {
   return pageShell("Error", `
     <div class="header">
@@ -238,6 +281,75 @@ const routes: FastifyPluginAsync = async (app: FastifyInstance) => {
       );
     }
   });
+
+  /**
+   * GET /api/v1/unsubscribe/saved-search?token=...
+   * Confirmation page for turning off a marketplace saved search's alerts.
+   */
+  app.get("/saved-search", async (req, reply) => {
+    const { token } = req.query as { token?: string };
+
+    if (!token) {
+      return reply.type("text/html").code(400).send(
+        renderErrorPage("Missing unsubscribe token. Please use the link from your email.")
+      );
+    }
+
+    try {
+      const payload = verifySavedSearchUnsubscribeToken(token);
+      const search = await prisma.marketplaceSavedSearch.findUnique({
+        where: { id: payload.savedSearchId },
+        select: { name: true },
+      });
+      if (!search) {
+        return reply.type("text/html").code(404).send(
+          renderErrorPage("This saved search no longer exists.")
+        );
+      }
+
+      return reply.type("text/html").code(200).send(
+        renderSavedSearchConfirmPage(token, search.name)
+      );
+    } catch {
+      return reply.type("text/html").code(400).send(
+        renderErrorPage("This unsubscribe link has expired or is invalid.")
+      );
+    }
+  });
+
+  /**
+   * POST /api/v1/unsubscribe/saved-search
+   * Sets the saved search's alert frequency to OFF. Same form / RFC 8058
+   * one-click handling as POST /api/v1/unsubscribe.
+   */
+  app.post("/saved-search", async (req, reply) => {
+    const body = req.body as Record<string, string> | null;
+    const query = req.query as { token?: string };
+    const token = body?.token || query?.token;
+
+    if (!token) {
+      return reply.type("text/html").code(400).send(
+        renderErrorPage("Missing unsubscribe token.")
+      );
+    }
+
+    try {
+      const payload = verifySavedSearchUnsubscribeToken(token);
+      const isOneClick = !body?.token && !!query?.token;
+
+      // Already deleted searches send no more alerts; treat as done
+      await disableSavedSearchAlerts(payload.savedSearchId);
+
+      if (isOneClick) {
+        return reply.code(200).send({ ok: true });
+      }
+      return reply.type("text/html").code(200).send(renderSavedSearchSuccessPage());
+    } catch {
+      return reply.type("text/html").code(400).send(
+        renderErrorPage("This unsubscribe link has expired or is invalid.")
+      );
+    }
+  });
 };
 
 export default routes;
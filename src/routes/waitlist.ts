@@ -12,10 +12,13 @@ import {
   sendWaitlistApprovalToUser,
   sendWaitlistRejectionToUser,
   sendWaitlistRemovalToUser,
+  sendWaitlistTransferToUser,
 } from "../services/marketplace-email-service.js";
 import { refreshMatchingPlansForEntry, refreshMatchingPlansForEntries } from "../services/plan-buyer-matching.js";
 import { auditCreate, auditUpdate, auditDelete, type AuditContext } from "../services/audit-trail.js";
 import { logEntityActivity } from "../services/activity-log.js";
+import { emitWebhookEvent } from "../services/webhooks/index.js";
+import { TRANSFER_PRIORITY_POLICIES, transferWaitlistEntry } from "../services/waitlist-transfer.js";
 
 /** Build AuditContext from a Fastify request */
 function auditCtx(req: any, tenantId: number): AuditContext {
@@ -597,6 +600,7 @@ const waitlistRoutes: FastifyPluginCallback = (app, _opts, done) => {
       actorId: ctx.userId,
       actorName: ctx.userName,
     });
+    emitWebhookEvent(tenantId, "waitlist_entry.created", { waitlistEntry: serializeEntry(created) });
 
     // If created as APPROVED, trigger plan matching immediately
     if ((created.status || "").toUpperCase() === "APPROVED") {
@@ -719,6 +723,9 @@ const waitlistRoutes: FastifyPluginCallback = (app, _opts, done) => {
     if (existing) {
       auditUpdate("WAITLIST_ENTRY", id, existing as any, updated as any, auditCtx(req, tenantId));
     }
+    if (existing.status !== "APPROVED" && updated.status === "APPROVED") {
+      emitWebhookEvent(tenantId, "waitlist_entry.approved", { waitlistEntry: serializeEntry(updated) });
+    }
 
     // Refresh plan matches if entry is approved, then re-fetch so the
     // response includes the updated planBuyerLinks (not stale pre-refresh data)
@@ -877,6 +884,151 @@ const waitlistRoutes: FastifyPluginCallback = (app, _opts, done) => {
     reply.send({ skipCount: updated.skipCount ?? 0 });
   });
 
+  /**
+   * POST /api/v1/waitlist/:id/transfer
+   * Move an entry (and its plan buyer link) to another breeding plan or program.
+   * Body: { planId? | programId?, priorityPolicy?: "KEEP_POSITION"|"END_OF_LIST",
+   *         refundCents?, refundReason?, notify?: boolean }
+   * The paid deposit carries over as a credit, less any refund. priorityPolicy
+   * defaults to the tenant's breeding setting waitlist.transferPriorityPolicy.
+   * Returns: { entry, transfer }
+   */
+  app.post("/waitlist/:id/transfer", async (req, reply) => {
+    const tenantId = (req as any).tenantId as number;
+    const id = Number((req.params as any).id);
+    if (!Number.isInteger(id) || id <= 0) return reply.code(400).send({ error: "invalid_id" });
+    const b = (req.body as any) ?? {};
+
+    const planId = b.planId != null ? Number(b.planId) : null;
+    const programId = b.programId != null ? Number(b.programId) : null;
+    for (const targetId of [planId, programId]) {
+      if (targetId !== null && (!Number.isInteger(targetId) || targetId <= 0)) {
+        return reply.code(400).send({ error: "invalid_target_id" });
+      }
+    }
+    if ("priorityPolicy" in b && !TRANSFER_PRIORITY_POLICIES.includes(b.priorityPolicy)) {
+      return reply.code(400).send({ error: "invalid_priority_policy", allowed: TRANSFER_PRIORITY_POLICIES });
+    }
+
+    const before = await prisma.waitlistEntry.findFirst({ where: { id, tenantId } });
+    if (!before) return reply.code(404).send({ error: "not found" });
+
+    let transfer;
+    try {
+      transfer = await transferWaitlistEntry(tenantId, id, {
+        planId,
+        programId,
+        priorityPolicy: b.priorityPolicy,
+        refundCents: b.refundCents != null ? Number(b.refundCents) : undefined,
+        refundReason: b.refundReason ?? null,
+      });
+    } catch (err: any) {
+      if (err?.statusCode) return reply.code(err.statusCode).send({ error: err.message });
+      if (typeof err?.message === "string" && err.message.startsWith("refund_")) {
+        return reply.code(400).send({ error: err.message });
+      }
+      console.error("[waitlist/transfer] Failed to transfer entry:", err);
+      return reply.code(500).send({ error: "transfer_failed" });
+    }
+
+    const entry = await prisma.waitlistEntry.findUnique({
+      where: { id },
+      include: {
+        sirePref: { select: { id: true, name: true } },
+        damPref: { select: { id: true, name: true } },
+        TagAssignment: { include: { tag: true } },
+        depositInvoice: {
+          select: {
+            id: true, invoiceNumber: true, status: true,
+            amountCents: true, balanceCents: true, dueAt: true, issuedAt: true,
+          },
+        },
+        clientParty: {
+          include: {
+            contact: {
+              select: {
+                id: true, display_name: true, first_name: true,
+                last_name: true, email: true, phoneE164: true,
+              },
+            },
+          },
+        },
+        planBuyerLinks: {
+          select: {
+            id: true, planId: true, stage: true, matchScore: true, matchReasons: true,
+            plan: {
+              select: {
+                id: true, name: true,
+                sire: { select: { id: true, name: true } },
+                dam: { select: { id: true, name: true } },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    // Audit trail (fire-and-forget) — the transfer details ride along with each field change
+    auditUpdate("WAITLIST_ENTRY", id, before as any, entry as any, auditCtx(req, tenantId), {
+      operation: "transfer",
+      from: transfer.from,
+      to: transfer.to,
+      priorityPolicy: transfer.priorityPolicy,
+      creditCents: transfer.creditCents,
+      refundCents: transfer.refundCents,
+      refundPaymentId: transfer.refundPaymentId,
+    });
+
+    // Activity log (fire-and-forget)
+    logEntityActivity({
+      tenantId,
+      entityType: "WAITLIST_ENTRY",
+      entityId: id,
+      kind: "waitlist_entry_transferred",
+      category: "status",
+      title: `Waitlist entry moved to ${transfer.to.name}`,
+      description: transfer.refundCents > 0
+        ? `Deposit credit $${(transfer.creditCents / 100).toFixed(2)} carried over, $${(transfer.refundCents / 100).toFixed(2)} refunded`
+        : transfer.creditCents > 0
+          ? `Deposit credit $${(transfer.creditCents / 100).toFixed(2)} carried over`
+          : undefined,
+      metadata: { ...transfer },
+      actorId: auditCtx(req, tenantId).userId,
+      actorName: auditCtx(req, tenantId).userName,
+    });
+
+    // Notify the buyer (fire-and-forget)
+    if (b.notify === true) {
+      try {
+        const clientEmail = entry?.clientParty?.email || entry?.clientParty?.contact?.email;
+        const clientName = entry?.clientParty?.contact?.display_name ||
+          entry?.clientParty?.contact?.first_name ||
+          entry?.clientParty?.name ||
+          "there";
+
+        const breederOrg = await prisma.organization.findFirst({
+          where: { tenantId },
+          select: { name: true },
+        });
+
+        if (clientEmail) {
+          await sendWaitlistTransferToUser({
+            userEmail: clientEmail,
+            userName: clientName,
+            breederName: breederOrg?.name || "the breeder",
+            destinationName: transfer.to.name,
+            creditCents: transfer.creditCents,
+            refundCents: transfer.refundCents,
+          });
+        }
+      } catch (err) {
+        console.error("[waitlist/transfer] Failed to send transfer notification:", err);
+      }
+    }
+
+    reply.send({ entry: serializeEntry(entry), transfer });
+  });
+
   /**
    * GET /api/v1/waitlist/check-duplicate
    * Check if a duplicate waitlist entry exists for a contact with the same species/breed/sire/dam combination.
@@ -1244,6 +1396,12 @@ const waitlistRoutes: FastifyPluginCallback = (app, _opts, done) => {
       actorId: auditCtx(req, tenantId).userId,
       actorName: auditCtx(req, tenantId).userName,
     });
+    if (updated) {
+      emitWebhookEvent(tenantId, "waitlist_entry.approved", {
+        waitlistEntry: serializeEntry(updated),
+        linkedToExistingContact: linkedToExisting,
+      });
+    }
 
     // Track approval for marketplace users (for abuse system)
     try {
@@ -0,0 +1,305 @@
+// src/routes/webhook-endpoints.ts
+// Outbound webhooks — Owners/Admins register HTTPS endpoints for tenant events.
+//
+// GET    /api/v1/webhooks/events                          - Event types endpoints can subscribe to
+// GET    /api/v1/webhooks/endpoints                       - List endpoints
+// POST   /api/v1/webhooks/endpoints                       - Register an endpoint; the signing secret is returned once
+// GET    /api/v1/webhooks/endpoints/:id                   - Endpoint detail
+// PATCH  /api/v1/webhooks/endpoints/:id                   - Update url/description/events/enabled
+// DELETE /api/v1/webhooks/endpoints/:id                   - Delete an endpoint and its delivery log
+// POST   /api/v1/webhooks/endpoints/:id/rotate-secret     - Issue a new signing secret
+// POST   /api/v1/webhooks/endpoints/:id/test              - Send a webhook.ping event now
+// GET    /api/v1/webhooks/endpoints/:id/deliveries        - Delivery log (?status=&eventType=&page=&limit=)
+// GET    /api/v1/webhooks/deliveries/:id                  - Delivery detail with body and response
+// POST   /api/v1/webhooks/deliveries/:id/replay           - Re-send a delivery under the same event id
+
+import type { FastifyInstance, FastifyPluginAsync, FastifyReply, FastifyRequest } from "fastify";
+import type { WebhookDeliveryStatus } from "@prisma/client";
+import { getActorId } from "../utils/session.js";
+import { requirePermission } from "../middleware/require-permission.js";
+import { requireEntitlement } from "../middleware/quota-enforcement.js";
+import { auditSuccess } from "../services/audit.js";
+import {
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_SIGNATURE_HEADER,
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
+  getWebhookDelivery,
+  getWebhookEndpoint,
+  listWebhookDeliveries,
+  listWebhookEndpoints,
+  replayWebhookDelivery,
+  rotateWebhookSecret,
+  sendWebhookTestEvent,
+  updateWebhookEndpoint,
+  type WebhookEndpointInput,
+} from "../services/webhooks/index.js";
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ["pending", "succeeded", "failed"];
+
+function parseId(req: FastifyRequest): number | null {
+  const id = Number((req.params as { id: string }).id);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function sendError(req: FastifyRequest, reply: FastifyReply, err: any, fallback: string) {
+  if (err?.statusCode) {
+    const { statusCode, ...details } = err;
+    return reply.code(statusCode).send({ error: err.message, ...details });
+  }
+  req.log?.error?.({ err }, `Webhook request failed: ${fallback}`);
+  return reply.code(500).send({ error: fallback });
+}
+
+const webhookEndpointsRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
+  const preHandler = [requirePermission("staff.*")];
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/webhooks/events
+  // -----------------------------------------------------------------------
+  app.get("/webhooks/events", { preHandler }, async (_req, reply) => {
+    return reply.send({ events: WEBHOOK_EVENT_TYPES, signatureHeader: WEBHOOK_SIGNATURE_HEADER });
+  });
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/webhooks/endpoints
+  // -----------------------------------------------------------------------
+  app.get("/webhooks/endpoints", { preHandler }, async (req, reply) => {
+    try {
+      const items = await listWebhookEndpoints(req.tenantId as number);
+      return reply.send({ items, total: items.length });
+    } catch (err) {
+      return sendError(req, reply, err, "list_failed");
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // POST /api/v1/webhooks/endpoints
+  // Body: { url, events: string[], description? }
+  // -----------------------------------------------------------------------
+  app.post(
+    "/webhooks/endpoints",
+    {
+      preHandler: [...preHandler, requireEntitlement("API_ACCESS")],
+      config: { rateLimit: { max: 10, timeWindow: "1 minute" } },
+    },
+    async (req, reply) => {
+      const tenantId = req.tenantId as number;
+      const actorId = getActorId(req);
+      if (!actorId) return reply.code(401).send({ error: "unauthorized" });
+
+      try {
+        const { endpoint, secret } = await createWebhookEndpoint(
+          tenantId,
+          actorId,
+          (req.body ?? {}) as WebhookEndpointInput
+        );
+
+        await auditSuccess(req, "WEBHOOK_ENDPOINT_CREATED", {
+          userId: actorId,
+          tenantId,
+          surface: "PLATFORM",
+          detail: { endpointId: endpoint.id, url: endpoint.url, events: endpoint.events },
+        });
+
+        return reply.code(201).send({ endpoint, secret });
+      } catch (err) {
+        return sendError(req, reply, err, "create_failed");
+      }
+    }
+  );
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/webhooks/endpoints/:id
+  // -----------------------------------------------------------------------
+  app.get("/webhooks/endpoints/:id", { preHandler }, async (req, reply) => {
+    const id = parseId(req);
+    if (!id) return reply.code(400).send({ error: "invalid_id" });
+
+    try {
+      return reply.send({ endpoint: await getWebhookEndpoint(req.tenantId as number, id) });
+    } catch (err) {
+      return sendError(req, reply, err, "get_failed");
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // PATCH /api/v1/webhooks/endpoints/:id
+  // Body: { url?, events?, description?, enabled? }
+  // -----------------------------------------------------------------------
+  app.patch(
+    "/webhooks/endpoints/:id",
+    { preHandler: [...preHandler, requireEntitlement("API_ACCESS")] },
+    async (req, reply) => {
+      const tenantId = req.tenantId as number;
+      const actorId = getActorId(req);
+      if (!actorId) return reply.code(401).send({ error: "unauthorized" });
+      const id = parseId(req);
+      if (!id) return reply.code(400).send({ error: "invalid_id" });
+
+      const body = (req.body ?? {}) as WebhookEndpointInput;
+      if (body.enabled !== undefined && typeof body.enabled !== "boolean") {
+        return reply.code(400).send({ error: "invalid_enabled" });
+      }
+
+      try {
+        const endpoint = await updateWebhookEndpoint(tenantId, id, body);
+
+        await auditSuccess(req, "WEBHOOK_ENDPOINT_UPDATED", {
+          userId: actorId,
+          tenantId,
+          surface: "PLATFORM",
+          detail: { endpointId: id, changes: Object.keys(body) },
+        });
+
+        return reply.send({ endpoint });
+      } catch (err) {
+        return sendError(req, reply, err, "update_failed");
+      }
+    }
+  );
+
+  // -----------------------------------------------------------------------
+  // DELETE /api/v1/webhooks/endpoints/:id
+  // -----------------------------------------------------------------------
+  app.delete("/webhooks/endpoints/:id", { preHandler }, async (req, reply) => {
+    const tenantId = req.tenantId as number;
+    const actorId = getActorId(req);
+    if (!actorId) return reply.code(401).send({ error: "unauthorized" });
+    const id = parseId(req);
+    if (!id) return reply.code(400).send({ error: "invalid_id" });
+
+    try {
+      await deleteWebhookEndpoint(tenantId, id);
+
+      await auditSuccess(req, "WEBHOOK_ENDPOINT_DELETED", {
+        userId: actorId,
+        tenantId,
+        surface: "PLATFORM",
+        detail: { endpointId: id },
+      });
+
+      return reply.send({ ok: true });
+    } catch (err) {
+      return sendError(req, reply, err, "delete_failed");
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // POST /api/v1/webhooks/endpoints/:id/rotate-secret
+  // -----------------------------------------------------------------------
+  app.post("/webhooks/endpoints/:id/rotate-secret", { preHandler }, async (req, reply) => {
+    const tenantId = req.tenantId as number;
+    const actorId = getActorId(req);
+    if (!actorId) return reply.code(401).send({ error: "unauthorized" });
+    const id = parseId(req);
+    if (!id) return reply.code(400).send({ error: "invalid_id" });
+
+    try {
+      const { endpoint, secret } = await rotateWebhookSecret(tenantId, id);
+
+      await auditSuccess(req, "WEBHOOK_SECRET_ROTATED", {
+        userId: actorId,
+        tenantId,
+        surface: "PLATFORM",
+        detail: { endpointId: id },
+      });
+
+      return reply.send({ endpoint, secret });
+    } catch (err) {
+      return sendError(req, reply, err, "rotate_failed");
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // POST /api/v1/webhooks/endpoints/:id/test
+  // -----------------------------------------------------------------------
+  app.post(
+    "/webhooks/endpoints/:id/test",
+    { preHandler, config: { rateLimit: { max: 10, timeWindow: "1 minute" } } },
+    async (req, reply) => {
+      const id = parseId(req);
+      if (!id) return reply.code(400).send({ error: "invalid_id" });
+
+      try {
+        return reply.send({ delivery: await sendWebhookTestEvent(req.tenantId as number, id) });
+      } catch (err) {
+        return sendError(req, reply, err, "test_failed");
+      }
+    }
+  );
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/webhooks/endpoints/:id/deliveries
+  // -----------------------------------------------------------------------
+  app.get("/webhooks/endpoints/:id/deliveries", { preHandler }, async (req, reply) => {
+    const id = parseId(req);
+    if (!id) return reply.code(400).send({ error: "invalid_id" });
+
+    const query = (req.query ?? {}) as { status?: string; eventType?: string; page?: string; limit?: string };
+    const status = query.status as WebhookDeliveryStatus | undefined;
+    if (status && !DELIVERY_STATUSES.includes(status)) {
+      return reply.code(400).send({ error: "invalid_status", statuses: DELIVERY_STATUSES });
+    }
+    const page = Math.max(1, Number(query.page ?? 1) || 1);
+    const limit = Math.min(100, Math.max(1, Number(query.limit ?? 50) || 50));
+
+    try {
+      const { items, total } = await listWebhookDeliveries(req.tenantId as number, id, {
+        status,
+        eventType: query.eventType,
+        skip: (page - 1) * limit,
+        take: limit,
+      });
+      return reply.send({ items, total, page, limit });
+    } catch (err) {
+      return sendError(req, reply, err, "list_failed");
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // GET /api/v1/webhooks/deliveries/:id
+  // -----------------------------------------------------------------------
+  app.get("/webhooks/deliveries/:id", { preHandler }, async (req, reply) => {
+    const id = parseId(req);
+    if (!id) return reply.code(400).send({ error: "invalid_id" });
+
+    try {
+      return reply.send({ delivery: await getWebhookDelivery(req.tenantId as number, id) });
+    } catch (err) {
+      return sendError(req, reply, err, "get_failed");
+    }
+  });
+
+  // -----------------------------------------------------------------------
+  // POST /api/v1/webhooks/deliveries/:id/replay
+  // -----------------------------------------------------------------------
+  app.post(
+    "/webhooks/deliveries/:id/replay",
+    { preHandler, config: { rateLimit: { max: 30, timeWindow: "1 minute" } } },
+    async (req, reply) => {
+      const tenantId = req.tenantId as number;
+      const actorId = getActorId(req);
+      if (!actorId) return reply.code(401).send({ error: "unauthorized" });
+      const id = parseId(req);
+      if (!id) return reply.code(400).send({ error: "invalid_id" });
+
+      try {
+        const delivery = await replayWebhookDelivery(tenantId, id);
+
+        await auditSuccess(req, "WEBHOOK_DELIVERY_REPLAYED", {
+          userId: actorId,
+          tenantId,
+          surface: "PLATFORM",
+          detail: { deliveryId: id, replayId: delivery.id, eventId: delivery.eventId },
+        });
+
+        return reply.code(201).send({ delivery });
+      } catch (err) {
+        return sendError(req, reply, err, "replay_failed");
+      }
+    }
+  );
+};
+
+export default webhookEndpointsRoutes;
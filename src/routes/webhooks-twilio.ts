@@ -0,0 +1,57 @@
+// src/routes/webhooks-twilio.ts
+// Webhook endpoint for Twilio inbound SMS/WhatsApp messages
+//
+// POST /api/v1/webhooks/twilio/inbound - Apply STOP/START keywords to comm preferences
+//
+// Configure this URL as the "A message comes in" webhook on the sending
+// number(s). Replies other than opt keywords are ignored; Twilio's own
+// compliance replies ("You have been unsubscribed...") are left to Twilio.
+
+import type { FastifyInstance, FastifyPluginAsync } from "fastify";
+import { handleInboundMessage, verifyTwilioSignature } from "../services/messaging/index.js";
+import { captureMessage } from "../lib/sentry.js";
+
+const TWILIO_AUTH_TOKEN = process.env.TWILIO_AUTH_TOKEN;
+/** Public URL Twilio calls; needed when a proxy rewrites the host or scheme */
+const TWILIO_INBOUND_WEBHOOK_URL = process.env.TWILIO_INBOUND_WEBHOOK_URL;
+const IS_PRODUCTION = process.env.NODE_ENV === "production";
+
+const EMPTY_TWIML = '<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
+
+const twilioWebhooksRoutes: FastifyPluginAsync = async (app: FastifyInstance) => {
+  app.post("/inbound", async (req, reply) => {
+    const params = (req.body ?? {}) as Record<string, string>;
+
+    // Unsigned requests could flip any number's opt-out, so production refuses
+    // them; verification is only skipped in development
+    if (!TWILIO_AUTH_TOKEN && IS_PRODUCTION) {
+      captureMessage("Twilio inbound webhook called without TWILIO_AUTH_TOKEN configured", "error");
+      return reply.code(503).send({ error: "webhook_not_configured" });
+    } else if (!TWILIO_AUTH_TOKEN) {
+      console.warn("⚠️  TWILIO_AUTH_TOKEN not configured - skipping signature verification");
+    } else {
+      const url = TWILIO_INBOUND_WEBHOOK_URL || `${req.protocol}://${req.host}${req.url}`;
+      const signature = req.headers["x-twilio-signature"] as string | undefined;
+      if (!verifyTwilioSignature(TWILIO_AUTH_TOKEN, url, params, signature)) {
+        captureMessage("Twilio webhook signature verification failed", "warning", { url });
+        return reply.code(403).send({ error: "invalid_signature" });
+      }
+    }
+
+    const from = params.From ?? "";
+    const result = await handleInboundMessage({
+      channel: from.toLowerCase().startsWith("whatsapp:") ? "WHATSAPP" : "SMS",
+      from,
+      body: params.Body ?? "",
+      source: "twilio_inbound",
+    });
+
+    if (result.action !== "ignored") {
+      req.log.info({ action: result.action, partiesUpdated: result.partiesUpdated }, "Twilio opt keyword applied");
+    }
+
+    return reply.type("text/xml").send(EMPTY_TWIML);
+  });
+};
+
+export default twilioWebhooksRoutes;
@@ -43,6 +43,7 @@ import {
 } from "./middleware/actor-context.js";
 import { auditFailure } from "./services/audit.js";
 import apiUsageTracking from "./middleware/api-usage-tracking.js";
+import { createApiKeyAuth, isApiKeyAuthorization } from "./middleware/api-key-auth.js";
 import { verifyAccessToken, TokenPayload } from "./services/jwt.service.js";
 
 // ---------- Env ----------
@@ -275,9 +276,15 @@ function isCsrfExempt(pathname: string, method: string): boolean {
   // Resend webhooks (inbound + delivery) - verified by Resend signature, not CSRF
   if (pathname.startsWith("/api/v1/webhooks/resend/")) return true;
 
+  // Twilio inbound SMS/WhatsApp webhooks - verified by X-Twilio-Signature, not CSRF
+  if (pathname.startsWith("/api/v1/webhooks/twilio/")) return true;
+
   // Public breeding program inquiries - unauthenticated public submissions
   if (pathname.startsWith("/api/v1/public/breeding-programs/") && pathname.endsWith("/inquiries")) return true;
 
+  // Signed contract PDF verification - unauthenticated, read-only (used by buyers' lawyers)
+  if (pathname === "/api/v1/public/contracts/verify") return true;
+
   return false;
 }
 
@@ -604,6 +611,7 @@ import marketplaceWebsocketRoutes from "./routes/marketplace-websocket.js"; // M
 import marketplaceReviewsRoutes from "./routes/marketplace-reviews.js"; // Marketplace reviews & ratings
 import marketplaceAdminRoutes from "./routes/marketplace-admin.js"; // Marketplace admin dashboard
 import marketplaceSavedRoutes from "./routes/marketplace-saved.js"; // Marketplace saved items (favorites)
+import marketplaceSavedSearchRoutes from "./routes/marketplace-saved-searches.js"; // Marketplace saved searches + alerts
 import marketplaceNotificationsRoutes from "./routes/marketplace-notifications.js"; // Marketplace notification counts
 import marketplaceVerificationRoutes from "./routes/marketplace-verification.js"; // Marketplace verification (phone, identity, packages)
 import marketplace2faRoutes from "./routes/marketplace-2fa.js"; // Marketplace 2FA (TOTP, SMS, Passkey)
@@ -614,6 +622,13 @@ import portalProfileRoutes from "./routes/portal-profile.js"; // Portal profile
 import portalSchedulingRoutes from "./routes/portal-scheduling.js"; // Portal scheduling endpoints
 import portalProtocolsRoutes from "./routes/portal-protocols.js"; // Portal training protocol continuation
 import staffRoutes from "./routes/staff.js"; // Staff management (RBAC Phase 1)
+import apiKeysRoutes from "./routes/api-keys.js"; // Tenant API keys (API_ACCESS)
+import calendarFeedsRoutes, { publicCalendarFeedRoutes } from "./routes/calendar-feeds.js"; // iCalendar subscription feeds
+import importsRoutes from "./routes/imports.js"; // CSV/XLSX imports for contacts, offspring, vaccinations, weights
+import dataExportsRoutes from "./routes/data-exports.js"; // Full tenant data export archives (DATA_EXPORT)
+import accountingRoutes from "./routes/accounting.js"; // Accounting export/sync (QuickBooks IIF, Xero CSV)
+import profitLossRoutes from "./routes/profit-loss.js"; // P&L per litter, offspring, animal and program
+import webhookEndpointsRoutes from "./routes/webhook-endpoints.js"; // Outbound webhooks (endpoints, delivery log, replay)
 import resourceAssignmentRoutes from "./routes/resource-assignments.js"; // Resource assignments (RBAC Phase 1)
 import schedulingRoutes from "./routes/scheduling.js"; // Staff scheduling endpoints (calendar)
 import businessHoursRoutes from "./routes/business-hours.js"; // Business hours settings
@@ -641,7 +656,7 @@ import horseWorkflowRoutes from "./routes/horse-workflows.js"; // Horse workflow
 import partyCrmRoutes from "./routes/party-crm.js"; // Party CRM (notes, events, milestones, emails)
 import templatesRoutes from "./routes/templates.js"; // Email/message templates
 import autoRepliesRoutes from "./routes/auto-replies.js"; // Auto-reply rules for email/DM
-import contractsRoutes from "./routes/contracts.js"; // Contract e-signatures (platform)
+import contractsRoutes, { publicContractVerifyRoutes } from "./routes/contracts.js"; // Contract e-signatures (platform)
 import contractTemplatesRoutes from "./routes/contract-templates.js"; // Contract templates management
 import portalContractsRoutes from "./routes/portal-contracts.js"; // Contract signing (portal)
 import portalHealthRoutes from "./routes/portal-health.js"; // Portal health records & vaccinations
@@ -669,6 +684,7 @@ import dairyRoutes from "./routes/dairy.js"; // Dairy production tracking (lacta
 import fiberRoutes from "./routes/fiber.js"; // Fiber/wool production tracking (shearings, lab tests)
 import microchipRegistrationsRoutes from "./routes/microchip-registrations.js"; // Microchip registry tracking
 import resendWebhooksRoutes from "./routes/webhooks-resend.js"; // Resend inbound email webhooks
+import twilioWebhooksRoutes from "./routes/webhooks-twilio.js"; // Twilio inbound SMS/WhatsApp (STOP/START)
 import unsubscribeRoutes from "./routes/unsubscribe.js"; // CAN-SPAM unsubscribe (no auth - token-based)
 import marketplaceV2Routes from "./routes/marketplace-v2.js"; // Marketplace V2 - Direct Listings & Animal Programs
 import breederServicesRoutes from "./routes/breeder-services.js"; // Breeder Service Listings Management
@@ -677,25 +693,15 @@ import mktBreedingBookingsRoutes from "./routes/mkt-breeding-bookings.js"; // Br
 import marketplaceBreedsRoutes from "./routes/marketplace-breeds.js"; // Marketplace breeds search (public, canonical only)
 import notificationsRoutes from "./routes/notifications.js"; // Health & breeding notifications (persistent)
 import geneticPreferencesRoutes from "./routes/genetic-preferences.js"; // Genetic notification preferences & snooze
-import { startNotificationScanJob, stopNotificationScanJob } from "./jobs/notification-scan.js"; // Daily notification cron job
 import breedingProgramRulesRoutes from "./routes/breeding-program-rules.js"; // Breeding Program Rules (cascading automation)
 import studVisibilityRoutes from "./routes/stud-visibility.js"; // Stud Listing Visibility Rules (P11)
-import { startRuleExecutionJob, stopRuleExecutionJob } from "./jobs/rule-execution.js"; // Rule execution cron job
-import { startNetworkSearchIndexJob, stopNetworkSearchIndexJob } from "./jobs/network-search-index.js"; // Network search index rebuild cron job
-import { startAnimalAccessCleanupJob, stopAnimalAccessCleanupJob } from "./jobs/animal-access-cleanup.js"; // Animal access cleanup cron job (30-day retention)
-import { startShareCodeExpirationJob, stopShareCodeExpirationJob } from "./jobs/share-code-expiration.js"; // Share code expiration cron job (hourly)
-import { startAnimalAccessExpirationJob, stopAnimalAccessExpirationJob } from "./jobs/animal-access-expiration.js"; // Animal access expiration cron job (hourly)
-import { startListingBoostExpirationJob, stopListingBoostExpirationJob } from "./jobs/listing-boost-expiration.js"; // Listing boost expiration cron job (hourly)
-import { startServiceListingExpirationJob, stopServiceListingExpirationJob } from "./jobs/expire-service-listings.js"; // Service listing payment expiration cron job (daily)
 import listingBoostRoutes from "./routes/listing-boosts.js"; // Listing boost checkout + CRUD
 import adminBoostRoutes from "./routes/admin-boosts.js"; // Admin boost management
 import adminDbHealthRoutes from "./routes/admin-db-health.js"; // Admin database health monitoring
+import adminJobsRoutes from "./routes/admin-jobs.js"; // Admin background job status, run history & manual triggers
+import { startJobScheduler, stopJobScheduler } from "./jobs/scheduler.js"; // Leader-elected background job scheduler
+import { JOBS } from "./jobs/index.js"; // Background job registry
 import adminEmailLogRoutes from "./routes/admin-email-logs.js"; // Admin email log management & tenant email history
-import { startDbHealthMonitorJob, stopDbHealthMonitorJob } from "./jobs/db-health-monitor.js"; // DB health monitoring cron job (daily)
-import { startEmailRetryJob, stopEmailRetryJob } from "./jobs/email-retry.js"; // Email retry cron job (every 5 min)
-import { startOverdueReminderJob, stopOverdueReminderJob } from "./jobs/invoice-overdue-reminder.js"; // Overdue invoice reminder cron job (daily 9 AM UTC)
-import { startComplianceReminderJob, stopComplianceReminderJob, startComplianceDigestJob, stopComplianceDigestJob } from "./jobs/compliance-reminder.js"; // Compliance reminder + breeder digest cron jobs (Client Health Portal Phase 4)
-import { startCopilotQualityReportJob, stopCopilotQualityReportJob } from "./jobs/copilot-quality-report.js"; // AI Copilot nightly quality report (3 AM UTC)
 import sitemapRoutes from "./routes/sitemap.js"; // Public sitemap data endpoint
 import mediaRoutes from "./routes/media.js"; // Media upload/access endpoints (S3)
 import searchRoutes from "./routes/search.js"; // Platform-wide search (Command Palette)
@@ -706,6 +712,7 @@ import buyerAnalyticsRoutes from "./routes/buyer-analytics.js"; // Buyer CRM Ana
 import buyerEmailsRoutes from "./routes/buyer-emails.js"; // Buyer CRM Emails (P5)
 import registryIntegrationRoutes from "./routes/registry-integration.js"; // Registry Integration (P6)
 import semenInventoryRoutes from "./routes/semen-inventory.js"; // Semen Inventory (P7)
+import embryoInventoryRoutes from "./routes/embryo-inventory.js"; // Embryo inventory (per-embryo flush records)
 import breederProfileRoutes from "./routes/breeder-profile.js"; // Breeding Discovery: Breeder Profile (Phase 2)
 import breedingDiscoveryProgramsRoutes from "./routes/breeding-discovery-programs.js"; // Breeding Discovery: Programs (Phase 2)
 import breedingDiscoveryListingsRoutes from "./routes/breeding-discovery-listings.js"; // Breeding Discovery: Listings (Phase 2)
@@ -766,6 +773,7 @@ app.register(
     api.register(settingsRoutes); // /api/v1/settings/* (user settings)
     api.register(websocketRoutes); // /api/v1/ws/* WebSocket for real-time messaging
     api.register(resendWebhooksRoutes, { prefix: "/webhooks/resend" }); // /api/v1/webhooks/resend/* (Resend inbound email)
+    api.register(twilioWebhooksRoutes, { prefix: "/webhooks/twilio" }); // /api/v1/webhooks/twilio/* (inbound SMS opt-outs)
     api.register(unsubscribeRoutes, { prefix: "/unsubscribe" }); // /api/v1/unsubscribe (CAN-SPAM - no auth, token-based)
     api.register(marketplaceAuthRoutes, { prefix: "/marketplace/auth" }); // /api/v1/marketplace/auth/* (JWT-based auth for marketplace)
     api.register(internationalWaitlistRoutes, { prefix: "/marketplace/international-waitlist" }); // /api/v1/marketplace/international-waitlist (public)
@@ -778,6 +786,7 @@ app.register(
     api.register(marketplaceReviewsRoutes, { prefix: "/marketplace" }); // /api/v1/marketplace/* (Reviews & ratings)
     api.register(marketplaceAdminRoutes, { prefix: "/marketplace" }); // /api/v1/marketplace/admin/* (Admin dashboard)
     api.register(marketplaceSavedRoutes, { prefix: "/marketplace" }); // /api/v1/marketplace/saved/* (Saved items/favorites)
+    api.register(marketplaceSavedSearchRoutes, { prefix: "/marketplace" }); // /api/v1/marketplace/saved-searches/* (Saved searches + alerts)
     api.register(marketplaceNotificationsRoutes, { prefix: "/marketplace" }); // /api/v1/marketplace/notifications/* (Notification counts)
     api.register(marketplaceVerificationRoutes, { prefix: "/marketplace/verification" }); // /api/v1/marketplace/verification/* (Phone, identity, packages)
     api.register(marketplace2faRoutes, { prefix: "/marketplace/2fa" }); // /api/v1/marketplace/2fa/* (TOTP, SMS, Passkey)
@@ -860,6 +869,8 @@ app.setErrorHandler((err: Error, req, reply) => {
 
 
 // ---------- API v1: tenant-scoped subtree ----------
+const apiKeyAuth = createApiKeyAuth(app);
+
 app.register(
   async (api) => {
     api.decorateRequest("tenantId", null as unknown as number);
@@ -998,6 +1009,17 @@ app.register(
         return; // Exit hook early
       }
 
+      // ---------- API key auth (tenant integrations) ----------
+      // Keys carry their own tenant, scopes and rate limit; see api-key-auth.ts
+      if (isApiKeyAuthorization(req.headers.authorization)) {
+        if (surface !== "PLATFORM") {
+          return reply.code(403).send({ error: SURFACE_ACCESS_DENIED, surface });
+        }
+        if (!(await apiKeyAuth(req, reply))) return;
+        (req as any).actorContext = "STAFF";
+        return; // Continue to route handler
+      }
+
       // ---------- Session verification ----------
       // Use surface-specific cookie for session isolation across subdomains
       // Also accept JWT Bearer token for mobile clients
@@ -1283,6 +1305,7 @@ app.register(
     api.register(microchipRegistrationsRoutes); // /api/v1/microchip-registries, /api/v1/animals/:id/microchip-registrations, /api/v1/offspring/:id/microchip-registrations
     api.register(registryIntegrationRoutes); // /api/v1/registry-connections/*, /api/v1/animals/:id/registries/:id/verify|pedigree (P6)
     api.register(semenInventoryRoutes); // /api/v1/semen/* (Semen Inventory - P7)
+    api.register(embryoInventoryRoutes); // /api/v1/embryos/*, /api/v1/flush-events/:id/embryos (Embryo inventory)
     api.register(breederProfileRoutes); // /api/v1/breeder-profile/* (Breeding Discovery - Phase 2)
     api.register(breedingDiscoveryProgramsRoutes); // /api/v1/breeding-discovery/programs/* (Breeding Discovery - Phase 2)
     api.register(breedingDiscoveryListingsRoutes); // /api/v1/breeding-discovery/listings/* (Breeding Discovery - Phase 2)
@@ -1327,6 +1350,13 @@ app.register(
     api.register(animalLinkingRoutes); // /api/v1/network/*, /api/v1/link-requests/*, /api/v1/cross-tenant-links/*
     api.register(networkRoutes);       // /api/v1/network/search Network Breeding Discovery
     api.register(staffRoutes);          // /api/v1/staff/* Staff Management (RBAC Phase 1)
+    api.register(apiKeysRoutes);        // /api/v1/api-keys/* Tenant API keys (API_ACCESS)
+    api.register(calendarFeedsRoutes);  // /api/v1/calendar-feeds/* iCalendar subscription feeds
+    api.register(importsRoutes);        // /api/v1/imports/* Spreadsheet imports and saved column mappings
+    api.register(dataExportsRoutes);    // /api/v1/data-exports/* Tenant data export archives (DATA_EXPORT)
+    api.register(accountingRoutes);     // /api/v1/finance/accounting/* Accounting export/sync (QuickBooks IIF, Xero CSV)
+    api.register(profitLossRoutes);     // /api/v1/finance/reports/profit-loss* P&L per litter, offspring, animal and program
+    api.register(webhookEndpointsRoutes); // /api/v1/webhooks/endpoints/*, /api/v1/webhooks/deliveries/* Outbound webhooks
     api.register(resourceAssignmentRoutes); // /api/v1/resource-assignments/* Resource Assignments (RBAC Phase 1)
     api.register(portalAccessRoutes);  // /api/v1/portal-access/* Portal Access Management
     api.register(portalDataRoutes);    // /api/v1/portal/* Portal read-only data surfaces
@@ -1362,6 +1392,7 @@ app.register(
     api.register(adminFeatureRoutes); // /api/v1/admin/features/* & /api/v1/features/checks (telemetry)
     api.register(adminBoostRoutes); // /api/v1/admin/boosts/* Admin boost management
     api.register(adminDbHealthRoutes); // /api/v1/admin/db-health/* Database health monitoring
+    api.register(adminJobsRoutes); // /api/v1/admin/jobs/* Background job status & manual runs
     api.register(adminEmailLogRoutes); // /api/v1/admin/email-logs/* & /api/v1/email-logs/* (tenant-scoped)
     api.register(auditLogRoutes);  // /api/v1/audit-log/*, /api/v1/entities/:entityType/:entityId/activity
 
@@ -1452,6 +1483,12 @@ app.register(
     // Health report shared link — PIN-secured, no auth required
     api.register(publicHealthReportSharedRoutes); // /api/v1/public/health-report/shared/:code?pin=XXXX
 
+    // iCalendar subscription feeds — token in URL, polled by calendar apps
+    api.register(publicCalendarFeedRoutes); // /api/v1/public/calendar-feeds/:token.ics
+
+    // Signed contract PDF verification — upload a PDF, learn whether it matches
+    api.register(publicContractVerifyRoutes); // /api/v1/public/contracts/verify
+
     // SECURITY: Public marketplace routes have been REMOVED to prevent unauthenticated scraping.
     // All marketplace data is now served exclusively via /api/v1/marketplace/* which requires:
     //   1. Valid session cookie (bhq_s)
@@ -1603,45 +1640,9 @@ export async function start() {
     await app.listen({ port: PORT, host: "0.0.0.0" });
     app.log.info(`API listening on :${PORT}`);
 
-    // Start notification scan cron job
-    startNotificationScanJob();
-
-    // Start rule execution cron job
-    startRuleExecutionJob();
-
-    // Start network search index rebuild cron job
-    startNetworkSearchIndexJob();
-
-    // Start animal access cleanup cron job (30-day OWNER_DELETED retention)
-    startAnimalAccessCleanupJob();
-
-    // Start share code expiration cron job (hourly)
-    startShareCodeExpirationJob();
-
-    // Start animal access expiration cron job (hourly)
-    startAnimalAccessExpirationJob();
-
-    // Start listing boost expiration cron job (hourly)
-    startListingBoostExpirationJob();
-
-    // Start service listing payment expiration cron job (daily)
-    startServiceListingExpirationJob();
-
-    // Start database health monitor cron job (daily)
-    startDbHealthMonitorJob();
-
-    // Start email retry cron job (every 5 minutes)
-    startEmailRetryJob();
-
-    // Start overdue invoice reminder cron job (daily at 9 AM UTC)
-    startOverdueReminderJob();
-
-    // Start compliance reminder cron jobs (Client Health Portal Phase 4)
-    startComplianceReminderJob();   // Daily at 8 AM UTC
-    startComplianceDigestJob();     // Weekly Monday at 8 AM UTC
-
-    // Start AI Copilot nightly quality report job (daily at 3 AM UTC)
-    startCopilotQualityReportJob();
+    // Start background jobs. Every instance schedules them; only the elected
+    // leader runs them (see src/jobs/scheduler.ts)
+    startJobScheduler(JOBS);
   } catch (err) {
     app.log.error(err);
     process.exit(1);
@@ -1653,40 +1654,14 @@ start();
 // ---------- Shutdown ----------
 process.on("SIGTERM", async () => {
   app.log.info("SIGTERM received, closing");
-  stopNotificationScanJob();
-  stopRuleExecutionJob();
-  stopNetworkSearchIndexJob();
-  stopAnimalAccessCleanupJob();
-  stopShareCodeExpirationJob();
-  stopAnimalAccessExpirationJob();
-  stopListingBoostExpirationJob();
-  stopServiceListingExpirationJob();
-  stopDbHealthMonitorJob();
-  stopEmailRetryJob();
-  stopOverdueReminderJob();
-  stopComplianceReminderJob();
-  stopComplianceDigestJob();
-  stopCopilotQualityReportJob();
+  await stopJobScheduler();
   await flush(2000); // Flush pending Sentry events
   await app.close();
   process.exit(0);
 });
 process.on("SIGINT", async () => {
   app.log.info("SIGINT received, closing");
-  stopNotificationScanJob();
-  stopRuleExecutionJob();
-  stopNetworkSearchIndexJob();
-  stopAnimalAccessCleanupJob();
-  stopShareCodeExpirationJob();
-  stopAnimalAccessExpirationJob();
-  stopListingBoostExpirationJob();
-  stopServiceListingExpirationJob();
-  stopDbHealthMonitorJob();
-  stopEmailRetryJob();
-  stopOverdueReminderJob();
-  stopComplianceReminderJob();
-  stopComplianceDigestJob();
-  stopCopilotQualityReportJob();
+  await stopJobScheduler();
   await flush(2000); // Flush pending Sentry events
   await app.close();
   process.exit(0);
@@ -0,0 +1,150 @@
+// src/services/accounting/accounting-settings.ts
+/**
+ * Chart-of-accounts mapping, stored per tenant in TenantSetting under the
+ * "accounting" namespace. Anything the tenant hasn't set falls back to the
+ * defaults below, which use common QuickBooks account names.
+ */
+
+import { ExpenseCategory, InvoiceCategory } from "@prisma/client";
+import prisma from "../../prisma.js";
+import type { AccountingDateFormat, AccountingSettings } from "./types.js";
+
+const NAMESPACE = "accounting";
+
+const DATE_FORMATS: AccountingDateFormat[] = ["MM/DD/YYYY", "DD/MM/YYYY"];
+
+const MAX_ACCOUNT_LENGTH = 100;
+
+export const DEFAULT_ACCOUNTING_SETTINGS: AccountingSettings = {
+  invoiceAccounts: {
+    DEPOSIT: "Customer Deposits",
+    SERVICE: "Service Income",
+    GOODS: "Sales",
+    MIXED: "Sales",
+    OTHER: "Other Income",
+  },
+  expenseAccounts: {
+    VET: "Veterinary",
+    SUPPLIES: "Supplies",
+    FOOD: "Feed",
+    GROOMING: "Grooming",
+    BREEDING: "Breeding Fees",
+    FACILITY: "Rent or Lease",
+    MARKETING: "Advertising",
+    LABOR: "Contract Labor",
+    INSURANCE: "Insurance",
+    REGISTRATION: "Registration Fees",
+    TRAVEL: "Travel",
+    OTHER: "Miscellaneous Expense",
+  },
+  receivableAccount: "Accounts Receivable",
+  depositAccount: "Undeposited Funds",
+  paymentAccount: "Checking",
+  salesTaxAccount: "Sales Tax Payable",
+  taxType: "Tax Exempt",
+  dateFormat: "MM/DD/YYYY",
+};
+
+function settingsError(details: string[]) {
+  return Object.assign(new Error("invalid_accounting_settings"), { statusCode: 400, details });
+}
+
+function mergeSettings(stored: Partial<AccountingSettings> | null): AccountingSettings {
+  const defaults = DEFAULT_ACCOUNTING_SETTINGS;
+  return {
+    ...defaults,
+    ...stored,
+    invoiceAccounts: { ...defaults.invoiceAccounts, ...stored?.invoiceAccounts },
+    expenseAccounts: { ...defaults.expenseAccounts, ...stored?.expenseAccounts },
+  };
+}
+
+export async function getAccountingSettings(tenantId: number): Promise<AccountingSettings> {
+  const row = await prisma.tenantSetting.findUnique({
+    where: { tenantId_namespace: { tenantId, namespace: NAMESPACE } },
+    select: { data: true },
+  });
+  return mergeSettings((row?.data as Partial<AccountingSettings> | null) ?? null);
+}
+
+/**
+ * Validate a partial update and merge it over the tenant's current
+ * settings. Account values are trimmed; blank ones are rejected.
+ */
+export async function updateAccountingSettings(
+  tenantId: number,
+  input: Record<string, unknown>,
+  userId: string | null
+): Promise<AccountingSettings> {
+  const details: string[] = [];
+  const update: Partial<AccountingSettings> = {};
+
+  const account = (path: string, value: unknown): string | undefined => {
+    if (typeof value !== "string" || !value.trim()) {
+      details.push(`${path} must be a non-empty string`);
+      return undefined;
+    }
+    if (value.trim().length > MAX_ACCOUNT_LENGTH) {
+      details.push(`${path} must be at most ${MAX_ACCOUNT_LENGTH} characters`);
+      return undefined;
+    }
+    return value.trim();
+  };
+
+  const categoryMap = <K extends string>(key: string, value: unknown, categories: K[]) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      details.push(`${key} must be an object of category → account`);
+      return undefined;
+    }
+    const out: Partial<Record<K, string>> = {};
+    for (const [category, v] of Object.entries(value)) {
+      if (!categories.includes(category as K)) {
+        details.push(`${key}.${category} is not a known category`);
+        continue;
+      }
+      const parsed = account(`${key}.${category}`, v);
+      if (parsed) out[category as K] = parsed;
+    }
+    return out;
+  };
+
+  for (const [key, value] of Object.entries(input)) {
+    switch (key) {
+      case "invoiceAccounts":
+        update.invoiceAccounts = categoryMap(key, value, Object.values(InvoiceCategory)) as AccountingSettings["invoiceAccounts"];
+        break;
+      case "expenseAccounts":
+        update.expenseAccounts = categoryMap(key, value, Object.values(ExpenseCategory)) as AccountingSettings["expenseAccounts"];
+        break;
+      case "receivableAccount":
+      case "depositAccount":
+      case "paymentAccount":
+      case "salesTaxAccount":
+      case "taxType":
+        update[key] = account(key, value);
+        break;
+      case "dateFormat":
+        if (DATE_FORMATS.includes(value as AccountingDateFormat)) update.dateFormat = value as AccountingDateFormat;
+        else details.push(`dateFormat must be one of ${DATE_FORMATS.join(", ")}`);
+        break;
+      default:
+        details.push(`${key} is not a setting`);
+    }
+  }
+  if (details.length) throw settingsError(details);
+
+  const current = await getAccountingSettings(tenantId);
+  const next = mergeSettings({
+    ...current,
+    ...update,
+    invoiceAccounts: { ...current.invoiceAccounts, ...update.invoiceAccounts },
+    expenseAccounts: { ...current.expenseAccounts, ...update.expenseAccounts },
+  });
+
+  await prisma.tenantSetting.upsert({
+    where: { tenantId_namespace: { tenantId, namespace: NAMESPACE } },
+    update: { data: next as any, version: { increment: 1 }, updatedBy: userId ?? undefined },
+    create: { tenantId, namespace: NAMESPACE, data: next as any, version: 1, updatedBy: userId ?? undefined },
+  });
+  return next;
+}
@@ -0,0 +1,454 @@
+// src/services/accounting/accounting-sync-service.ts
+/**
+ * Accounting Sync
+ *
+ * Collects the invoices, payments and expenses a provider hasn't received
+ * yet, hands them to the provider with the tenant's chart of accounts and
+ * records the outcome on each record (externalProvider, externalId,
+ * syncedAt, lastSyncStatus, lastSyncError) and in an AccountingSyncRun.
+ *
+ * Incremental: a record is pending for a provider until it has been synced
+ * to that provider (syncedAt set with that externalProvider). Invoices and
+ * expenses edited after their sync are sent again to providers that support
+ * updates; file providers only list them so the bookkeeper can adjust the
+ * entry by hand.
+ *
+ * Eligible records: issued, partially paid, paid and refunded invoices (not deleted),
+ * succeeded payments, refunds (stored as "refunded" payment rows) and all
+ * expenses.
+ */
+
+import type { AccountingSyncRun, InvoiceStatus, Prisma } from "@prisma/client";
+import prisma from "../../prisma.js";
+import { getAccountingSettings } from "./accounting-settings.js";
+import { quickbooksIifProvider } from "./providers/quickbooks-iif.js";
+import { xeroCsvProvider } from "./providers/xero-csv.js";
+import {
+  ACCOUNTING_RECORD_TYPES,
+  type AccountingBatch,
+  type AccountingFile,
+  type AccountingProvider,
+  type AccountingRecordResult,
+  type AccountingRecordType,
+} from "./types.js";
+
+export const ACCOUNTING_PROVIDERS: Record<string, AccountingProvider> = {
+  [quickbooksIifProvider.key]: quickbooksIifProvider,
+  [xeroCsvProvider.key]: xeroCsvProvider,
+};
+
+/** Most records of each type sent in one sync; the rest wait for the next */
+export const MAX_RECORDS_PER_SYNC = 2000;
+
+const SYNCABLE_INVOICE_STATUSES: InvoiceStatus[] = ["issued", "partially_paid", "paid", "refunded"];
+
+const UPDATE_CHUNK_SIZE = 200;
+
+// ────────────────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────────────────
+
+export interface AccountingSyncOptions {
+  provider: string;
+  /** Record types to include (default: all) */
+  types?: AccountingRecordType[];
+  /** Only records dated on or after this (invoice issued, payment received, expense incurred) */
+  from?: Date | null;
+  /** Only records dated before this */
+  to?: Date | null;
+  /** Send records already synced to this provider again (a full re-export) */
+  includeSynced?: boolean;
+  /** Build the files without recording a run or marking records synced */
+  dryRun?: boolean;
+}
+
+interface RecordSelection {
+  provider: AccountingProvider;
+  from: Date | null;
+  to: Date | null;
+  includeSynced: boolean;
+}
+
+export type AccountingSyncRunView = ReturnType<typeof toRunView>;
+
+// ────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ────────────────────────────────────────────────────────────────────────────
+
+function accountingError(code: string, statusCode: number, extra: Record<string, unknown> = {}) {
+  return Object.assign(new Error(code), { statusCode, ...extra });
+}
+
+export function getAccountingProvider(key: string): AccountingProvider {
+  const provider = ACCOUNTING_PROVIDERS[key];
+  if (!provider) {
+    throw accountingError("unknown_provider", 400, { providers: Object.keys(ACCOUNTING_PROVIDERS) });
+  }
+  return provider;
+}
+
+function toRunView(run: AccountingSyncRun) {
+  const files = (run.files as unknown as AccountingFile[] | null) ?? [];
+  return {
+    id: run.id,
+    provider: run.provider,
+    recordTypes: run.recordTypes as AccountingRecordType[],
+    from: run.fromDate,
+    to: run.toDate,
+    includeSynced: run.includeSynced,
+    invoiceCount: run.invoiceCount,
+    paymentCount: run.paymentCount,
+    expenseCount: run.expenseCount,
+    failedCount: run.failedCount,
+    files: files.map((f) => ({ name: f.name, contentType: f.contentType, bytes: Buffer.byteLength(f.content) })),
+    failures: (run.failures as unknown as AccountingRecordResult[] | null) ?? [],
+    createdByUserId: run.createdByUserId,
+    createdAt: run.createdAt,
+  };
+}
+
+function dateRange(from: Date | null, to: Date | null) {
+  if (!from && !to) return undefined;
+  return { ...(from && { gte: from }), ...(to && { lt: to }) };
+}
+
+/** Not yet synced to this provider (never synced, failed, or synced elsewhere) */
+function pendingWhere(providerKey: string) {
+  return {
+    OR: [{ syncedAt: null }, { externalProvider: null }, { externalProvider: { not: providerKey } }],
+  };
+}
+
+function invoiceWhere(tenantId: number, sel: RecordSelection): Prisma.InvoiceWhereInput {
+  return {
+    tenantId,
+    deletedAt: null,
+    status: { in: SYNCABLE_INVOICE_STATUSES },
+    issuedAt: dateRange(sel.from, sel.to) ?? { not: null },
+    ...(sel.includeSynced ? {} : pendingWhere(sel.provider.key)),
+  };
+}
+
+function paymentWhere(tenantId: number, sel: RecordSelection): Prisma.PaymentWhereInput {
+  return {
+    tenantId,
+    status: { in: ["succeeded", "refunded"] },
+    receivedAt: dateRange(sel.from, sel.to),
+    ...(sel.includeSynced ? {} : pendingWhere(sel.provider.key)),
+  };
+}
+
+function expenseWhere(tenantId: number, sel: RecordSelection): Prisma.ExpenseWhereInput {
+  return {
+    tenantId,
+    incurredAt: dateRange(sel.from, sel.to),
+    ...(sel.includeSynced ? {} : pendingWhere(sel.provider.key)),
+  };
+}
+
+/** Invoices and expenses edited after they were synced to this provider */
+async function findChangedSinceSync(tenantId: number, sel: RecordSelection, types: AccountingRecordType[]) {
+  const [invoices, expenses] = await Promise.all([
+    types.includes("invoice")
+      ? prisma.invoice.findMany({
+          where: {
+            tenantId,
+            deletedAt: null,
+            externalProvider: sel.provider.key,
+            syncedAt: { not: null },
+            updatedAt: { gt: prisma.invoice.fields.syncedAt },
+            issuedAt: dateRange(sel.from, sel.to),
+          },
+          select: { id: true },
+          orderBy: { id: "asc" },
+          take: MAX_RECORDS_PER_SYNC,
+        })
+      : [],
+    types.includes("expense")
+      ? prisma.expense.findMany({
+          where: {
+            tenantId,
+            externalProvider: sel.provider.key,
+            syncedAt: { not: null },
+            updatedAt: { gt: prisma.expense.fields.syncedAt },
+            incurredAt: dateRange(sel.from, sel.to),
+          },
+          select: { id: true },
+          orderBy: { id: "asc" },
+          take: MAX_RECORDS_PER_SYNC,
+        })
+      : [],
+  ]);
+  return { invoiceIds: invoices.map((i) => i.id), expenseIds: expenses.map((e) => e.id) };
+}
+
+/**
+ * Load and normalize the records to send. Fetches one more than the limit
+ * per type to tell whether more are waiting.
+ */
+async function collectBatch(
+  tenantId: number,
+  sel: RecordSelection,
+  types: AccountingRecordType[],
+  extraIds: { invoiceIds: number[]; expenseIds: number[] }
+): Promise<{ batch: AccountingBatch; hasMore: Record<AccountingRecordType, boolean> }> {
+  const take = MAX_RECORDS_PER_SYNC + 1;
+  const withChanged = <W>(where: W, ids: number[]) => (ids.length ? { OR: [where, { id: { in: ids } }] } : where);
+
+  const [invoices, payments, expenses] = await Promise.all([
+    types.includes("invoice")
+      ? prisma.invoice.findMany({
+          where: withChanged(invoiceWhere(tenantId, sel), extraIds.invoiceIds) as Prisma.InvoiceWhereInput,
+          include: {
+            clientParty: { select: { name: true, email: true } },
+            LineItems: { orderBy: { id: "asc" } },
+          },
+          orderBy: [{ issuedAt: "asc" }, { id: "asc" }],
+          take,
+        })
+      : [],
+    types.includes("payment")
+      ? prisma.payment.findMany({
+          where: paymentWhere(tenantId, sel),
+          include: {
+            invoice: { select: { invoiceNumber: true, currency: true, clientParty: { select: { name: true } } } },
+          },
+          orderBy: [{ receivedAt: "asc" }, { id: "asc" }],
+          take,
+        })
+      : [],
+    types.includes("expense")
+      ? prisma.expense.findMany({
+          where: withChanged(expenseWhere(tenantId, sel), extraIds.expenseIds) as Prisma.ExpenseWhereInput,
+          include: { vendorParty: { select: { name: true } } },
+          orderBy: [{ incurredAt: "asc" }, { id: "asc" }],
+          take,
+        })
+      : [],
+  ]);
+
+  const ownExternalId = (r: { externalProvider: string | null; externalId: string | null }) =>
+    r.externalProvider === sel.provider.key ? r.externalId : null;
+
+  return {
+    hasMore: {
+      invoice: invoices.length > MAX_RECORDS_PER_SYNC,
+      payment: payments.length > MAX_RECORDS_PER_SYNC,
+      expense: expenses.length > MAX_RECORDS_PER_SYNC,
+    },
+    batch: {
+      invoices: invoices.slice(0, MAX_RECORDS_PER_SYNC).map((inv) => ({
+        id: inv.id,
+        number: inv.invoiceNumber,
+        category: inv.category,
+        currency: inv.currency,
+        customerName: inv.clientParty?.name?.trim() || "Customer",
+        customerEmail: inv.clientParty?.email ?? null,
+        issuedAt: inv.issuedAt!,
+        dueAt: inv.dueAt,
+        totalCents: Number(inv.amountCents),
+        lines: inv.LineItems.map((li) => ({
+          description: li.description,
+          kind: li.kind,
+          quantity: li.qty,
+          unitCents: li.unitCents,
+          discountCents: li.discountCents ?? 0,
+          totalCents: li.totalCents,
+          itemCode: li.itemCode,
+        })),
+        externalId: ownExternalId(inv),
+      })),
+      payments: payments.slice(0, MAX_RECORDS_PER_SYNC).map((p) => ({
+        id: p.id,
+        invoiceId: p.invoiceId,
+        invoiceNumber: p.invoice.invoiceNumber,
+        customerName: p.invoice.clientParty?.name?.trim() || "Customer",
+        currency: p.invoice.currency,
+        receivedAt: p.receivedAt,
+        amountCents: Number(p.amountCents),
+        refund: p.status === "refunded",
+        method: p.method ?? p.methodType,
+        reference: p.reference ?? p.processorRef,
+        externalId: ownExternalId(p),
+      })),
+      expenses: expenses.slice(0, MAX_RECORDS_PER_SYNC).map((e) => ({
+        id: e.id,
+        category: e.category,
+        currency: e.currency,
+        incurredAt: e.incurredAt,
+        amountCents: e.amountCents,
+        vendorName: e.vendorParty?.name?.trim() || null,
+        description: e.description,
+        externalId: ownExternalId(e),
+      })),
+    },
+  };
+}
+
+/** Write each result back to its record, a chunk of records per transaction */
+async function recordResults(tenantId: number, providerKey: string, results: AccountingRecordResult[], at: Date) {
+  const updates = results.map((r) => {
+    const where = { id: r.id, tenantId };
+    if (r.status === "failed") {
+      const data = { lastSyncStatus: "failed", lastSyncError: r.error ?? "sync_failed" };
+      if (r.type === "invoice") return prisma.invoice.updateMany({ where, data });
+      if (r.type === "expense") return prisma.expense.updateMany({ where, data });
+      return prisma.payment.updateMany({ where, data });
+    }
+    const data = {
+      externalProvider: providerKey,
+      externalId: r.externalId ?? null,
+      syncedAt: at,
+      lastSyncStatus: "synced",
+      lastSyncError: null,
+    };
+    // Pin updatedAt to syncedAt so the record doesn't read as changed since sync
+    if (r.type === "invoice") return prisma.invoice.updateMany({ where, data: { ...data, updatedAt: at } });
+    if (r.type === "expense") return prisma.expense.updateMany({ where, data: { ...data, updatedAt: at } });
+    return prisma.payment.updateMany({ where, data });
+  });
+
+  for (let i = 0; i < updates.length; i += UPDATE_CHUNK_SIZE) {
+    await prisma.$transaction(updates.slice(i, i + UPDATE_CHUNK_SIZE));
+  }
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Public API
+// ────────────────────────────────────────────────────────────────────────────
+
+export function listAccountingProviders() {
+  return Object.values(ACCOUNTING_PROVIDERS).map((p) => ({
+    key: p.key,
+    label: p.label,
+    kind: p.kind,
+    supportsUpdates: p.supportsUpdates,
+  }));
+}
+
+/** How many records of each type are waiting to be synced to a provider */
+export async function getPendingCounts(tenantId: number, providerKey: string) {
+  const sel: RecordSelection = {
+    provider: getAccountingProvider(providerKey),
+    from: null,
+    to: null,
+    includeSynced: false,
+  };
+  const [invoices, payments, expenses, changed] = await Promise.all([
+    prisma.invoice.count({ where: invoiceWhere(tenantId, sel) }),
+    prisma.payment.count({ where: paymentWhere(tenantId, sel) }),
+    prisma.expense.count({ where: expenseWhere(tenantId, sel) }),
+    findChangedSinceSync(tenantId, sel, ACCOUNTING_RECORD_TYPES),
+  ]);
+  return {
+    provider: providerKey,
+    invoices,
+    payments,
+    expenses,
+    changedSinceSync: { invoices: changed.invoiceIds, expenses: changed.expenseIds },
+  };
+}
+
+/**
+ * Send pending records to a provider. For file providers the returned run
+ * lists the generated files; download them with getAccountingSyncFile.
+ * A dry run returns the files inline and changes nothing.
+ */
+export async function runAccountingSync(tenantId: number, options: AccountingSyncOptions, userId: string | null) {
+  const provider = getAccountingProvider(options.provider);
+  const types = options.types?.length ? [...new Set(options.types)] : ACCOUNTING_RECORD_TYPES;
+  if (types.some((t) => !ACCOUNTING_RECORD_TYPES.includes(t))) {
+    throw accountingError("invalid_record_type", 400, { types: ACCOUNTING_RECORD_TYPES });
+  }
+
+  const sel: RecordSelection = {
+    provider,
+    from: options.from ?? null,
+    to: options.to ?? null,
+    includeSynced: options.includeSynced === true,
+  };
+
+  const changed = sel.includeSynced
+    ? { invoiceIds: [], expenseIds: [] }
+    : await findChangedSinceSync(tenantId, sel, types);
+  const resend = provider.supportsUpdates ? changed : { invoiceIds: [], expenseIds: [] };
+
+  const [settings, { batch, hasMore }] = await Promise.all([
+    getAccountingSettings(tenantId),
+    collectBatch(tenantId, sel, types, resend),
+  ]);
+
+  const total = batch.invoices.length + batch.payments.length + batch.expenses.length;
+  if (total === 0 && !options.dryRun) throw accountingError("nothing_to_sync", 409);
+
+  const output = await provider.sync(batch, settings);
+  const synced = output.results.filter((r) => r.status === "synced");
+  const failures = output.results.filter((r) => r.status === "failed");
+  const count = (type: AccountingRecordType) => synced.filter((r) => r.type === type).length;
+
+  const summary = {
+    hasMore,
+    changedSinceSync: provider.supportsUpdates
+      ? { invoices: [], expenses: [] }
+      : { invoices: changed.invoiceIds, expenses: changed.expenseIds },
+  };
+
+  if (options.dryRun) {
+    return {
+      dryRun: true as const,
+      run: null,
+      counts: { invoices: count("invoice"), payments: count("payment"), expenses: count("expense"), failed: failures.length },
+      failures,
+      files: output.files,
+      ...summary,
+    };
+  }
+
+  const now = new Date();
+  await recordResults(tenantId, provider.key, output.results, now);
+
+  const run = await prisma.accountingSyncRun.create({
+    data: {
+      tenantId,
+      provider: provider.key,
+      recordTypes: types,
+      fromDate: sel.from,
+      toDate: sel.to,
+      includeSynced: sel.includeSynced,
+      invoiceCount: count("invoice"),
+      paymentCount: count("payment"),
+      expenseCount: count("expense"),
+      failedCount: failures.length,
+      files: output.files as unknown as Prisma.InputJsonValue,
+      failures: failures as unknown as Prisma.InputJsonValue,
+      createdByUserId: userId,
+      createdAt: now,
+    },
+  });
+
+  return { dryRun: false as const, run: toRunView(run), ...summary };
+}
+
+export async function listAccountingSyncRuns(tenantId: number, options: { provider?: string; limit?: number } = {}) {
+  const take = Math.min(Math.max(options.limit ?? 20, 1), 100);
+  const runs = await prisma.accountingSyncRun.findMany({
+    where: { tenantId, ...(options.provider ? { provider: options.provider } : {}) },
+    orderBy: { createdAt: "desc" },
+    take,
+  });
+  return runs.map(toRunView);
+}
+
+export async function getAccountingSyncRun(tenantId: number, runId: number): Promise<AccountingSyncRunView> {
+  const run = await prisma.accountingSyncRun.findFirst({ where: { id: runId, tenantId } });
+  if (!run) throw accountingError("sync_run_not_found", 404);
+  return toRunView(run);
+}
+
+export async function getAccountingSyncFile(tenantId: number, runId: number, fileName: string): Promise<AccountingFile> {
+  const run = await prisma.accountingSyncRun.findFirst({ where: { id: runId, tenantId }, select: { files: true } });
+  if (!run) throw accountingError("sync_run_not_found", 404);
+  const file = ((run.files as unknown as AccountingFile[] | null) ?? []).find((f) => f.name === fileName);
+  if (!file) throw accountingError("file_not_found", 404);
+  return file;
+}
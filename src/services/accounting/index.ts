@@ -0,0 +1,12 @@
+/**
+ * Accounting Integration
+ *
+ * Exports:
+ * - Provider interface and normalized record types
+ * - Chart-of-accounts settings
+ * - Provider registry and incremental sync
+ */
+
+export * from "./types.js";
+export * from "./accounting-settings.js";
+export * from "./accounting-sync-service.js";
@@ -0,0 +1,69 @@
+// src/services/accounting/providers/format.ts
+// Formatting shared by the file-based accounting providers.
+
+import type { AccountingDateFormat, AccountingInvoice, AccountingSettings } from "../types.js";
+
+/** Dates are written in UTC, matching how they're stored */
+export function formatDate(date: Date, format: AccountingDateFormat): string {
+  const dd = String(date.getUTCDate()).padStart(2, "0");
+  const mm = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const yyyy = date.getUTCFullYear();
+  return format === "DD/MM/YYYY" ? `${dd}/${mm}/${yyyy}` : `${mm}/${dd}/${yyyy}`;
+}
+
+/** Cents as a decimal amount ("-12.50") */
+export function formatAmount(cents: number): string {
+  const sign = cents < 0 ? "-" : "";
+  const abs = Math.abs(Math.round(cents));
+  return `${sign}${Math.floor(abs / 100)}.${String(abs % 100).padStart(2, "0")}`;
+}
+
+export function csvRow(values: Array<string | number | null | undefined>): string {
+  return (
+    values
+      .map((v) => {
+        const text = v === null || v === undefined ? "" : String(v);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(",") + "\r\n"
+  );
+}
+
+export interface PostingLine {
+  account: string;
+  description: string;
+  quantity: number;
+  unitCents: number;
+  totalCents: number;
+  itemCode: string | null;
+}
+
+/**
+ * An invoice's lines with the income (or sales tax) account each posts to.
+ * If the lines don't add up to the invoice total, the difference is posted
+ * to the category's income account so the transaction balances.
+ */
+export function invoicePostingLines(invoice: AccountingInvoice, settings: AccountingSettings): PostingLine[] {
+  const incomeAccount = settings.invoiceAccounts[invoice.category];
+  const lines: PostingLine[] = invoice.lines.map((line) => ({
+    account: line.kind === "TAX" ? settings.salesTaxAccount : incomeAccount,
+    description: line.description,
+    quantity: line.quantity,
+    unitCents: line.unitCents,
+    totalCents: line.totalCents,
+    itemCode: line.itemCode,
+  }));
+
+  const difference = invoice.totalCents - lines.reduce((sum, l) => sum + l.totalCents, 0);
+  if (difference !== 0) {
+    lines.push({
+      account: incomeAccount,
+      description: lines.length ? "Adjustment" : `Invoice ${invoice.number}`,
+      quantity: 1,
+      unitCents: difference,
+      totalCents: difference,
+      itemCode: null,
+    });
+  }
+  return lines;
+}
@@ -0,0 +1,153 @@
+// src/services/accounting/providers/quickbooks-iif.ts
+/**
+ * QuickBooks Desktop IIF export
+ *
+ * One tab-delimited .iif file holding every record as a transaction:
+ * - Invoice: INVOICE debiting receivables, one split per line item credited
+ *   to the category's income account (TAX lines to sales tax)
+ * - Payment: PAYMENT from receivables into the deposit account. IIF can't
+ *   link a payment to its invoice, so QuickBooks records it as a customer
+ *   credit to apply; the invoice number is in the memo.
+ * - Refund: CHECK to the customer from the deposit account, debiting
+ *   receivables
+ * - Expense: CHECK from the payment account to the category's expense account
+ *
+ * QuickBooks adds customers, vendors and accounts it doesn't have yet on
+ * import. IIF has no currency column; amounts import in the home currency.
+ */
+
+import type { AccountingProvider, AccountingRecordResult } from "../types.js";
+import { formatAmount, formatDate, invoicePostingLines } from "./format.js";
+
+const HEADER = [
+  "!TRNS\tTRNSID\tTRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tDOCNUM\tMEMO\tDUEDATE",
+  "!SPL\tSPLID\tTRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tDOCNUM\tMEMO\tQNTY",
+  "!ENDTRNS",
+];
+
+/** IIF fields can't contain tabs or line breaks, and quotes confuse the importer */
+function field(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  return String(value).replace(/[\t\r\n]+/g, " ").replace(/"/g, "'").trim();
+}
+
+function line(kind: "TRNS" | "SPL", values: Array<string | number | null | undefined>): string {
+  return [kind, "", ...values.map(field)].join("\t");
+}
+
+export const quickbooksIifProvider: AccountingProvider = {
+  key: "quickbooks_iif",
+  label: "QuickBooks Desktop (IIF file)",
+  kind: "file",
+  supportsUpdates: false,
+
+  async sync(batch, settings) {
+    const date = (d: Date) => formatDate(d, "MM/DD/YYYY");
+    const rows: string[] = [...HEADER];
+    const results: AccountingRecordResult[] = [];
+
+    for (const invoice of batch.invoices) {
+      const doc = invoice.number;
+      rows.push(
+        line("TRNS", [
+          "INVOICE",
+          date(invoice.issuedAt),
+          settings.receivableAccount,
+          invoice.customerName,
+          formatAmount(invoice.totalCents),
+          doc,
+          "",
+          invoice.dueAt ? date(invoice.dueAt) : "",
+        ])
+      );
+      for (const posting of invoicePostingLines(invoice, settings)) {
+        rows.push(
+          line("SPL", [
+            "INVOICE",
+            date(invoice.issuedAt),
+            posting.account,
+            invoice.customerName,
+            formatAmount(-posting.totalCents),
+            doc,
+            posting.description,
+            -posting.quantity,
+          ])
+        );
+      }
+      rows.push("ENDTRNS");
+      results.push({ type: "invoice", id: invoice.id, status: "synced", externalId: doc });
+    }
+
+    for (const payment of batch.payments) {
+      const doc = payment.refund ? `RFD-${payment.id}` : `PMT-${payment.id}`;
+      const type = payment.refund ? "CHECK" : "PAYMENT";
+      // Refunds flow the other way: out of the deposit account, back onto receivables
+      const amountCents = payment.refund ? -payment.amountCents : payment.amountCents;
+      const memo = [
+        `${payment.refund ? "Refund" : "Payment"} for invoice ${payment.invoiceNumber}`,
+        payment.method,
+        payment.reference,
+      ]
+        .filter(Boolean)
+        .join(" - ");
+      rows.push(
+        line("TRNS", [
+          type,
+          date(payment.receivedAt),
+          settings.depositAccount,
+          payment.customerName,
+          formatAmount(amountCents),
+          doc,
+          memo,
+          "",
+        ]),
+        line("SPL", [
+          type,
+          date(payment.receivedAt),
+          settings.receivableAccount,
+          payment.customerName,
+          formatAmount(-amountCents),
+          doc,
+          memo,
+          "",
+        ]),
+        "ENDTRNS"
+      );
+      results.push({ type: "payment", id: payment.id, status: "synced", externalId: doc });
+    }
+
+    for (const expense of batch.expenses) {
+      const doc = `EXP-${expense.id}`;
+      rows.push(
+        line("TRNS", [
+          "CHECK",
+          date(expense.incurredAt),
+          settings.paymentAccount,
+          expense.vendorName,
+          formatAmount(-expense.amountCents),
+          doc,
+          expense.description,
+          "",
+        ]),
+        line("SPL", [
+          "CHECK",
+          date(expense.incurredAt),
+          settings.expenseAccounts[expense.category],
+          expense.vendorName,
+          formatAmount(expense.amountCents),
+          doc,
+          expense.description,
+          "",
+        ]),
+        "ENDTRNS"
+      );
+      results.push({ type: "expense", id: expense.id, status: "synced", externalId: doc });
+    }
+
+    const files =
+      results.length > 0
+        ? [{ name: "quickbooks-transactions.iif", contentType: "text/plain", content: rows.join("\r\n") + "\r\n" }]
+        : [];
+    return { results, files };
+  },
+};
@@ -0,0 +1,126 @@
+// src/services/accounting/providers/xero-csv.ts
+/**
+ * Xero CSV export, using Xero's import templates:
+ * - xero-sales-invoices.csv: Business → Invoices → Import, one row per line
+ * - xero-bills.csv: Business → Bills to pay → Import, one row per expense
+ * - xero-payments.csv: a bank statement import for the deposit account, so
+ *   each payment can be reconciled against its invoice (Reference is the
+ *   invoice number); refunds are negative statement lines
+ *
+ * Account columns take Xero account codes; dates follow the tenant's
+ * dateFormat setting, which must match the Xero organisation's region.
+ */
+
+import type { AccountingFile, AccountingProvider, AccountingRecordResult } from "../types.js";
+import { csvRow, formatAmount, formatDate, invoicePostingLines } from "./format.js";
+
+const INVOICE_COLUMNS = [
+  "*ContactName",
+  "EmailAddress",
+  "*InvoiceNumber",
+  "*InvoiceDate",
+  "*DueDate",
+  "InventoryItemCode",
+  "*Description",
+  "*Quantity",
+  "*UnitAmount",
+  "*AccountCode",
+  "*TaxType",
+  "Currency",
+];
+
+const BILL_COLUMNS = [
+  "*ContactName",
+  "*InvoiceNumber",
+  "*InvoiceDate",
+  "*DueDate",
+  "*Description",
+  "*Quantity",
+  "*UnitAmount",
+  "*AccountCode",
+  "*TaxType",
+  "Currency",
+];
+
+const BANK_STATEMENT_COLUMNS = ["*Date", "*Amount", "Payee", "Description", "Reference"];
+
+export const xeroCsvProvider: AccountingProvider = {
+  key: "xero_csv",
+  label: "Xero (CSV import files)",
+  kind: "file",
+  supportsUpdates: false,
+
+  async sync(batch, settings) {
+    const date = (d: Date) => formatDate(d, settings.dateFormat);
+    const results: AccountingRecordResult[] = [];
+    const files: AccountingFile[] = [];
+
+    if (batch.invoices.length) {
+      let content = csvRow(INVOICE_COLUMNS);
+      for (const invoice of batch.invoices) {
+        for (const posting of invoicePostingLines(invoice, settings)) {
+          // Xero recomputes line totals from quantity × unit amount; fall back
+          // to a single unit when discounts or rounding would change the total
+          const exact = posting.quantity > 0 && posting.quantity * posting.unitCents === posting.totalCents;
+          content += csvRow([
+            invoice.customerName,
+            invoice.customerEmail,
+            invoice.number,
+            date(invoice.issuedAt),
+            date(invoice.dueAt ?? invoice.issuedAt),
+            posting.itemCode,
+            posting.description || `Invoice ${invoice.number}`,
+            exact ? posting.quantity : 1,
+            formatAmount(exact ? posting.unitCents : posting.totalCents),
+            posting.account,
+            settings.taxType,
+            invoice.currency,
+          ]);
+        }
+        results.push({ type: "invoice", id: invoice.id, status: "synced", externalId: invoice.number });
+      }
+      files.push({ name: "xero-sales-invoices.csv", contentType: "text/csv", content });
+    }
+
+    if (batch.expenses.length) {
+      let content = csvRow(BILL_COLUMNS);
+      for (const expense of batch.expenses) {
+        const number = `EXP-${expense.id}`;
+        content += csvRow([
+          expense.vendorName ?? "Unspecified vendor",
+          number,
+          date(expense.incurredAt),
+          date(expense.incurredAt),
+          expense.description || expense.category.toLowerCase(),
+          1,
+          formatAmount(expense.amountCents),
+          settings.expenseAccounts[expense.category],
+          settings.taxType,
+          expense.currency,
+        ]);
+        results.push({ type: "expense", id: expense.id, status: "synced", externalId: number });
+      }
+      files.push({ name: "xero-bills.csv", contentType: "text/csv", content });
+    }
+
+    if (batch.payments.length) {
+      let content = csvRow(BANK_STATEMENT_COLUMNS);
+      for (const payment of batch.payments) {
+        content += csvRow([
+          date(payment.receivedAt),
+          formatAmount(payment.refund ? -payment.amountCents : payment.amountCents),
+          payment.customerName,
+          [`${payment.refund ? "Refund" : "Payment"} for invoice ${payment.invoiceNumber}`, payment.method]
+            .filter(Boolean)
+            .join(" - "),
+          payment.invoiceNumber,
+        ]);
+        const externalId = payment.refund ? `RFD-${payment.id}` : `PMT-${payment.id}`;
+        results.push({ type: "payment", id: payment.id, status: "synced", externalId });
+      }
+      files.push({ name: "xero-payments.csv", contentType: "text/csv", content });
+    }
+
+    return { results, files };
+  },
+};
@@ -0,0 +1,143 @@
+// src/services/accounting/types.ts
+/**
+ * Accounting Integration Types
+ *
+ * A provider receives normalized invoices, payments and expenses plus the
+ * tenant's chart-of-accounts mapping, and reports a result for every record.
+ * File-based providers (QuickBooks IIF, Xero CSV) also return the files to
+ * hand to the bookkeeper; an API-based provider would push the records and
+ * return the ids the accounting system assigned.
+ */
+
+import type { ExpenseCategory, InvoiceCategory, LineItemKind } from "@prisma/client";
+
+export type AccountingRecordType = "invoice" | "payment" | "expense";
+
+export const ACCOUNTING_RECORD_TYPES: AccountingRecordType[] = ["invoice", "payment", "expense"];
+
+// ────────────────────────────────────────────────────────────────────────────
+// Records
+// ────────────────────────────────────────────────────────────────────────────
+
+export interface AccountingInvoiceLine {
+  description: string;
+  kind: LineItemKind;
+  quantity: number;
+  unitCents: number;
+  discountCents: number;
+  totalCents: number;
+  itemCode: string | null;
+}
+
+export interface AccountingInvoice {
+  id: number;
+  number: string;
+  category: InvoiceCategory;
+  currency: string;
+  customerName: string;
+  customerEmail: string | null;
+  issuedAt: Date;
+  dueAt: Date | null;
+  totalCents: number;
+  lines: AccountingInvoiceLine[];
+  /** Set when the record was synced to this provider before */
+  externalId: string | null;
+}
+
+export interface AccountingPayment {
+  id: number;
+  invoiceId: number;
+  invoiceNumber: string;
+  customerName: string;
+  currency: string;
+  receivedAt: Date;
+  amountCents: number;
+  /** Money paid back to the customer against the invoice (a "refunded" payment row) */
+  refund: boolean;
+  method: string | null;
+  reference: string | null;
+  externalId: string | null;
+}
+
+export interface AccountingExpense {
+  id: number;
+  category: ExpenseCategory;
+  currency: string;
+  incurredAt: Date;
+  amountCents: number;
+  vendorName: string | null;
+  description: string | null;
+  externalId: string | null;
+}
+
+export interface AccountingBatch {
+  invoices: AccountingInvoice[];
+  payments: AccountingPayment[];
+  expenses: AccountingExpense[];
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Chart of accounts
+// ────────────────────────────────────────────────────────────────────────────
+
+export type AccountingDateFormat = "MM/DD/YYYY" | "DD/MM/YYYY";
+
+/**
+ * Where records post in the tenant's books. Values are account names for
+ * QuickBooks and account codes for Xero (e.g. "200").
+ */
+export interface AccountingSettings {
+  /** Income account per invoice category */
+  invoiceAccounts: Record<InvoiceCategory, string>;
+  /** Expense account per expense category */
+  expenseAccounts: Record<ExpenseCategory, string>;
+  /** Receivables account invoices post to (QuickBooks) */
+  receivableAccount: string;
+  /** Account payments are deposited to */
+  depositAccount: string;
+  /** Account expenses are paid from */
+  paymentAccount: string;
+  /** Liability account for TAX line items */
+  salesTaxAccount: string;
+  /** Xero tax type applied to every line (e.g. "Tax Exempt", "Tax on Sales") */
+  taxType: string;
+  /** Date format expected by the accounting system */
+  dateFormat: AccountingDateFormat;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Providers
+// ────────────────────────────────────────────────────────────────────────────
+
+export interface AccountingFile {
+  name: string;
+  contentType: string;
+  content: string;
+}
+
+export interface AccountingRecordResult {
+  type: AccountingRecordType;
+  id: number;
+  status: "synced" | "failed";
+  /** The record's id in the accounting system (document number for file exports) */
+  externalId?: string;
+  error?: string;
+}
+
+export interface AccountingSyncOutput {
+  results: AccountingRecordResult[];
+  files: AccountingFile[];
+}
+
+export interface AccountingProvider {
+  /** Stored on synced records as externalProvider */
+  key: string;
+  label: string;
+  kind: "file" | "api";
+  /**
+   * Whether records changed after syncing can be sent again. File imports
+   * would duplicate them, so file providers only report such changes.
+   */
+  supportsUpdates: boolean;
+  sync(batch: AccountingBatch, settings: AccountingSettings): Promise<AccountingSyncOutput>;
+}
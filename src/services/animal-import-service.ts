@@ -154,6 +154,90 @@ export async function findDuplicates(
   };
 }
 
+const DUPLICATE_MATCH_SELECT = {
+  id: true,
+  name: true,
+  species: true,
+  sex: true,
+  birthDate: true,
+  breed: true,
+  microchip: true,
+  photoUrl: true,
+  status: true,
+} as const;
+
+export interface AnimalIdentifierMatch {
+  match: DuplicateMatch | null;
+  matchedBy: "microchip" | "registry_number" | "name" | null;
+  /** Animals that fit equally well when no single match could be made */
+  candidates: DuplicateMatch[];
+}
+
+/**
+ * Finds an existing animal from lab/batch identifiers. Microchip wins, then
+ * registry number, then name; name matching uses findDuplicates when species
+ * and sex are known, otherwise a name is only a match if it is unique.
+ */
+export async function findAnimalByIdentifiers(
+  tenantId: number,
+  identifiers: {
+    name?: string | null;
+    microchip?: string | null;
+    registryNumber?: string | null;
+    species?: Species | null;
+    sex?: "FEMALE" | "MALE" | null;
+  }
+): Promise<AnimalIdentifierMatch> {
+  const { name, microchip, registryNumber, species, sex } = identifiers;
+
+  if (microchip) {
+    const chipped = await prisma.animal.findMany({
+      where: { tenantId, archived: false, microchip: { equals: microchip, mode: "insensitive" } },
+      select: DUPLICATE_MATCH_SELECT,
+      take: 5,
+    });
+    if (chipped.length === 1) return { match: chipped[0], matchedBy: "microchip", candidates: [] };
+    if (chipped.length > 1) return { match: null, matchedBy: null, candidates: chipped };
+  }
+
+  if (registryNumber) {
+    const identifiersFound = await prisma.animalRegistryIdentifier.findMany({
+      where: {
+        identifier: { equals: registryNumber, mode: "insensitive" },
+        animal: { tenantId, archived: false },
+      },
+      select: { animal: { select: DUPLICATE_MATCH_SELECT } },
+      take: 5,
+    });
+    const animals = [...new Map(identifiersFound.map((r) => [r.animal.id, r.animal])).values()];
+    if (animals.length === 1) return { match: animals[0], matchedBy: "registry_number", candidates: [] };
+    if (animals.length > 1) return { match: null, matchedBy: null, candidates: animals };
+  }
+
+  if (!name) return { match: null, matchedBy: null, candidates: [] };
+
+  if (species && sex) {
+    const duplicate = await findDuplicates(tenantId, { name, species, sex, microchip });
+    return duplicate
+      ? { match: duplicate, matchedBy: "name", candidates: [] }
+      : { match: null, matchedBy: null, candidates: [] };
+  }
+
+  const named = await prisma.animal.findMany({
+    where: {
+      tenantId,
+      archived: false,
+      name: { equals: name, mode: "insensitive" },
+      ...(species && { species }),
+      ...(sex && { sex }),
+    },
+    select: DUPLICATE_MATCH_SELECT,
+    take: 5,
+  });
+  if (named.length === 1) return { match: named[0], matchedBy: "name", candidates: [] };
+  return { match: null, matchedBy: null, candidates: named };
+}
+
 /**
  * Finds potential parent animals by name with fuzzy matching
  */
@@ -92,6 +92,24 @@ const SPECIES_BIRTH_CONFIG: Record<string, SpeciesBirthConfig> = {
     gestationMin: 28,
     gestationMax: 35,
   },
+  CATTLE: {
+    postBirthHeatMaxDays: 90,
+    placentaRetentionThresholdMinutes: 720, // 12 hours — retained fetal membranes
+    trackPlacenta: true,
+    trackPostBirthHeat: true,
+    riskWeights: { complicationRate: 40, placentaRetention: 25, vetInterventions: 5, vetInterventionsCap: 35 },
+    gestationMin: 270,
+    gestationMax: 295,
+  },
+  PIG: {
+    postBirthHeatMaxDays: 0,
+    placentaRetentionThresholdMinutes: 0,
+    trackPlacenta: false,
+    trackPostBirthHeat: false,
+    riskWeights: { complicationRate: 50, placentaRetention: 0, vetInterventions: 5, vetInterventionsCap: 50 },
+    gestationMin: 110,
+    gestationMax: 120,
+  },
 };
 
 function getSpeciesConfig(species: string): SpeciesBirthConfig {
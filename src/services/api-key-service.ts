@@ -0,0 +1,253 @@
+// src/services/api-key-service.ts
+/**
+ * API Key Service
+ *
+ * Tenant-managed integration credentials (website widgets, spreadsheet
+ * scripts). A key looks like `bhq_<8 hex>_<secret>`; the `bhq_<8 hex>` part is
+ * its public prefix and only the SHA-256 of the whole key is stored. Keys are
+ * scoped with the capability strings from config/permissions.config.ts and can
+ * never be granted more than the creating user's role allows.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import type { ApiKey } from "@prisma/client";
+import prisma from "../prisma.js";
+import { ROLE_PERMISSIONS } from "../config/permissions.config.js";
+import { can } from "../utils/can.js";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const API_KEY_PREFIX = "bhq_";
+
+const API_KEY_PATTERN = /^bhq_[0-9a-f]{8}_[A-Za-z0-9_-]{43}$/;
+
+export const API_KEY_DEFAULT_RATE_LIMIT = 60;
+export const API_KEY_MAX_RATE_LIMIT = 600;
+export const API_KEYS_PER_TENANT_LIMIT = 25;
+
+/** lastUsedAt is only written when older than this, to keep hot keys off the primary */
+const LAST_USED_WRITE_INTERVAL_MS = 60_000;
+
+/** Capability namespaces that exist in the role config (animals, breeding, ...) */
+export const API_KEY_SCOPE_NAMESPACES: readonly string[] = [
+  ...new Set(
+    Object.values(ROLE_PERMISSIONS)
+      .flat()
+      .filter((cap) => cap !== "*")
+      .map((cap) => cap.split(".")[0])
+  ),
+];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type ApiKeySummary = Pick<
+  ApiKey,
+  | "id"
+  | "name"
+  | "prefix"
+  | "scopes"
+  | "rateLimitPerMinute"
+  | "createdByUserId"
+  | "lastUsedAt"
+  | "expiresAt"
+  | "revokedAt"
+  | "createdAt"
+>;
+
+export type CreateApiKeyInput = {
+  name: string;
+  scopes: string[];
+  expiresAt?: Date | null;
+  rateLimitPerMinute?: number;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function apiKeyError(message: string, statusCode: number) {
+  return Object.assign(new Error(message), { statusCode });
+}
+
+function sha256(input: string): string {
+  return createHash("sha256").update(input).digest("hex");
+}
+
+function toSummary(key: ApiKey): ApiKeySummary {
+  return {
+    id: key.id,
+    name: key.name,
+    prefix: key.prefix,
+    scopes: key.scopes,
+    rateLimitPerMinute: key.rateLimitPerMinute,
+    createdByUserId: key.createdByUserId,
+    lastUsedAt: key.lastUsedAt,
+    expiresAt: key.expiresAt,
+    revokedAt: key.revokedAt,
+    createdAt: key.createdAt,
+  };
+}
+
+export function isApiKeyToken(token: string): boolean {
+  return API_KEY_PATTERN.test(token);
+}
+
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const prefix = `${API_KEY_PREFIX}${randomBytes(4).toString("hex")}`;
+  const key = `${prefix}_${randomBytes(32).toString("base64url")}`;
+  return { key, prefix, keyHash: sha256(key) };
+}
+
+/**
+ * Validate requested scopes against the known namespaces and what the
+ * creating user's role grants. Returns a list of problems (empty when valid).
+ * `role` is null for super admins, who may grant anything.
+ */
+export function validateApiKeyScopes(scopes: string[], role: string | null): string[] {
+  const problems: string[] = [];
+  if (scopes.length === 0) problems.push("at least one scope is required");
+
+  for (const scope of scopes) {
+    const [namespace, action, ...rest] = scope.split(".");
+    const wellFormed =
+      scope === "*" ||
+      (rest.length === 0 && API_KEY_SCOPE_NAMESPACES.includes(namespace) && /^([a-z_]+|\*)$/.test(action ?? ""));
+    if (!wellFormed) {
+      problems.push(`unknown scope "${scope}"`);
+      continue;
+    }
+    if (role !== null && !can(role, scope)) {
+      problems.push(`your role cannot grant "${scope}"`);
+    }
+  }
+
+  return problems;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Management
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function getCreatorRole(tenantId: number, userId: string): Promise<string | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { isSuperAdmin: true },
+  });
+  if (user?.isSuperAdmin) return null;
+
+  const membership = await prisma.tenantMembership.findUnique({
+    where: { userId_tenantId: { userId, tenantId } },
+    select: { role: true },
+  });
+  if (!membership) throw apiKeyError("forbidden_tenant", 403);
+  return membership.role;
+}
+
+/**
+ * Issue a new key. The raw key is returned once and never stored.
+ */
+export async function createApiKey(
+  tenantId: number,
+  userId: string,
+  input: CreateApiKeyInput
+): Promise<{ apiKey: ApiKeySummary; key: string }> {
+  const name = input.name?.trim();
+  if (!name || name.length > 100) throw apiKeyError("invalid_name", 400);
+
+  const scopes = [...new Set(input.scopes ?? [])];
+  const scopeProblems = validateApiKeyScopes(scopes, await getCreatorRole(tenantId, userId));
+  if (scopeProblems.length > 0) {
+    throw Object.assign(apiKeyError("invalid_scopes", 400), { details: scopeProblems });
+  }
+
+  const rateLimitPerMinute = input.rateLimitPerMinute ?? API_KEY_DEFAULT_RATE_LIMIT;
+  if (!Number.isInteger(rateLimitPerMinute) || rateLimitPerMinute < 1 || rateLimitPerMinute > API_KEY_MAX_RATE_LIMIT) {
+    throw apiKeyError("invalid_rate_limit", 400);
+  }
+
+  if (input.expiresAt && input.expiresAt.getTime() <= Date.now()) {
+    throw apiKeyError("invalid_expiry", 400);
+  }
+
+  const activeCount = await prisma.apiKey.count({
+    where: { tenantId, revokedAt: null },
+  });
+  if (activeCount >= API_KEYS_PER_TENANT_LIMIT) throw apiKeyError("api_key_limit_reached", 409);
+
+  const { key, prefix, keyHash } = generateApiKey();
+  const created = await prisma.apiKey.create({
+    data: {
+      tenantId,
+      name,
+      prefix,
+      keyHash,
+      scopes,
+      rateLimitPerMinute,
+      createdByUserId: userId,
+      expiresAt: input.expiresAt ?? null,
+    },
+  });
+
+  return { apiKey: toSummary(created), key };
+}
+
+export async function listApiKeys(
+  tenantId: number,
+  opts: { includeRevoked?: boolean } = {}
+): Promise<ApiKeySummary[]> {
+  const keys = await prisma.apiKey.findMany({
+    where: { tenantId, ...(opts.includeRevoked ? {} : { revokedAt: null }) },
+    orderBy: { createdAt: "desc" },
+  });
+  return keys.map(toSummary);
+}
+
+export async function revokeApiKey(
+  tenantId: number,
+  id: number,
+  userId: string
+): Promise<ApiKeySummary> {
+  const existing = await prisma.apiKey.findFirst({ where: { id, tenantId } });
+  if (!existing) throw apiKeyError("api_key_not_found", 404);
+  if (existing.revokedAt) return toSummary(existing);
+
+  const revoked = await prisma.apiKey.update({
+    where: { id },
+    data: { revokedAt: new Date(), revokedByUserId: userId },
+  });
+  return toSummary(revoked);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Authentication
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Look up a presented key. Returns null for unknown, revoked or expired keys.
+ */
+export async function resolveApiKey(token: string): Promise<ApiKey | null> {
+  if (!isApiKeyToken(token)) return null;
+
+  const key = await prisma.apiKey.findUnique({ where: { keyHash: sha256(token) } });
+  if (!key || key.revokedAt) return null;
+  if (key.expiresAt && key.expiresAt.getTime() <= Date.now()) return null;
+  return key;
+}
+
+/** Record use of a key (throttled). Never throws. */
+export async function recordApiKeyUse(key: ApiKey, ip: string | null): Promise<void> {
+  if (key.lastUsedAt && Date.now() - key.lastUsedAt.getTime() < LAST_USED_WRITE_INTERVAL_MS) return;
+
+  try {
+    await prisma.apiKey.update({
+      where: { id: key.id },
+      data: { lastUsedAt: new Date(), lastUsedIp: ip?.slice(0, 64) ?? null },
+    });
+  } catch (err) {
+    console.error("[api-keys] Failed to record key use:", (err as Error).message);
+  }
+}
@@ -224,8 +224,9 @@ export async function auditCreate(
 /**
  * Log an UPDATE action — diffs before/after states and records per-field changes.
  *
- * @param before - The entity state BEFORE the update (fetch this first!)
- * @param after  - The entity state AFTER the update
+ * @param before   - The entity state BEFORE the update (fetch this first!)
+ * @param after    - The entity state AFTER the update
+ * @param metadata - Optional context stored with every field change (e.g. why it changed)
  */
 export async function auditUpdate(
   entityType: AuditEntityType,
@@ -233,6 +234,7 @@ export async function auditUpdate(
   before: Record<string, unknown>,
   after: Record<string, unknown>,
   ctx: AuditContext,
+  metadata?: Record<string, unknown>,
 ): Promise<void> {
   try {
     const changes = diffFields(entityType, before, after);
@@ -253,7 +255,7 @@ export async function auditUpdate(
       changeSource: ctx.changeSource ?? "PLATFORM",
       ip: ctx.ip ?? null,
       requestId: ctx.requestId ?? null,
-      metadata: null,
+      metadata: metadata ?? null,
     }));
     await insertAuditEntries(entries);
   } catch (err) {
@@ -33,6 +33,26 @@ export type AuditAction =
   | "STAFF_INVITE_RESENT"
   | "STAFF_ROLE_CHANGED"
   | "STAFF_STATUS_CHANGED"
+  // API key events
+  | "API_KEY_CREATED"
+  | "API_KEY_REVOKED"
+  // Data export events
+  | "DATA_EXPORT_REQUESTED"
+  | "DATA_EXPORT_DOWNLOADED"
+  | "DATA_EXPORT_DELETED"
+  // Data import events
+  | "DATA_IMPORT_STARTED"
+  // Accounting events
+  | "ACCOUNTING_SETTINGS_UPDATED"
+  | "ACCOUNTING_SYNC_RUN"
+  // Webhook events
+  | "WEBHOOK_ENDPOINT_CREATED"
+  | "WEBHOOK_ENDPOINT_UPDATED"
+  | "WEBHOOK_ENDPOINT_DELETED"
+  | "WEBHOOK_SECRET_ROTATED"
+  | "WEBHOOK_DELIVERY_REPLAYED"
+  // Notification events
+  | "NOTIFICATION_ESCALATION_POLICY_UPDATED"
   // CSRF events
   | "CSRF_FAILED";
 
@@ -576,6 +576,8 @@ const SPECIES_GESTATION_DAYS: Record<string, number> = {
   CHICKEN: 21,
   ALPACA: 345,
   LLAMA: 350,
+  CATTLE: 283,
+  PIG: 114,
 };
 
 /**
@@ -591,6 +593,8 @@ const SPECIES_PRE_BIRTH_SIGNS: Record<string, string[]> = {
   CHICKEN: ["NESTING_BEHAVIOR"],
   ALPACA: ["UDDER_TIGHT", "VULVAR_CHANGES", "RESTLESSNESS"],
   LLAMA: ["UDDER_TIGHT", "VULVAR_CHANGES", "RESTLESSNESS"],
+  CATTLE: ["UDDER_DEVELOPMENT", "LIGAMENT_SOFTENING", "VULVAR_RELAXATION", "TAILHEAD_RELAXATION", "RESTLESSNESS"],
+  PIG: ["NESTING_BEHAVIOR", "MILK_PRESENT", "VULVAR_CHANGES", "RESTLESSNESS", "LOSS_OF_APPETITE"],
 };
 
 /**
@@ -671,6 +675,27 @@ function getScheduledMilestonesConfig(species: string): Array<{ type: string; da
         { type: "OVERDUE_VET_CALL", daysFromBreeding: gestation + 15 },
       ];
 
+    case "CATTLE":
+      return [
+        { type: "RETURN_TO_HEAT_CHECK", daysFromBreeding: 18 },
+        { type: "PREGNANCY_CONFIRMATION", daysFromBreeding: 35 },
+        { type: "PREGNANCY_RECHECK", daysFromBreeding: 60 },
+        { type: "BEGIN_MONITORING", daysFromBreeding: 262 }, // Close-up period, 3 weeks out
+        { type: "PREPARE_BIRTH_AREA", daysFromBreeding: 276 },
+        { type: "DUE_DATE", daysFromBreeding: gestation },
+        { type: "OVERDUE_VET_CALL", daysFromBreeding: gestation + 10 },
+      ];
+
+    case "PIG":
+      return [
+        { type: "RETURN_TO_HEAT_CHECK", daysFromBreeding: 18 },
+        { type: "PREGNANCY_CONFIRMATION", daysFromBreeding: 28 },
+        { type: "BEGIN_MONITORING", daysFromBreeding: 107 }, // Move to farrowing accommodation
+        { type: "PREPARE_BIRTH_AREA", daysFromBreeding: 109 },
+        { type: "DUE_DATE", daysFromBreeding: gestation },
+        { type: "OVERDUE_VET_CALL", daysFromBreeding: gestation + 3 },
+      ];
+
     default:
       // Fallback to dog-like schedule
       return [
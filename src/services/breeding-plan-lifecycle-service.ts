@@ -60,6 +60,8 @@ const SPECIES_POST_BIRTH_INTERVALS: Record<
   SHEEP:   { weanDays: 60,  placementStartDays: 84,  placementCompletedDays: 112 },
   ALPACA:  { weanDays: 180, placementStartDays: 210, placementCompletedDays: 365 },
   LLAMA:   { weanDays: 180, placementStartDays: 210, placementCompletedDays: 365 },
+  CATTLE:  { weanDays: 205, placementStartDays: 210, placementCompletedDays: 270 },
+  PIG:     { weanDays: 21,  placementStartDays: 56,  placementCompletedDays: 70 },
 };
 
 function addDaysUTC(date: Date, days: number): Date {
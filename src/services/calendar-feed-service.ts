@@ -0,0 +1,548 @@
+// src/services/calendar-feed-service.ts
+/**
+ * Calendar Feed Service
+ *
+ * Per-user iCalendar subscription feeds (webcal://). Each feed has a random
+ * URL token (only its SHA-256 is stored) and a set of event categories. The
+ * feed aggregates the tenant's upcoming breeding, health and booking dates
+ * into one PUBLISH calendar that Google/Apple/Outlook poll on their own.
+ *
+ * Event UIDs are derived from the source record so refreshes update events in
+ * place; booking UIDs match the emailed invites (see ics-generator.ts).
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import type { CalendarFeed } from "@prisma/client";
+import prisma from "../prisma.js";
+import { predictNextCyclesForFemales } from "./cycle-analysis-service.js";
+import { generateBookingUid, generateIcsFeed, type IcsFeedEvent } from "./ics-generator.js";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const CALENDAR_FEED_CATEGORIES = [
+  "heats",
+  "breeding_milestones",
+  "due_dates",
+  "vaccinations",
+  "microchips",
+  "supplements",
+  "bookings",
+] as const;
+
+export type CalendarFeedCategory = (typeof CALENDAR_FEED_CATEGORIES)[number];
+
+export const CALENDAR_FEEDS_PER_USER_LIMIT = 10;
+
+/** Feed window: recent past (so just-missed items stay visible) through one year out */
+const FEED_LOOKBACK_DAYS = 30;
+const FEED_LOOKAHEAD_DAYS = 365;
+
+/** lastAccessedAt is only written when older than this; clients poll hourly */
+const LAST_ACCESSED_WRITE_INTERVAL_MS = 15 * 60 * 1000;
+
+const UID_DOMAIN = "breederhq.com";
+
+/** Due dates come from the plan's expected birth date, not the milestone rows */
+const DUE_DATE_MILESTONES = new Set(["DUE_DATE", "DUE_DATE_340D"]);
+
+const ACTIVE_SUPPLEMENT_STATUSES = ["NOT_STARTED", "IN_PROGRESS"] as const;
+
+const CATEGORY_LABELS: Record<CalendarFeedCategory, string> = {
+  heats: "Heats",
+  breeding_milestones: "Breeding",
+  due_dates: "Due dates",
+  vaccinations: "Vaccinations",
+  microchips: "Microchips",
+  supplements: "Supplements",
+  bookings: "Bookings",
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type CalendarFeedSummary = Pick<
+  CalendarFeed,
+  "id" | "name" | "categories" | "lastAccessedAt" | "revokedAt" | "createdAt" | "updatedAt"
+>;
+
+export type CalendarFeedInput = {
+  name?: string;
+  categories?: string[];
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function calendarFeedError(message: string, statusCode: number) {
+  return Object.assign(new Error(message), { statusCode });
+}
+
+function sha256(input: string): string {
+  return createHash("sha256").update(input).digest("hex");
+}
+
+function toSummary(feed: CalendarFeed): CalendarFeedSummary {
+  return {
+    id: feed.id,
+    name: feed.name,
+    categories: feed.categories,
+    lastAccessedAt: feed.lastAccessedAt,
+    revokedAt: feed.revokedAt,
+    createdAt: feed.createdAt,
+    updatedAt: feed.updatedAt,
+  };
+}
+
+function generateFeedToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: sha256(token) };
+}
+
+export function isCalendarFeedToken(token: string): boolean {
+  return /^[A-Za-z0-9_-]{43}$/.test(token);
+}
+
+/**
+ * Normalise requested categories. Returns null when any are unknown.
+ * An omitted list means every category.
+ */
+export function parseFeedCategories(categories: string[] | undefined): CalendarFeedCategory[] | null {
+  if (categories === undefined) return [...CALENDAR_FEED_CATEGORIES];
+  const unique = [...new Set(categories)];
+  if (unique.length === 0) return null;
+  if (!unique.every((c) => (CALENDAR_FEED_CATEGORIES as readonly string[]).includes(c))) return null;
+  return unique as CalendarFeedCategory[];
+}
+
+function parseName(name: string | undefined): string {
+  const trimmed = name?.trim();
+  if (!trimmed || trimmed.length > 100) throw calendarFeedError("invalid_name", 400);
+  return trimmed;
+}
+
+function uid(kind: string, id: number | string): string {
+  return `${kind}-${id}@${UID_DOMAIN}`;
+}
+
+/** YYYY-MM-DD (model output) → Date at UTC midnight for all-day events */
+function dateOnly(value: string): Date {
+  return new Date(`${value.slice(0, 10)}T00:00:00.000Z`);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+/** VET_ULTRASOUND_45D → "Vet ultrasound (day 45)" */
+export function milestoneLabel(milestoneType: string): string {
+  const dayMatch = milestoneType.match(/_(\d+)D$/);
+  const base = (dayMatch ? milestoneType.slice(0, -dayMatch[0].length) : milestoneType)
+    .toLowerCase()
+    .replace(/_/g, " ");
+  const label = base.charAt(0).toUpperCase() + base.slice(1);
+  return dayMatch ? `${label} (day ${dayMatch[1]})` : label;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Management
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Create a feed. The raw token is returned once and never stored.
+ */
+export async function createCalendarFeed(
+  tenantId: number,
+  userId: string,
+  input: CalendarFeedInput
+): Promise<{ feed: CalendarFeedSummary; token: string }> {
+  const name = parseName(input.name);
+  const categories = parseFeedCategories(input.categories);
+  if (!categories) throw calendarFeedError("invalid_categories", 400);
+
+  const activeCount = await prisma.calendarFeed.count({
+    where: { tenantId, userId, revokedAt: null },
+  });
+  if (activeCount >= CALENDAR_FEEDS_PER_USER_LIMIT) throw calendarFeedError("calendar_feed_limit_reached", 409);
+
+  const { token, tokenHash } = generateFeedToken();
+  const created = await prisma.calendarFeed.create({
+    data: { tenantId, userId, name, tokenHash, categories },
+  });
+
+  return { feed: toSummary(created), token };
+}
+
+export async function listCalendarFeeds(tenantId: number, userId: string): Promise<CalendarFeedSummary[]> {
+  const feeds = await prisma.calendarFeed.findMany({
+    where: { tenantId, userId, revokedAt: null },
+    orderBy: { createdAt: "desc" },
+  });
+  return feeds.map(toSummary);
+}
+
+async function getOwnFeed(tenantId: number, userId: string, id: number): Promise<CalendarFeed> {
+  const feed = await prisma.calendarFeed.findFirst({ where: { id, tenantId, userId, revokedAt: null } });
+  if (!feed) throw calendarFeedError("calendar_feed_not_found", 404);
+  return feed;
+}
+
+export async function updateCalendarFeed(
+  tenantId: number,
+  userId: string,
+  id: number,
+  input: CalendarFeedInput
+): Promise<CalendarFeedSummary> {
+  await getOwnFeed(tenantId, userId, id);
+
+  const data: { name?: string; categories?: string[] } = {};
+  if (input.name !== undefined) data.name = parseName(input.name);
+  if (input.categories !== undefined) {
+    const categories = parseFeedCategories(input.categories);
+    if (!categories) throw calendarFeedError("invalid_categories", 400);
+    data.categories = categories;
+  }
+
+  const updated = await prisma.calendarFeed.update({ where: { id }, data });
+  return toSummary(updated);
+}
+
+/**
+ * Replace a feed's token (e.g. after the URL leaked). Existing subscriptions
+ * stop updating; the new token is returned once.
+ */
+export async function rotateCalendarFeedToken(
+  tenantId: number,
+  userId: string,
+  id: number
+): Promise<{ feed: CalendarFeedSummary; token: string }> {
+  await getOwnFeed(tenantId, userId, id);
+
+  const { token, tokenHash } = generateFeedToken();
+  const updated = await prisma.calendarFeed.update({
+    where: { id },
+    data: { tokenHash, lastAccessedAt: null },
+  });
+  return { feed: toSummary(updated), token };
+}
+
+export async function revokeCalendarFeed(tenantId: number, userId: string, id: number): Promise<void> {
+  await getOwnFeed(tenantId, userId, id);
+  await prisma.calendarFeed.update({ where: { id }, data: { revokedAt: new Date() } });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Feed rendering
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Look up a feed by its URL token. Returns null for unknown or revoked feeds,
+ * and for users who are no longer active members of the feed's tenant.
+ */
+export async function resolveCalendarFeed(token: string): Promise<CalendarFeed | null> {
+  if (!isCalendarFeedToken(token)) return null;
+
+  const feed = await prisma.calendarFeed.findUnique({ where: { tokenHash: sha256(token) } });
+  if (!feed || feed.revokedAt) return null;
+
+  const membership = await prisma.tenantMembership.findUnique({
+    where: { userId_tenantId: { userId: feed.userId, tenantId: feed.tenantId } },
+    select: { membershipStatus: true },
+  });
+  if (!membership || membership.membershipStatus !== "ACTIVE") return null;
+
+  return feed;
+}
+
+/** Record a feed fetch (throttled). Never throws. */
+export async function recordCalendarFeedAccess(feed: CalendarFeed): Promise<void> {
+  if (feed.lastAccessedAt && Date.now() - feed.lastAccessedAt.getTime() < LAST_ACCESSED_WRITE_INTERVAL_MS) return;
+
+  try {
+    await prisma.calendarFeed.update({ where: { id: feed.id }, data: { lastAccessedAt: new Date() } });
+  } catch (err) {
+    console.error("[calendar-feeds] Failed to record feed access:", (err as Error).message);
+  }
+}
+
+async function heatEvents(tenantId: number, from: Date, to: Date): Promise<IcsFeedEvent[]> {
+  const females = await prisma.animal.findMany({
+    where: {
+      tenantId,
+      sex: "FEMALE",
+      archived: false,
+      deletedAt: null,
+      reproductiveCycles: { some: {} },
+    },
+    select: { id: true, name: true },
+  });
+  const predictions = await predictNextCyclesForFemales(females.map((f) => f.id));
+
+  const events: IcsFeedEvent[] = [];
+  for (const female of females) {
+    const prediction = predictions.get(female.id);
+    if (!prediction) continue;
+
+    const heat = dateOnly(prediction.nextHeat.mostLikely);
+    if (heat >= from && heat <= to) {
+      events.push({
+        uid: uid("heat-animal", female.id),
+        summary: `Expected heat: ${female.name}`,
+        description:
+          `Most likely ${prediction.nextHeat.mostLikely} ` +
+          `(range ${prediction.nextHeat.lower} to ${prediction.nextHeat.upper}).`,
+        start: heat,
+        allDay: true,
+        categories: [CATEGORY_LABELS.heats],
+      });
+    }
+
+    const testing = dateOnly(prediction.recommendedTestingStart);
+    if (testing >= from && testing <= to) {
+      events.push({
+        uid: uid("testing-animal", female.id),
+        summary: `Start hormone testing: ${female.name}`,
+        description:
+          `Expected ovulation ${prediction.nextOvulation.mostLikely} ` +
+          `(range ${prediction.nextOvulation.lower} to ${prediction.nextOvulation.upper}).`,
+        start: testing,
+        allDay: true,
+        categories: [CATEGORY_LABELS.heats],
+      });
+    }
+  }
+  return events;
+}
+
+async function milestoneEvents(tenantId: number, from: Date, to: Date): Promise<IcsFeedEvent[]> {
+  const milestones = await prisma.breedingMilestone.findMany({
+    where: {
+      tenantId,
+      isCompleted: false,
+      scheduledDate: { gte: from, lte: to },
+      breedingPlan: { deletedAt: null, archived: false, birthDateActual: null },
+    },
+    select: {
+      id: true,
+      milestoneType: true,
+      scheduledDate: true,
+      notes: true,
+      breedingPlan: { select: { name: true, dam: { select: { name: true } } } },
+    },
+    orderBy: { scheduledDate: "asc" },
+  });
+
+  return milestones
+    .filter((m) => !DUE_DATE_MILESTONES.has(m.milestoneType))
+    .map((m) => ({
+      uid: uid("milestone", m.id),
+      summary: `${milestoneLabel(m.milestoneType)}: ${m.breedingPlan.dam?.name ?? m.breedingPlan.name}`,
+      description: [`Breeding plan: ${m.breedingPlan.name}`, m.notes].filter(Boolean).join("\n"),
+      start: m.scheduledDate,
+      allDay: true,
+      categories: [CATEGORY_LABELS.breeding_milestones],
+    }));
+}
+
+async function dueDateEvents(tenantId: number, from: Date, to: Date): Promise<IcsFeedEvent[]> {
+  const plans = await prisma.breedingPlan.findMany({
+    where: {
+      tenantId,
+      deletedAt: null,
+      archived: false,
+      status: { in: ["BRED", "PREGNANT"] },
+      birthDateActual: null,
+      expectedBirthDate: { gte: from, lte: to },
+    },
+    select: { id: true, name: true, expectedBirthDate: true, dam: { select: { name: true } } },
+  });
+
+  return plans.map((p) => ({
+    uid: uid("due-plan", p.id),
+    summary: `Due date: ${p.dam?.name ?? p.name}`,
+    description: `Breeding plan: ${p.name}`,
+    start: p.expectedBirthDate!,
+    allDay: true,
+    categories: [CATEGORY_LABELS.due_dates],
+  }));
+}
+
+async function vaccinationEvents(tenantId: number, from: Date, to: Date): Promise<IcsFeedEvent[]> {
+  const records = await prisma.vaccinationRecord.findMany({
+    where: {
+      tenantId,
+      expiresAt: { gte: from, lte: to },
+      animal: { archived: false, deletedAt: null },
+    },
+    select: {
+      id: true,
+      animalId: true,
+      protocolKey: true,
+      administeredAt: true,
+      expiresAt: true,
+      animal: { select: { name: true } },
+    },
+  });
+  if (records.length === 0) return [];
+
+  // A later dose of the same protocol supersedes an expiring one
+  const latest = await prisma.vaccinationRecord.groupBy({
+    by: ["animalId", "protocolKey"],
+    where: {
+      tenantId,
+      animalId: { in: [...new Set(records.map((r) => r.animalId))] },
+    },
+    _max: { administeredAt: true },
+  });
+  const latestByKey = new Map(
+    latest.map((l) => [`${l.animalId}:${l.protocolKey}`, l._max.administeredAt?.getTime() ?? 0])
+  );
+
+  return records
+    .filter((r) => r.administeredAt.getTime() >= (latestByKey.get(`${r.animalId}:${r.protocolKey}`) ?? 0))
+    .map((r) => {
+      const vaccineName = r.protocolKey.split(".").pop()?.replace(/_/g, " ") || r.protocolKey;
+      return {
+        uid: uid("vaccination", r.id),
+        summary: `Vaccination due: ${vaccineName} (${r.animal.name})`,
+        description: `Last given ${r.administeredAt.toISOString().slice(0, 10)}.`,
+        start: r.expiresAt!,
+        allDay: true,
+        categories: [CATEGORY_LABELS.vaccinations],
+      };
+    });
+}
+
+async function microchipEvents(tenantId: number, from: Date, to: Date): Promise<IcsFeedEvent[]> {
+  const registrations = await prisma.animalMicrochipRegistration.findMany({
+    where: { tenantId, expirationDate: { gte: from, lte: to } },
+    select: {
+      id: true,
+      microchipNumber: true,
+      expirationDate: true,
+      registry: { select: { name: true } },
+      animal: { select: { name: true, archived: true, deletedAt: true } },
+      offspring: { select: { name: true } },
+    },
+  });
+
+  return registrations
+    .filter((r) => !r.animal || (!r.animal.archived && !r.animal.deletedAt))
+    .map((r) => ({
+      uid: uid("microchip", r.id),
+      summary: `Microchip renewal: ${r.animal?.name ?? r.offspring?.name ?? r.microchipNumber}`,
+      description: `${r.registry.name} registration for chip ${r.microchipNumber}.`,
+      start: r.expirationDate!,
+      allDay: true,
+      categories: [CATEGORY_LABELS.microchips],
+    }));
+}
+
+async function supplementEvents(tenantId: number, from: Date, to: Date): Promise<IcsFeedEvent[]> {
+  const schedules = await prisma.supplementSchedule.findMany({
+    where: {
+      tenantId,
+      status: { in: [...ACTIVE_SUPPLEMENT_STATUSES] },
+      nextDueDate: { gte: from, lte: to },
+    },
+    select: {
+      id: true,
+      nextDueDate: true,
+      completedDoses: true,
+      totalDoses: true,
+      protocol: { select: { name: true } },
+      animal: { select: { name: true } },
+    },
+  });
+
+  return schedules.map((s) => ({
+    uid: uid("supplement-schedule", s.id),
+    summary: `${s.protocol.name}: ${s.animal.name}`,
+    description:
+      s.totalDoses != null
+        ? `Dose ${s.completedDoses + 1} of ${s.totalDoses}.`
+        : `Dose ${s.completedDoses + 1}.`,
+    start: s.nextDueDate!,
+    allDay: true,
+    categories: [CATEGORY_LABELS.supplements],
+  }));
+}
+
+async function bookingEvents(tenantId: number, from: Date, to: Date): Promise<IcsFeedEvent[]> {
+  const bookings = await prisma.schedulingBooking.findMany({
+    where: {
+      tenantId,
+      status: "CONFIRMED",
+      slot: { startsAt: { gte: from, lte: to } },
+    },
+    select: {
+      id: true,
+      clientNotes: true,
+      party: { select: { name: true } },
+      slot: {
+        select: {
+          startsAt: true,
+          endsAt: true,
+          location: true,
+          block: { select: { location: true, template: { select: { name: true } } } },
+        },
+      },
+    },
+  });
+
+  return bookings.map((b) => ({
+    uid: generateBookingUid(b.id, tenantId),
+    summary: `${b.slot.block.template?.name ?? "Appointment"}: ${b.party.name}`,
+    description: b.clientNotes ? `Client notes: ${b.clientNotes}` : null,
+    start: b.slot.startsAt,
+    end: b.slot.endsAt,
+    allDay: false,
+    location: b.slot.location ?? b.slot.block.location,
+    categories: [CATEGORY_LABELS.bookings],
+  }));
+}
+
+const CATEGORY_SOURCES: Record<
+  CalendarFeedCategory,
+  (tenantId: number, from: Date, to: Date) => Promise<IcsFeedEvent[]>
+> = {
+  heats: heatEvents,
+  breeding_milestones: milestoneEvents,
+  due_dates: dueDateEvents,
+  vaccinations: vaccinationEvents,
+  microchips: microchipEvents,
+  supplements: supplementEvents,
+  bookings: bookingEvents,
+};
+
+/**
+ * Collect the events for a feed's categories within the feed window.
+ */
+export async function buildCalendarFeedEvents(
+  tenantId: number,
+  categories: string[],
+  now: Date = new Date()
+): Promise<IcsFeedEvent[]> {
+  const from = addDays(now, -FEED_LOOKBACK_DAYS);
+  const to = addDays(now, FEED_LOOKAHEAD_DAYS);
+
+  const selected = CALENDAR_FEED_CATEGORIES.filter((c) => categories.includes(c));
+  const results = await Promise.all(selected.map((c) => CATEGORY_SOURCES[c](tenantId, from, to)));
+
+  return results.flat().sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Render a feed as an .ics document.
+ */
+export async function renderCalendarFeed(feed: CalendarFeed): Promise<string> {
+  const [tenant, events] = await Promise.all([
+    prisma.tenant.findUnique({ where: { id: feed.tenantId }, select: { name: true } }),
+    buildCalendarFeedEvents(feed.tenantId, feed.categories),
+  ]);
+  const calendarName = tenant?.name ? `${tenant.name} – ${feed.name}` : feed.name;
+  return generateIcsFeed(calendarName, events);
+}
@@ -212,8 +212,49 @@ export async function getCommPreferencesBatch(
   return result;
 }
 
+/**
+ * Apply an SMS/WhatsApp opt-out (STOP) or opt-in (START) for a phone number.
+ * SMS records compliance (UNSUBSCRIBED/SUBSCRIBED) on every party with that
+ * phoneE164; WhatsApp has no compliance field, so it sets the preference
+ * (NEVER/ALLOW) on parties with that whatsappE164 or phoneE164. An opt-out
+ * also turns the channel off in staff notification preferences using the
+ * number; opting back in leaves those for the user to re-enable.
+ */
+export async function applyPhoneOptOut(
+  phoneE164: string,
+  channel: "SMS" | "WHATSAPP",
+  optedOut: boolean,
+  source: string
+): Promise<{ partiesUpdated: number }> {
+  const parties = await prisma.party.findMany({
+    where:
+      channel === "SMS"
+        ? { phoneE164 }
+        : { OR: [{ whatsappE164: phoneE164 }, { phoneE164 }] },
+    select: { id: true },
+  });
+
+  for (const party of parties) {
+    const update: CommPreferenceUpdate =
+      channel === "SMS"
+        ? { channel, compliance: optedOut ? "UNSUBSCRIBED" : "SUBSCRIBED", complianceSource: source }
+        : { channel, preference: optedOut ? "NEVER" : "ALLOW" };
+    await updateCommPreferences(party.id, [update], undefined, source);
+  }
+
+  if (optedOut) {
+    await prisma.userNotificationPreferences.updateMany({
+      where: { phoneNumber: phoneE164 },
+      data: channel === "SMS" ? { smsEnabled: false } : { whatsappEnabled: false },
+    });
+  }
+
+  return { partiesUpdated: parties.length };
+}
+
 export const CommPrefsService = {
   getCommPreferences,
   getCommPreferencesBatch,
   updateCommPreferences,
+  applyPhoneOptOut,
 };
@@ -10,7 +10,7 @@
  *   4. null                          → source 'none'  (listing should use priceModel = "inquire")
  */
 
-import type { PrismaClient } from "@prisma/client";
+import type { Prisma, PrismaClient } from "@prisma/client";
 
 export type PriceSource =
   | "individual"
@@ -38,7 +38,7 @@ export interface ResolvedPrice {
  */
 export async function resolveOffspringPrice(
   offspringId: number,
-  prisma: PrismaClient,
+  prisma: PrismaClient | Prisma.TransactionClient,
 ): Promise<ResolvedPrice> {
   // ── Step 1: Fetch offspring with plan + program in one query ────────
   const offspring = await prisma.offspring.findUnique({
@@ -0,0 +1,235 @@
+// src/services/contracts/contract-integrity.ts
+/**
+ * Contract Integrity Service
+ *
+ * Tamper evidence for e-signed contracts:
+ * - Fingerprint rendered ContractContent when the contract is sent
+ * - Re-verify the fingerprint before each signature
+ * - On completion, compute a final hash over the content and every signer's
+ *   audit data, render the certificate of completion and record the SHA-256
+ *   of the certified PDF
+ * - Verify an uploaded PDF against the recorded hash
+ */
+
+import { createHash } from "node:crypto";
+import { PDFDocument } from "pdf-lib";
+import prisma from "../../prisma.js";
+import {
+  CERTIFIED_PDF_CONTRACT_KEYWORD,
+  CERTIFIED_PDF_HASH_KEYWORD,
+  generateContractPdf,
+} from "./pdf-generator/contract-pdf-builder.js";
+
+// ────────────────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────────────────
+
+export interface CompletionSigner {
+  contractPartyId: number;
+  name: string | null;
+  email: string | null;
+  signedAt: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  signatureHash: string | null;
+}
+
+export type ContractPdfVerification =
+  | {
+      status: "verified";
+      contract: { title: string; signedAt: string | null; signers: string[]; completionHash: string };
+    }
+  | { status: "modified"; contract: { title: string; signedAt: string | null } }
+  | { status: "unknown" };
+
+// ────────────────────────────────────────────────────────────────────────────
+// Hashing
+// ────────────────────────────────────────────────────────────────────────────
+
+export function sha256Hex(input: string | Uint8Array): string {
+  return createHash("sha256").update(input).digest("hex");
+}
+
+/**
+ * Fingerprint of the rendered contract text
+ */
+export function hashContractContent(renderedHtml: string): string {
+  return sha256Hex(renderedHtml);
+}
+
+/**
+ * Final hash binding the content fingerprint to every signature. Signers are
+ * sorted so the hash doesn't depend on query order.
+ */
+export function computeCompletionHash(
+  contractId: number,
+  contentHash: string,
+  signers: CompletionSigner[]
+): string {
+  const canonical = JSON.stringify({
+    contractId,
+    contentHash,
+    signers: [...signers]
+      .sort((a, b) => a.contractPartyId - b.contractPartyId)
+      .map((s) => [s.contractPartyId, s.name, s.email, s.signedAt, s.ipAddress, s.userAgent, s.signatureHash]),
+  });
+  return sha256Hex(canonical);
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Signing flow
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Return the stored content hash, backfilling it for contracts sent before
+ * hashing existed (the content row is immutable, so hashing now is equivalent).
+ */
+export async function ensureContentHash(contractId: number): Promise<string> {
+  const content = await prisma.contractContent.findUniqueOrThrow({
+    where: { contractId },
+    select: { id: true, renderedHtml: true, contentHash: true },
+  });
+  if (content.contentHash) return content.contentHash;
+
+  const contentHash = hashContractContent(content.renderedHtml);
+  await prisma.contractContent.update({ where: { id: content.id }, data: { contentHash } });
+  return contentHash;
+}
+
+/**
+ * Re-hash the stored content and compare with the hash captured at send
+ * time. Throws a 409 if the text no longer matches what was sent.
+ */
+export async function verifyContractContent(contractId: number): Promise<string> {
+  const content = await prisma.contractContent.findUnique({
+    where: { contractId },
+    select: { renderedHtml: true, contentHash: true },
+  });
+  if (!content) {
+    throw Object.assign(new Error("Contract content not rendered"), { statusCode: 409 });
+  }
+
+  const currentHash = hashContractContent(content.renderedHtml);
+  if (content.contentHash && content.contentHash !== currentHash) {
+    console.error(
+      `[contract-integrity] Content hash mismatch for contract ${contractId}: expected ${content.contentHash}, got ${currentHash}`
+    );
+    throw Object.assign(new Error("Contract content has changed since it was sent"), { statusCode: 409 });
+  }
+  return content.contentHash ?? (await ensureContentHash(contractId));
+}
+
+/**
+ * Seal a fully signed contract: compute the completion hash from the signed
+ * events, render the certificate of completion and record its PDF hash.
+ */
+export async function finalizeSignedContract(tenantId: number, contractId: number): Promise<void> {
+  const contentHash = await verifyContractContent(contractId);
+
+  const contract = await prisma.contract.findUniqueOrThrow({
+    where: { id: contractId, tenantId },
+    select: { signedAt: true },
+  });
+
+  const signedEvents = await prisma.signatureEvent.findMany({
+    where: { contractId, tenantId, status: "signed", partyId: { not: null } },
+    include: { party: { select: { name: true, email: true } } },
+    orderBy: { at: "asc" },
+  });
+
+  const signers: CompletionSigner[] = signedEvents.map((e) => ({
+    contractPartyId: e.partyId!,
+    name: e.party?.name ?? null,
+    email: e.party?.email ?? null,
+    signedAt: e.at.toISOString(),
+    ipAddress: e.ipAddress,
+    userAgent: e.userAgent,
+    signatureHash: (e.data as any)?.signatureHash ?? null,
+  }));
+
+  const completionHash = computeCompletionHash(contractId, contentHash, signers);
+  await prisma.contract.update({ where: { id: contractId }, data: { completionHash } });
+
+  // signedAt freezes the certificate; it must be set before rendering
+  if (!contract.signedAt) return;
+
+  const { buffer } = await generateContractPdf(contractId, tenantId, { includeAuditTrail: true });
+  await prisma.contract.update({
+    where: { id: contractId },
+    data: { signedPdfSha256: sha256Hex(buffer) },
+  });
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Verification
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Read the contract id and completion hash embedded in a certified PDF
+ */
+async function readCertifiedPdfKeywords(
+  pdf: Uint8Array
+): Promise<{ contractId: number; completionHash: string } | null> {
+  try {
+    const doc = await PDFDocument.load(pdf, { updateMetadata: false, ignoreEncryption: true });
+    const keywords = (doc.getKeywords() ?? "").split(/\s+/);
+    const idKeyword = keywords.find((k) => k.startsWith(CERTIFIED_PDF_CONTRACT_KEYWORD));
+    const hashKeyword = keywords.find((k) => k.startsWith(CERTIFIED_PDF_HASH_KEYWORD));
+    if (!idKeyword || !hashKeyword) return null;
+
+    const contractId = Number(idKeyword.slice(CERTIFIED_PDF_CONTRACT_KEYWORD.length));
+    if (!Number.isInteger(contractId) || contractId <= 0) return null;
+    return { contractId, completionHash: hashKeyword.slice(CERTIFIED_PDF_HASH_KEYWORD.length) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check an uploaded PDF against the certified PDFs on record.
+ *
+ * - verified: byte-identical to a certified contract PDF
+ * - modified: claims to be a certified contract (embedded id + hash match a
+ *   real contract) but its bytes differ
+ * - unknown: not a certified contract PDF
+ */
+export async function verifyContractPdf(pdf: Uint8Array): Promise<ContractPdfVerification> {
+  const fileHash = sha256Hex(pdf);
+
+  const match = await prisma.contract.findFirst({
+    where: { signedPdfSha256: fileHash, status: "signed" },
+    select: {
+      title: true,
+      signedAt: true,
+      completionHash: true,
+      parties: { where: { signer: true, status: "signed" }, select: { name: true }, orderBy: { order: "asc" } },
+    },
+  });
+  if (match) {
+    return {
+      status: "verified",
+      contract: {
+        title: match.title,
+        signedAt: match.signedAt?.toISOString() ?? null,
+        signers: match.parties.map((p) => p.name || "Signer"),
+        completionHash: match.completionHash ?? "",
+      },
+    };
+  }
+
+  const claimed = await readCertifiedPdfKeywords(pdf);
+  if (claimed) {
+    const contract = await prisma.contract.findFirst({
+      where: { id: claimed.contractId, completionHash: claimed.completionHash },
+      select: { title: true, signedAt: true },
+    });
+    if (contract) {
+      return {
+        status: "modified",
+        contract: { title: contract.title, signedAt: contract.signedAt?.toISOString() ?? null },
+      };
+    }
+  }
+
+  return { status: "unknown" };
+}
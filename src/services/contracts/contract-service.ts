@@ -19,6 +19,12 @@ import type {
 import prisma from "../../prisma.js";
 import { checkEntitlement } from "../subscription/entitlement-service.js";
 import { renderContractTemplate } from "./contract-template-renderer.js";
+import {
+  ensureContentHash,
+  finalizeSignedContract,
+  hashContractContent,
+  verifyContractContent,
+} from "./contract-integrity.js";
 import {
   logContractCreated,
   logContractSent,
@@ -42,6 +48,7 @@ import {
   sendContractVoidedEmail,
 } from "../email-service.js";
 import { extractComplianceRequirements } from "../compliance-extraction.js";
+import { emitWebhookEvent } from "../webhooks/index.js";
 
 // ────────────────────────────────────────────────────────────────────────────
 // Contract Creation
@@ -269,6 +276,7 @@ export async function renderAndStoreContractContent(
     data: {
       contractId,
       renderedHtml: html,
+      contentHash: hashContractContent(html),
       mergeData: context as any,
       templateVersion: contract.template.version,
     },
@@ -311,6 +319,7 @@ export async function sendContract(
   if (!existingContent) {
     await renderAndStoreContractContent(tenantId, contractId);
   }
+  const contentHash = await ensureContentHash(contractId);
 
   // Collect recipient emails
   const recipientEmails: string[] = [];
@@ -332,7 +341,7 @@ export async function sendContract(
   });
 
   // Log sent event
-  await logContractSent(req, tenantId, contractId, recipientEmails);
+  await logContractSent(req, tenantId, contractId, recipientEmails, contentHash);
 
   // Send email to each signing party
   const breederName = contract.tenant.name;
@@ -479,6 +488,9 @@ export async function signContract(
     throw new Error(canSignResult.reason || "Cannot sign at this time");
   }
 
+  // The signer must be signing exactly the text that was sent
+  const contentHash = await verifyContractContent(contractId);
+
   // Build signature data
   const signatureData: SignatureData = {
     type: input.signatureType,
@@ -500,18 +512,39 @@ export async function signContract(
   });
 
   // Log signature event
-  await logSignatureCaptured(req, tenantId, contractId, contractPartyId, signatureData);
+  await logSignatureCaptured(req, tenantId, contractId, contractPartyId, signatureData, contentHash);
 
   // Check if all parties have signed
   const allSigned = await checkAllPartiesSigned(contractId);
   if (allSigned) {
-    await prisma.contract.update({
+    const signed = await prisma.contract.update({
       where: { id: contractId },
       data: {
         status: "signed",
         signedAt: new Date(),
       },
     });
+    emitWebhookEvent(tenantId, "contract.signed", {
+      contract: {
+        id: signed.id,
+        title: signed.title,
+        status: signed.status,
+        signedAt: signed.signedAt,
+        templateId: signed.templateId,
+        offspringId: signed.offspringId,
+        animalId: signed.animalId,
+        waitlistEntryId: signed.waitlistEntryId,
+        breedingPlanId: signed.breedingPlanId,
+        invoiceId: signed.invoiceId,
+      },
+    });
+
+    // Seal with the completion hash and certificate of completion
+    try {
+      await finalizeSignedContract(tenantId, contractId);
+    } catch (err) {
+      console.error(`[contract-service] Failed to finalize certificate for contract ${contractId}:`, err);
+    }
 
     // Extract compliance requirements for HEALTH_GUARANTEE contracts
     try {
@@ -49,6 +49,16 @@ export {
   getContractEvents,
 } from "./signature-event-service.js";
 
+// Tamper evidence (content hash, completion certificate, PDF verification)
+export {
+  hashContractContent,
+  computeCompletionHash,
+  ensureContentHash,
+  verifyContractContent,
+  finalizeSignedContract,
+  verifyContractPdf,
+} from "./contract-integrity.js";
+
 // Contract scanning (for cron integration)
 export {
   scanContractExpirations,
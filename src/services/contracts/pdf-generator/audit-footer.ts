@@ -15,11 +15,28 @@ export interface AuditEntry {
   userAgent?: string;
 }
 
+export interface CertificateSigner {
+  name: string;
+  email?: string;
+  signedAt: Date;
+  ipAddress?: string;
+  userAgent?: string;
+  signatureType?: string;
+}
+
+export interface CertificateIntegrity {
+  contentHash: string;
+  completionHash: string;
+  signers: CertificateSigner[];
+}
+
 export interface AuditFooterData {
   contractId: number;
   title: string;
   entries: AuditEntry[];
   generatedAt: Date;
+  /** Present once all parties have signed (certificate of completion) */
+  integrity?: CertificateIntegrity;
 }
 
 /**
@@ -32,7 +49,9 @@ export function createAuditFooter(
     SignatureEvent & {
       party?: Pick<ContractParty, "name" | "email"> | null;
     }
-  >
+  >,
+  integrity?: CertificateIntegrity,
+  generatedAt: Date = new Date()
 ): AuditFooterData {
   const entries: AuditEntry[] = events.map((event) => {
     let action = getActionLabel(event.status);
@@ -53,7 +72,8 @@ export function createAuditFooter(
     contractId,
     title,
     entries,
-    generatedAt: new Date(),
+    generatedAt,
+    integrity,
   };
 }
 
@@ -116,23 +136,55 @@ function summarizeUserAgent(ua: string): string {
   return `${browser} on ${system}`;
 }
 
+/**
+ * Split a long value (e.g. a full user agent) into fixed-width chunks
+ */
+function chunk(value: string, width: number): string[] {
+  const parts: string[] = [];
+  for (let i = 0; i < value.length; i += width) parts.push(value.slice(i, i + width));
+  return parts;
+}
+
 /**
  * Format audit footer as text for PDF embedding
  */
 export function formatAuditFooterText(data: AuditFooterData): string {
   const lines: string[] = [
-    "═══════════════════════════════════════════════════════════════════════════════",
+    "===============================================================================",
     "                           CERTIFICATE OF COMPLETION",
-    "═══════════════════════════════════════════════════════════════════════════════",
+    "===============================================================================",
     "",
     `Document: ${data.title}`,
     `Contract ID: ${data.contractId}`,
     `Generated: ${data.generatedAt.toISOString()}`,
     "",
-    "AUDIT TRAIL:",
-    "───────────────────────────────────────────────────────────────────────────────",
   ];
 
+  if (data.integrity) {
+    lines.push("SIGNERS:");
+    lines.push("-------------------------------------------------------------------------------");
+    for (const signer of data.integrity.signers) {
+      const email = signer.email ? ` <${signer.email}>` : "";
+      lines.push(`${signer.name}${email}`);
+      lines.push(`    Signed:     ${signer.signedAt.toISOString()}${signer.signatureType ? ` (${signer.signatureType})` : ""}`);
+      lines.push(`    IP address: ${signer.ipAddress || "unknown"}`);
+      const [first, ...rest] = chunk(signer.userAgent || "unknown", 80);
+      lines.push(`    User agent: ${first}`);
+      for (const part of rest) lines.push(`                ${part}`);
+    }
+    lines.push("");
+    lines.push("DOCUMENT INTEGRITY (SHA-256):");
+    lines.push("-------------------------------------------------------------------------------");
+    lines.push(`Contract content: ${data.integrity.contentHash}`);
+    lines.push(`Completion hash:  ${data.integrity.completionHash}`);
+    lines.push("");
+  }
+
+  lines.push(
+    "AUDIT TRAIL:",
+    "-------------------------------------------------------------------------------",
+  );
+
   for (const entry of data.entries) {
     const timestamp = entry.timestamp.toISOString();
     const party = entry.partyName ? ` by ${entry.partyName}` : "";
@@ -145,10 +197,13 @@ export function formatAuditFooterText(data: AuditFooterData): string {
     }
   }
 
-  lines.push("───────────────────────────────────────────────────────────────────────────────");
+  lines.push("-------------------------------------------------------------------------------");
   lines.push("");
   lines.push("This document was electronically signed using BreederHQ E-Signatures.");
   lines.push("The signatures and audit trail are legally binding under the ESIGN Act.");
+  if (data.integrity) {
+    lines.push("Upload this PDF to BreederHQ contract verification to confirm it has not been altered.");
+  }
   lines.push("");
 
   return lines.join("\n");
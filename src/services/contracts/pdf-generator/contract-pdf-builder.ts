@@ -8,7 +8,12 @@
 
 import { PDFDocument, StandardFonts, rgb, PDFPage, PDFFont, degrees } from "pdf-lib";
 import prisma from "../../../prisma.js";
-import { createAuditFooter, formatAuditFooterText, type AuditFooterData } from "./audit-footer.js";
+import {
+  createAuditFooter,
+  formatAuditFooterText,
+  type AuditFooterData,
+  type CertificateIntegrity,
+} from "./audit-footer.js";
 import { embedSignatureImage, generateTypedSignatureText } from "./signature-embedder.js";
 
 // ────────────────────────────────────────────────────────────────────────────
@@ -29,6 +34,16 @@ interface PdfGenerationOptions {
   watermark?: string;
 }
 
+/**
+ * Fixed document info for reproducible output. With a fixed date the same
+ * inputs always produce byte-identical PDFs, which lets a certified PDF be
+ * re-generated on download and still match its stored SHA-256.
+ */
+interface PdfDocumentInfo {
+  date: Date;
+  keywords?: string[];
+}
+
 // ────────────────────────────────────────────────────────────────────────────
 // Constants
 // ────────────────────────────────────────────────────────────────────────────
@@ -40,6 +55,10 @@ const LINE_HEIGHT = 14;
 const FONT_SIZE = 11;
 const HEADING_SIZE = 16;
 
+/** Keyword prefixes embedded in certified PDFs so verification can identify the contract */
+export const CERTIFIED_PDF_CONTRACT_KEYWORD = "bhq-contract:";
+export const CERTIFIED_PDF_HASH_KEYWORD = "bhq-completion-hash:";
+
 // ────────────────────────────────────────────────────────────────────────────
 // Main Functions
 // ────────────────────────────────────────────────────────────────────────────
@@ -74,9 +93,14 @@ export async function generateContractPdf(
     throw new Error("Contract content not rendered");
   }
 
+  // A completed contract renders as its certificate of completion: the audit
+  // trail is frozen at signedAt and the output is reproducible
+  const certified =
+    options.includeAuditTrail !== false && contract.status === "signed" && !!contract.signedAt && !!contract.completionHash;
+
   // Fetch signature events for audit trail
   const events = await prisma.signatureEvent.findMany({
-    where: { contractId, tenantId },
+    where: { contractId, tenantId, ...(certified ? { at: { lte: contract.signedAt! } } : {}) },
     include: {
       party: {
         select: { name: true, email: true },
@@ -97,15 +121,42 @@ export async function generateContractPdf(
       signedAt: cp.signedAt!,
     }));
 
+  let integrity: CertificateIntegrity | undefined;
+  if (certified) {
+    integrity = {
+      contentHash: contract.content.contentHash ?? "",
+      completionHash: contract.completionHash!,
+      signers: events
+        .filter((e) => e.status === "signed" && e.partyId)
+        .map((e) => ({
+          name: e.party?.name || e.party?.email || "Signer",
+          email: e.party?.email || undefined,
+          signedAt: e.at,
+          ipAddress: e.ipAddress || undefined,
+          userAgent: e.userAgent || undefined,
+          signatureType: (e.data as any)?.signatureType,
+        })),
+    };
+  }
+
   // Generate PDF
   const buffer = await generateContractPdfBuffer(
     contract.title,
     contract.content.renderedHtml,
     signatures,
     options.includeAuditTrail !== false
-      ? createAuditFooter(contractId, contract.title, events)
+      ? createAuditFooter(contractId, contract.title, events, integrity, certified ? contract.signedAt! : undefined)
       : undefined,
-    options.watermark
+    options.watermark,
+    certified
+      ? {
+          date: contract.signedAt!,
+          keywords: [
+            `${CERTIFIED_PDF_CONTRACT_KEYWORD}${contractId}`,
+            `${CERTIFIED_PDF_HASH_KEYWORD}${contract.completionHash}`,
+          ],
+        }
+      : undefined
   );
 
   // Generate filename
@@ -123,9 +174,10 @@ export async function generateContractPdfBuffer(
   htmlContent: string,
   signatures: SignaturePosition[],
   auditData?: AuditFooterData,
-  watermark?: string
+  watermark?: string,
+  documentInfo?: PdfDocumentInfo
 ): Promise<Uint8Array> {
-  const pdfDoc = await PDFDocument.create();
+  const pdfDoc = await PDFDocument.create({ updateMetadata: !documentInfo });
 
   // Embed fonts
   const regularFont = await pdfDoc.embedFont(StandardFonts.Helvetica);
@@ -287,7 +339,11 @@ export async function generateContractPdfBuffer(
   pdfDoc.setTitle(title);
   pdfDoc.setCreator("BreederHQ E-Signatures");
   pdfDoc.setProducer("BreederHQ");
-  pdfDoc.setCreationDate(new Date());
+  pdfDoc.setCreationDate(documentInfo?.date ?? new Date());
+  if (documentInfo) {
+    pdfDoc.setModificationDate(documentInfo.date);
+    if (documentInfo.keywords) pdfDoc.setKeywords(documentInfo.keywords);
+  }
 
   return pdfDoc.save();
 }
@@ -116,14 +116,15 @@ export async function logContractSent(
   req: FastifyRequest,
   tenantId: number,
   contractId: number,
-  recipientEmails: string[]
+  recipientEmails: string[],
+  contentHash?: string
 ): Promise<void> {
   await logSignatureEvent(req, {
     tenantId,
     contractId,
     status: "pending",
     message: `Contract sent to ${recipientEmails.length} recipient(s)`,
-    data: { recipients: recipientEmails },
+    data: { recipients: recipientEmails, contentHash },
   });
 }
 
@@ -168,7 +169,8 @@ export async function logSignatureCaptured(
   tenantId: number,
   contractId: number,
   contractPartyId: number,
-  signatureData: SignatureData
+  signatureData: SignatureData,
+  contentHash?: string
 ): Promise<void> {
   // Hash the signature image if present (for integrity verification)
   let signatureHash: string | undefined;
@@ -186,6 +188,7 @@ export async function logSignatureCaptured(
     data: {
       signatureType: signatureData.type,
       signatureHash,
+      contentHash,
       typedName: signatureData.typedName,
       consentText: "I agree to sign this document electronically",
       capturedAt: signatureData.capturedAt,
@@ -4,8 +4,14 @@
  *
  * Calculates ovulation patterns, cycle history with enriched data,
  * and next cycle projections for individual females.
+ *
+ * Projections come from a per-female model (predictNextCycle) that weights
+ * recent cycles most, shrinks toward species/age priors, respects breeding
+ * seasons and returns 80% prediction intervals. The notification scanner uses
+ * the same model for heat and hormone-testing reminders.
  */
 
+import type { PregnancyCheckMethod } from "@prisma/client";
 import prisma from "../prisma.js";
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -53,25 +59,91 @@ export type NextCycleProjection = {
   confidence: ConfidenceLevel;
 } | null;
 
+/** Central prediction interval at CYCLE_PREDICTION_LEVEL */
+export type PredictionInterval = {
+  lower: string;
+  mostLikely: string;
+  upper: string;
+};
+
+/**
+ * Learned per-female model: recency-weighted cycle length and ovulation
+ * offset, shrunk toward the species prior (adjusted for age), projected to
+ * the next heat and clamped to the breeding season for seasonal breeders
+ */
+export type CyclePrediction = {
+  level: number;
+  cycleLength: {
+    meanDays: number;
+    sdDays: number;
+    /** Effective number of observed intervals after recency weighting */
+    effectiveCycles: number;
+    /** Intervals dropped as skipped/unrecorded heats or seasonal anestrus */
+    excludedIntervals: number;
+  };
+  ovulationOffset: {
+    meanDays: number;
+    sdDays: number;
+    effectiveCycles: number;
+  };
+  ageYears: number | null;
+  ageAdjustmentDays: number;
+  seasonalShiftDays: number;
+  /** Cycles projected past the last recorded one (>1 when heats went unrecorded) */
+  cyclesAhead: number;
+  nextHeat: PredictionInterval;
+  nextOvulation: PredictionInterval;
+  recommendedTestingStart: string;
+  /** Day of an observed heat to start testing (or heat checks) */
+  testingStartCycleDay: number;
+};
+
 export type CycleAnalysisResult = {
   animalId: number;
   species: string;
   cycleHistory: CycleHistoryEntry[];
   ovulationPattern: OvulationPattern;
   nextCycleProjection: NextCycleProjection;
+  prediction: CyclePrediction | null;
   cycleLengthDays: number;
   cycleLengthSource: "OVERRIDE" | "HISTORY" | "BIOLOGY";
+  heatDetection: HeatDetectionProfile | null;
+  pregnancyCheckWindows: PregnancyCheckWindow[];
 };
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Species Defaults
 // ─────────────────────────────────────────────────────────────────────────────
 
-type SpeciesConfig = {
+/**
+ * How heat is detected for species bred on observed (standing) heat rather
+ * than hormone testing
+ */
+export type HeatDetectionProfile = {
+  /** Used in guidance text in place of "progesterone testing" */
+  method: string;
+  /** Hours standing heat typically lasts */
+  estrusDurationHours: { min: number; max: number };
+  guidance: string;
+};
+
+/** Window after breeding in which a pregnancy check should be done */
+export type PregnancyCheckWindow = {
+  label: string;
+  method: PregnancyCheckMethod;
+  /** Days after breeding the window opens and closes */
+  startDay: number;
+  endDay: number;
+  guidance: string;
+};
+
+export type SpeciesConfig = {
   ovulationOffsetDays: number;
   gestationDays: number;
   cycleLenDays: number;
   isInducedOvulator: boolean;
+  heatDetection?: HeatDetectionProfile;
+  pregnancyChecks?: PregnancyCheckWindow[];
 };
 
 const SPECIES_DEFAULTS: Record<string, SpeciesConfig> = {
@@ -123,12 +195,110 @@ const SPECIES_DEFAULTS: Record<string, SpeciesConfig> = {
     cycleLenDays: 14,
     isInducedOvulator: true,
   },
+  CATTLE: {
+    ovulationOffsetDays: 1, // ~30 hours after the onset of standing heat
+    gestationDays: 283,
+    cycleLenDays: 21,
+    isInducedOvulator: false,
+    heatDetection: {
+      method: "heat checks",
+      estrusDurationHours: { min: 8, max: 18 },
+      guidance:
+        "Watch for standing heat at least twice daily (early morning and evening), or use tail chalk or activity monitors. Follow the AM/PM rule: breed or inseminate about 12 hours after standing heat is first seen.",
+    },
+    pregnancyChecks: [
+      {
+        label: "Return-to-heat check",
+        method: "OTHER",
+        startDay: 18,
+        endDay: 24,
+        guidance: "Watch for a return to heat around 21 days after breeding. No heat suggests she has settled.",
+      },
+      {
+        label: "Early pregnancy check",
+        method: "ULTRASOUND",
+        startDay: 28,
+        endDay: 45,
+        guidance: "Transrectal ultrasound from day 28, or rectal palpation from day 35.",
+      },
+      {
+        label: "Confirmation check",
+        method: "PALPATION",
+        startDay: 60,
+        endDay: 90,
+        guidance: "Re-confirm pregnancy to catch early embryonic loss before the cow is committed to the calving group.",
+      },
+    ],
+  },
+  PIG: {
+    ovulationOffsetDays: 2, // ~36-44 hours after the onset of standing heat
+    gestationDays: 114,
+    cycleLenDays: 21,
+    isInducedOvulator: false,
+    heatDetection: {
+      method: "heat checks with boar exposure",
+      estrusDurationHours: { min: 40, max: 60 },
+      guidance:
+        "Heat-check twice daily with a mature boar present using the back-pressure test. Breed 12-24 hours after standing heat is first seen and again 12-24 hours later.",
+    },
+    pregnancyChecks: [
+      {
+        label: "Return-to-heat check",
+        method: "OTHER",
+        startDay: 18,
+        endDay: 24,
+        guidance: "Heat-check with the boar 18-24 days after breeding. Sows that stand are open and can be rebred.",
+      },
+      {
+        label: "Ultrasound pregnancy check",
+        method: "ULTRASOUND",
+        startDay: 28,
+        endDay: 35,
+        guidance: "Real-time ultrasound from day 28 to confirm pregnancy before moving to gestation housing.",
+      },
+    ],
+  },
 };
 
-function getSpeciesDefaults(species: string): SpeciesConfig {
+export function getSpeciesDefaults(species: string): SpeciesConfig {
   return SPECIES_DEFAULTS[species] || SPECIES_DEFAULTS.DOG;
 }
 
+/** Population spread and age/season effects used as the prior for the per-female model */
+type CycleModelPrior = {
+  /** Between- and within-female SD of the cycle interval */
+  cycleLenSdDays: number;
+  ovulationOffsetSdDays: number;
+  /** Age after which intervals lengthen, and by how much per year */
+  primeAgeYears?: number;
+  agingDaysPerYear?: number;
+  /** Months (1-12, northern hemisphere) in which seasonal breeders cycle */
+  breedingSeasonMonths?: number[];
+};
+
+const CYCLE_MODEL_PRIORS: Record<string, CycleModelPrior> = {
+  DOG: { cycleLenSdDays: 30, ovulationOffsetSdDays: 2, primeAgeYears: 6, agingDaysPerYear: 7 },
+  CAT: { cycleLenSdDays: 4, ovulationOffsetSdDays: 1, breedingSeasonMonths: [2, 3, 4, 5, 6, 7, 8, 9] },
+  HORSE: {
+    cycleLenSdDays: 2,
+    ovulationOffsetSdDays: 1.5,
+    primeAgeYears: 15,
+    agingDaysPerYear: 0.3,
+    breedingSeasonMonths: [4, 5, 6, 7, 8, 9],
+  },
+  GOAT: { cycleLenSdDays: 2, ovulationOffsetSdDays: 1, breedingSeasonMonths: [8, 9, 10, 11, 12, 1] },
+  SHEEP: { cycleLenSdDays: 1.5, ovulationOffsetSdDays: 1, breedingSeasonMonths: [8, 9, 10, 11, 12, 1] },
+  RABBIT: { cycleLenSdDays: 2, ovulationOffsetSdDays: 1 },
+  ALPACA: { cycleLenSdDays: 3, ovulationOffsetSdDays: 1 },
+  LLAMA: { cycleLenSdDays: 3, ovulationOffsetSdDays: 1 },
+  CATTLE: { cycleLenSdDays: 2, ovulationOffsetSdDays: 0.5 },
+  PIG: { cycleLenSdDays: 1.5, ovulationOffsetSdDays: 0.5 },
+};
+
+function getCycleModelPrior(species: string): CycleModelPrior {
+  return CYCLE_MODEL_PRIORS[species] || CYCLE_MODEL_PRIORS.DOG;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Date Utilities (UTC-safe)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -192,7 +362,8 @@ function classifyOvulationPattern(
   avgOffset: number,
   speciesDefault: number,
   stdDev: number,
-  sampleSize: number
+  sampleSize: number,
+  testingMethod: string
 ): { label: OvulationClassification; confidence: ConfidenceLevel; guidance: string } {
   if (sampleSize < 2) {
     return {
@@ -218,13 +389,14 @@ function classifyOvulationPattern(
     sampleSize >= 3 && isConsistent ? "HIGH" :
     sampleSize >= 2 && isConsistent ? "MEDIUM" : "LOW";
 
-  return { label, confidence, guidance: generateGuidance(label, avgOffset, speciesDefault) };
+  return { label, confidence, guidance: generateGuidance(label, avgOffset, speciesDefault, testingMethod) };
 }
 
 function generateGuidance(
   classification: OvulationClassification,
   avgOffset: number,
-  speciesDefault: number
+  speciesDefault: number,
+  testingMethod: string
 ): string {
   if (classification === "Insufficient Data") {
     return "Record more breeding cycles with confirmed ovulation to unlock personalized predictions.";
@@ -235,15 +407,15 @@ function generateGuidance(
   const roundedAvgOffset = Math.round(avgOffset);
 
   if (classification === "Early Ovulator") {
-    return `This female typically ovulates on Day ${roundedAvgOffset}, which is ${Math.abs(variance)} day${Math.abs(variance) !== 1 ? 's' : ''} earlier than the breed average. Start progesterone testing on Day ${testStartDay} to catch the rise.`;
+    return `This female typically ovulates on Day ${roundedAvgOffset}, which is ${Math.abs(variance)} day${Math.abs(variance) !== 1 ? 's' : ''} earlier than the breed average. Start ${testingMethod} on Day ${testStartDay} to catch the rise.`;
   }
 
   if (classification === "Late Ovulator") {
-    return `This female typically ovulates on Day ${roundedAvgOffset}, which is ${variance} day${variance !== 1 ? 's' : ''} later than the breed average. Start progesterone testing on Day ${testStartDay} - don't rush into breeding too early.`;
+    return `This female typically ovulates on Day ${roundedAvgOffset}, which is ${variance} day${variance !== 1 ? 's' : ''} later than the breed average. Start ${testingMethod} on Day ${testStartDay} - don't rush into breeding too early.`;
   }
 
   // Average
-  return `This female follows the breed average ovulation pattern (Day ${speciesDefault}). Start progesterone testing on Day ${speciesDefault - 2} and continue daily until confirmed.`;
+  return `This female follows the breed average ovulation pattern (Day ${speciesDefault}). Start ${testingMethod} on Day ${Math.max(speciesDefault - 2, 0)} and continue daily until confirmed.`;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -292,53 +464,34 @@ function calculateCycleLengthFromHistory(
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Main Calculation
+// Cycle Enrichment
 // ─────────────────────────────────────────────────────────────────────────────
 
-export async function calculateCycleAnalysis(
-  animalId: number,
-  tenantId: number
-): Promise<CycleAnalysisResult> {
-  // 1. Get the animal to determine species and any overrides
-  const animal = await prisma.animal.findFirst({
-    where: { id: animalId, tenantId },
-    select: {
-      id: true,
-      species: true,
-      femaleCycleLenOverrideDays: true,
-    },
-  });
-
-  if (!animal) {
-    throw new Error("Animal not found");
-  }
-
-  const species = animal.species || "DOG";
-  const speciesConfig = getSpeciesDefaults(species);
-
-  // 2. Get all ReproductiveCycle records for this female
-  const cycles = await prisma.reproductiveCycle.findMany({
-    where: { femaleId: animalId, tenantId },
-    orderBy: { cycleStart: "asc" },
-  });
+type CycleRecord = {
+  id: number;
+  cycleStart: Date;
+  ovulation: Date | null;
+  notes: string | null;
+};
 
-  // 3. Get all BreedingPlans for this female to extract ovulation data
-  const breedingPlans = await prisma.breedingPlan.findMany({
-    where: { damId: animalId, tenantId },
-    select: {
-      id: true,
-      cycleStartObserved: true,
-      ovulationConfirmed: true,
-      ovulationConfirmedMethod: true,
-      birthDateActual: true,
-      varianceFromExpected: true,
-      species: true,
-    },
-    orderBy: { createdAt: "asc" },
-  });
+type PlanOvulationRecord = {
+  id: number;
+  cycleStartObserved: Date | null;
+  ovulationConfirmed: Date | null;
+  ovulationConfirmedMethod: string | null;
+  birthDateActual: Date | null;
+};
 
-  // 4. Merge data: ReproductiveCycle + BreedingPlan ovulation data
-  const enrichedCycles: CycleHistoryEntry[] = cycles.map((cycle) => {
+/**
+ * Attach ovulation data to each recorded cycle from the breeding plan whose
+ * observed cycle start is within ±3 days of it
+ */
+function enrichCycles(
+  cycles: CycleRecord[],
+  breedingPlans: PlanOvulationRecord[],
+  speciesConfig: SpeciesConfig
+): CycleHistoryEntry[] {
+  return cycles.map((cycle) => {
     // Find breeding plan that matches this cycle start (within ±3 days)
     const matchingPlan = breedingPlans.find((plan) => {
       if (!plan.cycleStartObserved) return false;
@@ -395,6 +548,354 @@ export async function calculateCycleAnalysis(
       notes: cycle.notes,
     };
   });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Per-Female Cycle Model
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Central coverage of the returned prediction intervals */
+export const CYCLE_PREDICTION_LEVEL = 0.8;
+const Z_80 = 1.2816;
+
+/** An interval's weight halves every this many cycles back */
+const RECENCY_HALF_LIFE_CYCLES = 3;
+
+/** Pseudo-observations the species mean is worth against the female's own data */
+const PRIOR_MEAN_STRENGTH = 2;
+
+/**
+ * Pseudo-observations the species spread is worth. Population SDs are well
+ * established, so a couple of erratic cycles shouldn't blow the interval open.
+ */
+const PRIOR_SPREAD_STRENGTH = 8;
+
+const CONFIDENCE_WEIGHT: Record<ConfidenceLevel, number> = { HIGH: 1, MEDIUM: 0.5, LOW: 0 };
+
+export type CycleModelObservation = {
+  cycleStart: Date;
+  ovulationOffsetDays: number | null;
+  confidence: ConfidenceLevel;
+};
+
+export type CycleModelInput = {
+  species: string;
+  birthDate: Date | null;
+  cycleLenOverrideDays: number | null;
+  cycles: CycleModelObservation[];
+  asOf: Date;
+};
+
+type WeightedEstimate = {
+  mean: number;
+  sd: number;
+  /** Variance of the mean itself, for multi-step projection */
+  meanVariance: number;
+  effectiveN: number;
+  df: number;
+};
+
+/**
+ * Recency-weighted mean and SD shrunk toward a prior. Values are oldest first.
+ * Uses Kish's effective sample size so heavily down-weighted old cycles don't
+ * count as full observations.
+ */
+function shrinkTowardPrior(
+  values: number[],
+  weights: number[],
+  priorMean: number,
+  priorSd: number
+): WeightedEstimate {
+  const totalW = weights.reduce((sum, w) => sum + w, 0);
+  const effectiveN = totalW > 0
+    ? Math.pow(totalW, 2) / weights.reduce((sum, w) => sum + w * w, 0)
+    : 0;
+
+  let observedMean = priorMean;
+  let observedVar = 0;
+  if (totalW > 0) {
+    observedMean = values.reduce((sum, v, i) => sum + v * weights[i], 0) / totalW;
+    const biased = values.reduce((sum, v, i) => sum + weights[i] * Math.pow(v - observedMean, 2), 0) / totalW;
+    observedVar = effectiveN > 1 ? biased * effectiveN / (effectiveN - 1) : 0;
+  }
+
+  const mean = (PRIOR_MEAN_STRENGTH * priorMean + effectiveN * observedMean) / (PRIOR_MEAN_STRENGTH + effectiveN);
+  const dataDf = Math.max(effectiveN - 1, 0);
+  const variance = (PRIOR_SPREAD_STRENGTH * priorSd * priorSd + dataDf * observedVar) / (PRIOR_SPREAD_STRENGTH + dataDf);
+
+  return {
+    mean,
+    sd: Math.sqrt(variance),
+    meanVariance: variance / (PRIOR_MEAN_STRENGTH + effectiveN),
+    effectiveN,
+    df: PRIOR_SPREAD_STRENGTH + dataDf,
+  };
+}
+
+/** Student-t multiplier for the 80% interval (Cornish-Fisher, first term) */
+function intervalMultiplier(df: number): number {
+  return Z_80 + (Math.pow(Z_80, 3) + Z_80) / (4 * df);
+}
+
+function recencyWeights(count: number): number[] {
+  return Array.from({ length: count }, (_, i) => Math.pow(0.5, (count - 1 - i) / RECENCY_HALF_LIFE_CYCLES));
+}
+
+/** First day of the next breeding season on or after `date` */
+function nextSeasonStart(date: Date, seasonMonths: number[]): Date {
+  const inSeason = (month: number) => seasonMonths.includes(((month - 1 + 12) % 12) + 1);
+  for (let ahead = 1; ahead <= 12; ahead++) {
+    const candidate = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + ahead, 1, 12));
+    const month = candidate.getUTCMonth() + 1;
+    if (inSeason(month) && !inSeason(month - 1)) return candidate;
+  }
+  return date;
+}
+
+/**
+ * Fit the per-female model and project her next heat and ovulation
+ * Returns null until at least one cycle start is recorded.
+ */
+export function predictNextCycle(input: CycleModelInput): CyclePrediction | null {
+  if (input.cycles.length === 0) return null;
+
+  const speciesConfig = getSpeciesDefaults(input.species);
+  const prior = getCycleModelPrior(input.species);
+  const cycles = [...input.cycles].sort((a, b) => a.cycleStart.getTime() - b.cycleStart.getTime());
+  const lastCycleStart = cycles[cycles.length - 1].cycleStart;
+
+  // Age shifts the prior, not the data: a female's own history still wins
+  const ageYears = input.birthDate
+    ? Math.max(daysBetween(input.asOf, input.birthDate) / 365.25, 0)
+    : null;
+  const ageAdjustmentDays = ageYears !== null && prior.primeAgeYears !== undefined
+    ? Math.max(ageYears - prior.primeAgeYears, 0) * (prior.agingDaysPerYear ?? 0)
+    : 0;
+  const priorCycleLen = (input.cycleLenOverrideDays ?? speciesConfig.cycleLenDays) + ageAdjustmentDays;
+
+  // Intervals far off the prior are skipped/unrecorded heats or seasonal
+  // anestrus, not evidence about her cycle length
+  const intervals: number[] = [];
+  let excludedIntervals = 0;
+  for (let i = 1; i < cycles.length; i++) {
+    const days = daysBetween(cycles[i].cycleStart, cycles[i - 1].cycleStart);
+    if (days <= 0) continue;
+    if (days < priorCycleLen * 0.5 || days > priorCycleLen * 1.75) {
+      excludedIntervals++;
+      continue;
+    }
+    intervals.push(days);
+  }
+
+  const cycleLen = input.cycleLenOverrideDays
+    ? { mean: input.cycleLenOverrideDays, sd: prior.cycleLenSdDays, meanVariance: 0, effectiveN: 0, df: PRIOR_SPREAD_STRENGTH }
+    : shrinkTowardPrior(intervals, recencyWeights(intervals.length), priorCycleLen, prior.cycleLenSdDays);
+
+  const offsetCycles = cycles.filter((c) => c.ovulationOffsetDays !== null && CONFIDENCE_WEIGHT[c.confidence] > 0);
+  const offsetRecency = recencyWeights(offsetCycles.length);
+  const offset = shrinkTowardPrior(
+    offsetCycles.map((c) => c.ovulationOffsetDays as number),
+    offsetCycles.map((c, i) => offsetRecency[i] * CONFIDENCE_WEIGHT[c.confidence]),
+    speciesConfig.ovulationOffsetDays,
+    prior.ovulationOffsetSdDays
+  );
+
+  const heatMultiplier = intervalMultiplier(cycleLen.df);
+  const heatSpread = (k: number) =>
+    heatMultiplier * Math.sqrt(k * cycleLen.sd * cycleLen.sd + k * k * cycleLen.meanVariance);
+
+  // Step past heats that came and went unrecorded
+  let cyclesAhead = 1;
+  while (
+    cyclesAhead < 24 &&
+    addDays(lastCycleStart, Math.round(cyclesAhead * cycleLen.mean + heatSpread(cyclesAhead))) < startOfDayUTC(input.asOf)
+  ) {
+    cyclesAhead++;
+  }
+
+  const unshiftedHeat = addDays(lastCycleStart, Math.round(cyclesAhead * cycleLen.mean));
+  let heatMostLikely = unshiftedHeat;
+  let heatLower = addDays(unshiftedHeat, -Math.round(heatSpread(cyclesAhead)));
+  let heatUpper = addDays(unshiftedHeat, Math.round(heatSpread(cyclesAhead)));
+  let seasonalShiftDays = 0;
+
+  const season = prior.breedingSeasonMonths;
+  if (season && !season.includes(unshiftedHeat.getUTCMonth() + 1)) {
+    // Out of season: the first heat comes some time in the first cycle of the season
+    const seasonStart = nextSeasonStart(unshiftedHeat, season);
+    heatLower = seasonStart;
+    heatMostLikely = addDays(seasonStart, Math.round(cycleLen.mean / 2));
+    heatUpper = addDays(seasonStart, Math.round(cycleLen.mean + heatSpread(1)));
+    seasonalShiftDays = daysBetween(heatMostLikely, unshiftedHeat);
+  }
+
+  const offsetSpread = intervalMultiplier(offset.df) * Math.sqrt(offset.sd * offset.sd + offset.meanVariance);
+  const ovulationMostLikely = addDays(heatMostLikely, Math.round(offset.mean));
+  let ovulationLower: Date;
+  let ovulationUpper: Date;
+  if (seasonalShiftDays === 0) {
+    const spread = Math.sqrt(Math.pow(heatSpread(cyclesAhead), 2) + Math.pow(offsetSpread, 2));
+    ovulationLower = addDays(ovulationMostLikely, -Math.round(spread));
+    ovulationUpper = addDays(ovulationMostLikely, Math.round(spread));
+  } else {
+    ovulationLower = addDays(heatLower, Math.round(offset.mean - offsetSpread));
+    ovulationUpper = addDays(heatUpper, Math.round(offset.mean + offsetSpread));
+  }
+
+  // Heat-detection species start checks as heat opens; hormone-tested species
+  // start ~2 days before the earliest likely ovulation to catch the rise
+  const testingStart = speciesConfig.heatDetection
+    ? heatLower
+    : addDays(ovulationLower, -2) < heatLower ? heatLower : addDays(ovulationLower, -2);
+  const testingStartCycleDay = speciesConfig.heatDetection
+    ? 0
+    : Math.max(Math.round(offset.mean - offsetSpread) - 2, 0);
+
+  const round1 = (n: number) => Math.round(n * 10) / 10;
+
+  return {
+    level: CYCLE_PREDICTION_LEVEL,
+    cycleLength: {
+      meanDays: round1(cycleLen.mean),
+      sdDays: round1(cycleLen.sd),
+      effectiveCycles: round1(cycleLen.effectiveN),
+      excludedIntervals,
+    },
+    ovulationOffset: {
+      meanDays: round1(offset.mean),
+      sdDays: round1(offset.sd),
+      effectiveCycles: round1(offset.effectiveN),
+    },
+    ageYears: ageYears !== null ? round1(ageYears) : null,
+    ageAdjustmentDays: round1(ageAdjustmentDays),
+    seasonalShiftDays,
+    cyclesAhead,
+    nextHeat: {
+      lower: toISODate(heatLower)!,
+      mostLikely: toISODate(heatMostLikely)!,
+      upper: toISODate(heatUpper)!,
+    },
+    nextOvulation: {
+      lower: toISODate(ovulationLower)!,
+      mostLikely: toISODate(ovulationMostLikely)!,
+      upper: toISODate(ovulationUpper)!,
+    },
+    recommendedTestingStart: toISODate(testingStart)!,
+    testingStartCycleDay,
+  };
+}
+
+function toModelObservations(enrichedCycles: CycleHistoryEntry[]): CycleModelObservation[] {
+  return enrichedCycles.map((c) => ({
+    cycleStart: new Date(c.cycleStart),
+    ovulationOffsetDays: c.offsetDays,
+    confidence: c.confidence,
+  }));
+}
+
+/**
+ * Batch version of the model for scanners: next-cycle predictions keyed by
+ * female id. Females with no recorded cycles are left out.
+ */
+export async function predictNextCyclesForFemales(
+  femaleIds: number[],
+  asOf: Date = new Date()
+): Promise<Map<number, CyclePrediction>> {
+  const predictions = new Map<number, CyclePrediction>();
+  if (femaleIds.length === 0) return predictions;
+
+  const [animals, cycles, plans] = await Promise.all([
+    prisma.animal.findMany({
+      where: { id: { in: femaleIds } },
+      select: { id: true, species: true, birthDate: true, femaleCycleLenOverrideDays: true },
+    }),
+    prisma.reproductiveCycle.findMany({
+      where: { femaleId: { in: femaleIds } },
+      select: { id: true, femaleId: true, cycleStart: true, ovulation: true, notes: true },
+      orderBy: { cycleStart: "asc" },
+    }),
+    prisma.breedingPlan.findMany({
+      where: { damId: { in: femaleIds }, cycleStartObserved: { not: null } },
+      select: {
+        id: true,
+        damId: true,
+        cycleStartObserved: true,
+        ovulationConfirmed: true,
+        ovulationConfirmedMethod: true,
+        birthDateActual: true,
+      },
+    }),
+  ]);
+
+  for (const animal of animals) {
+    const species = animal.species || "DOG";
+    const enriched = enrichCycles(
+      cycles.filter((c) => c.femaleId === animal.id),
+      plans.filter((p) => p.damId === animal.id),
+      getSpeciesDefaults(species)
+    );
+    const prediction = predictNextCycle({
+      species,
+      birthDate: animal.birthDate,
+      cycleLenOverrideDays: animal.femaleCycleLenOverrideDays,
+      cycles: toModelObservations(enriched),
+      asOf,
+    });
+    if (prediction) predictions.set(animal.id, prediction);
+  }
+
+  return predictions;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main Calculation
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function calculateCycleAnalysis(
+  animalId: number,
+  tenantId: number
+): Promise<CycleAnalysisResult> {
+  // 1. Get the animal to determine species and any overrides
+  const animal = await prisma.animal.findFirst({
+    where: { id: animalId, tenantId },
+    select: {
+      id: true,
+      species: true,
+      birthDate: true,
+      femaleCycleLenOverrideDays: true,
+    },
+  });
+
+  if (!animal) {
+    throw new Error("Animal not found");
+  }
+
+  const species = animal.species || "DOG";
+  const speciesConfig = getSpeciesDefaults(species);
+
+  // 2. Get all ReproductiveCycle records for this female
+  const cycles = await prisma.reproductiveCycle.findMany({
+    where: { femaleId: animalId, tenantId },
+    orderBy: { cycleStart: "asc" },
+  });
+
+  // 3. Get all BreedingPlans for this female to extract ovulation data
+  const breedingPlans = await prisma.breedingPlan.findMany({
+    where: { damId: animalId, tenantId },
+    select: {
+      id: true,
+      cycleStartObserved: true,
+      ovulationConfirmed: true,
+      ovulationConfirmedMethod: true,
+      birthDateActual: true,
+      varianceFromExpected: true,
+      species: true,
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  // 4. Merge data: ReproductiveCycle + BreedingPlan ovulation data
+  const enrichedCycles = enrichCycles(cycles, breedingPlans, speciesConfig);
 
   // Sort by date descending (most recent first) for UI display
   enrichedCycles.sort((a, b) =>
@@ -432,7 +933,8 @@ export async function calculateCycleAnalysis(
       avgOffsetDays,
       speciesConfig.ovulationOffsetDays,
       stdDev,
-      reliableCycles.length
+      reliableCycles.length,
+      speciesConfig.heatDetection?.method ?? "progesterone testing"
     );
 
     ovulationPattern = {
@@ -464,35 +966,27 @@ export async function calculateCycleAnalysis(
     cycleLengthSource = calculated.source;
   }
 
-  // 7. Project next cycle
-  let nextCycleProjection: NextCycleProjection = null;
-
-  if (enrichedCycles.length > 0) {
-    // Most recent cycle (first after sorting desc)
-    const lastCycle = enrichedCycles[0];
-    const lastCycleStart = new Date(lastCycle.cycleStart);
-
-    const projectedHeatStart = addDays(lastCycleStart, cycleLengthDays);
-
-    // Use average offset if we have pattern data, otherwise species default
-    const avgOffset = ovulationPattern.avgOffsetDays ?? speciesConfig.ovulationOffsetDays;
-    const varianceWindow = ovulationPattern.stdDeviation
-      ? Math.ceil(ovulationPattern.stdDeviation)
-      : 2; // Default to ±2 days if no data
-
-    const projectedOvulationMostLikely = addDays(projectedHeatStart, avgOffset);
+  // 7. Project next cycle from the learned per-female model
+  const prediction = predictNextCycle({
+    species,
+    birthDate: animal.birthDate,
+    cycleLenOverrideDays: animal.femaleCycleLenOverrideDays,
+    cycles: toModelObservations(enrichedCycles),
+    asOf: new Date(),
+  });
 
-    nextCycleProjection = {
-      projectedHeatStart: toISODate(projectedHeatStart),
-      projectedOvulationWindow: {
-        earliest: toISODate(addDays(projectedHeatStart, avgOffset - varianceWindow))!,
-        latest: toISODate(addDays(projectedHeatStart, avgOffset + varianceWindow))!,
-        mostLikely: toISODate(projectedOvulationMostLikely)!,
-      },
-      recommendedTestingStart: toISODate(addDays(projectedHeatStart, avgOffset - 4)),
-      confidence: ovulationPattern.confidence,
-    };
-  }
+  const nextCycleProjection: NextCycleProjection = prediction
+    ? {
+        projectedHeatStart: prediction.nextHeat.mostLikely,
+        projectedOvulationWindow: {
+          earliest: prediction.nextOvulation.lower,
+          latest: prediction.nextOvulation.upper,
+          mostLikely: prediction.nextOvulation.mostLikely,
+        },
+        recommendedTestingStart: prediction.recommendedTestingStart,
+        confidence: ovulationPattern.confidence,
+      }
+    : null;
 
   return {
     animalId,
@@ -500,7 +994,10 @@ export async function calculateCycleAnalysis(
     cycleHistory: enrichedCycles,
     ovulationPattern,
     nextCycleProjection,
+    prediction,
     cycleLengthDays,
     cycleLengthSource,
+    heatDetection: speciesConfig.heatDetection ?? null,
+    pregnancyCheckWindows: speciesConfig.pregnancyChecks ?? [],
   };
 }
@@ -0,0 +1,500 @@
+// src/services/data-export/data-export-service.ts
+/**
+ * Tenant Data Export
+ *
+ * "Export everything" for backups and data-portability requests:
+ * - Request: queue a DataExport (one at a time per tenant) and build it in
+ *   the background
+ * - Build: every dataset in EXPORT_DATASETS as CSV or JSON, each contract
+ *   as a PDF (signed contracts as their certificate of completion) and the
+ *   stored files behind documents and attachments, plus manifest.json. The
+ *   zip is written to a temp file and uploaded to object storage.
+ * - Download: a short-lived presigned URL, until the archive expires
+ *
+ * Files that can't be fetched are listed under "skippedFiles" in the
+ * manifest instead of failing the export. The data-export-cleanup job
+ * deletes expired archives and fails builds that stopped reporting progress.
+ */
+
+import { randomUUID } from "node:crypto";
+import { unlink } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { DataExport, Prisma } from "@prisma/client";
+import prisma from "../../prisma.js";
+import { ZipWriter } from "../../lib/zip-writer.js";
+import { generateContractPdf } from "../contracts/pdf-generator/index.js";
+import {
+  deleteFile,
+  downloadFile,
+  generatePresignedDownloadUrl,
+  uploadLocalFile,
+} from "../media-storage.js";
+import { DATA_EXPORT_SCHEMA_VERSION, EXPORT_DATASETS, type ExportDomain } from "./export-datasets.js";
+import {
+  archiveFileName,
+  csvHeader,
+  csvLines,
+  EXPORT_FORMATS,
+  jsonRecords,
+  type ExportFormat,
+  type ExportRecord,
+} from "./export-format.js";
+
+/** How long a finished archive stays downloadable */
+const ARCHIVE_TTL_HOURS = Number(process.env.DATA_EXPORT_TTL_HOURS) || 72;
+
+/** Lifetime of one download link */
+const DOWNLOAD_URL_TTL_SECONDS = 15 * 60;
+
+/** A running export that hasn't reported progress for this long has died */
+const STALE_RUNNING_MS = 10 * 60 * 1000;
+
+const PAGE_SIZE = 1000;
+
+/** Heartbeat at most this often while copying files */
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+// ────────────────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────────────────
+
+export interface CreateDataExportInput {
+  format?: string;
+  /** Include contract PDFs and stored documents (default true) */
+  includeFiles?: boolean;
+}
+
+export interface DataExportManifest {
+  schemaVersion: number;
+  exportId: number;
+  tenant: { id: number; name: string };
+  format: ExportFormat;
+  generatedAt: string;
+  datasets: Array<{
+    domain: ExportDomain;
+    name: string;
+    path: string;
+    description: string;
+    rows: number;
+    columns: string[];
+  }>;
+  files: Array<{ path: string; source: "contract_pdf" | "document" | "attachment"; recordId: number; bytes: number }>;
+  skippedFiles: Array<{ source: "contract_pdf" | "document" | "attachment"; recordId: number; reason: string }>;
+}
+
+export type DataExportView = ReturnType<typeof toExportView>;
+
+// ────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ────────────────────────────────────────────────────────────────────────────
+
+function exportError(code: string, statusCode: number, extra: Record<string, unknown> = {}) {
+  return Object.assign(new Error(code), { statusCode, ...extra });
+}
+
+function isStale(exp: Pick<DataExport, "heartbeatAt" | "startedAt">) {
+  const last = exp.heartbeatAt ?? exp.startedAt;
+  return !!last && Date.now() - last.getTime() > STALE_RUNNING_MS;
+}
+
+function toExportView(exp: DataExport) {
+  const manifest = exp.manifest as DataExportManifest | null;
+  return {
+    id: exp.id,
+    status: exp.status,
+    format: exp.format as ExportFormat,
+    includeFiles: exp.includeFiles,
+    schemaVersion: exp.schemaVersion,
+    fileName: exp.fileName,
+    sizeBytes: exp.sizeBytes === null ? null : Number(exp.sizeBytes),
+    summary: manifest
+      ? {
+          datasets: manifest.datasets.length,
+          rows: manifest.datasets.reduce((sum, d) => sum + d.rows, 0),
+          files: manifest.files.length,
+          skippedFiles: manifest.skippedFiles.length,
+        }
+      : null,
+    error: exp.error,
+    requestedByUserId: exp.requestedByUserId,
+    startedAt: exp.startedAt,
+    completedAt: exp.completedAt,
+    expiresAt: exp.expiresAt,
+    createdAt: exp.createdAt,
+  };
+}
+
+async function loadExport(tenantId: number, exportId: number): Promise<DataExport> {
+  const exp = await prisma.dataExport.findFirst({ where: { id: exportId, tenantId } });
+  if (!exp) throw exportError("export_not_found", 404);
+  return exp;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Archive
+// ────────────────────────────────────────────────────────────────────────────
+
+/** Copies records and files into the zip, recording everything in the manifest */
+class ArchiveBuilder {
+  private lastHeartbeat = Date.now();
+
+  constructor(
+    private readonly exp: DataExport,
+    private readonly zip: ZipWriter,
+    readonly manifest: DataExportManifest
+  ) {}
+
+  async addDatasets(): Promise<void> {
+    const { tenantId } = this.exp;
+    const format = this.manifest.format;
+
+    for (const dataset of EXPORT_DATASETS) {
+      const filePath = `${dataset.domain}/${dataset.name}.${format}`;
+      const chunks: string[] = [];
+      const records: ExportRecord[] = [];
+      let rows = 0;
+      let afterId = 0;
+
+      if (format === "csv") chunks.push(csvHeader(dataset.columns));
+      for (;;) {
+        const page = await dataset.fetchPage(tenantId, afterId, PAGE_SIZE);
+        if (page.length === 0) break;
+        if (format === "csv") chunks.push(csvLines(dataset.columns, page));
+        else records.push(...jsonRecords(dataset.columns, page));
+        rows += page.length;
+        afterId = page[page.length - 1].id;
+        if (page.length < PAGE_SIZE) break;
+      }
+
+      const content = format === "csv" ? "\uFEFF" + chunks.join("") : JSON.stringify(records, null, 2);
+      await this.zip.addFile(filePath, content);
+      this.manifest.datasets.push({
+        domain: dataset.domain,
+        name: dataset.name,
+        path: filePath,
+        description: dataset.description,
+        rows,
+        columns: dataset.columns,
+      });
+      await this.heartbeat(true);
+    }
+  }
+
+  async addContractPdfs(): Promise<void> {
+    const { tenantId } = this.exp;
+    const contracts = await prisma.contract.findMany({
+      where: { tenantId, content: { isNot: null } },
+      select: { id: true },
+      orderBy: { id: "asc" },
+    });
+
+    for (const { id } of contracts) {
+      try {
+        const { buffer } = await generateContractPdf(id, tenantId);
+        await this.addStoredFile(`contracts/pdfs/contract-${id}.pdf`, Buffer.from(buffer), "contract_pdf", id);
+      } catch (err) {
+        if (errorMessage(err) === "zip_too_large") throw err;
+        this.manifest.skippedFiles.push({ source: "contract_pdf", recordId: id, reason: errorMessage(err) });
+      }
+      await this.heartbeat();
+    }
+  }
+
+  async addDocumentFiles(): Promise<void> {
+    const { tenantId } = this.exp;
+
+    const documents = await prisma.document.findMany({
+      where: { tenantId, OR: [{ storageKey: { not: null } }, { objectKey: { not: null } }] },
+      select: { id: true, storageKey: true, objectKey: true, originalFileName: true, title: true },
+      orderBy: { id: "asc" },
+    });
+    for (const doc of documents) {
+      const name = archiveFileName(doc.originalFileName ?? doc.title, "file");
+      await this.copyFromStorage(`documents/files/${doc.id}-${name}`, (doc.storageKey ?? doc.objectKey)!, "document", doc.id);
+    }
+
+    const attachments = await prisma.attachment.findMany({
+      where: { tenantId, storageProvider: "s3" },
+      select: { id: true, storageKey: true, filename: true },
+      orderBy: { id: "asc" },
+    });
+    for (const attachment of attachments) {
+      const name = archiveFileName(attachment.filename, "file");
+      await this.copyFromStorage(`documents/attachments/${attachment.id}-${name}`, attachment.storageKey, "attachment", attachment.id);
+    }
+  }
+
+  async addManifest(): Promise<void> {
+    await this.zip.addFile("manifest.json", JSON.stringify(this.manifest, null, 2));
+  }
+
+  private async copyFromStorage(
+    filePath: string,
+    storageKey: string,
+    source: "document" | "attachment",
+    recordId: number
+  ): Promise<void> {
+    try {
+      await this.addStoredFile(filePath, await downloadFile(storageKey), source, recordId);
+    } catch (err: any) {
+      if (err?.message === "zip_too_large") throw err;
+      const reason = err?.name === "NoSuchKey" ? "file_missing" : errorMessage(err);
+      this.manifest.skippedFiles.push({ source, recordId, reason });
+    }
+    await this.heartbeat();
+  }
+
+  private async addStoredFile(
+    filePath: string,
+    data: Buffer,
+    source: DataExportManifest["files"][number]["source"],
+    recordId: number
+  ): Promise<void> {
+    await this.zip.addFile(filePath, data);
+    this.manifest.files.push({ path: filePath, source, recordId, bytes: data.length });
+  }
+
+  private async heartbeat(force = false): Promise<void> {
+    if (!force && Date.now() - this.lastHeartbeat < HEARTBEAT_INTERVAL_MS) return;
+    this.lastHeartbeat = Date.now();
+    const { count } = await prisma.dataExport.updateMany({
+      where: { id: this.exp.id, status: "running" },
+      data: { heartbeatAt: new Date() },
+    });
+    // Marked failed by the cleanup job meanwhile: stop building
+    if (count === 0) throw exportError("export_interrupted", 409);
+  }
+}
+
+/**
+ * Build and upload one queued export. Safe to call more than once; only the
+ * first caller claims the export.
+ */
+export async function runDataExport(exportId: number): Promise<void> {
+  const now = new Date();
+  const { count } = await prisma.dataExport.updateMany({
+    where: { id: exportId, status: "queued" },
+    data: { status: "running", startedAt: now, heartbeatAt: now },
+  });
+  if (count === 0) return;
+
+  const exp = await prisma.dataExport.findUniqueOrThrow({ where: { id: exportId } });
+  const tenant = await prisma.tenant.findUniqueOrThrow({
+    where: { id: exp.tenantId },
+    select: { id: true, name: true },
+  });
+
+  const generatedAt = new Date();
+  const fileName = `data-export-${tenant.id}-${generatedAt.toISOString().slice(0, 10)}.zip`;
+  const tempPath = path.join(os.tmpdir(), `data-export-${exp.id}-${randomUUID()}.zip`);
+  const zip = await ZipWriter.create(tempPath);
+
+  try {
+    const builder = new ArchiveBuilder(exp, zip, {
+      schemaVersion: exp.schemaVersion,
+      exportId: exp.id,
+      tenant,
+      format: exp.format as ExportFormat,
+      generatedAt: generatedAt.toISOString(),
+      datasets: [],
+      files: [],
+      skippedFiles: [],
+    });
+
+    await builder.addDatasets();
+    if (exp.includeFiles) {
+      await builder.addContractPdfs();
+      await builder.addDocumentFiles();
+    }
+    await builder.addManifest();
+    await zip.finish();
+
+    const { storageKey, sizeBytes } = await uploadLocalFile(
+      { ownerType: "tenant", ownerId: exp.tenantId, purpose: "exports", resourceId: exp.id },
+      fileName,
+      tempPath,
+      "application/zip"
+    );
+
+    const completedAt = new Date();
+    const { count: saved } = await prisma.dataExport.updateMany({
+      where: { id: exp.id, status: "running" },
+      data: {
+        status: "completed",
+        storageKey,
+        fileName,
+        sizeBytes: BigInt(sizeBytes),
+        manifest: builder.manifest as unknown as Prisma.InputJsonValue,
+        completedAt,
+        heartbeatAt: completedAt,
+        expiresAt: new Date(completedAt.getTime() + ARCHIVE_TTL_HOURS * 60 * 60 * 1000),
+      },
+    });
+    if (saved === 0) await deleteFile(storageKey).catch(() => {});
+  } catch (err) {
+    await zip.abort().catch(() => {});
+    console.error("[data-export] Export failed:", { exportId: exp.id, error: errorMessage(err) });
+    await prisma.dataExport.updateMany({
+      where: { id: exp.id, status: "running" },
+      data: { status: "failed", error: errorMessage(err), completedAt: new Date() },
+    });
+  } finally {
+    await unlink(tempPath).catch(() => {});
+  }
+}
+
+function startInBackground(exportId: number) {
+  runDataExport(exportId).catch((err) => {
+    console.error("[data-export] Export crashed:", { exportId, error: errorMessage(err) });
+  });
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Public API
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Queue a full export and start building it. Returns immediately; poll
+ * getDataExport until it's completed.
+ */
+export async function createDataExport(
+  tenantId: number,
+  input: CreateDataExportInput,
+  userId: string | null
+): Promise<DataExportView> {
+  const format = (input.format ?? "csv") as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) throw exportError("invalid_format", 400, { formats: EXPORT_FORMATS });
+
+  const active = await prisma.dataExport.findFirst({
+    where: { tenantId, status: { in: ["queued", "running"] } },
+    orderBy: { createdAt: "desc" },
+  });
+  if (active && !(active.status === "running" && isStale(active))) {
+    throw exportError("export_in_progress", 409, { exportId: active.id });
+  }
+
+  const exp = await prisma.dataExport.create({
+    data: {
+      tenantId,
+      format,
+      includeFiles: input.includeFiles !== false,
+      schemaVersion: DATA_EXPORT_SCHEMA_VERSION,
+      requestedByUserId: userId,
+    },
+  });
+
+  startInBackground(exp.id);
+  return toExportView(exp);
+}
+
+export async function getDataExport(tenantId: number, exportId: number) {
+  const exp = await loadExport(tenantId, exportId);
+  return {
+    export: toExportView(exp),
+    manifest: (exp.manifest as DataExportManifest | null) ?? null,
+  };
+}
+
+export async function listDataExports(tenantId: number, options: { limit?: number } = {}): Promise<DataExportView[]> {
+  const take = Math.min(Math.max(options.limit ?? 20, 1), 100);
+  const exports = await prisma.dataExport.findMany({
+    where: { tenantId },
+    orderBy: { createdAt: "desc" },
+    take,
+  });
+  return exports.map(toExportView);
+}
+
+/**
+ * A presigned download link for a completed export. The link lasts 15
+ * minutes, or until the archive expires if that's sooner.
+ */
+export async function getDataExportDownload(tenantId: number, exportId: number) {
+  const exp = await loadExport(tenantId, exportId);
+  if (exp.status === "expired" || (exp.expiresAt && exp.expiresAt.getTime() <= Date.now())) {
+    throw exportError("export_expired", 410);
+  }
+  if (exp.status !== "completed" || !exp.storageKey) {
+    throw exportError("export_not_ready", 409, { status: exp.status });
+  }
+
+  const remainingSeconds = exp.expiresAt
+    ? Math.floor((exp.expiresAt.getTime() - Date.now()) / 1000)
+    : DOWNLOAD_URL_TTL_SECONDS;
+  const expiresIn = Math.max(1, Math.min(DOWNLOAD_URL_TTL_SECONDS, remainingSeconds));
+  const { url } = await generatePresignedDownloadUrl(exp.storageKey, expiresIn, exp.fileName ?? undefined);
+
+  return {
+    url,
+    fileName: exp.fileName,
+    sizeBytes: exp.sizeBytes === null ? null : Number(exp.sizeBytes),
+    urlExpiresAt: new Date(Date.now() + expiresIn * 1000),
+    archiveExpiresAt: exp.expiresAt,
+  };
+}
+
+/**
+ * Delete an export's archive now rather than waiting for it to expire.
+ * The record stays, marked expired.
+ */
+export async function deleteDataExport(tenantId: number, exportId: number): Promise<DataExportView> {
+  const exp = await loadExport(tenantId, exportId);
+  if (exp.status === "queued" || (exp.status === "running" && !isStale(exp))) {
+    throw exportError("export_in_progress", 409);
+  }
+
+  if (exp.storageKey) await deleteFile(exp.storageKey);
+  const updated = await prisma.dataExport.update({
+    where: { id: exp.id },
+    data: {
+      status: exp.status === "completed" ? "expired" : exp.status === "running" ? "failed" : exp.status,
+      storageKey: null,
+      expiresAt: exp.status === "completed" ? new Date() : exp.expiresAt,
+    },
+  });
+  return toExportView(updated);
+}
+
+/**
+ * Delete archives past their expiry and fail builds that died mid-way.
+ * Run by the data-export-cleanup job.
+ */
+export async function expireDataExports(): Promise<{ expired: number; interrupted: number; errors: number }> {
+  const now = new Date();
+  const result = { expired: 0, interrupted: 0, errors: 0 };
+
+  const due = await prisma.dataExport.findMany({
+    where: { status: "completed", expiresAt: { lte: now } },
+    select: { id: true, storageKey: true },
+  });
+  for (const exp of due) {
+    try {
+      if (exp.storageKey) await deleteFile(exp.storageKey);
+      await prisma.dataExport.update({ where: { id: exp.id }, data: { status: "expired", storageKey: null } });
+      result.expired++;
+    } catch (err) {
+      result.errors++;
+      console.error("[data-export] Failed to expire export:", { exportId: exp.id, error: errorMessage(err) });
+    }
+  }
+
+  // Running without progress, or queued by an instance that stopped before starting it
+  const staleBefore = new Date(now.getTime() - STALE_RUNNING_MS);
+  const { count } = await prisma.dataExport.updateMany({
+    where: {
+      OR: [
+        { status: "running", heartbeatAt: { lt: staleBefore } },
+        { status: "queued", createdAt: { lt: staleBefore } },
+      ],
+    },
+    data: { status: "failed", error: "export_interrupted", completedAt: now },
+  });
+  result.interrupted = count;
+
+  return result;
+}
@@ -0,0 +1,367 @@
+// src/services/data-export/export-datasets.ts
+/**
+ * What a tenant data export contains: one file per dataset, grouped into
+ * domain folders. Columns are the model's scalar fields, so a dataset with
+ * no rows still gets its header and the manifest still documents it.
+ * Soft-deleted and archived records are included; they're part of the
+ * tenant's data.
+ *
+ * Add a dataset here to include it in every export, and bump
+ * DATA_EXPORT_SCHEMA_VERSION when an existing file changes shape.
+ */
+
+import { Prisma } from "@prisma/client";
+import prisma from "../../prisma.js";
+import type { ExportRecord } from "./export-format.js";
+
+/** Version of the archive layout, written to manifest.json */
+export const DATA_EXPORT_SCHEMA_VERSION = 1;
+
+export type ExportDomain =
+  | "animals"
+  | "genetics"
+  | "health"
+  | "breeding"
+  | "offspring"
+  | "contacts"
+  | "finance"
+  | "contracts"
+  | "documents";
+
+export interface ExportDataset {
+  domain: ExportDomain;
+  /** File name without extension, e.g. "animals" → animals/animals.csv */
+  name: string;
+  description: string;
+  columns: string[];
+  /** Next page of records with id > afterId, in id order. Every record has an `id`. */
+  fetchPage(tenantId: number, afterId: number, take: number): Promise<Array<ExportRecord & { id: number }>>;
+}
+
+const columnsOf = (fields: Record<string, string>) => Object.values(fields);
+
+export const EXPORT_DATASETS: ExportDataset[] = [
+  // ── Animals ──────────────────────────────────────────────────────────────
+  {
+    domain: "animals",
+    name: "animals",
+    description: "Animals, including archived and deleted ones",
+    columns: columnsOf(Prisma.AnimalScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.animal.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+  {
+    domain: "animals",
+    name: "pedigree",
+    description: "Sire and dam of each animal, by id and name",
+    columns: ["animalId", "animalName", "sireId", "sireName", "damId", "damName"],
+    fetchPage: async (tenantId, afterId, take) => {
+      const animals = await prisma.animal.findMany({
+        where: { tenantId, id: { gt: afterId } },
+        orderBy: { id: "asc" },
+        take,
+        select: {
+          id: true,
+          name: true,
+          sireId: true,
+          damId: true,
+          sire: { select: { name: true } },
+          dam: { select: { name: true } },
+        },
+      });
+      return animals.map((a) => ({
+        id: a.id,
+        animalId: a.id,
+        animalName: a.name,
+        sireId: a.sireId,
+        sireName: a.sire?.name ?? null,
+        damId: a.damId,
+        damName: a.dam?.name ?? null,
+      }));
+    },
+  },
+  {
+    domain: "animals",
+    name: "owners",
+    description: "Ownership shares (partyId refers to contacts/parties)",
+    columns: columnsOf(Prisma.AnimalOwnerScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.animalOwner.findMany({ where: { animal: { tenantId }, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+  {
+    domain: "animals",
+    name: "registry_identifiers",
+    description: "Registration numbers by registry",
+    columns: columnsOf(Prisma.AnimalRegistryIdentifierScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.animalRegistryIdentifier.findMany({
+        where: { animal: { tenantId }, id: { gt: afterId } },
+        orderBy: { id: "asc" },
+        take,
+      }),
+  },
+  {
+    domain: "animals",
+    name: "titles",
+    description: "Titles earned",
+    columns: columnsOf(Prisma.AnimalTitleScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.animalTitle.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+  {
+    domain: "animals",
+    name: "trait_values",
+    description: "Recorded traits and health clearances",
+    columns: columnsOf(Prisma.AnimalTraitValueScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.animalTraitValue.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+
+  // ── Genetics ─────────────────────────────────────────────────────────────
+  {
+    domain: "genetics",
+    name: "genetic_profiles",
+    description: "Genetic test results per animal",
+    columns: columnsOf(Prisma.AnimalGeneticsScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.animalGenetics.findMany({ where: { animal: { tenantId }, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+  {
+    domain: "genetics",
+    name: "loci",
+    description: "One row per tested locus per animal",
+    columns: columnsOf(Prisma.AnimalLociScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.animalLoci.findMany({ where: { animal: { tenantId }, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+
+  // ── Health ───────────────────────────────────────────────────────────────
+  {
+    domain: "health",
+    name: "vaccinations",
+    description: "Vaccination records",
+    columns: columnsOf(Prisma.VaccinationRecordScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.vaccinationRecord.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+  {
+    domain: "health",
+    name: "medication_courses",
+    description: "Medication and treatment courses",
+    columns: columnsOf(Prisma.MedicationCourseScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.medicationCourse.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+  {
+    domain: "health",
+    name: "offspring_health_events",
+    description: "Health events recorded for offspring",
+    columns: columnsOf(Prisma.HealthEventScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.healthEvent.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+  {
+    domain: "health",
+    name: "neonatal_care",
+    description: "Neonatal weights, temperatures and feedings",
+    columns: columnsOf(Prisma.NeonatalCareEntryScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.neonatalCareEntry.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+  {
+    domain: "health",
+    name: "neonatal_interventions",
+    description: "Neonatal interventions",
+    columns: columnsOf(Prisma.NeonatalInterventionScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.neonatalIntervention.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+
+  // ── Breeding ─────────────────────────────────────────────────────────────
+  {
+    domain: "breeding",
+    name: "breeding_plans",
+    description: "Breeding plans",
+    columns: columnsOf(Prisma.BreedingPlanScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.breedingPlan.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+  {
+    domain: "breeding",
+    name: "breeding_attempts",
+    description: "Breedings and inseminations",
+    columns: columnsOf(Prisma.BreedingAttemptScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.breedingAttempt.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+  {
+    domain: "breeding",
+    name: "breeding_plan_events",
+    description: "Breeding plan timeline events",
+    columns: columnsOf(Prisma.BreedingPlanEventScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.breedingPlanEvent.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+  {
+    domain: "breeding",
+    name: "breeding_milestones",
+    description: "Breeding plan milestones",
+    columns: columnsOf(Prisma.BreedingMilestoneScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.breedingMilestone.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+  {
+    domain: "breeding",
+    name: "reproductive_cycles",
+    description: "Recorded heat cycles",
+    columns: columnsOf(Prisma.ReproductiveCycleScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.reproductiveCycle.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+  {
+    domain: "breeding",
+    name: "litters",
+    description: "Litters",
+    columns: columnsOf(Prisma.LitterScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.litter.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+  {
+    domain: "breeding",
+    name: "waitlist_entries",
+    description: "Waitlist entries and reservations",
+    columns: columnsOf(Prisma.WaitlistEntryScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.waitlistEntry.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+
+  // ── Offspring ────────────────────────────────────────────────────────────
+  {
+    domain: "offspring",
+    name: "offspring",
+    description: "Offspring",
+    columns: columnsOf(Prisma.OffspringScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.offspring.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+  {
+    domain: "offspring",
+    name: "offspring_events",
+    description: "Offspring timeline events",
+    columns: columnsOf(Prisma.OffspringEventScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.offspringEvent.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+
+  // ── Contacts ─────────────────────────────────────────────────────────────
+  {
+    domain: "contacts",
+    name: "parties",
+    description: "Parties: the shared identity behind contacts and organizations",
+    columns: columnsOf(Prisma.PartyScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.party.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+  {
+    domain: "contacts",
+    name: "contacts",
+    description: "People",
+    columns: columnsOf(Prisma.ContactScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.contact.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+  {
+    domain: "contacts",
+    name: "organizations",
+    description: "Organizations",
+    columns: columnsOf(Prisma.OrganizationScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.organization.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+  {
+    domain: "contacts",
+    name: "notes",
+    description: "Notes on contacts and organizations",
+    columns: columnsOf(Prisma.PartyNoteScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.partyNote.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+
+  // ── Finance ──────────────────────────────────────────────────────────────
+  {
+    domain: "finance",
+    name: "invoices",
+    description: "Invoices (amounts in cents)",
+    columns: columnsOf(Prisma.InvoiceScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.invoice.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+  {
+    domain: "finance",
+    name: "invoice_line_items",
+    description: "Invoice line items",
+    columns: columnsOf(Prisma.InvoiceLineItemScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.invoiceLineItem.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+  {
+    domain: "finance",
+    name: "payments",
+    description: "Payments received (amounts in cents)",
+    columns: columnsOf(Prisma.PaymentScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.payment.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+  {
+    domain: "finance",
+    name: "expenses",
+    description: "Expenses (amounts in cents)",
+    columns: columnsOf(Prisma.ExpenseScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.expense.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+
+  // ── Contracts ────────────────────────────────────────────────────────────
+  {
+    domain: "contracts",
+    name: "contracts",
+    description: "Contracts; PDFs are in contracts/pdfs/",
+    columns: columnsOf(Prisma.ContractScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.contract.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+  {
+    domain: "contracts",
+    name: "contract_parties",
+    description: "Contract signers and recipients",
+    columns: columnsOf(Prisma.ContractPartyScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.contractParty.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+  {
+    domain: "contracts",
+    name: "signature_events",
+    description: "Signature audit trail",
+    columns: columnsOf(Prisma.SignatureEventScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.signatureEvent.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+
+  // ── Documents ────────────────────────────────────────────────────────────
+  {
+    domain: "documents",
+    name: "documents",
+    description: "Document records; stored files are in documents/files/",
+    columns: columnsOf(Prisma.DocumentScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.document.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+  {
+    domain: "documents",
+    name: "attachments",
+    description: "Attachments on plans, animals, offspring and finance records; files are in documents/attachments/",
+    columns: columnsOf(Prisma.AttachmentScalarFieldEnum),
+    fetchPage: (tenantId, afterId, take) =>
+      prisma.attachment.findMany({ where: { tenantId, id: { gt: afterId } }, orderBy: { id: "asc" }, take }),
+  },
+];
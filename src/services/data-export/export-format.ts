@@ -0,0 +1,80 @@
+// src/services/data-export/export-format.ts
+/**
+ * Serialization for data export files.
+ *
+ * CSV: one header row of column names, RFC 4180 quoting, ISO-8601 dates,
+ * JSON columns as compact JSON text and empty cells for nulls.
+ * JSON: an array of records with the same value conversions, except that
+ * JSON columns stay structured.
+ *
+ * BigInt amounts (cents) become numbers and Decimals become strings so no
+ * precision is lost.
+ */
+
+import { Prisma } from "@prisma/client";
+
+export type ExportFormat = "csv" | "json";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "json"];
+
+export type ExportRecord = Record<string, unknown>;
+
+function plainValue(value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "bigint") {
+    return value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER)
+      ? Number(value)
+      : value.toString();
+  }
+  if (Prisma.Decimal.isDecimal(value)) return (value as Prisma.Decimal).toString();
+  if (Buffer.isBuffer(value) || value instanceof Uint8Array) return Buffer.from(value).toString("base64");
+  if (Array.isArray(value)) return value.map(plainValue);
+  if (typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value as Record<string, unknown>)) out[k] = plainValue(v);
+    return out;
+  }
+  return value;
+}
+
+function csvCell(value: unknown): string {
+  const plain = plainValue(value);
+  if (plain === null) return "";
+  const text = typeof plain === "object" ? JSON.stringify(plain) : String(plain);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** A CSV header line for `columns` (with trailing CRLF) */
+export function csvHeader(columns: string[]): string {
+  return columns.map(csvCell).join(",") + "\r\n";
+}
+
+/** One CSV line per record, in `columns` order (with trailing CRLF) */
+export function csvLines(columns: string[], records: ExportRecord[]): string {
+  let out = "";
+  for (const record of records) out += columns.map((c) => csvCell(record[c])).join(",") + "\r\n";
+  return out;
+}
+
+/** Records as they appear in a JSON export file */
+export function jsonRecords(columns: string[], records: ExportRecord[]): ExportRecord[] {
+  return records.map((record) => {
+    const out: ExportRecord = {};
+    for (const c of columns) out[c] = plainValue(record[c]);
+    return out;
+  });
+}
+
+/**
+ * A safe file name for an archive entry: keeps letters, digits, dots,
+ * dashes and underscores, and at most 100 characters.
+ */
+export function archiveFileName(name: string, fallback: string): string {
+  const cleaned = name
+    .normalize("NFKD")
+    .replace(/[^\w.\-]+/g, "_")
+    .replace(/^[._]+/, "")
+    .slice(-100);
+  return cleaned || fallback;
+}
@@ -0,0 +1,12 @@
+/**
+ * Tenant Data Export
+ *
+ * Exports:
+ * - Dataset registry and archive schema version
+ * - CSV/JSON serialization for export files
+ * - Export service (request, build, download, expire)
+ */
+
+export * from "./export-datasets.js";
+export * from "./export-format.js";
+export * from "./data-export-service.js";
@@ -162,6 +162,8 @@ export interface SendEmailParams {
   replyTo?: string;
   /** Optional partyId — enables List-Unsubscribe headers and pre-send compliance check */
   partyId?: number;
+  /** Optional one-click List-Unsubscribe URL for recipients without a party (e.g. marketplace alerts) */
+  unsubscribeUrl?: string;
 }
 
 export interface SendTemplatedEmailParams {
@@ -233,7 +235,7 @@ export async function sendTemplatedEmail(
  * - Invoice emails are idempotent via unique constraint on (tenantId, templateKey, relatedInvoiceId).
  */
 export async function sendEmail(params: SendEmailParams): Promise<SendEmailResult> {
-  const { tenantId, to, subject, html, text, templateKey, metadata, relatedInvoiceId, category, from, replyTo, partyId } = params;
+  const { tenantId, to, subject, html, text, templateKey, metadata, relatedInvoiceId, category, from, replyTo, partyId, unsubscribeUrl } = params;
 
   // Use custom from or default
   const fromAddress = from || DEFAULT_FROM;
@@ -366,6 +368,9 @@ export async function sendEmail(params: SendEmailParams): Promise<SendEmailResul
       // Don't block email sending if header generation fails (e.g., missing secret)
       console.warn("[email-service] Failed to generate unsubscribe headers:", (err as Error).message);
     }
+  } else if (unsubscribeUrl) {
+    emailHeaders["List-Unsubscribe"] = `<${unsubscribeUrl}>`;
+    emailHeaders["List-Unsubscribe-Post"] = "List-Unsubscribe=One-Click";
   }
 
   // Inline retry loop: 3 attempts with exponential backoff (1s, 4s, 16s)
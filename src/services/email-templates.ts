@@ -990,3 +990,55 @@ This report was shared with you via BreederHQ.
 
   return { subject, html, text };
 }
+
+// ---------- Waitlist Offspring Photos Template ----------
+
+export interface WaitlistPhotosEmailParams {
+  recipientName?: string | null;
+  organizationName: string;
+  offspringName: string;
+  planName?: string | null;
+  photoCount: number;
+  viewUrl: string;
+}
+
+/**
+ * Email sent to waitlist members when new offspring photos are available.
+ * Subject: "New photos of [Offspring Name] from [Organization Name]"
+ */
+export function renderWaitlistPhotosEmail(params: WaitlistPhotosEmailParams): { subject: string; html: string; text: string } {
+  const { recipientName, organizationName, offspringName, planName, photoCount, viewUrl } = params;
+
+  const subject = `New photos of ${offspringName} from ${organizationName}`;
+  const photoLabel = `${photoCount} photo${photoCount !== 1 ? "s" : ""}`;
+  const litterNote = planName ? ` from the ${planName} litter` : "";
+
+  const text = `
+${recipientName ? `Hello ${recipientName},` : "Hello,"}
+
+${organizationName} has shared ${photoLabel} of ${offspringName}${litterNote}.
+
+View them here: ${viewUrl}
+
+You are receiving this because you are on the waitlist for this litter.
+
+— ${organizationName}
+`.trim();
+
+  const html = wrapEmailLayout({
+    title: "New Offspring Photos",
+    footerOrgName: organizationName,
+    body: [
+      recipientName ? emailGreeting(recipientName) : emailParagraph("Hello,"),
+      emailParagraph(
+        `${emailAccent(organizationName)} has shared ${photoLabel} of ${emailAccent(offspringName)}${litterNote}.`
+      ),
+      emailButton("View Photos", viewUrl, "orange"),
+      emailParagraph(
+        '<span style="color: #737373; font-size: 13px;">You are receiving this because you are on the waitlist for this litter.</span>'
+      ),
+    ].join("\n"),
+  });
+
+  return { subject, html, text };
+}
@@ -0,0 +1,473 @@
+// src/services/embryo-inventory.ts
+/**
+ * Embryo Inventory Service
+ *
+ * Per-embryo records for flush events (Embryo): IETS grade and stage,
+ * straw/tank/canister location and what became of each embryo.
+ *
+ *   FRESH ──freeze──▶ FROZEN ──thaw──▶ THAWED
+ *     │                 │                │
+ *     └──── transfer ───┴────────────────┴──▶ TRANSFERRED (recipient plan)
+ *
+ * FRESH and FROZEN embryos can also be SOLD, SHIPPED or DISCARDED; a sold
+ * embryo can still be shipped. TRANSFERRED, SHIPPED and DISCARDED are final.
+ *
+ * Transferring an embryo links it to the recipient's ET breeding plan and
+ * fills the plan's flush, transfer date and fresh/frozen fields, which the
+ * ET registry export reads back.
+ */
+
+import type { EmbryoStage, EmbryoStatus, Prisma } from "@prisma/client";
+import prisma from "../prisma.js";
+
+// ────────────────────────────────────────────────────────────────────────────
+// Status Transitions
+// ────────────────────────────────────────────────────────────────────────────
+
+export const EMBRYO_TRANSITIONS: Record<EmbryoStatus, readonly EmbryoStatus[]> = {
+  FRESH: ["FROZEN", "TRANSFERRED", "SOLD", "SHIPPED", "DISCARDED"],
+  FROZEN: ["THAWED", "TRANSFERRED", "SOLD", "SHIPPED", "DISCARDED"],
+  THAWED: ["TRANSFERRED", "DISCARDED"],
+  SOLD: ["SHIPPED"],
+  TRANSFERRED: [],
+  SHIPPED: [],
+  DISCARDED: [],
+};
+
+/** Embryos still on hand (can be transferred, sold or shipped) */
+export const ON_HAND_STATUSES: readonly EmbryoStatus[] = ["FRESH", "FROZEN", "THAWED"];
+
+export function canTransition(from: EmbryoStatus, to: EmbryoStatus): boolean {
+  return EMBRYO_TRANSITIONS[from].includes(to);
+}
+
+function assertTransition(from: EmbryoStatus, to: EmbryoStatus): void {
+  if (!canTransition(from, to)) {
+    throw Object.assign(new Error("invalid_status_transition"), {
+      statusCode: 409,
+      details: { message: `Embryo is ${from} and cannot become ${to}`, from, to },
+    });
+  }
+}
+
+/** Fresh unless the embryo was ever frozen */
+export function transferEmbryoType(embryo: { frozenAt: Date | null }): "FRESH" | "FROZEN" {
+  return embryo.frozenAt ? "FROZEN" : "FRESH";
+}
+
+/** Default straw label: donor prefix, flush date and embryo number, e.g. "DAI-260312-03" */
+export function defaultEmbryoLabel(donorName: string | null, flushDate: Date, embryoNumber: number): string {
+  const prefix = donorName?.replace(/[^a-z0-9]/gi, "").substring(0, 3).toUpperCase() || "EMB";
+  const date = flushDate.toISOString().slice(2, 10).replace(/-/g, "");
+  return `${prefix}-${date}-${String(embryoNumber).padStart(2, "0")}`;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────────────────
+
+export interface EmbryoInput {
+  label?: string;
+  grade?: number;
+  stage?: EmbryoStage;
+  notes?: string;
+}
+
+export interface FreezeInput {
+  frozenAt?: string;
+  freezeMethod?: "VITRIFIED" | "SLOW_FROZEN";
+  storageTank?: string;
+  storageCanister?: string;
+  strawNumber?: string;
+}
+
+export interface TransferInput {
+  breedingPlanId: number;
+  transferredAt?: string;
+}
+
+export interface DispositionInput {
+  status: "SOLD" | "SHIPPED" | "DISCARDED";
+  dispositionAt?: string;
+  dispositionTo?: string;
+  salePriceCents?: number;
+  trackingNumber?: string;
+  notes?: string;
+}
+
+export const embryoInclude = {
+  flushEvent: {
+    select: {
+      id: true,
+      flushDate: true,
+      geneticDamId: true,
+      sireId: true,
+      Animal_FlushEvent_geneticDamIdToAnimal: { select: { id: true, name: true } },
+      Animal_FlushEvent_sireIdToAnimal: { select: { id: true, name: true } },
+    },
+  },
+  breedingPlan: {
+    select: {
+      id: true,
+      name: true,
+      recipientDamId: true,
+      Animal_BreedingPlan_recipientDamIdToAnimal: { select: { id: true, name: true } },
+    },
+  },
+} satisfies Prisma.EmbryoInclude;
+
+export type EmbryoWithRelations = Prisma.EmbryoGetPayload<{ include: typeof embryoInclude }>;
+
+function notFound(what = "not_found"): Error {
+  return Object.assign(new Error(what), { statusCode: 404 });
+}
+
+function invalid(code: string, message: string): Error {
+  return Object.assign(new Error(code), { statusCode: 400, details: { message } });
+}
+
+export function toEmbryoResponse(embryo: EmbryoWithRelations) {
+  const flush = embryo.flushEvent;
+  const plan = embryo.breedingPlan;
+  return {
+    id: embryo.id,
+    flushEventId: embryo.flushEventId,
+    embryoNumber: embryo.embryoNumber,
+    label: embryo.label,
+    grade: embryo.grade,
+    stage: embryo.stage,
+    status: embryo.status,
+    storageTank: embryo.storageTank,
+    storageCanister: embryo.storageCanister,
+    strawNumber: embryo.strawNumber,
+    freezeMethod: embryo.freezeMethod,
+    frozenAt: embryo.frozenAt?.toISOString() ?? null,
+    thawedAt: embryo.thawedAt?.toISOString() ?? null,
+    transferredAt: embryo.transferredAt?.toISOString() ?? null,
+    breedingPlanId: embryo.breedingPlanId,
+    dispositionTo: embryo.dispositionTo,
+    dispositionAt: embryo.dispositionAt?.toISOString() ?? null,
+    salePriceCents: embryo.salePriceCents,
+    trackingNumber: embryo.trackingNumber,
+    notes: embryo.notes,
+    flushDate: flush.flushDate.toISOString(),
+    geneticDam: flush.Animal_FlushEvent_geneticDamIdToAnimal,
+    sire: flush.Animal_FlushEvent_sireIdToAnimal,
+    breedingPlan: plan
+      ? { id: plan.id, name: plan.name, recipientDam: plan.Animal_BreedingPlan_recipientDamIdToAnimal }
+      : null,
+    createdAt: embryo.createdAt.toISOString(),
+    updatedAt: embryo.updatedAt.toISOString(),
+  };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Operations
+// ────────────────────────────────────────────────────────────────────────────
+
+export async function getEmbryo(tenantId: number, id: number): Promise<EmbryoWithRelations> {
+  const embryo = await prisma.embryo.findFirst({ where: { id, tenantId }, include: embryoInclude });
+  if (!embryo) throw notFound();
+  return embryo;
+}
+
+/**
+ * Record embryos recovered at a flush, numbered after any already recorded.
+ * The total may not exceed the flush's embryosRecovered when that is set.
+ */
+export async function recordEmbryos(
+  tenantId: number,
+  flushEventId: number,
+  inputs: EmbryoInput[]
+): Promise<EmbryoWithRelations[]> {
+  const ids = await prisma.$transaction(async (tx) => {
+    const flush = await tx.flushEvent.findFirst({
+      where: { id: flushEventId, tenantId },
+      select: {
+        flushDate: true,
+        embryosRecovered: true,
+        Animal_FlushEvent_geneticDamIdToAnimal: { select: { name: true } },
+        embryos: { select: { embryoNumber: true }, orderBy: { embryoNumber: "desc" }, take: 1 },
+        _count: { select: { embryos: true } },
+      },
+    });
+    if (!flush) throw notFound("flush_event_not_found");
+
+    if (flush.embryosRecovered != null && flush._count.embryos + inputs.length > flush.embryosRecovered) {
+      throw invalid(
+        "exceeds_embryos_recovered",
+        `Flush recovered ${flush.embryosRecovered} embryos; ${flush._count.embryos} already recorded`
+      );
+    }
+
+    const donorName = flush.Animal_FlushEvent_geneticDamIdToAnimal.name;
+    let next = (flush.embryos[0]?.embryoNumber ?? 0) + 1;
+    const created: number[] = [];
+    for (const input of inputs) {
+      const embryo = await tx.embryo.create({
+        data: {
+          tenantId,
+          flushEventId,
+          embryoNumber: next,
+          label: input.label ?? defaultEmbryoLabel(donorName, flush.flushDate, next),
+          grade: input.grade ?? null,
+          stage: input.stage ?? null,
+          notes: input.notes ?? null,
+        },
+        select: { id: true },
+      });
+      created.push(embryo.id);
+      next++;
+    }
+    return created;
+  });
+
+  return prisma.embryo.findMany({
+    where: { id: { in: ids } },
+    include: embryoInclude,
+    orderBy: { embryoNumber: "asc" },
+  });
+}
+
+export async function freezeEmbryo(tenantId: number, id: number, input: FreezeInput): Promise<EmbryoWithRelations> {
+  const embryo = await getEmbryo(tenantId, id);
+  assertTransition(embryo.status, "FROZEN");
+  if (!input.storageTank) throw invalid("storage_tank_required", "storageTank is required to freeze an embryo");
+
+  return prisma.embryo.update({
+    where: { id },
+    data: {
+      status: "FROZEN",
+      frozenAt: input.frozenAt ? new Date(input.frozenAt) : new Date(),
+      freezeMethod: input.freezeMethod ?? null,
+      storageTank: input.storageTank,
+      storageCanister: input.storageCanister ?? null,
+      strawNumber: input.strawNumber ?? null,
+    },
+    include: embryoInclude,
+  });
+}
+
+export async function thawEmbryo(tenantId: number, id: number, thawedAt?: string): Promise<EmbryoWithRelations> {
+  const embryo = await getEmbryo(tenantId, id);
+  assertTransition(embryo.status, "THAWED");
+
+  return prisma.embryo.update({
+    where: { id },
+    data: { status: "THAWED", thawedAt: thawedAt ? new Date(thawedAt) : new Date() },
+    include: embryoInclude,
+  });
+}
+
+/**
+ * Transfer an embryo into a recipient's breeding plan. Frozen embryos are
+ * thawed at transfer time. The plan takes the flush's donor, sire and dates
+ * from its first transferred embryo; later embryos must share that flush.
+ */
+export async function transferEmbryo(
+  tenantId: number,
+  id: number,
+  input: TransferInput
+): Promise<EmbryoWithRelations> {
+  const transferredAt = input.transferredAt ? new Date(input.transferredAt) : new Date();
+
+  await prisma.$transaction(async (tx) => {
+    const embryo = await tx.embryo.findFirst({
+      where: { id, tenantId },
+      include: {
+        flushEvent: {
+          select: {
+            id: true,
+            flushDate: true,
+            geneticDamId: true,
+            sireId: true,
+            Animal_FlushEvent_geneticDamIdToAnimal: { select: { species: true } },
+          },
+        },
+      },
+    });
+    if (!embryo) throw notFound();
+    assertTransition(embryo.status, "TRANSFERRED");
+
+    const plan = await tx.breedingPlan.findFirst({
+      where: { id: input.breedingPlanId, tenantId, deletedAt: null },
+      select: { id: true, species: true, geneticDamId: true, recipientDamId: true, sireId: true },
+    });
+    if (!plan) throw notFound("plan_not_found");
+    if (!plan.recipientDamId) {
+      throw invalid("plan_has_no_recipient", "Assign a recipient dam to the plan before transferring an embryo");
+    }
+
+    const flush = embryo.flushEvent;
+    if (plan.geneticDamId && plan.geneticDamId !== flush.geneticDamId) {
+      throw Object.assign(new Error("donor_mismatch"), {
+        statusCode: 409,
+        details: { message: "The plan's genetic dam is not this embryo's donor" },
+      });
+    }
+    if (plan.species !== flush.Animal_FlushEvent_geneticDamIdToAnimal.species) {
+      throw invalid("species_mismatch", "The plan's species does not match the embryo's donor");
+    }
+
+    // A plan's flush, transfer date and embryo type describe the first
+    // embryo transferred into it; further embryos must come from that flush
+    const earlier = await tx.embryo.findFirst({
+      where: { tenantId, breedingPlanId: plan.id, status: "TRANSFERRED" },
+      orderBy: { transferredAt: "asc" },
+      select: { flushEventId: true },
+    });
+    if (earlier && earlier.flushEventId !== flush.id) {
+      throw Object.assign(new Error("plan_has_other_flush"), {
+        statusCode: 409,
+        details: { message: "The plan already holds an embryo transferred from a different flush" },
+      });
+    }
+
+    await tx.embryo.update({
+      where: { id },
+      data: {
+        status: "TRANSFERRED",
+        transferredAt,
+        breedingPlanId: plan.id,
+        ...(embryo.status === "FROZEN" && { thawedAt: transferredAt }),
+      },
+    });
+    if (!earlier) {
+      await tx.breedingPlan.update({
+        where: { id: plan.id },
+        data: {
+          geneticDamId: flush.geneticDamId,
+          sireId: plan.sireId ?? flush.sireId,
+          flushEventId: flush.id,
+          flushDate: flush.flushDate,
+          embryoTransferDate: transferredAt,
+          embryoType: transferEmbryoType(embryo),
+        },
+      });
+    }
+  });
+
+  return getEmbryo(tenantId, id);
+}
+
+/** Mark an embryo SOLD, SHIPPED or DISCARDED */
+export async function recordDisposition(
+  tenantId: number,
+  id: number,
+  input: DispositionInput
+): Promise<EmbryoWithRelations> {
+  const embryo = await getEmbryo(tenantId, id);
+  assertTransition(embryo.status, input.status);
+  if (input.status !== "DISCARDED" && !input.dispositionTo && !embryo.dispositionTo) {
+    throw invalid("disposition_to_required", "Buyer or receiving facility is required for sold or shipped embryos");
+  }
+
+  return prisma.embryo.update({
+    where: { id },
+    data: {
+      status: input.status,
+      dispositionAt: input.dispositionAt ? new Date(input.dispositionAt) : new Date(),
+      ...(input.dispositionTo !== undefined && { dispositionTo: input.dispositionTo }),
+      ...(input.salePriceCents !== undefined && { salePriceCents: input.salePriceCents }),
+      ...(input.trackingNumber !== undefined && { trackingNumber: input.trackingNumber }),
+      ...(input.notes !== undefined && { notes: input.notes }),
+    },
+    include: embryoInclude,
+  });
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Summary
+// ────────────────────────────────────────────────────────────────────────────
+
+export interface FrozenEmbryoRow {
+  grade: number | null;
+  storageTank: string | null;
+  donorId: number;
+  donorName: string | null;
+}
+
+/** Frozen stock by grade, tank and donor (largest first) */
+export function summarizeFrozenEmbryos(rows: FrozenEmbryoRow[]) {
+  const byGrade: Record<string, number> = { "1": 0, "2": 0, "3": 0, "4": 0, ungraded: 0 };
+  const tanks = new Map<string, number>();
+  const donors = new Map<number, { donorId: number; donorName: string; frozen: number }>();
+
+  for (const row of rows) {
+    byGrade[row.grade ? String(row.grade) : "ungraded"]++;
+    const tank = row.storageTank ?? "Unassigned";
+    tanks.set(tank, (tanks.get(tank) ?? 0) + 1);
+    const donor = donors.get(row.donorId) ?? { donorId: row.donorId, donorName: row.donorName ?? "Unknown", frozen: 0 };
+    donor.frozen++;
+    donors.set(row.donorId, donor);
+  }
+
+  return {
+    frozenByGrade: byGrade,
+    frozenByTank: [...tanks.entries()]
+      .map(([tank, frozen]) => ({ tank, frozen }))
+      .sort((a, b) => b.frozen - a.frozen || a.tank.localeCompare(b.tank)),
+    frozenByDonor: [...donors.values()].sort((a, b) => b.frozen - a.frozen || a.donorName.localeCompare(b.donorName)),
+  };
+}
+
+/** Dashboard stats, the embryo counterpart of GET /semen/summary */
+export async function getEmbryoSummary(tenantId: number, now: Date = new Date()) {
+  const yearStart = new Date(now.getFullYear(), 0, 1);
+
+  const [byStatus, frozen, transferredYTD, salesYTD] = await Promise.all([
+    prisma.embryo.groupBy({
+      by: ["status"],
+      where: { tenantId },
+      _count: true,
+    }),
+    prisma.embryo.findMany({
+      where: { tenantId, status: "FROZEN" },
+      select: {
+        grade: true,
+        storageTank: true,
+        flushEvent: {
+          select: { geneticDamId: true, Animal_FlushEvent_geneticDamIdToAnimal: { select: { name: true } } },
+        },
+      },
+    }),
+    prisma.embryo.count({
+      where: { tenantId, status: "TRANSFERRED", transferredAt: { gte: yearStart } },
+    }),
+    prisma.embryo.aggregate({
+      where: { tenantId, status: { in: ["SOLD", "SHIPPED"] }, dispositionAt: { gte: yearStart } },
+      _count: true,
+      _sum: { salePriceCents: true },
+    }),
+  ]);
+
+  const statusCounts: Record<EmbryoStatus, number> = {
+    FRESH: 0,
+    FROZEN: 0,
+    THAWED: 0,
+    TRANSFERRED: 0,
+    SOLD: 0,
+    SHIPPED: 0,
+    DISCARDED: 0,
+  };
+  for (const row of byStatus) statusCounts[row.status] = row._count;
+
+  return {
+    totalEmbryos: Object.values(statusCounts).reduce((sum, n) => sum + n, 0),
+    onHand: ON_HAND_STATUSES.reduce((sum, status) => sum + statusCounts[status], 0),
+    // Fresh and thawed embryos need a recipient within hours
+    awaitingTransfer: statusCounts.FRESH + statusCounts.THAWED,
+    byStatus: statusCounts,
+    transferredYTD,
+    soldOrShippedYTD: salesYTD._count,
+    salesYTDCents: salesYTD._sum.salePriceCents ?? 0,
+    ...summarizeFrozenEmbryos(
+      frozen.map((row) => ({
+        grade: row.grade,
+        storageTank: row.storageTank,
+        donorId: row.flushEvent.geneticDamId,
+        donorName: row.flushEvent.Animal_FlushEvent_geneticDamIdToAnimal.name,
+      }))
+    ),
+  };
+}
@@ -127,3 +127,86 @@ export async function createPaymentAndRecalculate(
 
   return payment;
 }
+
+/**
+ * Invoice totals after a refund of amountCents.
+ * Throws when the refund is not positive or would exceed what was collected;
+ * the status moves to "refunded" once everything collected is refunded.
+ *
+ * @param paidCents - Sum of the invoice's succeeded payments
+ * @param refundedCents - What the invoice had refunded before this refund
+ * @param amountCents - The new refund
+ */
+export function invoiceRefundUpdate(
+  paidCents: number,
+  refundedCents: number,
+  amountCents: number
+): { refundedCents: number; status?: "refunded" } {
+  if (!Number.isInteger(amountCents) || amountCents <= 0) {
+    throw new Error("refund_amount_must_be_positive");
+  }
+  const total = refundedCents + amountCents;
+  if (total > paidCents) {
+    throw new Error("refund_amount_exceeds_total_paid");
+  }
+  return { refundedCents: total, ...(total >= paidCents ? { status: "refunded" as const } : {}) };
+}
+
+/**
+ * Record a refund against an invoice's collected payments.
+ * The refund is stored as a "refunded" payment row (so it doesn't count
+ * toward the balance) and added to invoice.refundedCents. Once everything
+ * collected has been refunded the invoice moves to "refunded".
+ * Should be called within a transaction.
+ *
+ * @param prisma - Prisma client instance (transaction client)
+ * @param data - Refund details
+ * @returns The refund payment row and the invoice's total refunded cents
+ */
+export async function recordRefundAndRecalculate(
+  prisma: PrismaClient | any,
+  data: {
+    tenantId: number;
+    invoiceId: number;
+    amountCents: number;
+    refundedAt?: Date;
+    methodType?: string;
+    notes?: string;
+    data?: any;
+  }
+): Promise<{ refund: any; refundedCents: number; paidCents: number }> {
+  const invoice = await prisma.invoice.findFirst({
+    where: { id: data.invoiceId, tenantId: data.tenantId },
+    include: { Payments: { where: { status: "succeeded" } } },
+  });
+  if (!invoice) {
+    throw new Error("Invoice not found");
+  }
+
+  const paidCents = invoice.Payments.reduce(
+    (sum: number, payment: any) => sum + Number(payment.amountCents),
+    0
+  );
+  const update = invoiceRefundUpdate(paidCents, Number(invoice.refundedCents ?? 0), data.amountCents);
+
+  const refundedAt = data.refundedAt ?? new Date();
+  const refund = await prisma.payment.create({
+    data: {
+      tenantId: data.tenantId,
+      invoiceId: data.invoiceId,
+      amountCents: data.amountCents,
+      receivedAt: refundedAt,
+      methodType: data.methodType,
+      status: "refunded",
+      notes: data.notes,
+      data: data.data,
+    },
+  });
+
+  await prisma.invoice.update({
+    where: { id: data.invoiceId },
+    data: update,
+  });
+
+  return { refund, refundedCents: update.refundedCents, paidCents };
+}
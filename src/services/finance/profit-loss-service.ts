@@ -0,0 +1,317 @@
+// src/services/finance/profit-loss-service.ts
+/**
+ * Profit & Loss Report Loader
+ *
+ * Collects the revenue and cost facts for a date range and hands them to
+ * buildProfitLossReport (profit-loss.ts):
+ * - Revenue: issued/paid invoices by issue date, net of refunds. Attributed
+ *   through offspring invoice links, the invoice's offspring, the plan
+ *   buyer's offspring, the waitlist entry, then the invoice's plan or animal.
+ * - Costs: expenses by incurred date, each animal's feeding-log cost per
+ *   day from nutrition-service.getCostByAnimal, and plan-linked feeding logs
+ *   (litter feedings) by fed date under their plan. Skipped feedings and
+ *   feeding logs linked to an expense don't count (the expense does).
+ * - Semen: doses used on a plan (through its breeding attempt or booking)
+ *   by usage date, from batches collected within the range, each carrying a
+ *   share of the batch's collection cost — the stallion's BREEDING expenses
+ *   on the collection day, split over the batch's initial doses.
+ */
+
+import type { InvoiceStatus } from "@prisma/client";
+import prisma from "../../prisma.js";
+import { getCostByAnimal } from "../nutrition-service.js";
+import {
+  buildProfitLossReport,
+  feedingCostFacts,
+  splitCents,
+  type PnlCostFact,
+  type PnlPlan,
+  type PnlRevenueFact,
+  type PnlSemenAllocation,
+  type ProfitLossReport,
+} from "./profit-loss.js";
+
+const REVENUE_INVOICE_STATUSES: InvoiceStatus[] = ["issued", "partially_paid", "paid", "refunded"];
+
+/** Longest range one report covers */
+const MAX_RANGE_DAYS = 3 * 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function reportError(code: string, statusCode: number, extra: Record<string, unknown> = {}) {
+  return Object.assign(new Error(code), { statusCode, ...extra });
+}
+
+function utcDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+async function loadRevenue(tenantId: number, from: Date, to: Date): Promise<PnlRevenueFact[]> {
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      tenantId,
+      deletedAt: null,
+      status: { in: REVENUE_INVOICE_STATUSES },
+      issuedAt: { gte: from, lt: to },
+    },
+    select: {
+      id: true,
+      amountCents: true,
+      refundedCents: true,
+      issuedAt: true,
+      offspringId: true,
+      animalId: true,
+      breedingPlanId: true,
+      OffspringInvoiceLink: { select: { offspringId: true, amountCents: true }, orderBy: { id: "asc" } },
+      BreedingPlanBuyer: { select: { planId: true, offspringId: true } },
+      waitlistEntry: { select: { planId: true, offspringId: true } },
+    },
+  });
+
+  const facts: PnlRevenueFact[] = [];
+  for (const inv of invoices) {
+    const net = Number(inv.amountCents) - Number(inv.refundedCents);
+    if (net === 0) continue;
+    const planId = inv.breedingPlanId ?? inv.BreedingPlanBuyer?.planId ?? inv.waitlistEntry?.planId ?? null;
+    const base = { invoiceId: inv.id, date: inv.issuedAt!, planId, animalId: inv.animalId };
+
+    // An invoice covering several offspring is split by their link amounts,
+    // or evenly when the amounts aren't all recorded
+    const links = [...new Map(inv.OffspringInvoiceLink.map((l) => [l.offspringId, l])).values()];
+    if (links.length > 0) {
+      const linked = links.reduce((sum, l) => sum + (l.amountCents ?? 0), 0);
+      const shares =
+        linked > 0 && links.every((l) => l.amountCents != null)
+          ? links.map((l) => Math.round((net * l.amountCents!) / linked))
+          : splitCents(net, links.length);
+      shares[shares.length - 1] += net - shares.reduce((a, b) => a + b, 0);
+      links.forEach((l, i) => facts.push({ ...base, amountCents: shares[i], offspringId: l.offspringId }));
+      continue;
+    }
+
+    const offspringId =
+      inv.offspringId ?? inv.BreedingPlanBuyer?.offspringId ?? inv.waitlistEntry?.offspringId ?? null;
+    facts.push({ ...base, amountCents: net, offspringId });
+  }
+  return facts;
+}
+
+async function loadCosts(tenantId: number, from: Date, to: Date): Promise<PnlCostFact[]> {
+  const [expenses, animalFeedings, planFeedings] = await Promise.all([
+    prisma.expense.findMany({
+      where: { tenantId, incurredAt: { gte: from, lt: to } },
+      select: { id: true, category: true, amountCents: true, incurredAt: true, breedingPlanId: true, animalId: true },
+    }),
+    // getCostByAnimal's period is inclusive of its end
+    getCostByAnimal(tenantId, { start: from, end: new Date(to.getTime() - 1) }, Number.POSITIVE_INFINITY, {
+      excludeExpensed: true,
+      excludePlanLinked: true,
+    }),
+    // Litter feedings, and animal feedings logged against a plan
+    prisma.feedingRecord.findMany({
+      where: {
+        tenantId,
+        breedingPlanId: { not: null },
+        fedAt: { gte: from, lt: to },
+        skipped: false,
+        costCents: { not: null },
+        expenseId: null,
+      },
+      select: { id: true, costCents: true, fedAt: true, breedingPlanId: true, animalId: true },
+    }),
+  ]);
+
+  return [
+    ...expenses.map((e) => ({
+      source: "expense" as const,
+      sourceId: e.id,
+      category: e.category as string,
+      amountCents: e.amountCents,
+      date: e.incurredAt,
+      planId: e.breedingPlanId,
+      animalId: e.animalId,
+    })),
+    ...feedingCostFacts(
+      animalFeedings,
+      planFeedings.map((f) => ({
+        id: f.id,
+        costCents: f.costCents ?? 0,
+        fedAt: f.fedAt,
+        planId: f.breedingPlanId!,
+        animalId: f.animalId,
+      }))
+    ),
+  ];
+}
+
+async function loadSemen(tenantId: number, from: Date, to: Date): Promise<PnlSemenAllocation[]> {
+  const usages = await prisma.semenUsage.findMany({
+    where: {
+      tenantId,
+      usageDate: { gte: from, lt: to },
+      inventory: { collectionDate: { gte: from, lt: to } },
+      OR: [{ breedingAttempt: { planId: { not: null } } }, { breedingBooking: { breedingPlanId: { not: null } } }],
+    },
+    select: {
+      id: true,
+      usageDate: true,
+      dosesUsed: true,
+      breedingAttempt: { select: { planId: true } },
+      breedingBooking: { select: { breedingPlanId: true } },
+      inventory: { select: { id: true, stallionId: true, collectionDate: true, initialDoses: true } },
+    },
+  });
+  if (usages.length === 0) return [];
+
+  const collectionTimes = usages.map((u) => u.inventory.collectionDate.getTime());
+  const collectionCosts = await prisma.expense.findMany({
+    where: {
+      tenantId,
+      category: "BREEDING",
+      animalId: { in: [...new Set(usages.map((u) => u.inventory.stallionId))] },
+      incurredAt: {
+        gte: new Date(Math.min(...collectionTimes) - DAY_MS),
+        lt: new Date(Math.max(...collectionTimes) + DAY_MS),
+      },
+    },
+    select: { animalId: true, amountCents: true, incurredAt: true },
+  });
+  const costByStallionDay = new Map<string, number>();
+  for (const e of collectionCosts) {
+    const key = `${e.animalId}:${utcDay(e.incurredAt)}`;
+    costByStallionDay.set(key, (costByStallionDay.get(key) ?? 0) + e.amountCents);
+  }
+
+  const allocations: PnlSemenAllocation[] = [];
+  for (const u of usages) {
+    const planId = u.breedingAttempt?.planId ?? u.breedingBooking?.breedingPlanId;
+    const batch = u.inventory;
+    const batchCost = costByStallionDay.get(`${batch.stallionId}:${utcDay(batch.collectionDate)}`) ?? 0;
+    if (!planId || batchCost === 0 || batch.initialDoses <= 0) continue;
+    allocations.push({
+      usageId: u.id,
+      stallionId: batch.stallionId,
+      planId,
+      doses: u.dosesUsed,
+      amountCents: Math.round((batchCost * u.dosesUsed) / batch.initialDoses),
+      date: u.usageDate,
+    });
+  }
+  return allocations;
+}
+
+/** Breeding → weaning (or birth), from actual dates where recorded */
+function sharedCostWindow(plan: {
+  breedDateActual: Date | null;
+  expectedBreedDate: Date | null;
+  weanedDateActual: Date | null;
+  expectedWeaned: Date | null;
+  birthDateActual: Date | null;
+  expectedBirthDate: Date | null;
+}): PnlPlan["sharedCostWindow"] {
+  const start = plan.breedDateActual ?? plan.expectedBreedDate;
+  const end = plan.weanedDateActual ?? plan.expectedWeaned ?? plan.birthDateActual ?? plan.expectedBirthDate;
+  return start && end && end > start ? { start, end } : null;
+}
+
+/**
+ * P&L per plan (litter), offspring, animal and program for [from, to).
+ *
+ * @throws 400 invalid_range when from isn't before to or the range is too long
+ */
+export async function getProfitLossReport(
+  tenantId: number,
+  range: { from: Date; to: Date }
+): Promise<ProfitLossReport> {
+  const { from, to } = range;
+  if (!(from < to)) throw reportError("invalid_range", 400);
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    throw reportError("invalid_range", 400, { maxDays: MAX_RANGE_DAYS });
+  }
+
+  const [revenue, costs, semen] = await Promise.all([
+    loadRevenue(tenantId, from, to),
+    loadCosts(tenantId, from, to),
+    loadSemen(tenantId, from, to),
+  ]);
+
+  // Plans: any a fact points at, plus the plans of dams with shared costs
+  const referencedOffspring = await prisma.offspring.findMany({
+    where: { tenantId, id: { in: [...new Set(revenue.flatMap((r) => (r.offspringId ? [r.offspringId] : [])))] } },
+    select: { breedingPlanId: true },
+  });
+  const planIds = new Set<number>([
+    ...revenue.flatMap((r) => (r.planId ? [r.planId] : [])),
+    ...costs.flatMap((c) => (c.planId ? [c.planId] : [])),
+    ...semen.map((s) => s.planId),
+    ...referencedOffspring.map((o) => o.breedingPlanId),
+  ]);
+  const costAnimalIds = [...new Set(costs.flatMap((c) => (c.animalId && !c.planId ? [c.animalId] : [])))];
+
+  const plans = await prisma.breedingPlan.findMany({
+    where: {
+      tenantId,
+      deletedAt: null,
+      OR: [{ id: { in: [...planIds] } }, ...(costAnimalIds.length ? [{ damId: { in: costAnimalIds } }] : [])],
+    },
+    select: {
+      id: true,
+      name: true,
+      programId: true,
+      program: { select: { name: true } },
+      damId: true,
+      breedDateActual: true,
+      expectedBreedDate: true,
+      weanedDateActual: true,
+      expectedWeaned: true,
+      birthDateActual: true,
+      expectedBirthDate: true,
+    },
+  });
+
+  const [offspring, animals] = await Promise.all([
+    prisma.offspring.findMany({
+      where: { tenantId, breedingPlanId: { in: plans.map((p) => p.id) } },
+      select: { id: true, name: true, breedingPlanId: true, lifeState: true },
+    }),
+    prisma.animal.findMany({
+      where: {
+        tenantId,
+        id: {
+          in: [
+            ...new Set([
+              ...revenue.flatMap((r) => (r.animalId ? [r.animalId] : [])),
+              ...costs.flatMap((c) => (c.animalId ? [c.animalId] : [])),
+              ...semen.map((s) => s.stallionId),
+            ]),
+          ],
+        },
+      },
+      select: { id: true, name: true },
+    }),
+  ]);
+
+  return buildProfitLossReport(
+    {
+      plans: plans.map((p) => ({
+        id: p.id,
+        name: p.name,
+        programId: p.programId,
+        programName: p.program?.name ?? null,
+        damId: p.damId,
+        sharedCostWindow: sharedCostWindow(p),
+      })),
+      offspring: offspring.map((o) => ({
+        id: o.id,
+        name: o.name,
+        planId: o.breedingPlanId,
+        alive: o.lifeState === "ALIVE",
+      })),
+      animals: animals.map((a) => ({ id: a.id, name: a.name ?? `Animal #${a.id}` })),
+      revenue,
+      costs,
+      semen,
+    },
+    { from, to }
+  );
+}
@@ -0,0 +1,506 @@
+// src/services/finance/profit-loss.ts
+/**
+ * Profit & Loss Attribution
+ *
+ * Turns normalized revenue and cost facts into P&L per breeding plan
+ * (litter), per offspring, per animal and per program. No database access;
+ * profit-loss-service.ts loads the facts.
+ *
+ * Rules:
+ * - Revenue is attributed to an offspring, a plan, or an animal (or left
+ *   unattributed). Offspring revenue also counts toward its plan.
+ * - Costs tied to a plan count toward it directly. Shared costs — a dam's
+ *   feed, vet and supply costs while she's carrying and nursing a litter —
+ *   are allocated to that plan and moved out of the dam's own P&L.
+ * - Semen doses used on a plan carry their share of the batch's cost from
+ *   the stallion to the plan. This moves cost that's already counted, so it
+ *   doesn't change the totals.
+ * - A plan's costs are split evenly across its live offspring as their
+ *   cost basis (across all offspring if none survived).
+ * - Programs roll up their plans.
+ */
+
+import { csvHeader, csvLines, type ExportRecord } from "../data-export/export-format.js";
+
+// ────────────────────────────────────────────────────────────────────────────
+// Source facts
+// ────────────────────────────────────────────────────────────────────────────
+
+export interface PnlPlan {
+  id: number;
+  name: string;
+  programId: number | null;
+  programName: string | null;
+  damId: number | null;
+  /** Window for shared dam costs (breeding → weaning); null when unknown */
+  sharedCostWindow: { start: Date; end: Date } | null;
+}
+
+export interface PnlOffspring {
+  id: number;
+  name: string | null;
+  planId: number;
+  alive: boolean;
+}
+
+export interface PnlRevenueFact {
+  invoiceId: number;
+  amountCents: number;
+  date: Date;
+  offspringId: number | null;
+  planId: number | null;
+  animalId: number | null;
+}
+
+/** Cost categories are ExpenseCategory values plus FEED_LOG */
+export interface PnlCostFact {
+  source: "expense" | "feeding";
+  sourceId: number;
+  category: string;
+  amountCents: number;
+  date: Date;
+  planId: number | null;
+  animalId: number | null;
+}
+
+/** Semen doses used on a plan: a share of the stallion's collection cost */
+export interface PnlSemenAllocation {
+  usageId: number;
+  stallionId: number;
+  planId: number;
+  doses: number;
+  amountCents: number;
+  date: Date;
+}
+
+export interface PnlSourceData {
+  plans: PnlPlan[];
+  offspring: PnlOffspring[];
+  animals: Array<{ id: number; name: string }>;
+  revenue: PnlRevenueFact[];
+  costs: PnlCostFact[];
+  semen: PnlSemenAllocation[];
+}
+
+/** Dam cost categories shared with the litter she's carrying or nursing */
+export const SHARED_DAM_COST_CATEGORIES = ["FOOD", "FEED_LOG", "VET", "SUPPLIES"];
+
+// ────────────────────────────────────────────────────────────────────────────
+// Report
+// ────────────────────────────────────────────────────────────────────────────
+
+export interface PnlOffspringLine {
+  offspringId: number;
+  name: string | null;
+  alive: boolean;
+  revenueCents: number;
+  costBasisCents: number;
+  marginCents: number;
+  marginPct: number | null;
+}
+
+export interface PnlPlanLine {
+  planId: number;
+  name: string;
+  programId: number | null;
+  revenueCents: number;
+  /** Revenue on the plan that isn't tied to one offspring (e.g. deposits) */
+  unassignedRevenueCents: number;
+  directCostCents: number;
+  allocatedCostCents: number;
+  costCents: number;
+  netCents: number;
+  marginPct: number | null;
+  costByCategory: Record<string, number>;
+  offspring: PnlOffspringLine[];
+}
+
+export interface PnlAnimalLine {
+  animalId: number;
+  name: string;
+  revenueCents: number;
+  costCents: number;
+  /** Cost carried by litters instead (shared dam costs, plan expenses, semen used); not in netCents */
+  allocatedToPlansCents: number;
+  netCents: number;
+  marginPct: number | null;
+}
+
+export interface PnlProgramLine {
+  programId: number | null;
+  name: string;
+  planCount: number;
+  revenueCents: number;
+  costCents: number;
+  netCents: number;
+  marginPct: number | null;
+}
+
+export interface ProfitLossReport {
+  from: Date;
+  to: Date;
+  totals: {
+    revenueCents: number;
+    costCents: number;
+    netCents: number;
+    marginPct: number | null;
+    unattributedRevenueCents: number;
+    unattributedCostCents: number;
+  };
+  plans: PnlPlanLine[];
+  animals: PnlAnimalLine[];
+  programs: PnlProgramLine[];
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ────────────────────────────────────────────────────────────────────────────
+
+export function marginPct(revenueCents: number, netCents: number): number | null {
+  return revenueCents > 0 ? Math.round((netCents / revenueCents) * 1000) / 10 : null;
+}
+
+/** Split cents into `parts` whole-cent shares that add up exactly */
+export function splitCents(totalCents: number, parts: number): number[] {
+  if (parts <= 0) return [];
+  const base = Math.trunc(totalCents / parts);
+  const remainder = totalCents - base * parts;
+  return Array.from({ length: parts }, (_, i) => base + (i < Math.abs(remainder) ? Math.sign(remainder) : 0));
+}
+
+/**
+ * Feeding-log cost facts: one per animal and day from the per-animal daily
+ * totals (sourceId is the animal), and one per plan-linked feeding (litter
+ * feedings and animal feedings logged against a plan), which keep the plan.
+ */
+export function feedingCostFacts(
+  animalDays: Array<{ animalId: number; days: Array<{ date: string; costCents: number }> }>,
+  planFeedings: Array<{ id: number; costCents: number; fedAt: Date; planId: number; animalId: number | null }>
+): PnlCostFact[] {
+  return [
+    ...animalDays.flatMap((a) =>
+      a.days.map((day) => ({
+        source: "feeding" as const,
+        sourceId: a.animalId,
+        category: "FEED_LOG",
+        amountCents: day.costCents,
+        date: new Date(`${day.date}T00:00:00Z`),
+        planId: null,
+        animalId: a.animalId,
+      }))
+    ),
+    ...planFeedings.map((f) => ({
+      source: "feeding" as const,
+      sourceId: f.id,
+      category: "FEED_LOG",
+      amountCents: f.costCents,
+      date: f.fedAt,
+      planId: f.planId,
+      animalId: f.animalId,
+    })),
+  ];
+}
+
+function inWindow(date: Date, window: { start: Date; end: Date }): boolean {
+  return date >= window.start && date <= window.end;
+}
+
+/**
+ * The plan a dam's shared cost belongs to: the plan whose window covers the
+ * date, the earliest-starting one if windows overlap.
+ */
+function sharedCostPlan(cost: PnlCostFact, plansByDam: Map<number, PnlPlan[]>): PnlPlan | null {
+  if (cost.planId != null || cost.animalId == null) return null;
+  if (!SHARED_DAM_COST_CATEGORIES.includes(cost.category)) return null;
+  const candidates = plansByDam.get(cost.animalId) ?? [];
+  return candidates.find((p) => p.sharedCostWindow && inWindow(cost.date, p.sharedCostWindow)) ?? null;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Build
+// ────────────────────────────────────────────────────────────────────────────
+
+export function buildProfitLossReport(data: PnlSourceData, range: { from: Date; to: Date }): ProfitLossReport {
+  const plansById = new Map(data.plans.map((p) => [p.id, p]));
+  const offspringById = new Map(data.offspring.map((o) => [o.id, o]));
+  const animalNames = new Map(data.animals.map((a) => [a.id, a.name]));
+
+  const plansByDam = new Map<number, PnlPlan[]>();
+  for (const plan of [...data.plans].sort(
+    (a, b) => (a.sharedCostWindow?.start.getTime() ?? 0) - (b.sharedCostWindow?.start.getTime() ?? 0)
+  )) {
+    if (plan.damId == null) continue;
+    const list = plansByDam.get(plan.damId) ?? [];
+    list.push(plan);
+    plansByDam.set(plan.damId, list);
+  }
+
+  type PlanAcc = {
+    revenue: number;
+    unassignedRevenue: number;
+    direct: number;
+    allocated: number;
+    byCategory: Record<string, number>;
+    offspringRevenue: Map<number, number>;
+  };
+  type AnimalAcc = { revenue: number; cost: number; allocatedOut: number };
+
+  const planAcc = new Map<number, PlanAcc>();
+  const animalAcc = new Map<number, AnimalAcc>();
+  const forPlan = (id: number) => {
+    let acc = planAcc.get(id);
+    if (!acc) {
+      acc = { revenue: 0, unassignedRevenue: 0, direct: 0, allocated: 0, byCategory: {}, offspringRevenue: new Map() };
+      planAcc.set(id, acc);
+    }
+    return acc;
+  };
+  const forAnimal = (id: number) => {
+    let acc = animalAcc.get(id);
+    if (!acc) {
+      acc = { revenue: 0, cost: 0, allocatedOut: 0 };
+      animalAcc.set(id, acc);
+    }
+    return acc;
+  };
+
+  let revenueTotal = 0;
+  let unattributedRevenue = 0;
+  for (const fact of data.revenue) {
+    revenueTotal += fact.amountCents;
+    const offspring = fact.offspringId != null ? offspringById.get(fact.offspringId) : undefined;
+    const planId = offspring?.planId ?? fact.planId;
+    if (planId != null && plansById.has(planId)) {
+      const acc = forPlan(planId);
+      acc.revenue += fact.amountCents;
+      if (offspring) {
+        acc.offspringRevenue.set(offspring.id, (acc.offspringRevenue.get(offspring.id) ?? 0) + fact.amountCents);
+      } else {
+        acc.unassignedRevenue += fact.amountCents;
+      }
+    } else if (fact.animalId != null) {
+      forAnimal(fact.animalId).revenue += fact.amountCents;
+    } else {
+      unattributedRevenue += fact.amountCents;
+    }
+  }
+
+  let costTotal = 0;
+  let unattributedCost = 0;
+  for (const cost of data.costs) {
+    costTotal += cost.amountCents;
+    const shared = sharedCostPlan(cost, plansByDam);
+    if (cost.animalId != null) {
+      const acc = forAnimal(cost.animalId);
+      acc.cost += cost.amountCents;
+      if (shared || (cost.planId != null && plansById.has(cost.planId))) acc.allocatedOut += cost.amountCents;
+    }
+
+    const planId = shared?.id ?? cost.planId;
+    if (planId != null && plansById.has(planId)) {
+      const acc = forPlan(planId);
+      if (shared) acc.allocated += cost.amountCents;
+      else acc.direct += cost.amountCents;
+      acc.byCategory[cost.category] = (acc.byCategory[cost.category] ?? 0) + cost.amountCents;
+    } else if (cost.animalId == null) {
+      unattributedCost += cost.amountCents;
+    }
+  }
+
+  for (const use of data.semen) {
+    if (!plansById.has(use.planId)) continue;
+    const acc = forPlan(use.planId);
+    acc.allocated += use.amountCents;
+    acc.byCategory.SEMEN = (acc.byCategory.SEMEN ?? 0) + use.amountCents;
+    forAnimal(use.stallionId).allocatedOut += use.amountCents;
+  }
+
+  const offspringByPlan = new Map<number, PnlOffspring[]>();
+  for (const o of data.offspring) {
+    const list = offspringByPlan.get(o.planId) ?? [];
+    list.push(o);
+    offspringByPlan.set(o.planId, list);
+  }
+
+  const plans: PnlPlanLine[] = [];
+  for (const [planId, acc] of planAcc) {
+    const plan = plansById.get(planId)!;
+    const costCents = acc.direct + acc.allocated;
+    const litter = (offspringByPlan.get(planId) ?? []).sort((a, b) => a.id - b.id);
+    const live = litter.filter((o) => o.alive);
+    const bearers = live.length ? live : litter;
+    const shares = splitCents(costCents, bearers.length);
+    const basis = new Map(bearers.map((o, i) => [o.id, shares[i]]));
+
+    const netCents = acc.revenue - costCents;
+    plans.push({
+      planId,
+      name: plan.name,
+      programId: plan.programId,
+      revenueCents: acc.revenue,
+      unassignedRevenueCents: acc.unassignedRevenue,
+      directCostCents: acc.direct,
+      allocatedCostCents: acc.allocated,
+      costCents,
+      netCents,
+      marginPct: marginPct(acc.revenue, netCents),
+      costByCategory: acc.byCategory,
+      offspring: litter.map((o) => {
+        const revenueCents = acc.offspringRevenue.get(o.id) ?? 0;
+        const costBasisCents = basis.get(o.id) ?? 0;
+        const marginCents = revenueCents - costBasisCents;
+        return {
+          offspringId: o.id,
+          name: o.name,
+          alive: o.alive,
+          revenueCents,
+          costBasisCents,
+          marginCents,
+          marginPct: marginPct(revenueCents, marginCents),
+        };
+      }),
+    });
+  }
+  plans.sort((a, b) => b.netCents - a.netCents || a.planId - b.planId);
+
+  const animals: PnlAnimalLine[] = [...animalAcc].map(([animalId, acc]) => {
+    const netCents = acc.revenue - (acc.cost - acc.allocatedOut);
+    return {
+      animalId,
+      name: animalNames.get(animalId) ?? `Animal #${animalId}`,
+      revenueCents: acc.revenue,
+      costCents: acc.cost,
+      allocatedToPlansCents: acc.allocatedOut,
+      netCents,
+      marginPct: marginPct(acc.revenue, netCents),
+    };
+  });
+  animals.sort((a, b) => b.netCents - a.netCents || a.animalId - b.animalId);
+
+  const programAcc = new Map<number | null, PnlProgramLine>();
+  for (const line of plans) {
+    const plan = plansById.get(line.planId)!;
+    let program = programAcc.get(plan.programId);
+    if (!program) {
+      program = {
+        programId: plan.programId,
+        name: plan.programName ?? "No program",
+        planCount: 0,
+        revenueCents: 0,
+        costCents: 0,
+        netCents: 0,
+        marginPct: null,
+      };
+      programAcc.set(plan.programId, program);
+    }
+    program.planCount++;
+    program.revenueCents += line.revenueCents;
+    program.costCents += line.costCents;
+    program.netCents += line.netCents;
+  }
+  const programs = [...programAcc.values()].map((p) => ({ ...p, marginPct: marginPct(p.revenueCents, p.netCents) }));
+  programs.sort((a, b) => b.netCents - a.netCents);
+
+  const netCents = revenueTotal - costTotal;
+  return {
+    from: range.from,
+    to: range.to,
+    totals: {
+      revenueCents: revenueTotal,
+      costCents: costTotal,
+      netCents,
+      marginPct: marginPct(revenueTotal, netCents),
+      unattributedRevenueCents: unattributedRevenue,
+      unattributedCostCents: unattributedCost,
+    },
+    plans,
+    animals,
+    programs,
+  };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// CSV
+// ────────────────────────────────────────────────────────────────────────────
+
+export type ProfitLossView = "plans" | "offspring" | "animals" | "programs";
+
+export const PROFIT_LOSS_VIEWS: ProfitLossView[] = ["plans", "offspring", "animals", "programs"];
+
+/** Cents as a plain decimal amount for spreadsheets ("-12.50") */
+function dollars(cents: number): string {
+  const sign = cents < 0 ? "-" : "";
+  const abs = Math.abs(cents);
+  return `${sign}${Math.floor(abs / 100)}.${String(abs % 100).padStart(2, "0")}`;
+}
+
+const CSV_COLUMNS: Record<ProfitLossView, string[]> = {
+  plans: [
+    "plan_id", "plan", "program", "offspring", "revenue", "unassigned_revenue",
+    "direct_cost", "allocated_cost", "cost", "net", "margin_pct",
+  ],
+  offspring: ["plan_id", "plan", "offspring_id", "offspring", "alive", "revenue", "cost_basis", "margin", "margin_pct"],
+  animals: ["animal_id", "animal", "revenue", "cost", "allocated_to_litters", "net", "margin_pct"],
+  programs: ["program_id", "program", "plans", "revenue", "cost", "net", "margin_pct"],
+};
+
+/** One view of the report as CSV (header row included) */
+export function profitLossCsv(report: ProfitLossReport, view: ProfitLossView): string {
+  const programNames = new Map(report.programs.map((p) => [p.programId, p.name]));
+  let records: ExportRecord[];
+  switch (view) {
+    case "plans":
+      records = report.plans.map((p) => ({
+        plan_id: p.planId,
+        plan: p.name,
+        program: programNames.get(p.programId) ?? null,
+        offspring: p.offspring.length,
+        revenue: dollars(p.revenueCents),
+        unassigned_revenue: dollars(p.unassignedRevenueCents),
+        direct_cost: dollars(p.directCostCents),
+        allocated_cost: dollars(p.allocatedCostCents),
+        cost: dollars(p.costCents),
+        net: dollars(p.netCents),
+        margin_pct: p.marginPct,
+      }));
+      break;
+    case "offspring":
+      records = report.plans.flatMap((p) =>
+        p.offspring.map((o) => ({
+          plan_id: p.planId,
+          plan: p.name,
+          offspring_id: o.offspringId,
+          offspring: o.name,
+          alive: o.alive,
+          revenue: dollars(o.revenueCents),
+          cost_basis: dollars(o.costBasisCents),
+          margin: dollars(o.marginCents),
+          margin_pct: o.marginPct,
+        }))
+      );
+      break;
+    case "animals":
+      records = report.animals.map((a) => ({
+        animal_id: a.animalId,
+        animal: a.name,
+        revenue: dollars(a.revenueCents),
+        cost: dollars(a.costCents),
+        allocated_to_litters: dollars(a.allocatedToPlansCents),
+        net: dollars(a.netCents),
+        margin_pct: a.marginPct,
+      }));
+      break;
+    case "programs":
+      records = report.programs.map((p) => ({
+        program_id: p.programId,
+        program: p.name,
+        plans: p.planCount,
+        revenue: dollars(p.revenueCents),
+        cost: dollars(p.costCents),
+        net: dollars(p.netCents),
+        margin_pct: p.marginPct,
+      }));
+      break;
+  }
+  return csvHeader(CSV_COLUMNS[view]) + csvLines(CSV_COLUMNS[view], records);
+}
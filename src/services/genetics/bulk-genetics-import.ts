@@ -0,0 +1,490 @@
+// src/services/genetics/bulk-genetics-import.ts
+/**
+ * Bulk Genetics Import
+ *
+ * Imports a lab batch result sheet covering several animals:
+ * - Match each animal in the file to a tenant animal by microchip,
+ *   registry number or name (animal-import-service.findAnimalByIdentifiers)
+ * - Preview per-animal locus changes and conflicts with what's on record
+ * - Commit every animal in one transaction, then re-sync animal_loci and
+ *   re-run carrier checks on open breeding plans that use those animals
+ */
+
+import type { Prisma, Species } from "@prisma/client";
+import prisma from "../../prisma.js";
+import {
+  getLabReportConfig,
+  getProviderById,
+  mapLabResults,
+  parseGeneticsBatch,
+  toDatabaseFormat,
+  type GeneticsBatchAnimal,
+  type GeneticsProvider,
+} from "../../lib/genetics-import/index.js";
+import { findAnimalByIdentifiers } from "../animal-import-service.js";
+import { syncAnimalLoci } from "../../utils/sync-animal-loci-helper.js";
+import { checkBreedingPlanCarrierRisk } from "./carrier-detection.js";
+
+// ────────────────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────────────────
+
+export type BulkGeneticsMergeStrategy = "replace" | "merge";
+
+export interface BulkGeneticsResolution {
+  /** GeneticsBatchAnimal.key from the preview */
+  key: string;
+  /** Import into this animal instead of the automatic match */
+  animalId?: number;
+  /** Leave this animal out of the import */
+  skip?: boolean;
+}
+
+export interface BulkGeneticsImportInput {
+  provider: string;
+  fileContent: string;
+  /** Restrict name matching to one species */
+  species?: Species | null;
+  mergeStrategy?: BulkGeneticsMergeStrategy;
+  resolutions?: BulkGeneticsResolution[];
+}
+
+export interface BulkGeneticsLocusChange {
+  category: GeneticsCategory;
+  locus: string;
+  locusName: string;
+  before: string | null;
+  after: string | null;
+  change: "added" | "changed" | "unchanged" | "removed";
+}
+
+export type BulkGeneticsAnimalStatus = "matched" | "unmatched" | "ambiguous" | "duplicate" | "skipped";
+
+export interface BulkGeneticsAnimalPreview {
+  key: string;
+  rowNumbers: number[];
+  name: string | null;
+  microchip: string | null;
+  registrationNumber: string | null;
+  reportId: string | null;
+  testDate: string | null;
+  status: BulkGeneticsAnimalStatus;
+  matchedBy: "microchip" | "registry_number" | "name" | "resolution" | null;
+  animal: { id: number; name: string; species: string; sex: string } | null;
+  candidates: Array<{ id: number; name: string; species: string; sex: string; microchip: string | null }>;
+  changes: BulkGeneticsLocusChange[];
+  /** Loci where the file disagrees with the genotype on record */
+  conflicts: string[];
+  unmapped: Array<{ name: string; value: string }>;
+  warnings: string[];
+}
+
+export interface BulkGeneticsPreview {
+  provider: string;
+  layout: "long" | "wide" | null;
+  mergeStrategy: BulkGeneticsMergeStrategy;
+  summary: {
+    animals: number;
+    matched: number;
+    unresolved: number;
+    skipped: number;
+    lociAdded: number;
+    lociChanged: number;
+    conflicts: number;
+  };
+  /** False while any animal is unmatched, ambiguous or matched twice */
+  canCommit: boolean;
+  animals: BulkGeneticsAnimalPreview[];
+  warnings: string[];
+}
+
+export interface BulkGeneticsCommitResult {
+  provider: string;
+  imported: Array<{ animalId: number; name: string; lociImported: number }>;
+  skipped: string[];
+  breedingPlansChecked: Array<{ planId: number; hasLethalRisk: boolean; warnings: number }>;
+}
+
+export type GeneticsCategory = "coatColor" | "coatType" | "physicalTraits" | "eyeColor" | "health" | "otherTraits";
+
+interface DbLocus {
+  locus: string;
+  locusName?: string;
+  allele1?: string;
+  allele2?: string;
+  genotype?: string;
+}
+
+interface PlannedWrite {
+  animalId: number;
+  animalName: string;
+  species: string;
+  data: Record<GeneticsCategory, DbLocus[]>;
+  testDate: Date;
+  testId: string | null;
+  lociImported: number;
+}
+
+type GeneticsColumn =
+  | "coatColorData"
+  | "coatTypeData"
+  | "physicalTraitsData"
+  | "eyeColorData"
+  | "healthGeneticsData"
+  | "otherTraitsData";
+
+// Category → AnimalGenetics column
+const CATEGORY_COLUMNS: Record<GeneticsCategory, GeneticsColumn> = {
+  coatColor: "coatColorData",
+  coatType: "coatTypeData",
+  physicalTraits: "physicalTraitsData",
+  eyeColor: "eyeColorData",
+  health: "healthGeneticsData",
+  otherTraits: "otherTraitsData",
+};
+
+const CATEGORIES = Object.keys(CATEGORY_COLUMNS) as GeneticsCategory[];
+
+// Plans whose pairing can still change — carrier warnings are only actionable before breeding
+const PRE_BREEDING_STATUSES = ["PLANNING", "COMMITTED", "CYCLE_EXPECTED", "HORMONE_TESTING", "CYCLE", "ON_HOLD"] as const;
+
+function badRequest(message: string, extra: Record<string, unknown> = {}): Error {
+  return Object.assign(new Error(message), { statusCode: 400, ...extra });
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Diffing
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Merge imported loci into the existing ones (imported wins), or replace them
+ */
+function mergeLoci(existing: DbLocus[], imported: DbLocus[], strategy: BulkGeneticsMergeStrategy): DbLocus[] {
+  if (strategy === "replace") return imported;
+  const byLocus = new Map<string, DbLocus>();
+  for (const item of existing) if (item.locus) byLocus.set(item.locus, item);
+  for (const item of imported) if (item.locus) byLocus.set(item.locus, item);
+  return [...byLocus.values()];
+}
+
+export function diffLoci(
+  category: GeneticsCategory,
+  existing: DbLocus[],
+  imported: DbLocus[],
+  strategy: BulkGeneticsMergeStrategy
+): BulkGeneticsLocusChange[] {
+  const changes: BulkGeneticsLocusChange[] = [];
+  const before = new Map(existing.filter((l) => l.locus).map((l) => [l.locus, l]));
+
+  for (const item of imported) {
+    const previous = before.get(item.locus);
+    const after = item.genotype ?? null;
+    const prior = previous?.genotype ?? null;
+    changes.push({
+      category,
+      locus: item.locus,
+      locusName: item.locusName ?? item.locus,
+      before: prior,
+      after,
+      change: !previous ? "added" : prior === after ? "unchanged" : "changed",
+    });
+    before.delete(item.locus);
+  }
+
+  if (strategy === "replace") {
+    for (const item of before.values()) {
+      changes.push({
+        category,
+        locus: item.locus,
+        locusName: item.locusName ?? item.locus,
+        before: item.genotype ?? null,
+        after: null,
+        change: "removed",
+      });
+    }
+  }
+
+  return changes;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Planning (shared by preview and commit)
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * What an animal from the file is matched on. With the import's species and
+ * the file's Sex column, name matching uses findDuplicates.
+ */
+export function batchAnimalIdentifiers(group: GeneticsBatchAnimal, species?: Species | null) {
+  return {
+    name: group.name,
+    microchip: group.microchip,
+    registryNumber: group.registrationNumber,
+    species,
+    sex: group.sex,
+  };
+}
+
+async function planBulkGeneticsImport(
+  tenantId: number,
+  input: BulkGeneticsImportInput
+): Promise<{ preview: BulkGeneticsPreview; writes: PlannedWrite[] }> {
+  const provider = getProviderById(input.provider as GeneticsProvider);
+  if (!provider) throw badRequest("unknown_provider");
+  const config = provider.isSupported ? getLabReportConfig(provider.id) : null;
+  if (!config) throw badRequest("provider_not_supported");
+
+  const parsed = parseGeneticsBatch(input.fileContent);
+  if (!parsed.success) throw badRequest("parse_failed", { errors: parsed.errors });
+
+  const mergeStrategy = input.mergeStrategy ?? "merge";
+  const resolutions = new Map((input.resolutions ?? []).map((r) => [r.key, r]));
+
+  // 1. Match animals
+  type Match = {
+    group: GeneticsBatchAnimal;
+    status: "matched" | "unmatched" | "ambiguous" | "skipped";
+    animal: { id: number; name: string; species: Species; sex: string; microchip: string | null } | null;
+    matchedBy: BulkGeneticsAnimalPreview["matchedBy"];
+    candidates: Array<{ id: number; name: string; species: string; sex: string; microchip: string | null }>;
+  };
+  const matches: Match[] = [];
+
+  for (const group of parsed.animals) {
+    const resolution = resolutions.get(group.key);
+    if (resolution?.skip) {
+      matches.push({ group, status: "skipped", animal: null, matchedBy: null, candidates: [] });
+      continue;
+    }
+
+    if (resolution?.animalId) {
+      const animal = await prisma.animal.findFirst({
+        where: { id: resolution.animalId, tenantId, archived: false },
+        select: { id: true, name: true, species: true, sex: true, microchip: true },
+      });
+      if (!animal) throw badRequest("invalid_resolution", { key: group.key });
+      matches.push({ group, status: "matched", animal, matchedBy: "resolution", candidates: [] });
+      continue;
+    }
+
+    const found = await findAnimalByIdentifiers(tenantId, batchAnimalIdentifiers(group, input.species));
+    if (found.match) {
+      const animal = { ...found.match, species: found.match.species as Species };
+      matches.push({ group, status: "matched", animal, matchedBy: found.matchedBy, candidates: [] });
+    } else {
+      matches.push({
+        group,
+        status: found.candidates.length > 1 ? "ambiguous" : "unmatched",
+        animal: null,
+        matchedBy: null,
+        candidates: found.candidates,
+      });
+    }
+  }
+
+  // 2. Load what's on record for every matched animal
+  const animalIds = [...new Set(matches.flatMap((m) => (m.animal ? [m.animal.id] : [])))];
+  const existingRows = animalIds.length
+    ? await prisma.animalGenetics.findMany({ where: { animalId: { in: animalIds } } })
+    : [];
+  const existingByAnimal = new Map(existingRows.map((g) => [g.animalId, g]));
+
+  // 3. Map results and diff per animal
+  const seenAnimals = new Map<number, GeneticsBatchAnimal>();
+  const animals: BulkGeneticsAnimalPreview[] = [];
+  const writes: PlannedWrite[] = [];
+
+  for (const { group, status: matchStatus, animal, matchedBy, candidates } of matches) {
+    const entry: BulkGeneticsAnimalPreview = {
+      key: group.key,
+      rowNumbers: group.rowNumbers,
+      name: group.name ?? null,
+      microchip: group.microchip ?? null,
+      registrationNumber: group.registrationNumber ?? null,
+      reportId: group.reportId ?? null,
+      testDate: group.testDate ?? null,
+      status: matchStatus,
+      matchedBy,
+      animal: animal ? { id: animal.id, name: animal.name, species: animal.species, sex: animal.sex } : null,
+      candidates: candidates.map((c) => ({ id: c.id, name: c.name, species: c.species, sex: c.sex, microchip: c.microchip })),
+      changes: [],
+      conflicts: [],
+      unmapped: [],
+      warnings: [],
+    };
+    animals.push(entry);
+    if (!animal || matchStatus !== "matched") continue;
+
+    const earlier = seenAnimals.get(animal.id);
+    if (earlier) {
+      entry.status = "duplicate";
+      entry.conflicts.push(`${animal.name} is also matched by rows ${earlier.rowNumbers.join(", ")}`);
+      continue;
+    }
+    seenAnimals.set(animal.id, group);
+
+    if (!provider.species.includes(animal.species)) {
+      entry.warnings.push(`${provider.name} doesn't list ${animal.species.toLowerCase()} tests; check the results`);
+    }
+
+    const mapped = mapLabResults(group.results, animal.species, config, { reportUnparsed: true });
+    entry.unmapped = mapped.genetics.unmapped.map((u) => ({ name: u.name, value: u.value }));
+    entry.warnings.push(...mapped.warnings);
+
+    const dbFormat = toDatabaseFormat(mapped.genetics);
+    const imported: Record<GeneticsCategory, DbLocus[]> = {
+      coatColor: dbFormat.coatColorData,
+      coatType: dbFormat.coatTypeData,
+      physicalTraits: dbFormat.physicalTraitsData,
+      eyeColor: dbFormat.eyeColorData,
+      health: dbFormat.healthGeneticsData,
+      otherTraits: dbFormat.otherTraitsData,
+    };
+
+    const existing = existingByAnimal.get(animal.id);
+    const data = {} as Record<GeneticsCategory, DbLocus[]>;
+    for (const category of CATEGORIES) {
+      const current = (existing?.[CATEGORY_COLUMNS[category]] ?? []) as unknown as DbLocus[];
+      entry.changes.push(...diffLoci(category, current, imported[category], mergeStrategy));
+      data[category] = mergeLoci(current, imported[category], mergeStrategy);
+    }
+    entry.conflicts.push(
+      ...entry.changes
+        .filter((c) => c.change === "changed")
+        .map((c) => `${c.locusName}: ${c.before} on record, ${c.after} in file`)
+    );
+
+    const lociImported = CATEGORIES.reduce((sum, c) => sum + imported[c].length, 0);
+    if (lociImported === 0) {
+      entry.warnings.push("No recognized genetic markers for this animal");
+      continue;
+    }
+
+    writes.push({
+      animalId: animal.id,
+      animalName: animal.name,
+      species: animal.species,
+      data,
+      testDate: group.testDate ? new Date(group.testDate) : new Date(),
+      testId: group.reportId ?? null,
+      lociImported,
+    });
+  }
+
+  const unresolved = animals.filter((a) => a.status === "unmatched" || a.status === "ambiguous" || a.status === "duplicate");
+  const allChanges = animals.flatMap((a) => a.changes);
+
+  return {
+    preview: {
+      provider: provider.name,
+      layout: parsed.layout,
+      mergeStrategy,
+      summary: {
+        animals: animals.length,
+        matched: animals.filter((a) => a.status === "matched").length,
+        unresolved: unresolved.length,
+        skipped: animals.filter((a) => a.status === "skipped").length,
+        lociAdded: allChanges.filter((c) => c.change === "added").length,
+        lociChanged: allChanges.filter((c) => c.change === "changed").length,
+        conflicts: animals.reduce((sum, a) => sum + a.conflicts.length, 0),
+      },
+      canCommit: unresolved.length === 0 && writes.length > 0,
+      animals,
+      warnings: parsed.warnings,
+    },
+    writes,
+  };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Public API
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Parse and match a batch file without saving anything
+ */
+export async function previewBulkGeneticsImport(
+  tenantId: number,
+  input: BulkGeneticsImportInput
+): Promise<BulkGeneticsPreview> {
+  const { preview } = await planBulkGeneticsImport(tenantId, input);
+  return preview;
+}
+
+/**
+ * Import every matched animal in one transaction. Unresolved animals must be
+ * skipped or assigned via resolutions first (409 otherwise), so a commit never
+ * imports part of a file by accident.
+ */
+export async function commitBulkGeneticsImport(
+  tenantId: number,
+  input: BulkGeneticsImportInput,
+  userId?: string | null
+): Promise<BulkGeneticsCommitResult> {
+  const { preview, writes } = await planBulkGeneticsImport(tenantId, input);
+
+  if (!preview.canCommit) {
+    const unresolved = preview.animals
+      .filter((a) => a.status === "unmatched" || a.status === "ambiguous" || a.status === "duplicate")
+      .map((a) => a.key);
+    throw Object.assign(new Error(writes.length === 0 ? "nothing_to_import" : "unresolved_rows"), {
+      statusCode: 409,
+      unresolved,
+    });
+  }
+
+  await prisma.$transaction(
+    async (tx) => {
+      for (const write of writes) {
+        const data = {
+          testProvider: preview.provider,
+          testDate: write.testDate,
+          testId: write.testId,
+          ...Object.fromEntries(
+            CATEGORIES.map((c) => [CATEGORY_COLUMNS[c], write.data[c] as unknown as Prisma.InputJsonValue])
+          ),
+        };
+        await tx.animalGenetics.upsert({
+          where: { animalId: write.animalId },
+          create: { animalId: write.animalId, ...data },
+          update: data,
+        });
+      }
+    },
+    { timeout: 30_000 }
+  );
+
+  // Secondary index and carrier checks run after commit; failures there don't undo the import
+  for (const write of writes) {
+    await syncAnimalLoci(write.animalId, write.species, write.data);
+  }
+
+  const animalIds = writes.map((w) => w.animalId);
+  const plans = await prisma.breedingPlan.findMany({
+    where: {
+      tenantId,
+      archived: false,
+      deletedAt: null,
+      status: { in: [...PRE_BREEDING_STATUSES] },
+      OR: [{ damId: { in: animalIds } }, { sireId: { in: animalIds } }, { geneticDamId: { in: animalIds } }],
+    },
+    select: { id: true },
+  });
+
+  const breedingPlansChecked: BulkGeneticsCommitResult["breedingPlansChecked"] = [];
+  for (const plan of plans) {
+    try {
+      const risk = await checkBreedingPlanCarrierRisk(prisma, plan.id, tenantId, userId, true);
+      breedingPlansChecked.push({ planId: plan.id, hasLethalRisk: risk.hasLethalRisk, warnings: risk.warnings.length });
+    } catch (err) {
+      console.error(`[bulk-genetics-import] Carrier check failed for plan ${plan.id}:`, err);
+    }
+  }
+
+  return {
+    provider: preview.provider,
+    imported: writes.map((w) => ({ animalId: w.animalId, name: w.animalName, lociImported: w.lociImported })),
+    skipped: preview.animals.filter((a) => a.status === "skipped").map((a) => a.key),
+    breedingPlansChecked,
+  };
+}
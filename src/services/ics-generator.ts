@@ -1,6 +1,7 @@
 // src/services/ics-generator.ts
 // ICS (iCalendar) generator for scheduling booking notifications.
-// Generates calendar invites for confirmation, cancellation, and reschedule events.
+// Generates calendar invites for confirmation, cancellation, and reschedule events,
+// and the multi-event PUBLISH calendars served as subscription (webcal) feeds.
 
 /**
  * Booking data required for ICS generation.
@@ -45,8 +46,9 @@ function formatIcsDateTime(date: Date): string {
 /**
  * Generate a stable UID for a booking.
  * UID format: booking-{tenantId}-{bookingId}@breederhq.com
+ * Subscription feeds reuse it so a feed event replaces the emailed invite.
  */
-function generateBookingUid(bookingId: number, tenantId: number): string {
+export function generateBookingUid(bookingId: number, tenantId: number): string {
   return `booking-${tenantId}-${bookingId}@breederhq.com`;
 }
 
@@ -193,3 +195,105 @@ export function getIcsFilename(bookingId: number, action: "confirm" | "cancel" |
   const prefix = action === "cancel" ? "cancelled" : action === "reschedule" ? "rescheduled" : "appointment";
   return `${prefix}-${bookingId}.ics`;
 }
+
+// ---------------------------------------------------------------------------
+// Subscription feeds
+// ---------------------------------------------------------------------------
+
+/**
+ * One event in a subscription feed. UIDs must be stable across refreshes so
+ * calendar apps update events in place instead of duplicating them.
+ */
+export interface IcsFeedEvent {
+  uid: string;
+  summary: string;
+  description?: string | null;
+  start: Date;
+  /** Exclusive end; defaults to one day (all-day) or one hour after start */
+  end?: Date | null;
+  allDay: boolean;
+  location?: string | null;
+  url?: string | null;
+  categories?: string[];
+}
+
+/**
+ * Format a date as an ICS DATE value (YYYYMMDD, UTC calendar day).
+ */
+function formatIcsDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+/**
+ * Fold a content line to 75 octets as RFC 5545 requires (continuation lines
+ * start with a space). Calendar apps reject or truncate long unfolded lines.
+ */
+function foldIcsLine(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const ch of line) {
+    const chBytes = Buffer.byteLength(ch, "utf8");
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + chBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += ch;
+    currentBytes += chBytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/**
+ * Generate a PUBLISH calendar for a subscription feed.
+ */
+export function generateIcsFeed(calendarName: string, events: IcsFeedEvent[]): string {
+  const dtstamp = formatIcsDateTime(new Date());
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//BreederHQ//Calendar Feed//EN",
+    "METHOD:PUBLISH",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+    "X-PUBLISHED-TTL:PT1H",
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+  ];
+
+  for (const event of events) {
+    lines.push("BEGIN:VEVENT");
+    lines.push(`UID:${event.uid}`);
+    lines.push(`DTSTAMP:${dtstamp}`);
+
+    if (event.allDay) {
+      const end = event.end ?? new Date(event.start.getTime() + 24 * 60 * 60 * 1000);
+      lines.push(`DTSTART;VALUE=DATE:${formatIcsDate(event.start)}`);
+      lines.push(`DTEND;VALUE=DATE:${formatIcsDate(end)}`);
+      lines.push("TRANSP:TRANSPARENT");
+    } else {
+      const end = event.end ?? new Date(event.start.getTime() + 60 * 60 * 1000);
+      lines.push(`DTSTART:${formatIcsDateTime(event.start)}`);
+      lines.push(`DTEND:${formatIcsDateTime(end)}`);
+    }
+
+    lines.push(`SUMMARY:${escapeIcsText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    if (event.categories?.length) {
+      lines.push(`CATEGORIES:${event.categories.map(escapeIcsText).join(",")}`);
+    }
+    lines.push("STATUS:CONFIRMED");
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
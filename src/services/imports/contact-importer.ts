@@ -0,0 +1,153 @@
+/**
+ * Contact Importer
+ *
+ * Creates Party + Contact pairs the same way POST /contacts does. Rows whose
+ * email already belongs to a contact are duplicates (update or skip); an
+ * organization named on a row is linked by name and created if missing.
+ */
+
+import type { Prisma } from "@prisma/client";
+import prisma from "../../prisma.js";
+import { CONTACT_IMPORT_SCHEMA, importCountryCode, type ImportRow } from "../../lib/csv-import/index.js";
+import { flagInFileDuplicates, importError, text, withoutNulls } from "./import-helpers.js";
+import { findOrCreateOrganization } from "./organization-importer.js";
+import type { EntityImporter } from "./types.js";
+
+function deriveDisplayName(nickname: string | null, firstName: string | null, lastName: string | null) {
+  const base = nickname || firstName || "";
+  return [base, lastName].filter(Boolean).join(" ").trim();
+}
+
+/** Imported contact fields; null means "not in the file" */
+function contactFields(row: ImportRow) {
+  const country = text(row, "country");
+  return {
+    first_name: text(row, "firstName"),
+    last_name: text(row, "lastName"),
+    nickname: text(row, "nickname"),
+    email: text(row, "email"),
+    phoneE164: text(row, "phone"),
+    whatsappE164: text(row, "whatsapp"),
+    street: text(row, "street"),
+    street2: text(row, "street2"),
+    city: text(row, "city"),
+    state: text(row, "state"),
+    zip: text(row, "zip"),
+    country: country ? importCountryCode(country) : null,
+  };
+}
+
+export const contactImporter: EntityImporter<void> = {
+  schema: CONTACT_IMPORT_SCHEMA,
+  usageMetric: "CONTACT_COUNT",
+  allowCreateDuplicate: false,
+
+  async prepare() {},
+
+  async check(tenantId, rows) {
+    flagInFileDuplicates(rows, (row) => text(row, "email"), "Email");
+    const valid = rows.filter((r) => r.status === "valid");
+
+    const emails = [...new Set(valid.map((r) => text(r, "email")).filter((e): e is string => !!e))];
+    const existing = emails.length
+      ? await prisma.contact.findMany({
+          where: { tenantId, email: { in: emails }, deletedAt: null },
+          select: { id: true, email: true, display_name: true },
+        })
+      : [];
+    const byEmail = new Map(existing.map((c) => [String(c.email).toLowerCase(), c]));
+
+    const orgNames = [...new Set(valid.map((r) => text(r, "organization")).filter((n): n is string => !!n))];
+    const orgs = orgNames.length
+      ? await prisma.organization.findMany({
+          where: { tenantId, name: { in: orgNames, mode: "insensitive" } },
+          select: { name: true },
+        })
+      : [];
+    const knownOrgs = new Set(orgs.map((o) => o.name.toLowerCase()));
+
+    for (const row of valid) {
+      const email = text(row, "email");
+      const match = email ? byEmail.get(email) : undefined;
+      if (match) {
+        row.status = "warning";
+        row.warning = {
+          type: "duplicate",
+          field: "email",
+          message: `A contact with email ${email} already exists`,
+          match: { id: match.id, label: match.display_name },
+        };
+      }
+
+      const orgName = text(row, "organization");
+      if (orgName && !knownOrgs.has(orgName.toLowerCase())) {
+        row.notes = [`Organization '${orgName}' will be created`];
+      }
+    }
+
+    return rows;
+  },
+
+  async execute(tx, tenantId, row, resolution) {
+    const fields = contactFields(row);
+    const orgName = text(row, "organization");
+    const organizationId = orgName ? (await findOrCreateOrganization(tx, tenantId, orgName)).id : undefined;
+
+    if (resolution?.action === "update") {
+      const contactId = resolution.targetId ?? row.warning?.match?.id;
+      const contact = contactId
+        ? await tx.contact.findFirst({ where: { id: contactId, tenantId, deletedAt: null } })
+        : null;
+      if (!contact) throw importError("contact_not_found", 404);
+
+      const changes = withoutNulls(fields);
+      const display_name = deriveDisplayName(
+        changes.nickname ?? contact.nickname,
+        changes.first_name ?? contact.first_name,
+        changes.last_name ?? contact.last_name
+      );
+
+      if (contact.partyId) {
+        const { first_name, last_name, nickname, zip, ...partyFields } = changes;
+        await tx.party.update({
+          where: { id: contact.partyId },
+          data: { ...partyFields, ...(zip ? { postalCode: zip } : {}), name: display_name },
+        });
+      }
+      await tx.contact.update({
+        where: { id: contact.id },
+        data: { ...changes, display_name, ...(organizationId ? { organizationId } : {}) },
+      });
+      return { action: "updated", id: contact.id };
+    }
+
+    const display_name = deriveDisplayName(fields.nickname, fields.first_name, fields.last_name);
+    const party = await tx.party.create({
+      data: {
+        tenantId,
+        type: "CONTACT",
+        name: display_name,
+        email: fields.email,
+        phoneE164: fields.phoneE164,
+        whatsappE164: fields.whatsappE164,
+        street: fields.street,
+        street2: fields.street2,
+        city: fields.city,
+        state: fields.state,
+        postalCode: fields.zip,
+        country: fields.country,
+      },
+    });
+    const contact = await tx.contact.create({
+      data: {
+        tenantId,
+        partyId: party.id,
+        organizationId: organizationId ?? null,
+        display_name,
+        ...fields,
+      } as Prisma.ContactUncheckedCreateInput,
+      select: { id: true },
+    });
+    return { action: "created", id: contact.id };
+  },
+};
@@ -0,0 +1,52 @@
+/**
+ * Helpers shared by the entity importers
+ */
+
+import type { ImportRow } from "../../lib/csv-import/index.js";
+
+export function importError(code: string, statusCode: number, extra: Record<string, unknown> = {}) {
+  return Object.assign(new Error(code), { statusCode, ...extra });
+}
+
+/** Text value of a row field, or null */
+export function text(row: ImportRow, key: string): string | null {
+  const value = row.values[key];
+  return typeof value === "string" && value ? value : null;
+}
+
+/** Numeric value of a row field, or null */
+export function num(row: ImportRow, key: string): number | null {
+  const value = row.values[key];
+  return typeof value === "number" ? value : null;
+}
+
+/**
+ * Mark rows that repeat a key already used earlier in the file as errors
+ */
+export function flagInFileDuplicates(
+  rows: ImportRow[],
+  keyOf: (row: ImportRow) => string | null,
+  label: string
+): void {
+  const seen = new Map<string, number>();
+  for (const row of rows) {
+    if (row.status === "error") continue;
+    const key = keyOf(row);
+    if (!key) continue;
+    const first = seen.get(key);
+    if (first !== undefined) {
+      row.status = "error";
+      row.warning = undefined;
+      row.errors = [...(row.errors ?? []), `${label} also appears on row ${first}`];
+    } else {
+      seen.set(key, row.rowNumber);
+    }
+  }
+}
+
+/**
+ * Drop fields the file left empty, so an update never blanks existing data
+ */
+export function withoutNulls<T extends Record<string, unknown>>(fields: T): Partial<T> {
+  return Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== null)) as Partial<T>;
+}
@@ -0,0 +1,535 @@
+// src/services/imports/import-job-service.ts
+/**
+ * Spreadsheet Import Jobs
+ *
+ * parse → validate → warnings → resolve → execute, for every entity in
+ * IMPORTERS:
+ * - Upload: read the CSV/XLSX, suggest a column mapping (saved mappings
+ *   first) and store the raw rows on an ImportJob
+ * - Preview: validate through the mapping, then run the importer's database
+ *   checks; re-run whenever the mapping or context changes
+ * - Execute: apply the user's resolutions row by row in the background. Each
+ *   row's writes and the job's progress counters commit in one transaction,
+ *   so a job interrupted by a restart resumes at the first unwritten row.
+ */
+
+import type { ImportJob, Prisma } from "@prisma/client";
+import prisma from "../../prisma.js";
+import {
+  checkColumnMapping,
+  IMPORT_SCHEMAS,
+  isImportEntity,
+  readSpreadsheet,
+  suggestColumnMapping,
+  validateImportRows,
+  type ColumnMapping,
+  type ImportEntity,
+  type ImportRow,
+  type ImportRowResolution,
+  type SpreadsheetRow,
+} from "../../lib/csv-import/index.js";
+import { canAddResource, updateUsageSnapshot } from "../subscription/usage-service.js";
+import { contactImporter } from "./contact-importer.js";
+import { importError } from "./import-helpers.js";
+import { neonatalWeightImporter } from "./neonatal-weight-importer.js";
+import { offspringImporter } from "./offspring-importer.js";
+import { organizationImporter } from "./organization-importer.js";
+import type { EntityImporter, ImportJobContext } from "./types.js";
+import { vaccinationImporter } from "./vaccination-importer.js";
+
+export const IMPORTERS: Record<ImportEntity, EntityImporter<any>> = {
+  contacts: contactImporter,
+  organizations: organizationImporter,
+  offspring: offspringImporter,
+  vaccinations: vaccinationImporter,
+  neonatal_weights: neonatalWeightImporter,
+};
+
+/** Largest file (in data rows) accepted for one job */
+export const MAX_IMPORT_ROWS = 5000;
+
+/** A running job that hasn't reported progress for this long can be resumed */
+const STALE_RUNNING_MS = 2 * 60 * 1000;
+
+const ROW_TRANSACTION_TIMEOUT_MS = 30_000;
+
+// ────────────────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────────────────
+
+export interface CreateImportJobInput {
+  entity: string;
+  file: Buffer;
+  fileName?: string | null;
+  context?: ImportJobContext | null;
+  /** Saved mapping to start from (defaults to the most recently saved one) */
+  mappingId?: number | null;
+}
+
+export interface ImportPreview {
+  job: ImportJobView;
+  summary: { totalRows: number; validRows: number; warningRows: number; errorRows: number };
+  /** Problems with the column mapping; rows aren't validated until these are fixed */
+  mappingProblems: string[];
+  rows: ImportRow[];
+}
+
+export type ImportJobView = ReturnType<typeof toJobView>;
+
+interface RowError {
+  rowNumber: number;
+  error: string;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ────────────────────────────────────────────────────────────────────────────
+
+function toJobView(job: ImportJob) {
+  const resumable =
+    job.status === "failed" ||
+    (job.status === "running" && isStale(job));
+  return {
+    id: job.id,
+    entity: job.entity as ImportEntity,
+    status: job.status,
+    resumable,
+    fileName: job.fileName,
+    fileFormat: job.fileFormat,
+    headers: job.headers as string[],
+    mapping: job.mapping as ColumnMapping,
+    context: (job.context as ImportJobContext | null) ?? {},
+    totalRows: job.totalRows,
+    processedRows: job.processedRows,
+    createdCount: job.createdCount,
+    updatedCount: job.updatedCount,
+    skippedCount: job.skippedCount,
+    errorCount: job.errorCount,
+    rowErrors: (job.rowErrors as RowError[] | null) ?? [],
+    error: job.error,
+    createdByUserId: job.createdByUserId,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  };
+}
+
+function isStale(job: Pick<ImportJob, "heartbeatAt" | "startedAt">) {
+  const last = job.heartbeatAt ?? job.startedAt;
+  return !last || Date.now() - last.getTime() > STALE_RUNNING_MS;
+}
+
+function summarize(rows: ImportRow[]) {
+  return {
+    totalRows: rows.length,
+    validRows: rows.filter((r) => r.status === "valid").length,
+    warningRows: rows.filter((r) => r.status === "warning").length,
+    errorRows: rows.filter((r) => r.status === "error").length,
+  };
+}
+
+function importerFor(entity: string): EntityImporter<any> {
+  if (!isImportEntity(entity)) throw importError("unknown_entity", 400);
+  return IMPORTERS[entity];
+}
+
+async function loadJob(tenantId: number, jobId: number) {
+  const job = await prisma.importJob.findFirst({ where: { id: jobId, tenantId } });
+  if (!job) throw importError("import_job_not_found", 404);
+  return job;
+}
+
+/** Row error text for the job report; Prisma errors are reduced to their code */
+function rowErrorMessage(err: any): string {
+  if (err?.code === "P2002") return "duplicate_value";
+  if (typeof err?.code === "string" && err.code.startsWith("P")) return `database_error_${err.code}`;
+  return err?.message || "row_failed";
+}
+
+/**
+ * Which rows a resolution set will import, after checking each resolution fits its row
+ */
+function planRows(importer: EntityImporter<any>, rows: ImportRow[], resolutions: ImportRowResolution[]) {
+  const byRow = new Map(resolutions.map((r) => [r.rowNumber, r]));
+  let creates = 0;
+
+  for (const row of rows) {
+    const resolution = byRow.get(row.rowNumber);
+    if (!resolution) {
+      if (row.status === "valid") creates++;
+      continue;
+    }
+    if (row.status !== "warning" || resolution.action === "skip") continue;
+
+    const allowed =
+      row.warning?.type === "duplicate"
+        ? ["update", ...(importer.allowCreateDuplicate === false ? [] : ["create_new"])]
+        : ["link"];
+    if (!allowed.includes(resolution.action)) {
+      throw importError("invalid_resolution", 400, { rowNumber: row.rowNumber, allowed });
+    }
+    if (resolution.action === "link" && !resolution.targetId) {
+      throw importError("invalid_resolution", 400, { rowNumber: row.rowNumber, detail: "targetId is required" });
+    }
+    if (resolution.action !== "update") creates++;
+  }
+
+  return { byRow, creates };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Upload & preview
+// ────────────────────────────────────────────────────────────────────────────
+
+async function runPreview(job: ImportJob): Promise<ImportPreview> {
+  const importer = importerFor(job.entity);
+  const headers = job.headers as string[];
+  const mapping = job.mapping as ColumnMapping;
+  const mappingProblems = checkColumnMapping(headers, importer.schema, mapping);
+
+  let rows: ImportRow[] = [];
+  if (mappingProblems.length === 0) {
+    const state = await importer.prepare(job.tenantId, (job.context as ImportJobContext | null) ?? {});
+    const validated = validateImportRows(
+      { headers, rows: job.sheetRows as unknown as SpreadsheetRow[] },
+      importer.schema,
+      mapping
+    );
+    rows = await importer.check(job.tenantId, validated, state);
+  }
+
+  const updated = await prisma.importJob.update({
+    where: { id: job.id },
+    data: { rows: rows as unknown as Prisma.InputJsonValue, resolutions: [] },
+  });
+  return { job: toJobView(updated), summary: summarize(rows), mappingProblems, rows };
+}
+
+/**
+ * Read an uploaded file into a new job and preview it with the suggested mapping
+ */
+export async function createImportJob(
+  tenantId: number,
+  input: CreateImportJobInput,
+  userId: string | null
+): Promise<ImportPreview> {
+  const importer = importerFor(input.entity);
+
+  let sheet;
+  try {
+    sheet = readSpreadsheet(input.file, { maxRows: MAX_IMPORT_ROWS });
+  } catch (err) {
+    throw importError("file_unreadable", 400, { detail: (err as Error).message });
+  }
+  if (sheet.rows.length > MAX_IMPORT_ROWS) {
+    throw importError("too_many_rows", 400, { limit: MAX_IMPORT_ROWS });
+  }
+
+  const saved = await prisma.importColumnMapping.findFirst({
+    where: { tenantId, entity: input.entity, ...(input.mappingId ? { id: input.mappingId } : {}) },
+    orderBy: { updatedAt: "desc" },
+  });
+  if (input.mappingId && !saved) throw importError("mapping_not_found", 404);
+
+  const job = await prisma.importJob.create({
+    data: {
+      tenantId,
+      entity: input.entity,
+      fileName: input.fileName ?? null,
+      fileFormat: sheet.format,
+      headers: sheet.headers,
+      sheetRows: sheet.rows as unknown as Prisma.InputJsonValue,
+      mapping: suggestColumnMapping(sheet.headers, importer.schema, saved?.mapping as ColumnMapping | undefined),
+      context: (input.context ?? {}) as Prisma.InputJsonValue,
+      totalRows: sheet.rows.length,
+      createdByUserId: userId,
+    },
+  });
+
+  return runPreview(job);
+}
+
+/**
+ * Re-validate a job that hasn't started, optionally with a new mapping or context
+ */
+export async function previewImportJob(
+  tenantId: number,
+  jobId: number,
+  changes: { mapping?: ColumnMapping; context?: ImportJobContext } = {}
+): Promise<ImportPreview> {
+  let job = await loadJob(tenantId, jobId);
+  if (job.status !== "ready") throw importError("import_job_not_ready", 409, { status: job.status });
+
+  if (changes.mapping || changes.context) {
+    job = await prisma.importJob.update({
+      where: { id: job.id },
+      data: {
+        ...(changes.mapping ? { mapping: changes.mapping as Prisma.InputJsonValue } : {}),
+        ...(changes.context ? { context: changes.context as Prisma.InputJsonValue } : {}),
+      },
+    });
+  }
+
+  return runPreview(job);
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Execution
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Write the job's remaining rows. Each row commits together with the job's
+ * progress; the loop stops if the job is canceled meanwhile.
+ */
+export async function runImportJob(jobId: number): Promise<void> {
+  const job = await prisma.importJob.findUnique({ where: { id: jobId } });
+  if (!job || job.status !== "running") return;
+
+  const importer = importerFor(job.entity);
+  const userId = job.createdByUserId;
+  const rowErrors: RowError[] = [...((job.rowErrors as RowError[] | null) ?? [])];
+
+  let state: unknown;
+  try {
+    state = await importer.prepare(job.tenantId, (job.context as ImportJobContext | null) ?? {});
+  } catch (err) {
+    await prisma.importJob.update({
+      where: { id: job.id },
+      data: { status: "failed", error: rowErrorMessage(err) },
+    });
+    return;
+  }
+
+  const checkedRows = (job.rows as unknown as ImportRow[] | null) ?? [];
+  const rows = importer.order ? importer.order(checkedRows) : checkedRows;
+  const resolutions = new Map(
+    ((job.resolutions as unknown as ImportRowResolution[] | null) ?? []).map((r) => [r.rowNumber, r])
+  );
+  const stillRunning = { id: job.id, status: "running" as const };
+  let created = job.createdCount;
+
+  try {
+    for (let index = job.processedRows; index < rows.length; index++) {
+      const row = rows[index];
+      const resolution = resolutions.get(row.rowNumber);
+      const progress = { processedRows: index + 1, heartbeatAt: new Date() };
+
+      const skip =
+        row.status === "error" || (row.status === "warning" && (!resolution || resolution.action === "skip"));
+      if (skip) {
+        const { count } = await prisma.importJob.updateMany({
+          where: stillRunning,
+          data: { ...progress, skippedCount: { increment: 1 } },
+        });
+        if (count === 0) return;
+        continue;
+      }
+
+      try {
+        const outcome = await prisma.$transaction(
+          async (tx) => {
+            const result = await importer.execute(tx, job.tenantId, row, resolution, state, userId);
+            const { count } = await tx.importJob.updateMany({
+              where: stillRunning,
+              data: {
+                ...progress,
+                ...(result.action === "created"
+                  ? { createdCount: { increment: 1 } }
+                  : { updatedCount: { increment: 1 } }),
+              },
+            });
+            // Canceled while this row was being written: roll the row back
+            if (count === 0) throw importError("import_job_canceled", 409);
+            return result;
+          },
+          { timeout: ROW_TRANSACTION_TIMEOUT_MS }
+        );
+        if (outcome.action === "created") created++;
+      } catch (err: any) {
+        if (err?.message === "import_job_canceled") return;
+
+        rowErrors.push({ rowNumber: row.rowNumber, error: rowErrorMessage(err) });
+        const { count } = await prisma.importJob.updateMany({
+          where: stillRunning,
+          data: {
+            ...progress,
+            errorCount: { increment: 1 },
+            rowErrors: rowErrors as unknown as Prisma.InputJsonValue,
+          },
+        });
+        if (count === 0) return;
+      }
+    }
+
+    await prisma.importJob.updateMany({
+      where: stillRunning,
+      data: { status: "completed", completedAt: new Date(), heartbeatAt: new Date() },
+    });
+  } catch (err) {
+    console.error("[imports] Import job failed:", { jobId: job.id, error: (err as Error).message });
+    await prisma.importJob.updateMany({
+      where: stillRunning,
+      data: { status: "failed", error: rowErrorMessage(err) },
+    });
+  } finally {
+    if (importer.usageMetric && created > job.createdCount) {
+      await updateUsageSnapshot(job.tenantId, importer.usageMetric).catch(() => {});
+    }
+  }
+}
+
+function startInBackground(jobId: number) {
+  runImportJob(jobId).catch((err) => {
+    console.error("[imports] Import job crashed:", { jobId, error: (err as Error).message });
+  });
+}
+
+/**
+ * Save the resolutions and start writing rows. Returns once the job is
+ * running; poll getImportJob for progress.
+ */
+export async function executeImportJob(
+  tenantId: number,
+  jobId: number,
+  resolutions: ImportRowResolution[]
+): Promise<ImportJobView> {
+  const job = await loadJob(tenantId, jobId);
+  if (job.status !== "ready") throw importError("import_job_not_ready", 409, { status: job.status });
+  if (!job.rows) throw importError("import_job_not_previewed", 409);
+
+  const importer = importerFor(job.entity);
+  const rows = job.rows as unknown as ImportRow[];
+  const { creates } = planRows(importer, rows, resolutions);
+  if (creates === 0 && !resolutions.some((r) => r.action === "update")) {
+    throw importError("nothing_to_import", 409);
+  }
+  if (importer.usageMetric && !(await canAddResource(tenantId, importer.usageMetric, creates))) {
+    throw importError("quota_exceeded", 403, { metric: importer.usageMetric });
+  }
+
+  const now = new Date();
+  const { count } = await prisma.importJob.updateMany({
+    where: { id: job.id, status: "ready" },
+    data: {
+      status: "running",
+      resolutions: resolutions as unknown as Prisma.InputJsonValue,
+      startedAt: now,
+      heartbeatAt: now,
+    },
+  });
+  if (count === 0) throw importError("import_job_not_ready", 409);
+
+  startInBackground(job.id);
+  return toJobView(await loadJob(tenantId, jobId));
+}
+
+/**
+ * Continue a failed job, or a running one that stopped reporting progress
+ * (e.g. the server restarted mid-import), from its first unwritten row
+ */
+export async function resumeImportJob(tenantId: number, jobId: number): Promise<ImportJobView> {
+  const job = await loadJob(tenantId, jobId);
+  if (!toJobView(job).resumable) throw importError("import_job_not_resumable", 409, { status: job.status });
+
+  const { count } = await prisma.importJob.updateMany({
+    where: { id: job.id, status: job.status, heartbeatAt: job.heartbeatAt },
+    data: { status: "running", error: null, heartbeatAt: new Date() },
+  });
+  if (count === 0) throw importError("import_job_not_resumable", 409);
+
+  startInBackground(job.id);
+  return toJobView(await loadJob(tenantId, jobId));
+}
+
+/**
+ * Stop a job. Rows already written stay; the row in flight is rolled back.
+ */
+export async function cancelImportJob(tenantId: number, jobId: number): Promise<ImportJobView> {
+  const job = await loadJob(tenantId, jobId);
+  if (job.status === "completed" || job.status === "canceled") {
+    throw importError("import_job_finished", 409, { status: job.status });
+  }
+  const updated = await prisma.importJob.update({
+    where: { id: job.id },
+    data: { status: "canceled", completedAt: new Date() },
+  });
+  return toJobView(updated);
+}
+
+export async function getImportJob(tenantId: number, jobId: number, options: { includeRows?: boolean } = {}) {
+  const job = await loadJob(tenantId, jobId);
+  const rows = (job.rows as unknown as ImportRow[] | null) ?? [];
+  return {
+    job: toJobView(job),
+    summary: summarize(rows),
+    ...(options.includeRows ? { rows, resolutions: (job.resolutions as unknown as ImportRowResolution[]) ?? [] } : {}),
+  };
+}
+
+export async function listImportJobs(tenantId: number, options: { entity?: string; limit?: number } = {}) {
+  const jobs = await prisma.importJob.findMany({
+    where: { tenantId, ...(options.entity ? { entity: options.entity } : {}) },
+    orderBy: { createdAt: "desc" },
+    take: Math.min(Math.max(options.limit ?? 25, 1), 100),
+  });
+  return jobs.map(toJobView);
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Saved column mappings
+// ────────────────────────────────────────────────────────────────────────────
+
+export async function listColumnMappings(tenantId: number, entity?: string) {
+  return prisma.importColumnMapping.findMany({
+    where: { tenantId, ...(entity ? { entity } : {}) },
+    orderBy: [{ entity: "asc" }, { name: "asc" }],
+  });
+}
+
+/**
+ * Save (or overwrite by name) a column mapping for an entity
+ */
+export async function saveColumnMapping(
+  tenantId: number,
+  input: { entity: string; name: string; mapping: ColumnMapping },
+  userId: string | null
+) {
+  const importer = importerFor(input.entity);
+  const name = input.name.trim();
+  if (!name || name.length > 100) throw importError("invalid_name", 400);
+
+  const fieldKeys = new Set(importer.schema.fields.map((f) => f.key));
+  const unknown = Object.keys(input.mapping).filter((key) => !fieldKeys.has(key));
+  if (unknown.length > 0) throw importError("unknown_fields", 400, { fields: unknown });
+
+  return prisma.importColumnMapping.upsert({
+    where: { tenantId_entity_name: { tenantId, entity: input.entity, name } },
+    create: { tenantId, entity: input.entity, name, mapping: input.mapping, createdByUserId: userId },
+    update: { mapping: input.mapping },
+  });
+}
+
+export async function deleteColumnMapping(tenantId: number, mappingId: number) {
+  const { count } = await prisma.importColumnMapping.deleteMany({ where: { id: mappingId, tenantId } });
+  if (count === 0) throw importError("mapping_not_found", 404);
+}
+
+/**
+ * Importable entities with their fields and required context, for building the mapping UI
+ */
+export function listImportEntities() {
+  return Object.values(IMPORT_SCHEMAS).map((schema) => ({
+    entity: schema.entity,
+    label: schema.label,
+    context: schema.context ?? [],
+    fields: schema.fields.map(({ key, label, type, required, description, enumValues }) => ({
+      key,
+      label,
+      type,
+      required: required ?? false,
+      description: description ?? null,
+      enumValues: enumValues ?? null,
+    })),
+  }));
+}
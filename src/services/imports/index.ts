@@ -0,0 +1,16 @@
+/**
+ * Spreadsheet Imports
+ *
+ * Exports:
+ * - Importer contract and the per-entity importers
+ * - Import job service (upload, preview, execute, resume, cancel)
+ * - Saved column mappings
+ */
+
+export type { EntityImporter, ImportJobContext, ImportRowResult } from "./types.js";
+export { contactImporter } from "./contact-importer.js";
+export { organizationImporter, findOrCreateOrganization } from "./organization-importer.js";
+export { offspringImporter } from "./offspring-importer.js";
+export { vaccinationImporter } from "./vaccination-importer.js";
+export { neonatalWeightImporter } from "./neonatal-weight-importer.js";
+export * from "./import-job-service.js";
@@ -0,0 +1,150 @@
+/**
+ * Neonatal Weight Log Importer
+ *
+ * Imports weigh-ins for the offspring of one breeding plan as neonatal care
+ * entries. Offspring are matched by name, then collar color. Rows are written
+ * oldest first so each entry's weight change is measured against the one
+ * before it. Times without a zone are taken as UTC.
+ */
+
+import prisma from "../../prisma.js";
+import { NEONATAL_WEIGHT_IMPORT_SCHEMA, toOunces, type ImportRow } from "../../lib/csv-import/index.js";
+import { createNeonatalCareEntry } from "../neonatal-care-service.js";
+import { importError, num, text, withoutNulls } from "./import-helpers.js";
+import type { EntityImporter } from "./types.js";
+
+interface NeonatalWeightImportState {
+  planId: number;
+  offspring: Array<{ id: number; name: string | null; collarColorName: string | null }>;
+}
+
+function recordedAt(row: ImportRow): Date {
+  const value = text(row, "recordedAt")!;
+  return new Date(value.length === 10 ? value : `${value}:00Z`);
+}
+
+function offspringLabel(o: { id: number; name: string | null; collarColorName: string | null }) {
+  return [o.name ?? `#${o.id}`, o.collarColorName ? `(${o.collarColorName} collar)` : null].filter(Boolean).join(" ");
+}
+
+function matchOffspring(state: NeonatalWeightImportState, value: string) {
+  const wanted = value.trim().toLowerCase();
+  const byName = state.offspring.filter((o) => o.name?.toLowerCase() === wanted);
+  if (byName.length > 0) return byName;
+  return state.offspring.filter((o) => o.collarColorName?.toLowerCase() === wanted);
+}
+
+export const neonatalWeightImporter: EntityImporter<NeonatalWeightImportState> = {
+  schema: NEONATAL_WEIGHT_IMPORT_SCHEMA,
+
+  async prepare(tenantId, context) {
+    const planId = Number(context.breedingPlanId);
+    if (!Number.isInteger(planId) || planId <= 0) throw importError("breeding_plan_required", 400);
+
+    const plan = await prisma.breedingPlan.findFirst({
+      where: { id: planId, tenantId, deletedAt: null },
+      select: { id: true },
+    });
+    if (!plan) throw importError("breeding_plan_not_found", 404);
+
+    const offspring = await prisma.offspring.findMany({
+      where: { tenantId, breedingPlanId: planId, archivedAt: null },
+      select: { id: true, name: true, collarColorName: true },
+      orderBy: { id: "asc" },
+    });
+    return { planId, offspring };
+  },
+
+  async check(tenantId, rows, state) {
+    const matched: ImportRow[] = [];
+
+    for (const row of rows) {
+      if (row.status !== "valid") continue;
+      const value = text(row, "offspring")!;
+      const matches = matchOffspring(state, value);
+
+      if (matches.length !== 1) {
+        row.status = "warning";
+        row.warning = {
+          type: "not_found",
+          field: "offspring",
+          message: matches.length
+            ? `'${value}' matches more than one offspring in this plan`
+            : `No offspring in this plan is named or collared '${value}'`,
+          suggestions: (matches.length ? matches : state.offspring).map((o) => ({ id: o.id, label: offspringLabel(o) })),
+        };
+        continue;
+      }
+
+      row.refs = { offspringId: matches[0].id };
+      matched.push(row);
+    }
+
+    const offspringIds = [...new Set(matched.map((r) => Number(r.refs!.offspringId)))];
+    const existing = offspringIds.length
+      ? await prisma.neonatalCareEntry.findMany({
+          where: { tenantId, offspringId: { in: offspringIds }, weightOz: { not: null } },
+          select: { id: true, offspringId: true, recordedAt: true, weightOz: true },
+        })
+      : [];
+    const byKey = new Map(existing.map((e) => [`${e.offspringId}|${e.recordedAt.getTime()}`, e]));
+
+    for (const row of matched) {
+      const duplicate = byKey.get(`${row.refs!.offspringId}|${recordedAt(row).getTime()}`);
+      if (duplicate) {
+        row.status = "warning";
+        row.warning = {
+          type: "duplicate",
+          field: "recordedAt",
+          message: "A weight is already recorded for this offspring at this time",
+          match: { id: duplicate.id, label: `${Number(duplicate.weightOz)} oz` },
+        };
+      }
+    }
+
+    return rows;
+  },
+
+  order(rows) {
+    return [...rows].sort(
+      (a, b) => (text(a, "recordedAt") ?? "").localeCompare(text(b, "recordedAt") ?? "") || a.rowNumber - b.rowNumber
+    );
+  },
+
+  async execute(tx, tenantId, row, resolution, state, userId) {
+    const weightOz = toOunces(num(row, "weight")!, text(row, "unit"));
+    const temperatureF = num(row, "temperatureF");
+    const notes = text(row, "notes");
+
+    if (resolution?.action === "update") {
+      const entryId = resolution.targetId ?? row.warning?.match?.id;
+      const entry = entryId ? await tx.neonatalCareEntry.findFirst({ where: { id: entryId, tenantId } }) : null;
+      if (!entry) throw importError("care_entry_not_found", 404);
+
+      await tx.neonatalCareEntry.update({
+        where: { id: entry.id },
+        data: { weightOz, ...withoutNulls({ temperatureF, notes }) },
+      });
+      return { action: "updated", id: entry.id };
+    }
+
+    const offspringId = row.warning?.type === "not_found" ? resolution?.targetId : Number(row.refs?.offspringId);
+    if (!offspringId || !state.offspring.some((o) => o.id === offspringId)) {
+      throw importError("offspring_not_found", 404);
+    }
+
+    const entry = await createNeonatalCareEntry(
+      {
+        offspringId,
+        tenantId,
+        recordedAt: recordedAt(row),
+        recordedById: userId ?? undefined,
+        weightOz,
+        temperatureF: temperatureF ?? undefined,
+        notes: notes ?? undefined,
+      },
+      tx
+    );
+    return { action: "created", id: entry.id };
+  },
+};
@@ -0,0 +1,143 @@
+/**
+ * Offspring Importer
+ *
+ * Adds offspring to one breeding plan. Species, breed and parents come from
+ * the plan, as with POST /offspring/individuals; birth date defaults to the
+ * plan's actual birth date. A name already used in the plan is a duplicate.
+ */
+
+import type { Species } from "@prisma/client";
+import prisma from "../../prisma.js";
+import { OFFSPRING_IMPORT_SCHEMA, toOunces, type ImportRow } from "../../lib/csv-import/index.js";
+import { flagInFileDuplicates, importError, num, text, withoutNulls } from "./import-helpers.js";
+import type { EntityImporter } from "./types.js";
+
+interface OffspringImportState {
+  plan: {
+    id: number;
+    species: Species;
+    breed: string | null;
+    birthDateActual: Date;
+    damId: number | null;
+    sireId: number | null;
+    geneticDamId: number | null;
+    recipientDamId: number | null;
+  };
+}
+
+function offspringFields(row: ImportRow) {
+  const collarColorName = text(row, "collarColor");
+  const birthDate = text(row, "birthDate");
+  const birthWeight = num(row, "birthWeight");
+  return {
+    name: text(row, "name"),
+    sex: (text(row, "sex") as "FEMALE" | "MALE" | null),
+    bornAt: birthDate ? new Date(birthDate) : null,
+    collarColorName,
+    collarAssignedAt: collarColorName ? new Date() : null,
+    birthWeightOz: birthWeight !== null ? toOunces(birthWeight, text(row, "weightUnit")) : null,
+    notes: text(row, "notes"),
+  };
+}
+
+/** Color and registration live in the offspring's JSON data, as in the offspring routes */
+function offspringData(row: ImportRow, existing: unknown = {}) {
+  const data: Record<string, unknown> =
+    existing && typeof existing === "object" ? { ...(existing as Record<string, unknown>) } : {};
+  const color = text(row, "color");
+  const registrationId = text(row, "registrationNumber");
+  if (color) data.color = color;
+  if (registrationId) data.registrationId = registrationId;
+  return data;
+}
+
+export const offspringImporter: EntityImporter<OffspringImportState> = {
+  schema: OFFSPRING_IMPORT_SCHEMA,
+
+  async prepare(tenantId, context) {
+    const planId = Number(context.breedingPlanId);
+    if (!Number.isInteger(planId) || planId <= 0) throw importError("breeding_plan_required", 400);
+
+    const plan = await prisma.breedingPlan.findFirst({
+      where: { id: planId, tenantId, deletedAt: null },
+      include: { dam: { select: { breed: true, canonicalBreed: { select: { name: true } } } } },
+    });
+    if (!plan) throw importError("breeding_plan_not_found", 404);
+    if (!plan.birthDateActual) throw importError("birth_date_not_recorded", 400);
+
+    return {
+      plan: {
+        id: plan.id,
+        species: plan.species,
+        breed: plan.breedText?.trim() || plan.dam?.canonicalBreed?.name || plan.dam?.breed || null,
+        birthDateActual: plan.birthDateActual,
+        damId: plan.damId,
+        sireId: plan.sireId,
+        geneticDamId: plan.geneticDamId,
+        recipientDamId: plan.recipientDamId,
+      },
+    };
+  },
+
+  async check(tenantId, rows, { plan }) {
+    flagInFileDuplicates(rows, (row) => text(row, "name")?.toLowerCase() ?? null, "Name");
+
+    const existing = await prisma.offspring.findMany({
+      where: { tenantId, breedingPlanId: plan.id, archivedAt: null },
+      select: { id: true, name: true },
+    });
+    const byName = new Map(existing.filter((o) => o.name).map((o) => [o.name!.toLowerCase(), o]));
+
+    for (const row of rows) {
+      if (row.status !== "valid") continue;
+      const match = byName.get(text(row, "name")!.toLowerCase());
+      if (match) {
+        row.status = "warning";
+        row.warning = {
+          type: "duplicate",
+          field: "name",
+          message: `This plan already has an offspring named '${match.name}'`,
+          match: { id: match.id, label: match.name! },
+        };
+      }
+    }
+
+    return rows;
+  },
+
+  async execute(tx, tenantId, row, resolution, { plan }) {
+    const fields = offspringFields(row);
+
+    if (resolution?.action === "update") {
+      const offspringId = resolution.targetId ?? row.warning?.match?.id;
+      const offspring = offspringId
+        ? await tx.offspring.findFirst({ where: { id: offspringId, tenantId, breedingPlanId: plan.id } })
+        : null;
+      if (!offspring) throw importError("offspring_not_found", 404);
+
+      await tx.offspring.update({
+        where: { id: offspring.id },
+        data: { ...withoutNulls(fields), data: offspringData(row, offspring.data) as any },
+      });
+      return { action: "updated", id: offspring.id };
+    }
+
+    const created = await tx.offspring.create({
+      data: {
+        tenantId,
+        breedingPlanId: plan.id,
+        species: plan.species,
+        breed: plan.breed,
+        damId: plan.damId,
+        sireId: plan.sireId,
+        geneticDamId: plan.geneticDamId,
+        recipientDamId: plan.recipientDamId,
+        ...fields,
+        bornAt: fields.bornAt ?? plan.birthDateActual,
+        data: offspringData(row) as any,
+      },
+      select: { id: true },
+    });
+    return { action: "created", id: created.id };
+  },
+};
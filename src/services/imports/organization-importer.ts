@@ -0,0 +1,120 @@
+/**
+ * Organization Importer
+ *
+ * Creates Party + Organization pairs the same way POST /organizations does.
+ * Organization names are unique per tenant, so a name already on record is a
+ * duplicate (update or skip).
+ */
+
+import type { Prisma } from "@prisma/client";
+import prisma from "../../prisma.js";
+import { importCountryCode, ORGANIZATION_IMPORT_SCHEMA, type ImportRow } from "../../lib/csv-import/index.js";
+import { flagInFileDuplicates, importError, text, withoutNulls } from "./import-helpers.js";
+import type { EntityImporter } from "./types.js";
+
+function organizationFields(row: ImportRow) {
+  const country = text(row, "country");
+  return {
+    email: text(row, "email"),
+    phone: text(row, "phone"),
+    website: text(row, "website"),
+    street: text(row, "street"),
+    street2: text(row, "street2"),
+    city: text(row, "city"),
+    state: text(row, "state"),
+    zip: text(row, "zip"),
+    country: country ? importCountryCode(country) : null,
+  };
+}
+
+type OrganizationFields = ReturnType<typeof organizationFields>;
+
+function partyFields(fields: Partial<OrganizationFields>) {
+  const { phone, website, zip, ...rest } = fields;
+  return {
+    ...rest,
+    ...(phone !== undefined ? { phoneE164: phone } : {}),
+    ...(zip !== undefined ? { postalCode: zip } : {}),
+  };
+}
+
+async function createOrganization(
+  tx: Prisma.TransactionClient,
+  tenantId: number,
+  name: string,
+  fields: Partial<OrganizationFields> = {}
+) {
+  const party = await tx.party.create({
+    data: { tenantId, type: "ORGANIZATION", name, ...partyFields(fields) },
+  });
+  return tx.organization.create({
+    data: { tenantId, partyId: party.id, name, ...fields },
+    select: { id: true, name: true },
+  });
+}
+
+/**
+ * Organization with this name (case-insensitive), created when there is none
+ */
+export async function findOrCreateOrganization(tx: Prisma.TransactionClient, tenantId: number, name: string) {
+  const existing = await tx.organization.findFirst({
+    where: { tenantId, name: { equals: name, mode: "insensitive" } },
+    select: { id: true, name: true },
+  });
+  return existing ?? createOrganization(tx, tenantId, name);
+}
+
+export const organizationImporter: EntityImporter<void> = {
+  schema: ORGANIZATION_IMPORT_SCHEMA,
+  allowCreateDuplicate: false,
+
+  async prepare() {},
+
+  async check(tenantId, rows) {
+    flagInFileDuplicates(rows, (row) => text(row, "name")?.toLowerCase() ?? null, "Name");
+    const valid = rows.filter((r) => r.status === "valid");
+
+    const names = [...new Set(valid.map((r) => text(r, "name")!))];
+    const existing = names.length
+      ? await prisma.organization.findMany({
+          where: { tenantId, name: { in: names, mode: "insensitive" } },
+          select: { id: true, name: true },
+        })
+      : [];
+    const byName = new Map(existing.map((o) => [o.name.toLowerCase(), o]));
+
+    for (const row of valid) {
+      const match = byName.get(text(row, "name")!.toLowerCase());
+      if (match) {
+        row.status = "warning";
+        row.warning = {
+          type: "duplicate",
+          field: "name",
+          message: `Organization '${match.name}' already exists`,
+          match: { id: match.id, label: match.name },
+        };
+      }
+    }
+
+    return rows;
+  },
+
+  async execute(tx, tenantId, row, resolution) {
+    const name = text(row, "name")!;
+    const fields = organizationFields(row);
+
+    if (resolution?.action === "update") {
+      const orgId = resolution.targetId ?? row.warning?.match?.id;
+      const org = orgId ? await tx.organization.findFirst({ where: { id: orgId, tenantId } }) : null;
+      if (!org) throw importError("organization_not_found", 404);
+
+      const changes = withoutNulls(fields);
+      await tx.party.update({ where: { id: org.partyId }, data: partyFields(changes) });
+      await tx.organization.update({ where: { id: org.id }, data: changes });
+      return { action: "updated", id: org.id };
+    }
+
+    const created = await createOrganization(tx, tenantId, name, fields);
+    return { action: "created", id: created.id };
+  },
+};
@@ -0,0 +1,57 @@
+/**
+ * Spreadsheet Import Types
+ *
+ * Contract between the import job runner and the per-entity importers.
+ * Validation is schema-driven (lib/csv-import); importers add the database
+ * side: duplicate and reference checks, and the writes for one row.
+ */
+
+import type { Prisma, UsageMetricKey } from "@prisma/client";
+import type {
+  ImportRow,
+  ImportRowResolution,
+  ImportSchema,
+} from "../../lib/csv-import/index.js";
+
+/**
+ * Job-level parameters, e.g. { breedingPlanId: 12 } for offspring
+ */
+export type ImportJobContext = Record<string, string | number | null>;
+
+export interface ImportRowResult {
+  action: "created" | "updated";
+  id: number;
+}
+
+export interface EntityImporter<State = unknown> {
+  schema: ImportSchema;
+  /** Usage snapshot refreshed after a job creates records */
+  usageMetric?: UsageMetricKey;
+  /** False when the duplicate key is unique, so "create_new" can't be offered */
+  allowCreateDuplicate?: boolean;
+
+  /**
+   * Validate the job context and load what every row needs (e.g. the plan
+   * and its offspring). Throws statusCode errors for a bad context.
+   */
+  prepare(tenantId: number, context: ImportJobContext): Promise<State>;
+
+  /**
+   * Database checks for validated rows: marks duplicates and unmatched
+   * references as warnings and conflicts within the file as errors
+   */
+  check(tenantId: number, rows: ImportRow[], state: State): Promise<ImportRow[]>;
+
+  /** Execution order when file order isn't right (e.g. weights oldest first) */
+  order?(rows: ImportRow[]): ImportRow[];
+
+  /** Write one row. Runs inside the job's per-row transaction. */
+  execute(
+    tx: Prisma.TransactionClient,
+    tenantId: number,
+    row: ImportRow,
+    resolution: ImportRowResolution | undefined,
+    state: State,
+    userId: string | null
+  ): Promise<ImportRowResult>;
+}
@@ -0,0 +1,142 @@
+/**
+ * Vaccination Record Importer
+ *
+ * Matches each row to an animal by microchip, registry number or name
+ * (animal-import-service.findAnimalByIdentifiers) and the vaccine to one of
+ * the species' protocols. Unmatched animals need linking; a record for the
+ * same animal, protocol and date is a duplicate.
+ */
+
+import prisma from "../../prisma.js";
+import { VACCINATION_IMPORT_SCHEMA, type ImportRow } from "../../lib/csv-import/index.js";
+import { findProtocol } from "../../lib/vaccination-protocols.js";
+import { findAnimalByIdentifiers } from "../animal-import-service.js";
+import { importError, text, withoutNulls } from "./import-helpers.js";
+import type { EntityImporter } from "./types.js";
+
+function recordFields(row: ImportRow) {
+  const expiresAt = text(row, "expiresAt");
+  return {
+    administeredAt: new Date(text(row, "administeredAt")!),
+    expiresAt: expiresAt ? new Date(expiresAt) : null,
+    veterinarian: text(row, "veterinarian"),
+    clinic: text(row, "clinic"),
+    batchLotNumber: text(row, "batchLotNumber"),
+    notes: text(row, "notes"),
+  };
+}
+
+function animalLabel(animal: { name: string; species: string; microchip: string | null }) {
+  return `${animal.name} (${animal.species}${animal.microchip ? `, ${animal.microchip}` : ""})`;
+}
+
+export const vaccinationImporter: EntityImporter<void> = {
+  schema: VACCINATION_IMPORT_SCHEMA,
+
+  async prepare() {},
+
+  async check(tenantId, rows) {
+    const lookups = new Map<string, Awaited<ReturnType<typeof findAnimalByIdentifiers>>>();
+    const matched: ImportRow[] = [];
+
+    for (const row of rows) {
+      if (row.status !== "valid") continue;
+
+      const identifiers = {
+        name: text(row, "animalName"),
+        microchip: text(row, "microchip"),
+        registryNumber: text(row, "registrationNumber"),
+      };
+      const lookupKey = JSON.stringify(identifiers).toLowerCase();
+      let result = lookups.get(lookupKey);
+      if (!result) {
+        result = await findAnimalByIdentifiers(tenantId, identifiers);
+        lookups.set(lookupKey, result);
+      }
+
+      const vaccine = text(row, "vaccine")!;
+      if (!result.match) {
+        const identifier = identifiers.name ?? identifiers.microchip ?? identifiers.registryNumber;
+        row.status = "warning";
+        row.warning = {
+          type: "not_found",
+          field: "animalName",
+          message: result.candidates.length
+            ? `'${identifier}' matches more than one animal`
+            : `No animal found for '${identifier}'`,
+          suggestions: result.candidates.map((a) => ({ id: a.id, label: animalLabel(a) })),
+        };
+        continue;
+      }
+
+      const protocol = findProtocol(result.match.species, vaccine);
+      if (!protocol) {
+        row.status = "error";
+        row.errors = [`Vaccine '${vaccine}' doesn't match a ${result.match.species.toLowerCase()} vaccination protocol`];
+        continue;
+      }
+
+      row.refs = { animalId: result.match.id, protocolKey: protocol.key };
+      matched.push(row);
+    }
+
+    const animalIds = [...new Set(matched.map((r) => Number(r.refs!.animalId)))];
+    const existing = animalIds.length
+      ? await prisma.vaccinationRecord.findMany({
+          where: { tenantId, animalId: { in: animalIds } },
+          select: { id: true, animalId: true, protocolKey: true, administeredAt: true },
+        })
+      : [];
+    const byKey = new Map(
+      existing.map((r) => [`${r.animalId}|${r.protocolKey}|${r.administeredAt.toISOString().slice(0, 10)}`, r])
+    );
+
+    for (const row of matched) {
+      const administered = text(row, "administeredAt")!;
+      const duplicate = byKey.get(`${row.refs!.animalId}|${row.refs!.protocolKey}|${administered}`);
+      if (duplicate) {
+        row.status = "warning";
+        row.warning = {
+          type: "duplicate",
+          field: "administeredAt",
+          message: `This vaccination is already recorded for ${administered}`,
+          match: { id: duplicate.id, label: `${duplicate.protocolKey} on ${administered}` },
+        };
+      }
+    }
+
+    return rows;
+  },
+
+  async execute(tx, tenantId, row, resolution) {
+    const fields = recordFields(row);
+
+    if (resolution?.action === "update") {
+      const recordId = resolution.targetId ?? row.warning?.match?.id;
+      const record = recordId ? await tx.vaccinationRecord.findFirst({ where: { id: recordId, tenantId } }) : null;
+      if (!record) throw importError("vaccination_record_not_found", 404);
+
+      await tx.vaccinationRecord.update({
+        where: { id: record.id },
+        data: withoutNulls(fields),
+      });
+      return { action: "updated", id: record.id };
+    }
+
+    const animalId = row.warning?.type === "not_found" ? resolution?.targetId : Number(row.refs?.animalId);
+    const animal = animalId
+      ? await tx.animal.findFirst({ where: { id: animalId, tenantId }, select: { id: true, species: true } })
+      : null;
+    if (!animal) throw importError("animal_not_found", 404);
+
+    const vaccine = text(row, "vaccine")!;
+    const protocol = findProtocol(animal.species, vaccine);
+    if (!protocol) throw importError("vaccine_not_recognized", 400, { vaccine });
+
+    const record = await tx.vaccinationRecord.create({
+      data: { tenantId, animalId: animal.id, protocolKey: protocol.key, ...fields },
+      select: { id: true },
+    });
+    return { action: "created", id: record.id };
+  },
+};
@@ -1,6 +1,6 @@
 // src/services/lineage-service.ts
 // Pedigree tree building and COI (Coefficient of Inbreeding) calculation
-// using Wright's path coefficient method
+// using the recursive tabular method, with Wright's path breakdown
 
 import prisma from "../prisma.js";
 import { Prisma } from "@prisma/client";
@@ -43,11 +43,80 @@ export interface COIResult {
     name: string;
     pathCount: number;
     contribution: number;
+    /** The ancestor's own inbreeding coefficient (Fa) */
+    ancestorCOI: number;
   }>;
   /** Risk level based on coefficient */
   riskLevel: "LOW" | "MODERATE" | "HIGH" | "CRITICAL";
+  /** Individual Wright paths, highest contribution first (omitted when not requested) */
+  paths?: COIPath[];
+  /** True when more paths exist than were enumerated or returned */
+  pathsTruncated?: boolean;
 }
 
+/** One Wright path through a common ancestor */
+export interface COIPath {
+  ancestorId: number;
+  /** Animal IDs from the dam up to (and including) the common ancestor */
+  damPath: number[];
+  /** Animal IDs from the sire up to (and including) the common ancestor */
+  sirePath: number[];
+  /** n1 - generations from the dam to the common ancestor */
+  damGenerations: number;
+  /** n2 - generations from the sire to the common ancestor */
+  sireGenerations: number;
+  /** Fa - the common ancestor's own inbreeding coefficient */
+  ancestorCOI: number;
+  /** (0.5)^(n1+n2+1) × (1 + Fa) */
+  contribution: number;
+}
+
+/**
+ * Minimal pedigree node used by the COI engine. Parents beyond the analysed
+ * depth (or outside the tenant) are null, so the animal counts as a founder.
+ */
+export interface PedigreeGraphNode {
+  id: number;
+  name: string;
+  damId: number | null;
+  sireId: number | null;
+}
+
+export type PedigreeGraph = Map<number, PedigreeGraphNode>;
+
+/** Known vs possible ancestor positions in one generation (1 = parents) */
+export interface PedigreeCompletenessLevel {
+  generation: number;
+  known: number;
+  possible: number;
+  ratio: number;
+}
+
+export interface PedigreeMetrics {
+  animalId: number;
+  generationsAnalyzed: number;
+  /** Pedigree completeness index per generation */
+  completeness: PedigreeCompletenessLevel[];
+  /** Distinct ancestors found within the analysed generations */
+  distinctAncestors: number;
+  /** Filled ancestor positions within the analysed generations */
+  knownPositions: number;
+  /**
+   * Ancestor loss coefficient (AVK) as a decimal: distinct ancestors ÷ known
+   * positions. 1.0 means no ancestor repeats; lower values mean more loss.
+   */
+  ancestorLossCoefficient: number | null;
+  /** Average kinship to the active breeding population of the same species */
+  meanKinship: number | null;
+  /** Number of animals the mean kinship was averaged over */
+  populationSize: number;
+}
+
+/** Default number of generations analysed above each parent */
+export const COI_DEFAULT_GENERATIONS = 10;
+/** Maximum supported COI depth */
+export const COI_MAX_GENERATIONS = 15;
+
 export interface DescendantNode {
   id: number;
   name: string;
@@ -164,30 +233,34 @@ async function buildAncestorTree(
 }
 
 /**
- * Collect all ancestors for an animal into a map (id -> generation distances)
+ * Collect the ancestry of one or more animals into a pedigree graph.
  * Uses a single recursive CTE instead of N+1 individual queries.
+ *
+ * Roots are included at generation 0 and ancestors are followed up to
+ * `maxGenerations`. Animals first reached at the depth limit have their
+ * parents cleared so the COI engine treats them as founders.
  */
-async function collectAncestors(
-  animalId: number | null,
+export async function collectAncestors(
+  rootIds: Array<number | null>,
   tenantId: number,
-  maxGenerations: number,
-  cache: Map<number, AnimalRow>
-): Promise<Map<number, number[]>> {
-  const ancestors = new Map<number, number[]>();
-  if (!animalId) return ancestors;
-
+  maxGenerations: number
+): Promise<PedigreeGraph> {
+  const graph: PedigreeGraph = new Map();
+  const ids = [...new Set(rootIds.filter((id): id is number => !!id))];
+  if (ids.length === 0) return graph;
+
+  // UNION (not UNION ALL) collapses repeated (animal, generation) rows so
+  // line-bred pedigrees don't grow exponentially.
   const rows = await prisma.$queryRaw<
-    Array<{ id: number; name: string; generation: number }>
+    Array<{ id: number; name: string; damId: number | null; sireId: number | null; generation: number }>
   >(Prisma.sql`
     WITH RECURSIVE ancestors AS (
-      SELECT p.id, p.name, p."damId", p."sireId", 1 AS generation
-      FROM "Animal" start
-      JOIN "Animal" p ON p.id IN (start."damId", start."sireId")
-      WHERE start.id = ${animalId}
-        AND start."tenantId" = ${tenantId}
-        AND p."tenantId" = ${tenantId}
+      SELECT a.id, a.name, a."damId", a."sireId", 0 AS generation
+      FROM "Animal" a
+      WHERE a.id IN (${Prisma.join(ids)})
+        AND a."tenantId" = ${tenantId}
 
-      UNION ALL
+      UNION
 
       SELECT p.id, p.name, p."damId", p."sireId", a.generation + 1
       FROM ancestors a
@@ -195,42 +268,261 @@ async function collectAncestors(
       WHERE a.generation < ${maxGenerations}
         AND p."tenantId" = ${tenantId}
     )
-    SELECT id, name, generation FROM ancestors
+    SELECT id, name, "damId", "sireId", MIN(generation)::int AS generation
+    FROM ancestors
+    GROUP BY id, name, "damId", "sireId"
   `);
 
+  const horizon = new Set<number>();
   for (const row of rows) {
-    const existing = ancestors.get(row.id) || [];
-    existing.push(row.generation);
-    ancestors.set(row.id, existing);
+    graph.set(row.id, { id: row.id, name: row.name, damId: row.damId, sireId: row.sireId });
+    if (row.generation >= maxGenerations) horizon.add(row.id);
+  }
 
-    // Populate cache for name lookups in calculateCOI
-    if (!cache.has(row.id)) {
-      cache.set(row.id, { id: row.id, name: row.name } as AnimalRow);
+  for (const node of graph.values()) {
+    if (horizon.has(node.id)) {
+      node.damId = null;
+      node.sireId = null;
+      continue;
     }
+    // Parents in another tenant are never loaded
+    if (node.damId && !graph.has(node.damId)) node.damId = null;
+    if (node.sireId && !graph.has(node.sireId)) node.sireId = null;
   }
 
-  return ancestors;
+  return graph;
 }
 
 /**
- * Wright's Coefficient of Inbreeding calculation
+ * Recursive kinship / inbreeding engine (tabular method).
  *
- * F = Σ (0.5)^(n1+n2+1) × (1 + Fa)
+ *   F(x)     = f(dam(x), sire(x))
+ *   f(a, a)  = ½ × (1 + F(a))
+ *   f(a, b)  = ½ × (f(dam(a), b) + f(sire(a), b))   where a is not an ancestor of b
  *
- * Where:
- * - n1 = generations from sire to common ancestor
- * - n2 = generations from dam to common ancestor
- * - Fa = inbreeding coefficient of common ancestor (simplified to 0 here)
+ * Each animal's own inbreeding (Fa) is folded in through f(a, a), so the
+ * result equals Wright's formula with the (1 + Fa) term. Results are
+ * memoized per animal and per pair, so one calculator can be reused for
+ * many pairings over the same graph.
  *
- * This finds all paths through common ancestors and sums their contributions.
+ * Circular parentage (bad data) is cut when the calculator is built: a parent
+ * that is already on the path up from an animal is treated as unknown, so it
+ * contributes a kinship of 0 instead of recursing forever.
  */
-async function calculateCOI(
+export class KinshipCalculator {
+  private readonly graph: PedigreeGraph;
+  private readonly inbreedingMemo = new Map<number, number>();
+  private readonly kinshipMemo = new Map<string, number>();
+  private readonly depthMemo = new Map<number, number>();
+
+  constructor(graph: PedigreeGraph) {
+    this.graph = breakParentCycles(graph);
+  }
+
+  /** Inbreeding coefficient of an animal in the graph (0 for founders). */
+  inbreeding(id: number): number {
+    const cached = this.inbreedingMemo.get(id);
+    if (cached !== undefined) return cached;
+
+    const node = this.graph.get(id);
+    const f = node?.damId && node.sireId ? this.kinship(node.damId, node.sireId) : 0;
+    this.inbreedingMemo.set(id, f);
+    return f;
+  }
+
+  /** Coefficient of kinship between two animals (= COI of their offspring). */
+  kinship(a: number | null, b: number | null): number {
+    if (!a || !b || !this.graph.has(a) || !this.graph.has(b)) return 0;
+    if (a === b) return 0.5 * (1 + this.inbreeding(a));
+
+    const key = a < b ? `${a}:${b}` : `${b}:${a}`;
+    const cached = this.kinshipMemo.get(key);
+    if (cached !== undefined) return cached;
+
+    // Expand the younger animal: an ancestor always has a smaller depth than
+    // its descendants, so the expanded side can never be an ancestor of the other.
+    const [younger, other] = this.depth(a) >= this.depth(b) ? [a, b] : [b, a];
+    const node = this.graph.get(younger)!;
+    const f = 0.5 * (this.kinship(node.damId, other) + this.kinship(node.sireId, other));
+
+    this.kinshipMemo.set(key, f);
+    return f;
+  }
+
+  /** Longest parent chain above an animal. Circular parentage is treated as a founder. */
+  private depth(id: number, visiting: Set<number> = new Set()): number {
+    const cached = this.depthMemo.get(id);
+    if (cached !== undefined) return cached;
+
+    const node = this.graph.get(id);
+    if (!node || visiting.has(id)) return 0;
+
+    visiting.add(id);
+    const parentDepths = [node.damId, node.sireId]
+      .filter((p): p is number => !!p && this.graph.has(p))
+      .map((p) => this.depth(p, visiting) + 1);
+    visiting.delete(id);
+
+    const d = parentDepths.length > 0 ? Math.max(...parentDepths) : 0;
+    this.depthMemo.set(id, d);
+    return d;
+  }
+}
+
+/**
+ * Copy of the graph with every parent link that closes a cycle removed. Each
+ * animal's ancestors are walked depth-first, tracking the ids on the current
+ * path; a parent already on that path is dropped from the copy.
+ */
+export function breakParentCycles(graph: PedigreeGraph): PedigreeGraph {
+  const result: PedigreeGraph = new Map();
+  for (const [id, node] of graph) result.set(id, { ...node });
+
+  const done = new Set<number>();
+  const onPath = new Set<number>();
+
+  const visit = (id: number) => {
+    const node = result.get(id);
+    if (!node || done.has(id)) return;
+
+    onPath.add(id);
+    for (const key of ["damId", "sireId"] as const) {
+      const parentId = node[key];
+      if (!parentId) continue;
+      if (onPath.has(parentId)) node[key] = null;
+      else visit(parentId);
+    }
+    onPath.delete(id);
+    done.add(id);
+  };
+
+  for (const id of result.keys()) visit(id);
+  return result;
+}
+
+/** Cap on upward paths enumerated per side for the path breakdown */
+const MAX_PATHS_PER_SIDE = 50_000;
+/** Cap on dam × sire path pairs examined for the path breakdown */
+const MAX_PATH_PAIRS = 200_000;
+/** Cap on individual paths returned in a COI result (sorted by contribution) */
+const MAX_REPORTED_PATHS = 200;
+
+/**
+ * All upward paths from an animal, each starting at the animal itself.
+ * Walked breadth-first, so a truncated result keeps the shortest paths.
+ */
+function enumerateAncestorPaths(
+  rootId: number,
+  graph: PedigreeGraph
+): { paths: Map<number, number[][]>; truncated: boolean } {
+  const paths = new Map<number, number[][]>();
+  let count = 0;
+  let truncated = false;
+
+  const queue: number[][] = [[rootId]];
+  for (let head = 0; head < queue.length; head++) {
+    if (count >= MAX_PATHS_PER_SIDE) {
+      truncated = true;
+      break;
+    }
+    const current = queue[head];
+    const id = current[current.length - 1];
+    const list = paths.get(id) ?? [];
+    list.push(current);
+    paths.set(id, list);
+    count++;
+
+    // Guard against circular parentage in bad data
+    const node = graph.get(id);
+    for (const parentId of [node?.damId, node?.sireId]) {
+      if (parentId && !current.includes(parentId)) queue.push([...current, parentId]);
+    }
+  }
+
+  return { paths, truncated };
+}
+
+/**
+ * Wright's path breakdown for a dam × sire pairing.
+ *
+ * F = Σ (0.5)^(n1+n2+1) × (1 + Fa)
+ *
+ * Only path pairs that meet at the common ancestor and share no other animal
+ * are counted, so the per-path contributions sum to the tabular coefficient.
+ * Shorter paths are paired first, so when `MAX_PATH_PAIRS` cuts the
+ * breakdown short the largest contributions are the ones kept.
+ */
+function computeCOIPaths(
+  damId: number,
+  sireId: number,
+  graph: PedigreeGraph,
+  calculator: KinshipCalculator
+): { paths: COIPath[]; truncated: boolean } {
+  const damSide = enumerateAncestorPaths(damId, graph);
+  const sireSide = enumerateAncestorPaths(sireId, graph);
+  const paths: COIPath[] = [];
+  let truncated = damSide.truncated || sireSide.truncated;
+
+  // Path lists are already shortest-first; order the ancestors the same way
+  const common = [...damSide.paths.keys()]
+    .filter((id) => sireSide.paths.has(id))
+    .map((ancestorId) => ({
+      ancestorId,
+      damPaths: damSide.paths.get(ancestorId)!,
+      sirePaths: sireSide.paths.get(ancestorId)!,
+    }))
+    .sort((a, b) => a.damPaths[0].length + a.sirePaths[0].length - (b.damPaths[0].length + b.sirePaths[0].length));
+
+  let examined = 0;
+  pairing: for (const { ancestorId, damPaths, sirePaths } of common) {
+    const ancestorCOI = calculator.inbreeding(ancestorId);
+
+    for (const damPath of damPaths) {
+      const damSet = new Set(damPath.slice(0, -1));
+      for (const sirePath of sirePaths) {
+        if (examined++ >= MAX_PATH_PAIRS) {
+          truncated = true;
+          break pairing;
+        }
+        if (sirePath.slice(0, -1).some((id) => damSet.has(id))) continue;
+
+        const damGenerations = damPath.length - 1;
+        const sireGenerations = sirePath.length - 1;
+        paths.push({
+          ancestorId,
+          damPath,
+          sirePath,
+          damGenerations,
+          sireGenerations,
+          ancestorCOI,
+          contribution: Math.pow(0.5, damGenerations + sireGenerations + 1) * (1 + ancestorCOI),
+        });
+      }
+    }
+  }
+
+  return { paths, truncated };
+}
+
+function riskLevelFor(coefficient: number): COIResult["riskLevel"] {
+  if (coefficient < 0.05) return "LOW";
+  if (coefficient < 0.10) return "MODERATE";
+  if (coefficient < 0.25) return "HIGH";
+  return "CRITICAL";
+}
+
+/**
+ * Build a COIResult for a dam × sire pairing from an already loaded graph.
+ * Exported so batch callers can share one graph and calculator across pairings.
+ */
+export function computeCOIFromGraph(
   damId: number | null,
   sireId: number | null,
-  tenantId: number,
-  generations: number
-): Promise<COIResult> {
-  if (!damId || !sireId) {
+  graph: PedigreeGraph,
+  generations: number,
+  options: { includePaths?: boolean; calculator?: KinshipCalculator } = {}
+): COIResult {
+  if (!damId || !sireId || !graph.has(damId) || !graph.has(sireId)) {
     return {
       coefficient: 0,
       generationsAnalyzed: generations,
@@ -239,78 +531,62 @@ async function calculateCOI(
     };
   }
 
-  const cache = new Map<number, AnimalRow>();
+  const calculator = options.calculator ?? new KinshipCalculator(graph);
+  const coefficient = calculator.kinship(damId, sireId);
 
-  // Get ancestors from both sides
-  const [damAncestors, sireAncestors] = await Promise.all([
-    collectAncestors(damId, tenantId, generations, cache),
-    collectAncestors(sireId, tenantId, generations, cache),
-  ]);
+  const result: COIResult = {
+    coefficient,
+    generationsAnalyzed: generations,
+    commonAncestors: [],
+    riskLevel: riskLevelFor(coefficient),
+  };
 
-  // Find common ancestors (appear in both lineages)
-  const commonAncestorContributions: Array<{
-    id: number;
-    name: string;
-    pathCount: number;
-    contribution: number;
-  }> = [];
-
-  let totalCOI = 0;
-
-  for (const [ancestorId, damGenerations] of damAncestors) {
-    const sireGenerations = sireAncestors.get(ancestorId);
-    if (!sireGenerations) continue;
-
-    // This ancestor appears in both lineages - calculate contribution
-    // For each path combination through this ancestor
-    let ancestorContribution = 0;
-    let pathCount = 0;
-
-    for (const n1 of damGenerations) {
-      for (const n2 of sireGenerations) {
-        // Wright's formula: (0.5)^(n1+n2+1)
-        // Note: We're measuring from parent, so add 1 to account for
-        // the path going through the common ancestor
-        const pathLength = n1 + n2 + 1;
-        const contribution = Math.pow(0.5, pathLength);
-        ancestorContribution += contribution;
-        pathCount++;
-      }
-    }
+  if (coefficient === 0 || options.includePaths === false) return result;
 
-    if (ancestorContribution > 0) {
-      totalCOI += ancestorContribution;
-      const animal = cache.get(ancestorId);
-      commonAncestorContributions.push({
-        id: ancestorId,
-        name: animal?.name || `Animal #${ancestorId}`,
-        pathCount,
-        contribution: ancestorContribution,
-      });
-    }
+  const { paths, truncated } = computeCOIPaths(damId, sireId, graph, calculator);
+
+  const byAncestor = new Map<number, COIResult["commonAncestors"][number]>();
+  for (const path of paths) {
+    const entry = byAncestor.get(path.ancestorId) ?? {
+      id: path.ancestorId,
+      name: graph.get(path.ancestorId)?.name || `Animal #${path.ancestorId}`,
+      pathCount: 0,
+      contribution: 0,
+      ancestorCOI: path.ancestorCOI,
+    };
+    entry.pathCount++;
+    entry.contribution += path.contribution;
+    byAncestor.set(path.ancestorId, entry);
   }
 
   // Sort by contribution (highest first)
-  commonAncestorContributions.sort((a, b) => b.contribution - a.contribution);
-
-  // Determine risk level
-  let riskLevel: COIResult["riskLevel"];
-  if (totalCOI < 0.05) {
-    riskLevel = "LOW";
-  } else if (totalCOI < 0.10) {
-    riskLevel = "MODERATE";
-  } else if (totalCOI < 0.25) {
-    riskLevel = "HIGH";
-  } else {
-    riskLevel = "CRITICAL";
-  }
+  result.commonAncestors = [...byAncestor.values()].sort((a, b) => b.contribution - a.contribution);
+  result.paths = paths.sort((a, b) => b.contribution - a.contribution).slice(0, MAX_REPORTED_PATHS);
+  result.pathsTruncated = truncated || paths.length > MAX_REPORTED_PATHS;
 
-  return {
-    coefficient: totalCOI,
-    generationsAnalyzed: generations,
-    commonAncestors: commonAncestorContributions,
-    riskLevel,
-  };
+  return result;
+}
+
+/** Clamp a requested COI depth to the supported range */
+export function clampCOIGenerations(generations: number | null | undefined): number {
+  if (!generations || !Number.isFinite(generations)) return COI_DEFAULT_GENERATIONS;
+  return Math.min(COI_MAX_GENERATIONS, Math.max(1, Math.floor(generations)));
+}
+
+/**
+ * Coefficient of Inbreeding for the offspring of a dam × sire pairing,
+ * analysed `generations` deep above each parent.
+ */
+async function calculateCOI(
+  damId: number | null,
+  sireId: number | null,
+  tenantId: number,
+  generations: number,
+  options: { includePaths?: boolean } = {}
+): Promise<COIResult> {
+  const depth = clampCOIGenerations(generations);
+  const graph = await collectAncestors([damId, sireId], tenantId, depth);
+  return computeCOIFromGraph(damId, sireId, graph, depth, options);
 }
 
 /**
@@ -405,14 +681,15 @@ async function buildDescendantTree(
 export async function getPedigree(
   animalId: number,
   tenantId: number,
-  generations: number = 5
+  generations: number = 5,
+  coiGenerations: number = generations
 ): Promise<{ pedigree: PedigreeNode | null; coi: COIResult }> {
   const cache = new Map<number, AnimalRow>();
   const pedigree = await buildAncestorTree(animalId, tenantId, generations + 1, cache);
 
-  // Calculate COI for this animal
+  // Calculate COI for this animal (may look deeper than the displayed tree)
   const animal = cache.get(animalId);
-  const coi = await calculateCOI(animal?.damId ?? null, animal?.sireId ?? null, tenantId, generations);
+  const coi = await calculateCOI(animal?.damId ?? null, animal?.sireId ?? null, tenantId, coiGenerations);
 
   // Check if this animal was born via ET — look up Offspring record where this animal was promoted
   // If recipientDamId is set, the animal was carried by a surrogate (ET birth)
@@ -469,7 +746,8 @@ export async function getProspectiveCOI(
   damId: number,
   sireId: number,
   tenantId: number,
-  generations: number = 10
+  generations: number = COI_DEFAULT_GENERATIONS,
+  options: { includePaths?: boolean } = {}
 ): Promise<COIResult> {
   // Verify both animals exist and belong to tenant
   const [dam, sire] = await Promise.all([
@@ -488,7 +766,7 @@ export async function getProspectiveCOI(
     throw Object.assign(new Error("sire_must_be_male"), { statusCode: 400 });
   }
 
-  return calculateCOI(damId, sireId, tenantId, generations);
+  return calculateCOI(damId, sireId, tenantId, generations, options);
 }
 
 /**
@@ -498,7 +776,7 @@ export async function getProspectiveCOI(
 export async function updateAnimalCOI(
   animalId: number,
   tenantId: number,
-  generations: number = 10
+  generations: number = COI_DEFAULT_GENERATIONS
 ): Promise<void> {
   const animal = await prisma.animal.findFirst({
     where: { id: animalId, tenantId },
@@ -507,7 +785,9 @@ export async function updateAnimalCOI(
 
   if (!animal) return;
 
-  const coi = await calculateCOI(animal.damId, animal.sireId, tenantId, generations);
+  const coi = await calculateCOI(animal.damId, animal.sireId, tenantId, generations, {
+    includePaths: false,
+  });
 
   await prisma.animal.update({
     where: { id: animalId },
@@ -519,6 +799,37 @@ export async function updateAnimalCOI(
   });
 }
 
+/**
+ * Whether `ancestorId` appears anywhere above the given animals. Walks the full
+ * pedigree (no generation cap); UNION keeps the walk finite on circular data.
+ */
+async function isAncestorOf(
+  ancestorId: number,
+  animalIds: Array<number | null>,
+  tenantId: number
+): Promise<boolean> {
+  const ids = [...new Set(animalIds.filter((id): id is number => !!id))];
+  if (ids.length === 0) return false;
+
+  const rows = await prisma.$queryRaw<Array<{ found: boolean }>>(Prisma.sql`
+    WITH RECURSIVE ancestors AS (
+      SELECT a.id, a."damId", a."sireId"
+      FROM "Animal" a
+      WHERE a.id IN (${Prisma.join(ids)})
+        AND a."tenantId" = ${tenantId}
+
+      UNION
+
+      SELECT p.id, p."damId", p."sireId"
+      FROM ancestors a
+      JOIN "Animal" p ON p.id IN (a."damId", a."sireId")
+      WHERE p."tenantId" = ${tenantId}
+    )
+    SELECT EXISTS (SELECT 1 FROM ancestors WHERE id = ${ancestorId}) AS found
+  `);
+  return rows[0]?.found === true;
+}
+
 /**
  * Set parents for an animal and recalculate COI
  */
@@ -555,6 +866,9 @@ export async function setParents(
   if (damId === animalId || sireId === animalId) {
     throw Object.assign(new Error("cannot_be_own_parent"), { statusCode: 400 });
   }
+  if (await isAncestorOf(animalId, [damId, sireId], tenantId)) {
+    throw Object.assign(new Error("cannot_be_own_ancestor"), { statusCode: 400 });
+  }
 
   // Update parents
   await prisma.animal.update({
@@ -562,6 +876,133 @@ export async function setParents(
     data: { damId, sireId },
   });
 
-  // Recalculate COI
+  // Recalculate COI and pedigree metrics
   await updateAnimalCOI(animalId, tenantId);
+  await recalculatePedigreeMetrics(tenantId, { animalIds: [animalId] });
+}
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Pedigree diversity metrics
+ * ───────────────────────────────────────────────────────────────────────────── */
+
+/** Default depth for completeness / ancestor-loss metrics */
+export const PEDIGREE_METRICS_DEFAULT_GENERATIONS = 6;
+
+/**
+ * Pedigree completeness, ancestor loss and mean kinship for one animal from an
+ * already loaded graph. `populationIds` is the reference breeding population;
+ * the animal itself is excluded from its own mean kinship.
+ */
+export function computePedigreeMetricsFromGraph(
+  animalId: number,
+  graph: PedigreeGraph,
+  generations: number,
+  populationIds: number[],
+  calculator: KinshipCalculator = new KinshipCalculator(graph)
+): PedigreeMetrics {
+  const completeness: PedigreeCompletenessLevel[] = [];
+  const distinct = new Set<number>();
+  let knownPositions = 0;
+
+  // Walk generation by generation, tracking how many positions each animal fills
+  let level = new Map<number, number>([[animalId, 1]]);
+  for (let generation = 1; generation <= generations; generation++) {
+    const next = new Map<number, number>();
+    for (const [id, positions] of level) {
+      const node = graph.get(id);
+      for (const parentId of [node?.damId, node?.sireId]) {
+        if (!parentId) continue;
+        next.set(parentId, (next.get(parentId) ?? 0) + positions);
+      }
+    }
+
+    let known = 0;
+    for (const [id, positions] of next) {
+      known += positions;
+      distinct.add(id);
+    }
+    knownPositions += known;
+
+    const possible = Math.pow(2, generation);
+    completeness.push({ generation, known, possible, ratio: known / possible });
+    level = next;
+  }
+
+  const population = populationIds.filter((id) => id !== animalId && graph.has(id));
+  const meanKinship =
+    population.length > 0
+      ? population.reduce((sum, id) => sum + calculator.kinship(animalId, id), 0) / population.length
+      : null;
+
+  return {
+    animalId,
+    generationsAnalyzed: generations,
+    completeness,
+    distinctAncestors: distinct.size,
+    knownPositions,
+    ancestorLossCoefficient: knownPositions > 0 ? distinct.size / knownPositions : null,
+    meanKinship,
+    populationSize: population.length,
+  };
+}
+
+/**
+ * Recalculate and store pedigree metrics for animals in a tenant.
+ *
+ * Without `animalIds`, every live animal in the tenant is refreshed. Animals
+ * are processed per species against that species' BREEDING population, with
+ * one shared graph and kinship calculator per species.
+ */
+export async function recalculatePedigreeMetrics(
+  tenantId: number,
+  options: { animalIds?: number[]; generations?: number } = {}
+): Promise<PedigreeMetrics[]> {
+  const generations = clampCOIGenerations(options.generations ?? PEDIGREE_METRICS_DEFAULT_GENERATIONS);
+
+  const targets = await prisma.animal.findMany({
+    where: {
+      tenantId,
+      deletedAt: null,
+      ...(options.animalIds ? { id: { in: options.animalIds } } : { archived: false, status: { not: "DECEASED" } }),
+    },
+    select: { id: true, species: true },
+  });
+  if (targets.length === 0) return [];
+
+  const speciesList = [...new Set(targets.map((t) => t.species))];
+  const population = await prisma.animal.findMany({
+    where: { tenantId, deletedAt: null, archived: false, status: "BREEDING", species: { in: speciesList } },
+    select: { id: true, species: true },
+  });
+
+  const results: PedigreeMetrics[] = [];
+  const calculatedAt = new Date();
+
+  for (const species of speciesList) {
+    const targetIds = targets.filter((t) => t.species === species).map((t) => t.id);
+    const populationIds = population.filter((p) => p.species === species).map((p) => p.id);
+
+    // Cut circular parentage up front so one bad record can't stall the
+    // whole tenant or count an animal as its own ancestor.
+    const graph = breakParentCycles(
+      await collectAncestors([...targetIds, ...populationIds], tenantId, generations)
+    );
+    const calculator = new KinshipCalculator(graph);
+
+    for (const animalId of targetIds) {
+      const metrics = computePedigreeMetricsFromGraph(animalId, graph, generations, populationIds, calculator);
+      await prisma.animal.update({
+        where: { id: animalId },
+        data: {
+          pedigreeCompleteness: metrics.completeness as unknown as Prisma.InputJsonValue,
+          ancestorLossCoefficient: metrics.ancestorLossCoefficient,
+          meanKinship: metrics.meanKinship,
+          pedigreeMetricsCalculatedAt: calculatedAt,
+        },
+      });
+      results.push(metrics);
+    }
+  }
+
+  return results;
 }
@@ -1336,6 +1336,144 @@ Browse other breeders at: ${MARKETPLACE_URL}/breeders
   });
 }
 
+/**
+ * Send notification to user when a breeder moves their waitlist entry to
+ * another breeding plan or program. Mentions the deposit carried over as a
+ * credit and any part of it that was refunded.
+ */
+export async function sendWaitlistTransferToUser(data: {
+  userEmail: string;
+  userName: string;
+  breederName: string;
+  destinationName: string;
+  creditCents?: number;
+  refundCents?: number;
+}): Promise<void> {
+  const userName = data.userName || "there";
+  const money = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+  const rows = [{ label: "Now waiting for", value: data.destinationName }];
+  if (data.creditCents) rows.push({ label: "Deposit credit", value: money(data.creditCents) });
+  if (data.refundCents) rows.push({ label: "Deposit refunded", value: money(data.refundCents) });
+
+  const html = wrapEmailLayout({
+    title: "Your Waitlist Spot Has Moved",
+    body: [
+      emailGreeting(userName),
+      emailParagraph(`${emailAccent(data.breederName)} has moved your waitlist spot to ${emailAccent(data.destinationName)}.`),
+      emailDetailRows(rows),
+      emailParagraph(
+        data.creditCents
+          ? "Your deposit has carried over and will be applied toward your placement."
+          : "The breeder will reach out with any next steps."
+      ),
+      emailButton("View Details", `${MARKETPLACE_URL}/inquiries?tab=waitlist`),
+    ].join("\n"),
+  });
+
+  const text = `
+Your Waitlist Spot Has Moved
+
+Hi ${userName},
+
+${data.breederName} has moved your waitlist spot to ${data.destinationName}.
+${rows.slice(1).map((r) => `\n${r.label}: ${r.value}`).join("")}
+
+${data.creditCents ? "Your deposit has carried over and will be applied toward your placement." : "The breeder will reach out with any next steps."}
+
+View details at: ${MARKETPLACE_URL}/inquiries?tab=waitlist
+
+— The ${FROM_NAME} Team
+  `.trim();
+
+  await sendEmail({
+    tenantId: null,
+    to: data.userEmail,
+    subject: `Waitlist update from ${data.breederName}`,
+    html,
+    text,
+    templateKey: "marketplace_waitlist_transferred",
+    category: "transactional",
+  });
+}
+
+// ---------- Saved Search Alerts ----------
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Send new listings matching a buyer's saved search. Listing titles come
+ * from sellers, so they are escaped.
+ */
+export async function sendSavedSearchAlertEmail(data: {
+  userEmail: string;
+  userName: string;
+  searchName: string;
+  matches: Array<{ title: string; url: string; detail: string | null }>;
+  totalMatches: number;
+  unsubscribeUrl: string;
+}): Promise<void> {
+  const userName = data.userName || "there";
+  const searchName = escapeHtml(data.searchName);
+  const countLabel = `${data.totalMatches} new ${data.totalMatches === 1 ? "listing" : "listings"}`;
+  const savedSearchesUrl = `${MARKETPLACE_URL}/saved-searches`;
+
+  const items = data.matches.map(
+    (m) =>
+      `<a href="${escapeHtml(m.url)}" style="color: #f97316; text-decoration: none;">${escapeHtml(m.title)}</a>` +
+      (m.detail ? ` <span style="color: #737373;">· ${escapeHtml(m.detail)}</span>` : "")
+  );
+  const more = data.totalMatches - data.matches.length;
+
+  const html = wrapEmailLayout({
+    title: "New Matches for Your Saved Search",
+    body: [
+      emailGreeting(userName),
+      emailParagraph(`${emailAccent(countLabel)} matched your saved search ${emailAccent(searchName)}.`),
+      emailBulletList(items),
+      more > 0 ? emailParagraph(`…and ${more} more.`) : "",
+      emailButton("View Saved Searches", savedSearchesUrl),
+      emailFootnote(
+        `You are receiving this because you saved this search. ` +
+          `<a href="${escapeHtml(data.unsubscribeUrl)}" style="color: #737373;">Turn off alerts for this search</a>.`
+      ),
+    ].join("\n"),
+  });
+
+  const text = `
+New Matches for Your Saved Search
+
+Hi ${userName},
+
+${countLabel} matched your saved search "${data.searchName}":
+
+${data.matches.map((m) => `- ${m.title}${m.detail ? ` (${m.detail})` : ""}\n  ${m.url}`).join("\n")}
+${more > 0 ? `\n...and ${more} more.\n` : ""}
+View your saved searches at: ${savedSearchesUrl}
+
+Turn off alerts for this search: ${data.unsubscribeUrl}
+
+— The ${FROM_NAME} Team
+  `.trim();
+
+  await sendEmail({
+    tenantId: null,
+    to: data.userEmail,
+    subject: `${countLabel} for "${data.searchName}"`,
+    html,
+    text,
+    templateKey: "marketplace_saved_search_alert",
+    category: "transactional",
+    unsubscribeUrl: data.unsubscribeUrl,
+  });
+}
+
 // ---------- Admin & Operational Notifications (P-02) ----------
 
 // Admin notification email (configurable)
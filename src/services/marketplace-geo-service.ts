@@ -0,0 +1,443 @@
+// src/services/marketplace-geo-service.ts
+/**
+ * Marketplace Geo Search Service
+ *
+ * Radius search for public service listings and breeder profiles:
+ * - Parses `near=<zip|lat,lng>&radiusMiles=` and resolves zips to a point
+ * - Bounding box for the indexed (latitude, longitude) prefilter, then
+ *   great-circle distance for the exact radius and distance sort
+ * - Geocodes listings and published breeder profiles on save and in the
+ *   marketplace-geocode-backfill job
+ *
+ * Only city/state/zip are ever geocoded (never street addresses), and for
+ * breeders only the parts their location mode shows, so distances reveal no
+ * more than the public location already does.
+ */
+
+import prisma from "../prisma.js";
+import { geocodeCityState, geocodeZipCode } from "./geocoding-service.js";
+
+// ────────────────────────────────────────────────────────────────────────────
+// Constants
+// ────────────────────────────────────────────────────────────────────────────
+
+export const DEFAULT_RADIUS_MILES = 100;
+export const MAX_RADIUS_MILES = 500;
+
+const EARTH_RADIUS_MILES = 3958.8;
+const MILES_PER_DEGREE_LAT = 69.0;
+
+/** Failed lookups (coordinates still NULL) are retried after this long */
+const GEOCODE_RETRY_MS = 7 * 24 * 60 * 60 * 1000;
+
+const PROFILE_NAMESPACE = "marketplace-profile";
+
+/** Listing fields that determine its geocoded position */
+export const LISTING_LOCATION_FIELDS = ["city", "state", "zip", "country"] as const;
+
+// ────────────────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────────────────
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export type NearParam = { kind: "point"; point: GeoPoint } | { kind: "zip"; zip: string };
+
+export interface NearSearch {
+  origin: GeoPoint;
+  radiusMiles: number;
+}
+
+export interface BoundingBox {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+export interface LocationParts {
+  city?: string | null;
+  state?: string | null;
+  zip?: string | null;
+  country?: string | null;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Query Parsing
+// ────────────────────────────────────────────────────────────────────────────
+
+/** "<lat>,<lng>" or a postal code; null when neither */
+export function parseNearParam(raw: unknown): NearParam | null {
+  if (typeof raw !== "string") return null;
+  const value = raw.trim();
+  if (!value) return null;
+
+  const coords = /^(-?\d{1,2}(?:\.\d+)?)\s*,\s*(-?\d{1,3}(?:\.\d+)?)$/.exec(value);
+  if (coords) {
+    const latitude = Number(coords[1]);
+    const longitude = Number(coords[2]);
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+    return { kind: "point", point: { latitude, longitude } };
+  }
+
+  // US ZIP / ZIP+4, or an alphanumeric postal code (e.g. "M5V 2T6")
+  if (/^[A-Za-z0-9][A-Za-z0-9 -]{1,9}$/.test(value) && /\d/.test(value)) {
+    return { kind: "zip", zip: value.toUpperCase() };
+  }
+  return null;
+}
+
+/** Radius in miles, DEFAULT_RADIUS_MILES when absent; null when invalid */
+export function parseRadiusMiles(raw: unknown): number | null {
+  if (raw === undefined || raw === null || raw === "") return DEFAULT_RADIUS_MILES;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0 || value > MAX_RADIUS_MILES) return null;
+  return value;
+}
+
+/**
+ * Resolve `near` / `radiusMiles` query params. Returns null when `near` is
+ * absent; throws 400 errors for malformed input or an unknown postal code.
+ */
+export async function resolveNearSearch(query: { near?: unknown; radiusMiles?: unknown; country?: unknown }): Promise<NearSearch | null> {
+  if (query.near === undefined || query.near === "") return null;
+
+  const near = parseNearParam(query.near);
+  if (!near) {
+    throw Object.assign(new Error("invalid_near"), {
+      statusCode: 400,
+      details: { message: "near must be a postal code or \"lat,lng\"." },
+    });
+  }
+  const radiusMiles = parseRadiusMiles(query.radiusMiles);
+  if (radiusMiles === null) {
+    throw Object.assign(new Error("invalid_radius"), {
+      statusCode: 400,
+      details: { message: `radiusMiles must be greater than 0 and at most ${MAX_RADIUS_MILES}.` },
+    });
+  }
+
+  if (near.kind === "point") return { origin: near.point, radiusMiles };
+
+  const country = typeof query.country === "string" && query.country.trim() ? query.country.trim().toUpperCase() : "US";
+  const result = await geocodeZipCode(near.zip, country);
+  if (!result) {
+    throw Object.assign(new Error("near_not_found"), {
+      statusCode: 400,
+      details: { message: `Could not locate postal code ${near.zip}.` },
+    });
+  }
+  return { origin: { latitude: result.latitude, longitude: result.longitude }, radiusMiles };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Distance
+// ────────────────────────────────────────────────────────────────────────────
+
+/** Great-circle distance in miles */
+export function haversineMiles(a: GeoPoint, b: GeoPoint): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLng = toRad(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Box containing every point within `radiusMiles` of `origin`. Near the
+ * poles or across the antimeridian the longitude range widens to the full
+ * -180..180; the exact distance check filters the extras.
+ */
+export function boundingBox(origin: GeoPoint, radiusMiles: number): BoundingBox {
+  const latDelta = radiusMiles / MILES_PER_DEGREE_LAT;
+  const minLat = Math.max(-90, origin.latitude - latDelta);
+  const maxLat = Math.min(90, origin.latitude + latDelta);
+
+  const widestLat = Math.max(Math.abs(minLat), Math.abs(maxLat));
+  if (widestLat >= 89.9) return { minLat, maxLat, minLng: -180, maxLng: 180 };
+
+  const lngDelta = radiusMiles / (MILES_PER_DEGREE_LAT * Math.cos((widestLat * Math.PI) / 180));
+  const minLng = origin.longitude - lngDelta;
+  const maxLng = origin.longitude + lngDelta;
+  if (minLng < -180 || maxLng > 180) return { minLat, maxLat, minLng: -180, maxLng: 180 };
+  return { minLat, maxLat, minLng, maxLng };
+}
+
+/** Prisma `where` fragment for rows inside the box (uses the lat/lng index) */
+export function boundingBoxWhere(box: BoundingBox) {
+  return {
+    latitude: { gte: box.minLat, lte: box.maxLat },
+    longitude: { gte: box.minLng, lte: box.maxLng },
+  };
+}
+
+/**
+ * Smaller radius expected to hold at most `target` of the `count` rows found
+ * within `radiusMiles`, assuming they are spread evenly (rows scale with area).
+ * Returns `radiusMiles` unchanged when the rows already fit.
+ */
+export function radiusForCount(radiusMiles: number, count: number, target: number): number {
+  if (count <= target) return radiusMiles;
+  return radiusMiles * Math.sqrt(target / count) * 0.9;
+}
+
+/** Distances rounded to a tenth of a mile for display */
+export function roundMiles(miles: number): number {
+  return Math.round(miles * 10) / 10;
+}
+
+/**
+ * Rows within the radius, nearest first (ties keep their input order), with
+ * their distance. Rows without coordinates are dropped.
+ */
+export function filterByDistance<T extends { latitude: unknown; longitude: unknown }>(
+  rows: T[],
+  search: NearSearch
+): Array<{ row: T; distanceMiles: number }> {
+  const matches: Array<{ row: T; distanceMiles: number; index: number }> = [];
+  rows.forEach((row, index) => {
+    if (row.latitude === null || row.latitude === undefined || row.longitude === null || row.longitude === undefined) return;
+    const point = { latitude: Number(row.latitude), longitude: Number(row.longitude) };
+    if (!Number.isFinite(point.latitude) || !Number.isFinite(point.longitude)) return;
+    const distanceMiles = haversineMiles(search.origin, point);
+    if (distanceMiles <= search.radiusMiles) matches.push({ row, distanceMiles, index });
+  });
+  matches.sort((a, b) => a.distanceMiles - b.distanceMiles || a.index - b.index);
+  return matches.map(({ row, distanceMiles }) => ({ row, distanceMiles }));
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Geocoding
+// ────────────────────────────────────────────────────────────────────────────
+
+function clean(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/** Normalized "zip|city|state|country" key, or null when there is nothing to geocode */
+export function locationKey(parts: LocationParts): string | null {
+  const zip = clean(parts.zip);
+  const city = clean(parts.city);
+  const state = clean(parts.state);
+  if (!zip && !(city && state)) return null;
+  const country = clean(parts.country) ?? "US";
+  return [zip, city, state, country].map((v) => (v ?? "").toLowerCase().replace(/\s+/g, " ")).join("|");
+}
+
+/** Postal code first (more precise), then city + state */
+export async function geocodeLocation(parts: LocationParts): Promise<GeoPoint | null> {
+  const country = (clean(parts.country) ?? "US").toUpperCase();
+  const zip = clean(parts.zip);
+  const city = clean(parts.city);
+  const state = clean(parts.state);
+
+  const result =
+    (zip ? await geocodeZipCode(zip, country) : null) ??
+    (city && state ? await geocodeCityState(city, state, country) : null);
+  return result ? { latitude: result.latitude, longitude: result.longitude } : null;
+}
+
+function toDecimalString(value: number): string {
+  return value.toFixed(8);
+}
+
+/** Whether an update payload touches any field that moves a listing */
+export function touchesListingLocation(data: Record<string, unknown>): boolean {
+  return LISTING_LOCATION_FIELDS.some((field) => field in data);
+}
+
+/**
+ * Reset a listing's coordinates in an update payload whose location changed,
+ * so stale positions never match a search while the new lookup is pending.
+ */
+export function clearListingGeocode<T extends Record<string, unknown>>(data: T): T {
+  if (!touchesListingLocation(data)) return data;
+  return { ...data, latitude: null, longitude: null, geocodedAt: null };
+}
+
+/**
+ * Geocode one listing from its own city/state/zip; provider listings with
+ * no location of their own fall back to the provider's coordinates.
+ * Records the attempt even when the lookup fails.
+ */
+export async function geocodeListing(listingId: number): Promise<GeoPoint | null> {
+  const listing = await prisma.mktListingBreederService.findUnique({
+    where: { id: listingId },
+    select: {
+      city: true,
+      state: true,
+      zip: true,
+      country: true,
+      provider: { select: { latitude: true, longitude: true } },
+    },
+  });
+  if (!listing) return null;
+
+  let point: GeoPoint | null = null;
+  if (locationKey(listing)) {
+    point = await geocodeLocation(listing);
+  } else if (listing.provider?.latitude != null && listing.provider.longitude != null) {
+    point = { latitude: Number(listing.provider.latitude), longitude: Number(listing.provider.longitude) };
+  }
+
+  await prisma.mktListingBreederService.update({
+    where: { id: listingId },
+    data: {
+      latitude: point ? toDecimalString(point.latitude) : null,
+      longitude: point ? toDecimalString(point.longitude) : null,
+      geocodedAt: new Date(),
+    },
+  });
+  return point;
+}
+
+/**
+ * The parts of a marketplace profile's published address that its
+ * publicLocationMode shows (city + state, zip, or both for "full"), or null
+ * when the location isn't public. Only these parts are geocoded, so a
+ * breeder's position never reveals more than the profile does.
+ */
+export function publishedLocationParts(data: unknown): LocationParts | null {
+  const published = (data as { published?: Record<string, unknown> } | null)?.published;
+  if (!published) return null;
+  const address = published.address;
+  const { city, state, zip, country } = address && typeof address === "object" ? (address as LocationParts) : {};
+  switch (published.publicLocationMode) {
+    case "city_state":
+      return { city, state, country };
+    case "zip_only":
+      return { zip, country };
+    case "full":
+      return { city, state, zip, country };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Keep a breeder's MarketplaceBreederLocation in step with their published
+ * profile. Unpublished profiles and hidden locations drop out of radius
+ * search; an unchanged address (as shown by the location mode) is not
+ * geocoded again.
+ */
+export async function syncBreederLocation(tenantId: number): Promise<GeoPoint | null> {
+  const setting = await prisma.tenantSetting.findUnique({
+    where: { tenantId_namespace: { tenantId, namespace: PROFILE_NAMESPACE } },
+    select: { data: true },
+  });
+  const parts = publishedLocationParts(setting?.data);
+  const key = parts ? locationKey(parts) : null;
+
+  if (!key) {
+    await prisma.marketplaceBreederLocation.deleteMany({ where: { tenantId } });
+    return null;
+  }
+
+  const existing = await prisma.marketplaceBreederLocation.findUnique({ where: { tenantId } });
+  if (existing?.locationKey === key && existing.latitude !== null && existing.longitude !== null) {
+    return { latitude: Number(existing.latitude), longitude: Number(existing.longitude) };
+  }
+
+  const point = await geocodeLocation(parts!);
+  const data = {
+    locationKey: key,
+    latitude: point ? toDecimalString(point.latitude) : null,
+    longitude: point ? toDecimalString(point.longitude) : null,
+    geocodedAt: new Date(),
+  };
+  await prisma.marketplaceBreederLocation.upsert({
+    where: { tenantId },
+    update: data,
+    create: { tenantId, ...data },
+  });
+  return point;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Backfill
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Geocode listings never attempted (or whose last failed attempt is older
+ * than a week) and breeder profiles whose published address has no
+ * matching location row. Lookups are rate limited by geocoding-service, so
+ * each run is capped at `limit` lookups per kind.
+ */
+export async function backfillMarketplaceLocations(
+  now: Date = new Date(),
+  limit = 50
+): Promise<{ listings: number; breeders: number; failed: number }> {
+  const retryBefore = new Date(now.getTime() - GEOCODE_RETRY_MS);
+  let failed = 0;
+
+  const listings = await prisma.mktListingBreederService.findMany({
+    where: {
+      deletedAt: null,
+      latitude: null,
+      OR: [{ geocodedAt: null }, { geocodedAt: { lt: retryBefore } }],
+      AND: [{ OR: [{ zip: { not: null } }, { city: { not: null } }, { providerId: { not: null } }] }],
+    },
+    select: { id: true },
+    orderBy: [{ geocodedAt: { sort: "asc", nulls: "first" } }, { id: "asc" }],
+    take: limit,
+  });
+
+  let geocodedListings = 0;
+  for (const listing of listings) {
+    try {
+      if (await geocodeListing(listing.id)) geocodedListings++;
+      else failed++;
+    } catch (err) {
+      failed++;
+      console.error(`[marketplace-geo] Failed to geocode listing ${listing.id}:`, err);
+    }
+  }
+
+  const [profiles, locations] = await Promise.all([
+    prisma.tenantSetting.findMany({
+      where: { namespace: PROFILE_NAMESPACE },
+      select: { tenantId: true, data: true },
+    }),
+    prisma.marketplaceBreederLocation.findMany({
+      select: { tenantId: true, locationKey: true, latitude: true, geocodedAt: true },
+    }),
+  ]);
+  const locationByTenant = new Map(locations.map((l) => [l.tenantId, l]));
+
+  const pending: number[] = [];
+  for (const profile of profiles) {
+    const parts = publishedLocationParts(profile.data);
+    const key = parts ? locationKey(parts) : null;
+    const existing = locationByTenant.get(profile.tenantId);
+    locationByTenant.delete(profile.tenantId);
+
+    if (!key) {
+      if (existing) pending.push(profile.tenantId);
+      continue;
+    }
+    const stale =
+      !existing ||
+      existing.locationKey !== key ||
+      (existing.latitude === null && existing.geocodedAt < retryBefore);
+    if (stale) pending.push(profile.tenantId);
+  }
+  // Location rows left over belong to profiles that no longer exist
+  pending.push(...locationByTenant.keys());
+
+  let syncedBreeders = 0;
+  for (const tenantId of pending.slice(0, limit)) {
+    try {
+      if (await syncBreederLocation(tenantId)) syncedBreeders++;
+    } catch (err) {
+      failed++;
+      console.error(`[marketplace-geo] Failed to geocode breeder ${tenantId}:`, err);
+    }
+  }
+
+  return { listings: geocodedListings, breeders: syncedBreeders, failed };
+}
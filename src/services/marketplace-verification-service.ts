@@ -12,6 +12,13 @@
 import { createHash, randomBytes } from "node:crypto";
 import Stripe from "stripe";
 import prisma from "../prisma.js";
+import {
+  generateVerificationCode,
+  isStubMessagingProvider,
+  normalizePhoneE164,
+  PHONE_CODE_TTL_MS,
+  sendMessage,
+} from "./messaging/index.js";
 import type {
   MarketplaceUser,
   MarketplaceProvider,
@@ -76,20 +83,49 @@ export type VerificationStatusResult = {
 
 // ---------- Phone Verification (for Breeders/Providers) ----------
 
+/**
+ * Text a one-time code to `phoneNumber`. Marketplace accounts are not
+ * tenant-billed, so nothing is recorded against an SMS quota. The code is
+ * returned only with the stub provider, for dev/test flows.
+ */
+async function sendVerificationCode(
+  phoneNumber: string,
+  purpose: string
+): Promise<{ success: true; phone: string; code: string; expiresAt: Date } | { success: false; error: string }> {
+  const phone = normalizePhoneE164(phoneNumber);
+  if (!phone) return { success: false, error: "invalid_phone_number" };
+
+  const code = generateVerificationCode();
+  const sent = await sendMessage({
+    channel: "SMS",
+    to: phone,
+    body: `Your BreederHQ verification code is ${code}. It expires in 10 minutes.`,
+    purpose,
+  });
+  if (!sent.success) return { success: false, error: sent.error };
+
+  return { success: true, phone, code, expiresAt: new Date(Date.now() + PHONE_CODE_TTL_MS) };
+}
+
 /**
  * Send phone verification code to a provider
- * NOTE: SMS sending is not yet configured - returns error
  */
 export async function sendProviderPhoneVerification(
-  _providerId: number,
-  _phoneNumber: string
+  providerId: number,
+  phoneNumber: string
 ): Promise<PhoneVerificationResult> {
-  // SMS verification is not yet configured
-  // When ready, integrate Twilio or AWS SNS here
-  return {
-    success: false,
-    error: "sms_not_configured",
-  };
+  const sent = await sendVerificationCode(phoneNumber, "provider_phone_verification");
+  if (!sent.success) return sent;
+
+  await prisma.marketplaceProvider.update({
+    where: { id: providerId },
+    data: {
+      phoneVerificationToken: sha256b64url(sent.code),
+      phoneVerificationTokenExpires: sent.expiresAt,
+    },
+  });
+
+  return { success: true, expiresAt: sent.expiresAt, ...(isStubMessagingProvider() ? { code: sent.code } : {}) };
 }
 
 /**
@@ -135,23 +171,32 @@ export async function verifyProviderPhoneCode(
 // ---------- SMS Verification (for Marketplace Users / Service Providers) ----------
 
 /**
- * Send SMS verification code to a marketplace user (for 2FA setup)
- * NOTE: SMS sending is not yet configured - returns error
+ * Send SMS verification code to a marketplace user (for 2FA setup and login).
+ * The number is held as pending and only becomes the user's SMS 2FA number
+ * once the code is verified.
  */
 export async function sendUserSMSVerification(
-  _userId: number,
-  _phoneNumber: string
+  userId: number,
+  phoneNumber: string
 ): Promise<PhoneVerificationResult> {
-  // SMS verification is not yet configured
-  // When ready, integrate Twilio or AWS SNS here
-  return {
-    success: false,
-    error: "sms_not_configured",
-  };
+  const sent = await sendVerificationCode(phoneNumber, "user_sms_verification");
+  if (!sent.success) return sent;
+
+  await prisma.marketplaceUser.update({
+    where: { id: userId },
+    data: {
+      smsPendingPhoneNumber: sent.phone,
+      smsVerificationToken: sha256b64url(sent.code),
+      smsVerificationTokenExpires: sent.expiresAt,
+    },
+  });
+
+  return { success: true, expiresAt: sent.expiresAt, ...(isStubMessagingProvider() ? { code: sent.code } : {}) };
 }
 
 /**
- * Verify SMS code for a marketplace user
+ * Verify SMS code for a marketplace user. The pending number becomes the
+ * user's SMS 2FA number.
  */
 export async function verifyUserSMSCode(
   userId: number,
@@ -174,6 +219,8 @@ export async function verifyUserSMSCode(
   await prisma.marketplaceUser.update({
     where: { id: userId },
     data: {
+      smsPhoneNumber: user.smsPendingPhoneNumber ?? user.smsPhoneNumber,
+      smsPendingPhoneNumber: null,
       smsVerifiedAt: new Date(),
       smsVerificationToken: null,
       smsVerificationTokenExpires: null,
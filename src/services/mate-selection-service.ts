@@ -0,0 +1,379 @@
+// src/services/mate-selection-service.ts
+// Tenant-wide kinship matrix and mate-selection optimizer.
+//
+// Builds the dam × sire kinship matrix from one pedigree graph (shared
+// memoized COI engine), removes pairings blocked by AnimalIncompatibility
+// records or lethal carrier × carrier risks, and solves the assignment that
+// minimizes average offspring COI.
+
+import prisma from "../prisma.js";
+import {
+  collectAncestors,
+  computeCOIFromGraph,
+  clampCOIGenerations,
+  KinshipCalculator,
+  type COIResult,
+} from "./lineage-service.js";
+import { detectCarrierPairings } from "./genetics/carrier-detection.js";
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Types
+ * ───────────────────────────────────────────────────────────────────────────── */
+
+export interface MatePlanInput {
+  damIds?: number[];
+  sireIds?: number[];
+  /** Use the group's active members as dams and its sire as a candidate sire */
+  breedingGroupId?: number | null;
+  generations?: number;
+  /** Maximum dams assigned to one sire (null = unlimited) */
+  maxDamsPerSire?: number | null;
+}
+
+export interface PairingWarning {
+  type: "incompatibility" | "carrier";
+  severity: string;
+  message: string;
+  gene?: string;
+  isLethal?: boolean;
+}
+
+export interface PairingAssessment {
+  damId: number;
+  sireId: number;
+  coefficient: number;
+  riskLevel: COIResult["riskLevel"];
+  /** False when the pairing is excluded from the plan */
+  allowed: boolean;
+  blockedReasons: string[];
+  warnings: PairingWarning[];
+}
+
+export interface PlannedPairing extends PairingAssessment {
+  damName: string;
+  sireName: string;
+  rank: number;
+}
+
+export interface MatePlanResult {
+  generationsAnalyzed: number;
+  dams: Array<{ id: number; name: string }>;
+  sires: Array<{ id: number; name: string }>;
+  /** kinship[i][j] = expected offspring COI of dams[i] × sires[j] */
+  kinship: number[][];
+  pairs: PairingAssessment[];
+  plan: {
+    pairings: PlannedPairing[];
+    unassignedDams: Array<{ id: number; name: string; reason: string }>;
+    averageCOI: number | null;
+    maxDamsPerSire: number | null;
+  };
+}
+
+/** Upper bound on dams + sires in one request */
+export const MATE_PLAN_MAX_CANDIDATES = 200;
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Assignment solver
+ * ───────────────────────────────────────────────────────────────────────────── */
+
+/**
+ * Assign each dam to at most one sire, respecting per-sire capacity.
+ *
+ * Min-cost max-flow (successive shortest paths): first assigns as many dams
+ * as the allowed pairings and capacities permit, then minimizes the summed
+ * cost among those assignments. `cost` returns null for disallowed pairs.
+ */
+export function optimizePairings(
+  damIds: number[],
+  sireIds: number[],
+  cost: (damId: number, sireId: number) => number | null,
+  maxDamsPerSire: number | null = null
+): Map<number, number> {
+  // Node layout: 0 = source, 1..D = dams, D+1..D+S = sires, D+S+1 = sink
+  const D = damIds.length;
+  const S = sireIds.length;
+  const source = 0;
+  const sink = D + S + 1;
+  const capacity = maxDamsPerSire && maxDamsPerSire > 0 ? maxDamsPerSire : D;
+
+  type Edge = { to: number; cap: number; cost: number; rev: number };
+  const adj: Edge[][] = Array.from({ length: sink + 1 }, () => []);
+  const addEdge = (from: number, to: number, cap: number, c: number) => {
+    adj[from].push({ to, cap, cost: c, rev: adj[to].length });
+    adj[to].push({ to: from, cap: 0, cost: -c, rev: adj[from].length - 1 });
+  };
+
+  for (let i = 0; i < D; i++) {
+    addEdge(source, 1 + i, 1, 0);
+    for (let j = 0; j < S; j++) {
+      const c = cost(damIds[i], sireIds[j]);
+      if (c !== null) addEdge(1 + i, 1 + D + j, 1, c);
+    }
+  }
+  for (let j = 0; j < S; j++) addEdge(1 + D + j, sink, capacity, 0);
+
+  // Bellman-Ford on the residual graph (handles the negative reverse edges)
+  for (;;) {
+    const dist = new Array<number>(sink + 1).fill(Infinity);
+    const prev = new Array<[number, number] | null>(sink + 1).fill(null);
+    dist[source] = 0;
+
+    for (let round = 0; round < sink; round++) {
+      let changed = false;
+      for (let u = 0; u <= sink; u++) {
+        if (dist[u] === Infinity) continue;
+        adj[u].forEach((e, idx) => {
+          if (e.cap > 0 && dist[u] + e.cost < dist[e.to] - 1e-15) {
+            dist[e.to] = dist[u] + e.cost;
+            prev[e.to] = [u, idx];
+            changed = true;
+          }
+        });
+      }
+      if (!changed) break;
+    }
+
+    if (dist[sink] === Infinity) break;
+
+    // Every augmenting path carries exactly one dam
+    for (let v = sink; v !== source; ) {
+      const [u, idx] = prev[v]!;
+      const e = adj[u][idx];
+      e.cap -= 1;
+      adj[v][e.rev].cap += 1;
+      v = u;
+    }
+  }
+
+  const assignment = new Map<number, number>();
+  for (let i = 0; i < D; i++) {
+    for (const e of adj[1 + i]) {
+      if (e.to > D && e.to <= D + S && e.cap === 0) {
+        assignment.set(damIds[i], sireIds[e.to - D - 1]);
+      }
+    }
+  }
+  return assignment;
+}
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Helpers
+ * ───────────────────────────────────────────────────────────────────────────── */
+
+type CandidateRow = {
+  id: number;
+  name: string;
+  sex: string;
+  species: string;
+  genetics: {
+    healthGeneticsData: unknown;
+    coatColorData: unknown;
+    physicalTraitsData: unknown;
+  } | null;
+};
+
+function geneticsOf(animal: CandidateRow) {
+  return {
+    health: animal.genetics?.healthGeneticsData as unknown[],
+    coatColor: animal.genetics?.coatColorData as unknown[],
+    physicalTraits: animal.genetics?.physicalTraitsData as unknown[],
+  };
+}
+
+async function resolveCandidates(
+  input: MatePlanInput,
+  tenantId: number
+): Promise<{ damIds: number[]; sireIds: number[] }> {
+  const damIds = new Set(input.damIds ?? []);
+  const sireIds = new Set(input.sireIds ?? []);
+
+  if (input.breedingGroupId) {
+    const group = await prisma.breedingGroup.findFirst({
+      where: { id: input.breedingGroupId, tenantId, deletedAt: null },
+      select: {
+        sireId: true,
+        members: {
+          where: { removedAt: null, memberStatus: { not: "REMOVED" } },
+          select: { damId: true },
+        },
+      },
+    });
+    if (!group) throw Object.assign(new Error("breeding_group_not_found"), { statusCode: 404 });
+
+    sireIds.add(group.sireId);
+    for (const m of group.members) damIds.add(m.damId);
+  }
+
+  return { damIds: [...damIds], sireIds: [...sireIds] };
+}
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Public API
+ * ───────────────────────────────────────────────────────────────────────────── */
+
+/**
+ * Build the kinship matrix for a set of candidate dams and sires and return a
+ * ranked pairing plan that minimizes average offspring COI.
+ *
+ * Pairings are excluded when an AVOID incompatibility is recorded in either
+ * direction or when carrier detection reports a lethal carrier × carrier
+ * risk. CAUTION incompatibilities and non-lethal carrier warnings are kept
+ * but surfaced on the pairing.
+ */
+export async function buildMatePlan(input: MatePlanInput, tenantId: number): Promise<MatePlanResult> {
+  const { damIds, sireIds } = await resolveCandidates(input, tenantId);
+
+  if (damIds.length === 0) throw Object.assign(new Error("dams_required"), { statusCode: 400 });
+  if (sireIds.length === 0) throw Object.assign(new Error("sires_required"), { statusCode: 400 });
+  if (damIds.length + sireIds.length > MATE_PLAN_MAX_CANDIDATES) {
+    throw Object.assign(new Error("too_many_candidates"), { statusCode: 400 });
+  }
+
+  const generations = clampCOIGenerations(input.generations);
+  const maxDamsPerSire = input.maxDamsPerSire && input.maxDamsPerSire > 0 ? input.maxDamsPerSire : null;
+
+  const animals = (await prisma.animal.findMany({
+    where: { id: { in: [...damIds, ...sireIds] }, tenantId },
+    select: {
+      id: true,
+      name: true,
+      sex: true,
+      species: true,
+      genetics: {
+        select: { healthGeneticsData: true, coatColorData: true, physicalTraitsData: true },
+      },
+    },
+  })) as CandidateRow[];
+  const byId = new Map(animals.map((a) => [a.id, a]));
+
+  for (const id of damIds) {
+    const dam = byId.get(id);
+    if (!dam) throw Object.assign(new Error("dam_not_found"), { statusCode: 404, animalId: id });
+    if (dam.sex !== "FEMALE") throw Object.assign(new Error("dam_must_be_female"), { statusCode: 400, animalId: id });
+  }
+  for (const id of sireIds) {
+    const sire = byId.get(id);
+    if (!sire) throw Object.assign(new Error("sire_not_found"), { statusCode: 404, animalId: id });
+    if (sire.sex !== "MALE") throw Object.assign(new Error("sire_must_be_male"), { statusCode: 400, animalId: id });
+  }
+
+  // One graph + one memoized calculator for every pairing
+  const graph = await collectAncestors([...damIds, ...sireIds], tenantId, generations);
+  const calculator = new KinshipCalculator(graph);
+
+  // Incompatibilities recorded on either animal's breeding profile
+  const incompatibilities = await prisma.animalIncompatibility.findMany({
+    where: {
+      tenantId,
+      OR: [
+        { profile: { animalId: { in: damIds } }, incompatibleAnimalId: { in: sireIds } },
+        { profile: { animalId: { in: sireIds } }, incompatibleAnimalId: { in: damIds } },
+      ],
+    },
+    select: { severity: true, reason: true, incompatibleAnimalId: true, profile: { select: { animalId: true } } },
+  });
+  const incompatibilityKey = (a: number, b: number) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+  const incompatibilityByPair = new Map<string, Array<{ severity: string; reason: string }>>();
+  for (const inc of incompatibilities) {
+    const key = incompatibilityKey(inc.profile.animalId, inc.incompatibleAnimalId);
+    const list = incompatibilityByPair.get(key) ?? [];
+    list.push({ severity: inc.severity, reason: inc.reason });
+    incompatibilityByPair.set(key, list);
+  }
+
+  const pairs: PairingAssessment[] = [];
+  const pairIndex = new Map<string, PairingAssessment>();
+  const kinship: number[][] = [];
+
+  for (const damId of damIds) {
+    const dam = byId.get(damId)!;
+    const row: number[] = [];
+
+    for (const sireId of sireIds) {
+      const sire = byId.get(sireId)!;
+      const coi = computeCOIFromGraph(damId, sireId, graph, generations, {
+        includePaths: false,
+        calculator,
+      });
+
+      const assessment: PairingAssessment = {
+        damId,
+        sireId,
+        coefficient: coi.coefficient,
+        riskLevel: coi.riskLevel,
+        allowed: true,
+        blockedReasons: [],
+        warnings: [],
+      };
+
+      for (const inc of incompatibilityByPair.get(incompatibilityKey(damId, sireId)) ?? []) {
+        assessment.warnings.push({ type: "incompatibility", severity: inc.severity, message: inc.reason });
+        if (inc.severity === "AVOID") assessment.blockedReasons.push("incompatibility");
+      }
+
+      const carrier = detectCarrierPairings(geneticsOf(dam), geneticsOf(sire), dam.species || sire.species);
+      for (const w of carrier.warnings) {
+        assessment.warnings.push({
+          type: "carrier",
+          severity: w.severity,
+          message: w.message,
+          gene: w.gene,
+          isLethal: w.isLethal,
+        });
+      }
+      if (carrier.hasLethalRisk) assessment.blockedReasons.push("lethal_carrier_risk");
+
+      assessment.allowed = assessment.blockedReasons.length === 0;
+      pairs.push(assessment);
+      pairIndex.set(`${damId}:${sireId}`, assessment);
+      row.push(coi.coefficient);
+    }
+
+    kinship.push(row);
+  }
+
+  const assignment = optimizePairings(
+    damIds,
+    sireIds,
+    (damId, sireId) => {
+      const pair = pairIndex.get(`${damId}:${sireId}`)!;
+      return pair.allowed ? pair.coefficient : null;
+    },
+    maxDamsPerSire
+  );
+
+  // Rank by offspring COI (lowest first)
+  const pairings: PlannedPairing[] = [...assignment.entries()]
+    .map(([damId, sireId]) => ({
+      ...pairIndex.get(`${damId}:${sireId}`)!,
+      damName: byId.get(damId)!.name,
+      sireName: byId.get(sireId)!.name,
+      rank: 0,
+    }))
+    .sort((a, b) => a.coefficient - b.coefficient)
+    .map((p, i) => ({ ...p, rank: i + 1 }));
+
+  const unassignedDams = damIds
+    .filter((id) => !assignment.has(id))
+    .map((id) => {
+      const hasAllowedPair = sireIds.some((sireId) => pairIndex.get(`${id}:${sireId}`)!.allowed);
+      return {
+        id,
+        name: byId.get(id)!.name,
+        reason: hasAllowedPair ? "sire_capacity_reached" : "no_allowed_sire",
+      };
+    });
+
+  const averageCOI =
+    pairings.length > 0 ? pairings.reduce((sum, p) => sum + p.coefficient, 0) / pairings.length : null;
+
+  return {
+    generationsAnalyzed: generations,
+    dams: damIds.map((id) => ({ id, name: byId.get(id)!.name })),
+    sires: sireIds.map((id) => ({ id, name: byId.get(id)!.name })),
+    kinship,
+    pairs,
+    plan: { pairings, unassignedDams, averageCOI, maxDamsPerSire },
+  };
+}
@@ -10,6 +10,8 @@ import {
   ListObjectsV2Command,
 } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { createReadStream } from "node:fs";
+import { stat } from "node:fs/promises";
 import { v4 as uuidv4 } from "uuid";
 import { getS3Client, getS3Bucket, getCdnDomain } from "./s3-client.js";
 
@@ -26,7 +28,8 @@ export type TenantPurpose =
   | "finance"
   | "services"
   | "credentials"
-  | "profile";
+  | "profile"
+  | "exports";
 
 export type ProviderPurpose = "listings" | "credentials" | "profile";
 
@@ -257,6 +260,47 @@ export async function uploadBuffer(
   return { storageKey, cdnUrl };
 }
 
+/**
+ * Upload a file from local disk without buffering it (e.g., generated export
+ * archives). The object is private and never cached; share it through
+ * generatePresignedDownloadUrl.
+ */
+export async function uploadLocalFile(
+  context: UploadContext,
+  filename: string,
+  filePath: string,
+  contentType: string
+): Promise<{ storageKey: string; sizeBytes: number }> {
+  const s3 = getS3Client();
+  const bucket = getS3Bucket();
+  const storageKey = generateStorageKey(context, filename);
+  const { size } = await stat(filePath);
+
+  await s3.send(
+    new PutObjectCommand({
+      Bucket: bucket,
+      Key: storageKey,
+      Body: createReadStream(filePath),
+      ContentType: contentType,
+      ContentLength: size,
+      CacheControl: "private, no-store",
+    })
+  );
+
+  return { storageKey, sizeBytes: size };
+}
+
+/**
+ * Download a file's contents into memory.
+ */
+export async function downloadFile(storageKey: string): Promise<Buffer> {
+  const s3 = getS3Client();
+  const bucket = getS3Bucket();
+  const response = await s3.send(new GetObjectCommand({ Bucket: bucket, Key: storageKey }));
+  if (!response.Body) return Buffer.alloc(0);
+  return Buffer.from(await response.Body.transformToByteArray());
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Presigned URL generation
 // ─────────────────────────────────────────────────────────────────────────────
@@ -304,14 +348,19 @@ export async function generatePresignedUploadUrl(
  */
 export async function generatePresignedDownloadUrl(
   storageKey: string,
-  expiresInSeconds: number = 3600
+  expiresInSeconds: number = 3600,
+  downloadFilename?: string
 ): Promise<PresignedDownloadResult> {
   const s3 = getS3Client();
   const bucket = getS3Bucket();
 
+  // With a filename, browsers save the file instead of displaying it
   const command = new GetObjectCommand({
     Bucket: bucket,
     Key: storageKey,
+    ...(downloadFilename && {
+      ResponseContentDisposition: `attachment; filename="${downloadFilename.replace(/["\\\r\n]/g, "_")}"`,
+    }),
   });
 
   const url = await getSignedUrl(s3, command, { expiresIn: expiresInSeconds });
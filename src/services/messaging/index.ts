@@ -0,0 +1,14 @@
+/**
+ * SMS / WhatsApp Messaging
+ *
+ * Exports:
+ * - Provider interface and the Twilio-compatible and stub providers
+ * - Messaging service (send, quota and opt-out checks, inbound keywords)
+ * - Phone verification for notification texts
+ */
+
+export * from "./types.js";
+export * from "./providers/twilio.js";
+export * from "./providers/stub.js";
+export * from "./messaging-service.js";
+export * from "./phone-verification.js";
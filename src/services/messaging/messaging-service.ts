@@ -0,0 +1,228 @@
+// src/services/messaging/messaging-service.ts
+/**
+ * Messaging Service (SMS / WhatsApp)
+ *
+ * Single entry point for outbound text messages. `sendMessage` normalizes
+ * the number, honours the recipient's opt-out, enforces the tenant's
+ * SMS_QUOTA and records SMS_SENT usage per billed segment before returning.
+ *
+ * Provider selection (MESSAGING_PROVIDER overrides):
+ * - "twilio" when TWILIO_ACCOUNT_SID/TWILIO_AUTH_TOKEN are set
+ * - "stub" outside production (console + optional MESSAGING_STUB_FILE)
+ * - none in production without credentials: sends fail with sms_not_configured
+ *
+ * Inbound STOP/START keywords are handled by `handleInboundMessage`, which
+ * writes the opt-out through comm-prefs-service.
+ */
+
+import type { CommChannel } from "@prisma/client";
+import { canContactViaChannel, applyPhoneOptOut } from "../comm-prefs-service.js";
+import { canAddResource, recordUsage, updateUsageSnapshot } from "../subscription/usage-service.js";
+import { createTwilioProvider } from "./providers/twilio.js";
+import { createStubProvider } from "./providers/stub.js";
+import type { MessagingChannel, MessagingProvider } from "./types.js";
+
+const IS_PRODUCTION = process.env.NODE_ENV === "production";
+
+/** Hard cap on outbound text length; notification bodies are truncated to fit */
+export const MAX_MESSAGE_LENGTH = 640;
+
+// ────────────────────────────────────────────────────────────────────────────
+// Provider
+// ────────────────────────────────────────────────────────────────────────────
+
+let cachedProvider: MessagingProvider | null | undefined;
+
+function resolveProvider(): MessagingProvider | null {
+  const configured = (process.env.MESSAGING_PROVIDER || "").toLowerCase();
+  const sid = process.env.TWILIO_ACCOUNT_SID;
+  const token = process.env.TWILIO_AUTH_TOKEN;
+
+  if (configured === "twilio" || (!configured && sid && token)) {
+    if (!sid || !token) {
+      console.warn("[messaging] MESSAGING_PROVIDER=twilio but TWILIO_ACCOUNT_SID/TWILIO_AUTH_TOKEN are missing");
+      return null;
+    }
+    return createTwilioProvider({
+      accountSid: sid,
+      authToken: token,
+      fromNumber: process.env.TWILIO_FROM_NUMBER,
+      messagingServiceSid: process.env.TWILIO_MESSAGING_SERVICE_SID,
+      whatsappFrom: process.env.TWILIO_WHATSAPP_FROM,
+      apiBaseUrl: process.env.TWILIO_API_BASE_URL,
+    });
+  }
+  if (configured === "stub" || (!configured && !IS_PRODUCTION)) {
+    return createStubProvider({ outboxFile: process.env.MESSAGING_STUB_FILE });
+  }
+  return null;
+}
+
+/** The configured provider, or null when SMS is not configured */
+export function getMessagingProvider(): MessagingProvider | null {
+  if (cachedProvider === undefined) cachedProvider = resolveProvider();
+  return cachedProvider;
+}
+
+/**
+ * Whether sent codes may be echoed back to the caller. Only the stub provider
+ * qualifies: with it nothing reaches a phone, so dev/test flows need the code.
+ */
+export function isStubMessagingProvider(): boolean {
+  return getMessagingProvider()?.name === "stub";
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Phone numbers and keywords
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Normalize a phone number to E.164. Bare 10-digit numbers are treated as
+ * North American (+1). Returns null when the input can't be a valid number.
+ */
+export function normalizePhoneE164(input: string | null | undefined): string | null {
+  if (!input) return null;
+  let raw = input.trim().replace(/^whatsapp:/i, "");
+  if (raw.startsWith("00")) raw = `+${raw.slice(2)}`;
+  const hasPlus = raw.startsWith("+");
+  if (/[^\d\s().+-]/.test(raw)) return null;
+  const digits = raw.replace(/\D/g, "");
+
+  if (hasPlus) return /^[1-9]\d{7,14}$/.test(digits) ? `+${digits}` : null;
+  if (digits.length === 10) return /^[2-9]/.test(digits) ? `+1${digits}` : null;
+  if (digits.length === 11 && digits.startsWith("1")) return /^1[2-9]/.test(digits) ? `+${digits}` : null;
+  return null;
+}
+
+const OPT_OUT_KEYWORDS = new Set(["STOP", "STOPALL", "UNSUBSCRIBE", "CANCEL", "END", "QUIT"]);
+const OPT_IN_KEYWORDS = new Set(["START", "YES", "UNSTOP"]);
+
+/** Classify an inbound message body by the carrier-standard opt keywords */
+export function parseOptKeyword(body: string | null | undefined): "opt_out" | "opt_in" | null {
+  const word = (body ?? "").trim().replace(/[.!]+$/, "").toUpperCase();
+  if (OPT_OUT_KEYWORDS.has(word)) return "opt_out";
+  if (OPT_IN_KEYWORDS.has(word)) return "opt_in";
+  return null;
+}
+
+/** Trim a message to `max` characters, ending with an ellipsis when cut */
+export function truncateMessage(body: string, max = MAX_MESSAGE_LENGTH): string {
+  const text = body.replace(/\s+/g, " ").trim();
+  return text.length <= max ? text : `${text.slice(0, max - 1).trimEnd()}…`;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Sending
+// ────────────────────────────────────────────────────────────────────────────
+
+export interface SendMessageInput {
+  channel: MessagingChannel;
+  to: string;
+  body: string;
+  /** Tenant billed for the message; omit for platform messages (e.g. marketplace verification) */
+  tenantId?: number | null;
+  /** Contact being messaged; their SMS/WhatsApp comm preference is honoured */
+  partyId?: number | null;
+  userId?: string | null;
+  /** Short label stored with the usage record, e.g. "notification", "phone_verification" */
+  purpose: string;
+  /** Set false for messages that must go out regardless of quota (default true) */
+  enforceQuota?: boolean;
+}
+
+export type SendMessageResult =
+  | { success: true; providerMessageId: string; to: string; segments: number }
+  | {
+      success: false;
+      error:
+        | "sms_not_configured"
+        | "invalid_phone_number"
+        | "opted_out"
+        | "sms_quota_exceeded"
+        | "send_failed";
+      detail?: string;
+    };
+
+export async function sendMessage(input: SendMessageInput): Promise<SendMessageResult> {
+  const provider = getMessagingProvider();
+  if (!provider) return { success: false, error: "sms_not_configured" };
+
+  const to = normalizePhoneE164(input.to);
+  if (!to) return { success: false, error: "invalid_phone_number" };
+
+  if (input.partyId && !(await canContactViaChannel(input.partyId, input.channel as CommChannel))) {
+    return { success: false, error: "opted_out" };
+  }
+
+  if (input.tenantId && input.enforceQuota !== false) {
+    if (!(await canAddResource(input.tenantId, "SMS_SENT", 1))) {
+      return { success: false, error: "sms_quota_exceeded" };
+    }
+  }
+
+  const result = await provider.send({
+    channel: input.channel,
+    to,
+    body: truncateMessage(input.body),
+  });
+
+  if (!result.ok) {
+    if (result.optedOut) {
+      // The carrier already blocks this number; mirror that locally so we stop trying
+      await applyPhoneOptOut(to, input.channel, true, `${provider.name}_send`).catch((err) =>
+        console.error("[messaging] Failed to record carrier opt-out:", err)
+      );
+      return { success: false, error: "opted_out", detail: result.error };
+    }
+    console.error(`[messaging] ${provider.name} send failed:`, result.error, result.message ?? "");
+    return { success: false, error: "send_failed", detail: result.error };
+  }
+
+  if (input.tenantId) {
+    try {
+      await recordUsage(input.tenantId, "SMS_SENT", result.segments, {
+        userId: input.userId ?? undefined,
+        resourceId: input.partyId ?? undefined,
+        additionalData: {
+          channel: input.channel,
+          purpose: input.purpose,
+          provider: provider.name,
+          providerMessageId: result.providerMessageId,
+        },
+      });
+      await updateUsageSnapshot(input.tenantId, "SMS_SENT");
+    } catch (err) {
+      // The message is already out; a usage write failure must not turn it into a send error
+      console.error("[messaging] Failed to record SMS usage:", err);
+    }
+  }
+
+  return { success: true, providerMessageId: result.providerMessageId, to, segments: result.segments };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Inbound
+// ────────────────────────────────────────────────────────────────────────────
+
+export interface InboundMessage {
+  channel: MessagingChannel;
+  from: string;
+  body: string;
+  /** Recorded as the comm-preference change source */
+  source: string;
+}
+
+/**
+ * Apply STOP/START keywords from an inbound message. Other replies are
+ * ignored; there is no conversational inbox for texts.
+ */
+export async function handleInboundMessage(
+  message: InboundMessage
+): Promise<{ action: "opt_out" | "opt_in" | "ignored"; partiesUpdated: number }> {
+  const keyword = parseOptKeyword(message.body);
+  const from = normalizePhoneE164(message.from);
+  if (!keyword || !from) return { action: "ignored", partiesUpdated: 0 };
+
+  const { partiesUpdated } = await applyPhoneOptOut(from, message.channel, keyword === "opt_out", message.source);
+  return { action: keyword, partiesUpdated };
+}
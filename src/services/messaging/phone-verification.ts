@@ -0,0 +1,119 @@
+// src/services/messaging/phone-verification.ts
+/**
+ * Phone Verification for Notification Texts
+ *
+ * Staff users verify the number in their notification preferences before
+ * any URGENT/HIGH notification is texted to it. A 6-digit code is sent by
+ * SMS; only its SHA-256 is stored, next to a 10-minute expiry. Changing the
+ * number clears the previous verification.
+ */
+
+import { createHash, randomInt, timingSafeEqual } from "node:crypto";
+import prisma from "../../prisma.js";
+import { isStubMessagingProvider, normalizePhoneE164, sendMessage } from "./messaging-service.js";
+
+export const PHONE_CODE_TTL_MS = 10 * 60 * 1000;
+/** Minimum gap between two codes for the same user */
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+export function generateVerificationCode(): string {
+  return randomInt(0, 1_000_000).toString().padStart(6, "0");
+}
+
+export function hashVerificationCode(code: string): string {
+  return createHash("sha256").update(code.trim()).digest("hex");
+}
+
+export type StartPhoneVerificationResult =
+  | { success: true; phoneNumber: string; expiresAt: Date; code?: string }
+  | {
+      success: false;
+      error: "invalid_phone_number" | "too_many_requests" | "sms_not_configured" | "opted_out" | "sms_quota_exceeded" | "send_failed";
+    };
+
+/**
+ * Store a new pending code for the user's number and text it. The code is
+ * only returned when the stub provider is active (nothing reaches a phone).
+ */
+export async function startUserPhoneVerification(
+  tenantId: number,
+  userId: string,
+  phoneNumber: string
+): Promise<StartPhoneVerificationResult> {
+  const phone = normalizePhoneE164(phoneNumber);
+  if (!phone) return { success: false, error: "invalid_phone_number" };
+
+  const now = new Date();
+  const existing = await prisma.userNotificationPreferences.findUnique({
+    where: { userId },
+    select: { phoneCodeExpiresAt: true },
+  });
+  if (
+    existing?.phoneCodeExpiresAt &&
+    existing.phoneCodeExpiresAt.getTime() - PHONE_CODE_TTL_MS + RESEND_COOLDOWN_MS > now.getTime()
+  ) {
+    return { success: false, error: "too_many_requests" };
+  }
+
+  const code = generateVerificationCode();
+  const expiresAt = new Date(now.getTime() + PHONE_CODE_TTL_MS);
+  const pending = {
+    phoneNumber: phone,
+    phoneVerified: false,
+    phoneVerifiedAt: null,
+    phoneCodeHash: hashVerificationCode(code),
+    phoneCodeExpiresAt: expiresAt,
+  };
+  await prisma.userNotificationPreferences.upsert({
+    where: { userId },
+    create: { tenantId, userId, ...pending },
+    update: pending,
+  });
+
+  const sent = await sendMessage({
+    channel: "SMS",
+    to: phone,
+    body: `Your BreederHQ verification code is ${code}. It expires in 10 minutes.`,
+    tenantId,
+    userId,
+    purpose: "phone_verification",
+    enforceQuota: false,
+  });
+  if (!sent.success) {
+    await prisma.userNotificationPreferences.update({
+      where: { userId },
+      data: { phoneCodeHash: null, phoneCodeExpiresAt: null },
+    });
+    return { success: false, error: sent.error };
+  }
+
+  return { success: true, phoneNumber: phone, expiresAt, ...(isStubMessagingProvider() ? { code } : {}) };
+}
+
+/**
+ * Check a code against the user's pending verification and mark the
+ * number verified on success.
+ */
+export async function confirmUserPhoneVerification(
+  userId: string,
+  code: string
+): Promise<{ success: true; phoneNumber: string } | { success: false; error: "no_pending_verification" | "invalid_or_expired_code" }> {
+  const prefs = await prisma.userNotificationPreferences.findUnique({
+    where: { userId },
+    select: { phoneNumber: true, phoneCodeHash: true, phoneCodeExpiresAt: true },
+  });
+  if (!prefs?.phoneCodeHash || !prefs.phoneNumber) return { success: false, error: "no_pending_verification" };
+
+  const expected = Buffer.from(prefs.phoneCodeHash, "hex");
+  const actual = Buffer.from(hashVerificationCode(code), "hex");
+  const expired = !prefs.phoneCodeExpiresAt || prefs.phoneCodeExpiresAt <= new Date();
+  if (expired || !timingSafeEqual(expected, actual)) {
+    return { success: false, error: "invalid_or_expired_code" };
+  }
+
+  await prisma.userNotificationPreferences.update({
+    where: { userId },
+    data: { phoneVerified: true, phoneVerifiedAt: new Date(), phoneCodeHash: null, phoneCodeExpiresAt: null },
+  });
+  return { success: true, phoneNumber: prefs.phoneNumber };
+}
@@ -0,0 +1,51 @@
+// src/services/messaging/providers/stub.ts
+/**
+ * Stub Messaging Provider (development and tests)
+ *
+ * Never contacts a carrier. Each message is logged to the console, appended
+ * as a JSON line to `outboxFile` when one is configured, and kept in the
+ * provider's in-memory `outbox` so tests can assert on what was sent.
+ */
+
+import { appendFile } from "node:fs/promises";
+import { randomUUID } from "node:crypto";
+import type { MessagingProvider, OutboundMessage, ProviderSendResult } from "../types.js";
+
+export interface StubMessage extends OutboundMessage {
+  id: string;
+  sentAt: string;
+}
+
+export interface StubMessagingProvider extends MessagingProvider {
+  readonly outbox: StubMessage[];
+}
+
+/** SMS segment length for plain GSM text; longer messages are billed per segment */
+const SEGMENT_LENGTH = 153;
+
+export function createStubProvider(options: { outboxFile?: string; silent?: boolean } = {}): StubMessagingProvider {
+  const outbox: StubMessage[] = [];
+
+  return {
+    name: "stub",
+    outbox,
+
+    async send(message: OutboundMessage): Promise<ProviderSendResult> {
+      const sent: StubMessage = { ...message, id: `stub_${randomUUID()}`, sentAt: new Date().toISOString() };
+      outbox.push(sent);
+
+      if (!options.silent) {
+        console.log(`[messaging:stub] ${message.channel} to ${message.to}: ${message.body}`);
+      }
+      if (options.outboxFile) {
+        await appendFile(options.outboxFile, `${JSON.stringify(sent)}\n`, "utf8");
+      }
+
+      return {
+        ok: true,
+        providerMessageId: sent.id,
+        segments: message.body.length <= 160 ? 1 : Math.ceil(message.body.length / SEGMENT_LENGTH),
+      };
+    },
+  };
+}
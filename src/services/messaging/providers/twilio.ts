@@ -0,0 +1,110 @@
+// src/services/messaging/providers/twilio.ts
+/**
+ * Twilio-compatible Messaging Provider
+ *
+ * Sends through the Programmable Messaging REST API
+ * (POST /2010-04-01/Accounts/{sid}/Messages.json, form-encoded, basic auth).
+ * WhatsApp uses the same endpoint with `whatsapp:`-prefixed numbers.
+ * `apiBaseUrl` points it at any service speaking the same API.
+ *
+ * Inbound webhooks are authenticated with X-Twilio-Signature: base64
+ * HMAC-SHA1, keyed with the auth token, over the full request URL followed
+ * by every POST parameter's name and value, sorted by name.
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { MessagingProvider, OutboundMessage, ProviderSendResult } from "../types.js";
+
+export interface TwilioConfig {
+  accountSid: string;
+  authToken: string;
+  /** Sender for SMS (ignored when messagingServiceSid is set) */
+  fromNumber?: string;
+  messagingServiceSid?: string;
+  /** WhatsApp-enabled sender, E.164 */
+  whatsappFrom?: string;
+  apiBaseUrl?: string;
+}
+
+const DEFAULT_API_BASE_URL = "https://api.twilio.com";
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/** Twilio's "attempt to send to unsubscribed recipient" */
+const UNSUBSCRIBED_RECIPIENT_CODE = 21610;
+
+function address(channel: OutboundMessage["channel"], number: string): string {
+  return channel === "WHATSAPP" ? `whatsapp:${number}` : number;
+}
+
+export function createTwilioProvider(config: TwilioConfig): MessagingProvider {
+  const baseUrl = (config.apiBaseUrl || DEFAULT_API_BASE_URL).replace(/\/+$/, "");
+  const endpoint = `${baseUrl}/2010-04-01/Accounts/${encodeURIComponent(config.accountSid)}/Messages.json`;
+  const authorization = `Basic ${Buffer.from(`${config.accountSid}:${config.authToken}`).toString("base64")}`;
+
+  return {
+    name: "twilio",
+
+    async send(message: OutboundMessage): Promise<ProviderSendResult> {
+      const form = new URLSearchParams({ To: address(message.channel, message.to), Body: message.body });
+      if (message.channel === "WHATSAPP") {
+        if (!config.whatsappFrom) return { ok: false, error: "whatsapp_not_configured" };
+        form.set("From", address("WHATSAPP", config.whatsappFrom));
+      } else if (config.messagingServiceSid) {
+        form.set("MessagingServiceSid", config.messagingServiceSid);
+      } else if (config.fromNumber) {
+        form.set("From", config.fromNumber);
+      } else {
+        return { ok: false, error: "sms_not_configured" };
+      }
+
+      let res: Response;
+      try {
+        res = await fetch(endpoint, {
+          method: "POST",
+          headers: { Authorization: authorization, "Content-Type": "application/x-www-form-urlencoded" },
+          body: form.toString(),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+      } catch (err: any) {
+        return { ok: false, error: "send_failed", message: err?.name === "TimeoutError" ? "timeout" : err?.message };
+      }
+
+      const payload = (await res.json().catch(() => ({}))) as {
+        sid?: string;
+        num_segments?: string;
+        code?: number;
+        message?: string;
+      };
+      if (!res.ok || !payload.sid) {
+        return {
+          ok: false,
+          error: payload.code ? `twilio_${payload.code}` : `http_${res.status}`,
+          message: payload.message,
+          optedOut: payload.code === UNSUBSCRIBED_RECIPIENT_CODE,
+        };
+      }
+      return { ok: true, providerMessageId: payload.sid, segments: Number(payload.num_segments) || 1 };
+    },
+  };
+}
+
+/**
+ * Check an inbound webhook's X-Twilio-Signature.
+ *
+ * @param url - The exact public URL Twilio requested, including any query
+ * @param params - The form-encoded POST parameters
+ */
+export function verifyTwilioSignature(
+  authToken: string,
+  url: string,
+  params: Record<string, string>,
+  signature: string | undefined
+): boolean {
+  if (!signature) return false;
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url);
+  const expected = createHmac("sha1", authToken).update(data, "utf8").digest();
+  const actual = Buffer.from(signature, "base64");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,35 @@
+// src/services/messaging/types.ts
+/**
+ * Messaging Provider Types
+ *
+ * A provider sends one text message over SMS or WhatsApp to an E.164 number
+ * and reports the provider's message id, or a failure. Providers never
+ * check opt-outs or quotas; messaging-service does that before calling them.
+ */
+
+export type MessagingChannel = "SMS" | "WHATSAPP";
+
+export const MESSAGING_CHANNELS: MessagingChannel[] = ["SMS", "WHATSAPP"];
+
+export interface OutboundMessage {
+  channel: MessagingChannel;
+  /** Recipient in E.164 form, e.g. +15551234567 */
+  to: string;
+  body: string;
+}
+
+export type ProviderSendResult =
+  | { ok: true; providerMessageId: string; segments: number }
+  | {
+      ok: false;
+      error: string;
+      message?: string;
+      /** The carrier/provider reports the recipient opted out (e.g. replied STOP) */
+      optedOut?: boolean;
+    };
+
+export interface MessagingProvider {
+  /** Stable key: "twilio" | "stub" */
+  name: string;
+  send(message: OutboundMessage): Promise<ProviderSendResult>;
+}
@@ -86,11 +86,15 @@ export interface NeonatalDashboardData {
 // ============================================================================
 
 /**
- * Create a neonatal care entry for an offspring
+ * Create a neonatal care entry for an offspring. Pass a transaction client to
+ * record it as part of a larger write (e.g. a spreadsheet import row).
  */
-export async function createNeonatalCareEntry(input: CreateNeonatalCareEntryInput) {
+export async function createNeonatalCareEntry(
+  input: CreateNeonatalCareEntryInput,
+  db: Prisma.TransactionClient = prisma
+) {
   // Verify offspring exists and belongs to tenant
-  const offspring = await prisma.offspring.findFirst({
+  const offspring = await db.offspring.findFirst({
     where: { id: input.offspringId, tenantId: input.tenantId },
   });
 
@@ -101,7 +105,7 @@ export async function createNeonatalCareEntry(input: CreateNeonatalCareEntryInpu
   // Calculate weight change percent from previous entry
   let weightChangePercent: number | null = null;
   if (input.weightOz != null) {
-    const previousEntry = await prisma.neonatalCareEntry.findFirst({
+    const previousEntry = await db.neonatalCareEntry.findFirst({
       where: {
         offspringId: input.offspringId,
         tenantId: input.tenantId,
@@ -119,7 +123,7 @@ export async function createNeonatalCareEntry(input: CreateNeonatalCareEntryInpu
     }
   }
 
-  const entry = await prisma.neonatalCareEntry.create({
+  const entry = await db.neonatalCareEntry.create({
     data: {
       tenantId: input.tenantId,
       offspringId: input.offspringId,
@@ -141,7 +145,7 @@ export async function createNeonatalCareEntry(input: CreateNeonatalCareEntryInpu
 
   // Update offspring's feeding method if provided
   if (input.feedingMethod) {
-    await prisma.offspring.update({
+    await db.offspring.update({
       where: { id: input.offspringId },
       data: { neonatalFeedingMethod: input.feedingMethod as any },
     });
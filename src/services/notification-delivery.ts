@@ -2,14 +2,29 @@
 /**
  * Notification Delivery Service
  *
- * Sends notifications via email using existing email-service.ts
+ * Sends notifications via email using existing email-service.ts, and
+ * URGENT/HIGH notifications by SMS or WhatsApp to users with a verified number
  * Integrates with hybrid notification system
+ *
+ * Per-user delivery policies (notification-policy.ts): non-URGENT
+ * notifications wait out quiet hours or go into a daily/weekly digest via
+ * NotificationDeliveryQueue. Unread overdue notifications escalate along the
+ * tenant's escalation chain, ending with the owners.
  */
 
 import prisma from "../prisma.js";
 import { sendEmail } from "./email-service.js";
 import { canContactViaChannel } from "./comm-prefs-service.js";
-import type { Notification, NotificationPriority } from "@prisma/client";
+import { sendMessage, truncateMessage } from "./messaging/index.js";
+import {
+  buildEscalationSteps,
+  decideDelivery,
+  groupByFamily,
+  isEscalationDue,
+  resolveTimeZone,
+} from "./notification-policy.js";
+import { NotificationType } from "@prisma/client";
+import type { Notification, NotificationPriority, UserNotificationPreferences } from "@prisma/client";
 import { wrapEmailLayout, emailButton, emailInfoCard, emailDetailRows, emailParagraph, emailFootnote, emailBulletList } from "./email-layout.js";
 
 // ────────────────────────────────────────────────────────────────────────────
@@ -349,11 +364,101 @@ export async function sendNotificationEmail(
   }
 }
 
+/** Priorities that are also texted to users with a verified phone */
+const TEXT_PRIORITIES: NotificationPriority[] = ["URGENT", "HIGH"];
+
 /**
- * Deliver notification to all tenant users via email
- * Respects user notification preferences
+ * Generate the SMS/WhatsApp body for a notification (single short message)
  */
-export async function deliverNotification(notificationId: number): Promise<{ sent: number; failed: number }> {
+function generateNotificationSms(notification: Notification, appUrl: string): string {
+  const label = notification.priority === "URGENT" ? "URGENT" : "Alert";
+  const link = notification.linkUrl ? ` ${appUrl}${notification.linkUrl}` : "";
+  // Keep the link intact; truncate the prose in front of it
+  return truncateMessage(`BreederHQ ${label}: ${notification.title}. ${notification.message}`, 300 - link.length) + link;
+}
+
+/**
+ * Text an URGENT/HIGH notification to a user's verified number. WhatsApp is
+ * used instead of SMS when the user enabled it. Counts against the tenant's
+ * SMS quota.
+ */
+export async function sendNotificationText(
+  notification: Notification,
+  userId: string,
+  prefs: { phoneNumber: string; whatsappEnabled: boolean }
+): Promise<boolean> {
+  const appUrl = process.env.APP_URL || "https://app.breederhq.com";
+  const result = await sendMessage({
+    channel: prefs.whatsappEnabled ? "WHATSAPP" : "SMS",
+    to: prefs.phoneNumber,
+    body: generateNotificationSms(notification, appUrl),
+    tenantId: notification.tenantId,
+    userId,
+    purpose: "notification",
+  });
+
+  if (!result.success) {
+    console.warn(`[notification-delivery] Text for notification ${notification.id} to user ${userId} not sent: ${result.error}`);
+  }
+  return result.success;
+}
+
+/**
+ * Send one notification to one user now: email (unless disabled) plus a
+ * text for URGENT/HIGH when the user has a verified number and opted in.
+ */
+async function deliverToUser(
+  notification: Notification,
+  user: { id: string; email: string },
+  prefs: UserNotificationPreferences | null,
+  tenantName: string
+): Promise<{ sent: number; failed: number }> {
+  let sent = 0;
+  let failed = 0;
+
+  // If no preferences exist, assume email enabled (default opt-in)
+  const emailEnabled = prefs?.emailEnabled ?? true;
+
+  if (emailEnabled) {
+    const success = await sendNotificationEmail(notification, user.email, tenantName);
+
+    if (success) {
+      sent++;
+    } else {
+      failed++;
+    }
+  }
+
+  // Texts are opt-in and need a verified number
+  if (
+    TEXT_PRIORITIES.includes(notification.priority) &&
+    prefs?.phoneNumber &&
+    prefs.phoneVerified &&
+    (prefs.smsEnabled || prefs.whatsappEnabled)
+  ) {
+    const success = await sendNotificationText(notification, user.id, {
+      phoneNumber: prefs.phoneNumber,
+      whatsappEnabled: prefs.whatsappEnabled,
+    });
+
+    if (success) {
+      sent++;
+    } else {
+      failed++;
+    }
+  }
+
+  return { sent, failed };
+}
+
+/**
+ * Deliver notification to all tenant users via email (and SMS/WhatsApp for
+ * URGENT/HIGH priority). Respects user notification preferences; deliveries
+ * held back by a digest or quiet hours are queued and counted as `queued`
+ */
+export async function deliverNotification(
+  notificationId: number
+): Promise<{ sent: number; failed: number; queued: number }> {
   const notification = await prisma.notification.findUnique({
     where: { id: notificationId },
     include: {
@@ -362,6 +467,7 @@ export async function deliverNotification(notificationId: number): Promise<{ sen
           id: true,
           name: true,
           slug: true,
+          timeZone: true,
         },
       },
     },
@@ -369,7 +475,7 @@ export async function deliverNotification(notificationId: number): Promise<{ sen
 
   if (!notification) {
     console.error(`[notification-delivery] Notification ${notificationId} not found`);
-    return { sent: 0, failed: 0 };
+    return { sent: 0, failed: 0, queued: 0 };
   }
 
   // Get all active tenant members
@@ -393,6 +499,8 @@ export async function deliverNotification(notificationId: number): Promise<{ sen
 
   let sent = 0;
   let failed = 0;
+  let queued = 0;
+  const now = new Date();
 
   for (const membership of memberships) {
     const user = membership.user;
@@ -402,14 +510,6 @@ export async function deliverNotification(notificationId: number): Promise<{ sen
       where: { userId: user.id },
     });
 
-    // If no preferences exist, assume all notifications enabled (default opt-in)
-    const emailEnabled = prefs?.emailEnabled ?? true;
-
-    if (!emailEnabled) {
-      // User has disabled email notifications
-      continue;
-    }
-
     // Check notification type preferences
     const shouldSend = shouldSendNotificationType(notification.type, prefs);
 
@@ -418,14 +518,29 @@ export async function deliverNotification(notificationId: number): Promise<{ sen
       continue;
     }
 
-    // Send email
-    const success = await sendNotificationEmail(notification, user.email, notification.tenant.name);
-
-    if (success) {
-      sent++;
-    } else {
-      failed++;
+    // Digest / quiet hours (URGENT bypasses both)
+    const tz = resolveTimeZone(prefs?.timeZone, notification.tenant.timeZone);
+    const decision = decideDelivery(notification.priority, prefs, tz, now);
+
+    if (decision.action === "queue") {
+      await prisma.notificationDeliveryQueue.upsert({
+        where: { notificationId_userId: { notificationId: notification.id, userId: user.id } },
+        create: {
+          tenantId: notification.tenantId,
+          userId: user.id,
+          notificationId: notification.id,
+          reason: decision.reason,
+          deliverAfter: decision.deliverAfter,
+        },
+        update: {},
+      });
+      queued++;
+      continue;
     }
+
+    const result = await deliverToUser(notification, user, prefs, notification.tenant.name);
+    sent += result.sent;
+    failed += result.failed;
   }
 
   // Also deliver to animal owners who have receiveNotifications enabled
@@ -454,9 +569,9 @@ export async function deliverNotification(notificationId: number): Promise<{ sen
     });
   }
 
-  console.log(`[notification-delivery] Delivered notification ${notificationId}: ${sent} sent (${ownerResult.sent} to owners), ${failed} failed`);
+  console.log(`[notification-delivery] Delivered notification ${notificationId}: ${sent} sent (${ownerResult.sent} to owners), ${failed} failed, ${queued} queued`);
 
-  return { sent, failed };
+  return { sent, failed, queued };
 }
 
 /** User notification preferences type */
@@ -655,7 +770,7 @@ export async function deliverToAnimalOwners(
  * function that processes all pending notifications. Tenant isolation is
  * enforced downstream by deliverNotification() and deliverToAnimalOwners().
  */
-export async function deliverPendingNotifications(): Promise<{ total: number; sent: number; failed: number }> {
+export async function deliverPendingNotifications(): Promise<{ total: number; sent: number; failed: number; queued: number }> {
   // Find all UNREAD notifications created today that haven't been emailed yet
   const today = new Date();
   today.setHours(0, 0, 0, 0);
@@ -676,18 +791,455 @@ export async function deliverPendingNotifications(): Promise<{ total: number; se
 
   let totalSent = 0;
   let totalFailed = 0;
+  let totalQueued = 0;
 
   for (const notification of notifications) {
     const result = await deliverNotification(notification.id);
     totalSent += result.sent;
     totalFailed += result.failed;
+    totalQueued += result.queued;
   }
 
-  console.log(`[notification-delivery] Delivery complete: ${totalSent} sent, ${totalFailed} failed`);
+  console.log(`[notification-delivery] Delivery complete: ${totalSent} sent, ${totalFailed} failed, ${totalQueued} queued`);
 
   return {
     total: notifications.length,
     sent: totalSent,
     failed: totalFailed,
+    queued: totalQueued,
   };
 }
+
+// ────────────────────────────────────────────────────────────────────────────
+// Digests & Quiet Hours
+// ────────────────────────────────────────────────────────────────────────────
+
+/** Items listed per digest section before "and N more" */
+const DIGEST_ITEMS_PER_SECTION = 15;
+
+/**
+ * Generate HTML digest email, one section per NotificationType family
+ */
+function generateDigestEmail(notifications: Notification[], tenantName: string, appUrl: string, title: string): string {
+  const sections = groupByFamily(notifications).map((group) => {
+    const items = group.items.slice(0, DIGEST_ITEMS_PER_SECTION).map((n) => {
+      const label = n.priority === "HIGH" ? `<strong style="color: #f97316;">${n.title}</strong>` : `<strong>${n.title}</strong>`;
+      const link = n.linkUrl ? ` <a href="${appUrl}${n.linkUrl}" style="color: #f97316; text-decoration: none;">View</a>` : "";
+      return `${label}: ${n.message}${link}`;
+    });
+    if (group.items.length > DIGEST_ITEMS_PER_SECTION) {
+      items.push(`and ${group.items.length - DIGEST_ITEMS_PER_SECTION} more`);
+    }
+    return [
+      `<h3 style="color: #e5e5e5; font-size: 16px; margin: 0 0 12px 0;">${group.label} (${group.items.length})</h3>`,
+      emailBulletList(items),
+    ].join("\n");
+  });
+
+  return wrapEmailLayout({
+    title,
+    footerOrgName: tenantName,
+    body: [
+      emailParagraph(`${notifications.length} update${notifications.length === 1 ? "" : "s"} from ${tenantName} since your last digest.`),
+      ...sections,
+      emailButton("Open Notifications", `${appUrl}/notifications`),
+      emailFootnote(`<a href="${appUrl}/settings/notifications" style="color: #f97316; text-decoration: none;">Manage notification preferences</a>`),
+    ].join("\n"),
+  });
+}
+
+/**
+ * Generate plain text digest email
+ */
+function generateDigestText(notifications: Notification[], tenantName: string, appUrl: string, title: string): string {
+  const sections = groupByFamily(notifications).map((group) => {
+    const lines = group.items
+      .slice(0, DIGEST_ITEMS_PER_SECTION)
+      .map((n) => `- ${n.title}: ${n.message}${n.linkUrl ? ` (${appUrl}${n.linkUrl})` : ""}`);
+    if (group.items.length > DIGEST_ITEMS_PER_SECTION) {
+      lines.push(`- and ${group.items.length - DIGEST_ITEMS_PER_SECTION} more`);
+    }
+    return `${group.label} (${group.items.length})\n${lines.join("\n")}`;
+  });
+
+  return `
+${title}
+
+${sections.join("\n\n")}
+
+---
+This digest was sent from ${tenantName} via BreederHQ
+Manage notification preferences: ${appUrl}/settings/notifications
+  `.trim();
+}
+
+async function sendDigestEmail(
+  notifications: Notification[],
+  user: { id: string; email: string },
+  tenant: { id: number; name: string },
+  weekly: boolean
+): Promise<boolean> {
+  const appUrl = process.env.APP_URL || "https://app.breederhq.com";
+  const title = weekly ? "Your weekly notification digest" : "Your daily notification digest";
+
+  try {
+    const result = await sendEmail({
+      tenantId: tenant.id,
+      to: user.email,
+      subject: `${title} (${notifications.length})`,
+      html: generateDigestEmail(notifications, tenant.name, appUrl, title),
+      text: generateDigestText(notifications, tenant.name, appUrl, title),
+      category: "transactional",
+      metadata: {
+        notificationDigest: weekly ? "weekly" : "daily",
+        notificationIds: notifications.map((n) => n.id),
+      },
+    });
+    return result.ok;
+  } catch (err) {
+    console.error(`[notification-delivery] Failed to send digest to ${user.email}:`, err);
+    return false;
+  }
+}
+
+/**
+ * Deliver queued notifications whose time has come. Quiet-hours items go
+ * out individually; digest items are bundled into one email per user and
+ * tenant. Notifications read or dismissed in the meantime are dropped.
+ * Queue rows are removed once handled, whatever the outcome.
+ *
+ * `limit` caps the rows picked up per run, but a user's digest is never split
+ * across runs: every due digest row of a user and tenant in the batch is
+ * included, even past the limit.
+ */
+export async function flushNotificationQueue(
+  now: Date = new Date(),
+  limit = 500
+): Promise<{ sent: number; failed: number; digests: number; dropped: number }> {
+  const include = {
+    notification: true,
+    tenant: { select: { id: true, name: true } },
+    user: { select: { id: true, email: true } },
+  } as const;
+  const due = await prisma.notificationDeliveryQueue.findMany({
+    where: { deliverAfter: { lte: now } },
+    orderBy: { deliverAfter: "asc" },
+    take: limit,
+    include,
+  });
+
+  // A full batch may have cut a digest short; pull in the rest of each
+  // user's due digest rows so it goes out as one email
+  const digestOwners = new Map<string, { userId: string; tenantId: number }>();
+  for (const row of due) {
+    if (row.reason === "DIGEST") digestOwners.set(`${row.userId}:${row.tenantId}`, { userId: row.userId, tenantId: row.tenantId });
+  }
+  if (due.length >= limit && digestOwners.size > 0) {
+    due.push(
+      ...(await prisma.notificationDeliveryQueue.findMany({
+        where: {
+          deliverAfter: { lte: now },
+          reason: "DIGEST",
+          id: { notIn: due.map((r) => r.id) },
+          OR: [...digestOwners.values()],
+        },
+        orderBy: { deliverAfter: "asc" },
+        include,
+      }))
+    );
+  }
+
+  let sent = 0;
+  let failed = 0;
+  let digests = 0;
+  let dropped = 0;
+  const prefsByUser = new Map<string, UserNotificationPreferences | null>();
+  const loadPrefs = async (userId: string) => {
+    if (!prefsByUser.has(userId)) {
+      prefsByUser.set(userId, await prisma.userNotificationPreferences.findUnique({ where: { userId } }));
+    }
+    return prefsByUser.get(userId)!;
+  };
+
+  const digestGroups = new Map<string, typeof due>();
+  for (const row of due) {
+    if (row.notification.status !== "UNREAD") {
+      dropped++;
+      continue;
+    }
+    if (row.reason === "DIGEST") {
+      const key = `${row.userId}:${row.tenantId}`;
+      digestGroups.set(key, [...(digestGroups.get(key) ?? []), row]);
+      continue;
+    }
+    const result = await deliverToUser(row.notification, row.user, await loadPrefs(row.userId), row.tenant.name);
+    sent += result.sent;
+    failed += result.failed;
+  }
+
+  for (const rows of digestGroups.values()) {
+    const { user, tenant } = rows[0];
+    const prefs = await loadPrefs(user.id);
+    // Email turned off since queueing: nothing to send, the items stay in-app
+    if (prefs && !prefs.emailEnabled) {
+      dropped += rows.length;
+      continue;
+    }
+    const ok = await sendDigestEmail(
+      rows.map((r) => r.notification),
+      user,
+      tenant,
+      prefs?.deliveryMode === "WEEKLY_DIGEST"
+    );
+    if (ok) {
+      digests++;
+      sent += rows.length;
+    } else {
+      failed += rows.length;
+    }
+  }
+
+  if (due.length > 0) {
+    await prisma.notificationDeliveryQueue.deleteMany({ where: { id: { in: due.map((r) => r.id) } } });
+  }
+
+  return { sent, failed, digests, dropped };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Escalation
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Tenant escalation policy, stored in TenantSetting under "notifications".
+ * `chain` is the ordered list of staff user ids tried before the owners.
+ */
+export interface NotificationEscalationPolicy {
+  enabled: boolean;
+  afterHours: number;
+  types: NotificationType[];
+  chain: string[];
+}
+
+const SETTINGS_NAMESPACE = "notifications";
+const MAX_ESCALATION_CHAIN = 10;
+/** Notifications older than this are never escalated */
+const ESCALATION_LOOKBACK_DAYS = 7;
+
+export const DEFAULT_ESCALATION_POLICY: NotificationEscalationPolicy = {
+  enabled: true,
+  afterHours: 4,
+  types: ["foaling_overdue", "pregnancy_check_overdue"],
+  chain: [],
+};
+
+interface EscalationState {
+  stepsTaken: number;
+  history: { step: number; at: string; userIds: string[] }[];
+}
+
+function policyError(details: string[]) {
+  return Object.assign(new Error("invalid_escalation_policy"), { statusCode: 400, details });
+}
+
+function mergePolicy(stored: Partial<NotificationEscalationPolicy> | undefined): NotificationEscalationPolicy {
+  return { ...DEFAULT_ESCALATION_POLICY, ...stored };
+}
+
+export async function getNotificationEscalationPolicy(tenantId: number): Promise<NotificationEscalationPolicy> {
+  const row = await prisma.tenantSetting.findUnique({
+    where: { tenantId_namespace: { tenantId, namespace: SETTINGS_NAMESPACE } },
+    select: { data: true },
+  });
+  return mergePolicy((row?.data as any)?.escalation);
+}
+
+/**
+ * Validate a partial update and merge it over the tenant's current policy.
+ * Chain members must be active members of the tenant.
+ */
+export async function updateNotificationEscalationPolicy(
+  tenantId: number,
+  input: Record<string, unknown>,
+  userId: string | null
+): Promise<NotificationEscalationPolicy> {
+  const details: string[] = [];
+  const update: Partial<NotificationEscalationPolicy> = {};
+  const knownTypes = Object.values(NotificationType) as string[];
+
+  for (const [key, value] of Object.entries(input)) {
+    switch (key) {
+      case "enabled":
+        if (typeof value === "boolean") update.enabled = value;
+        else details.push("enabled must be a boolean");
+        break;
+      case "afterHours":
+        if (Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 168) update.afterHours = value as number;
+        else details.push("afterHours must be a whole number of hours between 1 and 168");
+        break;
+      case "types":
+        if (!Array.isArray(value) || value.length === 0) {
+          details.push("types must be a non-empty array of notification types");
+        } else {
+          const unknown = value.filter((t) => !knownTypes.includes(t));
+          if (unknown.length) details.push(`types contains unknown notification types: ${unknown.join(", ")}`);
+          else update.types = [...new Set(value)] as NotificationType[];
+        }
+        break;
+      case "chain":
+        if (!Array.isArray(value) || value.some((id) => typeof id !== "string")) {
+          details.push("chain must be an array of user ids");
+        } else if (value.length > MAX_ESCALATION_CHAIN) {
+          details.push(`chain may list at most ${MAX_ESCALATION_CHAIN} users`);
+        } else {
+          update.chain = [...new Set(value as string[])];
+        }
+        break;
+      default:
+        details.push(`${key} is not a setting`);
+    }
+  }
+
+  if (update.chain?.length) {
+    const members = await prisma.tenantMembership.findMany({
+      where: { tenantId, userId: { in: update.chain }, membershipStatus: "ACTIVE" },
+      select: { userId: true },
+    });
+    const memberIds = new Set(members.map((m) => m.userId));
+    const outsiders = update.chain.filter((id) => !memberIds.has(id));
+    if (outsiders.length) details.push(`chain contains users who are not active members: ${outsiders.join(", ")}`);
+  }
+  if (details.length) throw policyError(details);
+
+  const existing = await prisma.tenantSetting.findUnique({
+    where: { tenantId_namespace: { tenantId, namespace: SETTINGS_NAMESPACE } },
+    select: { data: true },
+  });
+  const data = (existing?.data as Record<string, unknown> | null) ?? {};
+  const next = mergePolicy({ ...mergePolicy(data.escalation as any), ...update });
+
+  await prisma.tenantSetting.upsert({
+    where: { tenantId_namespace: { tenantId, namespace: SETTINGS_NAMESPACE } },
+    update: { data: { ...data, escalation: next } as any, version: { increment: 1 }, updatedBy: userId ?? undefined },
+    create: { tenantId, namespace: SETTINGS_NAMESPACE, data: { escalation: next } as any, version: 1, updatedBy: userId ?? undefined },
+  });
+  return next;
+}
+
+/**
+ * Send an escalated copy of a notification to one user, immediately and
+ * regardless of digest, quiet hours or type toggles: the tenant put them on
+ * the escalation chain (or they own it).
+ */
+async function sendEscalation(
+  notification: Notification,
+  userId: string,
+  tenantName: string,
+  step: number
+): Promise<boolean> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true, email: true } });
+  if (!user) return false;
+  const prefs = await prisma.userNotificationPreferences.findUnique({ where: { userId } });
+
+  const escalated: Notification = {
+    ...notification,
+    priority: "URGENT",
+    title: `Escalated: ${notification.title}`,
+    message: `Still unread after escalation step ${step}. ${notification.message}`,
+  };
+  const emailed = await sendNotificationEmail(escalated, user.email, tenantName);
+
+  let texted = false;
+  if (prefs?.phoneNumber && prefs.phoneVerified && (prefs.smsEnabled || prefs.whatsappEnabled)) {
+    texted = await sendNotificationText(escalated, user.id, {
+      phoneNumber: prefs.phoneNumber,
+      whatsappEnabled: prefs.whatsappEnabled,
+    });
+  }
+  return emailed || texted;
+}
+
+/**
+ * Escalate unread notifications of each tenant's escalation types. Step N
+ * fires after N × afterHours unread: the Nth chain member, then the owners.
+ * Progress is kept in the notification's metadata.escalation.
+ *
+ * NOTE: Intentionally unscoped by tenantId, like deliverPendingNotifications.
+ */
+export async function runNotificationEscalations(
+  now: Date = new Date()
+): Promise<{ checked: number; escalated: number; failed: number }> {
+  const settings = await prisma.tenantSetting.findMany({
+    where: { namespace: SETTINGS_NAMESPACE },
+    select: { tenantId: true, data: true },
+  });
+  const policies = new Map(settings.map((s) => [s.tenantId, mergePolicy((s.data as any)?.escalation)]));
+  const types = new Set<NotificationType>(DEFAULT_ESCALATION_POLICY.types);
+  for (const policy of policies.values()) policy.types.forEach((t) => types.add(t));
+
+  const candidates = await prisma.notification.findMany({
+    where: {
+      status: "UNREAD",
+      type: { in: [...types] },
+      createdAt: { gte: new Date(now.getTime() - ESCALATION_LOOKBACK_DAYS * 24 * 60 * 60 * 1000) },
+    },
+    include: { tenant: { select: { name: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  let escalated = 0;
+  let failed = 0;
+  const stepsByTenant = new Map<number, string[][]>();
+
+  for (const notification of candidates) {
+    const policy = policies.get(notification.tenantId) ?? DEFAULT_ESCALATION_POLICY;
+    if (!policy.enabled || !policy.types.includes(notification.type)) continue;
+
+    let steps = stepsByTenant.get(notification.tenantId);
+    if (!steps) {
+      const members = await prisma.tenantMembership.findMany({
+        where: { tenantId: notification.tenantId, membershipStatus: "ACTIVE" },
+        select: { userId: true, role: true },
+      });
+      const active = new Set(members.map((m) => m.userId));
+      steps = buildEscalationSteps(
+        policy.chain.filter((id) => active.has(id)),
+        members.filter((m) => m.role === "OWNER").map((m) => m.userId)
+      );
+      stepsByTenant.set(notification.tenantId, steps);
+    }
+
+    const metadata = (notification.metadata as Record<string, unknown> | null) ?? {};
+    const state = (metadata.escalation as EscalationState | undefined) ?? { stepsTaken: 0, history: [] };
+    if (!isEscalationDue(notification.createdAt, state.stepsTaken, policy.afterHours, steps.length, now)) continue;
+
+    const step = state.stepsTaken + 1;
+    const userIds = steps[state.stepsTaken];
+    let delivered = false;
+    for (const userId of userIds) {
+      if (await sendEscalation(notification, userId, notification.tenant.name, step)) delivered = true;
+    }
+
+    // Advance even on failure so one unreachable person doesn't stall the chain
+    await prisma.notification.update({
+      where: { id: notification.id },
+      data: {
+        metadata: {
+          ...metadata,
+          escalation: {
+            stepsTaken: step,
+            history: [...state.history, { step, at: now.toISOString(), userIds }],
+          },
+        } as any,
+      },
+    });
+
+    if (delivered) {
+      escalated++;
+    } else {
+      failed++;
+    }
+  }
+
+  return { checked: candidates.length, escalated, failed };
+}
@@ -0,0 +1,264 @@
+// src/services/notification-policy.ts
+/**
+ * Notification Delivery Policy
+ *
+ * Pure helpers behind per-user delivery policies in notification-delivery.ts:
+ * - Local time in the user's (or tenant's) IANA time zone
+ * - Quiet hours ("HH:MM"–"HH:MM", may wrap midnight)
+ * - Next daily/weekly digest slot
+ * - Digest grouping by NotificationType family
+ * - Escalation step timing
+ *
+ * URGENT notifications bypass digests and quiet hours.
+ */
+
+import type { NotificationDeliveryMode, NotificationPriority, NotificationQueueReason } from "@prisma/client";
+
+const DEFAULT_TIME_ZONE = "UTC";
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// ────────────────────────────────────────────────────────────────────────────
+// Time Zones
+// ────────────────────────────────────────────────────────────────────────────
+
+export function isValidTimeZone(tz: string | null | undefined): tz is string {
+  if (!tz) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The user's zone, else the tenant's, else UTC */
+export function resolveTimeZone(userTz: string | null | undefined, tenantTz: string | null | undefined): string {
+  if (isValidTimeZone(userTz)) return userTz;
+  if (isValidTimeZone(tenantTz)) return tenantTz;
+  return DEFAULT_TIME_ZONE;
+}
+
+export interface ZonedParts {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  /** 0 = Sunday */
+  weekday: number;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function zonedParts(date: Date, tz: string): ZonedParts {
+  let fmt = formatters.get(tz);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone: tz,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+    });
+    formatters.set(tz, fmt);
+  }
+  const parts = Object.fromEntries(fmt.formatToParts(date).map((p) => [p.type, p.value]));
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * The instant a local wall-clock time occurs in `tz`. Day/hour overflow is
+ * normalized (day 32 = next month). A time skipped by a DST jump resolves
+ * to the same wall time under the offset before the jump, i.e. an hour later
+ * (02:30 on a spring-forward night runs at 03:30).
+ */
+export function zonedTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, tz: string): Date {
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetAt = (instant: number) => {
+    const p = zonedParts(new Date(instant), tz);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute) - Math.floor(instant / MINUTE_MS) * MINUTE_MS;
+  };
+  let instant = wall - offsetAt(wall);
+  const corrected = wall - offsetAt(instant);
+  if (corrected !== instant) {
+    // Neither guess round-trips when the wall time was skipped; the offset
+    // before the jump is the smaller of the two
+    instant = offsetAt(corrected) === wall - corrected ? corrected : wall - Math.min(wall - instant, wall - corrected);
+  }
+  return new Date(instant);
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Quiet Hours
+// ────────────────────────────────────────────────────────────────────────────
+
+/** Minutes after midnight for "HH:MM" (24h), or null */
+export function parseClockTime(value: string | null | undefined): number | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value ?? "");
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/** Whether `now` falls in the quiet window; start == end means no window */
+export function isInQuietHours(now: Date, tz: string, start: string | null, end: string | null): boolean {
+  const from = parseClockTime(start);
+  const to = parseClockTime(end);
+  if (from === null || to === null || from === to) return false;
+
+  const local = zonedParts(now, tz);
+  const minutes = local.hour * 60 + local.minute;
+  return from < to ? minutes >= from && minutes < to : minutes >= from || minutes < to;
+}
+
+/** Next local occurrence of `end` ("HH:MM") after `now` */
+export function quietHoursEndAt(now: Date, tz: string, end: string): Date {
+  const to = parseClockTime(end) ?? 0;
+  const local = zonedParts(now, tz);
+  let at = zonedTimeToUtc(local.year, local.month, local.day, Math.floor(to / 60), to % 60, tz);
+  if (at <= now) at = zonedTimeToUtc(local.year, local.month, local.day + 1, Math.floor(to / 60), to % 60, tz);
+  return at;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Digests
+// ────────────────────────────────────────────────────────────────────────────
+
+/** Next digest slot strictly after `now`: local `hour`:00, on `weekday` for weekly digests */
+export function nextDigestAt(
+  now: Date,
+  tz: string,
+  mode: Exclude<NotificationDeliveryMode, "IMMEDIATE">,
+  hour: number,
+  weekday: number
+): Date {
+  const local = zonedParts(now, tz);
+  const daysAhead = mode === "WEEKLY_DIGEST" ? (weekday - local.weekday + 7) % 7 : 0;
+  let at = zonedTimeToUtc(local.year, local.month, local.day + daysAhead, hour, 0, tz);
+  if (at <= now) {
+    const step = mode === "WEEKLY_DIGEST" ? 7 : 1;
+    at = zonedTimeToUtc(local.year, local.month, local.day + daysAhead + step, hour, 0, tz);
+  }
+  return at;
+}
+
+/** Digest sections, in display order */
+export const NOTIFICATION_FAMILIES = [
+  { key: "vaccination", label: "Vaccinations", prefixes: ["vaccination_"] },
+  { key: "breeding", label: "Breeding", prefixes: ["breeding_"] },
+  { key: "pregnancy", label: "Pregnancy Checks", prefixes: ["pregnancy_check_"] },
+  { key: "foaling", label: "Births", prefixes: ["foaling_"] },
+  { key: "supplement", label: "Supplements", prefixes: ["supplement_"] },
+  { key: "microchip", label: "Microchips", prefixes: ["microchip_"] },
+  { key: "genetic", label: "Genetics", prefixes: ["genetic_test_"] },
+  { key: "contract", label: "Contracts & Guarantees", prefixes: ["contract_", "guarantee_"] },
+  { key: "compliance", label: "Compliance", prefixes: ["compliance_"] },
+  { key: "marketplace", label: "Marketplace & Network", prefixes: ["marketplace_", "network_", "breeding_data_agreement_"] },
+] as const;
+
+export type NotificationFamilyKey = (typeof NOTIFICATION_FAMILIES)[number]["key"] | "other";
+
+/** Family for a NotificationType; the longest matching prefix wins */
+export function notificationFamily(type: string): NotificationFamilyKey {
+  let best: { key: NotificationFamilyKey; length: number } = { key: "other", length: 0 };
+  for (const family of NOTIFICATION_FAMILIES) {
+    for (const prefix of family.prefixes) {
+      if (type.startsWith(prefix) && prefix.length > best.length) best = { key: family.key, length: prefix.length };
+    }
+  }
+  return best.key;
+}
+
+export function notificationFamilyLabel(key: NotificationFamilyKey): string {
+  return NOTIFICATION_FAMILIES.find((f) => f.key === key)?.label ?? "Other";
+}
+
+/** Group items into digest sections in NOTIFICATION_FAMILIES order ("other" last) */
+export function groupByFamily<T extends { type: string }>(items: T[]): { key: NotificationFamilyKey; label: string; items: T[] }[] {
+  const groups = new Map<NotificationFamilyKey, T[]>();
+  for (const item of items) {
+    const key = notificationFamily(item.type);
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+  const order: NotificationFamilyKey[] = [...NOTIFICATION_FAMILIES.map((f) => f.key), "other"];
+  return order
+    .filter((key) => groups.has(key))
+    .map((key) => ({ key, label: notificationFamilyLabel(key), items: groups.get(key)! }));
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Per-user Decision
+// ────────────────────────────────────────────────────────────────────────────
+
+export interface DeliveryPolicyPrefs {
+  deliveryMode: NotificationDeliveryMode;
+  digestHour: number;
+  digestWeekday: number;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+}
+
+export type DeliveryDecision =
+  | { action: "send" }
+  | { action: "queue"; reason: NotificationQueueReason; deliverAfter: Date };
+
+/**
+ * When a notification should reach a user. URGENT always goes now; digest
+ * users get everything else in their next digest; otherwise quiet hours
+ * hold delivery until they end.
+ */
+export function decideDelivery(
+  priority: NotificationPriority,
+  prefs: DeliveryPolicyPrefs | null,
+  tz: string,
+  now: Date
+): DeliveryDecision {
+  if (priority === "URGENT" || !prefs) return { action: "send" };
+
+  if (prefs.deliveryMode !== "IMMEDIATE") {
+    return {
+      action: "queue",
+      reason: "DIGEST",
+      deliverAfter: nextDigestAt(now, tz, prefs.deliveryMode, prefs.digestHour, prefs.digestWeekday),
+    };
+  }
+  if (prefs.quietHoursEnd && isInQuietHours(now, tz, prefs.quietHoursStart, prefs.quietHoursEnd)) {
+    return { action: "queue", reason: "QUIET_HOURS", deliverAfter: quietHoursEndAt(now, tz, prefs.quietHoursEnd) };
+  }
+  return { action: "send" };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Escalation
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Escalation steps in order: each staff member in the tenant's chain, then
+ * the owners (minus anyone already in the chain) as the last step.
+ */
+export function buildEscalationSteps(chain: string[], ownerIds: string[]): string[][] {
+  const steps = chain.map((userId) => [userId]);
+  const owners = ownerIds.filter((id) => !chain.includes(id));
+  if (owners.length) steps.push(owners);
+  return steps;
+}
+
+/**
+ * Whether the next step is due: step N (1-based) fires once the
+ * notification has been unread for N × afterHours.
+ */
+export function isEscalationDue(createdAt: Date, stepsTaken: number, afterHours: number, stepCount: number, now: Date): boolean {
+  if (stepsTaken >= stepCount) return false;
+  return now.getTime() - createdAt.getTime() >= (stepsTaken + 1) * afterHours * HOUR_MS;
+}
@@ -13,6 +13,11 @@
 
 import prisma from "../prisma.js";
 import type { NotificationType, NotificationPriority } from "@prisma/client";
+import {
+  getSpeciesDefaults,
+  predictNextCyclesForFemales,
+  type PregnancyCheckWindow,
+} from "./cycle-analysis-service.js";
 
 // ────────────────────────────────────────────────────────────────────────────
 // Types
@@ -34,10 +39,19 @@ interface BreedingAlert {
   damName: string | null;
   sireId: number | null;
   sireName: string | null;
-  eventType: "heat_cycle" | "hormone_testing" | "breed_date" | "pregnancy_check" | "foaling" | "foaling_overdue";
+  eventType:
+    | "heat_cycle"
+    | "hormone_testing"
+    | "breed_date"
+    | "pregnancy_check"
+    | "pregnancy_check_overdue"
+    | "foaling"
+    | "foaling_overdue";
   eventDate: Date;
   daysUntilEvent: number;
   tenantId: number;
+  /** Species check window, for pregnancy_check and pregnancy_check_overdue */
+  pregnancyCheck?: PregnancyCheckWindow;
 }
 
 interface GuaranteeAlert {
@@ -411,9 +425,19 @@ export async function createClientVaccinationNotifications(alerts: ClientVaccina
 // Breeding Timeline Scanning
 // ────────────────────────────────────────────────────────────────────────────
 
+/** Days after breeding the longest species pregnancy-check window (cattle) stays relevant */
+const PREGNANCY_CHECK_LOOKBACK_DAYS = 91;
+
+/** Plans still waiting on the dam's heat, whose reminders follow her learned cycle model */
+const PRE_BREEDING_STATUSES = ["PLANNING", "COMMITTED", "CYCLE_EXPECTED", "HORMONE_TESTING", "CYCLE"] as const;
+
+function parseISODate(value: string): Date {
+  return startOfDay(new Date(`${value}T12:00:00.000Z`));
+}
+
 /**
  * Scan for breeding timeline events within the next 30 days
- * Events: heat cycle expected, hormone testing, breed date, foaling
+ * Events: heat cycle expected, hormone testing, breed date, pregnancy checks, foaling
  */
 export async function scanBreedingTimeline(): Promise<BreedingAlert[]> {
   const today = startOfDay(new Date());
@@ -428,6 +452,11 @@ export async function scanBreedingTimeline(): Promise<BreedingAlert[]> {
         notIn: ["PLAN_COMPLETE", "COMPLETE", "CANCELED", "UNSUCCESSFUL"],
       },
       OR: [
+        // Waiting on the dam's heat: dates come from her cycle model below
+        {
+          damId: { not: null },
+          status: { in: [...PRE_BREEDING_STATUSES] },
+        },
         // Heat cycle expected
         {
           expectedCycleStart: {
@@ -449,6 +478,11 @@ export async function scanBreedingTimeline(): Promise<BreedingAlert[]> {
             lte: addDays(today, 2), // 2 days notice
           },
         },
+        // Bred, not yet delivered: species pregnancy-check windows
+        {
+          breedDateActual: { gte: addDays(today, -PREGNANCY_CHECK_LOOKBACK_DAYS) },
+          birthDateActual: null,
+        },
         // Foaling approaching (multiple windows: 270d, 300d, 320d, 330d, 340d, 30d, 14d, 7d, 3d, 1d)
         // Also check overdue (past expected date but no actual birth recorded)
         {
@@ -464,11 +498,21 @@ export async function scanBreedingTimeline(): Promise<BreedingAlert[]> {
       tenantId: true,
       damId: true,
       sireId: true,
+      species: true,
       expectedCycleStart: true,
       expectedHormoneTestingStart: true,
       expectedBreedDate: true,
       expectedBirthDate: true,
+      status: true,
+      cycleStartObserved: true,
+      cycleStartDateActual: true,
+      breedDateActual: true,
       birthDateActual: true,
+      PregnancyChecks: {
+        select: { checkedAt: true },
+        orderBy: { checkedAt: "desc" },
+        take: 1,
+      },
       dam: {
         select: {
           id: true,
@@ -484,12 +528,40 @@ export async function scanBreedingTimeline(): Promise<BreedingAlert[]> {
     },
   });
 
+  // Learned per-dam cycle predictions for plans still waiting on heat
+  const preBreedingDamIds = new Set(
+    plans
+      .filter((p) => p.damId !== null && (PRE_BREEDING_STATUSES as readonly string[]).includes(p.status))
+      .map((p) => p.damId as number)
+  );
+  const cyclePredictions = await predictNextCyclesForFemales([...preBreedingDamIds]);
+
   const alerts: BreedingAlert[] = [];
 
   for (const plan of plans) {
+    // The dam's model replaces the plan's stored projections until heat is
+    // observed; after that, testing is timed from the observed start and her
+    // learned ovulation offset. Without recorded cycles the plan dates stand.
+    const prediction = plan.damId && (PRE_BREEDING_STATUSES as readonly string[]).includes(plan.status)
+      ? cyclePredictions.get(plan.damId)
+      : undefined;
+    const observedCycleStart = plan.cycleStartObserved ?? plan.cycleStartDateActual;
+
+    let expectedCycleStart = plan.expectedCycleStart;
+    let expectedHormoneTestingStart = plan.expectedHormoneTestingStart;
+    if (prediction) {
+      if (observedCycleStart) {
+        expectedCycleStart = null;
+        expectedHormoneTestingStart = addDays(startOfDay(observedCycleStart), prediction.testingStartCycleDay);
+      } else {
+        expectedCycleStart = parseISODate(prediction.nextHeat.mostLikely);
+        expectedHormoneTestingStart = parseISODate(prediction.recommendedTestingStart);
+      }
+    }
+
     // Heat cycle expected (3 days before)
-    if (plan.expectedCycleStart) {
-      const eventDateStartOfDay = startOfDay(plan.expectedCycleStart);
+    if (expectedCycleStart) {
+      const eventDateStartOfDay = startOfDay(expectedCycleStart);
       const daysUntil = differenceInDays(eventDateStartOfDay, today);
       if (daysUntil === 3) {
         alerts.push({
@@ -499,7 +571,7 @@ export async function scanBreedingTimeline(): Promise<BreedingAlert[]> {
           sireId: plan.sireId,
           sireName: plan.sire?.name || "Unknown sire",
           eventType: "heat_cycle",
-          eventDate: plan.expectedCycleStart,
+          eventDate: expectedCycleStart,
           daysUntilEvent: daysUntil,
           tenantId: plan.tenantId,
         });
@@ -507,8 +579,8 @@ export async function scanBreedingTimeline(): Promise<BreedingAlert[]> {
     }
 
     // Hormone testing (1 day before)
-    if (plan.expectedHormoneTestingStart) {
-      const eventDateStartOfDay = startOfDay(plan.expectedHormoneTestingStart);
+    if (expectedHormoneTestingStart) {
+      const eventDateStartOfDay = startOfDay(expectedHormoneTestingStart);
       const daysUntil = differenceInDays(eventDateStartOfDay, today);
       if (daysUntil === 1) {
         alerts.push({
@@ -518,7 +590,7 @@ export async function scanBreedingTimeline(): Promise<BreedingAlert[]> {
           sireId: plan.sireId,
           sireName: plan.sire?.name || "Unknown sire",
           eventType: "hormone_testing",
-          eventDate: plan.expectedHormoneTestingStart,
+          eventDate: expectedHormoneTestingStart,
           daysUntilEvent: daysUntil,
           tenantId: plan.tenantId,
         });
@@ -544,6 +616,52 @@ export async function scanBreedingTimeline(): Promise<BreedingAlert[]> {
       }
     }
 
+    // Pregnancy checks (2 days before each species window opens, and the day
+    // after it closes if nothing was recorded). Windows are counted from the
+    // actual breed date; a check recorded once the window opened satisfies it.
+    if (plan.breedDateActual && !plan.birthDateActual) {
+      const breedDay = startOfDay(plan.breedDateActual);
+      const lastCheckedAt = plan.PregnancyChecks[0]?.checkedAt ?? null;
+
+      for (const window of getSpeciesDefaults(plan.species).pregnancyChecks ?? []) {
+        const opensAt = addDays(breedDay, window.startDay);
+        if (lastCheckedAt && lastCheckedAt >= opensAt) continue;
+
+        const daysUntil = differenceInDays(opensAt, today);
+        if (daysUntil === 2) {
+          alerts.push({
+            breedingPlanId: plan.id,
+            damId: plan.damId,
+            damName: plan.dam?.name || "Unknown dam",
+            sireId: plan.sireId,
+            sireName: plan.sire?.name || "Unknown sire",
+            eventType: "pregnancy_check",
+            eventDate: opensAt,
+            daysUntilEvent: daysUntil,
+            tenantId: plan.tenantId,
+            pregnancyCheck: window,
+          });
+        }
+
+        // Return-to-heat windows are observation only and rarely recorded as a check
+        const closesAt = addDays(breedDay, window.endDay);
+        if (window.method !== "OTHER" && differenceInDays(today, closesAt) === 1) {
+          alerts.push({
+            breedingPlanId: plan.id,
+            damId: plan.damId,
+            damName: plan.dam?.name || "Unknown dam",
+            sireId: plan.sireId,
+            sireName: plan.sire?.name || "Unknown sire",
+            eventType: "pregnancy_check_overdue",
+            eventDate: closesAt,
+            daysUntilEvent: -1,
+            tenantId: plan.tenantId,
+            pregnancyCheck: window,
+          });
+        }
+      }
+    }
+
     // Foaling approaching (270d, 300d, 320d, 330d, 340d, 30d, 14d, 7d, 3d, 1d)
     if (plan.expectedBirthDate) {
       const eventDateStartOfDay = startOfDay(plan.expectedBirthDate);
@@ -622,6 +740,25 @@ export async function createBreedingNotifications(alerts: BreedingAlert[]): Prom
         message = `${alert.damName} breeding date is in ${alert.daysUntilEvent} days (${alert.eventDate.toLocaleDateString()}). Coordinate with stud owner/vet.`;
         break;
 
+      case "pregnancy_check": {
+        const check = alert.pregnancyCheck!;
+        // Windows opening in the first four weeks (return to heat) use the early type
+        type = check.startDay < 28 ? "pregnancy_check_14d" : "pregnancy_check_30d";
+        priority = "MEDIUM";
+        title = `${check.label} for ${alert.damName}`;
+        message = `${alert.damName} is due for a ${check.label.toLowerCase()} from ${alert.eventDate.toLocaleDateString()} (days ${check.startDay}-${check.endDay} after breeding). ${check.guidance}`;
+        break;
+      }
+
+      case "pregnancy_check_overdue": {
+        const check = alert.pregnancyCheck!;
+        type = "pregnancy_check_overdue";
+        priority = "HIGH";
+        title = `${check.label} overdue for ${alert.damName}`;
+        message = `No pregnancy check was recorded for ${alert.damName} between days ${check.startDay} and ${check.endDay} after breeding. ${check.guidance}`;
+        break;
+      }
+
       case "foaling":
         if (alert.daysUntilEvent === 270) {
           type = "foaling_270d";
@@ -721,6 +858,9 @@ export async function createBreedingNotifications(alerts: BreedingAlert[]): Prom
           eventType: alert.eventType,
           eventDate: alert.eventDate.toISOString(),
           daysUntilEvent: alert.daysUntilEvent,
+          ...(alert.pregnancyCheck
+            ? { pregnancyCheck: { label: alert.pregnancyCheck.label, method: alert.pregnancyCheck.method } }
+            : {}),
         },
       },
     });
@@ -915,41 +915,55 @@ export async function getNutritionSummary(
 }
 
 /**
- * Get cost breakdown by animal for a period.
+ * Get cost breakdown by animal for a period, with each animal's cost per day.
  * Note: Only includes records linked to animals, not breeding plans.
+ * With excludeExpensed, feedings linked to an expense are left out (for
+ * reports that already count the expense itself); with excludePlanLinked,
+ * so are animal feedings also linked to a plan (for reports that count
+ * those under the plan).
  */
 export async function getCostByAnimal(
   tenantId: number,
   period: { start: Date; end: Date },
-  limit: number = 10
-): Promise<Array<{ animalId: number; animalName: string; totalCostCents: number }>> {
+  limit: number = 10,
+  options: { excludeExpensed?: boolean; excludePlanLinked?: boolean } = {}
+): Promise<
+  Array<{
+    animalId: number;
+    animalName: string;
+    totalCostCents: number;
+    days: Array<{ date: string; costCents: number }>;
+  }>
+> {
   const records = await prisma.feedingRecord.findMany({
     where: {
       tenantId,
       animalId: { not: null }, // Only animal records, not litters
       fedAt: { gte: period.start, lte: period.end },
+      skipped: false,
       costCents: { not: null },
+      ...(options.excludeExpensed ? { expenseId: null } : {}),
+      ...(options.excludePlanLinked ? { breedingPlanId: null } : {}),
     },
     include: {
       animal: { select: { id: true, name: true } },
     },
   });
 
-  // Aggregate by animal
-  const costByAnimal = new Map<number, { name: string; total: number }>();
+  // Aggregate by animal, and by date within each animal
+  const costByAnimal = new Map<number, { name: string; total: number; days: Map<string, number> }>();
   for (const record of records) {
     // Skip records without animalId (shouldn't happen with filter, but TypeScript safety)
     if (!record.animalId || !record.animal) continue;
 
-    const existing = costByAnimal.get(record.animalId);
-    if (existing) {
-      existing.total += record.costCents || 0;
-    } else {
-      costByAnimal.set(record.animalId, {
-        name: record.animal.name ?? `Animal #${record.animalId}`,
-        total: record.costCents || 0,
-      });
+    let existing = costByAnimal.get(record.animalId);
+    if (!existing) {
+      existing = { name: record.animal.name ?? `Animal #${record.animalId}`, total: 0, days: new Map() };
+      costByAnimal.set(record.animalId, existing);
     }
+    const dateKey = record.fedAt.toISOString().split("T")[0];
+    existing.total += record.costCents || 0;
+    existing.days.set(dateKey, (existing.days.get(dateKey) ?? 0) + (record.costCents || 0));
   }
 
   // Sort and limit
@@ -958,6 +972,9 @@ export async function getCostByAnimal(
       animalId,
       animalName: data.name,
       totalCostCents: data.total,
+      days: Array.from(data.days.entries())
+        .map(([date, costCents]) => ({ date, costCents }))
+        .sort((a, b) => a.date.localeCompare(b.date)),
     }))
     .sort((a, b) => b.totalCostCents - a.totalCostCents)
     .slice(0, limit);
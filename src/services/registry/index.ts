@@ -9,6 +9,7 @@
 
 // Types
 export type {
+  ETRegistryExportData,
   IRegistryApiClient,
   RegistryCapabilities,
   RegistryCredentials,
@@ -61,6 +62,10 @@ export {
   // Lookup
   lookupInRegistry,
 
+  // ET Registry Export
+  buildETRegistryExport,
+  pickRegistration,
+
   // Sync Logs
   getSyncLogs,
 
@@ -4,12 +4,14 @@
  * High-level service for registry operations:
  * - Verification (API and manual)
  * - Pedigree import
+ * - ET registry export
  * - Sync logging
  */
 
 import { Prisma } from '@prisma/client';
 import prisma from '../../prisma.js';
 import type {
+  ETRegistryExportData,
   VerificationResult,
   PedigreeResult,
   PedigreeAncestor,
@@ -522,3 +524,120 @@ export async function getRegistryCapabilitiesById(registryId: number) {
 
   return getRegistryCapabilities(registry.code ?? 'UNKNOWN');
 }
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ET Registry Export
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Pick the registration to report: the one for the requested registry,
+ * else the animal's first.
+ */
+export function pickRegistration(
+  identifiers: { registryId: number; identifier: string }[],
+  registryId?: number
+): string | undefined {
+  const match = registryId ? identifiers.find((i) => i.registryId === registryId) : undefined;
+  return (match ?? identifiers[0])?.identifier;
+}
+
+/**
+ * Build ET registry submission data for an embryo transfer breeding plan
+ * from the plan, its flush event and the embryo transferred into it.
+ *
+ * Throws 404 when the plan isn't found, 400 when it isn't an ET plan or
+ * has no transfer recorded yet.
+ */
+export async function buildETRegistryExport(
+  tenantId: number,
+  planId: number,
+  registryId?: number
+): Promise<ETRegistryExportData> {
+  const animalSelect = {
+    name: true,
+    registryIds: {
+      select: { registryId: true, identifier: true },
+      orderBy: { createdAt: 'asc' as const },
+    },
+  };
+
+  const plan = await prisma.breedingPlan.findFirst({
+    where: { id: planId, tenantId, deletedAt: null },
+    select: {
+      flushDate: true,
+      embryoTransferDate: true,
+      embryoType: true,
+      Animal_BreedingPlan_geneticDamIdToAnimal: { select: animalSelect },
+      Animal_BreedingPlan_recipientDamIdToAnimal: { select: animalSelect },
+      sire: { select: animalSelect },
+      FlushEvent: { select: { flushDate: true, embryoType: true } },
+      embryos: {
+        where: { status: 'TRANSFERRED' },
+        orderBy: { transferredAt: 'asc' },
+        take: 1,
+        select: { label: true, grade: true, stage: true, frozenAt: true, thawedAt: true, transferredAt: true },
+      },
+      Offspring: {
+        orderBy: { id: 'asc' },
+        select: { name: true, sex: true, bornAt: true },
+      },
+    },
+  });
+
+  if (!plan) {
+    throw Object.assign(new Error('plan_not_found'), { statusCode: 404 });
+  }
+
+  const geneticDam = plan.Animal_BreedingPlan_geneticDamIdToAnimal;
+  const recipientDam = plan.Animal_BreedingPlan_recipientDamIdToAnimal;
+  if (!geneticDam || !recipientDam) {
+    throw Object.assign(new Error('not_an_et_plan'), {
+      statusCode: 400,
+      details: { message: 'Plan needs a genetic dam and a recipient dam' },
+    });
+  }
+
+  const embryo = plan.embryos[0];
+  const flushDate = plan.FlushEvent?.flushDate ?? plan.flushDate;
+  const transferDate = embryo?.transferredAt ?? plan.embryoTransferDate;
+  if (!flushDate || !transferDate) {
+    throw Object.assign(new Error('transfer_not_recorded'), {
+      statusCode: 400,
+      details: { message: 'Record the flush and embryo transfer before exporting' },
+    });
+  }
+
+  const embryoType = embryo
+    ? (embryo.frozenAt ? 'FROZEN' : 'FRESH')
+    : (plan.embryoType ?? plan.FlushEvent?.embryoType) === 'FROZEN'
+      ? 'FROZEN'
+      : 'FRESH';
+
+  return {
+    geneticDamName: geneticDam.name ?? '',
+    geneticDamRegistration: pickRegistration(geneticDam.registryIds, registryId) ?? '',
+    sireName: plan.sire?.name ?? '',
+    sireRegistration: (plan.sire && pickRegistration(plan.sire.registryIds, registryId)) ?? '',
+    recipientDamName: recipientDam.name ?? '',
+    recipientDamRegistration: pickRegistration(recipientDam.registryIds, registryId),
+    flushDate: flushDate.toISOString().slice(0, 10),
+    transferDate: transferDate.toISOString().slice(0, 10),
+    embryoType,
+    embryo: embryo
+      ? {
+          label: embryo.label ?? undefined,
+          grade: embryo.grade ?? undefined,
+          stage: embryo.stage ?? undefined,
+          frozenDate: embryo.frozenAt?.toISOString().slice(0, 10),
+          thawDate: embryo.thawedAt?.toISOString().slice(0, 10),
+        }
+      : undefined,
+    offspring: plan.Offspring.length
+      ? plan.Offspring.map((o) => ({
+          name: o.name ?? '',
+          sex: o.sex ?? undefined,
+          dateOfBirth: o.bornAt?.toISOString().slice(0, 10),
+        }))
+      : undefined,
+  };
+}
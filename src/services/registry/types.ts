@@ -33,6 +33,14 @@ export interface ETRegistryExportData {
   flushDate: string;
   transferDate: string;
   embryoType: "FRESH" | "FROZEN";
+  // Embryo inventory record, when the transfer was recorded per embryo
+  embryo?: {
+    label?: string;
+    grade?: number;
+    stage?: string;
+    frozenDate?: string;
+    thawDate?: string;
+  };
   // ADGA requirements
   dnaVerificationStatus?: "PENDING" | "VERIFIED" | "FAILED";
   parentVerificationMethod?: "DNA_TYPING" | "BLOOD_TYPING" | "HAIR_SAMPLE";
@@ -0,0 +1,576 @@
+// src/services/saved-search-service.ts
+/**
+ * Saved Search Service
+ *
+ * Saved marketplace searches (MarketplaceSavedSearch) and new-match alerts:
+ * - Which filters apply to each target, and resolving `near` once at save
+ *   time so alert runs never geocode
+ * - Prisma where clauses for service, animal and breeding listings
+ * - Listings published in a window that match a search, radius included
+ * - The saved-search-alerts job: email + push per due search, with a
+ *   one-click unsubscribe link that turns the search's alerts OFF
+ *
+ * Animal listings have no coordinates of their own, so radius filters use
+ * the breeder's geocoded location (MarketplaceBreederLocation). Breeding
+ * listings use their own coordinates when set, else the breeder's.
+ */
+
+import type {
+  MarketplaceSavedSearch,
+  Prisma,
+  SavedSearchFrequency,
+  SavedSearchTarget,
+} from "@prisma/client";
+import prisma from "../prisma.js";
+import type { SavedSearchFilters } from "../validation/saved-searches.js";
+import {
+  boundingBox,
+  boundingBoxWhere,
+  DEFAULT_RADIUS_MILES,
+  filterByDistance,
+  haversineMiles,
+  resolveNearSearch,
+  roundMiles,
+  type GeoPoint,
+  type NearSearch,
+} from "./marketplace-geo-service.js";
+import { sendSavedSearchAlertEmail } from "./marketplace-email-service.js";
+import { sendPushToUser } from "./push.service.js";
+import { generateSavedSearchUnsubscribeToken } from "./unsubscribe-token-service.js";
+
+// ────────────────────────────────────────────────────────────────────────────
+// Constants
+// ────────────────────────────────────────────────────────────────────────────
+
+export const MAX_SAVED_SEARCHES_PER_USER = 25;
+
+/** Listings named in one alert email; the rest are counted */
+const MAX_ALERT_ITEMS = 10;
+/** Newest listings considered per search per run */
+const MAX_MATCH_CANDIDATES = 200;
+
+const HOUR_MS = 60 * 60 * 1000;
+/** Hourly job runs drift by seconds; don't push a daily search to the next run */
+const DUE_TOLERANCE_MS = 5 * 60 * 1000;
+
+const FREQUENCY_INTERVAL_MS: Record<Exclude<SavedSearchFrequency, "OFF">, number> = {
+  INSTANT: 0,
+  DAILY: 24 * HOUR_MS,
+  WEEKLY: 7 * 24 * HOUR_MS,
+};
+
+const MARKETPLACE_URL = process.env.MARKETPLACE_URL || "https://marketplace.breederhq.com";
+const API_URL = process.env.API_URL || process.env.APP_URL || "https://api.breederhq.com";
+
+/** Filters each target supports */
+export const TARGET_FILTERS: Record<SavedSearchTarget, ReadonlyArray<keyof SavedSearchFilters>> = {
+  SERVICE_LISTING: ["search", "category", "priceMinCents", "priceMaxCents", "near", "radiusMiles", "breederSlug"],
+  ANIMAL_LISTING: ["search", "species", "breed", "sex", "priceMinCents", "priceMaxCents", "near", "radiusMiles", "breederSlug"],
+  BREEDING_LISTING: [
+    "search",
+    "species",
+    "breed",
+    "sex",
+    "intent",
+    "priceMinCents",
+    "priceMaxCents",
+    "near",
+    "radiusMiles",
+    "breederSlug",
+    "programId",
+  ],
+};
+
+// ────────────────────────────────────────────────────────────────────────────
+// Types
+// ────────────────────────────────────────────────────────────────────────────
+
+/** Filters as stored: the user's filters plus the resolved `near` point */
+export type StoredSavedSearchFilters = SavedSearchFilters & { origin?: GeoPoint };
+
+export interface PublishedWindow {
+  since: Date;
+  until: Date;
+}
+
+export interface SavedSearchMatch {
+  id: number;
+  title: string;
+  url: string;
+  /** Price, place and distance, e.g. "$1,500 · Austin, TX · 12.3 mi" */
+  detail: string | null;
+  distanceMiles: number | null;
+}
+
+export interface SavedSearchInput {
+  name?: string;
+  filters?: SavedSearchFilters;
+  frequency?: SavedSearchFrequency;
+  emailEnabled?: boolean;
+  pushEnabled?: boolean;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Filters
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Check filters against the target and resolve `near` to a point.
+ * Throws 400 unsupported_filter / invalid_near / near_not_found.
+ */
+export async function prepareFilters(
+  target: SavedSearchTarget,
+  filters: SavedSearchFilters
+): Promise<StoredSavedSearchFilters> {
+  const allowed = TARGET_FILTERS[target];
+  const unsupported = Object.keys(filters).filter((key) => !allowed.includes(key as keyof SavedSearchFilters));
+  if (unsupported.length) {
+    throw Object.assign(new Error("unsupported_filter"), {
+      statusCode: 400,
+      details: { message: `Not available for ${target}: ${unsupported.join(", ")}` },
+    });
+  }
+
+  const stored: StoredSavedSearchFilters = { ...filters };
+  if (filters.near) {
+    const near = await resolveNearSearch({ near: filters.near, radiusMiles: filters.radiusMiles });
+    stored.origin = near!.origin;
+    stored.radiusMiles = near!.radiusMiles;
+  }
+  return stored;
+}
+
+function nearSearchOf(filters: StoredSavedSearchFilters): NearSearch | null {
+  return filters.origin ? { origin: filters.origin, radiusMiles: filters.radiusMiles ?? DEFAULT_RADIUS_MILES } : null;
+}
+
+/** Whether a search is due for its next alert check */
+export function isSearchDue(frequency: SavedSearchFrequency, lastCheckedAt: Date, now: Date): boolean {
+  if (frequency === "OFF") return false;
+  return now.getTime() - lastCheckedAt.getTime() >= FREQUENCY_INTERVAL_MS[frequency] - DUE_TOLERANCE_MS;
+}
+
+/** Searches due at `now` (the query form of isSearchDue), so a batch limit only counts due rows */
+export function dueSavedSearchesWhere(now: Date): Prisma.MarketplaceSavedSearchWhereInput {
+  const checkedBy = (frequency: keyof typeof FREQUENCY_INTERVAL_MS) =>
+    new Date(now.getTime() - Math.max(0, FREQUENCY_INTERVAL_MS[frequency] - DUE_TOLERANCE_MS));
+  return {
+    OR: [
+      { frequency: "INSTANT", lastCheckedAt: { lt: now } },
+      { frequency: "DAILY", lastCheckedAt: { lte: checkedBy("DAILY") } },
+      { frequency: "WEEKLY", lastCheckedAt: { lte: checkedBy("WEEKLY") } },
+    ],
+  };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Where Clauses
+// ────────────────────────────────────────────────────────────────────────────
+
+const contains = (value: string) => ({ contains: value, mode: "insensitive" as const });
+
+export function serviceListingWhere(
+  filters: StoredSavedSearchFilters,
+  window: PublishedWindow
+): Prisma.MktListingBreederServiceWhereInput {
+  const where: Prisma.MktListingBreederServiceWhereInput = {
+    status: "LIVE",
+    deletedAt: null,
+    publishedAt: { gt: window.since, lte: window.until },
+  };
+  if (filters.search) {
+    where.OR = [{ title: contains(filters.search) }, { description: contains(filters.search) }];
+  }
+  if (filters.category) where.category = filters.category.toLowerCase();
+  if (filters.breederSlug) where.tenant = { slug: filters.breederSlug };
+  if (filters.priceMinCents !== undefined || filters.priceMaxCents !== undefined) {
+    where.priceCents = {
+      ...(filters.priceMinCents !== undefined && { gte: BigInt(filters.priceMinCents) }),
+      ...(filters.priceMaxCents !== undefined && { lte: BigInt(filters.priceMaxCents) }),
+    };
+  }
+  return where;
+}
+
+export function animalListingWhere(
+  filters: StoredSavedSearchFilters,
+  window: PublishedWindow
+): Prisma.MktListingIndividualAnimalWhereInput {
+  const where: Prisma.MktListingIndividualAnimalWhereInput = {
+    status: "LIVE",
+    listed: true,
+    publishedAt: { gt: window.since, lte: window.until },
+  };
+  const animal: Prisma.AnimalWhereInput = {};
+  if (filters.species) animal.species = filters.species;
+  if (filters.breed) animal.breed = contains(filters.breed);
+  if (filters.sex) animal.sex = filters.sex;
+  if (Object.keys(animal).length) where.animal = animal;
+
+  if (filters.search) {
+    where.OR = [
+      { headline: contains(filters.search) },
+      { title: contains(filters.search) },
+      { summary: contains(filters.search) },
+      { animal: { name: contains(filters.search) } },
+      { animal: { breed: contains(filters.search) } },
+    ];
+  }
+  if (filters.breederSlug) where.tenant = { slug: filters.breederSlug };
+
+  // Same price semantics as the public listing index: ranges match on
+  // either end, and "inquire" listings pass a maximum
+  const and: Prisma.MktListingIndividualAnimalWhereInput[] = [];
+  if (filters.priceMinCents !== undefined) {
+    and.push({ OR: [{ priceCents: { gte: filters.priceMinCents } }, { priceMinCents: { gte: filters.priceMinCents } }] });
+  }
+  if (filters.priceMaxCents !== undefined) {
+    and.push({
+      OR: [
+        { priceCents: { lte: filters.priceMaxCents } },
+        { priceMaxCents: { lte: filters.priceMaxCents } },
+        { priceModel: "inquire" },
+      ],
+    });
+  }
+  if (and.length) where.AND = and;
+  return where;
+}
+
+export function breedingListingWhere(
+  filters: StoredSavedSearchFilters,
+  window: PublishedWindow
+): Prisma.BreedingListingWhereInput {
+  const where: Prisma.BreedingListingWhereInput = {
+    publicEnabled: true,
+    status: "PUBLISHED",
+    publishedAt: { gt: window.since, lte: window.until },
+  };
+  if (filters.species) where.species = filters.species;
+  if (filters.breed) where.breed = contains(filters.breed);
+  if (filters.sex) where.sex = filters.sex;
+  if (filters.intent) where.intent = filters.intent;
+  if (filters.programId) where.programId = filters.programId;
+  if (filters.breederSlug) where.tenant = { slug: filters.breederSlug };
+  if (filters.search) {
+    where.OR = [
+      { headline: contains(filters.search) },
+      { description: contains(filters.search) },
+      { breed: contains(filters.search) },
+    ];
+  }
+  if (filters.priceMinCents !== undefined || filters.priceMaxCents !== undefined) {
+    where.feeCents = {
+      ...(filters.priceMinCents !== undefined && { gte: filters.priceMinCents }),
+      ...(filters.priceMaxCents !== undefined && { lte: filters.priceMaxCents }),
+    };
+  }
+  return where;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Matching
+// ────────────────────────────────────────────────────────────────────────────
+
+function formatCents(cents: number | bigint | null | undefined): string | null {
+  if (cents === null || cents === undefined) return null;
+  return `$${(Number(cents) / 100).toLocaleString("en-US", { maximumFractionDigits: 2 })}`;
+}
+
+/** "$1,500 · Austin, TX · 12.3 mi" from whichever parts are present */
+export function matchDetail(price: string | null, place: Array<string | null>, distanceMiles: number | null): string | null {
+  const where = place.filter(Boolean).join(", ");
+  const parts = [price, where || null, distanceMiles !== null ? `${distanceMiles} mi` : null].filter(Boolean);
+  return parts.length ? parts.join(" · ") : null;
+}
+
+/** Breeders whose geocoded location is within the radius → distance in miles */
+async function nearbyBreeders(near: NearSearch): Promise<Map<number, number>> {
+  const locations = await prisma.marketplaceBreederLocation.findMany({
+    where: boundingBoxWhere(boundingBox(near.origin, near.radiusMiles)),
+    select: { tenantId: true, latitude: true, longitude: true },
+  });
+  return new Map(filterByDistance(locations, near).map((m) => [m.row.tenantId, m.distanceMiles]));
+}
+
+/**
+ * Listings matching a saved search that were published in the window,
+ * newest first (nearest first for radius searches). `total` counts every
+ * match among the newest MAX_MATCH_CANDIDATES listings.
+ */
+export async function findSavedSearchMatches(
+  search: Pick<MarketplaceSavedSearch, "target" | "filters">,
+  window: PublishedWindow
+): Promise<{ total: number; items: SavedSearchMatch[] }> {
+  const filters = (search.filters ?? {}) as StoredSavedSearchFilters;
+  const near = nearSearchOf(filters);
+  let matches: SavedSearchMatch[];
+
+  if (search.target === "SERVICE_LISTING") {
+    const where = serviceListingWhere(filters, window);
+    if (near) Object.assign(where, boundingBoxWhere(boundingBox(near.origin, near.radiusMiles)));
+    const rows = await prisma.mktListingBreederService.findMany({
+      where,
+      orderBy: { publishedAt: "desc" },
+      take: MAX_MATCH_CANDIDATES,
+      select: { id: true, slug: true, title: true, priceCents: true, city: true, state: true, latitude: true, longitude: true },
+    });
+    const ranked = near
+      ? filterByDistance(rows, near)
+      : rows.map((row) => ({ row, distanceMiles: null as number | null }));
+    matches = ranked.map(({ row, distanceMiles }) => {
+      const miles = distanceMiles === null ? null : roundMiles(distanceMiles);
+      return {
+        id: row.id,
+        title: row.title,
+        url: `${MARKETPLACE_URL}/services/${row.slug}`,
+        detail: matchDetail(formatCents(row.priceCents), [row.city, row.state], miles),
+        distanceMiles: miles,
+      };
+    });
+  } else if (search.target === "ANIMAL_LISTING") {
+    const where = animalListingWhere(filters, window);
+    const breeders = near ? await nearbyBreeders(near) : null;
+    if (breeders) where.tenantId = { in: [...breeders.keys()] };
+    const rows = await prisma.mktListingIndividualAnimal.findMany({
+      where,
+      orderBy: { publishedAt: "desc" },
+      take: MAX_MATCH_CANDIDATES,
+      select: {
+        id: true,
+        slug: true,
+        title: true,
+        headline: true,
+        priceCents: true,
+        priceMinCents: true,
+        locationCity: true,
+        locationRegion: true,
+        tenantId: true,
+        animal: { select: { name: true } },
+      },
+    });
+    matches = rows.map((row) => {
+      const distance = breeders?.get(row.tenantId);
+      const miles = distance === undefined ? null : roundMiles(distance);
+      return {
+        id: row.id,
+        title: row.title || row.headline || row.animal.name,
+        url: `${MARKETPLACE_URL}/animals/${row.slug}`,
+        detail: matchDetail(formatCents(row.priceCents ?? row.priceMinCents), [row.locationCity, row.locationRegion], miles),
+        distanceMiles: miles,
+      };
+    });
+  } else {
+    const where = breedingListingWhere(filters, window);
+    let breeders: Map<number, number> | null = null;
+    if (near) {
+      const box = boundingBox(near.origin, near.radiusMiles);
+      breeders = await nearbyBreeders(near);
+      where.AND = [
+        {
+          OR: [
+            { locationLat: { gte: box.minLat, lte: box.maxLat }, locationLng: { gte: box.minLng, lte: box.maxLng } },
+            { locationLat: null, tenantId: { in: [...breeders.keys()] } },
+          ],
+        },
+      ];
+    }
+    const rows = await prisma.breedingListing.findMany({
+      where,
+      orderBy: { publishedAt: "desc" },
+      take: MAX_MATCH_CANDIDATES,
+      select: {
+        id: true,
+        publicSlug: true,
+        headline: true,
+        feeCents: true,
+        publicShowFee: true,
+        locationCity: true,
+        locationState: true,
+        locationLat: true,
+        locationLng: true,
+        tenantId: true,
+      },
+    });
+    const ranked: Array<{ row: (typeof rows)[number]; distanceMiles: number | null }> = [];
+    for (const row of rows) {
+      let distanceMiles: number | null = null;
+      if (near) {
+        distanceMiles =
+          row.locationLat !== null && row.locationLng !== null
+            ? haversineMiles(near.origin, { latitude: row.locationLat, longitude: row.locationLng })
+            : breeders!.get(row.tenantId) ?? null;
+        if (distanceMiles === null || distanceMiles > near.radiusMiles) continue;
+      }
+      ranked.push({ row, distanceMiles });
+    }
+    if (near) ranked.sort((a, b) => a.distanceMiles! - b.distanceMiles!);
+    matches = ranked.map(({ row, distanceMiles }) => {
+      const miles = distanceMiles === null ? null : roundMiles(distanceMiles);
+      return {
+        id: row.id,
+        title: row.headline,
+        url: `${MARKETPLACE_URL}/breeding/${row.publicSlug}`,
+        detail: matchDetail(row.publicShowFee ? formatCents(row.feeCents) : null, [row.locationCity, row.locationState], miles),
+        distanceMiles: miles,
+      };
+    });
+  }
+
+  return { total: matches.length, items: matches };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// CRUD
+// ────────────────────────────────────────────────────────────────────────────
+
+/** API shape; the resolved `near` point stays internal */
+export function serializeSavedSearch(search: MarketplaceSavedSearch) {
+  const { origin: _origin, ...filters } = (search.filters ?? {}) as StoredSavedSearchFilters;
+  return {
+    id: search.id,
+    name: search.name,
+    target: search.target,
+    filters,
+    frequency: search.frequency,
+    emailEnabled: search.emailEnabled,
+    pushEnabled: search.pushEnabled,
+    lastCheckedAt: search.lastCheckedAt,
+    lastNotifiedAt: search.lastNotifiedAt,
+    lastMatchCount: search.lastMatchCount,
+    createdAt: search.createdAt,
+    updatedAt: search.updatedAt,
+  };
+}
+
+export async function createSavedSearch(
+  bhqUserId: string,
+  input: SavedSearchInput & { name: string; target: SavedSearchTarget; filters: SavedSearchFilters }
+): Promise<MarketplaceSavedSearch> {
+  const count = await prisma.marketplaceSavedSearch.count({ where: { bhqUserId } });
+  if (count >= MAX_SAVED_SEARCHES_PER_USER) {
+    throw Object.assign(new Error("saved_search_limit_reached"), {
+      statusCode: 409,
+      details: { message: `You can save up to ${MAX_SAVED_SEARCHES_PER_USER} searches.` },
+    });
+  }
+
+  const filters = await prepareFilters(input.target, input.filters);
+  return prisma.marketplaceSavedSearch.create({
+    data: {
+      bhqUserId,
+      name: input.name,
+      target: input.target,
+      filters: filters as Prisma.InputJsonValue,
+      frequency: input.frequency,
+      emailEnabled: input.emailEnabled,
+      pushEnabled: input.pushEnabled,
+    },
+  });
+}
+
+/** Changed filters only alert on listings published after the change */
+export async function updateSavedSearch(
+  bhqUserId: string,
+  id: number,
+  input: SavedSearchInput
+): Promise<MarketplaceSavedSearch> {
+  const existing = await prisma.marketplaceSavedSearch.findFirst({ where: { id, bhqUserId } });
+  if (!existing) throw Object.assign(new Error("not_found"), { statusCode: 404 });
+
+  const data: Prisma.MarketplaceSavedSearchUpdateInput = {
+    name: input.name,
+    frequency: input.frequency,
+    emailEnabled: input.emailEnabled,
+    pushEnabled: input.pushEnabled,
+  };
+  if (input.filters) {
+    data.filters = (await prepareFilters(existing.target, input.filters)) as Prisma.InputJsonValue;
+    data.lastCheckedAt = new Date();
+  }
+  // Turning alerts back on starts from now rather than replaying the gap
+  if (existing.frequency === "OFF" && input.frequency && input.frequency !== "OFF") {
+    data.lastCheckedAt = new Date();
+  }
+  return prisma.marketplaceSavedSearch.update({ where: { id }, data });
+}
+
+/** One-click unsubscribe: keep the search, stop its alerts */
+export async function disableSavedSearchAlerts(id: number): Promise<{ name: string } | null> {
+  const search = await prisma.marketplaceSavedSearch.findUnique({ where: { id }, select: { name: true } });
+  if (!search) return null;
+  await prisma.marketplaceSavedSearch.update({ where: { id }, data: { frequency: "OFF" } });
+  return search;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Alerts
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Check every due saved search for listings published since its last check
+ * and alert by email (verified addresses only) and push. A search that
+ * fails keeps its lastCheckedAt, so the next run covers the same window.
+ */
+export async function runSavedSearchAlerts(
+  now: Date = new Date(),
+  limit = 500
+): Promise<{ checked: number; notified: number; failed: number }> {
+  const searches = await prisma.marketplaceSavedSearch.findMany({
+    where: dueSavedSearchesWhere(now),
+    orderBy: { lastCheckedAt: "asc" },
+    take: limit,
+    include: { bhqUser: { select: { email: true, firstName: true, emailVerifiedAt: true } } },
+  });
+
+  let checked = 0;
+  let notified = 0;
+  let failed = 0;
+
+  for (const search of searches) {
+    if (!isSearchDue(search.frequency, search.lastCheckedAt, now)) continue;
+    checked++;
+
+    try {
+      const { total, items } = await findSavedSearchMatches(search, { since: search.lastCheckedAt, until: now });
+
+      if (total > 0) {
+        if (search.emailEnabled && search.bhqUser.emailVerifiedAt) {
+          await sendSavedSearchAlertEmail({
+            userEmail: search.bhqUser.email,
+            userName: search.bhqUser.firstName,
+            searchName: search.name,
+            matches: items.slice(0, MAX_ALERT_ITEMS),
+            totalMatches: total,
+            unsubscribeUrl: `${API_URL}/api/v1/unsubscribe/saved-search?token=${generateSavedSearchUnsubscribeToken(search.id)}`,
+          });
+        }
+        if (search.pushEnabled) {
+          // The email may already be out; a push failure must not block
+          // lastCheckedAt and re-send it on the next run
+          try {
+            await sendPushToUser(
+              search.bhqUserId,
+              total === 1 ? "New match for your saved search" : `${total} new matches for your saved search`,
+              total === 1 ? `${items[0].title} matches "${search.name}"` : `New listings match "${search.name}"`,
+              { type: "saved_search_matches", savedSearchId: String(search.id) }
+            );
+          } catch (err) {
+            console.error(`[saved-search] Failed to push alert for saved search ${search.id}:`, err);
+          }
+        }
+        notified++;
+      }
+
+      await prisma.marketplaceSavedSearch.update({
+        where: { id: search.id },
+        data: { lastCheckedAt: now, lastMatchCount: total, ...(total > 0 && { lastNotifiedAt: now }) },
+      });
+    } catch (err) {
+      failed++;
+      console.error(`[saved-search] Failed to check saved search ${search.id}:`, err);
+    }
+  }
+
+  return { checked, notified, failed };
+}
@@ -22,6 +22,13 @@ export type UsageStatus = {
   isOverLimit: boolean;
 };
 
+/** Metrics whose quota resets at the start of each UTC month */
+const MONTHLY_METRICS: UsageMetricKey[] = ["SMS_SENT"];
+
+function startOfUtcMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
 /**
  * Map usage metric key to entitlement quota key
  */
@@ -102,7 +109,8 @@ export async function getCurrentUsage(
     },
   });
 
-  if (snapshot) {
+  // A monthly metric's snapshot from a previous month is stale
+  if (snapshot && !(MONTHLY_METRICS.includes(metricKey) && snapshot.lastUpdatedAt < startOfUtcMonth(new Date()))) {
     return snapshot.currentValue;
   }
 
@@ -184,15 +192,14 @@ export async function calculateActualUsage(
     }
 
     case "SMS_SENT":
-      // SMS sending requires Twilio/AWS SNS integration (see marketplace-verification-service.ts)
-      // When SMS service is implemented, it should call recordUsage(tenantId, "SMS_SENT", 1, metadata)
-      // The usage-service will then read from UsageRecord table
-      // For now, sum any recorded SMS usage events
+      // messaging-service records one SMS_SENT event per billed segment.
+      // SMS_QUOTA is a monthly allowance, so only the current UTC month counts.
       {
         const smsRecords = await prisma.usageRecord.aggregate({
           where: {
             tenantId,
             metricKey: "SMS_SENT",
+            recordedAt: { gte: startOfUtcMonth(new Date()) },
           },
           _sum: { value: true },
         });
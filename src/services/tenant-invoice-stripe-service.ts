@@ -18,6 +18,7 @@ import prisma from "../prisma.js";
 import { getStripe } from "./stripe-service.js";
 import { canTenantAcceptStripePayments, getTenantStripeAccountId } from "./tenant-stripe-connect-service.js";
 import { createPaymentAndRecalculate } from "./finance/payment-service.js";
+import { emitInvoicePaidWebhook } from "./webhooks/index.js";
 import { sendEmail, sendTenantInvoicePaymentFailedEmail } from "./email-service.js";
 import { renderPaymentReceiptEmail, renderBreederPaymentNotification } from "./email-templates.js";
 
@@ -657,6 +658,8 @@ export async function handleTenantInvoicePaid(
     });
   });
 
+  emitInvoicePaidWebhook(invoice.tenantId, invoice.id);
+
   console.log("[Tenant Invoice Webhook] Invoice paid (Payment record created):", {
     invoiceId: invoice.id,
     stripeInvoiceId: stripeInvoice.id,
@@ -72,3 +72,45 @@ export function verifyUnsubscribeToken(token: string): UnsubscribeTokenPayload {
     purpose: "unsubscribe",
   };
 }
+
+// ────────────────────────────────────────────────────────────────────────────
+// Saved search alerts
+// ────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Payload embedded in saved-search alert unsubscribe tokens. Marketplace
+ * users have no Party, so these tokens name the saved search instead.
+ */
+export interface SavedSearchUnsubscribeTokenPayload {
+  savedSearchId: number;
+  /** Discriminator to prevent cross-purpose token reuse */
+  purpose: "saved_search_unsubscribe";
+}
+
+/**
+ * Generate a signed JWT token that turns off alerts for one saved search.
+ */
+export function generateSavedSearchUnsubscribeToken(savedSearchId: number): string {
+  const secret = ensureSecret();
+  return jwt.sign({ savedSearchId, purpose: "saved_search_unsubscribe" }, secret, { expiresIn: TOKEN_EXPIRY });
+}
+
+/**
+ * Verify and decode a saved-search unsubscribe token.
+ * Returns the payload if valid, throws if expired, tampered or issued for
+ * another purpose.
+ */
+export function verifySavedSearchUnsubscribeToken(token: string): SavedSearchUnsubscribeTokenPayload {
+  const secret = ensureSecret();
+  const decoded = jwt.verify(token, secret) as jwt.JwtPayload;
+
+  if (decoded.purpose !== "saved_search_unsubscribe") {
+    throw new Error("Invalid token purpose");
+  }
+
+  if (typeof decoded.savedSearchId !== "number") {
+    throw new Error("Invalid token payload");
+  }
+
+  return { savedSearchId: decoded.savedSearchId, purpose: "saved_search_unsubscribe" };
+}
@@ -0,0 +1,345 @@
+// src/services/waitlist-transfer.ts
+/**
+ * Waitlist Transfer Service
+ *
+ * Moves a waitlist entry to another breeding plan or program, e.g. when a
+ * litter is too small for everyone waiting on it:
+ * - The entry's BreedingPlanBuyer link moves with it (to a plan), or is
+ *   removed (to a program, where the buyer waits to be matched again)
+ * - The paid deposit carries over as a credit: the deposit invoice follows the
+ *   entry's plan link, or stays unapplied until the buyer is assigned again
+ * - Part of the deposit can be refunded through the payment service
+ * - The entry's place in line follows the tenant's transfer priority policy
+ *   (breeding settings → waitlist.transferPriorityPolicy) unless overridden
+ */
+
+import type { Prisma } from "@prisma/client";
+import prisma from "../prisma.js";
+import { recordRefundAndRecalculate } from "./finance/payment-service.js";
+
+export type TransferPriorityPolicy = "KEEP_POSITION" | "END_OF_LIST";
+
+export const TRANSFER_PRIORITY_POLICIES: TransferPriorityPolicy[] = ["KEEP_POSITION", "END_OF_LIST"];
+
+const DEFAULT_TRANSFER_PRIORITY_POLICY: TransferPriorityPolicy = "KEEP_POSITION";
+
+/** Entries in these states have left the waitlist and can't be moved */
+const CLOSED_STATUSES = ["COMPLETED", "CANCELED", "REJECTED"];
+
+export interface WaitlistTransferInput {
+  /** Destination breeding plan (one of planId / programId) */
+  planId?: number | null;
+  /** Destination breeding program */
+  programId?: number | null;
+  /** Overrides the tenant's transfer priority policy */
+  priorityPolicy?: TransferPriorityPolicy;
+  /** Part of the paid deposit to refund instead of carrying over */
+  refundCents?: number;
+  refundReason?: string | null;
+}
+
+export interface WaitlistTransferResult {
+  entryId: number;
+  from: { planId: number | null; programId: number | null };
+  to: { planId: number | null; programId: number | null; name: string };
+  priorityPolicy: TransferPriorityPolicy;
+  priority: number;
+  planBuyerId: number | null;
+  depositInvoiceId: number | null;
+  creditCents: number;
+  refundCents: number;
+  refundPaymentId: number | null;
+}
+
+function transferError(code: string, statusCode: number) {
+  return Object.assign(new Error(code), { statusCode });
+}
+
+/** The tenant's default for where a transferred entry lands in line */
+export async function getTransferPriorityPolicy(tenantId: number): Promise<TransferPriorityPolicy> {
+  const setting = await prisma.tenantSetting.findUnique({
+    where: { tenantId_namespace: { tenantId, namespace: "breeding" } },
+    select: { data: true },
+  });
+  const policy = (setting?.data as any)?.waitlist?.transferPriorityPolicy;
+  return TRANSFER_PRIORITY_POLICIES.includes(policy) ? policy : DEFAULT_TRANSFER_PRIORITY_POLICY;
+}
+
+/**
+ * Where the moved record lands in a priority-ordered queue (1 = first).
+ * Keeping position takes the same number, and everyone at or behind it
+ * (`shiftFrom`) moves back by one; otherwise (or with no current priority)
+ * it goes last and nobody moves.
+ */
+export function transferQueuePlacement(
+  policy: TransferPriorityPolicy,
+  current: number | null,
+  maxInTarget: number | null
+): { priority: number; shiftFrom: number | null } {
+  if (policy === "KEEP_POSITION" && current != null && current > 0) {
+    return { priority: current, shiftFrom: current };
+  }
+  return { priority: (maxInTarget ?? 0) + 1, shiftFrom: null };
+}
+
+/**
+ * Split the deposit an entry holds between a refund and the credit that
+ * carries over. Without a deposit invoice the entry's recorded deposit is
+ * held, but only an invoiced deposit can be refunded.
+ *
+ * @throws 400 no_deposit_invoice / refund_exceeds_deposit
+ */
+export function settleTransferDeposit(input: {
+  invoice: { paidCents: number; refundedCents: number } | null;
+  depositPaidCents: number | null;
+  refundCents: number;
+}): { heldCents: number; creditCents: number; disposition: "CARRIED_OVER" | "REFUNDED" | null } {
+  const { invoice, refundCents } = input;
+  const heldCents = invoice ? invoice.paidCents - invoice.refundedCents : input.depositPaidCents ?? 0;
+  if (refundCents > 0) {
+    if (!invoice) throw transferError("no_deposit_invoice", 400);
+    if (refundCents > heldCents) throw transferError("refund_exceeds_deposit", 400);
+  }
+  const creditCents = Math.max(0, heldCents - refundCents);
+  const disposition = creditCents > 0 ? "CARRIED_OVER" : refundCents > 0 ? "REFUNDED" : null;
+  return { heldCents, creditCents, disposition };
+}
+
+/**
+ * The plan buyer link that moves with the entry: its link on the plan it
+ * waits on. An entry waiting on a program moves its one link past a possible
+ * match on that program's plans; with several, none is picked.
+ */
+export function transferSourceLink<T extends { planId: number; stage: string; plan: { programId: number | null } }>(
+  links: T[],
+  source: { planId: number | null; programId: number | null }
+): T | null {
+  if (source.planId != null) return links.find((l) => l.planId === source.planId) ?? null;
+  if (source.programId == null) return null;
+  const advanced = links.filter((l) => l.stage !== "POSSIBLE_MATCH" && l.plan.programId === source.programId);
+  return advanced.length === 1 ? advanced[0] : null;
+}
+
+/**
+ * Move a waitlist entry to another plan or program.
+ *
+ * @param tenantId - Tenant scope
+ * @param entryId - The waitlist entry to move
+ * @param input - Destination, priority policy override and optional refund
+ * @throws 400 invalid_transfer_target, 404 entry/plan/program not found,
+ *         409 already_on_target / entry_not_transferable, 400 refund errors
+ */
+export async function transferWaitlistEntry(
+  tenantId: number,
+  entryId: number,
+  input: WaitlistTransferInput
+): Promise<WaitlistTransferResult> {
+  const targetPlanId = input.planId ?? null;
+  const targetProgramId = input.programId ?? null;
+  if ((targetPlanId == null) === (targetProgramId == null)) {
+    throw transferError("invalid_transfer_target", 400);
+  }
+  const refundCents = input.refundCents ?? 0;
+  if (!Number.isInteger(refundCents) || refundCents < 0) {
+    throw transferError("invalid_refund_amount", 400);
+  }
+  const policy = input.priorityPolicy ?? (await getTransferPriorityPolicy(tenantId));
+
+  return prisma.$transaction(async (tx) => {
+    const entry = await tx.waitlistEntry.findFirst({
+      where: { id: entryId, tenantId },
+      include: {
+        planBuyerLinks: { include: { plan: { select: { programId: true } } } },
+        depositInvoice: {
+          include: { Payments: { where: { status: "succeeded" }, select: { amountCents: true } } },
+        },
+      },
+    });
+    if (!entry) throw transferError("not_found", 404);
+    if (CLOSED_STATUSES.includes(entry.status) || entry.offspringId) {
+      throw transferError("entry_not_transferable", 409);
+    }
+
+    // ── Destination ──
+    let destination: { planId: number | null; programId: number | null; name: string };
+    if (targetPlanId != null) {
+      const plan = await tx.breedingPlan.findFirst({
+        where: { id: targetPlanId, tenantId, deletedAt: null, archived: false },
+        select: { id: true, name: true, programId: true },
+      });
+      if (!plan) throw transferError("plan_not_found", 404);
+      if (entry.planId === plan.id) throw transferError("already_on_target", 409);
+      destination = { planId: plan.id, programId: plan.programId ?? entry.programId, name: plan.name };
+    } else {
+      const program = await tx.mktListingBreedingProgram.findFirst({
+        where: { id: targetProgramId!, tenantId },
+        select: { id: true, name: true },
+      });
+      if (!program) throw transferError("program_not_found", 404);
+      if (entry.planId == null && entry.programId === program.id) throw transferError("already_on_target", 409);
+      destination = { planId: null, programId: program.id, name: program.name };
+    }
+
+    // ── Entry's place in line ──
+    const queueWhere: Prisma.WaitlistEntryWhereInput =
+      destination.planId != null
+        ? { tenantId, planId: destination.planId, id: { not: entry.id } }
+        : { tenantId, planId: null, programId: destination.programId, id: { not: entry.id } };
+    const entryMax = await tx.waitlistEntry.aggregate({ where: queueWhere, _max: { priority: true } });
+    const { priority, shiftFrom } = transferQueuePlacement(policy, entry.priority, entryMax._max.priority);
+    if (shiftFrom != null) {
+      await tx.waitlistEntry.updateMany({
+        where: { ...queueWhere, priority: { gte: shiftFrom } },
+        data: { priority: { increment: 1 } },
+      });
+    }
+
+    // ── Deposit credit and refund ──
+    const invoice = entry.depositInvoice;
+    const { creditCents, disposition: depositDisposition } = settleTransferDeposit({
+      invoice: invoice && {
+        paidCents: invoice.Payments.reduce((sum, p) => sum + Number(p.amountCents), 0),
+        refundedCents: Number(invoice.refundedCents),
+      },
+      depositPaidCents: entry.depositPaidCents,
+      refundCents,
+    });
+    let refundPaymentId: number | null = null;
+    if (invoice && refundCents > 0) {
+      const { refund } = await recordRefundAndRecalculate(tx, {
+        tenantId,
+        invoiceId: invoice.id,
+        amountCents: refundCents,
+        methodType: "refund",
+        notes: input.refundReason || `Partial deposit refund on transfer of waitlist entry #${entry.id}`,
+        data: { waitlistEntryId: entry.id, transferTo: destination },
+      });
+      refundPaymentId = refund.id;
+    }
+
+    // ── Plan buyer link ──
+    const sourceLink = transferSourceLink(entry.planBuyerLinks, entry);
+    let planBuyerId: number | null = null;
+
+    if (destination.planId != null) {
+      const existing = entry.planBuyerLinks.find((l) => l.planId === destination.planId) ?? null;
+      const buyerQueue = { tenantId, planId: destination.planId, waitlistEntryId: { not: entry.id } };
+      const buyerMax = await tx.breedingPlanBuyer.aggregate({ where: buyerQueue, _max: { priority: true } });
+      const placement = transferQueuePlacement(
+        policy,
+        sourceLink?.priority ?? existing?.priority ?? null,
+        buyerMax._max.priority
+      );
+      if (placement.shiftFrom != null) {
+        await tx.breedingPlanBuyer.updateMany({
+          where: { ...buyerQueue, priority: { gte: placement.shiftFrom } },
+          data: { priority: { increment: 1 } },
+        });
+      }
+      const linkPriority = placement.priority;
+
+      if (sourceLink) {
+        // A possible-match link the matcher left on the destination is superseded
+        if (existing && existing.id !== sourceLink.id) {
+          await tx.breedingPlanBuyer.deleteMany({ where: { id: existing.id, tenantId } });
+        }
+        const moved = await tx.breedingPlanBuyer.update({
+          where: { id: sourceLink.id },
+          data: {
+            planId: destination.planId,
+            priority: linkPriority,
+            // Any picks or selections were for the old litter
+            offspringId: null,
+            draftPickNumber: null,
+            draftPickedAt: null,
+            draftPickStatus: null,
+            draftSelectedOffspringId: null,
+            depositDisposition,
+          },
+        });
+        planBuyerId = moved.id;
+        await tx.invoice.updateMany({
+          where: { tenantId, breedingPlanBuyerId: moved.id },
+          data: { breedingPlanId: destination.planId },
+        });
+      } else if (existing) {
+        const promoted = await tx.breedingPlanBuyer.update({
+          where: { id: existing.id },
+          data: {
+            stage: "ASSIGNED",
+            assignedAt: existing.assignedAt ?? new Date(),
+            priority: linkPriority,
+            depositDisposition,
+          },
+        });
+        planBuyerId = promoted.id;
+      } else {
+        const created = await tx.breedingPlanBuyer.create({
+          data: {
+            tenantId,
+            planId: destination.planId,
+            waitlistEntryId: entry.id,
+            partyId: entry.clientPartyId,
+            buyerId: entry.buyerId,
+            stage: "ASSIGNED",
+            assignedAt: new Date(),
+            priority: linkPriority,
+            depositDisposition,
+          },
+        });
+        planBuyerId = created.id;
+      }
+    } else if (sourceLink) {
+      await tx.invoice.updateMany({
+        where: { tenantId, breedingPlanBuyerId: sourceLink.id },
+        data: { breedingPlanId: null, breedingPlanBuyerId: null },
+      });
+      await tx.breedingPlanBuyer.deleteMany({ where: { id: sourceLink.id, tenantId } });
+    }
+
+    // The deposit invoice follows the plan link unless the link already
+    // carries another invoice. Unlinked, a paid deposit is the unapplied
+    // credit offered when the buyer is next assigned to a plan.
+    if (invoice) {
+      const linkTaken = planBuyerId
+        ? await tx.invoice.findFirst({
+            where: { tenantId, breedingPlanBuyerId: planBuyerId, id: { not: invoice.id } },
+            select: { id: true },
+          })
+        : null;
+      await tx.invoice.update({
+        where: { id: invoice.id },
+        data: {
+          breedingPlanId: destination.planId,
+          breedingPlanBuyerId: linkTaken ? null : planBuyerId,
+        },
+      });
+    }
+
+    await tx.waitlistEntry.update({
+      where: { id: entry.id },
+      data: {
+        planId: destination.planId,
+        programId: destination.programId,
+        litterId: null,
+        priority,
+        ...(refundCents > 0 && { depositPaidCents: creditCents }),
+        // Back in line for matching when it leaves a plan
+        ...(destination.planId == null && entry.status === "ALLOCATED" && { status: "APPROVED" }),
+      },
+    });
+
+    return {
+      entryId: entry.id,
+      from: { planId: entry.planId, programId: entry.programId },
+      to: destination,
+      priorityPolicy: policy,
+      priority,
+      planBuyerId,
+      depositInvoiceId: invoice?.id ?? null,
+      creditCents,
+      refundCents,
+      refundPaymentId,
+    };
+  });
+}
@@ -0,0 +1,12 @@
+/**
+ * Outbound Webhooks
+ *
+ * Exports:
+ * - Event catalogue and delivery envelope
+ * - Signing and endpoint URL checks
+ * - Webhook service (endpoints, emit, deliver, retry, replay)
+ */
+
+export * from "./webhook-events.js";
+export * from "./webhook-security.js";
+export * from "./webhook-service.js";
@@ -0,0 +1,46 @@
+// src/services/webhooks/webhook-events.ts
+/**
+ * Webhook Event Catalogue
+ *
+ * The event types a tenant's endpoints can subscribe to, and the envelope
+ * every delivery body uses:
+ *   { id, type, createdAt, tenantId, data }
+ * `id` is unique per event and repeated on retries and replays, so receivers
+ * can de-duplicate on it.
+ */
+
+export const WEBHOOK_EVENT_TYPES = [
+  "animal.created",
+  "animal.updated",
+  "offspring.status_changed",
+  "waitlist_entry.created",
+  "waitlist_entry.approved",
+  "invoice.paid",
+  "contract.signed",
+  "booking.confirmed",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+/** Sent only by the "send test event" action; endpoints can't subscribe to it */
+export const WEBHOOK_PING_EVENT = "webhook.ping";
+
+export interface WebhookEventEnvelope {
+  id: string;
+  type: WebhookEventType | typeof WEBHOOK_PING_EVENT;
+  createdAt: string;
+  tenantId: number;
+  data: Record<string, unknown>;
+}
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return typeof value === "string" && (WEBHOOK_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * JSON-safe copy of an event's data: BigInt amounts become numbers and
+ * Dates become ISO strings (JSON.stringify rejects BigInt outright).
+ */
+export function toWebhookData(data: Record<string, unknown>): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(data, (_key, value) => (typeof value === "bigint" ? Number(value) : value)));
+}
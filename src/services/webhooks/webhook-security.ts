@@ -0,0 +1,122 @@
+// src/services/webhooks/webhook-security.ts
+/**
+ * Webhook Signing and Destination Checks
+ *
+ * Signatures: every delivery carries
+ *   X-BreederHQ-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256>
+ * where the HMAC is computed with the endpoint's secret over
+ * `${t}.${rawBody}`. Receivers recompute it, compare in constant time and
+ * reject stale timestamps to stop replays by third parties.
+ *
+ * Destinations: endpoints must be public HTTPS URLs. The URL is checked when
+ * it is saved, and the resolved addresses again before each delivery (which
+ * then connects to the checked address), so an endpoint can't be pointed at
+ * localhost or the internal network.
+ */
+
+import { randomBytes, createHmac } from "node:crypto";
+import { BlockList, isIP } from "node:net";
+
+export const WEBHOOK_SECRET_PREFIX = "whsec_";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-BreederHQ-Signature";
+
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  // IPv4-compatible (including :: and ::1) and IPv4-translated addresses
+  ["::", 96],
+  ["::ffff:0:0:0", 96],
+  // NAT64, 6to4 and Teredo carry an IPv4 address the gateway connects to
+  ["64:ff9b::", 96],
+  ["64:ff9b:1::", 48],
+  ["2001::", 32],
+  ["2002::", 16],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+const BLOCKED_HOST_SUFFIXES = [".localhost", ".local", ".internal"];
+
+export function generateWebhookSecret(): string {
+  return `${WEBHOOK_SECRET_PREFIX}${randomBytes(24).toString("hex")}`;
+}
+
+/** Hex HMAC-SHA256 of `${timestamp}.${body}` */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/** Value for the signature header; `now` is injectable for tests */
+export function webhookSignatureHeader(secret: string, body: string, now: Date = new Date()): string {
+  const timestamp = Math.floor(now.getTime() / 1000);
+  return `t=${timestamp},v1=${signWebhookPayload(secret, timestamp, body)}`;
+}
+
+/** The IPv4 address inside an IPv4-mapped IPv6 address, in dotted or hex notation */
+function mappedIPv4(address: string): string | null {
+  let normalized: string;
+  try {
+    normalized = new URL(`http://[${address}]/`).hostname.slice(1, -1);
+  } catch {
+    return null;
+  }
+  const match = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(normalized);
+  if (!match) return null;
+  const [high, low] = [parseInt(match[1], 16), parseInt(match[2], 16)];
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+}
+
+/**
+ * Loopback, private, link-local, CGNAT, multicast and reserved addresses, and
+ * IPv6 prefixes that tunnel to an embedded IPv4 address. IPv4-mapped
+ * addresses are judged by the IPv4 address they map to.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  if (family === 6) {
+    const mapped = mappedIPv4(address);
+    if (mapped) return isPrivateAddress(mapped);
+  }
+  return PRIVATE_RANGES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Problem with an endpoint URL, or null when it's acceptable.
+ * Hostnames are resolved separately at delivery time.
+ */
+export function validateWebhookUrl(raw: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return "url must be a valid absolute URL";
+  }
+  if (url.protocol !== "https:") return "url must use https";
+  if (url.username || url.password) return "url must not contain credentials";
+  if (raw.length > 2048) return "url is too long";
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  if (host === "localhost" || BLOCKED_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix))) {
+    return "url must point to a public host";
+  }
+  if (isIP(host) && isPrivateAddress(host)) return "url must point to a public host";
+  return null;
+}
@@ -0,0 +1,644 @@
+// src/services/webhooks/webhook-service.ts
+/**
+ * Outbound Webhook Service
+ *
+ * Tenants register HTTPS endpoints and subscribe them to event types
+ * (webhook-events.ts). Routes emit events next to their audit-trail and
+ * activity-log calls; each subscribed endpoint gets a WebhookDelivery row
+ * that is sent right away and, on failure, retried by the webhook-delivery
+ * job with exponential backoff (1m, 5m, 30m, 2h, 6h, 12h, 24h).
+ *
+ * - Any 2xx response is a success; redirects are not followed.
+ * - The host is resolved once per attempt; the request connects to the
+ *   address that passed the private-network check, so a DNS answer can't
+ *   change between the check and the connection.
+ * - A delivery is claimed (nextAttemptAt pushed out by a lease) before it's
+ *   sent, so the immediate send and the job never send it twice.
+ * - Endpoints are disabled after WEBHOOK_AUTO_DISABLE_FAILURES failed
+ *   attempts in a row; re-enabling resets the count. Pending deliveries of a
+ *   disabled endpoint are failed and can be replayed later.
+ * - Replays re-send the stored body under the original event id.
+ */
+
+import { randomUUID } from "node:crypto";
+import { lookup } from "node:dns/promises";
+import { request } from "node:https";
+import { isIP, type LookupFunction } from "node:net";
+import type { Prisma, WebhookDelivery, WebhookDeliveryStatus, WebhookEndpoint } from "@prisma/client";
+import prisma from "../../prisma.js";
+import { captureMessage } from "../../lib/sentry.js";
+import {
+  WEBHOOK_PING_EVENT,
+  isWebhookEventType,
+  toWebhookData,
+  type WebhookEventEnvelope,
+  type WebhookEventType,
+} from "./webhook-events.js";
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  generateWebhookSecret,
+  isPrivateAddress,
+  validateWebhookUrl,
+  webhookSignatureHeader,
+} from "./webhook-security.js";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/** Wait before retry N (after failed attempt N) */
+export const WEBHOOK_RETRY_SCHEDULE_MS = [
+  MINUTE_MS,
+  5 * MINUTE_MS,
+  30 * MINUTE_MS,
+  2 * HOUR_MS,
+  6 * HOUR_MS,
+  12 * HOUR_MS,
+  24 * HOUR_MS,
+];
+
+export const WEBHOOK_MAX_ATTEMPTS = WEBHOOK_RETRY_SCHEDULE_MS.length + 1;
+
+/** Failed attempts in a row (across deliveries) before an endpoint is disabled */
+export const WEBHOOK_AUTO_DISABLE_FAILURES = 20;
+
+export const WEBHOOK_ENDPOINTS_PER_TENANT_LIMIT = 10;
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+const CLAIM_LEASE_MS = 2 * MINUTE_MS;
+const RESPONSE_BODY_LIMIT = 2048;
+const USER_AGENT = "BreederHQ-Webhooks/1.0";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** An endpoint without its signing secret */
+export type WebhookEndpointSummary = Omit<WebhookEndpoint, "secret">;
+
+/** A delivery log row without the stored body */
+export type WebhookDeliverySummary = Omit<WebhookDelivery, "payload" | "responseBody">;
+
+export type WebhookEndpointInput = {
+  url?: string;
+  description?: string | null;
+  events?: unknown;
+  enabled?: boolean;
+};
+
+export type WebhookRetryResult = {
+  processed: number;
+  succeeded: number;
+  failed: number;
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function webhookError(message: string, statusCode: number, extra: Record<string, unknown> = {}) {
+  return Object.assign(new Error(message), { statusCode, ...extra });
+}
+
+function toSummary(endpoint: WebhookEndpoint): WebhookEndpointSummary {
+  const { secret: _secret, ...summary } = endpoint;
+  return summary;
+}
+
+const DELIVERY_SUMMARY_SELECT = {
+  id: true,
+  tenantId: true,
+  endpointId: true,
+  eventId: true,
+  eventType: true,
+  status: true,
+  attempts: true,
+  nextAttemptAt: true,
+  lastAttemptAt: true,
+  responseStatus: true,
+  error: true,
+  durationMs: true,
+  replayOfId: true,
+  deliveredAt: true,
+  createdAt: true,
+} satisfies Prisma.WebhookDeliverySelect;
+
+/**
+ * When to retry after `attempts` failed attempts, or null once the
+ * schedule is exhausted.
+ */
+export function nextWebhookAttemptAt(attempts: number, now: Date = new Date()): Date | null {
+  const delay = WEBHOOK_RETRY_SCHEDULE_MS[attempts - 1];
+  return delay === undefined ? null : new Date(now.getTime() + delay);
+}
+
+function parseEvents(events: unknown): WebhookEventType[] {
+  if (!Array.isArray(events) || events.length === 0) {
+    throw webhookError("invalid_events", 400, { details: ["events must be a non-empty list of event types"] });
+  }
+  const unknown = events.filter((e) => !isWebhookEventType(e));
+  if (unknown.length > 0) {
+    throw webhookError("invalid_events", 400, { details: unknown.map((e) => `unknown event type "${e}"`) });
+  }
+  return [...new Set(events as WebhookEventType[])];
+}
+
+function parseUrl(url: unknown): string {
+  const value = typeof url === "string" ? url.trim() : "";
+  const problem = value ? validateWebhookUrl(value) : "url is required";
+  if (problem) throw webhookError("invalid_url", 400, { details: [problem] });
+  return value;
+}
+
+function parseDescription(description: unknown): string | null {
+  if (description == null) return null;
+  if (typeof description !== "string" || description.length > 255) {
+    throw webhookError("invalid_description", 400);
+  }
+  return description.trim() || null;
+}
+
+async function findEndpoint(tenantId: number, endpointId: number): Promise<WebhookEndpoint> {
+  const endpoint = await prisma.webhookEndpoint.findFirst({ where: { id: endpointId, tenantId } });
+  if (!endpoint) throw webhookError("not_found", 404);
+  return endpoint;
+}
+
+/**
+ * Re-checks the host's current addresses (URLs were validated when saved) and
+ * returns the address to connect to.
+ */
+async function resolvePublicDestination(url: string): Promise<{ address: string; family: number }> {
+  const problem = validateWebhookUrl(url);
+  if (problem) throw new Error(problem);
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  const family = isIP(host);
+  if (family) return { address: host, family };
+  const addresses = await lookup(host, { all: true });
+  if (addresses.length === 0 || addresses.some((a) => isPrivateAddress(a.address))) {
+    throw new Error("url resolves to a private address");
+  }
+  return addresses[0];
+}
+
+/**
+ * POST to the endpoint over a connection pinned to an already checked address.
+ * TLS still verifies the certificate against the URL's hostname. Resolves with
+ * the status and the start of the response body; redirects aren't followed.
+ */
+function postToDestination(
+  url: string,
+  destination: { address: string; family: number },
+  headers: Record<string, string>,
+  body: string
+): Promise<{ status: number; body: string }> {
+  const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) callback(null, [destination]);
+    else callback(null, destination.address, destination.family);
+  };
+
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+        lookup: pinnedLookup,
+      },
+      (res) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        const finish = () => {
+          clearTimeout(timer);
+          resolve({
+            status: res.statusCode ?? 0,
+            body: Buffer.concat(chunks).toString("utf8").slice(0, RESPONSE_BODY_LIMIT),
+          });
+        };
+        res.on("data", (chunk: Buffer) => {
+          chunks.push(chunk);
+          size += chunk.length;
+          if (size >= RESPONSE_BODY_LIMIT) {
+            res.destroy();
+            finish();
+          }
+        });
+        res.on("end", finish);
+        res.on("error", finish);
+      }
+    );
+    const timer = setTimeout(
+      () => req.destroy(Object.assign(new Error("timeout"), { name: "TimeoutError" })),
+      DELIVERY_TIMEOUT_MS
+    );
+    req.on("error", (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    req.end(body);
+  });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Endpoint management
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function listWebhookEndpoints(tenantId: number): Promise<WebhookEndpointSummary[]> {
+  const endpoints = await prisma.webhookEndpoint.findMany({
+    where: { tenantId },
+    orderBy: { createdAt: "asc" },
+  });
+  return endpoints.map(toSummary);
+}
+
+export async function getWebhookEndpoint(tenantId: number, endpointId: number): Promise<WebhookEndpointSummary> {
+  return toSummary(await findEndpoint(tenantId, endpointId));
+}
+
+/**
+ * Register an endpoint. The signing secret is returned here and on rotation
+ * only.
+ */
+export async function createWebhookEndpoint(
+  tenantId: number,
+  userId: string,
+  input: WebhookEndpointInput
+): Promise<{ endpoint: WebhookEndpointSummary; secret: string }> {
+  const url = parseUrl(input.url);
+  const events = parseEvents(input.events);
+  const description = parseDescription(input.description);
+
+  const count = await prisma.webhookEndpoint.count({ where: { tenantId } });
+  if (count >= WEBHOOK_ENDPOINTS_PER_TENANT_LIMIT) {
+    throw webhookError("webhook_endpoint_limit_reached", 409, { limit: WEBHOOK_ENDPOINTS_PER_TENANT_LIMIT });
+  }
+
+  const secret = generateWebhookSecret();
+  const endpoint = await prisma.webhookEndpoint.create({
+    data: { tenantId, url, description, events, secret, createdByUserId: userId },
+  });
+  return { endpoint: toSummary(endpoint), secret };
+}
+
+/**
+ * Change an endpoint's URL, description, events or enabled flag.
+ * Re-enabling clears the failure count; disabling fails pending deliveries.
+ */
+export async function updateWebhookEndpoint(
+  tenantId: number,
+  endpointId: number,
+  input: WebhookEndpointInput
+): Promise<WebhookEndpointSummary> {
+  const existing = await findEndpoint(tenantId, endpointId);
+
+  const data: Prisma.WebhookEndpointUpdateInput = {};
+  if (input.url !== undefined) data.url = parseUrl(input.url);
+  if (input.events !== undefined) data.events = parseEvents(input.events);
+  if (input.description !== undefined) data.description = parseDescription(input.description);
+
+  if (input.enabled === true && !existing.enabled) {
+    Object.assign(data, { enabled: true, disabledAt: null, disabledReason: null, consecutiveFailures: 0 });
+  } else if (input.enabled === false && existing.enabled) {
+    return toSummary(await disableEndpoint(existing.id, "manual", data));
+  }
+
+  const updated = await prisma.webhookEndpoint.update({ where: { id: existing.id }, data });
+  return toSummary(updated);
+}
+
+export async function rotateWebhookSecret(
+  tenantId: number,
+  endpointId: number
+): Promise<{ endpoint: WebhookEndpointSummary; secret: string }> {
+  const existing = await findEndpoint(tenantId, endpointId);
+  const secret = generateWebhookSecret();
+  const updated = await prisma.webhookEndpoint.update({ where: { id: existing.id }, data: { secret } });
+  return { endpoint: toSummary(updated), secret };
+}
+
+/** Deletes the endpoint and its delivery log */
+export async function deleteWebhookEndpoint(tenantId: number, endpointId: number): Promise<void> {
+  const existing = await findEndpoint(tenantId, endpointId);
+  await prisma.webhookEndpoint.delete({ where: { id: existing.id } });
+}
+
+async function disableEndpoint(
+  endpointId: number,
+  reason: "manual" | "too_many_failures",
+  extra: Prisma.WebhookEndpointUpdateInput = {}
+): Promise<WebhookEndpoint> {
+  const [endpoint] = await prisma.$transaction([
+    prisma.webhookEndpoint.update({
+      where: { id: endpointId },
+      data: { ...extra, enabled: false, disabledAt: new Date(), disabledReason: reason },
+    }),
+    prisma.webhookDelivery.updateMany({
+      where: { endpointId, status: "pending" },
+      data: { status: "failed", nextAttemptAt: null, error: "endpoint_disabled" },
+    }),
+  ]);
+  return endpoint;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Delivery log
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function listWebhookDeliveries(
+  tenantId: number,
+  endpointId: number,
+  opts: { status?: WebhookDeliveryStatus; eventType?: string; skip: number; take: number }
+): Promise<{ items: WebhookDeliverySummary[]; total: number }> {
+  await findEndpoint(tenantId, endpointId);
+  const where: Prisma.WebhookDeliveryWhereInput = {
+    tenantId,
+    endpointId,
+    ...(opts.status && { status: opts.status }),
+    ...(opts.eventType && { eventType: opts.eventType }),
+  };
+  const [items, total] = await Promise.all([
+    prisma.webhookDelivery.findMany({
+      where,
+      select: DELIVERY_SUMMARY_SELECT,
+      orderBy: { createdAt: "desc" },
+      skip: opts.skip,
+      take: opts.take,
+    }),
+    prisma.webhookDelivery.count({ where }),
+  ]);
+  return { items, total };
+}
+
+/** A delivery with the body sent and the response received */
+export async function getWebhookDelivery(tenantId: number, deliveryId: number): Promise<WebhookDelivery> {
+  const delivery = await prisma.webhookDelivery.findFirst({ where: { id: deliveryId, tenantId } });
+  if (!delivery) throw webhookError("not_found", 404);
+  return delivery;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Emitting and delivering
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Queue an event for every enabled endpoint subscribed to it.
+ * Returns the new delivery ids.
+ */
+export async function queueWebhookEvent(
+  tenantId: number,
+  type: WebhookEventType,
+  data: Record<string, unknown>
+): Promise<number[]> {
+  const endpoints = await prisma.webhookEndpoint.findMany({
+    where: { tenantId, enabled: true, events: { array_contains: [type] } },
+    select: { id: true },
+  });
+  if (endpoints.length === 0) return [];
+
+  const now = new Date();
+  const envelope: WebhookEventEnvelope = {
+    id: randomUUID(),
+    type,
+    createdAt: now.toISOString(),
+    tenantId,
+    data: toWebhookData(data),
+  };
+  const created = await prisma.webhookDelivery.createManyAndReturn({
+    data: endpoints.map((endpoint) => ({
+      tenantId,
+      endpointId: endpoint.id,
+      eventId: envelope.id,
+      eventType: type,
+      payload: envelope as unknown as Prisma.InputJsonValue,
+      nextAttemptAt: now,
+    })),
+    select: { id: true },
+  });
+  return created.map((d) => d.id);
+}
+
+/**
+ * Emit an event and send it right away (fire-and-forget, fail-open).
+ * Failed sends are left for the webhook-delivery job to retry.
+ */
+export function emitWebhookEvent(tenantId: number, type: WebhookEventType, data: Record<string, unknown>): void {
+  (async () => {
+    const deliveryIds = await queueWebhookEvent(tenantId, type, data);
+    for (const id of deliveryIds) {
+      await attemptWebhookDelivery(id);
+    }
+  })().catch((err) => {
+    console.error(`[webhooks] Failed to emit ${type} for tenant ${tenantId}:`, err);
+  });
+}
+
+/**
+ * Emit invoice.paid once a payment has settled an invoice. Payments are
+ * recorded in several places (manual entry, Stripe checkout, Stripe
+ * invoices); each calls this after its transaction commits.
+ */
+export function emitInvoicePaidWebhook(tenantId: number, invoiceId: number): void {
+  (async () => {
+    const invoice = await prisma.invoice.findFirst({
+      where: { id: invoiceId, tenantId, status: "paid" },
+      select: {
+        id: true,
+        invoiceNumber: true,
+        amountCents: true,
+        currency: true,
+        paidAt: true,
+        clientPartyId: true,
+        breedingPlanId: true,
+        offspringId: true,
+        animalId: true,
+      },
+    });
+    if (invoice) emitWebhookEvent(tenantId, "invoice.paid", invoice);
+  })().catch((err) => {
+    console.error(`[webhooks] Failed to emit invoice.paid for invoice ${invoiceId}:`, err);
+  });
+}
+
+/**
+ * Send one due delivery and record the outcome. Returns null when the
+ * delivery isn't due or another worker claimed it first.
+ */
+export async function attemptWebhookDelivery(deliveryId: number): Promise<WebhookDelivery | null> {
+  const now = new Date();
+  const claimed = await prisma.webhookDelivery.updateMany({
+    where: { id: deliveryId, status: "pending", nextAttemptAt: { lte: now } },
+    data: { nextAttemptAt: new Date(now.getTime() + CLAIM_LEASE_MS) },
+  });
+  if (claimed.count === 0) return null;
+
+  const delivery = await prisma.webhookDelivery.findUniqueOrThrow({
+    where: { id: deliveryId },
+    include: { endpoint: true },
+  });
+  const { endpoint } = delivery;
+  if (!endpoint.enabled) {
+    return prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { status: "failed", nextAttemptAt: null, error: "endpoint_disabled" },
+    });
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const startedAt = Date.now();
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const destination = await resolvePublicDestination(endpoint.url);
+    const res = await postToDestination(
+      endpoint.url,
+      destination,
+      {
+        "Content-Type": "application/json",
+        "User-Agent": USER_AGENT,
+        "X-BreederHQ-Event": delivery.eventType,
+        "X-BreederHQ-Event-Id": delivery.eventId,
+        [WEBHOOK_SIGNATURE_HEADER]: webhookSignatureHeader(endpoint.secret, body),
+      },
+      body
+    );
+    responseStatus = res.status;
+    responseBody = res.body;
+    if (res.status < 200 || res.status > 299) error = `HTTP ${res.status}`;
+  } catch (err: any) {
+    error = err?.name === "TimeoutError" ? "timeout" : String(err?.message ?? err).slice(0, 500);
+  }
+
+  const attempts = delivery.attempts + 1;
+  const attemptedAt = new Date();
+  const durationMs = attemptedAt.getTime() - startedAt;
+  const attemptData = { attempts, lastAttemptAt: attemptedAt, responseStatus, responseBody, durationMs, error };
+
+  if (!error) {
+    const [updated] = await prisma.$transaction([
+      prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { ...attemptData, status: "succeeded", nextAttemptAt: null, deliveredAt: attemptedAt },
+      }),
+      prisma.webhookEndpoint.update({
+        where: { id: endpoint.id },
+        data: { consecutiveFailures: 0, lastSuccessAt: attemptedAt },
+      }),
+    ]);
+    return updated;
+  }
+
+  // Test pings aren't retried
+  const nextAttemptAt = delivery.eventType === WEBHOOK_PING_EVENT ? null : nextWebhookAttemptAt(attempts, attemptedAt);
+  const [updated, failedEndpoint] = await prisma.$transaction([
+    prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { ...attemptData, status: nextAttemptAt ? "pending" : "failed", nextAttemptAt },
+    }),
+    prisma.webhookEndpoint.update({
+      where: { id: endpoint.id },
+      data: { consecutiveFailures: { increment: 1 }, lastFailureAt: attemptedAt },
+    }),
+  ]);
+
+  if (failedEndpoint.enabled && failedEndpoint.consecutiveFailures >= WEBHOOK_AUTO_DISABLE_FAILURES) {
+    await disableEndpoint(endpoint.id, "too_many_failures");
+    console.warn(
+      `[webhooks] Disabled endpoint #${endpoint.id} (tenant ${endpoint.tenantId}) after ` +
+        `${failedEndpoint.consecutiveFailures} failed attempts`
+    );
+    captureMessage(`Webhook endpoint #${endpoint.id} disabled after repeated failures`, "warning", {
+      tenantId: endpoint.tenantId,
+      endpointId: endpoint.id,
+      consecutiveFailures: failedEndpoint.consecutiveFailures,
+    });
+    return prisma.webhookDelivery.findUniqueOrThrow({ where: { id: delivery.id } });
+  }
+  return updated;
+}
+
+/** Send a webhook.ping event to one endpoint now and return the result */
+export async function sendWebhookTestEvent(tenantId: number, endpointId: number): Promise<WebhookDelivery> {
+  const endpoint = await findEndpoint(tenantId, endpointId);
+  if (!endpoint.enabled) throw webhookError("endpoint_disabled", 409);
+
+  const now = new Date();
+  const envelope: WebhookEventEnvelope = {
+    id: randomUUID(),
+    type: WEBHOOK_PING_EVENT,
+    createdAt: now.toISOString(),
+    tenantId,
+    data: { endpointId: endpoint.id },
+  };
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      tenantId,
+      endpointId: endpoint.id,
+      eventId: envelope.id,
+      eventType: envelope.type,
+      payload: envelope as unknown as Prisma.InputJsonValue,
+      nextAttemptAt: now,
+    },
+  });
+  return (await attemptWebhookDelivery(delivery.id)) ?? delivery;
+}
+
+/**
+ * Re-send a logged delivery's body under the same event id, as a new
+ * delivery that is sent now and retried like any other.
+ */
+export async function replayWebhookDelivery(tenantId: number, deliveryId: number): Promise<WebhookDelivery> {
+  const original = await prisma.webhookDelivery.findFirst({
+    where: { id: deliveryId, tenantId },
+    include: { endpoint: { select: { enabled: true } } },
+  });
+  if (!original) throw webhookError("not_found", 404);
+  if (!original.endpoint.enabled) throw webhookError("endpoint_disabled", 409);
+  if (original.status === "pending") throw webhookError("delivery_pending", 409);
+
+  const replay = await prisma.webhookDelivery.create({
+    data: {
+      tenantId,
+      endpointId: original.endpointId,
+      eventId: original.eventId,
+      eventType: original.eventType,
+      payload: original.payload as Prisma.InputJsonValue,
+      replayOfId: original.id,
+      nextAttemptAt: new Date(),
+    },
+  });
+  return (await attemptWebhookDelivery(replay.id)) ?? replay;
+}
+
+/** Retry due deliveries of enabled endpoints, oldest first (used by the job) */
+export async function retryDueWebhookDeliveries(limit = 50): Promise<WebhookRetryResult> {
+  const due = await prisma.webhookDelivery.findMany({
+    where: { status: "pending", nextAttemptAt: { lte: new Date() }, endpoint: { enabled: true } },
+    select: { id: true },
+    orderBy: { nextAttemptAt: "asc" },
+    take: limit,
+  });
+
+  const result: WebhookRetryResult = { processed: 0, succeeded: 0, failed: 0 };
+  for (const { id } of due) {
+    const delivery = await attemptWebhookDelivery(id);
+    if (!delivery) continue;
+    result.processed++;
+    if (delivery.status === "succeeded") result.succeeded++;
+    else result.failed++;
+  }
+  return result;
+}
+
+/** Drop finished deliveries older than the retention window */
+export async function pruneWebhookDeliveries(retentionDays: number): Promise<number> {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * HOUR_MS);
+  const { count } = await prisma.webhookDelivery.deleteMany({
+    where: { createdAt: { lt: cutoff }, status: { not: "pending" } },
+  });
+  return count;
+}
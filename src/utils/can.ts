@@ -23,6 +23,14 @@ export function can(role: string, capability: string): boolean {
   const caps = ROLE_PERMISSIONS[role];
   if (!caps) return false;
 
+  return grants(caps, capability);
+}
+
+/**
+ * Check whether a list of granted capabilities (a role's, or an API key's
+ * scopes) covers a specific capability, using the same wildcard rules as can().
+ */
+export function grants(caps: readonly string[], capability: string): boolean {
   for (const cap of caps) {
     // Universal wildcard
     if (cap === "*") return true;
@@ -0,0 +1,139 @@
+import { z } from "zod";
+
+// ── Custom (declarative) breeding program rules ─────────────────────────────
+//
+// A custom rule's ruleType is "custom:<key>" so a breeder can keep several of
+// them per level and each one still cascades PROGRAM → PLAN → OFFSPRING on its
+// own. The rule's config holds the conditions and actions:
+//
+//   {
+//     "conditions": { "all": [
+//       { "field": "ageDays", "op": "gte", "value": 56 },
+//       { "any": [
+//         { "field": "depositStatus", "op": "eq", "value": "DEPOSIT_PAID" },
+//         { "field": "keeperIntent", "op": "in", "value": ["KEEP", "UNDER_EVALUATION"] }
+//       ] }
+//     ] },
+//     "actions": [{ "type": "unlist" }, { "type": "add_tag", "tagId": 12 }]
+//   }
+
+export const CUSTOM_RULE_TYPE_PATTERN = /^custom:[a-z0-9][a-z0-9_-]{0,79}$/;
+
+export function isCustomRuleType(ruleType: string): boolean {
+  return CUSTOM_RULE_TYPE_PATTERN.test(ruleType);
+}
+
+export const NUMERIC_CONDITION_FIELDS = ["ageDays", "photoCount", "priceCents"] as const;
+export const TEXT_CONDITION_FIELDS = [
+  "sex",
+  "color",
+  "collarColor",
+  "keeperIntent",
+  "depositStatus",
+  "planStatus",
+] as const;
+export const BOOLEAN_CONDITION_FIELDS = ["listed"] as const;
+
+export type NumericConditionField = (typeof NUMERIC_CONDITION_FIELDS)[number];
+export type TextConditionField = (typeof TEXT_CONDITION_FIELDS)[number];
+export type BooleanConditionField = (typeof BOOLEAN_CONDITION_FIELDS)[number];
+export type RuleConditionField = NumericConditionField | TextConditionField | BooleanConditionField;
+
+const numericConditionSchema = z.object({
+  field: z.enum(NUMERIC_CONDITION_FIELDS),
+  op: z.enum(["eq", "neq", "gt", "gte", "lt", "lte", "exists", "missing"]),
+  value: z.number().finite().optional(),
+}).strict();
+
+const textConditionSchema = z.object({
+  field: z.enum(TEXT_CONDITION_FIELDS),
+  op: z.enum(["eq", "neq", "in", "not_in", "exists", "missing"]),
+  value: z.union([z.string().min(1).max(100), z.array(z.string().min(1).max(100)).min(1).max(50)]).optional(),
+}).strict();
+
+const booleanConditionSchema = z.object({
+  field: z.enum(BOOLEAN_CONDITION_FIELDS),
+  op: z.enum(["eq", "neq"]),
+  value: z.boolean(),
+}).strict();
+
+export const ruleConditionSchema = z
+  .union([numericConditionSchema, textConditionSchema, booleanConditionSchema])
+  .superRefine((condition, ctx) => {
+    const { op, value } = condition as { op: string; value?: unknown };
+    if (op === "exists" || op === "missing") {
+      if (value !== undefined) ctx.addIssue({ code: "custom", message: `"${op}" takes no value`, path: ["value"] });
+      return;
+    }
+    if (value === undefined) {
+      ctx.addIssue({ code: "custom", message: `"${op}" requires a value`, path: ["value"] });
+      return;
+    }
+    const isList = op === "in" || op === "not_in";
+    if (isList !== Array.isArray(value)) {
+      ctx.addIssue({
+        code: "custom",
+        message: isList ? `"${op}" requires a list of values` : `"${op}" requires a single value`,
+        path: ["value"],
+      });
+    }
+  });
+
+export type RuleCondition = z.infer<typeof ruleConditionSchema>;
+
+export type RuleConditionNode =
+  | RuleCondition
+  | { all: RuleConditionNode[] }
+  | { any: RuleConditionNode[] };
+
+export const ruleConditionNodeSchema: z.ZodType<RuleConditionNode> = z.lazy(() =>
+  z.union([
+    z.object({ all: z.array(ruleConditionNodeSchema).min(1).max(50) }).strict(),
+    z.object({ any: z.array(ruleConditionNodeSchema).min(1).max(50) }).strict(),
+    ruleConditionSchema,
+  ])
+);
+
+export const ruleActionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("set_price"),
+    priceCents: z.number().int().nonnegative(),
+    onlyIfUnset: z.boolean().optional(),
+  }).strict(),
+  z.object({ type: z.literal("list") }).strict(),
+  z.object({ type: z.literal("unlist") }).strict(),
+  z.object({ type: z.literal("add_tag"), tagId: z.number().int().positive() }).strict(),
+  z.object({ type: z.literal("send_email"), templateId: z.number().int().positive() }).strict(),
+  z.object({
+    type: z.literal("create_task"),
+    title: z.string().min(1).max(200),
+    notes: z.string().max(2000).optional(),
+    dueInDays: z.number().int().min(0).max(365).optional(),
+    assignedToUserId: z.string().min(1).optional(),
+  }).strict(),
+]);
+
+export type RuleAction = z.infer<typeof ruleActionSchema>;
+
+/** Actions that run once per offspring per rule rather than converging on state */
+export const ONE_SHOT_RULE_ACTIONS: ReadonlyArray<RuleAction["type"]> = ["send_email", "create_task"];
+
+export const customRuleConfigSchema = z.object({
+  conditions: ruleConditionNodeSchema.optional(),
+  actions: z.array(ruleActionSchema).min(1).max(20),
+}).strict();
+
+export type CustomRuleConfig = z.infer<typeof customRuleConfigSchema>;
+
+/**
+ * Validate a custom rule config, returning flat { path, message } issues
+ * (empty when valid). Condition trees nest too deeply for flatten().
+ */
+export function validateCustomRuleConfig(config: unknown): Array<{ path: string; message: string }> {
+  const parsed = customRuleConfigSchema.safeParse(config);
+  if (parsed.success) return [];
+  return parsed.error.issues.map((issue) => ({
+    path: issue.path.map(String).join("."),
+    message: issue.message,
+  }));
+}
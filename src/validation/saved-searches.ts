@@ -0,0 +1,53 @@
+import { z } from "zod";
+
+// ── Filters ─────────────────────────────────────────────────────────────────
+
+export const savedSearchFiltersSchema = z
+  .object({
+    search: z.string().trim().min(1).max(200).optional(),
+    category: z.string().trim().min(1).max(100).optional(),
+    species: z.enum(["DOG", "CAT", "HORSE", "GOAT", "RABBIT", "SHEEP", "CATTLE", "PIG", "ALPACA", "LLAMA"]).optional(),
+    breed: z.string().trim().min(1).max(100).optional(),
+    sex: z.enum(["FEMALE", "MALE"]).optional(),
+    intent: z.enum(["OFFERING", "SEEKING", "LEASE", "ARRANGEMENT"]).optional(),
+    priceMinCents: z.number().int().nonnegative().optional(),
+    priceMaxCents: z.number().int().nonnegative().optional(),
+    near: z.string().trim().min(1).max(40).optional(),
+    radiusMiles: z.number().positive().max(500).optional(),
+    breederSlug: z.string().trim().min(1).max(100).optional(),
+    programId: z.number().int().positive().optional(),
+  })
+  .strict()
+  .refine(
+    (f) => f.priceMinCents === undefined || f.priceMaxCents === undefined || f.priceMinCents <= f.priceMaxCents,
+    { message: "priceMinCents must not exceed priceMaxCents", path: ["priceMinCents"] }
+  )
+  .refine((f) => f.radiusMiles === undefined || f.near !== undefined, {
+    message: "radiusMiles requires near",
+    path: ["radiusMiles"],
+  });
+
+export type SavedSearchFilters = z.infer<typeof savedSearchFiltersSchema>;
+
+// ── MarketplaceSavedSearch ──────────────────────────────────────────────────
+
+export const savedSearchTargetSchema = z.enum(["SERVICE_LISTING", "ANIMAL_LISTING", "BREEDING_LISTING"]);
+export const savedSearchFrequencySchema = z.enum(["INSTANT", "DAILY", "WEEKLY", "OFF"]);
+
+export const savedSearchCreateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  target: savedSearchTargetSchema,
+  filters: savedSearchFiltersSchema.default({}),
+  frequency: savedSearchFrequencySchema.optional(),
+  emailEnabled: z.boolean().optional(),
+  pushEnabled: z.boolean().optional(),
+});
+
+// target is fixed once saved; omitted filters are left unchanged
+export const savedSearchUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  filters: savedSearchFiltersSchema.optional(),
+  frequency: savedSearchFrequencySchema.optional(),
+  emailEnabled: z.boolean().optional(),
+  pushEnabled: z.boolean().optional(),
+});
@@ -0,0 +1,241 @@
+/**
+ * Unit Tests for Accounting Export
+ *
+ * Tests the chart-of-accounts posting lines and the QuickBooks IIF and Xero
+ * CSV files built from a normalized batch, without a database.
+ *
+ * Run: npx tsx --test tests/unit/accounting-export.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { DEFAULT_ACCOUNTING_SETTINGS } from "../../src/services/accounting/accounting-settings.js";
+import { formatAmount, formatDate, invoicePostingLines } from "../../src/services/accounting/providers/format.js";
+import { quickbooksIifProvider } from "../../src/services/accounting/providers/quickbooks-iif.js";
+import { xeroCsvProvider } from "../../src/services/accounting/providers/xero-csv.js";
+import type { AccountingBatch, AccountingInvoice } from "../../src/services/accounting/types.js";
+
+const settings = DEFAULT_ACCOUNTING_SETTINGS;
+
+const invoice: AccountingInvoice = {
+  id: 7,
+  number: "INV-2026-0007",
+  category: "GOODS",
+  currency: "USD",
+  customerName: "Jane Doe",
+  customerEmail: "jane@example.com",
+  issuedAt: new Date("2026-03-05T00:00:00Z"),
+  dueAt: new Date("2026-04-04T00:00:00Z"),
+  totalCents: 262500,
+  lines: [
+    {
+      description: "Puppy, red female",
+      kind: "GOODS",
+      quantity: 1,
+      unitCents: 250000,
+      discountCents: 0,
+      totalCents: 250000,
+      itemCode: "PUP",
+    },
+    {
+      description: "Sales tax",
+      kind: "TAX",
+      quantity: 1,
+      unitCents: 12500,
+      discountCents: 0,
+      totalCents: 12500,
+      itemCode: null,
+    },
+  ],
+  externalId: null,
+};
+
+const batch: AccountingBatch = {
+  invoices: [invoice],
+  payments: [
+    {
+      id: 31,
+      invoiceId: 7,
+      invoiceNumber: "INV-2026-0007",
+      customerName: "Jane Doe",
+      currency: "USD",
+      receivedAt: new Date("2026-03-10T00:00:00Z"),
+      amountCents: 50000,
+      refund: false,
+      method: "card",
+      reference: "ch_123",
+      externalId: null,
+    },
+  ],
+  expenses: [
+    {
+      id: 12,
+      category: "VET",
+      currency: "USD",
+      incurredAt: new Date("2026-03-02T00:00:00Z"),
+      amountCents: 18999,
+      vendorName: "Valley Vet, Inc.",
+      description: "Litter exam",
+      externalId: null,
+    },
+  ],
+};
+
+test("Accounting Formatting", async (t) => {
+  await t.test("formats amounts and dates", () => {
+    assert.strictEqual(formatAmount(262500), "2625.00");
+    assert.strictEqual(formatAmount(-1250), "-12.50");
+    assert.strictEqual(formatAmount(5), "0.05");
+    const date = new Date("2026-03-05T00:00:00Z");
+    assert.strictEqual(formatDate(date, "MM/DD/YYYY"), "03/05/2026");
+    assert.strictEqual(formatDate(date, "DD/MM/YYYY"), "05/03/2026");
+  });
+
+  await t.test("posts lines to the category's income account and tax to sales tax", () => {
+    const lines = invoicePostingLines(invoice, settings);
+    assert.deepStrictEqual(
+      lines.map((l) => [l.account, l.totalCents]),
+      [
+        ["Sales", 250000],
+        ["Sales Tax Payable", 12500],
+      ]
+    );
+  });
+
+  await t.test("balances an invoice whose lines don't add up to its total", () => {
+    const lines = invoicePostingLines({ ...invoice, totalCents: 300000 }, settings);
+    assert.strictEqual(lines.length, 3);
+    assert.deepStrictEqual(lines[2], {
+      account: "Sales",
+      description: "Adjustment",
+      quantity: 1,
+      unitCents: 37500,
+      totalCents: 37500,
+      itemCode: null,
+    });
+
+    const bare = invoicePostingLines({ ...invoice, lines: [] }, settings);
+    assert.strictEqual(bare.length, 1);
+    assert.strictEqual(bare[0].description, "Invoice INV-2026-0007");
+    assert.strictEqual(bare[0].totalCents, 262500);
+  });
+});
+
+test("QuickBooks IIF Provider", async (t) => {
+  await t.test("writes balanced transactions for every record", async () => {
+    const { results, files } = await quickbooksIifProvider.sync(batch, settings);
+
+    assert.deepStrictEqual(
+      results.map((r) => [r.type, r.id, r.status, r.externalId]),
+      [
+        ["invoice", 7, "synced", "INV-2026-0007"],
+        ["payment", 31, "synced", "PMT-31"],
+        ["expense", 12, "synced", "EXP-12"],
+      ]
+    );
+    assert.strictEqual(files.length, 1);
+    assert.strictEqual(files[0].name, "quickbooks-transactions.iif");
+
+    const rows = files[0].content.trimEnd().split("\r\n").map((r) => r.split("\t"));
+    assert.deepStrictEqual(rows.slice(0, 3).map((r) => r[0]), ["!TRNS", "!SPL", "!ENDTRNS"]);
+
+    // Every transaction's amounts sum to zero
+    let sum = 0;
+    let transactions = 0;
+    for (const row of rows.slice(3)) {
+      if (row[0] === "ENDTRNS") {
+        assert.strictEqual(Math.round(sum * 100), 0);
+        sum = 0;
+        transactions++;
+      } else {
+        sum += Number(row[6]);
+      }
+    }
+    assert.strictEqual(transactions, 3);
+
+    const invoiceRow = rows[3];
+    assert.deepStrictEqual(invoiceRow.slice(0, 8), [
+      "TRNS", "", "INVOICE", "03/05/2026", "Accounts Receivable", "Jane Doe", "2625.00", "INV-2026-0007",
+    ]);
+    const checkSplit = rows.find((r) => r[0] === "SPL" && r[2] === "CHECK");
+    assert.strictEqual(checkSplit?.[4], "Veterinary");
+    assert.strictEqual(checkSplit?.[6], "189.99");
+  });
+
+  await t.test("writes refunds as checks back to the customer", async () => {
+    const refund = { ...batch.payments[0], id: 32, amountCents: 20000, refund: true, reference: null };
+    const { results, files } = await quickbooksIifProvider.sync({ invoices: [], payments: [refund], expenses: [] }, settings);
+
+    assert.deepStrictEqual(results.map((r) => r.externalId), ["RFD-32"]);
+    const rows = files[0].content.trimEnd().split("\r\n").map((r) => r.split("\t"));
+    assert.deepStrictEqual(rows[3].slice(2, 8), ["CHECK", "03/10/2026", "Undeposited Funds", "Jane Doe", "-200.00", "RFD-32"]);
+    assert.deepStrictEqual(rows[4].slice(4, 7), ["Accounts Receivable", "Jane Doe", "200.00"]);
+    assert.strictEqual(rows[3][8], "Refund for invoice INV-2026-0007 - card");
+  });
+
+  await t.test("returns no file for an empty batch", async () => {
+    const output = await quickbooksIifProvider.sync({ invoices: [], payments: [], expenses: [] }, settings);
+    assert.deepStrictEqual(output, { results: [], files: [] });
+  });
+});
+
+test("Xero CSV Provider", async (t) => {
+  await t.test("writes invoice, bill and bank statement files", async () => {
+    const xeroSettings = {
+      ...settings,
+      invoiceAccounts: { ...settings.invoiceAccounts, GOODS: "200" },
+      expenseAccounts: { ...settings.expenseAccounts, VET: "429" },
+      salesTaxAccount: "820",
+      dateFormat: "DD/MM/YYYY" as const,
+    };
+    const { results, files } = await xeroCsvProvider.sync(batch, xeroSettings);
+
+    assert.strictEqual(results.length, 3);
+    assert.deepStrictEqual(
+      files.map((f) => f.name),
+      ["xero-sales-invoices.csv", "xero-bills.csv", "xero-payments.csv"]
+    );
+
+    const [invoices, bills, payments] = files.map((f) => f.content.trimEnd().split("\r\n"));
+    assert.strictEqual(invoices.length, 3);
+    assert.ok(invoices[0].startsWith("*ContactName,EmailAddress,*InvoiceNumber"));
+    assert.strictEqual(
+      invoices[1],
+      "Jane Doe,jane@example.com,INV-2026-0007,05/03/2026,04/04/2026,PUP,\"Puppy, red female\",1,2500.00,200,Tax Exempt,USD"
+    );
+    assert.ok(invoices[2].includes(",820,"));
+
+    assert.strictEqual(bills[1], "\"Valley Vet, Inc.\",EXP-12,02/03/2026,02/03/2026,Litter exam,1,189.99,429,Tax Exempt,USD");
+    assert.strictEqual(payments[1], "10/03/2026,500.00,Jane Doe,Payment for invoice INV-2026-0007 - card,INV-2026-0007");
+
+    const refund = { ...batch.payments[0], id: 32, amountCents: 20000, refund: true };
+    const refunds = await xeroCsvProvider.sync({ invoices: [], payments: [refund], expenses: [] }, xeroSettings);
+    assert.strictEqual(refunds.results[0].externalId, "RFD-32");
+    assert.strictEqual(
+      refunds.files[0].content.trimEnd().split("\r\n")[1],
+      "10/03/2026,-200.00,Jane Doe,Refund for invoice INV-2026-0007 - card,INV-2026-0007"
+    );
+  });
+
+  await t.test("posts discounted lines as a single unit at the line total", async () => {
+    const discounted: AccountingInvoice = {
+      ...invoice,
+      totalCents: 45000,
+      lines: [
+        {
+          description: "Stud fee",
+          kind: "SERVICE",
+          quantity: 2,
+          unitCents: 25000,
+          discountCents: 5000,
+          totalCents: 45000,
+          itemCode: null,
+        },
+      ],
+    };
+    const { files } = await xeroCsvProvider.sync({ invoices: [discounted], payments: [], expenses: [] }, settings);
+    const row = files[0].content.split("\r\n")[1].split(",");
+    assert.strictEqual(row[7], "1");
+    assert.strictEqual(row[8], "450.00");
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Unit Tests for API Key Scopes
+ *
+ * Covers key format, scope validation against the creator's role and the
+ * route → capability mapping used by the API key auth middleware.
+ *
+ * Run: npx tsx --test tests/unit/api-keys.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import {
+  generateApiKey,
+  isApiKeyToken,
+  validateApiKeyScopes,
+} from "../../src/services/api-key-service.js";
+import { apiKeyCapabilityFor, isApiKeyAuthorization } from "../../src/middleware/api-key-auth.js";
+
+test("generated keys match the key format and carry their prefix", () => {
+  const { key, prefix, keyHash } = generateApiKey();
+  assert.ok(isApiKeyToken(key));
+  assert.ok(key.startsWith(`${prefix}_`));
+  assert.match(keyHash, /^[0-9a-f]{64}$/);
+  assert.ok(isApiKeyAuthorization(`Bearer ${key}`));
+  assert.ok(!isApiKeyToken("bhq_deadbeef_short"));
+});
+
+test("scopes must exist and be grantable by the creator's role", () => {
+  assert.deepStrictEqual(validateApiKeyScopes(["animals.view", "breeding.*"], "MANAGER"), []);
+  assert.deepStrictEqual(validateApiKeyScopes(["*"], "OWNER"), []);
+  assert.deepStrictEqual(validateApiKeyScopes(["*"], null), []);
+
+  assert.strictEqual(validateApiKeyScopes([], "OWNER").length, 1);
+  assert.match(validateApiKeyScopes(["kennels.view"], "OWNER")[0], /unknown scope/);
+  assert.match(validateApiKeyScopes(["finance.*"], "MANAGER")[0], /cannot grant/);
+  assert.match(validateApiKeyScopes(["animals.edit"], "VIEWER")[0], /cannot grant/);
+});
+
+test("routes map to view/edit/delete capabilities by method", () => {
+  assert.strictEqual(apiKeyCapabilityFor("GET", "/api/v1/animals?limit=10"), "animals.view");
+  assert.strictEqual(apiKeyCapabilityFor("PATCH", "/api/v1/animals/12"), "animals.edit");
+  assert.strictEqual(apiKeyCapabilityFor("DELETE", "/api/v1/contacts/4"), "contacts.delete");
+  assert.strictEqual(apiKeyCapabilityFor("POST", "/api/v1/medications/3/doses"), "health.record");
+  assert.strictEqual(apiKeyCapabilityFor("GET", "/api/v1/breeding/plans"), "breeding.view");
+});
+
+test("session-only routes are not reachable with a key", () => {
+  assert.strictEqual(apiKeyCapabilityFor("GET", "/api/v1/api-keys"), null);
+  assert.strictEqual(apiKeyCapabilityFor("POST", "/api/v1/staff/invite"), null);
+  assert.strictEqual(apiKeyCapabilityFor("GET", "/api/v1/admin/jobs"), null);
+  assert.strictEqual(apiKeyCapabilityFor("GET", "/api/v1/animalsx"), null);
+});
@@ -0,0 +1,83 @@
+/**
+ * Unit Tests for iCalendar Subscription Feeds
+ *
+ * Covers PUBLISH calendar rendering (all-day vs timed events, escaping, line
+ * folding), category parsing and milestone labels.
+ *
+ * Run: npx tsx --test tests/unit/calendar-feeds.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { generateIcsFeed } from "../../src/services/ics-generator.js";
+import {
+  CALENDAR_FEED_CATEGORIES,
+  isCalendarFeedToken,
+  milestoneLabel,
+  parseFeedCategories,
+} from "../../src/services/calendar-feed-service.js";
+
+test("feed renders all-day and timed events with stable UIDs", () => {
+  const ics = generateIcsFeed("Oak Ridge – Breeding", [
+    {
+      uid: "heat-animal-12@breederhq.com",
+      summary: "Expected heat: Bella",
+      start: new Date("2026-11-03T00:00:00.000Z"),
+      allDay: true,
+      categories: ["Heats"],
+    },
+    {
+      uid: "booking-4-99@breederhq.com",
+      summary: "Visit; meet the litter",
+      start: new Date("2026-11-05T15:00:00.000Z"),
+      end: new Date("2026-11-05T16:30:00.000Z"),
+      allDay: false,
+      location: "Barn, Door 2",
+    },
+  ]);
+
+  const lines = ics.split("\r\n");
+  assert.ok(lines.includes("METHOD:PUBLISH"));
+  assert.ok(lines.includes("X-WR-CALNAME:Oak Ridge – Breeding"));
+  assert.ok(lines.includes("UID:heat-animal-12@breederhq.com"));
+  assert.ok(lines.includes("DTSTART;VALUE=DATE:20261103"));
+  assert.ok(lines.includes("DTEND;VALUE=DATE:20261104"));
+  assert.ok(lines.includes("DTSTART:20261105T150000Z"));
+  assert.ok(lines.includes("DTEND:20261105T163000Z"));
+  assert.ok(lines.includes("SUMMARY:Visit\\; meet the litter"));
+  assert.ok(lines.includes("LOCATION:Barn\\, Door 2"));
+  assert.strictEqual(lines.filter((l) => l === "BEGIN:VEVENT").length, 2);
+});
+
+test("long lines are folded to 75 octets", () => {
+  const ics = generateIcsFeed("Feed", [
+    {
+      uid: "milestone-1@breederhq.com",
+      summary: "x",
+      description: "é".repeat(100),
+      start: new Date("2026-11-03T00:00:00.000Z"),
+      allDay: true,
+    },
+  ]);
+
+  const lines = ics.split("\r\n");
+  assert.ok(lines.every((l) => Buffer.byteLength(l, "utf8") <= 75));
+  const start = lines.findIndex((l) => l.startsWith("DESCRIPTION:"));
+  let unfolded = lines[start];
+  for (let i = start + 1; lines[i].startsWith(" "); i++) unfolded += lines[i].slice(1);
+  assert.strictEqual(unfolded, `DESCRIPTION:${"é".repeat(100)}`);
+});
+
+test("categories default to all and reject unknown values", () => {
+  assert.deepStrictEqual(parseFeedCategories(undefined), [...CALENDAR_FEED_CATEGORIES]);
+  assert.deepStrictEqual(parseFeedCategories(["heats", "heats", "bookings"]), ["heats", "bookings"]);
+  assert.strictEqual(parseFeedCategories([]), null);
+  assert.strictEqual(parseFeedCategories(["heats", "litters"]), null);
+});
+
+test("milestone types get readable labels", () => {
+  assert.strictEqual(milestoneLabel("VET_ULTRASOUND_45D"), "Vet ultrasound (day 45)");
+  assert.strictEqual(milestoneLabel("TEMPERATURE_DROP"), "Temperature drop");
+  assert.ok(isCalendarFeedToken("A".repeat(43)));
+  assert.ok(!isCalendarFeedToken("../etc/passwd"));
+});
@@ -0,0 +1,92 @@
+/**
+ * Unit Tests for Contract Integrity
+ *
+ * Covers content/completion hashing and the reproducible certificate of
+ * completion PDF that public verification relies on.
+ *
+ * Run: npx tsx --test tests/unit/contract-integrity.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { PDFDocument } from "pdf-lib";
+import {
+  computeCompletionHash,
+  hashContractContent,
+  sha256Hex,
+  type CompletionSigner,
+} from "../../src/services/contracts/contract-integrity.js";
+import { generateContractPdfBuffer } from "../../src/services/contracts/pdf-generator/contract-pdf-builder.js";
+import { createAuditFooter, formatAuditFooterText } from "../../src/services/contracts/pdf-generator/audit-footer.js";
+
+const signers: CompletionSigner[] = [
+  {
+    contractPartyId: 2,
+    name: "Jane Buyer",
+    email: "jane@example.com",
+    signedAt: "2026-10-01T15:00:00.000Z",
+    ipAddress: "203.0.113.7",
+    userAgent: "Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) AppleWebKit/605.1.15 Safari/605.1.15",
+    signatureHash: null,
+  },
+  {
+    contractPartyId: 1,
+    name: "Oak Ridge Kennels",
+    email: "breeder@example.com",
+    signedAt: "2026-10-01T14:00:00.000Z",
+    ipAddress: "198.51.100.2",
+    userAgent: "Mozilla/5.0 (Windows NT 10.0) Chrome/129.0",
+    signatureHash: "ab".repeat(32),
+  },
+];
+
+test("content hash changes with any edit to the rendered text", () => {
+  const original = hashContractContent("<p>Deposit: $500</p>");
+  assert.match(original, /^[0-9a-f]{64}$/);
+  assert.strictEqual(hashContractContent("<p>Deposit: $500</p>"), original);
+  assert.notStrictEqual(hashContractContent("<p>Deposit: $5000</p>"), original);
+});
+
+test("completion hash is independent of signer order and binds every field", () => {
+  const contentHash = hashContractContent("<p>terms</p>");
+  const hash = computeCompletionHash(7, contentHash, signers);
+  assert.strictEqual(computeCompletionHash(7, contentHash, [...signers].reverse()), hash);
+  assert.notStrictEqual(computeCompletionHash(8, contentHash, signers), hash);
+  assert.notStrictEqual(
+    computeCompletionHash(7, contentHash, [{ ...signers[0], ipAddress: "203.0.113.8" }, signers[1]]),
+    hash
+  );
+});
+
+test("certificate lists signers and hashes and renders reproducibly", async () => {
+  const signedAt = new Date("2026-10-01T15:00:00.000Z");
+  const integrity = {
+    contentHash: "c".repeat(64),
+    completionHash: "f".repeat(64),
+    signers: signers.map((s) => ({
+      name: s.name!,
+      email: s.email!,
+      signedAt: new Date(s.signedAt),
+      ipAddress: s.ipAddress!,
+      userAgent: s.userAgent!,
+    })),
+  };
+  const audit = createAuditFooter(7, "Puppy Sale Agreement", [], integrity, signedAt);
+
+  const text = formatAuditFooterText(audit);
+  assert.ok(text.includes("Jane Buyer <jane@example.com>"));
+  assert.ok(text.includes("IP address: 203.0.113.7"));
+  assert.ok(text.includes(`Completion hash:  ${"f".repeat(64)}`));
+
+  const render = () =>
+    generateContractPdfBuffer("Puppy Sale Agreement", "<p>terms</p>", [], audit, undefined, {
+      date: signedAt,
+      keywords: ["bhq-contract:7", `bhq-completion-hash:${"f".repeat(64)}`],
+    });
+  const first = await render();
+  const second = await render();
+  assert.strictEqual(sha256Hex(first), sha256Hex(second));
+
+  const doc = await PDFDocument.load(first, { updateMetadata: false });
+  assert.ok(doc.getKeywords()?.includes("bhq-contract:7"));
+});
@@ -2,7 +2,9 @@
  * Unit Tests for CSV Import Library
  *
  * Tests the CSV parser and validation logic without requiring
- * a running server or database.
+ * a running server or database. Also covers the spreadsheet reader
+ * (CSV/TSV/XLSX) and schema-driven mapping and validation used by the
+ * contact, offspring, vaccination and weight imports.
  *
  * Run: npx tsx --test tests/unit/csv-import.test.ts
  */
@@ -11,6 +13,57 @@ import { test } from "node:test";
 import assert from "node:assert";
 import { parseAnimalCSV } from "../../src/lib/csv-import/parser.js";
 import { generateAnimalCsvTemplate, ANIMAL_CSV_HEADERS } from "../../src/lib/csv-import/template.js";
+import {
+  CONTACT_IMPORT_SCHEMA,
+  generateImportCsvTemplate,
+  NEONATAL_WEIGHT_IMPORT_SCHEMA,
+  readSpreadsheet,
+  readXlsxRows,
+  suggestColumnMapping,
+  checkColumnMapping,
+  toOunces,
+  validateImportRows,
+  VACCINATION_IMPORT_SCHEMA,
+} from "../../src/lib/csv-import/index.js";
+
+/** Minimal zip (stored, no compression) for building .xlsx fixtures */
+function buildZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBuf = Buffer.from(name);
+    const data = Buffer.from(content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBuf.length, 26);
+    locals.push(local, nameBuf, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBuf.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBuf);
+
+    offset += 30 + nameBuf.length + data.length;
+  }
+
+  const centralDir = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDir.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, centralDir, end]);
+}
 
 test("CSV Parser - Valid Data", async (t) => {
   await t.test("should parse valid CSV with 2 animals", () => {
@@ -289,4 +342,164 @@ test("CSV Parser - Performance", async (t) => {
   });
 });
 
+test("Spreadsheet Reader", async (t) => {
+  await t.test("should read semicolon CSV with quoted multi-line fields and keep spreadsheet row numbers", () => {
+    const csv = 'First Name;Last Name;Notes\nJane;Doe;"Line one\nline two"\n\n;;\nJohn;"O""Neil";\n';
+    const sheet = readSpreadsheet(Buffer.from(csv));
+
+    assert.strictEqual(sheet.format, "csv");
+    assert.deepStrictEqual(sheet.headers, ["First Name", "Last Name", "Notes"]);
+    assert.deepStrictEqual(sheet.rows.map((r) => r.rowNumber), [2, 5]);
+    assert.strictEqual(sheet.rows[0].cells[2], "Line one\nline two");
+    assert.deepStrictEqual(sheet.rows[1].cells, ["John", "O\"Neil", ""]);
+  });
+
+  await t.test("should read the first worksheet of an xlsx workbook", () => {
+    const xlsx = buildZip({
+      "xl/workbook.xml": '<workbook><sheets><sheet name="Shots" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      "xl/_rels/workbook.xml.rels":
+        '<Relationships><Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/></Relationships>',
+      "xl/sharedStrings.xml": "<sst><si><t>Animal Name</t></si><si><t>Vaccine</t></si><si><r><t>Bel</t></r><r><t>la</t></r></si></sst>",
+      "xl/styles.xml": '<styleSheet><cellXfs count="2"><xf numFmtId="0"/><xf numFmtId="14"/></cellXfs></styleSheet>',
+      "xl/worksheets/sheet1.xml": [
+        "<worksheet><sheetData>",
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="inlineStr"><is><t>Date Given</t></is></c></row>',
+        '<row r="2"/>',
+        '<row r="3"><c r="A3" t="s"><v>2</v></c><c r="B3" t="inlineStr"><is><t>Rabies</t></is></c><c r="C3" s="1"><v>46096</v></c></row>',
+        "</sheetData></worksheet>",
+      ].join(""),
+    });
+
+    const sheet = readSpreadsheet(xlsx);
+    assert.strictEqual(sheet.format, "xlsx");
+    assert.deepStrictEqual(sheet.headers, ["Animal Name", "Vaccine", "Date Given"]);
+    assert.deepStrictEqual(sheet.rows, [{ rowNumber: 3, cells: ["Bella", "Rabies", "2026-03-15"] }]);
+  });
+
+  await t.test("should reject out-of-range cells and stop past the row limit", () => {
+    const workbook = (rows: string) =>
+      buildZip({
+        "xl/workbook.xml": '<workbook><sheets><sheet name="Sheet1" sheetId="1"/></sheets></workbook>',
+        "xl/worksheets/sheet1.xml": `<worksheet><sheetData>${rows}</sheetData></worksheet>`,
+      });
+    const cell = (ref: string, text: string) => `<c r="${ref}" t="inlineStr"><is><t>${text}</t></is></c>`;
+
+    assert.throws(() => readSpreadsheet(workbook(`<row r="1048577">${cell("A1048577", "x")}</row>`)), /out of range/);
+    assert.throws(() => readSpreadsheet(workbook(`<row r="1">${cell("XFE1", "x")}</row>`)), /out of range/);
+
+    const rows = Array.from({ length: 10 }, (_, i) => `<row r="${i + 1}">${cell(`A${i + 1}`, `Row ${i + 1}`)}</row>`);
+    const sheet = readSpreadsheet(workbook(rows.join("")), { maxRows: 3 });
+    // Header plus one row past the limit
+    assert.deepStrictEqual(sheet.rows.map((r) => r.rowNumber), [2, 3, 4, 5]);
+  });
+
+  await t.test("should keep far-right empty cells and distant rows sparse", () => {
+    const workbook = (rows: string) =>
+      buildZip({
+        "xl/workbook.xml": '<workbook><sheets><sheet name="Sheet1" sheetId="1"/></sheets></workbook>',
+        "xl/worksheets/sheet1.xml": `<worksheet><sheetData>${rows}</sheetData></worksheet>`,
+      });
+    const cell = (ref: string, text: string) => `<c r="${ref}" t="inlineStr"><is><t>${text}</t></is></c>`;
+    const rows = [
+      `<row r="1">${cell("A1", "Name")}${cell("B1", "Breed")}<c r="XFD1"/></row>`,
+      `<row r="2"><c r="XFD2"/></row>`,
+      `<row r="3">${cell("A3", "Bella")}${cell("XFC3", "stray")}</row>`,
+      `<row r="1000000">${cell("A1000000", "Max")}${cell("B1000000", "Lab")}</row>`,
+    ].join("");
+
+    const raw = readXlsxRows(workbook(rows));
+    assert.deepStrictEqual(raw, [
+      { rowNumber: 1, cells: ["Name", "Breed"] },
+      { rowNumber: 3, cells: ["Bella"] },
+      { rowNumber: 1000000, cells: ["Max", "Lab"] },
+    ]);
+
+    const sheet = readSpreadsheet(workbook(rows));
+    assert.deepStrictEqual(sheet.rows.map((r) => r.rowNumber), [3, 1000000]);
+    assert.throws(() => readSpreadsheet(workbook(rows), { maxRows: 10 }), /Row number out of range: 1000000/);
+  });
+});
+
+test("Schema-driven Import Validation", async (t) => {
+  await t.test("should suggest mappings from aliases and prefer saved mappings", () => {
+    const headers = ["Given Name", "Surname", "E-mail", "Company", "Postcode", "Cell"];
+    const mapping = suggestColumnMapping(headers, CONTACT_IMPORT_SCHEMA);
+
+    assert.strictEqual(mapping.firstName, "Given Name");
+    assert.strictEqual(mapping.lastName, "Surname");
+    assert.strictEqual(mapping.email, "E-mail");
+    assert.strictEqual(mapping.organization, "Company");
+    assert.strictEqual(mapping.zip, "Postcode");
+    assert.strictEqual(mapping.phone, "Cell");
+    assert.strictEqual(mapping.country, null);
+
+    const saved = suggestColumnMapping(headers, CONTACT_IMPORT_SCHEMA, { phone: "Company", email: "Missing" });
+    assert.strictEqual(saved.phone, "Company");
+    assert.strictEqual(saved.organization, null);
+    assert.strictEqual(saved.email, "E-mail");
+
+    assert.deepStrictEqual(checkColumnMapping(headers, CONTACT_IMPORT_SCHEMA, { firstName: "Given Name" }), [
+      "Last Name must be mapped to a column",
+    ]);
+  });
+
+  await t.test("should normalize values and report row errors", () => {
+    const sheet = {
+      headers: ["Dog", "Chip", "Vaccine", "Date", "Next Due"],
+      rows: [
+        { rowNumber: 2, cells: ["Bella", "", "Rabies", "3/15/2026", "03/15/2029"] },
+        { rowNumber: 3, cells: ["", "", "DHPP", "2026-02-30", ""] },
+        { rowNumber: 4, cells: ["Duke", "", "DHPP", "2026-04-01", "2026-01-01"] },
+      ],
+    };
+    const mapping = suggestColumnMapping(sheet.headers, VACCINATION_IMPORT_SCHEMA);
+    assert.strictEqual(mapping.expiresAt, "Next Due");
+
+    const rows = validateImportRows(sheet, VACCINATION_IMPORT_SCHEMA, mapping);
+    assert.strictEqual(rows[0].status, "valid");
+    assert.strictEqual(rows[0].values.administeredAt, "2026-03-15");
+    assert.strictEqual(rows[0].values.expiresAt, "2029-03-15");
+
+    assert.strictEqual(rows[1].status, "error");
+    assert.ok(rows[1].errors?.some((e) => e.includes("Date Given '2026-02-30' is invalid")));
+
+    assert.deepStrictEqual(rows[2].errors, ["Expires cannot be before Date Given"]);
+  });
+
+  await t.test("should parse weigh-in times, units and decimal commas", () => {
+    const sheet = {
+      headers: ["Puppy", "Date/Time", "Weight", "Unit"],
+      rows: [
+        { rowNumber: 2, cells: ["Blue", "2026-09-02 8:30 pm", "412,5", "grams"] },
+        { rowNumber: 3, cells: ["Red", "9/2/2026 25:00", "14", "stone"] },
+      ],
+    };
+    const rows = validateImportRows(
+      sheet,
+      NEONATAL_WEIGHT_IMPORT_SCHEMA,
+      suggestColumnMapping(sheet.headers, NEONATAL_WEIGHT_IMPORT_SCHEMA)
+    );
+
+    assert.deepStrictEqual(rows[0].values, {
+      offspring: "Blue",
+      recordedAt: "2026-09-02T20:30",
+      weight: 412.5,
+      unit: "g",
+      temperatureF: null,
+      notes: null,
+    });
+    assert.strictEqual(toOunces(412.5, "g"), 14.55);
+    assert.strictEqual(toOunces(1.5, "lb"), 24);
+    assert.strictEqual(rows[1].status, "error");
+    assert.strictEqual(rows[1].errors?.length, 2);
+  });
+
+  await t.test("should generate schema templates from field labels and examples", () => {
+    const [header, example] = generateImportCsvTemplate(CONTACT_IMPORT_SCHEMA).split("\n");
+    assert.ok(header.startsWith("First Name,Last Name,Nickname,Email,Phone,WhatsApp,Organization,Street"));
+    assert.ok(example.startsWith("John,Smith,Johnny,john.smith@example.com"));
+    assert.strictEqual(generateImportCsvTemplate(CONTACT_IMPORT_SCHEMA, false).split("\n").length, 1);
+  });
+});
+
 console.log("✅ All CSV Import unit tests passed!");
@@ -0,0 +1,108 @@
+/**
+ * Unit Tests for Custom Breeding Program Rules
+ *
+ * Tests condition evaluation and config validation for declarative
+ * ("custom:<key>") rules without requiring a running server or database.
+ *
+ * Run: npx tsx --test tests/unit/custom-rules.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { evaluateRuleConditions, type OffspringRuleFacts } from "../../src/lib/custom-rules.js";
+import { isCustomRuleType, validateCustomRuleConfig } from "../../src/validation/breeding-program-rules.js";
+
+const FACTS: OffspringRuleFacts = {
+  offspringId: 1,
+  planId: 10,
+  ageDays: 60,
+  sex: "FEMALE",
+  color: "Chocolate",
+  collarColor: "Red",
+  keeperIntent: "AVAILABLE",
+  depositStatus: "DEPOSIT_PAID",
+  planStatus: "BIRTHED",
+  photoCount: 3,
+  priceCents: null,
+  listed: true,
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// evaluateRuleConditions
+// ─────────────────────────────────────────────────────────────────────────────
+
+test("evaluateRuleConditions - Leaf conditions", async (t) => {
+  await t.test("compares numbers", () => {
+    assert.strictEqual(evaluateRuleConditions({ field: "ageDays", op: "gte", value: 56 }, FACTS), true);
+    assert.strictEqual(evaluateRuleConditions({ field: "photoCount", op: "lt", value: 3 }, FACTS), false);
+  });
+
+  await t.test("compares text case-insensitively", () => {
+    assert.strictEqual(evaluateRuleConditions({ field: "color", op: "eq", value: "chocolate" }, FACTS), true);
+    assert.strictEqual(evaluateRuleConditions({ field: "sex", op: "in", value: ["MALE"] }, FACTS), false);
+    assert.strictEqual(evaluateRuleConditions({ field: "keeperIntent", op: "not_in", value: ["KEEP"] }, FACTS), true);
+  });
+
+  await t.test("never matches comparisons against unknown facts", () => {
+    assert.strictEqual(evaluateRuleConditions({ field: "priceCents", op: "neq", value: 100 }, FACTS), false);
+    assert.strictEqual(evaluateRuleConditions({ field: "priceCents", op: "missing" }, FACTS), true);
+  });
+});
+
+test("evaluateRuleConditions - AND/OR groups", async (t) => {
+  await t.test("combines nested groups", () => {
+    const node = {
+      all: [
+        { field: "listed" as const, op: "eq" as const, value: true },
+        {
+          any: [
+            { field: "depositStatus" as const, op: "eq" as const, value: "PAID_IN_FULL" },
+            { field: "depositStatus" as const, op: "eq" as const, value: "DEPOSIT_PAID" },
+          ],
+        },
+      ],
+    };
+
+    assert.strictEqual(evaluateRuleConditions(node, FACTS), true);
+    assert.strictEqual(evaluateRuleConditions(node, { ...FACTS, listed: false }), false);
+  });
+
+  await t.test("matches everything when no conditions are given", () => {
+    assert.strictEqual(evaluateRuleConditions(undefined, FACTS), true);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// validateCustomRuleConfig
+// ─────────────────────────────────────────────────────────────────────────────
+
+test("validateCustomRuleConfig", async (t) => {
+  await t.test("accepts a well-formed config", () => {
+    const issues = validateCustomRuleConfig({
+      conditions: { all: [{ field: "ageDays", op: "gte", value: 56 }] },
+      actions: [{ type: "unlist" }, { type: "create_task", title: "Book vet check", dueInDays: 3 }],
+    });
+
+    assert.deepStrictEqual(issues, []);
+  });
+
+  await t.test("rejects operators that do not fit the value", () => {
+    const issues = validateCustomRuleConfig({
+      conditions: { field: "sex", op: "in", value: "MALE" },
+      actions: [{ type: "list" }],
+    });
+
+    assert.ok(issues.length > 0);
+  });
+
+  await t.test("rejects unknown actions and empty action lists", () => {
+    assert.ok(validateCustomRuleConfig({ actions: [{ type: "delete_offspring" }] }).length > 0);
+    assert.ok(validateCustomRuleConfig({ actions: [] }).length > 0);
+  });
+
+  await t.test("recognizes custom rule types", () => {
+    assert.strictEqual(isCustomRuleType("custom:deposit-tagging"), true);
+    assert.strictEqual(isCustomRuleType("auto_list_available"), false);
+    assert.strictEqual(isCustomRuleType("custom:"), false);
+  });
+});
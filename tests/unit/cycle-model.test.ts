@@ -0,0 +1,139 @@
+/**
+ * Unit Tests for the Per-Female Cycle Model
+ *
+ * Exercises predictNextCycle's recency weighting, species/age priors and
+ * seasonal clamping on in-memory cycle histories (no database).
+ *
+ * Run: npx tsx --test tests/unit/cycle-model.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import {
+  predictNextCycle,
+  type CycleModelObservation,
+} from "../../src/services/cycle-analysis-service.js";
+
+function cyclesFrom(start: string, intervals: number[]): CycleModelObservation[] {
+  const dates = [new Date(`${start}T12:00:00.000Z`)];
+  for (const days of intervals) {
+    const next = new Date(dates[dates.length - 1]);
+    next.setUTCDate(next.getUTCDate() + days);
+    dates.push(next);
+  }
+  return dates.map((cycleStart) => ({ cycleStart, ovulationOffsetDays: null, confidence: "LOW" }));
+}
+
+function lastStart(cycles: CycleModelObservation[]): Date {
+  return cycles[cycles.length - 1].cycleStart;
+}
+
+test("returns null without any recorded cycle", () => {
+  const prediction = predictNextCycle({
+    species: "DOG",
+    birthDate: null,
+    cycleLenOverrideDays: null,
+    cycles: [],
+    asOf: new Date("2026-10-19T12:00:00.000Z"),
+  });
+  assert.strictEqual(prediction, null);
+});
+
+test("learns a long interval but stays shrunk toward the species prior", () => {
+  const cycles = cyclesFrom("2024-01-10", [200, 200, 200, 200]);
+  const prediction = predictNextCycle({
+    species: "DOG",
+    birthDate: null,
+    cycleLenOverrideDays: null,
+    cycles,
+    asOf: lastStart(cycles),
+  })!;
+
+  assert.ok(prediction.cycleLength.meanDays > 190);
+  assert.ok(prediction.cycleLength.meanDays < 200);
+  assert.strictEqual(prediction.cyclesAhead, 1);
+  assert.ok(prediction.nextHeat.lower <= prediction.nextHeat.mostLikely);
+  assert.ok(prediction.nextHeat.mostLikely <= prediction.nextHeat.upper);
+  assert.ok(prediction.nextOvulation.lower <= prediction.nextOvulation.mostLikely);
+  assert.ok(prediction.recommendedTestingStart >= prediction.nextHeat.lower);
+});
+
+test("weights recent intervals more heavily than older ones", () => {
+  const cycles = cyclesFrom("2022-01-10", [160, 160, 160, 220, 220]);
+  const prediction = predictNextCycle({
+    species: "DOG",
+    birthDate: null,
+    cycleLenOverrideDays: null,
+    cycles,
+    asOf: lastStart(cycles),
+  })!;
+
+  // Unweighted mean of the intervals is 184
+  assert.ok(prediction.cycleLength.meanDays > 186);
+});
+
+test("skipped heats are excluded rather than averaged in", () => {
+  const cycles = cyclesFrom("2023-01-10", [180, 360, 180]);
+  const prediction = predictNextCycle({
+    species: "DOG",
+    birthDate: null,
+    cycleLenOverrideDays: null,
+    cycles,
+    asOf: lastStart(cycles),
+  })!;
+
+  assert.strictEqual(prediction.cycleLength.excludedIntervals, 1);
+  assert.ok(Math.abs(prediction.cycleLength.meanDays - 180) < 1);
+});
+
+test("older females get a longer prior interval", () => {
+  const cycles = cyclesFrom("2026-03-01", []);
+  const asOf = new Date("2026-03-02T12:00:00.000Z");
+  const young = predictNextCycle({
+    species: "DOG",
+    birthDate: new Date("2023-03-01T12:00:00.000Z"),
+    cycleLenOverrideDays: null,
+    cycles,
+    asOf,
+  })!;
+  const old = predictNextCycle({
+    species: "DOG",
+    birthDate: new Date("2016-03-01T12:00:00.000Z"),
+    cycleLenOverrideDays: null,
+    cycles,
+    asOf,
+  })!;
+
+  assert.strictEqual(young.ageAdjustmentDays, 0);
+  assert.ok(old.ageAdjustmentDays > 0);
+  assert.ok(old.nextHeat.mostLikely > young.nextHeat.mostLikely);
+});
+
+test("unrecorded heats are stepped past", () => {
+  const cycles = cyclesFrom("2026-01-05", []);
+  const prediction = predictNextCycle({
+    species: "CATTLE",
+    birthDate: null,
+    cycleLenOverrideDays: null,
+    cycles,
+    asOf: new Date("2026-03-01T12:00:00.000Z"),
+  })!;
+
+  assert.ok(prediction.cyclesAhead > 1);
+  assert.ok(prediction.nextHeat.upper >= "2026-03-01");
+});
+
+test("mares projected into winter anestrus move to the next breeding season", () => {
+  const cycles = cyclesFrom("2026-08-09", [21, 21]);
+  const prediction = predictNextCycle({
+    species: "HORSE",
+    birthDate: null,
+    cycleLenOverrideDays: null,
+    cycles,
+    asOf: new Date("2026-10-30T12:00:00.000Z"),
+  })!;
+
+  assert.strictEqual(prediction.nextHeat.lower, "2027-04-01");
+  assert.ok(prediction.seasonalShiftDays > 100);
+  assert.ok(prediction.nextOvulation.lower >= "2027-04-01");
+});
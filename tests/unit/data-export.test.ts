@@ -0,0 +1,109 @@
+/**
+ * Unit Tests for Tenant Data Export
+ *
+ * Tests the zip writer (read back through the XLSX reader's unzip) and the
+ * CSV/JSON serialization of export files, without a database or storage.
+ *
+ * Run: npx tsx --test tests/unit/data-export.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { Prisma } from "@prisma/client";
+import { crc32, ZipWriter } from "../../src/lib/zip-writer.js";
+import { readXlsxRows } from "../../src/lib/csv-import/xlsx-reader.js";
+import {
+  archiveFileName,
+  csvHeader,
+  csvLines,
+  jsonRecords,
+} from "../../src/services/data-export/export-format.js";
+
+test("ZIP Writer", async (t) => {
+  await t.test("computes the standard CRC-32 check value", () => {
+    assert.strictEqual(crc32(Buffer.from("123456789")), 0xcbf43926);
+    assert.strictEqual(crc32(Buffer.alloc(0)), 0);
+  });
+
+  await t.test("writes an archive other readers can open", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "zip-writer-"));
+    try {
+      const file = path.join(dir, "book.xlsx");
+      const zip = await ZipWriter.create(file);
+      await zip.addFile(
+        "xl/workbook.xml",
+        '<workbook><sheets><sheet name="Export" sheetId="1" r:id="rId1"/></sheets></workbook>'
+      );
+      await zip.addFile(
+        "xl/_rels/workbook.xml.rels",
+        '<Relationships><Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/></Relationships>'
+      );
+      // Large and repetitive, so it is stored deflated
+      const rows = Array.from(
+        { length: 200 },
+        (_, i) => `<row r="${i + 1}"><c r="A${i + 1}" t="inlineStr"><is><t>Row ${i + 1}</t></is></c></row>`
+      );
+      await zip.addFile("xl/worksheets/sheet1.xml", `<worksheet><sheetData>${rows.join("")}</sheetData></worksheet>`);
+
+      await assert.rejects(zip.addFile("xl/workbook.xml", ""), /zip_duplicate_entry/);
+      assert.strictEqual(zip.entryCount, 3);
+
+      const size = await zip.finish();
+      const data = await readFile(file);
+      assert.strictEqual(data.length, size);
+
+      const sheet = readXlsxRows(data);
+      assert.strictEqual(sheet.length, 200);
+      assert.deepStrictEqual(sheet[0], { rowNumber: 1, cells: ["Row 1"] });
+      assert.deepStrictEqual(sheet[199], { rowNumber: 200, cells: ["Row 200"] });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+test("Export File Format", async (t) => {
+  const columns = ["id", "name", "bornAt", "amountCents", "weightOz", "data", "notes"];
+  const record = {
+    id: 7,
+    name: 'Bella "Belle", Jr.',
+    bornAt: new Date("2026-03-01T12:00:00Z"),
+    amountCents: BigInt(150000),
+    weightOz: new Prisma.Decimal("12.50"),
+    data: { color: "red", tags: ["a", "b"] },
+    notes: null,
+    ignored: "not a column",
+  };
+
+  await t.test("quotes CSV cells and flattens values", () => {
+    assert.strictEqual(csvHeader(columns), "id,name,bornAt,amountCents,weightOz,data,notes\r\n");
+    assert.strictEqual(
+      csvLines(columns, [record]),
+      '7,"Bella ""Belle"", Jr.",2026-03-01T12:00:00.000Z,150000,12.5,"{""color"":""red"",""tags"":[""a"",""b""]}",\r\n'
+    );
+    assert.strictEqual(csvLines(["notes"], [{ notes: "line one\nline two" }]), '"line one\nline two"\r\n');
+  });
+
+  await t.test("keeps JSON columns structured in JSON records", () => {
+    assert.deepStrictEqual(jsonRecords(columns, [record]), [
+      {
+        id: 7,
+        name: 'Bella "Belle", Jr.',
+        bornAt: "2026-03-01T12:00:00.000Z",
+        amountCents: 150000,
+        weightOz: "12.5",
+        data: { color: "red", tags: ["a", "b"] },
+        notes: null,
+      },
+    ]);
+  });
+
+  await t.test("makes stored file names safe for the archive", () => {
+    assert.strictEqual(archiveFileName("Vet Report (final).pdf", "file"), "Vet_Report_final_.pdf");
+    assert.strictEqual(archiveFileName("../../etc/passwd", "file"), "etc_passwd");
+    assert.strictEqual(archiveFileName("///", "file"), "file");
+  });
+});
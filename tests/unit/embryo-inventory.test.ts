@@ -0,0 +1,88 @@
+/**
+ * Unit Tests for Embryo Inventory
+ *
+ * Tests embryo status transitions, fresh/frozen transfer type, default
+ * straw labels, frozen stock summaries and the registration picked for
+ * the ET registry export (no database).
+ *
+ * Run: npx tsx --test tests/unit/embryo-inventory.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import {
+  canTransition,
+  defaultEmbryoLabel,
+  summarizeFrozenEmbryos,
+  transferEmbryoType,
+} from "../../src/services/embryo-inventory.js";
+import { pickRegistration } from "../../src/services/registry/registry-service.js";
+
+test("Embryo Inventory", async (t) => {
+  await t.test("allows freeze, thaw and transfer in order", () => {
+    assert.strictEqual(canTransition("FRESH", "FROZEN"), true);
+    assert.strictEqual(canTransition("FRESH", "TRANSFERRED"), true);
+    assert.strictEqual(canTransition("FROZEN", "THAWED"), true);
+    // Frozen embryos are thawed as part of the transfer
+    assert.strictEqual(canTransition("FROZEN", "TRANSFERRED"), true);
+    assert.strictEqual(canTransition("THAWED", "TRANSFERRED"), true);
+
+    // A thawed embryo can't go back into the tank or be sold
+    assert.strictEqual(canTransition("THAWED", "FROZEN"), false);
+    assert.strictEqual(canTransition("THAWED", "SOLD"), false);
+  });
+
+  await t.test("treats transferred, shipped and discarded as final", () => {
+    assert.strictEqual(canTransition("SOLD", "SHIPPED"), true);
+    assert.strictEqual(canTransition("SOLD", "TRANSFERRED"), false);
+    for (const to of ["FROZEN", "THAWED", "TRANSFERRED", "SOLD", "SHIPPED", "DISCARDED"] as const) {
+      assert.strictEqual(canTransition("TRANSFERRED", to), false);
+      assert.strictEqual(canTransition("SHIPPED", to), false);
+      assert.strictEqual(canTransition("DISCARDED", to), false);
+    }
+  });
+
+  await t.test("reports embryos ever frozen as frozen transfers", () => {
+    assert.strictEqual(transferEmbryoType({ frozenAt: null }), "FRESH");
+    assert.strictEqual(transferEmbryoType({ frozenAt: new Date("2026-03-12T00:00:00Z") }), "FROZEN");
+  });
+
+  await t.test("labels straws by donor, flush date and number", () => {
+    const flushDate = new Date("2026-03-12T15:00:00Z");
+    assert.strictEqual(defaultEmbryoLabel("Daisy", flushDate, 3), "DAI-260312-03");
+    assert.strictEqual(defaultEmbryoLabel("O'Brien Lass", flushDate, 12), "OBR-260312-12");
+    assert.strictEqual(defaultEmbryoLabel(null, flushDate, 1), "EMB-260312-01");
+  });
+
+  await t.test("summarizes frozen stock by grade, tank and donor", () => {
+    const summary = summarizeFrozenEmbryos([
+      { grade: 1, storageTank: "Tank A", donorId: 7, donorName: "Daisy" },
+      { grade: 1, storageTank: "Tank B", donorId: 7, donorName: "Daisy" },
+      { grade: 2, storageTank: "Tank B", donorId: 9, donorName: "Bella" },
+      { grade: null, storageTank: null, donorId: 9, donorName: "Bella" },
+      { grade: 3, storageTank: "Tank B", donorId: 11, donorName: null },
+    ]);
+
+    assert.deepStrictEqual(summary.frozenByGrade, { "1": 2, "2": 1, "3": 1, "4": 0, ungraded: 1 });
+    assert.deepStrictEqual(summary.frozenByTank, [
+      { tank: "Tank B", frozen: 3 },
+      { tank: "Tank A", frozen: 1 },
+      { tank: "Unassigned", frozen: 1 },
+    ]);
+    assert.deepStrictEqual(
+      summary.frozenByDonor.map((d) => [d.donorName, d.frozen]),
+      [["Bella", 2], ["Daisy", 2], ["Unknown", 1]]
+    );
+  });
+
+  await t.test("exports the registration for the requested registry", () => {
+    const identifiers = [
+      { registryId: 1, identifier: "AQHA-5551234" },
+      { registryId: 2, identifier: "APHA-0098765" },
+    ];
+    assert.strictEqual(pickRegistration(identifiers, 2), "APHA-0098765");
+    assert.strictEqual(pickRegistration(identifiers, 3), "AQHA-5551234");
+    assert.strictEqual(pickRegistration(identifiers), "AQHA-5551234");
+    assert.strictEqual(pickRegistration([], 1), undefined);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Unit Tests for Lab Report Genetics Parsers
+ *
+ * Covers PDF-text and CSV parsing for UC Davis VGL, Animal Genetics, Wisdom
+ * Panel and Paw Print reports: genotype and status-phrase results, locus code
+ * normalization, report metadata and unmapped rows. Also covers multi-animal
+ * batch sheets and the per-animal locus diff used by the bulk import preview.
+ *
+ * Run: npx tsx --test tests/unit/genetics-lab-reports.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import {
+  mapLabResults,
+  parseAnimalGeneticsReport,
+  parseGeneticsBatch,
+  parseGeneticsReport,
+  parseLabResult,
+  parsePawPrintReport,
+  parseUcDavisReport,
+  parseWisdomPanelReport,
+  UC_DAVIS_REPORT_CONFIG,
+} from "../../src/lib/genetics-import/index.js";
+import { batchAnimalIdentifiers, diffLoci } from "../../src/services/genetics/bulk-genetics-import.js";
+
+test("UC Davis horse report text maps genotypes to canonical loci", () => {
+  const text = [
+    "Veterinary Genetics Laboratory",
+    "VGL Case: HC123456",
+    "Horse Name: Midnight Star",
+    "Date Reported: 10/14/2026",
+    "Red Factor (MC1R)        E/e",
+    "Agouti                   A/a",
+    "Cream Dilution           N/Cr",
+    "HYPP                     N/H",
+    "Tobiano                  TO/n",
+    "Some Research Marker     N/X",
+  ].join("\n");
+
+  const result = parseUcDavisReport(text, "HORSE");
+  assert.strictEqual(result.success, true);
+  assert.strictEqual(result.report.reportId, "HC123456");
+  assert.strictEqual(result.report.animalName, "Midnight Star");
+  assert.strictEqual(result.report.testDate, "2026-10-14");
+
+  const extension = result.genetics.coatColor.find((l) => l.locusName.startsWith("Extension"));
+  assert.strictEqual(extension?.locus, "E");
+  assert.strictEqual(extension?.genotype, "E/e");
+  assert.strictEqual(extension?.source, "uc_davis");
+  assert.ok(result.genetics.coatColor.some((l) => l.locus === "Cr" && l.genotype === "N/Cr"));
+  assert.ok(result.genetics.health.some((l) => l.locus === "HYPP"));
+
+  assert.deepStrictEqual(result.genetics.unmapped.map((u) => u.name), ["Some Research Marker"]);
+  assert.ok(result.warnings.some((w) => w.includes("[UNMAPPED]")));
+});
+
+test("Animal Genetics CSV export is read by header", () => {
+  const csv = [
+    "Test,Gene,Result",
+    "Polycystic Kidney Disease,PKD1,N/N",
+    "Dilute,MLPH,D/d",
+    "Long Hair,FGF5,Pending",
+  ].join("\n");
+
+  const result = parseAnimalGeneticsReport(csv, "CAT");
+  assert.strictEqual(result.success, true);
+  assert.ok(result.genetics.health.some((l) => l.locusName === "Polycystic Kidney Disease" && l.genotype === "N/N"));
+  assert.ok(result.genetics.coatColor.some((l) => l.genotype === "D/d"));
+  assert.strictEqual(result.genetics.unmapped.length, 1);
+  assert.ok(result.warnings.some((w) => w.includes("Pending")));
+});
+
+test("status phrases and genotypes are read from result cells", () => {
+  assert.strictEqual(parseLabResult("No variant detected")?.genotype, "N/N");
+  assert.strictEqual(parseLabResult("1 copy of the variant detected")?.genotype, "N/m");
+  assert.strictEqual(parseLabResult("At Risk")?.genotype, "m/m");
+  assert.strictEqual(parseLabResult("Not affected")?.genotype, "N/N");
+  assert.strictEqual(parseLabResult("Not at risk")?.genotype, "N/N");
+  assert.strictEqual(parseLabResult("Non-carrier")?.genotype, "N/N");
+  assert.strictEqual(parseLabResult("Not a carrier")?.genotype, "N/N");
+  assert.strictEqual(parseLabResult("Normal/Normal")?.genotype, "N/N");
+  assert.strictEqual(parseLabResult("ky/ky")?.genotype, "ky/ky");
+  assert.strictEqual(parseLabResult("10/14"), null);
+  assert.strictEqual(parseLabResult("Sample received"), null);
+
+  const pawPrint = parsePawPrintReport("Degenerative Myelopathy  |  SOD1  |  Carrier  |  N/DM", "DOG");
+  assert.strictEqual(pawPrint.genetics.health[0]?.genotype, "N/DM");
+});
+
+test("Wisdom Panel collects breed ancestry and the dispatcher routes by provider", () => {
+  const text = [
+    "Kit Number: WP-88812",
+    "Labrador Retriever 62.5%",
+    "Poodle 37.5%",
+    "MDR1 Medication Sensitivity    No variant detected",
+  ].join("\n");
+
+  const result = parseWisdomPanelReport(text, "DOG");
+  assert.strictEqual(result.report.reportId, "WP-88812");
+  assert.deepStrictEqual(result.report.breedComposition.map((b) => b.breed), ["Labrador Retriever", "Poodle"]);
+  assert.strictEqual(result.genetics.health[0]?.genotype, "N/N");
+
+  assert.strictEqual(parseGeneticsReport("wisdom_panel", text, "DOG")?.report?.reportId, "WP-88812");
+  assert.strictEqual(parseGeneticsReport("manual", text, "DOG"), null);
+});
+
+test("batch sheets group long and wide layouts per animal", () => {
+  const long = parseGeneticsBatch(
+    [
+      "Horse Name,Microchip,Registration,Test Date,Test,Result",
+      "Bella,985 112 000 123 456,AQHA-551,10/14/2026,HYPP,N/N",
+      "Bella,985 112 000 123 456,AQHA-551,10/14/2026,Cream,N/Cr",
+      "Duke,,AQHA-552,10/14/2026,HYPP,N/H",
+      ",,,,GBED,N/N",
+    ].join("\n")
+  );
+  assert.strictEqual(long.layout, "long");
+  assert.deepStrictEqual(long.animals.map((a) => a.key), ["chip:985112000123456", "reg:aqha-552"]);
+  assert.deepStrictEqual(long.animals[0].rowNumbers, [2, 3]);
+  assert.strictEqual(long.animals[0].testDate, "2026-10-14");
+  assert.strictEqual(long.animals[0].results.length, 2);
+  assert.ok(long.warnings.some((w) => w.startsWith("Row 5")));
+
+  const wide = parseGeneticsBatch("Name\tSex\tHYPP\tRed Factor\nBella\tMare\tN/N\tE/e\nDuke\tStallion\tN/H\t");
+  assert.strictEqual(wide.layout, "wide");
+  assert.deepStrictEqual(
+    wide.animals.map((a) => a.results.map((r) => r.name)),
+    [["HYPP", "Red Factor"], ["HYPP"]]
+  );
+
+  const mapped = mapLabResults(wide.animals[0].results, "HORSE", UC_DAVIS_REPORT_CONFIG);
+  assert.ok(mapped.genetics.coatColor.some((l) => l.locus === "E" && l.genotype === "E/e"));
+});
+
+test("bulk import matches batch animals by name with species and sex", () => {
+  const batch = parseGeneticsBatch("Name,Gender,Test,Result\nBella,F,HYPP,N/N\nDuke,Stallion,HYPP,N/H\nScout,,HYPP,N/N");
+  assert.strictEqual(batch.layout, "long");
+  assert.deepStrictEqual(batch.animals.map((a) => a.sex), ["FEMALE", "MALE", undefined]);
+
+  // Species and sex together send name matching through findDuplicates
+  assert.deepStrictEqual(batchAnimalIdentifiers(batch.animals[0], "HORSE"), {
+    name: "Bella",
+    microchip: undefined,
+    registryNumber: undefined,
+    species: "HORSE",
+    sex: "FEMALE",
+  });
+  assert.strictEqual(batchAnimalIdentifiers(batch.animals[2], "HORSE").sex, undefined);
+});
+
+test("locus diff reports added, changed and (on replace) removed loci", () => {
+  const existing = [
+    { locus: "HYPP", locusName: "HYPP", genotype: "N/N" },
+    { locus: "GBED", locusName: "GBED", genotype: "N/N" },
+  ];
+  const imported = [
+    { locus: "HYPP", locusName: "HYPP", genotype: "N/H" },
+    { locus: "HERDA", locusName: "HERDA", genotype: "N/N" },
+  ];
+
+  const merge = diffLoci("health", existing, imported, "merge");
+  assert.deepStrictEqual(merge.map((c) => [c.locus, c.change]), [["HYPP", "changed"], ["HERDA", "added"]]);
+  assert.strictEqual(merge[0].before, "N/N");
+
+  const replace = diffLoci("health", existing, imported, "replace");
+  assert.deepStrictEqual(replace.at(-1), {
+    category: "health",
+    locus: "GBED",
+    locusName: "GBED",
+    before: "N/N",
+    after: null,
+    change: "removed",
+  });
+});
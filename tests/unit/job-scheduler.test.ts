@@ -0,0 +1,205 @@
+/**
+ * Unit Tests for the Background Job Scheduler
+ *
+ * Tests retry backoff, scheduled-tick slotting, run history pruning, the
+ * leader lease, skipping overlapping runs and failing abandoned runs. The scheduler's Prisma calls
+ * go to an in-memory stand-in, so no database is needed.
+ *
+ * Run: npx tsx --test tests/unit/job-scheduler.test.ts
+ */
+
+import { test, mock } from "node:test";
+import assert from "node:assert";
+
+/** Records the scheduler's JobLease / JobRun calls */
+function createSchedulerDb() {
+  const db = {
+    leaseHeld: true,
+    leaseError: null as Error | null,
+    runningCount: 0,
+    abandoned: [] as any[],
+    releasedLeases: [] as any[],
+    runs: [] as any[],
+    pruned: [] as any[],
+    $queryRaw: async () => {
+      if (db.leaseError) throw db.leaseError;
+      return db.leaseHeld ? [{ holderId: "me" }] : [];
+    },
+    jobLease: {
+      findUnique: async () => null,
+      deleteMany: async (args: any) => {
+        db.releasedLeases.push(args.where);
+        return { count: 1 };
+      },
+    },
+    jobRun: {
+      create: async ({ data }: any) => {
+        const run = { id: db.runs.length + 1, status: "running", attempts: 0, startedAt: new Date(), ...data };
+        db.runs.push(run);
+        return run;
+      },
+      update: async ({ where, data }: any) => Object.assign(db.runs[where.id - 1], data),
+      updateMany: async (args: any) => {
+        db.abandoned.push(args);
+        return { count: 2 };
+      },
+      count: async () => db.runningCount,
+      deleteMany: async (args: any) => {
+        db.pruned.push(args.where);
+        return { count: 7 };
+      },
+    },
+  };
+  return db;
+}
+
+const db = createSchedulerDb();
+(globalThis as any).__PRISMA__ = db;
+
+const {
+  retryDelayMs,
+  scheduledSlot,
+  startJobScheduler,
+  stopJobScheduler,
+  getSchedulerLeader,
+  triggerJob,
+  listJobs,
+  pruneJobRuns,
+} = await import("../../src/jobs/scheduler.js");
+
+const settle = async () => {
+  for (let i = 0; i < 20; i++) await new Promise((resolve) => setImmediate(resolve));
+};
+
+test("retryDelayMs", async (t) => {
+  await t.test("doubles the base delay for each further retry", () => {
+    assert.strictEqual(retryDelayMs(1, 30_000), 30_000);
+    assert.strictEqual(retryDelayMs(2, 30_000), 60_000);
+    assert.strictEqual(retryDelayMs(3, 30_000), 120_000);
+  });
+
+  await t.test("treats attempts below 1 as the first retry", () => {
+    assert.strictEqual(retryDelayMs(0, 1_000), 1_000);
+  });
+});
+
+test("scheduledSlot", async (t) => {
+  await t.test("truncates a tick to the minute", () => {
+    const slot = scheduledSlot(new Date("2026-06-01T03:00:00.734Z"));
+    assert.strictEqual(slot.toISOString(), "2026-06-01T03:00:00.000Z");
+  });
+
+  await t.test("maps ticks seen by different instances to the same slot", () => {
+    const a = scheduledSlot(new Date("2026-06-01T03:00:00.010Z"));
+    const b = scheduledSlot(new Date("2026-06-01T03:00:02.500Z"));
+    assert.strictEqual(a.getTime(), b.getTime());
+  });
+});
+
+test("pruneJobRuns", async (t) => {
+  await t.test("deletes finished runs older than the retention window", async () => {
+    assert.strictEqual(await pruneJobRuns(30), 7);
+    const { startedAt, status } = db.pruned[0];
+    assert.deepStrictEqual(status, { not: "running" });
+    assert.ok(Math.abs(Date.now() - startedAt.lt.getTime() - 30 * 24 * 60 * 60 * 1000) < 5_000);
+  });
+});
+
+test("Job scheduler lifecycle", async (t) => {
+  mock.timers.enable({ apis: ["setInterval"] });
+
+  let startupRuns = 0;
+  let releaseSlowJob: () => void = () => {};
+  const yearly = "0 0 1 1 *";
+  startJobScheduler([
+    {
+      name: "startup-job",
+      description: "Runs when this instance becomes leader",
+      schedule: yearly,
+      enabled: true,
+      runOnStartup: true,
+      run: async () => {
+        startupRuns++;
+      },
+    },
+    {
+      name: "slow-job",
+      description: "Finishes when the test lets it",
+      schedule: yearly,
+      enabled: true,
+      maxAttempts: 1,
+      run: () => new Promise<void>((resolve) => (releaseSlowJob = resolve)),
+    },
+  ]);
+  await settle();
+
+  await t.test("takes the lease, fails abandoned runs and runs startup jobs", async () => {
+    assert.strictEqual((await getSchedulerLeader()).isLeader, true);
+    assert.strictEqual(db.abandoned.length, 1);
+    const { where, data } = db.abandoned[0];
+    assert.strictEqual(where.status, "running");
+    assert.strictEqual(data.status, "failed");
+    assert.match(data.error, /^Abandoned/);
+    const staleFor = Date.now() - where.startedAt.lt.getTime();
+    assert.ok(Math.abs(staleFor - 6 * 60 * 60 * 1000) < 5_000);
+    assert.strictEqual(startupRuns, 1);
+    assert.strictEqual(db.runs[0].status, "succeeded");
+  });
+
+  await t.test("steps down when the lease is lost or can't be renewed", async () => {
+    db.leaseHeld = false;
+    mock.timers.tick(20_000);
+    await settle();
+    assert.strictEqual((await getSchedulerLeader()).isLeader, false);
+
+    db.leaseHeld = true;
+    mock.timers.tick(20_000);
+    await settle();
+    assert.strictEqual((await getSchedulerLeader()).isLeader, true);
+    // Regaining leadership sweeps for abandoned runs again
+    assert.strictEqual(db.abandoned.length, 2);
+    assert.strictEqual(startupRuns, 2);
+
+    db.leaseError = new Error("connection reset");
+    mock.timers.tick(20_000);
+    await settle();
+    assert.strictEqual((await getSchedulerLeader()).isLeader, false);
+    db.leaseError = null;
+  });
+
+  await t.test("skips a run while the same job is still running", async () => {
+    const run = await triggerJob("slow-job", "user-1");
+    assert.strictEqual(run.trigger, "manual");
+    await settle();
+    assert.strictEqual(listJobs().find((j) => j.name === "slow-job")?.runningHere, true);
+
+    await assert.rejects(triggerJob("slow-job"), (err: any) => {
+      return err.message === "job_already_running" && err.statusCode === 409;
+    });
+
+    releaseSlowJob();
+    await settle();
+    assert.strictEqual(listJobs().find((j) => j.name === "slow-job")?.runningHere, false);
+    assert.strictEqual(db.runs[run.id - 1].status, "succeeded");
+  });
+
+  await t.test("skips a run another instance has in progress", async () => {
+    db.runningCount = 1;
+    await assert.rejects(triggerJob("startup-job"), /job_already_running/);
+    db.runningCount = 0;
+    await assert.rejects(triggerJob("missing-job"), (err: any) => err.statusCode === 404);
+  });
+
+  await t.test("hands the lease back on stop", async () => {
+    db.leaseHeld = true;
+    mock.timers.tick(20_000);
+    await settle();
+    await stopJobScheduler();
+
+    assert.strictEqual((await getSchedulerLeader()).isLeader, false);
+    assert.strictEqual(db.releasedLeases.length, 1);
+    assert.strictEqual(db.releasedLeases[0].name, "job-scheduler");
+  });
+
+  mock.timers.reset();
+});
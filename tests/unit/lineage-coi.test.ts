@@ -0,0 +1,278 @@
+/**
+ * Unit Tests for the Lineage COI Engine
+ *
+ * Tests the recursive kinship calculator and Wright path breakdown against
+ * in-memory pedigrees without requiring a running server or database.
+ *
+ * Run: npx tsx --test tests/unit/lineage-coi.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import {
+  KinshipCalculator,
+  breakParentCycles,
+  computeCOIFromGraph,
+  computePedigreeMetricsFromGraph,
+  clampCOIGenerations,
+  COI_DEFAULT_GENERATIONS,
+  COI_MAX_GENERATIONS,
+  type PedigreeGraph,
+} from "../../src/services/lineage-service.js";
+
+function graphOf(rows: Array<[id: number, damId: number | null, sireId: number | null]>): PedigreeGraph {
+  const graph: PedigreeGraph = new Map();
+  for (const [id, damId, sireId] of rows) {
+    graph.set(id, { id, name: `A${id}`, damId, sireId });
+  }
+  return graph;
+}
+
+const EPSILON = 1e-12;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// KinshipCalculator
+// ─────────────────────────────────────────────────────────────────────────────
+
+test("KinshipCalculator - Classic matings", async (t) => {
+  await t.test("full siblings from unrelated founders give 0.25", () => {
+    // 1 = founder dam, 2 = founder sire, 3 and 4 = their offspring
+    const graph = graphOf([[1, null, null], [2, null, null], [3, 1, 2], [4, 1, 2]]);
+    const calc = new KinshipCalculator(graph);
+
+    assert.ok(Math.abs(calc.kinship(3, 4) - 0.25) < EPSILON);
+  });
+
+  await t.test("half siblings give 0.125", () => {
+    const graph = graphOf([[1, null, null], [2, null, null], [5, null, null], [3, 1, 2], [4, 5, 2]]);
+    const calc = new KinshipCalculator(graph);
+
+    assert.ok(Math.abs(calc.kinship(3, 4) - 0.125) < EPSILON);
+  });
+
+  await t.test("sire bred back to his daughter gives 0.25", () => {
+    const graph = graphOf([[1, null, null], [2, null, null], [3, 1, 2]]);
+    const calc = new KinshipCalculator(graph);
+
+    assert.ok(Math.abs(calc.kinship(3, 2) - 0.25) < EPSILON);
+  });
+
+  await t.test("unrelated animals give 0", () => {
+    const graph = graphOf([[1, null, null], [2, null, null]]);
+    const calc = new KinshipCalculator(graph);
+
+    assert.strictEqual(calc.kinship(1, 2), 0);
+    assert.strictEqual(calc.kinship(1, null), 0);
+    assert.strictEqual(calc.kinship(1, 999), 0);
+  });
+});
+
+test("KinshipCalculator - Inbred common ancestor (Fa)", async (t) => {
+  // 10 is produced by a full-sibling mating (F = 0.25) and then sires two
+  // half siblings 20 and 21 out of unrelated dams.
+  const graph = graphOf([
+    [1, null, null],
+    [2, null, null],
+    [3, 1, 2],
+    [4, 1, 2],
+    [10, 3, 4],
+    [11, null, null],
+    [12, null, null],
+    [20, 11, 10],
+    [21, 12, 10],
+  ]);
+
+  await t.test("computes the ancestor's own inbreeding", () => {
+    const calc = new KinshipCalculator(graph);
+    assert.ok(Math.abs(calc.inbreeding(10) - 0.25) < EPSILON);
+  });
+
+  await t.test("folds Fa into the half-sibling coefficient", () => {
+    const calc = new KinshipCalculator(graph);
+    // 0.125 × (1 + 0.25)
+    assert.ok(Math.abs(calc.kinship(20, 21) - 0.15625) < EPSILON);
+  });
+});
+
+test("KinshipCalculator - Circular parentage", async (t) => {
+  // Bad data: 1's dam is 2 and 2's sire is 1
+  const graph = graphOf([[1, 2, null], [2, null, 1], [3, 2, 1]]);
+
+  await t.test("treats the parent closing the cycle as unknown", () => {
+    const calc = new KinshipCalculator(graph);
+    // 2 is cut back to a founder, so 1 is simply 2's offspring
+    assert.ok(Math.abs(calc.kinship(1, 2) - 0.25) < EPSILON);
+    assert.ok(Math.abs(calc.inbreeding(3) - 0.25) < EPSILON);
+  });
+
+  await t.test("computes COI without overflowing the stack", () => {
+    const result = computeCOIFromGraph(2, 1, graph, 10);
+    assert.ok(Number.isFinite(result.coefficient));
+    assert.strictEqual(graph.get(2)?.sireId, 1, "caller's graph is left untouched");
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// computeCOIFromGraph
+// ─────────────────────────────────────────────────────────────────────────────
+
+test("computeCOIFromGraph - Path breakdown", async (t) => {
+  // Line-bred pedigree: 1 × 2 produce 3 and 4; 3 × 4 produce 5;
+  // 5 is bred back to 4 to produce dam 6, and 3 × 1 produce sire 7.
+  const graph = graphOf([
+    [1, null, null],
+    [2, null, null],
+    [3, 1, 2],
+    [4, 1, 2],
+    [5, 4, 3],
+    [6, 5, 4],
+    [7, 1, 3],
+  ]);
+
+  await t.test("per-path contributions sum to the coefficient", () => {
+    const result = computeCOIFromGraph(6, 7, graph, 10);
+    const pathTotal = (result.paths ?? []).reduce((sum, p) => sum + p.contribution, 0);
+
+    assert.ok(result.coefficient > 0);
+    assert.ok(Math.abs(pathTotal - result.coefficient) < EPSILON);
+    assert.strictEqual(result.pathsTruncated, false);
+  });
+
+  await t.test("common ancestor totals match their paths", () => {
+    const result = computeCOIFromGraph(6, 7, graph, 10);
+    const ancestorTotal = result.commonAncestors.reduce((sum, a) => sum + a.contribution, 0);
+
+    assert.ok(Math.abs(ancestorTotal - result.coefficient) < EPSILON);
+    for (const ancestor of result.commonAncestors) {
+      const paths = (result.paths ?? []).filter((p) => p.ancestorId === ancestor.id);
+      assert.strictEqual(paths.length, ancestor.pathCount);
+    }
+  });
+
+  await t.test("paths never share an animal other than the common ancestor", () => {
+    const result = computeCOIFromGraph(6, 7, graph, 10);
+    for (const path of result.paths ?? []) {
+      const damSide = new Set(path.damPath.slice(0, -1));
+      assert.ok(path.sirePath.slice(0, -1).every((id) => !damSide.has(id)));
+      assert.strictEqual(path.damPath[0], 6);
+      assert.strictEqual(path.sirePath[0], 7);
+    }
+  });
+
+  await t.test("omits paths when not requested", () => {
+    const result = computeCOIFromGraph(6, 7, graph, 10, { includePaths: false });
+
+    assert.ok(result.coefficient > 0);
+    assert.strictEqual(result.paths, undefined);
+    assert.deepStrictEqual(result.commonAncestors, []);
+  });
+
+  await t.test("returns a zero result when a parent is missing", () => {
+    const result = computeCOIFromGraph(6, null, graph, 10);
+
+    assert.strictEqual(result.coefficient, 0);
+    assert.strictEqual(result.riskLevel, "LOW");
+  });
+
+  await t.test("reports risk level from the coefficient", () => {
+    const full = graphOf([[1, null, null], [2, null, null], [3, 1, 2], [4, 1, 2]]);
+    assert.strictEqual(computeCOIFromGraph(3, 4, full, 10).riskLevel, "CRITICAL");
+  });
+
+  await t.test("caps the path pairs examined for a wide inbred pedigree", () => {
+    // Sixteen generations of full-sibling matings: paths to the founders
+    // double every generation on both sides
+    const rows: Array<[number, number | null, number | null]> = [[1, null, null], [2, null, null]];
+    for (let gen = 1; gen <= 16; gen++) {
+      const [dam, sire] = [gen * 2 - 1, gen * 2];
+      rows.push([gen * 2 + 1, dam, sire], [gen * 2 + 2, dam, sire]);
+    }
+    const wide = graphOf(rows);
+
+    const started = Date.now();
+    const result = computeCOIFromGraph(33, 34, wide, 20);
+
+    assert.ok(Date.now() - started < 10_000);
+    assert.ok(result.coefficient > 0.5);
+    assert.strictEqual(result.pathsTruncated, true);
+    assert.strictEqual(result.paths?.length, 200);
+    // The nearest common ancestors are paired first, so they are never cut
+    assert.deepStrictEqual(result.paths?.[0].damPath, [33, 31]);
+    assert.deepStrictEqual(result.paths?.[0].sirePath, [34, 31]);
+  });
+});
+
+test("clampCOIGenerations", async (t) => {
+  await t.test("defaults invalid input", () => {
+    assert.strictEqual(clampCOIGenerations(NaN), COI_DEFAULT_GENERATIONS);
+    assert.strictEqual(clampCOIGenerations(undefined), COI_DEFAULT_GENERATIONS);
+  });
+
+  await t.test("clamps to the supported range", () => {
+    assert.strictEqual(clampCOIGenerations(100), COI_MAX_GENERATIONS);
+    assert.strictEqual(clampCOIGenerations(-3), 1);
+    assert.strictEqual(clampCOIGenerations(6), 6);
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// computePedigreeMetricsFromGraph
+// ─────────────────────────────────────────────────────────────────────────────
+
+test("computePedigreeMetricsFromGraph - Completeness and ancestor loss", async (t) => {
+  // 5 is from a full-sibling mating (3 × 4, both out of 1 × 2); 6 is unrelated
+  const graph = graphOf([
+    [1, null, null],
+    [2, null, null],
+    [3, 1, 2],
+    [4, 1, 2],
+    [5, 3, 4],
+    [6, null, null],
+  ]);
+
+  await t.test("reports known positions per generation", () => {
+    const metrics = computePedigreeMetricsFromGraph(5, graph, 3, []);
+
+    assert.deepStrictEqual(
+      metrics.completeness.map((c) => [c.generation, c.known, c.possible]),
+      [[1, 2, 2], [2, 4, 4], [3, 0, 8]]
+    );
+    assert.strictEqual(metrics.completeness[0].ratio, 1);
+  });
+
+  await t.test("counts repeated ancestors as ancestor loss", () => {
+    const metrics = computePedigreeMetricsFromGraph(5, graph, 3, []);
+
+    // 6 positions filled by 4 distinct animals
+    assert.strictEqual(metrics.knownPositions, 6);
+    assert.strictEqual(metrics.distinctAncestors, 4);
+    assert.ok(Math.abs((metrics.ancestorLossCoefficient ?? 0) - 4 / 6) < EPSILON);
+  });
+
+  await t.test("averages kinship over the population, excluding the animal", () => {
+    const metrics = computePedigreeMetricsFromGraph(3, graph, 3, [3, 4, 6]);
+
+    // f(3,4) = 0.25 (full siblings), f(3,6) = 0
+    assert.strictEqual(metrics.populationSize, 2);
+    assert.ok(Math.abs((metrics.meanKinship ?? 0) - 0.125) < EPSILON);
+  });
+
+  await t.test("returns null metrics for a founder with no population", () => {
+    const metrics = computePedigreeMetricsFromGraph(6, graph, 3, []);
+
+    assert.strictEqual(metrics.ancestorLossCoefficient, null);
+    assert.strictEqual(metrics.meanKinship, null);
+  });
+});
+
+test("computePedigreeMetricsFromGraph - Circular parentage", async (t) => {
+  await t.test("computes metrics once the cycle is cut", () => {
+    // 1's dam is 2 and 2's sire is 1; 3 is out of 2 by 1
+    const graph = breakParentCycles(graphOf([[1, 2, null], [2, null, 1], [3, 2, 1]]));
+    const metrics = computePedigreeMetricsFromGraph(3, graph, 4, [1, 2]);
+
+    assert.deepStrictEqual(metrics.completeness.map((c) => c.known), [2, 1, 0, 0]);
+    assert.strictEqual(metrics.distinctAncestors, 2);
+    assert.ok(metrics.meanKinship !== null && Number.isFinite(metrics.meanKinship));
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit Tests for Marketplace Radius Search
+ *
+ * Tests `near` / `radiusMiles` parsing, great-circle distance, the
+ * bounding-box prefilter, distance filtering and location keys
+ * (no database or network).
+ *
+ * Run: npx tsx --test tests/unit/marketplace-geo.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import {
+  boundingBox,
+  clearListingGeocode,
+  DEFAULT_RADIUS_MILES,
+  filterByDistance,
+  haversineMiles,
+  locationKey,
+  parseNearParam,
+  parseRadiusMiles,
+  publishedLocationParts,
+  radiusForCount,
+  resolveNearSearch,
+  roundMiles,
+} from "../../src/services/marketplace-geo-service.js";
+
+const AUSTIN = { latitude: 30.2672, longitude: -97.7431 };
+const SAN_ANTONIO = { latitude: 29.4241, longitude: -98.4936 };
+const DALLAS = { latitude: 32.7767, longitude: -96.797 };
+
+test("Marketplace Radius Search", async (t) => {
+  await t.test("parses zip codes and lat,lng pairs", () => {
+    assert.deepStrictEqual(parseNearParam("78701"), { kind: "zip", zip: "78701" });
+    assert.deepStrictEqual(parseNearParam(" 78701-1234 "), { kind: "zip", zip: "78701-1234" });
+    assert.deepStrictEqual(parseNearParam("m5v 2t6"), { kind: "zip", zip: "M5V 2T6" });
+    assert.deepStrictEqual(parseNearParam("30.2672,-97.7431"), { kind: "point", point: AUSTIN });
+    assert.deepStrictEqual(parseNearParam("30.2672, -97.7431"), { kind: "point", point: AUSTIN });
+
+    for (const input of ["", "austin", "91,10", "10,181", "1;2", undefined, 78701]) {
+      assert.strictEqual(parseNearParam(input), null, String(input));
+    }
+  });
+
+  await t.test("defaults and bounds the radius", () => {
+    assert.strictEqual(parseRadiusMiles(undefined), DEFAULT_RADIUS_MILES);
+    assert.strictEqual(parseRadiusMiles("25"), 25);
+    assert.strictEqual(parseRadiusMiles("0"), null);
+    assert.strictEqual(parseRadiusMiles("501"), null);
+    assert.strictEqual(parseRadiusMiles("ten"), null);
+  });
+
+  await t.test("rejects malformed near searches before geocoding", async () => {
+    assert.strictEqual(await resolveNearSearch({}), null);
+    assert.deepStrictEqual(await resolveNearSearch({ near: "30.2672,-97.7431", radiusMiles: "50" }), {
+      origin: AUSTIN,
+      radiusMiles: 50,
+    });
+    await assert.rejects(resolveNearSearch({ near: "austin" }), { message: "invalid_near", statusCode: 400 });
+    await assert.rejects(resolveNearSearch({ near: "30,-97", radiusMiles: "-5" }), {
+      message: "invalid_radius",
+      statusCode: 400,
+    });
+  });
+
+  await t.test("computes great-circle distances in miles", () => {
+    assert.strictEqual(roundMiles(haversineMiles(AUSTIN, SAN_ANTONIO)), 73.6);
+    assert.strictEqual(roundMiles(haversineMiles(AUSTIN, DALLAS)), 182.1);
+    assert.strictEqual(haversineMiles(AUSTIN, AUSTIN), 0);
+  });
+
+  await t.test("bounding box contains every point within the radius", () => {
+    const box = boundingBox(AUSTIN, 100);
+    assert.ok(box.minLat < SAN_ANTONIO.latitude && SAN_ANTONIO.latitude < box.maxLat);
+    assert.ok(box.minLng < SAN_ANTONIO.longitude && SAN_ANTONIO.longitude < box.maxLng);
+    assert.ok(DALLAS.latitude > box.maxLat);
+
+    // Due east at the radius, at the box's widest latitude
+    const edge = { latitude: box.maxLat, longitude: box.maxLng };
+    assert.ok(haversineMiles({ latitude: box.maxLat, longitude: AUSTIN.longitude }, edge) >= 99.9);
+
+    // Crossing the antimeridian or near a pole widens to all longitudes
+    assert.deepStrictEqual(
+      [boundingBox({ latitude: 0, longitude: 179.5 }, 100).minLng, boundingBox({ latitude: 89.5, longitude: 0 }, 100).maxLng],
+      [-180, 180]
+    );
+  });
+
+  await t.test("filters by radius and sorts nearest first", () => {
+    const rows = [
+      { id: 1, latitude: String(DALLAS.latitude), longitude: String(DALLAS.longitude) },
+      { id: 2, latitude: null, longitude: null },
+      { id: 3, latitude: SAN_ANTONIO.latitude, longitude: SAN_ANTONIO.longitude },
+      { id: 4, latitude: AUSTIN.latitude, longitude: AUSTIN.longitude },
+    ];
+
+    const within100 = filterByDistance(rows, { origin: AUSTIN, radiusMiles: 100 });
+    assert.deepStrictEqual(within100.map((m) => m.row.id), [4, 3]);
+    assert.strictEqual(within100[0].distanceMiles, 0);
+
+    const within200 = filterByDistance(rows, { origin: AUSTIN, radiusMiles: 200 });
+    assert.deepStrictEqual(within200.map((m) => m.row.id), [4, 3, 1]);
+  });
+
+  await t.test("shrinks the radius of a dense search to fit the candidate cap", () => {
+    assert.strictEqual(radiusForCount(100, 1500, 2000), 100);
+    // Four times the rows: half the radius holds a quarter of the area, less a margin
+    const shrunk = radiusForCount(100, 8000, 2000);
+    assert.ok(shrunk < 50 && shrunk > 40);
+  });
+
+  await t.test("normalizes location keys and clears moved listings", () => {
+    assert.strictEqual(locationKey({ city: " Austin ", state: "TX", zip: "78701" }), "78701|austin|tx|us");
+    assert.strictEqual(locationKey({ city: "Austin", state: null, zip: null }), null);
+    assert.strictEqual(locationKey({ zip: "M5V 2T6", country: "CA" }), "m5v 2t6|||ca");
+
+    // Breeders are geocoded from what their location mode shows, never more
+    const profile = (publicLocationMode: string) => ({
+      published: { publicLocationMode, address: { street: "1 Main St", city: "Austin", state: "TX", zip: "78701" } },
+    });
+    assert.deepStrictEqual(publishedLocationParts(profile("city_state")), { city: "Austin", state: "TX", country: undefined });
+    assert.deepStrictEqual(publishedLocationParts(profile("zip_only")), { zip: "78701", country: undefined });
+    assert.strictEqual(locationKey(publishedLocationParts(profile("full"))!), "78701|austin|tx|us");
+    assert.strictEqual(publishedLocationParts(profile("hidden")), null);
+
+    assert.deepStrictEqual(clearListingGeocode({ title: "Grooming" }), { title: "Grooming" });
+    assert.deepStrictEqual(clearListingGeocode({ zip: "78701" }), {
+      zip: "78701",
+      latitude: null,
+      longitude: null,
+      geocodedAt: null,
+    });
+  });
+});
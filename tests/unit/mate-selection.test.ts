@@ -0,0 +1,87 @@
+/**
+ * Unit Tests for the Mate-Selection Optimizer
+ *
+ * Tests the pairing assignment solver without requiring a running server
+ * or database.
+ *
+ * Run: npx tsx --test tests/unit/mate-selection.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { optimizePairings } from "../../src/services/mate-selection-service.js";
+
+function costTable(table: Record<number, Record<number, number | null>>) {
+  return (damId: number, sireId: number) => table[damId]?.[sireId] ?? null;
+}
+
+test("optimizePairings - Unlimited sire capacity", async (t) => {
+  await t.test("assigns every dam to her lowest-COI sire", () => {
+    const cost = costTable({
+      1: { 10: 0.2, 11: 0.05 },
+      2: { 10: 0.01, 11: 0.3 },
+      3: { 10: 0.12, 11: 0.06 },
+    });
+
+    const plan = optimizePairings([1, 2, 3], [10, 11], cost);
+
+    assert.strictEqual(plan.get(1), 11);
+    assert.strictEqual(plan.get(2), 10);
+    assert.strictEqual(plan.get(3), 11);
+  });
+});
+
+test("optimizePairings - Sire capacity", async (t) => {
+  await t.test("minimizes total COI instead of choosing greedily", () => {
+    // Both dams prefer sire 10; the optimal plan gives him dam 2.
+    const cost = costTable({
+      1: { 10: 0.1, 11: 0.2 },
+      2: { 10: 0.1, 11: 0.5 },
+    });
+
+    const plan = optimizePairings([1, 2], [10, 11], cost, 1);
+
+    assert.strictEqual(plan.get(1), 11);
+    assert.strictEqual(plan.get(2), 10);
+  });
+
+  await t.test("leaves dams unassigned when capacity runs out", () => {
+    const cost = costTable({
+      1: { 10: 0.1 },
+      2: { 10: 0.2 },
+      3: { 10: 0.3 },
+    });
+
+    const plan = optimizePairings([1, 2, 3], [10], cost, 2);
+
+    assert.strictEqual(plan.size, 2);
+    assert.strictEqual(plan.has(3), false);
+  });
+});
+
+test("optimizePairings - Blocked pairings", async (t) => {
+  await t.test("never assigns a disallowed pairing", () => {
+    const cost = costTable({
+      1: { 10: null, 11: 0.3 },
+      2: { 10: null, 11: null },
+    });
+
+    const plan = optimizePairings([1, 2], [10, 11], cost);
+
+    assert.strictEqual(plan.get(1), 11);
+    assert.strictEqual(plan.has(2), false);
+  });
+
+  await t.test("prefers assigning more dams over a lower average", () => {
+    // Dam 1 alone with sire 10 is cheapest, but then dam 2 has no sire.
+    const cost = costTable({
+      1: { 10: 0.01, 11: 0.2 },
+      2: { 10: 0.05, 11: null },
+    });
+
+    const plan = optimizePairings([1, 2], [10, 11], cost, 1);
+
+    assert.strictEqual(plan.get(1), 11);
+    assert.strictEqual(plan.get(2), 10);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Unit Tests for SMS / WhatsApp Messaging
+ *
+ * Tests phone number normalization, opt keyword parsing, inbound Twilio
+ * signature checks, the stub provider and verification code hashing
+ * (no database or network).
+ *
+ * Run: npx tsx --test tests/unit/messaging.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { createHmac } from "node:crypto";
+import {
+  createStubProvider,
+  generateVerificationCode,
+  hashVerificationCode,
+  normalizePhoneE164,
+  parseOptKeyword,
+  truncateMessage,
+  verifyTwilioSignature,
+} from "../../src/services/messaging/index.js";
+
+test("Messaging", async (t) => {
+  await t.test("normalizes phone numbers to E.164", () => {
+    assert.strictEqual(normalizePhoneE164("(555) 234-5678"), "+15552345678");
+    assert.strictEqual(normalizePhoneE164("1 555 234 5678"), "+15552345678");
+    assert.strictEqual(normalizePhoneE164("+44 20 7946 0958"), "+442079460958");
+    assert.strictEqual(normalizePhoneE164("0044 20 7946 0958"), "+442079460958");
+    assert.strictEqual(normalizePhoneE164("whatsapp:+15552345678"), "+15552345678");
+
+    for (const input of ["", "12345", "055-234-5678", "+0123456789", "555-CALL-NOW", "+1234567890123456"]) {
+      assert.strictEqual(normalizePhoneE164(input), null, input);
+    }
+  });
+
+  await t.test("recognizes carrier opt-out and opt-in keywords", () => {
+    for (const body of ["STOP", "stop", " Unsubscribe ", "Cancel.", "quit!", "STOPALL", "END"]) {
+      assert.strictEqual(parseOptKeyword(body), "opt_out", body);
+    }
+    for (const body of ["START", "yes", "Unstop"]) {
+      assert.strictEqual(parseOptKeyword(body), "opt_in", body);
+    }
+    for (const body of ["Please stop texting me", "thanks", "", null]) {
+      assert.strictEqual(parseOptKeyword(body), null, String(body));
+    }
+  });
+
+  await t.test("verifies Twilio request signatures", () => {
+    const token = "test_auth_token";
+    const url = "https://api.breederhq.com/api/v1/webhooks/twilio/inbound";
+    const params = { MessageSid: "SM123", From: "+15552345678", Body: "STOP", To: "+15550001111" };
+    const data = `${url}BodySTOPFrom+15552345678MessageSidSM123To+15550001111`;
+    const signature = createHmac("sha1", token).update(data).digest("base64");
+
+    assert.strictEqual(verifyTwilioSignature(token, url, params, signature), true);
+    assert.strictEqual(verifyTwilioSignature(token, url, { ...params, Body: "START" }, signature), false);
+    assert.strictEqual(verifyTwilioSignature("other_token", url, params, signature), false);
+    assert.strictEqual(verifyTwilioSignature(token, url, params, undefined), false);
+    assert.strictEqual(verifyTwilioSignature(token, url, params, "bm90IGEgc2ln"), false);
+  });
+
+  await t.test("stub provider records messages and counts segments", async () => {
+    const provider = createStubProvider({ silent: true });
+
+    const short = await provider.send({ channel: "SMS", to: "+15552345678", body: "Foaling overdue: Bella" });
+    const long = await provider.send({ channel: "WHATSAPP", to: "+15552345678", body: "x".repeat(400) });
+
+    assert.strictEqual(provider.name, "stub");
+    assert.deepStrictEqual(
+      provider.outbox.map((m) => [m.channel, m.to]),
+      [["SMS", "+15552345678"], ["WHATSAPP", "+15552345678"]]
+    );
+    assert.ok(short.ok && short.segments === 1 && short.providerMessageId.startsWith("stub_"));
+    assert.ok(long.ok && long.segments === 3);
+  });
+
+  await t.test("truncates long bodies with an ellipsis", () => {
+    assert.strictEqual(truncateMessage("  Contract  expiring\ntomorrow "), "Contract expiring tomorrow");
+    const cut = truncateMessage("a".repeat(50), 20);
+    assert.strictEqual(cut.length, 20);
+    assert.ok(cut.endsWith("…"));
+  });
+
+  await t.test("generates 6-digit codes and stores only their hash", () => {
+    const code = generateVerificationCode();
+    assert.match(code, /^\d{6}$/);
+    assert.match(hashVerificationCode(code), /^[0-9a-f]{64}$/);
+    assert.strictEqual(hashVerificationCode(` ${code} `), hashVerificationCode(code));
+    assert.notStrictEqual(hashVerificationCode("000000"), hashVerificationCode("000001"));
+  });
+});
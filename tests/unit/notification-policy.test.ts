@@ -0,0 +1,126 @@
+/**
+ * Unit Tests for Notification Delivery Policies
+ *
+ * Tests time zone handling, quiet hours, digest scheduling, digest grouping
+ * by notification family and escalation timing (no database).
+ *
+ * Run: npx tsx --test tests/unit/notification-policy.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import {
+  buildEscalationSteps,
+  decideDelivery,
+  groupByFamily,
+  isEscalationDue,
+  isInQuietHours,
+  nextDigestAt,
+  notificationFamily,
+  quietHoursEndAt,
+  resolveTimeZone,
+  zonedTimeToUtc,
+  type DeliveryPolicyPrefs,
+} from "../../src/services/notification-policy.js";
+
+const NY = "America/New_York";
+
+const prefs = (overrides: Partial<DeliveryPolicyPrefs> = {}): DeliveryPolicyPrefs => ({
+  deliveryMode: "IMMEDIATE",
+  digestHour: 7,
+  digestWeekday: 1,
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  ...overrides,
+});
+
+test("Notification Delivery Policies", async (t) => {
+  await t.test("resolves the user's, then the tenant's, then UTC time zone", () => {
+    assert.strictEqual(resolveTimeZone("Europe/Berlin", NY), "Europe/Berlin");
+    assert.strictEqual(resolveTimeZone("Not/AZone", NY), NY);
+    assert.strictEqual(resolveTimeZone(null, null), "UTC");
+  });
+
+  await t.test("converts local wall time to UTC across DST", () => {
+    // EDT (UTC-4) in October, EST (UTC-5) in December
+    assert.strictEqual(zonedTimeToUtc(2026, 10, 19, 7, 0, NY).toISOString(), "2026-10-19T11:00:00.000Z");
+    assert.strictEqual(zonedTimeToUtc(2026, 12, 1, 7, 0, NY).toISOString(), "2026-12-01T12:00:00.000Z");
+    // 02:30 doesn't exist on the spring-forward night; it runs at 03:30 EDT
+    assert.strictEqual(zonedTimeToUtc(2026, 3, 8, 2, 30, NY).toISOString(), "2026-03-08T07:30:00.000Z");
+    // Day overflow rolls into the next month
+    assert.strictEqual(zonedTimeToUtc(2026, 10, 32, 0, 30, "UTC").toISOString(), "2026-11-01T00:30:00.000Z");
+  });
+
+  await t.test("detects quiet hours, including windows that wrap midnight", () => {
+    // 23:30 in New York
+    const lateNight = new Date("2026-10-20T03:30:00Z");
+    assert.strictEqual(isInQuietHours(lateNight, NY, "22:00", "07:00"), true);
+    assert.strictEqual(isInQuietHours(lateNight, NY, "12:00", "14:00"), false);
+    assert.strictEqual(isInQuietHours(lateNight, NY, "22:00", "22:00"), false);
+    assert.strictEqual(isInQuietHours(lateNight, NY, null, "07:00"), false);
+
+    assert.strictEqual(quietHoursEndAt(lateNight, NY, "07:00").toISOString(), "2026-10-20T11:00:00.000Z");
+  });
+
+  await t.test("schedules the next daily and weekly digest in local time", () => {
+    // Monday 2026-10-19, 09:00 in New York
+    const now = new Date("2026-10-19T13:00:00Z");
+    assert.strictEqual(nextDigestAt(now, NY, "DAILY_DIGEST", 7, 1).toISOString(), "2026-10-20T11:00:00.000Z");
+    assert.strictEqual(nextDigestAt(now, NY, "DAILY_DIGEST", 18, 1).toISOString(), "2026-10-19T22:00:00.000Z");
+    // Monday's slot has passed: next Monday. Friday: this week.
+    assert.strictEqual(nextDigestAt(now, NY, "WEEKLY_DIGEST", 7, 1).toISOString(), "2026-10-26T11:00:00.000Z");
+    assert.strictEqual(nextDigestAt(now, NY, "WEEKLY_DIGEST", 7, 5).toISOString(), "2026-10-23T11:00:00.000Z");
+  });
+
+  await t.test("lets URGENT bypass digests and quiet hours", () => {
+    const lateNight = new Date("2026-10-20T03:30:00Z");
+    const quiet = prefs({ quietHoursStart: "22:00", quietHoursEnd: "07:00" });
+
+    assert.deepStrictEqual(decideDelivery("URGENT", quiet, NY, lateNight), { action: "send" });
+    assert.deepStrictEqual(decideDelivery("URGENT", prefs({ deliveryMode: "DAILY_DIGEST" }), NY, lateNight), { action: "send" });
+    assert.deepStrictEqual(decideDelivery("HIGH", null, NY, lateNight), { action: "send" });
+
+    assert.deepStrictEqual(decideDelivery("HIGH", quiet, NY, lateNight), {
+      action: "queue",
+      reason: "QUIET_HOURS",
+      deliverAfter: new Date("2026-10-20T11:00:00Z"),
+    });
+    assert.deepStrictEqual(decideDelivery("LOW", prefs({ deliveryMode: "DAILY_DIGEST" }), NY, lateNight), {
+      action: "queue",
+      reason: "DIGEST",
+      deliverAfter: new Date("2026-10-20T11:00:00Z"),
+    });
+  });
+
+  await t.test("groups digest items by notification family", () => {
+    assert.strictEqual(notificationFamily("foaling_overdue"), "foaling");
+    assert.strictEqual(notificationFamily("breeding_window_approaching"), "breeding");
+    assert.strictEqual(notificationFamily("breeding_data_agreement_request"), "marketplace");
+    assert.strictEqual(notificationFamily("guarantee_expired"), "contract");
+    assert.strictEqual(notificationFamily("system_announcement"), "other");
+
+    const groups = groupByFamily([
+      { type: "system_announcement" },
+      { type: "contract_expired" },
+      { type: "vaccination_overdue" },
+      { type: "vaccination_expiring_7d" },
+    ]);
+    assert.deepStrictEqual(
+      groups.map((g) => [g.label, g.items.length]),
+      [["Vaccinations", 2], ["Contracts & Guarantees", 1], ["Other", 1]]
+    );
+  });
+
+  await t.test("escalates one step per interval through the chain, then the owners", () => {
+    assert.deepStrictEqual(buildEscalationSteps(["u2", "u3"], ["u1", "u3"]), [["u2"], ["u3"], ["u1"]]);
+    assert.deepStrictEqual(buildEscalationSteps([], ["u1"]), [["u1"]]);
+
+    const created = new Date("2026-10-19T00:00:00Z");
+    const at = (hours: number) => new Date(created.getTime() + hours * 3600_000);
+    assert.strictEqual(isEscalationDue(created, 0, 4, 3, at(3.9)), false);
+    assert.strictEqual(isEscalationDue(created, 0, 4, 3, at(4)), true);
+    assert.strictEqual(isEscalationDue(created, 1, 4, 3, at(7)), false);
+    assert.strictEqual(isEscalationDue(created, 1, 4, 3, at(8)), true);
+    assert.strictEqual(isEscalationDue(created, 3, 4, 3, at(100)), false);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Unit Tests for Profit & Loss Attribution
+ *
+ * Tests revenue/cost attribution to plans, offspring, animals and programs,
+ * shared dam cost allocation, semen cost transfer and the CSV views, using
+ * hand-built facts (no database).
+ *
+ * Run: npx tsx --test tests/unit/profit-loss.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import {
+  buildProfitLossReport,
+  feedingCostFacts,
+  profitLossCsv,
+  splitCents,
+  type PnlSourceData,
+} from "../../src/services/finance/profit-loss.js";
+
+const d = (iso: string) => new Date(`${iso}T00:00:00Z`);
+const range = { from: d("2026-01-01"), to: d("2027-01-01") };
+
+function sourceData(): PnlSourceData {
+  return {
+    plans: [
+      {
+        id: 1,
+        name: "Spring litter",
+        programId: 5,
+        programName: "Goldens",
+        damId: 10,
+        sharedCostWindow: { start: d("2026-02-01"), end: d("2026-05-31") },
+      },
+      { id: 2, name: "Fall litter", programId: null, programName: null, damId: 11, sharedCostWindow: null },
+    ],
+    offspring: [
+      { id: 100, name: "Red", planId: 1, alive: true },
+      { id: 101, name: "Blue", planId: 1, alive: true },
+      { id: 102, name: "Green", planId: 1, alive: false },
+    ],
+    animals: [
+      { id: 10, name: "Daisy" },
+      { id: 20, name: "Duke" },
+    ],
+    revenue: [
+      { invoiceId: 1, amountCents: 300000, date: d("2026-06-01"), offspringId: 100, planId: null, animalId: null },
+      { invoiceId: 2, amountCents: 50000, date: d("2026-03-01"), offspringId: null, planId: 1, animalId: null },
+      { invoiceId: 3, amountCents: 80000, date: d("2026-04-01"), offspringId: null, planId: null, animalId: 20 },
+      { invoiceId: 4, amountCents: 1000, date: d("2026-04-01"), offspringId: null, planId: null, animalId: null },
+    ],
+    costs: [
+      // Direct litter cost
+      { source: "expense", sourceId: 1, category: "VET", amountCents: 40001, date: d("2026-05-01"), planId: 1, animalId: null },
+      // Dam's feed during gestation: allocated to the litter
+      { source: "expense", sourceId: 2, category: "FOOD", amountCents: 12000, date: d("2026-03-15"), planId: null, animalId: 10 },
+      { source: "feeding", sourceId: 3, category: "FEED_LOG", amountCents: 3000, date: d("2026-04-15"), planId: null, animalId: 10 },
+      // Dam's feed outside the window, and a non-shared category: stays with the dam
+      { source: "expense", sourceId: 4, category: "FOOD", amountCents: 5000, date: d("2026-08-01"), planId: null, animalId: 10 },
+      { source: "expense", sourceId: 5, category: "REGISTRATION", amountCents: 2500, date: d("2026-03-20"), planId: null, animalId: 10 },
+      // Stallion collection cost
+      { source: "expense", sourceId: 6, category: "BREEDING", amountCents: 20000, date: d("2026-01-20"), planId: null, animalId: 20 },
+      // Overhead
+      { source: "expense", sourceId: 7, category: "FACILITY", amountCents: 7000, date: d("2026-02-01"), planId: null, animalId: null },
+    ],
+    semen: [{ usageId: 1, stallionId: 20, planId: 1, doses: 2, amountCents: 4000, date: d("2026-02-03") }],
+  };
+}
+
+test("Profit & Loss Attribution", async (t) => {
+  await t.test("splits cents into shares that add up exactly", () => {
+    assert.deepStrictEqual(splitCents(1000, 3), [334, 333, 333]);
+    assert.deepStrictEqual(splitCents(-5, 2), [-3, -2]);
+    assert.deepStrictEqual(splitCents(100, 0), []);
+  });
+
+  await t.test("attributes revenue and allocates shared dam costs to the litter", () => {
+    const report = buildProfitLossReport(sourceData(), range);
+    const plan = report.plans.find((p) => p.planId === 1)!;
+
+    assert.strictEqual(plan.revenueCents, 350000);
+    assert.strictEqual(plan.unassignedRevenueCents, 50000);
+    assert.strictEqual(plan.directCostCents, 40001);
+    assert.strictEqual(plan.allocatedCostCents, 12000 + 3000 + 4000);
+    assert.strictEqual(plan.costCents, 59001);
+    assert.strictEqual(plan.netCents, 290999);
+    assert.deepStrictEqual(plan.costByCategory, { VET: 40001, FOOD: 12000, FEED_LOG: 3000, SEMEN: 4000 });
+    assert.strictEqual(report.plans.some((p) => p.planId === 2), false);
+  });
+
+  await t.test("spreads the litter's cost over live offspring as their cost basis", () => {
+    const plan = buildProfitLossReport(sourceData(), range).plans[0];
+    const [red, blue, green] = plan.offspring;
+
+    assert.deepStrictEqual([red.costBasisCents, blue.costBasisCents, green.costBasisCents], [29501, 29500, 0]);
+    assert.strictEqual(red.revenueCents, 300000);
+    assert.strictEqual(red.marginCents, 270499);
+    assert.strictEqual(red.marginPct, 90.2);
+    assert.strictEqual(blue.marginCents, -29500);
+    assert.strictEqual(blue.marginPct, null);
+  });
+
+  await t.test("moves allocated costs out of the dam's and stallion's net", () => {
+    const report = buildProfitLossReport(sourceData(), range);
+    const dam = report.animals.find((a) => a.animalId === 10)!;
+    const stallion = report.animals.find((a) => a.animalId === 20)!;
+
+    assert.strictEqual(dam.costCents, 12000 + 3000 + 5000 + 2500);
+    assert.strictEqual(dam.allocatedToPlansCents, 15000);
+    assert.strictEqual(dam.netCents, -7500);
+
+    assert.strictEqual(stallion.revenueCents, 80000);
+    assert.strictEqual(stallion.allocatedToPlansCents, 4000);
+    assert.strictEqual(stallion.netCents, 80000 - 20000 + 4000);
+  });
+
+  await t.test("totals count every fact once and roll plans up into programs", () => {
+    const report = buildProfitLossReport(sourceData(), range);
+
+    assert.strictEqual(report.totals.revenueCents, 431000);
+    assert.strictEqual(report.totals.costCents, 40001 + 12000 + 3000 + 5000 + 2500 + 20000 + 7000);
+    assert.strictEqual(report.totals.unattributedRevenueCents, 1000);
+    assert.strictEqual(report.totals.unattributedCostCents, 7000);
+    assert.deepStrictEqual(report.programs, [
+      { programId: 5, name: "Goldens", planCount: 1, revenueCents: 350000, costCents: 59001, netCents: 290999, marginPct: 83.1 },
+    ]);
+  });
+
+  await t.test("counts litter feedings under their plan", () => {
+    const feedings = feedingCostFacts(
+      [{ animalId: 10, days: [{ date: "2026-04-15", costCents: 3000 }] }],
+      [
+        // Litter feeding: plan only
+        { id: 50, costCents: 1800, fedAt: d("2026-09-10"), planId: 2, animalId: null },
+        // Dam fed against the plan
+        { id: 51, costCents: 700, fedAt: d("2026-09-11"), planId: 2, animalId: 11 },
+      ]
+    );
+    assert.deepStrictEqual(
+      feedings.map((f) => [f.sourceId, f.planId, f.animalId, f.amountCents]),
+      [[10, null, 10, 3000], [50, 2, null, 1800], [51, 2, 11, 700]]
+    );
+
+    const data = sourceData();
+    data.costs = [...data.costs.filter((c) => c.source !== "feeding"), ...feedings];
+    const report = buildProfitLossReport(data, range);
+    const fall = report.plans.find((p) => p.planId === 2)!;
+
+    assert.strictEqual(fall.directCostCents, 2500);
+    assert.strictEqual(report.totals.costCents, 40001 + 12000 + 3000 + 5000 + 2500 + 20000 + 7000 + 2500);
+  });
+
+  await t.test("writes each view as CSV", () => {
+    const report = buildProfitLossReport(sourceData(), range);
+
+    const plans = profitLossCsv(report, "plans").split("\r\n");
+    assert.strictEqual(plans[0], "plan_id,plan,program,offspring,revenue,unassigned_revenue,direct_cost,allocated_cost,cost,net,margin_pct");
+    assert.strictEqual(plans[1], "1,Spring litter,Goldens,3,3500.00,500.00,400.01,190.00,590.01,2909.99,83.1");
+
+    const offspring = profitLossCsv(report, "offspring").split("\r\n");
+    assert.strictEqual(offspring.length, 5);
+    assert.strictEqual(offspring[3], "1,Spring litter,102,Green,false,0.00,0.00,0.00,");
+
+    const animals = profitLossCsv(report, "animals").split("\r\n");
+    assert.ok(animals.includes("10,Daisy,0.00,225.00,150.00,-75.00,"));
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Unit Tests for hide_photos_until_age Enforcement
+ *
+ * Tests the photo visibility check used by the public offspring/listing DTOs
+ * without requiring a running server or database.
+ *
+ * Run: npx tsx --test tests/unit/rule-engine-photos.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import type { BreedingProgramRule } from "@prisma/client";
+import { arePhotosHiddenByRule } from "../../src/lib/rule-engine.js";
+
+function hideRule(config: Record<string, unknown>, enabled = true): BreedingProgramRule {
+  return {
+    id: 1,
+    tenantId: 1,
+    category: "VISIBILITY",
+    ruleType: "hide_photos_until_age",
+    name: "Hide photos",
+    description: null,
+    enabled,
+    config,
+    level: "PLAN",
+    levelId: "1",
+    inheritsFromId: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  } as BreedingProgramRule;
+}
+
+const NOW = new Date("2026-06-01T00:00:00Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+test("arePhotosHiddenByRule", async (t) => {
+  await t.test("hides photos until the configured age", () => {
+    const rule = hideRule({ ageWeeks: 4 });
+
+    assert.strictEqual(arePhotosHiddenByRule(rule, new Date(NOW.getTime() - 27 * DAY_MS), NOW), true);
+    assert.strictEqual(arePhotosHiddenByRule(rule, new Date(NOW.getTime() - 28 * DAY_MS), NOW), false);
+  });
+
+  await t.test("hides photos of offspring with no birth date", () => {
+    assert.strictEqual(arePhotosHiddenByRule(hideRule({ ageWeeks: 4 }), null, NOW), true);
+  });
+
+  await t.test("shows photos when no rule applies", () => {
+    const bornAt = new Date(NOW.getTime() - DAY_MS);
+
+    assert.strictEqual(arePhotosHiddenByRule(null, bornAt, NOW), false);
+    assert.strictEqual(arePhotosHiddenByRule(hideRule({ ageWeeks: 4 }, false), bornAt, NOW), false);
+    assert.strictEqual(arePhotosHiddenByRule(hideRule({}), bornAt, NOW), false);
+  });
+});
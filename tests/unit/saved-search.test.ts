@@ -0,0 +1,129 @@
+/**
+ * Unit Tests for Marketplace Saved Searches
+ *
+ * Tests filter validation, filters per target, alert scheduling by
+ * frequency, the per-target where clauses and match details
+ * (no database or network).
+ *
+ * Run: npx tsx --test tests/unit/saved-search.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { savedSearchCreateSchema, savedSearchUpdateSchema } from "../../src/validation/saved-searches.js";
+import {
+  animalListingWhere,
+  breedingListingWhere,
+  dueSavedSearchesWhere,
+  isSearchDue,
+  matchDetail,
+  prepareFilters,
+  serviceListingWhere,
+} from "../../src/services/saved-search-service.js";
+
+const AUSTIN = { latitude: 30.2672, longitude: -97.7431 };
+const since = new Date("2026-10-18T12:00:00Z");
+const until = new Date("2026-10-19T12:00:00Z");
+
+test("Marketplace Saved Searches", async (t) => {
+  await t.test("validates filters and leaves omitted filters alone on update", () => {
+    const created = savedSearchCreateSchema.parse({ name: "Goldens", target: "ANIMAL_LISTING" });
+    assert.deepStrictEqual(created.filters, {});
+    assert.strictEqual(savedSearchUpdateSchema.parse({ name: "Goldens" }).filters, undefined);
+
+    const invalid = [
+      { priceMinCents: 500, priceMaxCents: 100 },
+      { radiusMiles: 25 },
+      { near: "78701", radiusMiles: 501 },
+      { color: "red" },
+    ];
+    for (const filters of invalid) {
+      assert.strictEqual(
+        savedSearchCreateSchema.safeParse({ name: "x", target: "ANIMAL_LISTING", filters }).success,
+        false,
+        JSON.stringify(filters)
+      );
+    }
+  });
+
+  await t.test("rejects filters the target doesn't support and resolves near", async () => {
+    await assert.rejects(prepareFilters("SERVICE_LISTING", { species: "DOG" }), {
+      message: "unsupported_filter",
+      statusCode: 400,
+    });
+    await assert.rejects(prepareFilters("ANIMAL_LISTING", { intent: "OFFERING" }), { message: "unsupported_filter" });
+
+    assert.deepStrictEqual(await prepareFilters("BREEDING_LISTING", { near: "30.2672,-97.7431" }), {
+      near: "30.2672,-97.7431",
+      origin: AUSTIN,
+      radiusMiles: 100,
+    });
+  });
+
+  await t.test("checks searches by frequency", () => {
+    const last = new Date("2026-10-18T12:45:00Z");
+    const at = (hours: number) => new Date(last.getTime() + hours * 3600_000);
+
+    assert.strictEqual(isSearchDue("INSTANT", last, at(1)), true);
+    assert.strictEqual(isSearchDue("DAILY", last, at(23)), false);
+    // A run a minute early still counts as a day
+    assert.strictEqual(isSearchDue("DAILY", last, at(24 - 1 / 60)), true);
+    assert.strictEqual(isSearchDue("WEEKLY", last, at(24 * 6)), false);
+    assert.strictEqual(isSearchDue("WEEKLY", last, at(24 * 7)), true);
+    assert.strictEqual(isSearchDue("OFF", last, at(24 * 365)), false);
+
+    // The query applies the same cutoffs, so OFF and not-yet-due rows never fill the batch
+    assert.deepStrictEqual(dueSavedSearchesWhere(until), {
+      OR: [
+        { frequency: "INSTANT", lastCheckedAt: { lt: until } },
+        { frequency: "DAILY", lastCheckedAt: { lte: new Date("2026-10-18T12:05:00Z") } },
+        { frequency: "WEEKLY", lastCheckedAt: { lte: new Date("2026-10-12T12:05:00Z") } },
+      ],
+    });
+  });
+
+  await t.test("builds service and breeding listing where clauses", () => {
+    const window = { since, until };
+    assert.deepStrictEqual(serviceListingWhere({ category: "Grooming", priceMaxCents: 5000 }, window), {
+      status: "LIVE",
+      deletedAt: null,
+      publishedAt: { gt: since, lte: until },
+      category: "grooming",
+      priceCents: { lte: 5000n },
+    });
+
+    assert.deepStrictEqual(
+      breedingListingWhere({ species: "HORSE", intent: "OFFERING", priceMinCents: 100000, breederSlug: "acme" }, window),
+      {
+        publicEnabled: true,
+        status: "PUBLISHED",
+        publishedAt: { gt: since, lte: until },
+        species: "HORSE",
+        intent: "OFFERING",
+        tenant: { slug: "acme" },
+        feeCents: { gte: 100000 },
+      }
+    );
+  });
+
+  await t.test("filters animal listings through the animal and price ranges", () => {
+    const where = animalListingWhere({ species: "DOG", sex: "FEMALE", priceMaxCents: 200000 }, { since, until });
+    assert.deepStrictEqual(where.animal, { species: "DOG", sex: "FEMALE" });
+    assert.deepStrictEqual(where.AND, [
+      {
+        OR: [
+          { priceCents: { lte: 200000 } },
+          { priceMaxCents: { lte: 200000 } },
+          { priceModel: "inquire" },
+        ],
+      },
+    ]);
+    assert.strictEqual(animalListingWhere({}, { since, until }).animal, undefined);
+  });
+
+  await t.test("summarizes price, place and distance", () => {
+    assert.strictEqual(matchDetail("$1,500", ["Austin", "TX"], 12.3), "$1,500 · Austin, TX · 12.3 mi");
+    assert.strictEqual(matchDetail(null, [null, "TX"], null), "TX");
+    assert.strictEqual(matchDetail(null, [null, null], null), null);
+  });
+});
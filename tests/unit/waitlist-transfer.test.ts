@@ -0,0 +1,135 @@
+/**
+ * Unit Tests for Waitlist Transfers
+ *
+ * Tests where a transferred entry lands in line, how the deposit splits
+ * between refund and carried-over credit, which plan buyer link moves with
+ * the entry, and the invoice update a refund makes (no database).
+ *
+ * Run: npx tsx --test tests/unit/waitlist-transfer.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import {
+  settleTransferDeposit,
+  transferQueuePlacement,
+  transferSourceLink,
+} from "../../src/services/waitlist-transfer.js";
+import { invoiceRefundUpdate } from "../../src/services/finance/payment-service.js";
+
+test("Waitlist Transfer - Queue placement", async (t) => {
+  await t.test("keeps the entry's position and shifts the rest back", () => {
+    assert.deepStrictEqual(transferQueuePlacement("KEEP_POSITION", 3, 8), { priority: 3, shiftFrom: 3 });
+  });
+
+  await t.test("puts the entry last without shifting anyone", () => {
+    assert.deepStrictEqual(transferQueuePlacement("END_OF_LIST", 3, 8), { priority: 9, shiftFrom: null });
+    assert.deepStrictEqual(transferQueuePlacement("END_OF_LIST", 3, null), { priority: 1, shiftFrom: null });
+  });
+
+  await t.test("goes last when there is no position to keep", () => {
+    assert.deepStrictEqual(transferQueuePlacement("KEEP_POSITION", null, 4), { priority: 5, shiftFrom: null });
+    assert.deepStrictEqual(transferQueuePlacement("KEEP_POSITION", 0, 4), { priority: 5, shiftFrom: null });
+  });
+});
+
+test("Waitlist Transfer - Deposit", async (t) => {
+  const invoice = { paidCents: 50_000, refundedCents: 10_000 };
+
+  await t.test("carries the held deposit over as credit", () => {
+    assert.deepStrictEqual(settleTransferDeposit({ invoice, depositPaidCents: null, refundCents: 0 }), {
+      heldCents: 40_000,
+      creditCents: 40_000,
+      disposition: "CARRIED_OVER",
+    });
+  });
+
+  await t.test("credits what is left after a partial refund", () => {
+    assert.deepStrictEqual(settleTransferDeposit({ invoice, depositPaidCents: null, refundCents: 15_000 }), {
+      heldCents: 40_000,
+      creditCents: 25_000,
+      disposition: "CARRIED_OVER",
+    });
+  });
+
+  await t.test("marks a full refund as refunded", () => {
+    assert.deepStrictEqual(settleTransferDeposit({ invoice, depositPaidCents: null, refundCents: 40_000 }), {
+      heldCents: 40_000,
+      creditCents: 0,
+      disposition: "REFUNDED",
+    });
+  });
+
+  await t.test("refuses refunds beyond the held deposit", () => {
+    assert.throws(
+      () => settleTransferDeposit({ invoice, depositPaidCents: null, refundCents: 40_001 }),
+      (err: any) => err.message === "refund_exceeds_deposit" && err.statusCode === 400
+    );
+  });
+
+  await t.test("holds the recorded deposit without an invoice but can't refund it", () => {
+    assert.deepStrictEqual(settleTransferDeposit({ invoice: null, depositPaidCents: 20_000, refundCents: 0 }), {
+      heldCents: 20_000,
+      creditCents: 20_000,
+      disposition: "CARRIED_OVER",
+    });
+    assert.deepStrictEqual(settleTransferDeposit({ invoice: null, depositPaidCents: null, refundCents: 0 }), {
+      heldCents: 0,
+      creditCents: 0,
+      disposition: null,
+    });
+    assert.throws(
+      () => settleTransferDeposit({ invoice: null, depositPaidCents: 20_000, refundCents: 5_000 }),
+      /no_deposit_invoice/
+    );
+  });
+});
+
+test("Waitlist Transfer - Plan buyer link", async (t) => {
+  const link = (id: number, planId: number, stage: string, programId: number | null) => ({
+    id,
+    planId,
+    stage,
+    plan: { programId },
+  });
+
+  await t.test("moves the link on the entry's plan", () => {
+    const links = [link(1, 10, "ASSIGNED", 5), link(2, 11, "POSSIBLE_MATCH", 5)];
+    assert.strictEqual(transferSourceLink(links, { planId: 11, programId: 5 })?.id, 2);
+  });
+
+  await t.test("leaves links on other plans alone when the plan has none", () => {
+    const links = [link(1, 10, "ASSIGNED", 5)];
+    assert.strictEqual(transferSourceLink(links, { planId: 11, programId: 5 }), null);
+  });
+
+  await t.test("moves the one advanced link on the entry's program", () => {
+    const links = [link(1, 10, "POSSIBLE_MATCH", 5), link(2, 11, "ASSIGNED", 5), link(3, 12, "ASSIGNED", 6)];
+    assert.strictEqual(transferSourceLink(links, { planId: null, programId: 5 })?.id, 2);
+  });
+
+  await t.test("picks none when the program has several advanced links", () => {
+    const links = [link(1, 10, "ASSIGNED", 5), link(2, 11, "DEPOSIT_PAID", 5)];
+    assert.strictEqual(transferSourceLink(links, { planId: null, programId: 5 }), null);
+    assert.strictEqual(transferSourceLink(links, { planId: null, programId: null }), null);
+  });
+});
+
+test("Invoice refund update", async (t) => {
+  await t.test("adds a partial refund without changing the status", () => {
+    assert.deepStrictEqual(invoiceRefundUpdate(50_000, 10_000, 15_000), { refundedCents: 25_000 });
+  });
+
+  await t.test("marks the invoice refunded once everything collected is refunded", () => {
+    assert.deepStrictEqual(invoiceRefundUpdate(50_000, 10_000, 40_000), {
+      refundedCents: 50_000,
+      status: "refunded",
+    });
+  });
+
+  await t.test("rejects refunds that aren't positive or exceed what was paid", () => {
+    assert.throws(() => invoiceRefundUpdate(50_000, 0, 0), /refund_amount_must_be_positive/);
+    assert.throws(() => invoiceRefundUpdate(50_000, 0, 12.5), /refund_amount_must_be_positive/);
+    assert.throws(() => invoiceRefundUpdate(50_000, 10_000, 40_001), /refund_amount_exceeds_total_paid/);
+  });
+});
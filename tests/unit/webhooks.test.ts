@@ -0,0 +1,92 @@
+/**
+ * Unit Tests for Outbound Webhooks
+ *
+ * Tests delivery signing, endpoint URL checks, the retry backoff schedule
+ * and event payload serialization (no database or network).
+ *
+ * Run: npx tsx --test tests/unit/webhooks.test.ts
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { createHmac } from "node:crypto";
+import {
+  generateWebhookSecret,
+  isPrivateAddress,
+  isWebhookEventType,
+  nextWebhookAttemptAt,
+  toWebhookData,
+  validateWebhookUrl,
+  webhookSignatureHeader,
+  WEBHOOK_MAX_ATTEMPTS,
+} from "../../src/services/webhooks/index.js";
+
+test("Outbound Webhooks", async (t) => {
+  await t.test("signs the timestamp and raw body with the endpoint secret", () => {
+    const secret = generateWebhookSecret();
+    const body = JSON.stringify({ id: "evt_1", type: "animal.created" });
+    const now = new Date("2026-10-19T12:00:00Z");
+
+    const header = webhookSignatureHeader(secret, body, now);
+    const expected = createHmac("sha256", secret).update(`1792411200.${body}`).digest("hex");
+
+    assert.match(secret, /^whsec_[0-9a-f]{48}$/);
+    assert.strictEqual(header, `t=1792411200,v1=${expected}`);
+    assert.notStrictEqual(webhookSignatureHeader(secret, `${body} `, now), header);
+  });
+
+  await t.test("accepts only public https URLs", () => {
+    assert.strictEqual(validateWebhookUrl("https://hooks.example.com/breederhq?x=1"), null);
+    assert.strictEqual(validateWebhookUrl("https://93.184.216.34/hook"), null);
+
+    assert.strictEqual(validateWebhookUrl("http://hooks.example.com"), "url must use https");
+    assert.strictEqual(validateWebhookUrl("not a url"), "url must be a valid absolute URL");
+    assert.strictEqual(validateWebhookUrl("https://user:pw@example.com"), "url must not contain credentials");
+    for (const url of [
+      "https://localhost/hook",
+      "https://api.localhost",
+      "https://printer.local",
+      "https://127.0.0.1:8443",
+      "https://10.1.2.3",
+      "https://169.254.169.254/latest/meta-data",
+      "https://[::1]/hook",
+      "https://[fd00::1]",
+    ]) {
+      assert.strictEqual(validateWebhookUrl(url), "url must point to a public host", url);
+    }
+  });
+
+  await t.test("recognizes private and reserved addresses", () => {
+    for (const ip of ["127.0.0.1", "10.0.0.8", "172.20.1.1", "192.168.1.1", "100.64.0.1", "0.0.0.0", "::", "fe80::1", "::ffff:10.0.0.1"]) {
+      assert.strictEqual(isPrivateAddress(ip), true, ip);
+    }
+    // IPv4 embedded in IPv6: mapped (either notation), compatible, NAT64, 6to4 and Teredo
+    for (const ip of ["::ffff:7f00:1", "::127.0.0.1", "64:ff9b::a00:1", "64:ff9b:1::1", "2002:a00:1::1", "2001:0:4136:e378::1"]) {
+      assert.strictEqual(isPrivateAddress(ip), true, ip);
+    }
+    for (const ip of ["8.8.8.8", "172.32.0.1", "2606:4700:4700::1111", "::ffff:8.8.8.8"]) {
+      assert.strictEqual(isPrivateAddress(ip), false, ip);
+    }
+  });
+
+  await t.test("backs off exponentially and stops after the last attempt", () => {
+    const now = new Date("2026-10-19T00:00:00Z");
+    const delays = [];
+    for (let attempts = 1; attempts < WEBHOOK_MAX_ATTEMPTS; attempts++) {
+      delays.push((nextWebhookAttemptAt(attempts, now)!.getTime() - now.getTime()) / 60_000);
+    }
+
+    assert.deepStrictEqual(delays, [1, 5, 30, 120, 360, 720, 1440]);
+    assert.strictEqual(nextWebhookAttemptAt(WEBHOOK_MAX_ATTEMPTS, now), null);
+  });
+
+  await t.test("serializes BigInt amounts and dates in event data", () => {
+    const data = toWebhookData({
+      invoice: { id: 7, amountCents: 125000n, paidAt: new Date("2026-10-19T08:30:00Z") },
+    });
+
+    assert.deepStrictEqual(data, { invoice: { id: 7, amountCents: 125000, paidAt: "2026-10-19T08:30:00.000Z" } });
+    assert.strictEqual(isWebhookEventType("invoice.paid"), true);
+    assert.strictEqual(isWebhookEventType("webhook.ping"), false);
+  });
+});